@@ -0,0 +1,373 @@
+-- Migration to serve the stock report from closing_stock
+-- The report now reads closing_stock_view directly, so the trigger has to agree with
+-- the transaction replay for godown rows written with a location id such as 'GODOWN_MAIN'.
+
+-- Normalize location ids: the godown is always stored with an empty location id
+CREATE OR REPLACE FUNCTION public.closing_stock_location_id(p_location_type TEXT, p_location_id TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_location_type = 'GODOWN' THEN ''
+    ELSE COALESCE(p_location_id, '')
+  END;
+$$;
+
+-- Recreate the closing stock trigger function with normalized godown location ids
+CREATE OR REPLACE FUNCTION update_closing_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID;
+  v_batch_id UUID;
+  v_location_type TEXT;
+  v_location_id TEXT;
+  v_quantity_change INTEGER;
+  v_cost_per_strip NUMERIC(10,2);
+  v_current_record RECORD;
+BEGIN
+  -- Determine which table triggered this function
+  IF TG_TABLE_NAME = 'stock_purchases' THEN
+    -- Purchases always go in and out of the GODOWN
+    v_location_type := 'GODOWN';
+    v_location_id := '';
+
+    IF TG_OP = 'DELETE' THEN
+      -- Reverse the effect of the deleted purchase
+      v_product_id := OLD.product_id;
+      v_batch_id := OLD.batch_id;
+      v_quantity_change := -OLD.quantity_strips;
+      v_cost_per_strip := OLD.cost_per_strip;
+    ELSE
+      IF TG_OP = 'UPDATE' THEN
+        -- Nothing to do unless the edit touches what the purchase put in stock
+        IF (OLD.product_id, OLD.batch_id, OLD.quantity_strips, OLD.cost_per_strip) IS NOT DISTINCT FROM
+           (NEW.product_id, NEW.batch_id, NEW.quantity_strips, NEW.cost_per_strip) THEN
+          RETURN NEW;
+        END IF;
+
+        -- Take the purchase out as it was; it is added back as edited below
+        UPDATE public.closing_stock
+        SET quantity_strips = GREATEST(0, quantity_strips - OLD.quantity_strips),
+            last_updated_at = now()
+        WHERE product_id = OLD.product_id
+          AND batch_id = OLD.batch_id
+          AND location_type = 'GODOWN'
+          AND location_id = '';
+      END IF;
+
+      -- For purchases, always add to GODOWN
+      v_product_id := NEW.product_id;
+      v_batch_id := NEW.batch_id;
+      v_quantity_change := NEW.quantity_strips;
+      v_cost_per_strip := NEW.cost_per_strip;
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'stock_sales' THEN
+    v_product_id := NEW.product_id;
+    v_batch_id := NEW.batch_id;
+    v_cost_per_strip := NEW.cost_per_strip;
+
+    IF TG_OP = 'INSERT' THEN
+      -- For sales, handle based on transaction type
+      IF NEW.transaction_type = 'DISPATCH_TO_MR' THEN
+        -- Decrease from source (GODOWN)
+        UPDATE public.closing_stock
+        SET quantity_strips = GREATEST(0, quantity_strips - NEW.quantity_strips),
+            last_updated_at = now()
+        WHERE product_id = NEW.product_id
+          AND batch_id = NEW.batch_id
+          AND location_type = NEW.location_type_source
+          AND location_id = public.closing_stock_location_id(NEW.location_type_source, NEW.location_id_source);
+
+        -- Increase at destination (MR)
+        INSERT INTO public.closing_stock (
+          product_id, batch_id, location_type, location_id,
+          quantity_strips, cost_per_strip, last_updated_at
+        ) VALUES (
+          NEW.product_id, NEW.batch_id, NEW.location_type_destination, NEW.location_id_destination,
+          NEW.quantity_strips, NEW.cost_per_strip, now()
+        ) ON CONFLICT (product_id, batch_id, location_type, location_id)
+        DO UPDATE SET
+          quantity_strips = public.closing_stock.quantity_strips + NEW.quantity_strips,
+          cost_per_strip = NEW.cost_per_strip,
+          last_updated_at = now();
+
+        -- Return early as we've handled this case specifically
+        RETURN NEW;
+      ELSIF NEW.transaction_type IN ('SALE_DIRECT_GODOWN', 'SALE_BY_MR') THEN
+        -- For sales, decrease from source
+        v_location_type := NEW.location_type_source;
+        v_location_id := public.closing_stock_location_id(NEW.location_type_source, NEW.location_id_source);
+        v_quantity_change := -NEW.quantity_strips;
+      END IF;
+    ELSIF TG_OP = 'DELETE' THEN
+      -- Reverse the effect of the deleted sale
+      IF OLD.transaction_type = 'DISPATCH_TO_MR' THEN
+        -- Add back to source (GODOWN)
+        UPDATE public.closing_stock
+        SET quantity_strips = quantity_strips + OLD.quantity_strips,
+            last_updated_at = now()
+        WHERE product_id = OLD.product_id
+          AND batch_id = OLD.batch_id
+          AND location_type = OLD.location_type_source
+          AND location_id = public.closing_stock_location_id(OLD.location_type_source, OLD.location_id_source);
+
+        -- Remove from destination (MR)
+        UPDATE public.closing_stock
+        SET quantity_strips = GREATEST(0, quantity_strips - OLD.quantity_strips),
+            last_updated_at = now()
+        WHERE product_id = OLD.product_id
+          AND batch_id = OLD.batch_id
+          AND location_type = OLD.location_type_destination
+          AND location_id = OLD.location_id_destination;
+
+        -- Return early as we've handled this case specifically
+        RETURN OLD;
+      ELSIF OLD.transaction_type IN ('SALE_DIRECT_GODOWN', 'SALE_BY_MR') THEN
+        -- For deleted sales, add back to source
+        v_product_id := OLD.product_id;
+        v_batch_id := OLD.batch_id;
+        v_location_type := OLD.location_type_source;
+        v_location_id := public.closing_stock_location_id(OLD.location_type_source, OLD.location_id_source);
+        v_quantity_change := OLD.quantity_strips;
+        v_cost_per_strip := OLD.cost_per_strip;
+      END IF;
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'stock_adjustments' THEN
+    v_product_id := NEW.product_id;
+    v_batch_id := NEW.batch_id;
+    v_cost_per_strip := NEW.cost_per_strip;
+
+    IF TG_OP = 'INSERT' THEN
+      -- For adjustments, handle based on adjustment type
+      IF NEW.adjustment_type LIKE 'RETURN_TO_GODOWN%' THEN
+        -- Add to GODOWN
+        INSERT INTO public.closing_stock (
+          product_id, batch_id, location_type, location_id,
+          quantity_strips, cost_per_strip, last_updated_at
+        ) VALUES (
+          NEW.product_id, NEW.batch_id, 'GODOWN', '',
+          NEW.quantity_strips, NEW.cost_per_strip, now()
+        ) ON CONFLICT (product_id, batch_id, location_type, location_id)
+        DO UPDATE SET
+          quantity_strips = public.closing_stock.quantity_strips + NEW.quantity_strips,
+          last_updated_at = now();
+
+        -- Remove from MR if that's the source
+        IF NEW.location_type_source = 'MR' AND NEW.location_id_source IS NOT NULL THEN
+          UPDATE public.closing_stock
+          SET quantity_strips = GREATEST(0, quantity_strips - NEW.quantity_strips),
+              last_updated_at = now()
+          WHERE product_id = NEW.product_id
+            AND batch_id = NEW.batch_id
+            AND location_type = 'MR'
+            AND location_id = NEW.location_id_source;
+        END IF;
+
+        -- Return early as we've handled this case specifically
+        RETURN NEW;
+      ELSIF NEW.adjustment_type LIKE 'ADJUST_DAMAGE_%' OR
+            NEW.adjustment_type LIKE 'ADJUST_LOSS_%' OR
+            NEW.adjustment_type LIKE 'ADJUST_EXPIRED_%' THEN
+        -- For losses/damages, decrease from source
+        IF NEW.adjustment_type LIKE '%_GODOWN' THEN
+          v_location_type := 'GODOWN';
+          v_location_id := '';
+        ELSIF NEW.adjustment_type LIKE '%_MR' THEN
+          v_location_type := 'MR';
+          v_location_id := COALESCE(NEW.location_id_source, '');
+        END IF;
+        v_quantity_change := -NEW.quantity_strips;
+      ELSIF NEW.adjustment_type LIKE 'OPENING_STOCK_%' THEN
+        -- For opening stock, add to location
+        IF NEW.adjustment_type = 'OPENING_STOCK_GODOWN' THEN
+          v_location_type := 'GODOWN';
+          v_location_id := '';
+        ELSIF NEW.adjustment_type = 'OPENING_STOCK_MR' THEN
+          v_location_type := 'MR';
+          v_location_id := COALESCE(NEW.location_id_destination, '');
+        END IF;
+        v_quantity_change := NEW.quantity_strips;
+      ELSIF NEW.adjustment_type LIKE 'REPLACEMENT_%' THEN
+        -- For replacements, decrease from source
+        IF NEW.adjustment_type = 'REPLACEMENT_FROM_GODOWN' THEN
+          v_location_type := 'GODOWN';
+          v_location_id := '';
+        ELSIF NEW.adjustment_type = 'REPLACEMENT_FROM_MR' THEN
+          v_location_type := 'MR';
+          v_location_id := COALESCE(NEW.location_id_source, '');
+        END IF;
+        v_quantity_change := -NEW.quantity_strips;
+      END IF;
+    ELSIF TG_OP = 'DELETE' THEN
+      -- Reverse the effect of the deleted adjustment
+      IF OLD.adjustment_type LIKE 'RETURN_TO_GODOWN%' THEN
+        -- Remove from GODOWN
+        UPDATE public.closing_stock
+        SET quantity_strips = GREATEST(0, quantity_strips - OLD.quantity_strips),
+            last_updated_at = now()
+        WHERE product_id = OLD.product_id
+          AND batch_id = OLD.batch_id
+          AND location_type = 'GODOWN'
+          AND location_id = '';
+
+        -- Add back to MR if that was the source
+        IF OLD.location_type_source = 'MR' AND OLD.location_id_source IS NOT NULL THEN
+          UPDATE public.closing_stock
+          SET quantity_strips = quantity_strips + OLD.quantity_strips,
+              last_updated_at = now()
+          WHERE product_id = OLD.product_id
+            AND batch_id = OLD.batch_id
+            AND location_type = 'MR'
+            AND location_id = OLD.location_id_source;
+        END IF;
+
+        -- Return early as we've handled this case specifically
+        RETURN OLD;
+      ELSIF OLD.adjustment_type LIKE 'ADJUST_DAMAGE_%' OR
+            OLD.adjustment_type LIKE 'ADJUST_LOSS_%' OR
+            OLD.adjustment_type LIKE 'ADJUST_EXPIRED_%' THEN
+        -- For deleted losses/damages, add back to source
+        v_product_id := OLD.product_id;
+        v_batch_id := OLD.batch_id;
+        IF OLD.adjustment_type LIKE '%_GODOWN' THEN
+          v_location_type := 'GODOWN';
+          v_location_id := '';
+        ELSIF OLD.adjustment_type LIKE '%_MR' THEN
+          v_location_type := 'MR';
+          v_location_id := COALESCE(OLD.location_id_source, '');
+        END IF;
+        v_quantity_change := OLD.quantity_strips;
+        v_cost_per_strip := OLD.cost_per_strip;
+      ELSIF OLD.adjustment_type LIKE 'OPENING_STOCK_%' THEN
+        -- For deleted opening stock, remove from location
+        v_product_id := OLD.product_id;
+        v_batch_id := OLD.batch_id;
+        IF OLD.adjustment_type = 'OPENING_STOCK_GODOWN' THEN
+          v_location_type := 'GODOWN';
+          v_location_id := '';
+        ELSIF OLD.adjustment_type = 'OPENING_STOCK_MR' THEN
+          v_location_type := 'MR';
+          v_location_id := COALESCE(OLD.location_id_destination, '');
+        END IF;
+        v_quantity_change := -OLD.quantity_strips;
+        v_cost_per_strip := OLD.cost_per_strip;
+      ELSIF OLD.adjustment_type LIKE 'REPLACEMENT_%' THEN
+        -- For deleted replacements, add back to source
+        v_product_id := OLD.product_id;
+        v_batch_id := OLD.batch_id;
+        IF OLD.adjustment_type = 'REPLACEMENT_FROM_GODOWN' THEN
+          v_location_type := 'GODOWN';
+          v_location_id := '';
+        ELSIF OLD.adjustment_type = 'REPLACEMENT_FROM_MR' THEN
+          v_location_type := 'MR';
+          v_location_id := COALESCE(OLD.location_id_source, '');
+        END IF;
+        v_quantity_change := OLD.quantity_strips;
+        v_cost_per_strip := OLD.cost_per_strip;
+      END IF;
+    END IF;
+  END IF;
+
+  -- If we have all necessary values, update the closing_stock table
+  IF v_product_id IS NOT NULL AND v_batch_id IS NOT NULL AND
+     v_location_type IS NOT NULL AND v_quantity_change IS NOT NULL THEN
+
+    -- Normalize location_id: empty string if NULL, and always empty for the GODOWN
+    v_location_id := public.closing_stock_location_id(v_location_type, v_location_id);
+
+    -- Check if record exists
+    SELECT * INTO v_current_record
+    FROM public.closing_stock
+    WHERE product_id = v_product_id
+      AND batch_id = v_batch_id
+      AND location_type = v_location_type
+      AND location_id = v_location_id;
+
+    IF FOUND THEN
+      -- Update existing record
+      UPDATE public.closing_stock
+      SET quantity_strips = GREATEST(0, quantity_strips + v_quantity_change),
+          -- Only update cost_per_strip if it's an inflow (positive quantity change)
+          cost_per_strip = CASE WHEN v_quantity_change > 0 THEN v_cost_per_strip ELSE cost_per_strip END,
+          last_updated_at = now()
+      WHERE product_id = v_product_id
+        AND batch_id = v_batch_id
+        AND location_type = v_location_type
+        AND location_id = v_location_id;
+    ELSE
+      -- Only insert for positive quantity changes
+      IF v_quantity_change > 0 THEN
+        INSERT INTO public.closing_stock (
+          product_id, batch_id, location_type, location_id,
+          quantity_strips, cost_per_strip, last_updated_at
+        ) VALUES (
+          v_product_id, v_batch_id, v_location_type, v_location_id,
+          v_quantity_change, v_cost_per_strip, now()
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  -- Return the appropriate record based on operation
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSE
+    RETURN NEW;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Index used by the report to skip exhausted rows
+CREATE INDEX IF NOT EXISTS idx_closing_stock_positive_quantity
+  ON public.closing_stock(quantity_strips) WHERE quantity_strips > 0;
+
+-- Summary figures for the stock report, computed with the same filters as the table
+CREATE OR REPLACE FUNCTION public.get_closing_stock_summary(
+  p_location_type TEXT DEFAULT NULL,
+  p_location_id TEXT DEFAULT NULL,
+  p_product_search TEXT DEFAULT NULL,
+  p_category_name TEXT DEFAULT NULL,
+  p_batch_search TEXT DEFAULT NULL,
+  p_expiry_from DATE DEFAULT NULL,
+  p_expiry_to DATE DEFAULT NULL,
+  p_expiring_within_days INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  total_products BIGINT,
+  total_batches BIGINT,
+  total_value NUMERIC,
+  low_stock_items BIGINT,
+  expiring_soon_items BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(DISTINCT csv.product_id),
+    COUNT(DISTINCT csv.batch_id),
+    COALESCE(SUM(csv.total_value), 0),
+    COUNT(*) FILTER (
+      WHERE csv.quantity_strips <= CASE
+        WHEN csv.location_type = 'GODOWN' THEN COALESCE(csv.min_stock_level_godown, 0)
+        ELSE COALESCE(csv.min_stock_level_mr, 0)
+      END
+    ),
+    COUNT(*) FILTER (WHERE csv.expiry_date <= CURRENT_DATE + p_expiring_within_days)
+  FROM public.closing_stock_view csv
+  WHERE csv.quantity_strips > 0
+    AND (p_location_type IS NULL OR csv.location_type = p_location_type)
+    AND (p_location_id IS NULL OR csv.location_id = p_location_id)
+    AND (p_product_search IS NULL
+         OR csv.product_name ILIKE '%' || p_product_search || '%'
+         OR csv.product_code ILIKE '%' || p_product_search || '%')
+    AND (p_category_name IS NULL OR csv.category_name = p_category_name)
+    AND (p_batch_search IS NULL OR csv.batch_number ILIKE '%' || p_batch_search || '%')
+    AND (p_expiry_from IS NULL OR csv.expiry_date >= p_expiry_from)
+    AND (p_expiry_to IS NULL OR csv.expiry_date <= p_expiry_to);
+$$;
+
+-- Rebuild closing stock so godown rows reflect sales and dispatches recorded before this fix
+SELECT populate_initial_closing_stock();
@@ -0,0 +1,20 @@
+-- Migration to support the stock reconciliation screen
+
+-- Admin-only wrapper so the rebuild can be triggered from the app.
+-- populate_initial_closing_stock() truncates closing_stock, which the authenticated role cannot do directly.
+CREATE OR REPLACE FUNCTION public.rebuild_closing_stock()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can rebuild closing stock';
+  END IF;
+
+  PERFORM populate_initial_closing_stock();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rebuild_closing_stock() TO authenticated;
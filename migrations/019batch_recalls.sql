@@ -0,0 +1,115 @@
+-- Migration for the batch recall workflow
+-- A recall freezes the batch, then recovers stock from MRs and customers into the godown
+-- with RETURN_TO_GODOWN adjustments and writes it off with ADJUST_EXPIRED_GODOWN.
+
+CREATE SEQUENCE IF NOT EXISTS public.batch_recall_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.batch_recalls (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recall_number TEXT NOT NULL UNIQUE DEFAULT 'RCL-' || lpad(nextval('public.batch_recall_number_seq')::text, 5, '0'),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  batch_id UUID NOT NULL REFERENCES public.product_batches(id) ON DELETE RESTRICT,
+  reason TEXT NOT NULL,
+  manufacturer_reference TEXT,
+  status TEXT NOT NULL DEFAULT 'Open',
+  previous_batch_status TEXT NOT NULL,
+  notes TEXT,
+  initiated_by UUID REFERENCES auth.users(id),
+  initiated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_by UUID REFERENCES auth.users(id),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_recall_status CHECK (status IN ('Open', 'Completed', 'Cancelled'))
+);
+
+-- Only one open recall per batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batch_recalls_open_batch
+  ON public.batch_recalls(batch_id)
+  WHERE status = 'Open';
+
+CREATE INDEX IF NOT EXISTS idx_batch_recalls_product_id ON public.batch_recalls(product_id);
+
+CREATE TRIGGER update_batch_recalls_updated_at
+  BEFORE UPDATE ON public.batch_recalls
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.batch_recalls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage batch recalls"
+  ON public.batch_recalls
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Opening a recall marks the batch Recalled, remembering its status; cancelling the recall
+-- restores it. Done here so the recall and the batch cannot get out of step.
+CREATE OR REPLACE FUNCTION public.sync_recalled_batch_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT status INTO NEW.previous_batch_status
+    FROM public.product_batches
+    WHERE id = NEW.batch_id
+    FOR UPDATE;
+
+    UPDATE public.product_batches
+    SET status = 'Recalled'
+    WHERE id = NEW.batch_id;
+  ELSIF OLD.status = 'Open' AND NEW.status = 'Cancelled' THEN
+    UPDATE public.product_batches
+    SET status = OLD.previous_batch_status
+    WHERE id = OLD.batch_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_recalled_batch_status_trigger ON public.batch_recalls;
+CREATE TRIGGER sync_recalled_batch_status_trigger
+  BEFORE INSERT OR UPDATE OF status ON public.batch_recalls
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_recalled_batch_status();
+
+-- Link recall returns and write-offs back to their recall
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS recall_id UUID REFERENCES public.batch_recalls(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_recall_id
+  ON public.stock_adjustments(recall_id)
+  WHERE recall_id IS NOT NULL;
+
+-- Freeze recalled batches: no further dispatches or sales
+CREATE OR REPLACE FUNCTION public.prevent_recalled_batch_sales()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_batch_status TEXT;
+BEGIN
+  SELECT status INTO v_batch_status
+  FROM public.product_batches
+  WHERE id = NEW.batch_id;
+
+  IF v_batch_status = 'Recalled' THEN
+    RAISE EXCEPTION 'Batch % has been recalled and cannot be dispatched or sold', NEW.batch_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_recalled_batch_sales_trigger ON public.stock_sales;
+CREATE TRIGGER prevent_recalled_batch_sales_trigger
+  BEFORE INSERT ON public.stock_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_recalled_batch_sales();
@@ -0,0 +1,81 @@
+-- Migration to enforce batch status and expiry on outbound stock movements
+-- Dispatches, sales and replacements from an expired, quarantined or recalled batch are
+-- rejected at insert time. An admin can override expiry and quarantine with a justification,
+-- which is stored on the row together with the admin who gave it. Recalls cannot be overridden.
+
+ALTER TABLE public.stock_sales
+  ADD COLUMN IF NOT EXISTS override_justification TEXT,
+  ADD COLUMN IF NOT EXISTS override_by UUID REFERENCES auth.users(id);
+
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS override_justification TEXT,
+  ADD COLUMN IF NOT EXISTS override_by UUID REFERENCES auth.users(id);
+
+CREATE OR REPLACE FUNCTION public.validate_outbound_batch()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_batch RECORD;
+  v_movement_date DATE;
+  v_restriction TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'stock_adjustments' THEN
+    -- Returns, write-offs and opening stock may legitimately involve expired or recalled stock
+    IF NEW.adjustment_type NOT LIKE 'REPLACEMENT_FROM_%' THEN
+      RETURN NEW;
+    END IF;
+    v_movement_date := NEW.adjustment_date::date;
+  ELSE
+    v_movement_date := NEW.sale_date::date;
+  END IF;
+
+  SELECT batch_number, status, expiry_date INTO v_batch
+  FROM public.product_batches
+  WHERE id = NEW.batch_id;
+
+  IF v_batch.status = 'Recalled' THEN
+    RAISE EXCEPTION 'Batch % has been recalled and cannot be dispatched or sold', v_batch.batch_number
+      USING ERRCODE = 'check_violation';
+  ELSIF v_batch.status = 'Quarantined' THEN
+    v_restriction := format('Batch %s is quarantined', v_batch.batch_number);
+  ELSIF v_batch.status = 'Expired' THEN
+    v_restriction := format('Batch %s is marked Expired', v_batch.batch_number);
+  ELSIF v_batch.expiry_date < v_movement_date THEN
+    v_restriction := format('Batch %s expired on %s', v_batch.batch_number, to_char(v_batch.expiry_date, 'YYYY-MM-DD'));
+  END IF;
+
+  IF v_restriction IS NULL THEN
+    NEW.override_justification := NULL;
+    NEW.override_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NULLIF(btrim(NEW.override_justification), '') IS NULL THEN
+    RAISE EXCEPTION '%. An admin override with a justification is required.', v_restriction
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION '%. Only an admin can override this restriction.', v_restriction
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.override_by := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replaces the recall-only freeze added with batch recalls
+DROP TRIGGER IF EXISTS prevent_recalled_batch_sales_trigger ON public.stock_sales;
+DROP FUNCTION IF EXISTS public.prevent_recalled_batch_sales();
+
+DROP TRIGGER IF EXISTS validate_outbound_batch_sales_trigger ON public.stock_sales;
+CREATE TRIGGER validate_outbound_batch_sales_trigger
+  BEFORE INSERT ON public.stock_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_outbound_batch();
+
+DROP TRIGGER IF EXISTS validate_outbound_batch_adjustments_trigger ON public.stock_adjustments;
+CREATE TRIGGER validate_outbound_batch_adjustments_trigger
+  BEFORE INSERT ON public.stock_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_outbound_batch();
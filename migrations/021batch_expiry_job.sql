@@ -0,0 +1,199 @@
+-- Migration for the daily batch expiry job
+-- Batches past their expiry date are marked Expired, and every location still holding
+-- expired stock gets a draft write-off. Drafts change no stock; an admin reviews them on the
+-- Stock Adjustments page and posts each one as an ADJUST_EXPIRED_GODOWN / ADJUST_EXPIRED_MR
+-- adjustment, or dismisses it. A reviewed draft is not proposed again for the same batch,
+-- location and expiry date. A batch can still be dispatched and sold on its expiry date, as
+-- validate_outbound_batch() allows, so it is marked Expired the day after.
+--
+-- Run locally with:  SELECT * FROM public.mark_expired_batches();
+-- or for a given day: SELECT * FROM public.mark_expired_batches('2025-01-31');
+
+CREATE TABLE IF NOT EXISTS public.expiry_write_off_drafts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES public.product_batches(id) ON DELETE CASCADE,
+  location_type TEXT NOT NULL,
+  location_id TEXT NOT NULL DEFAULT '',
+  -- The batch's expiry date when the draft was proposed
+  expiry_date DATE NOT NULL,
+  quantity_strips INTEGER NOT NULL,
+  cost_per_strip NUMERIC(10,2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'Draft',
+  adjustment_id UUID REFERENCES public.stock_adjustments(adjustment_id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_expiry_draft_status CHECK (status IN ('Draft', 'Posted', 'Dismissed')),
+  CONSTRAINT valid_expiry_draft_location CHECK (location_type IN ('GODOWN', 'MR'))
+);
+
+-- One open draft per batch and location, refreshed by every run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expiry_write_off_drafts_open
+  ON public.expiry_write_off_drafts(batch_id, location_type, location_id)
+  WHERE status = 'Draft';
+
+CREATE INDEX IF NOT EXISTS idx_expiry_write_off_drafts_status
+  ON public.expiry_write_off_drafts(status);
+
+CREATE INDEX IF NOT EXISTS idx_expiry_write_off_drafts_batch
+  ON public.expiry_write_off_drafts(batch_id, location_type, location_id, expiry_date);
+
+CREATE TRIGGER update_expiry_write_off_drafts_updated_at
+  BEFORE UPDATE ON public.expiry_write_off_drafts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.expiry_write_off_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage expiry write-off drafts"
+  ON public.expiry_write_off_drafts
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.mark_expired_batches(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(batches_marked INTEGER, drafts_proposed INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batches_marked INTEGER;
+  v_drafts_proposed INTEGER;
+BEGIN
+  -- Scheduled runs come from the database itself (no request role) or the service role;
+  -- everyone else calling over the API must be an admin
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role'
+    AND NOT COALESCE(public.is_admin(auth.uid()), false) THEN
+    RAISE EXCEPTION 'Only an admin can run the batch expiry job'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Recalled batches keep their status so the recall stays visible
+  UPDATE public.product_batches
+  SET status = 'Expired'
+  WHERE expiry_date < p_as_of
+    AND status NOT IN ('Expired', 'Recalled');
+  GET DIAGNOSTICS v_batches_marked = ROW_COUNT;
+
+  -- Stock under an open recall is written off through the recall instead
+  INSERT INTO public.expiry_write_off_drafts (
+    product_id, batch_id, location_type, location_id, expiry_date, quantity_strips, cost_per_strip
+  )
+  SELECT cs.product_id, cs.batch_id, cs.location_type, COALESCE(cs.location_id, ''), pb.expiry_date,
+         cs.quantity_strips, cs.cost_per_strip
+  FROM public.closing_stock cs
+  JOIN public.product_batches pb ON pb.id = cs.batch_id
+  WHERE pb.expiry_date < p_as_of
+    AND cs.location_type IN ('GODOWN', 'MR')
+    AND cs.quantity_strips > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM public.batch_recalls br
+      WHERE br.batch_id = cs.batch_id AND br.status = 'Open'
+    )
+    -- Stock an admin has already posted or dismissed for this expiry is not proposed again
+    AND NOT EXISTS (
+      SELECT 1 FROM public.expiry_write_off_drafts reviewed
+      WHERE reviewed.batch_id = cs.batch_id
+        AND reviewed.location_type = cs.location_type
+        AND reviewed.location_id = COALESCE(cs.location_id, '')
+        AND reviewed.expiry_date = pb.expiry_date
+        AND reviewed.status IN ('Posted', 'Dismissed')
+    )
+  ON CONFLICT (batch_id, location_type, location_id) WHERE status = 'Draft'
+  DO UPDATE SET expiry_date = EXCLUDED.expiry_date,
+                quantity_strips = EXCLUDED.quantity_strips,
+                cost_per_strip = EXCLUDED.cost_per_strip;
+  GET DIAGNOSTICS v_drafts_proposed = ROW_COUNT;
+
+  -- Drafts for stock that has since been returned, sold or written off are no longer needed
+  DELETE FROM public.expiry_write_off_drafts d
+  WHERE d.status = 'Draft'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.closing_stock cs
+      WHERE cs.batch_id = d.batch_id
+        AND cs.location_type = d.location_type
+        AND COALESCE(cs.location_id, '') = d.location_id
+        AND cs.quantity_strips > 0
+    );
+
+  RETURN QUERY SELECT v_batches_marked, v_drafts_proposed;
+END;
+$$;
+
+-- Posts a draft as an ADJUST_EXPIRED_GODOWN / ADJUST_EXPIRED_MR adjustment and marks it Posted in
+-- one transaction. The draft row is locked so two reviewers cannot post it twice.
+-- Runs as the caller: the draft and adjustment policies decide who may post it.
+CREATE OR REPLACE FUNCTION public.post_expiry_write_off_draft(p_draft_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_draft public.expiry_write_off_drafts%ROWTYPE;
+  v_batch_number TEXT;
+  v_adjustment_id UUID;
+BEGIN
+  SELECT * INTO v_draft
+  FROM public.expiry_write_off_drafts
+  WHERE id = p_draft_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expiry write-off draft % not found', p_draft_id;
+  END IF;
+
+  IF v_draft.status <> 'Draft' THEN
+    RAISE EXCEPTION 'Expiry write-off draft is already %', lower(v_draft.status);
+  END IF;
+
+  SELECT batch_number INTO v_batch_number
+  FROM public.product_batches
+  WHERE id = v_draft.batch_id;
+
+  INSERT INTO public.stock_adjustments (
+    adjustment_group_id, product_id, batch_id, adjustment_type, quantity_strips,
+    location_type_source, location_id_source, location_type_destination, location_id_destination,
+    adjustment_date, cost_per_strip, notes, created_by
+  ) VALUES (
+    gen_random_uuid(), v_draft.product_id, v_draft.batch_id,
+    CASE WHEN v_draft.location_type = 'MR' THEN 'ADJUST_EXPIRED_MR' ELSE 'ADJUST_EXPIRED_GODOWN' END,
+    v_draft.quantity_strips,
+    v_draft.location_type,
+    CASE WHEN v_draft.location_type = 'MR' THEN v_draft.location_id ELSE 'GODOWN' END,
+    'EXPIRED', 'EXPIRED',
+    CURRENT_DATE, v_draft.cost_per_strip,
+    'Expiry write-off (batch ' || COALESCE(v_batch_number, v_draft.batch_id::text) || ')',
+    auth.uid()
+  )
+  RETURNING adjustment_id INTO v_adjustment_id;
+
+  UPDATE public.expiry_write_off_drafts
+  SET status = 'Posted',
+      adjustment_id = v_adjustment_id,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_draft_id;
+
+  RETURN v_adjustment_id;
+END;
+$$;
+
+-- Marking batches Expired blocks their sale, so the job is not open to anonymous callers
+REVOKE EXECUTE ON FUNCTION public.mark_expired_batches(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_expired_batches(DATE) TO authenticated, service_role;
+
+-- Schedule the job daily where pg_cron is available; elsewhere run it by hand as above
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('mark-expired-batches', '15 0 * * *', 'SELECT public.mark_expired_batches()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,156 @@
+-- Migration for purchase orders
+-- A PO records what was ordered from a supplier: lines in packaging units, the agreed cost
+-- per strip and the expected delivery date. GRN lines in stock_purchases can be received
+-- against a PO line; the PO status follows what has been received.
+
+CREATE SEQUENCE IF NOT EXISTS public.purchase_order_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  po_number TEXT NOT NULL UNIQUE DEFAULT 'PO-' || lpad(nextval('public.purchase_order_number_seq')::text, 5, '0'),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_delivery_date DATE,
+  status TEXT NOT NULL DEFAULT 'Open',
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_purchase_order_status CHECK (status IN ('Open', 'Partially Received', 'Received', 'Closed', 'Cancelled'))
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  unit_id UUID NOT NULL REFERENCES public.product_packaging_units(id) ON DELETE RESTRICT,
+  quantity NUMERIC(10,2) NOT NULL,
+  quantity_strips INTEGER NOT NULL,
+  cost_per_strip NUMERIC(10,2) NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT positive_purchase_order_quantity CHECK (quantity > 0 AND quantity_strips > 0),
+  CONSTRAINT positive_purchase_order_cost CHECK (cost_per_strip > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order_id ON public.purchase_order_lines(purchase_order_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage purchase orders"
+  ON public.purchase_orders
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admin can manage purchase order lines"
+  ON public.purchase_order_lines
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- GRN lines received against a PO line
+ALTER TABLE public.stock_purchases
+  ADD COLUMN IF NOT EXISTS purchase_order_line_id UUID REFERENCES public.purchase_order_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_purchases_po_line_id
+  ON public.stock_purchases(purchase_order_line_id)
+  WHERE purchase_order_line_id IS NOT NULL;
+
+-- Ordered and received strips per PO line, for receipt matching and the open-PO report
+CREATE OR REPLACE VIEW public.purchase_order_lines_view AS
+SELECT
+  pol.id,
+  pol.purchase_order_id,
+  po.po_number,
+  po.supplier_id,
+  po.order_date,
+  po.expected_delivery_date,
+  po.status,
+  pol.product_id,
+  p.product_name,
+  p.product_code,
+  pol.unit_id,
+  ppu.unit_name,
+  ppu.conversion_factor_to_strips,
+  pol.quantity,
+  pol.quantity_strips,
+  pol.cost_per_strip,
+  COALESCE(received.quantity_strips, 0)::INTEGER AS received_strips,
+  GREATEST(pol.quantity_strips - COALESCE(received.quantity_strips, 0), 0)::INTEGER AS outstanding_strips
+FROM public.purchase_order_lines pol
+JOIN public.purchase_orders po ON po.id = pol.purchase_order_id
+JOIN public.products p ON p.id = pol.product_id
+JOIN public.product_packaging_units ppu ON ppu.id = pol.unit_id
+LEFT JOIN (
+  SELECT purchase_order_line_id, SUM(quantity_strips) AS quantity_strips
+  FROM public.stock_purchases
+  WHERE purchase_order_line_id IS NOT NULL
+  GROUP BY purchase_order_line_id
+) received ON received.purchase_order_line_id = pol.id;
+
+-- Keep the PO status in step with its receipts; Closed and Cancelled are set by hand
+CREATE OR REPLACE FUNCTION public.refresh_purchase_order_status(p_purchase_order_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_ordered INTEGER;
+  v_received INTEGER;
+  v_fully_received BOOLEAN;
+BEGIN
+  SELECT SUM(quantity_strips), SUM(received_strips), bool_and(outstanding_strips = 0)
+  INTO v_ordered, v_received, v_fully_received
+  FROM public.purchase_order_lines_view
+  WHERE purchase_order_id = p_purchase_order_id;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN COALESCE(v_received, 0) = 0 THEN 'Open'
+    WHEN v_fully_received THEN 'Received'
+    ELSE 'Partially Received'
+  END
+  WHERE id = p_purchase_order_id
+    AND status NOT IN ('Closed', 'Cancelled');
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.sync_purchase_order_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_line_id UUID;
+BEGIN
+  FOREACH v_line_id IN ARRAY ARRAY[
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.purchase_order_line_id END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.purchase_order_line_id END
+  ] LOOP
+    IF v_line_id IS NOT NULL THEN
+      PERFORM public.refresh_purchase_order_status(
+        (SELECT purchase_order_id FROM public.purchase_order_lines WHERE id = v_line_id)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_purchase_order_status_trigger ON public.stock_purchases;
+CREATE TRIGGER sync_purchase_order_status_trigger
+  AFTER INSERT OR UPDATE OF purchase_order_line_id, quantity_strips OR DELETE ON public.stock_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_purchase_order_status();
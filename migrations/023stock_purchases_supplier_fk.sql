@@ -0,0 +1,153 @@
+-- Migration to turn stock_purchases.supplier_id into a real reference to suppliers.id
+-- The column used to hold the supplier's name, so renaming a supplier orphaned its purchase
+-- history. The old text is kept in legacy_supplier_name; rows whose text cannot be matched to
+-- a supplier keep a NULL supplier_id and are listed in unmatched_supplier_purchases_view.
+
+-- The transactions view selects supplier_id, so it has to go while the column changes type
+DROP VIEW IF EXISTS public.stock_transactions_view;
+
+ALTER TABLE public.stock_purchases RENAME COLUMN supplier_id TO legacy_supplier_name;
+
+ALTER TABLE public.stock_purchases
+  ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_stock_purchases_supplier_id ON public.stock_purchases(supplier_id);
+
+-- Map the old text to suppliers: an id written by the manual transaction form, then the
+-- supplier code, then the supplier name. Names only match when exactly one supplier has them.
+UPDATE public.stock_purchases sp
+SET supplier_id = s.id
+FROM public.suppliers s
+WHERE sp.supplier_id IS NULL
+  AND sp.legacy_supplier_name IS NOT NULL
+  AND s.id::text = trim(sp.legacy_supplier_name);
+
+UPDATE public.stock_purchases sp
+SET supplier_id = s.id
+FROM public.suppliers s
+WHERE sp.supplier_id IS NULL
+  AND sp.legacy_supplier_name IS NOT NULL
+  AND s.supplier_code IS NOT NULL
+  AND lower(s.supplier_code) = lower(trim(sp.legacy_supplier_name));
+
+UPDATE public.stock_purchases sp
+SET supplier_id = matched.id
+FROM (
+  SELECT lower(trim(supplier_name)) AS name_key, (array_agg(id))[1] AS id
+  FROM public.suppliers
+  GROUP BY lower(trim(supplier_name))
+  HAVING COUNT(*) = 1
+) matched
+WHERE sp.supplier_id IS NULL
+  AND sp.legacy_supplier_name IS NOT NULL
+  AND matched.name_key = lower(trim(sp.legacy_supplier_name));
+
+-- Matched rows no longer need the old text
+UPDATE public.stock_purchases
+SET legacy_supplier_name = NULL
+WHERE supplier_id IS NOT NULL;
+
+-- Purchase history that still needs a supplier assigned by hand
+CREATE OR REPLACE VIEW public.unmatched_supplier_purchases_view AS
+SELECT
+  legacy_supplier_name,
+  COUNT(*)::INTEGER AS purchase_lines,
+  COUNT(DISTINCT purchase_group_id)::INTEGER AS purchases,
+  MIN(purchase_date) AS first_purchase_date,
+  MAX(purchase_date) AS last_purchase_date,
+  SUM(quantity_strips * cost_per_strip) AS total_value
+FROM public.stock_purchases
+WHERE supplier_id IS NULL
+  AND legacy_supplier_name IS NOT NULL
+  AND trim(legacy_supplier_name) <> ''
+GROUP BY legacy_supplier_name;
+
+DO $$
+DECLARE
+  v_unmatched INTEGER;
+BEGIN
+  SELECT COALESCE(SUM(purchase_lines), 0) INTO v_unmatched FROM public.unmatched_supplier_purchases_view;
+  IF v_unmatched > 0 THEN
+    RAISE NOTICE '% purchase line(s) could not be matched to a supplier; see unmatched_supplier_purchases_view', v_unmatched;
+  END IF;
+END $$;
+
+-- Recreate the transactions view; location ids are text for every source
+CREATE OR REPLACE VIEW public.stock_transactions_view AS
+-- Purchases (incoming stock)
+SELECT
+  purchase_id as transaction_id,
+  purchase_group_id as transaction_group_id,
+  product_id,
+  batch_id,
+  'STOCK_IN_GODOWN' as transaction_type,
+  quantity_strips,
+  'SUPPLIER' as location_type_source,
+  COALESCE(supplier_id::text, legacy_supplier_name) as location_id_source,
+  'GODOWN' as location_type_destination,
+  NULL as location_id_destination,
+  purchase_date as transaction_date,
+  'PURCHASE' as reference_document_type,
+  reference_document_id,
+  cost_per_strip as cost_per_strip_at_transaction,
+  notes,
+  created_by,
+  created_at
+FROM public.stock_purchases
+
+UNION ALL
+
+-- Sales (outgoing stock)
+SELECT
+  sale_id as transaction_id,
+  sale_group_id as transaction_group_id,
+  product_id,
+  batch_id,
+  transaction_type,
+  CASE
+    WHEN transaction_type = 'DISPATCH_TO_MR' THEN quantity_strips
+    WHEN transaction_type = 'SALE_DIRECT_GODOWN' THEN -quantity_strips
+    WHEN transaction_type = 'SALE_BY_MR' THEN -quantity_strips
+    ELSE quantity_strips
+  END as quantity_strips,
+  location_type_source,
+  location_id_source,
+  location_type_destination,
+  location_id_destination,
+  sale_date as transaction_date,
+  'SALE' as reference_document_type,
+  reference_document_id,
+  cost_per_strip as cost_per_strip_at_transaction,
+  notes,
+  created_by,
+  created_at
+FROM public.stock_sales
+
+UNION ALL
+
+-- Adjustments
+SELECT
+  adjustment_id as transaction_id,
+  adjustment_group_id as transaction_group_id,
+  product_id,
+  batch_id,
+  adjustment_type as transaction_type,
+  CASE
+    WHEN adjustment_type LIKE 'RETURN_TO_%' THEN quantity_strips
+    WHEN adjustment_type LIKE 'ADJUST_%' THEN -quantity_strips
+    WHEN adjustment_type LIKE 'OPENING_STOCK_%' THEN quantity_strips
+    WHEN adjustment_type LIKE 'REPLACEMENT_%' THEN -quantity_strips
+    ELSE quantity_strips
+  END as quantity_strips,
+  location_type_source,
+  location_id_source,
+  location_type_destination,
+  location_id_destination,
+  adjustment_date as transaction_date,
+  'ADJUSTMENT' as reference_document_type,
+  reference_document_id,
+  cost_per_strip as cost_per_strip_at_transaction,
+  notes,
+  created_by,
+  created_at
+FROM public.stock_adjustments;
@@ -0,0 +1,333 @@
+-- Migration for purchase returns to suppliers
+-- A supplier return (debit note) sends godown stock back to the supplier it was bought from.
+-- Each line is a PURCHASE_RETURN_GODOWN adjustment, which reduces godown stock in closing_stock.
+
+CREATE SEQUENCE IF NOT EXISTS public.supplier_return_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.supplier_returns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  debit_note_number TEXT NOT NULL UNIQUE DEFAULT 'DN-' || lpad(nextval('public.supplier_return_number_seq')::text, 5, '0'),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  return_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- The GRN being returned against, when the whole return comes from one GRN
+  original_purchase_group_id UUID,
+  original_reference_document_id TEXT,
+  reason TEXT NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_returns_supplier_id ON public.supplier_returns(supplier_id);
+
+CREATE TRIGGER update_supplier_returns_updated_at
+  BEFORE UPDATE ON public.supplier_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.supplier_returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage supplier returns"
+  ON public.supplier_returns
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Link return lines back to their debit note
+ALTER TABLE public.stock_adjustments
+  ADD COLUMN IF NOT EXISTS supplier_return_id UUID REFERENCES public.supplier_returns(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_supplier_return_id
+  ON public.stock_adjustments(supplier_return_id)
+  WHERE supplier_return_id IS NOT NULL;
+
+-- New outbound adjustment type
+ALTER TABLE public.stock_adjustments DROP CONSTRAINT IF EXISTS valid_adjustment_type;
+ALTER TABLE public.stock_adjustments ADD CONSTRAINT valid_adjustment_type CHECK (adjustment_type IN (
+  'RETURN_TO_GODOWN',
+  'RETURN_TO_MR',
+  'ADJUST_DAMAGE_GODOWN',
+  'ADJUST_LOSS_GODOWN',
+  'ADJUST_DAMAGE_MR',
+  'ADJUST_LOSS_MR',
+  'ADJUST_EXPIRED_GODOWN',
+  'ADJUST_EXPIRED_MR',
+  'REPLACEMENT_FROM_GODOWN',
+  'REPLACEMENT_FROM_MR',
+  'OPENING_STOCK_GODOWN',
+  'OPENING_STOCK_MR',
+  'PURCHASE_RETURN_GODOWN'
+));
+
+-- Purchase return lines must send something back; what the godown holds is checked per
+-- statement below, since one debit note can return the same batch on several lines
+CREATE OR REPLACE FUNCTION public.validate_purchase_return()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.adjustment_type <> 'PURCHASE_RETURN_GODOWN' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.quantity_strips <= 0 THEN
+    RAISE EXCEPTION 'Purchase return quantity must be greater than zero'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_purchase_return_trigger ON public.stock_adjustments;
+CREATE TRIGGER validate_purchase_return_trigger
+  BEFORE INSERT ON public.stock_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_purchase_return();
+
+-- update_closing_stock() ignores adjustment types it does not know, so purchase returns
+-- get their own closing stock triggers. New returns are applied per statement: every batch's
+-- lines are added up and checked against the godown before any stock leaves it.
+CREATE OR REPLACE FUNCTION public.apply_purchase_returns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_return RECORD;
+  v_available INTEGER;
+BEGIN
+  FOR v_return IN
+    SELECT n.product_id, n.batch_id, SUM(n.quantity_strips)::INTEGER AS quantity_strips
+    FROM new_adjustments n
+    WHERE n.adjustment_type = 'PURCHASE_RETURN_GODOWN'
+    GROUP BY n.product_id, n.batch_id
+  LOOP
+    -- Lock the batch's godown stock so concurrent returns cannot both pass the check
+    PERFORM 1
+    FROM public.closing_stock
+    WHERE product_id = v_return.product_id
+      AND batch_id = v_return.batch_id
+      AND location_type = 'GODOWN'
+    FOR UPDATE;
+
+    SELECT COALESCE(SUM(quantity_strips), 0) INTO v_available
+    FROM public.closing_stock
+    WHERE product_id = v_return.product_id
+      AND batch_id = v_return.batch_id
+      AND location_type = 'GODOWN';
+
+    IF v_return.quantity_strips > v_available THEN
+      RAISE EXCEPTION 'Only % strip(s) of this batch are in the godown; cannot return %', v_available, v_return.quantity_strips
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.closing_stock
+    SET quantity_strips = GREATEST(0, quantity_strips - v_return.quantity_strips),
+        last_updated_at = now()
+    WHERE product_id = v_return.product_id
+      AND batch_id = v_return.batch_id
+      AND location_type = 'GODOWN'
+      AND location_id = '';
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_purchase_returns_trigger ON public.stock_adjustments;
+CREATE TRIGGER apply_purchase_returns_trigger
+  AFTER INSERT ON public.stock_adjustments
+  REFERENCING NEW TABLE AS new_adjustments
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.apply_purchase_returns();
+
+CREATE OR REPLACE FUNCTION public.apply_purchase_return_closing_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.adjustment_type = 'PURCHASE_RETURN_GODOWN' THEN
+    -- Deleting a return puts the stock back in the godown
+    INSERT INTO public.closing_stock (
+      product_id, batch_id, location_type, location_id,
+      quantity_strips, cost_per_strip, last_updated_at
+    ) VALUES (
+      OLD.product_id, OLD.batch_id, 'GODOWN', '',
+      OLD.quantity_strips, OLD.cost_per_strip, now()
+    ) ON CONFLICT (product_id, batch_id, location_type, location_id)
+    DO UPDATE SET
+      quantity_strips = public.closing_stock.quantity_strips + OLD.quantity_strips,
+      last_updated_at = now();
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_purchase_return_closing_stock_trigger ON public.stock_adjustments;
+CREATE TRIGGER apply_purchase_return_closing_stock_trigger
+  AFTER DELETE ON public.stock_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_purchase_return_closing_stock();
+
+-- Creates a debit note with its lines in one transaction, so a rejected line leaves nothing behind.
+-- Runs as the caller: the supplier return and adjustment policies decide who may post one.
+CREATE OR REPLACE FUNCTION public.create_supplier_return(
+  p_supplier_id UUID,
+  p_return_date DATE,
+  p_original_purchase_group_id UUID,
+  p_original_reference_document_id TEXT,
+  p_reason TEXT,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_return public.supplier_returns%ROWTYPE;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A supplier return needs at least one line'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.supplier_returns (
+    supplier_id, return_date, original_purchase_group_id, original_reference_document_id,
+    reason, notes, created_by
+  ) VALUES (
+    p_supplier_id, p_return_date, p_original_purchase_group_id, p_original_reference_document_id,
+    p_reason, NULLIF(btrim(p_notes), ''), auth.uid()
+  )
+  RETURNING * INTO v_return;
+
+  INSERT INTO public.stock_adjustments (
+    adjustment_group_id, product_id, batch_id, adjustment_type, quantity_strips,
+    location_type_source, location_id_source, location_type_destination, location_id_destination,
+    adjustment_date, reference_document_id, cost_per_strip, notes, supplier_return_id, created_by
+  )
+  SELECT
+    v_return.id, line.product_id, line.batch_id, 'PURCHASE_RETURN_GODOWN', line.quantity_strips,
+    'GODOWN', 'GODOWN', 'SUPPLIER', p_supplier_id::text,
+    p_return_date, v_return.debit_note_number, line.cost_per_strip,
+    COALESCE(NULLIF(btrim(line.notes), ''), p_reason), v_return.id, auth.uid()
+  FROM jsonb_to_recordset(p_lines) AS line(
+    product_id UUID, batch_id UUID, quantity_strips INTEGER, cost_per_strip NUMERIC, notes TEXT
+  );
+
+  RETURN v_return.id;
+END;
+$$;
+
+-- populate_initial_closing_stock() predates purchase returns, so the rebuild applies them afterwards
+CREATE OR REPLACE FUNCTION public.rebuild_closing_stock()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can rebuild closing stock';
+  END IF;
+
+  PERFORM populate_initial_closing_stock();
+
+  UPDATE public.closing_stock cs
+  SET quantity_strips = GREATEST(0, cs.quantity_strips - returns.total_quantity)
+  FROM (
+    SELECT product_id, batch_id, SUM(quantity_strips) AS total_quantity
+    FROM public.stock_adjustments
+    WHERE adjustment_type = 'PURCHASE_RETURN_GODOWN'
+    GROUP BY product_id, batch_id
+  ) AS returns
+  WHERE cs.product_id = returns.product_id
+    AND cs.batch_id = returns.batch_id
+    AND cs.location_type = 'GODOWN';
+END;
+$$;
+
+-- Purchase returns leave stock, so they are negative in the transactions view
+CREATE OR REPLACE VIEW public.stock_transactions_view AS
+-- Purchases (incoming stock)
+SELECT
+  purchase_id as transaction_id,
+  purchase_group_id as transaction_group_id,
+  product_id,
+  batch_id,
+  'STOCK_IN_GODOWN' as transaction_type,
+  quantity_strips,
+  'SUPPLIER' as location_type_source,
+  COALESCE(supplier_id::text, legacy_supplier_name) as location_id_source,
+  'GODOWN' as location_type_destination,
+  NULL as location_id_destination,
+  purchase_date as transaction_date,
+  'PURCHASE' as reference_document_type,
+  reference_document_id,
+  cost_per_strip as cost_per_strip_at_transaction,
+  notes,
+  created_by,
+  created_at
+FROM public.stock_purchases
+
+UNION ALL
+
+-- Sales (outgoing stock)
+SELECT
+  sale_id as transaction_id,
+  sale_group_id as transaction_group_id,
+  product_id,
+  batch_id,
+  transaction_type,
+  CASE
+    WHEN transaction_type = 'DISPATCH_TO_MR' THEN quantity_strips
+    WHEN transaction_type = 'SALE_DIRECT_GODOWN' THEN -quantity_strips
+    WHEN transaction_type = 'SALE_BY_MR' THEN -quantity_strips
+    ELSE quantity_strips
+  END as quantity_strips,
+  location_type_source,
+  location_id_source,
+  location_type_destination,
+  location_id_destination,
+  sale_date as transaction_date,
+  'SALE' as reference_document_type,
+  reference_document_id,
+  cost_per_strip as cost_per_strip_at_transaction,
+  notes,
+  created_by,
+  created_at
+FROM public.stock_sales
+
+UNION ALL
+
+-- Adjustments
+SELECT
+  adjustment_id as transaction_id,
+  adjustment_group_id as transaction_group_id,
+  product_id,
+  batch_id,
+  adjustment_type as transaction_type,
+  CASE
+    WHEN adjustment_type LIKE 'RETURN_TO_%' THEN quantity_strips
+    WHEN adjustment_type LIKE 'ADJUST_%' THEN -quantity_strips
+    WHEN adjustment_type LIKE 'OPENING_STOCK_%' THEN quantity_strips
+    WHEN adjustment_type LIKE 'REPLACEMENT_%' THEN -quantity_strips
+    WHEN adjustment_type LIKE 'PURCHASE_RETURN_%' THEN -quantity_strips
+    ELSE quantity_strips
+  END as quantity_strips,
+  location_type_source,
+  location_id_source,
+  location_type_destination,
+  location_id_destination,
+  adjustment_date as transaction_date,
+  'ADJUSTMENT' as reference_document_type,
+  reference_document_id,
+  cost_per_strip as cost_per_strip_at_transaction,
+  notes,
+  created_by,
+  created_at
+FROM public.stock_adjustments;
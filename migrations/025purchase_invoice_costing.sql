@@ -0,0 +1,95 @@
+-- Migration for purchase invoice costing
+-- GRN lines now record the invoice rate, trade discount and scheme free strips, plus their share
+-- of the invoice freight. cost_per_strip holds the resulting landed cost per strip, so closing_stock
+-- and the stock replay value inventory at what was actually paid.
+
+-- Invoice totals per GRN; purchases have no header table, so the GRN's purchase_group_id is the key
+CREATE TABLE IF NOT EXISTS public.purchase_invoices (
+  purchase_group_id UUID NOT NULL PRIMARY KEY,
+  supplier_invoice_number TEXT,
+  invoice_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  freight_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT non_negative_invoice_amount CHECK (invoice_amount >= 0),
+  CONSTRAINT non_negative_freight_amount CHECK (freight_amount >= 0)
+);
+
+CREATE TRIGGER update_purchase_invoices_updated_at
+  BEFORE UPDATE ON public.purchase_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.purchase_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage purchase invoices"
+  ON public.purchase_invoices
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Line costing. quantity_strips is everything received, free strips included.
+-- A NULL invoice rate means the line predates costing and cost_per_strip is the invoice rate.
+ALTER TABLE public.stock_purchases
+  ADD COLUMN IF NOT EXISTS invoice_rate_per_strip NUMERIC(10,2),
+  ADD COLUMN IF NOT EXISTS discount_percent NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS free_strips INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS freight_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+UPDATE public.stock_purchases
+SET invoice_rate_per_strip = cost_per_strip
+WHERE invoice_rate_per_strip IS NULL;
+
+ALTER TABLE public.stock_purchases
+  ADD CONSTRAINT valid_purchase_discount CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  ADD CONSTRAINT valid_purchase_free_strips CHECK (free_strips >= 0 AND free_strips <= quantity_strips),
+  ADD CONSTRAINT non_negative_purchase_freight CHECK (freight_amount >= 0);
+
+-- Free goods are averaged into the landed cost of the line; a line made up only of free
+-- strips is received at zero cost
+ALTER TABLE public.stock_purchases DROP CONSTRAINT IF EXISTS positive_purchase_cost;
+ALTER TABLE public.stock_purchases ADD CONSTRAINT positive_purchase_cost
+  CHECK (cost_per_strip > 0 OR (cost_per_strip = 0 AND free_strips = quantity_strips));
+
+-- Free strips are not ordered, so only paid strips count against a purchase order
+CREATE OR REPLACE VIEW public.purchase_order_lines_view AS
+SELECT
+  pol.id,
+  pol.purchase_order_id,
+  po.po_number,
+  po.supplier_id,
+  po.order_date,
+  po.expected_delivery_date,
+  po.status,
+  pol.product_id,
+  p.product_name,
+  p.product_code,
+  pol.unit_id,
+  ppu.unit_name,
+  ppu.conversion_factor_to_strips,
+  pol.quantity,
+  pol.quantity_strips,
+  pol.cost_per_strip,
+  COALESCE(received.quantity_strips, 0)::INTEGER AS received_strips,
+  GREATEST(pol.quantity_strips - COALESCE(received.quantity_strips, 0), 0)::INTEGER AS outstanding_strips
+FROM public.purchase_order_lines pol
+JOIN public.purchase_orders po ON po.id = pol.purchase_order_id
+JOIN public.products p ON p.id = pol.product_id
+JOIN public.product_packaging_units ppu ON ppu.id = pol.unit_id
+LEFT JOIN (
+  SELECT purchase_order_line_id, SUM(quantity_strips - free_strips) AS quantity_strips
+  FROM public.stock_purchases
+  WHERE purchase_order_line_id IS NOT NULL
+  GROUP BY purchase_order_line_id
+) received ON received.purchase_order_line_id = pol.id;
+
+DROP TRIGGER IF EXISTS sync_purchase_order_status_trigger ON public.stock_purchases;
+CREATE TRIGGER sync_purchase_order_status_trigger
+  AFTER INSERT OR UPDATE OF purchase_order_line_id, quantity_strips, free_strips OR DELETE ON public.stock_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_purchase_order_status();
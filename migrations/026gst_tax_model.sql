@@ -0,0 +1,96 @@
+-- Migration for the GST tax model
+-- Products carry an HSN code and GST rate. Purchase and direct-sale lines snapshot both and record
+-- their taxable value with the tax split into CGST + SGST (intra-state) or IGST (inter-state),
+-- decided by comparing the supplier's or customer's state with the company's own state.
+
+-- The company's own registration; a single row, the state decides intra- vs inter-state supplies
+CREATE TABLE IF NOT EXISTS public.company_profile (
+  id BOOLEAN NOT NULL PRIMARY KEY DEFAULT true,
+  company_name TEXT NOT NULL DEFAULT '',
+  gstin TEXT,
+  state_code TEXT,
+  address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT single_company_profile CHECK (id),
+  CONSTRAINT valid_company_state_code CHECK (state_code IS NULL OR state_code ~ '^[0-9]{2}$')
+);
+
+CREATE TRIGGER update_company_profile_updated_at
+  BEFORE UPDATE ON public.company_profile
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.company_profile ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage company profile"
+  ON public.company_profile
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view company profile"
+  ON public.company_profile
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- Product tax classification
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS hsn_code TEXT,
+  ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.products
+  ADD CONSTRAINT valid_product_gst_rate CHECK (gst_rate >= 0 AND gst_rate <= 100);
+
+-- Supplier registration; a GSTIN's first two digits are its state code
+ALTER TABLE public.suppliers
+  ADD COLUMN IF NOT EXISTS gstin TEXT,
+  ADD COLUMN IF NOT EXISTS state_code TEXT;
+
+ALTER TABLE public.suppliers
+  ADD CONSTRAINT valid_supplier_state_code CHECK (state_code IS NULL OR state_code ~ '^[0-9]{2}$');
+
+-- Input tax on GRN lines. The taxable value is the line's landed value (net of discount plus its
+-- freight share); the tax is claimable credit, so it stays out of cost_per_strip.
+ALTER TABLE public.stock_purchases
+  ADD COLUMN IF NOT EXISTS hsn_code TEXT,
+  ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS taxable_value NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+-- Output tax on direct-sale lines, with the customer's registration and place of supply.
+-- Sale lines already repeat the customer name, so the customer's GSTIN and state sit alongside it.
+ALTER TABLE public.stock_sales
+  ADD COLUMN IF NOT EXISTS customer_gstin TEXT,
+  ADD COLUMN IF NOT EXISTS customer_state_code TEXT,
+  ADD COLUMN IF NOT EXISTS hsn_code TEXT,
+  ADD COLUMN IF NOT EXISTS gst_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS taxable_value NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.stock_purchases
+  ADD CONSTRAINT valid_purchase_gst_rate CHECK (gst_rate >= 0 AND gst_rate <= 100),
+  ADD CONSTRAINT non_negative_purchase_tax CHECK (
+    taxable_value >= 0 AND cgst_amount >= 0 AND sgst_amount >= 0 AND igst_amount >= 0
+  ),
+  -- A line is taxed either within the state or across states, never both
+  ADD CONSTRAINT single_purchase_tax_regime CHECK (igst_amount = 0 OR (cgst_amount = 0 AND sgst_amount = 0));
+
+ALTER TABLE public.stock_sales
+  ADD CONSTRAINT valid_sale_gst_rate CHECK (gst_rate >= 0 AND gst_rate <= 100),
+  ADD CONSTRAINT valid_customer_state_code CHECK (customer_state_code IS NULL OR customer_state_code ~ '^[0-9]{2}$'),
+  ADD CONSTRAINT non_negative_sale_tax CHECK (
+    taxable_value >= 0 AND cgst_amount >= 0 AND sgst_amount >= 0 AND igst_amount >= 0
+  ),
+  ADD CONSTRAINT single_sale_tax_regime CHECK (igst_amount = 0 OR (cgst_amount = 0 AND sgst_amount = 0));
+
+CREATE INDEX IF NOT EXISTS idx_stock_purchases_purchase_date ON public.stock_purchases(purchase_date);
+CREATE INDEX IF NOT EXISTS idx_stock_sales_sale_date ON public.stock_sales(sale_date);
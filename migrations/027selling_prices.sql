@@ -0,0 +1,121 @@
+-- Migration for selling prices and margin tracking
+-- Batches carry their printed MRP, named price lists hold a selling price per product, and sale
+-- lines record the price they were sold (or dispatched to an MR to be sold) at, separately from
+-- cost_per_strip, so revenue and margin can be reported.
+
+-- MRP printed on the batch; nothing may be sold above it
+ALTER TABLE public.product_batches
+  ADD COLUMN IF NOT EXISTS mrp_per_strip NUMERIC(10,2);
+
+ALTER TABLE public.product_batches
+  ADD CONSTRAINT positive_batch_mrp CHECK (mrp_per_strip IS NULL OR mrp_per_strip > 0);
+
+-- Named price lists, e.g. one per class of customer
+CREATE TABLE IF NOT EXISTS public.price_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_list_name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.price_list_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_list_id UUID NOT NULL REFERENCES public.price_lists(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  price_per_strip NUMERIC(10,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT unique_price_list_product UNIQUE (price_list_id, product_id),
+  CONSTRAINT positive_price_list_price CHECK (price_per_strip > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_list_items_product_id ON public.price_list_items(product_id);
+
+CREATE TRIGGER update_price_lists_updated_at
+  BEFORE UPDATE ON public.price_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_price_list_items_updated_at
+  BEFORE UPDATE ON public.price_list_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage price lists"
+  ON public.price_lists
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view price lists"
+  ON public.price_lists
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admin can manage price list items"
+  ON public.price_list_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view price list items"
+  ON public.price_list_items
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.price_lists (price_list_name, description) VALUES
+  ('Stockist', 'Price to stockist (PTS)'),
+  ('Retailer', 'Price to retailer (PTR)'),
+  ('Institution', 'Hospitals and institutional buyers')
+ON CONFLICT (price_list_name) DO NOTHING;
+
+-- Selling price per strip on sale lines; NULL on lines recorded before prices were captured.
+-- On MR dispatches it is the price the MR is to sell at.
+ALTER TABLE public.stock_sales
+  ADD COLUMN IF NOT EXISTS selling_price_per_strip NUMERIC(10,2),
+  ADD COLUMN IF NOT EXISTS price_list_id UUID REFERENCES public.price_lists(id) ON DELETE SET NULL;
+
+ALTER TABLE public.stock_sales
+  ADD CONSTRAINT non_negative_selling_price CHECK (selling_price_per_strip IS NULL OR selling_price_per_strip >= 0);
+
+-- Reject a selling price above the batch MRP
+CREATE OR REPLACE FUNCTION public.validate_sale_price_within_mrp()
+RETURNS TRIGGER AS $$
+DECLARE
+  batch_mrp NUMERIC(10,2);
+BEGIN
+  IF NEW.selling_price_per_strip IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT mrp_per_strip INTO batch_mrp
+  FROM public.product_batches
+  WHERE id = NEW.batch_id;
+
+  IF batch_mrp IS NOT NULL AND NEW.selling_price_per_strip > batch_mrp THEN
+    RAISE EXCEPTION 'Selling price % is above the batch MRP %', NEW.selling_price_per_strip, batch_mrp;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_sale_price_within_mrp_trigger ON public.stock_sales;
+CREATE TRIGGER validate_sale_price_within_mrp_trigger
+  BEFORE INSERT OR UPDATE OF selling_price_per_strip, batch_id ON public.stock_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_sale_price_within_mrp();
+
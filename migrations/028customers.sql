@@ -0,0 +1,74 @@
+-- Migration for the customer master
+-- Direct sales used to record a free-typed customer name in stock_sales.location_id_destination,
+-- so one chemist could appear under many spellings. Customers now live in their own table and
+-- direct sales reference them by customer_id; location_id_destination keeps the customer's name
+-- as printed on the invoice. Older sales keep a NULL customer_id until their names are linked to
+-- customers with the dedupe tool, which works from unlinked_customer_sales_view.
+
+CREATE TABLE IF NOT EXISTS public.customers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_code TEXT NOT NULL UNIQUE,
+  customer_name TEXT NOT NULL,
+  customer_type TEXT NOT NULL DEFAULT 'retailer',
+  drug_licence_number TEXT,
+  gstin TEXT,
+  state_code TEXT,
+  phone TEXT,
+  address TEXT,
+  territory TEXT,
+  assigned_mr_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  credit_limit NUMERIC(12,2) NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_customer_type CHECK (customer_type IN ('retailer', 'hospital', 'doctor')),
+  CONSTRAINT valid_customer_state_code CHECK (state_code IS NULL OR state_code ~ '^[0-9]{2}$'),
+  CONSTRAINT non_negative_credit_limit CHECK (credit_limit >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_assigned_mr ON public.customers(assigned_mr_user_id);
+
+CREATE TRIGGER update_customers_updated_at
+  BEFORE UPDATE ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage customers"
+  ON public.customers
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view customers"
+  ON public.customers
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE public.stock_sales
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_stock_sales_customer_id ON public.stock_sales(customer_id);
+
+-- Direct sales still recorded against a typed customer name, one row per spelling
+CREATE OR REPLACE VIEW public.unlinked_customer_sales_view AS
+SELECT
+  location_id_destination AS recorded_customer_name,
+  COUNT(*)::INTEGER AS sale_lines,
+  COUNT(DISTINCT sale_group_id)::INTEGER AS sales,
+  MIN(sale_date) AS first_sale_date,
+  MAX(sale_date) AS last_sale_date,
+  SUM(quantity_strips * COALESCE(selling_price_per_strip, cost_per_strip)) AS total_value,
+  MAX(customer_gstin) AS customer_gstin,
+  MAX(customer_state_code) AS customer_state_code
+FROM public.stock_sales
+WHERE transaction_type = 'SALE_DIRECT_GODOWN'
+  AND customer_id IS NULL
+  AND location_id_destination IS NOT NULL
+  AND trim(location_id_destination) <> ''
+GROUP BY location_id_destination;
@@ -0,0 +1,57 @@
+-- Migration for printable documents
+-- GRNs, delivery challans for MR dispatches and tax invoices for direct sales are printed (or
+-- saved as PDF) from the browser. Each kind of document has one editable template holding its
+-- title, notes, signature boxes and page setup; the company header comes from company_profile.
+
+ALTER TABLE public.company_profile
+  ADD COLUMN IF NOT EXISTS phone TEXT,
+  ADD COLUMN IF NOT EXISTS email TEXT,
+  ADD COLUMN IF NOT EXISTS drug_licence_number TEXT;
+
+CREATE TABLE IF NOT EXISTS public.document_templates (
+  document_type TEXT NOT NULL PRIMARY KEY,
+  title TEXT NOT NULL,
+  header_note TEXT,
+  footer_note TEXT,
+  signatory_labels TEXT[] NOT NULL DEFAULT '{}',
+  show_prices BOOLEAN NOT NULL DEFAULT true,
+  show_packaging_units BOOLEAN NOT NULL DEFAULT true,
+  paper_size TEXT NOT NULL DEFAULT 'A4',
+  orientation TEXT NOT NULL DEFAULT 'portrait',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_document_type CHECK (document_type IN ('GRN', 'DELIVERY_CHALLAN', 'TAX_INVOICE')),
+  CONSTRAINT valid_document_paper_size CHECK (paper_size IN ('A4', 'A5', 'Letter')),
+  CONSTRAINT valid_document_orientation CHECK (orientation IN ('portrait', 'landscape'))
+);
+
+CREATE TRIGGER update_document_templates_updated_at
+  BEFORE UPDATE ON public.document_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.document_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage document templates"
+  ON public.document_templates
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view document templates"
+  ON public.document_templates
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.document_templates (document_type, title, footer_note, signatory_labels, show_prices) VALUES
+  ('GRN', 'Goods Receipt Note', 'Goods received in good condition unless noted otherwise.',
+    ARRAY['Received by', 'Checked by', 'Authorised Signatory'], true),
+  ('DELIVERY_CHALLAN', 'Delivery Challan', 'Goods sent for sale on behalf of the company; not a sale.',
+    ARRAY['Dispatched by', 'Received by (MR)'], false),
+  ('TAX_INVOICE', 'Tax Invoice', 'Goods once sold will not be taken back except under the returns policy.',
+    ARRAY['Customer''s Signature', 'Authorised Signatory'], true)
+ON CONFLICT (document_type) DO NOTHING;
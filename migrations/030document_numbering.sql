@@ -0,0 +1,344 @@
+-- Migration for automatic document numbering
+-- GRNs, MR dispatches (delivery challans), direct sales (tax invoices) and stock adjustments are
+-- numbered by the database as they are saved. Each document type has a numbering series with a
+-- prefix, padding and an optional reset every Indian financial year (April to March).
+--
+-- Numbers come from a counter row that is locked and incremented inside the saving transaction,
+-- so a failed save rolls the counter back and the series has no gaps. Every number handed out is
+-- recorded in document_numbers, which keeps it unique per document type and tied to one group.
+
+CREATE TABLE IF NOT EXISTS public.document_number_series (
+  document_type TEXT NOT NULL PRIMARY KEY,
+  prefix TEXT NOT NULL DEFAULT '',
+  padding INTEGER NOT NULL DEFAULT 5,
+  reset_each_financial_year BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_numbering_document_type CHECK (document_type IN ('GRN', 'DELIVERY_CHALLAN', 'TAX_INVOICE', 'STOCK_ADJUSTMENT')),
+  CONSTRAINT valid_numbering_padding CHECK (padding BETWEEN 1 AND 10)
+);
+
+-- Last number used per series and financial year ('' for series that never reset)
+CREATE TABLE IF NOT EXISTS public.document_number_counters (
+  document_type TEXT NOT NULL REFERENCES public.document_number_series(document_type) ON DELETE CASCADE,
+  financial_year TEXT NOT NULL DEFAULT '',
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (document_type, financial_year)
+);
+
+-- Every number in use, whether allocated or typed in, and the transaction group carrying it
+CREATE TABLE IF NOT EXISTS public.document_numbers (
+  document_type TEXT NOT NULL,
+  document_number TEXT NOT NULL,
+  group_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (document_type, document_number),
+  CONSTRAINT unique_document_number_group UNIQUE (document_type, group_id)
+);
+
+CREATE TRIGGER update_document_number_series_updated_at
+  BEFORE UPDATE ON public.document_number_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.document_number_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_number_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_numbers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage numbering series"
+  ON public.document_number_series
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authenticated users can view numbering series"
+  ON public.document_number_series
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- Counters and the number register are only written by the numbering functions below
+CREATE POLICY "Authenticated users can view numbering counters"
+  ON public.document_number_counters
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can view document numbers"
+  ON public.document_numbers
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+INSERT INTO public.document_number_series (document_type, prefix, padding, reset_each_financial_year) VALUES
+  ('GRN', 'GRN/', 5, true),
+  ('DELIVERY_CHALLAN', 'DC/', 5, true),
+  ('TAX_INVOICE', 'INV/', 5, true),
+  ('STOCK_ADJUSTMENT', 'ADJ/', 5, true)
+ON CONFLICT (document_type) DO NOTHING;
+
+-- Financial year label of a date, e.g. 2025-06-30 -> '25-26'
+CREATE OR REPLACE FUNCTION public.financial_year_label(p_date DATE)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lpad(((EXTRACT(YEAR FROM p_date)::INTEGER - CASE WHEN EXTRACT(MONTH FROM p_date) < 4 THEN 1 ELSE 0 END) % 100)::TEXT, 2, '0')
+    || '-'
+    || lpad(((EXTRACT(YEAR FROM p_date)::INTEGER + CASE WHEN EXTRACT(MONTH FROM p_date) < 4 THEN 0 ELSE 1 END) % 100)::TEXT, 2, '0');
+$$;
+
+-- e.g. 'GRN/' + '25-26' + 12 padded to 5 -> 'GRN/25-26/00012'
+CREATE OR REPLACE FUNCTION public.format_document_number(
+  p_prefix TEXT,
+  p_padding INTEGER,
+  p_financial_year TEXT,
+  p_number INTEGER
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_prefix
+    || CASE WHEN p_financial_year <> '' THEN p_financial_year || '/' ELSE '' END
+    || lpad(p_number::TEXT, p_padding, '0');
+$$;
+
+-- Allocates the next number of a series. The counter row stays locked until the calling
+-- transaction ends, so concurrent saves queue up and a rolled-back save returns its number.
+CREATE OR REPLACE FUNCTION public.next_document_number(p_document_type TEXT, p_date DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series public.document_number_series%ROWTYPE;
+  v_financial_year TEXT;
+  v_next INTEGER;
+  v_number TEXT;
+BEGIN
+  SELECT * INTO v_series FROM public.document_number_series WHERE document_type = p_document_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No numbering series is set up for %', p_document_type;
+  END IF;
+
+  v_financial_year := CASE WHEN v_series.reset_each_financial_year THEN public.financial_year_label(p_date) ELSE '' END;
+
+  LOOP
+    INSERT INTO public.document_number_counters (document_type, financial_year, last_number)
+    VALUES (p_document_type, v_financial_year, 1)
+    ON CONFLICT (document_type, financial_year)
+    DO UPDATE SET
+      last_number = public.document_number_counters.last_number + 1,
+      updated_at = now()
+    RETURNING last_number INTO v_next;
+
+    v_number := public.format_document_number(v_series.prefix, v_series.padding, v_financial_year, v_next);
+
+    -- Step over numbers that were typed in by hand before the series existed
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.document_numbers
+      WHERE document_type = p_document_type AND document_number = v_number
+    );
+  END LOOP;
+
+  RETURN v_number;
+END;
+$$;
+
+-- The number the next document of a series would get, without allocating it
+CREATE OR REPLACE FUNCTION public.preview_document_number(p_document_type TEXT, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series public.document_number_series%ROWTYPE;
+  v_financial_year TEXT;
+  v_next INTEGER;
+  v_number TEXT;
+BEGIN
+  SELECT * INTO v_series FROM public.document_number_series WHERE document_type = p_document_type;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_financial_year := CASE WHEN v_series.reset_each_financial_year THEN public.financial_year_label(p_date) ELSE '' END;
+
+  SELECT COALESCE(MAX(last_number), 0) + 1 INTO v_next
+  FROM public.document_number_counters
+  WHERE document_type = p_document_type AND financial_year = v_financial_year;
+
+  LOOP
+    v_number := public.format_document_number(v_series.prefix, v_series.padding, v_financial_year, v_next);
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.document_numbers
+      WHERE document_type = p_document_type AND document_number = v_number
+    );
+    v_next := v_next + 1;
+  END LOOP;
+
+  RETURN v_number;
+END;
+$$;
+
+-- Returns the number a transaction group carries. A group keeps the number it was first given;
+-- a group without one registers the number typed in, or gets the next number of the series.
+CREATE OR REPLACE FUNCTION public.assign_document_number(
+  p_document_type TEXT,
+  p_group_id UUID,
+  p_document_date TIMESTAMP WITH TIME ZONE,
+  p_requested_number TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  SELECT document_number INTO v_number
+  FROM public.document_numbers
+  WHERE document_type = p_document_type AND group_id = p_group_id;
+
+  IF FOUND THEN
+    RETURN v_number;
+  END IF;
+
+  v_number := NULLIF(btrim(p_requested_number), '');
+
+  IF v_number IS NULL THEN
+    v_number := public.next_document_number(
+      p_document_type,
+      (COALESCE(p_document_date, now()) AT TIME ZONE 'Asia/Kolkata')::DATE
+    );
+  ELSIF EXISTS (
+    SELECT 1 FROM public.document_numbers
+    WHERE document_type = p_document_type AND document_number = v_number
+  ) THEN
+    RAISE EXCEPTION 'Document number % is already used by another document', v_number
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO public.document_numbers (document_type, document_number, group_id)
+  VALUES (p_document_type, v_number, p_group_id);
+
+  RETURN v_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.number_stock_purchase()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.reference_document_id := public.assign_document_number(
+    'GRN', NEW.purchase_group_id, NEW.purchase_date, NEW.reference_document_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- MR dispatches print as delivery challans; direct and MR sales are invoiced
+CREATE OR REPLACE FUNCTION public.number_stock_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.reference_document_id := public.assign_document_number(
+    CASE WHEN NEW.transaction_type = 'DISPATCH_TO_MR' THEN 'DELIVERY_CHALLAN' ELSE 'TAX_INVOICE' END,
+    NEW.sale_group_id, NEW.sale_date, NEW.reference_document_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.number_stock_adjustment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.reference_document_id := public.assign_document_number(
+    'STOCK_ADJUSTMENT', NEW.adjustment_group_id, NEW.adjustment_date, NEW.reference_document_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Numbers are only allocated by the triggers above, which run as the function owner. Called
+-- directly, next_document_number would burn a number with no document behind it and
+-- assign_document_number would reserve numbers under made-up groups.
+REVOKE EXECUTE ON FUNCTION public.next_document_number(TEXT, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.assign_document_number(TEXT, UUID, TIMESTAMP WITH TIME ZONE, TEXT)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.preview_document_number(TEXT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_document_number(TEXT, DATE) TO authenticated;
+
+DROP TRIGGER IF EXISTS number_stock_purchase_trigger ON public.stock_purchases;
+CREATE TRIGGER number_stock_purchase_trigger
+  BEFORE INSERT OR UPDATE OF reference_document_id ON public.stock_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.number_stock_purchase();
+
+DROP TRIGGER IF EXISTS number_stock_sale_trigger ON public.stock_sales;
+CREATE TRIGGER number_stock_sale_trigger
+  BEFORE INSERT OR UPDATE OF reference_document_id ON public.stock_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION public.number_stock_sale();
+
+DROP TRIGGER IF EXISTS number_stock_adjustment_trigger ON public.stock_adjustments;
+CREATE TRIGGER number_stock_adjustment_trigger
+  BEFORE INSERT OR UPDATE OF reference_document_id ON public.stock_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.number_stock_adjustment();
+
+-- Register the numbers already typed in. Where one number was typed on several documents the
+-- earliest keeps it; the others are renumbered from the series the next time they are saved.
+INSERT INTO public.document_numbers (document_type, document_number, group_id, created_at)
+SELECT DISTINCT ON (document_number) 'GRN', document_number, group_id, first_created_at
+FROM (
+  SELECT btrim(reference_document_id) AS document_number, purchase_group_id AS group_id, MIN(created_at) AS first_created_at
+  FROM public.stock_purchases
+  WHERE NULLIF(btrim(reference_document_id), '') IS NOT NULL
+  GROUP BY 1, 2
+) typed
+ORDER BY document_number, first_created_at
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.document_numbers (document_type, document_number, group_id, created_at)
+SELECT DISTINCT ON (document_type, document_number) document_type, document_number, group_id, first_created_at
+FROM (
+  SELECT
+    CASE WHEN transaction_type = 'DISPATCH_TO_MR' THEN 'DELIVERY_CHALLAN' ELSE 'TAX_INVOICE' END AS document_type,
+    btrim(reference_document_id) AS document_number,
+    sale_group_id AS group_id,
+    MIN(created_at) AS first_created_at
+  FROM public.stock_sales
+  WHERE NULLIF(btrim(reference_document_id), '') IS NOT NULL
+  GROUP BY 1, 2, 3
+) typed
+ORDER BY document_type, document_number, first_created_at
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.document_numbers (document_type, document_number, group_id, created_at)
+SELECT DISTINCT ON (document_number) 'STOCK_ADJUSTMENT', document_number, group_id, first_created_at
+FROM (
+  SELECT btrim(reference_document_id) AS document_number, adjustment_group_id AS group_id, MIN(created_at) AS first_created_at
+  FROM public.stock_adjustments
+  WHERE NULLIF(btrim(reference_document_id), '') IS NOT NULL
+  GROUP BY 1, 2
+) typed
+ORDER BY document_number, first_created_at
+ON CONFLICT DO NOTHING;
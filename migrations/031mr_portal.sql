@@ -0,0 +1,391 @@
+-- Migration for the MR portal
+-- Medical representatives (profiles.role = 'user') now sign in to their own portal. There they
+-- see the stock they hold, record sales to customers from it (SALE_BY_MR), ask for stock to be
+-- taken back into the godown and look up what was dispatched to them. An MR's location_id is
+-- their user id, and row level security limits them to stock rows at that location.
+
+-- 1. Stock tables: admins keep full access, MRs only see movements into or out of their own stock
+
+ALTER TABLE public.stock_purchases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mr_stock_summary ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admin can manage stock purchases" ON public.stock_purchases;
+CREATE POLICY "Admin can manage stock purchases"
+  ON public.stock_purchases
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admin can manage stock sales" ON public.stock_sales;
+CREATE POLICY "Admin can manage stock sales"
+  ON public.stock_sales
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "MRs can view their own stock sales" ON public.stock_sales;
+CREATE POLICY "MRs can view their own stock sales"
+  ON public.stock_sales
+  FOR SELECT
+  USING (
+    (location_type_source = 'MR' AND location_id_source = auth.uid()::text)
+    OR (location_type_destination = 'MR' AND location_id_destination = auth.uid()::text)
+  );
+
+-- An MR may only sell out of their own stock, under their own name
+DROP POLICY IF EXISTS "MRs can record sales from their own stock" ON public.stock_sales;
+CREATE POLICY "MRs can record sales from their own stock"
+  ON public.stock_sales
+  FOR INSERT
+  WITH CHECK (
+    transaction_type = 'SALE_BY_MR'
+    AND location_type_source = 'MR'
+    AND location_id_source = auth.uid()::text
+    AND created_by = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Admin can manage stock adjustments" ON public.stock_adjustments;
+CREATE POLICY "Admin can manage stock adjustments"
+  ON public.stock_adjustments
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "MRs can view their own stock adjustments" ON public.stock_adjustments;
+CREATE POLICY "MRs can view their own stock adjustments"
+  ON public.stock_adjustments
+  FOR SELECT
+  USING (
+    (location_type_source = 'MR' AND location_id_source = auth.uid()::text)
+    OR (location_type_destination = 'MR' AND location_id_destination = auth.uid()::text)
+  );
+
+DROP POLICY IF EXISTS "Admin can manage mr_stock_summary" ON public.mr_stock_summary;
+CREATE POLICY "Admin can manage mr_stock_summary"
+  ON public.mr_stock_summary
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "MRs can view their own stock summary" ON public.mr_stock_summary;
+CREATE POLICY "MRs can view their own stock summary"
+  ON public.mr_stock_summary
+  FOR SELECT
+  USING (mr_user_id = auth.uid());
+
+-- Non-admins could read every location's closing stock; MRs now only see their own
+DROP POLICY IF EXISTS "Users can view closing_stock" ON public.closing_stock;
+DROP POLICY IF EXISTS "MRs can view their own closing_stock" ON public.closing_stock;
+CREATE POLICY "MRs can view their own closing_stock"
+  ON public.closing_stock
+  FOR SELECT
+  USING (location_type = 'MR' AND location_id = auth.uid()::text);
+
+-- 2. Views run with their owner's rights by default, which would skip the policies above
+ALTER VIEW public.closing_stock_view SET (security_invoker = true);
+ALTER VIEW public.stock_transactions_view SET (security_invoker = true);
+ALTER VIEW public.unmatched_supplier_purchases_view SET (security_invoker = true);
+ALTER VIEW public.unlinked_customer_sales_view SET (security_invoker = true);
+ALTER VIEW public.purchase_order_lines_view SET (security_invoker = true);
+
+-- 3. The stock triggers keep closing_stock and mr_stock_summary in step with every movement,
+-- including an MR's own sales, so they write with their owner's rights
+ALTER FUNCTION public.update_closing_stock() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.update_mr_stock_summary_from_sales() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.update_mr_stock_summary_from_adjustments() SECURITY DEFINER SET search_path = public;
+
+-- 4. MR sales must name a customer and cannot sell more of a batch than the MR holds
+CREATE OR REPLACE FUNCTION public.validate_mr_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_number TEXT;
+  v_available INTEGER;
+BEGIN
+  IF NEW.transaction_type <> 'SALE_BY_MR' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.customer_id IS NULL THEN
+    RAISE EXCEPTION 'A sale by an MR must be made to a customer'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT batch_number INTO v_batch_number
+  FROM public.product_batches
+  WHERE id = NEW.batch_id;
+
+  SELECT COALESCE(SUM(quantity_strips), 0) INTO v_available
+  FROM public.closing_stock
+  WHERE product_id = NEW.product_id
+    AND batch_id = NEW.batch_id
+    AND location_type = 'MR'
+    AND location_id = NEW.location_id_source;
+
+  IF NEW.quantity_strips > v_available THEN
+    RAISE EXCEPTION 'Batch % has only % strip(s) in the MR''s stock; cannot sell %',
+      v_batch_number, v_available, NEW.quantity_strips
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_mr_sale_trigger ON public.stock_sales;
+CREATE TRIGGER validate_mr_sale_trigger
+  BEFORE INSERT ON public.stock_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_mr_sale();
+
+-- 5. Return requests: an MR asks for stock to go back to the godown, and an admin approves it.
+-- Approval posts RETURN_TO_GODOWN adjustments whose adjustment_group_id is the request id.
+CREATE TABLE IF NOT EXISTS public.mr_return_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mr_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE RESTRICT,
+  request_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'Pending',
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_return_request_status CHECK (status IN ('Pending', 'Approved', 'Rejected', 'Cancelled'))
+);
+
+CREATE TABLE IF NOT EXISTS public.mr_return_request_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.mr_return_requests(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  batch_id UUID NOT NULL REFERENCES public.product_batches(id) ON DELETE RESTRICT,
+  quantity_strips INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT positive_return_request_quantity CHECK (quantity_strips > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mr_return_requests_mr ON public.mr_return_requests(mr_user_id);
+CREATE INDEX IF NOT EXISTS idx_mr_return_requests_status ON public.mr_return_requests(status);
+CREATE INDEX IF NOT EXISTS idx_mr_return_request_lines_request ON public.mr_return_request_lines(request_id);
+
+CREATE TRIGGER update_mr_return_requests_updated_at
+  BEFORE UPDATE ON public.mr_return_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.mr_return_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mr_return_request_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin can manage return requests"
+  ON public.mr_return_requests
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "MRs can view their own return requests"
+  ON public.mr_return_requests
+  FOR SELECT
+  USING (mr_user_id = auth.uid());
+
+CREATE POLICY "MRs can raise return requests"
+  ON public.mr_return_requests
+  FOR INSERT
+  WITH CHECK (mr_user_id = auth.uid() AND status = 'Pending');
+
+-- A pending request can be withdrawn by the MR who raised it
+CREATE POLICY "MRs can cancel their pending return requests"
+  ON public.mr_return_requests
+  FOR UPDATE
+  USING (mr_user_id = auth.uid() AND status = 'Pending')
+  WITH CHECK (mr_user_id = auth.uid() AND status IN ('Pending', 'Cancelled'));
+
+CREATE POLICY "Admin can manage return request lines"
+  ON public.mr_return_request_lines
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "MRs can view their own return request lines"
+  ON public.mr_return_request_lines
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.mr_return_requests r
+      WHERE r.id = request_id AND r.mr_user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "MRs can add lines to their pending return requests"
+  ON public.mr_return_request_lines
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.mr_return_requests r
+      WHERE r.id = request_id AND r.mr_user_id = auth.uid() AND r.status = 'Pending'
+    )
+  );
+
+-- Quantity of a batch the MR holds right now
+CREATE OR REPLACE FUNCTION public.mr_batch_holding(p_mr_user_id UUID, p_product_id UUID, p_batch_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(quantity_strips), 0)::INTEGER
+  FROM public.closing_stock
+  WHERE product_id = p_product_id
+    AND batch_id = p_batch_id
+    AND location_type = 'MR'
+    AND location_id = p_mr_user_id::text;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_return_request_line()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mr_user_id UUID;
+  v_batch_number TEXT;
+  v_available INTEGER;
+BEGIN
+  SELECT mr_user_id INTO v_mr_user_id
+  FROM public.mr_return_requests
+  WHERE id = NEW.request_id;
+
+  SELECT batch_number INTO v_batch_number
+  FROM public.product_batches
+  WHERE id = NEW.batch_id;
+
+  v_available := public.mr_batch_holding(v_mr_user_id, NEW.product_id, NEW.batch_id);
+
+  IF NEW.quantity_strips > v_available THEN
+    RAISE EXCEPTION 'Batch % has only % strip(s) in the MR''s stock; cannot return %',
+      v_batch_number, v_available, NEW.quantity_strips
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_return_request_line_trigger ON public.mr_return_request_lines;
+CREATE TRIGGER validate_return_request_line_trigger
+  BEFORE INSERT ON public.mr_return_request_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_return_request_line();
+
+-- Approves a pending request: moves every line from the MR back to the godown at the MR's
+-- cost, marks the request approved and returns the adjustment number, all in one transaction.
+-- Stock the MR has sold since asking is checked again so the return cannot go negative.
+CREATE OR REPLACE FUNCTION public.approve_mr_return_request(p_request_id UUID, p_review_notes TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.mr_return_requests%ROWTYPE;
+  v_line RECORD;
+  v_available INTEGER;
+  v_cost NUMERIC(10,2);
+  v_number TEXT;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only an admin can approve return requests'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.mr_return_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request % not found', p_request_id;
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Return request is already %', lower(v_request.status);
+  END IF;
+
+  FOR v_line IN
+    SELECT l.product_id, l.batch_id, l.quantity_strips, b.batch_number
+    FROM public.mr_return_request_lines l
+    JOIN public.product_batches b ON b.id = l.batch_id
+    WHERE l.request_id = p_request_id
+  LOOP
+    v_available := public.mr_batch_holding(v_request.mr_user_id, v_line.product_id, v_line.batch_id);
+
+    IF v_line.quantity_strips > v_available THEN
+      RAISE EXCEPTION 'Batch % has only % strip(s) in the MR''s stock; cannot return %',
+        v_line.batch_number, v_available, v_line.quantity_strips
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT cost_per_strip INTO v_cost
+    FROM public.closing_stock
+    WHERE product_id = v_line.product_id
+      AND batch_id = v_line.batch_id
+      AND location_type = 'MR'
+      AND location_id = v_request.mr_user_id::text
+    LIMIT 1;
+
+    INSERT INTO public.stock_adjustments (
+      adjustment_group_id, product_id, batch_id, adjustment_type, quantity_strips,
+      location_type_source, location_id_source, location_type_destination, location_id_destination,
+      cost_per_strip, notes, created_by
+    ) VALUES (
+      p_request_id, v_line.product_id, v_line.batch_id, 'RETURN_TO_GODOWN', v_line.quantity_strips,
+      'MR', v_request.mr_user_id::text, 'GODOWN', 'GODOWN',
+      COALESCE(v_cost, 0), v_request.reason, auth.uid()
+    );
+  END LOOP;
+
+  UPDATE public.mr_return_requests
+  SET status = 'Approved',
+      review_notes = NULLIF(btrim(p_review_notes), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_request_id;
+
+  SELECT reference_document_id INTO v_number
+  FROM public.stock_adjustments
+  WHERE adjustment_group_id = p_request_id
+  LIMIT 1;
+
+  RETURN v_number;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- Migration for the role model, part 1: roles
+-- profiles.role only knew 'admin' and 'user', and 'user' was only ever given to medical
+-- representatives. It is renamed to 'mr'; existing profiles, the column default and the policies
+-- that name it follow the rename. The godown, accounts, area manager and auditor roles are added.
+-- Postgres cannot use a new enum value in the transaction that adds it, so the permissions for
+-- these roles are set up in 033role_permissions.sql.
+
+ALTER TYPE public.user_role RENAME VALUE 'user' TO 'mr';
+
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'storekeeper';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'accounts';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'area_manager';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'auditor';
+
+-- The signup trigger named the old value in its body, so it is recreated with the new one
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, name, email, role)
+  VALUES (
+    new.id,
+    COALESCE(new.raw_user_meta_data ->> 'name', ''),
+    new.email,
+    'mr'::public.user_role
+  );
+  RETURN new;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log the error but don't block user creation
+    RAISE LOG 'Error creating profile for user %: %', new.id, SQLERRM;
+    RETURN new;
+END;
+$$;
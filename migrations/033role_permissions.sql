@@ -0,0 +1,452 @@
+-- Migration for the role model, part 2: permissions
+-- Each role is granted capabilities (create a purchase, post an adjustment, edit a posted
+-- document, view valuation, ...) in role_permissions, and public.has_permission() checks the
+-- signed-in user's role against it. The policies below grant table access by capability
+-- instead of by role. The older "Admin can ..." policies stay in place; admins hold every
+-- staff permission, so they are simply redundant now.
+--
+-- Capabilities:
+--   view_stock            godown stock, movements, stock reports and documents
+--   view_valuation        costs, stock values, margin and GST reports
+--   manage_products       products, categories, formulations, packaging and price lists
+--   manage_masters        suppliers and customers
+--   create_purchase       purchase orders, GRNs and purchase invoices
+--   create_sale           MR dispatches and direct sales
+--   post_adjustment       returns, replacements, damage/loss, supplier returns, expiry write-offs
+--                         and MR return requests
+--   edit_posted_document  edit or delete purchases, sales and adjustments once saved
+--   manage_recalls        batch recalls
+--   manage_settings       company profile, document templates and numbering
+--   manage_users          user accounts, roles and role permissions
+--   sell_own_stock        the MR portal: sell from and return one's own stock
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role public.user_role NOT NULL,
+  permission TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission),
+  CONSTRAINT valid_permission CHECK (permission IN (
+    'view_stock', 'view_valuation', 'manage_products', 'manage_masters', 'create_purchase',
+    'create_sale', 'post_adjustment', 'edit_posted_document', 'manage_recalls',
+    'manage_settings', 'manage_users', 'sell_own_stock'
+  ))
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'view_stock'),
+  ('admin', 'view_valuation'),
+  ('admin', 'manage_products'),
+  ('admin', 'manage_masters'),
+  ('admin', 'create_purchase'),
+  ('admin', 'create_sale'),
+  ('admin', 'post_adjustment'),
+  ('admin', 'edit_posted_document'),
+  ('admin', 'manage_recalls'),
+  ('admin', 'manage_settings'),
+  ('admin', 'manage_users'),
+  ('storekeeper', 'view_stock'),
+  ('storekeeper', 'manage_products'),
+  ('storekeeper', 'create_purchase'),
+  ('storekeeper', 'create_sale'),
+  ('storekeeper', 'post_adjustment'),
+  ('storekeeper', 'manage_recalls'),
+  ('accounts', 'view_stock'),
+  ('accounts', 'view_valuation'),
+  ('accounts', 'manage_masters'),
+  ('accounts', 'create_purchase'),
+  ('accounts', 'edit_posted_document'),
+  ('area_manager', 'view_stock'),
+  ('area_manager', 'view_valuation'),
+  ('area_manager', 'manage_masters'),
+  ('auditor', 'view_stock'),
+  ('auditor', 'view_valuation'),
+  ('mr', 'sell_own_stock')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Whether the signed-in user's role grants a capability
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.role_permissions rp ON rp.role = p.role
+    WHERE p.user_id = auth.uid() AND rp.permission = p_permission
+  );
+$$;
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role permissions"
+  ON public.role_permissions
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "User managers can manage role permissions"
+  ON public.role_permissions
+  FOR ALL
+  USING (public.has_permission('manage_users'));
+
+-- 1. Profiles: anyone could update their own profile, including its role
+
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only a user manager can change a role'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role_trigger ON public.profiles;
+CREATE TRIGGER protect_profile_role_trigger
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_role();
+
+CREATE POLICY "Staff can view profiles"
+  ON public.profiles
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "User managers can manage profiles"
+  ON public.profiles
+  FOR ALL
+  USING (public.has_permission('manage_users'));
+
+-- 2. Products and prices. The read policies used to list the roles that may read, so every
+-- signed-in user is allowed to read instead.
+
+CREATE POLICY "Signed-in users can view products"
+  ON public.products
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Product managers can manage products"
+  ON public.products
+  FOR ALL
+  USING (public.has_permission('manage_products'));
+
+CREATE POLICY "Signed-in users can view product_categories"
+  ON public.product_categories
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Product managers can manage product_categories"
+  ON public.product_categories
+  FOR ALL
+  USING (public.has_permission('manage_products'));
+
+CREATE POLICY "Signed-in users can view product_sub_categories"
+  ON public.product_sub_categories
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Product managers can manage product_sub_categories"
+  ON public.product_sub_categories
+  FOR ALL
+  USING (public.has_permission('manage_products'));
+
+CREATE POLICY "Signed-in users can view product_formulations"
+  ON public.product_formulations
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Product managers can manage product_formulations"
+  ON public.product_formulations
+  FOR ALL
+  USING (public.has_permission('manage_products'));
+
+CREATE POLICY "Product managers can manage price lists"
+  ON public.price_lists
+  FOR ALL
+  USING (public.has_permission('manage_products'));
+
+CREATE POLICY "Product managers can manage price list items"
+  ON public.price_list_items
+  FOR ALL
+  USING (public.has_permission('manage_products'));
+
+-- 3. Suppliers and customers
+
+CREATE POLICY "Staff can view suppliers"
+  ON public.suppliers
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Master data managers can manage suppliers"
+  ON public.suppliers
+  FOR ALL
+  USING (public.has_permission('manage_masters'));
+
+CREATE POLICY "Master data managers can manage customers"
+  ON public.customers
+  FOR ALL
+  USING (public.has_permission('manage_masters'));
+
+-- 4. Purchasing
+
+CREATE POLICY "Staff can view purchase orders"
+  ON public.purchase_orders
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Purchasers can manage purchase orders"
+  ON public.purchase_orders
+  FOR ALL
+  USING (public.has_permission('create_purchase'));
+
+CREATE POLICY "Staff can view purchase order lines"
+  ON public.purchase_order_lines
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Purchasers can manage purchase order lines"
+  ON public.purchase_order_lines
+  FOR ALL
+  USING (public.has_permission('create_purchase'));
+
+CREATE POLICY "Staff can view purchase invoices"
+  ON public.purchase_invoices
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Purchasers can manage purchase invoices"
+  ON public.purchase_invoices
+  FOR ALL
+  USING (public.has_permission('create_purchase'));
+
+-- 5. Stock movements: recording needs the capability for that kind of document, and changing or
+-- deleting a saved one needs edit_posted_document. Edits delete and re-insert their lines.
+
+CREATE POLICY "Staff can view stock purchases"
+  ON public.stock_purchases
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Purchasers can record stock purchases"
+  ON public.stock_purchases
+  FOR INSERT
+  WITH CHECK (public.has_permission('create_purchase'));
+
+CREATE POLICY "Editors can change posted stock purchases"
+  ON public.stock_purchases
+  FOR UPDATE
+  USING (public.has_permission('edit_posted_document'));
+
+CREATE POLICY "Editors can delete posted stock purchases"
+  ON public.stock_purchases
+  FOR DELETE
+  USING (public.has_permission('edit_posted_document'));
+
+CREATE POLICY "Staff can view stock sales"
+  ON public.stock_sales
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Sales staff can record stock sales"
+  ON public.stock_sales
+  FOR INSERT
+  WITH CHECK (public.has_permission('create_sale') AND transaction_type <> 'SALE_BY_MR');
+
+CREATE POLICY "Editors can change posted stock sales"
+  ON public.stock_sales
+  FOR UPDATE
+  USING (public.has_permission('edit_posted_document'));
+
+CREATE POLICY "Editors can delete posted stock sales"
+  ON public.stock_sales
+  FOR DELETE
+  USING (public.has_permission('edit_posted_document'));
+
+-- MR sales additionally need the MR capability, so a deactivated or re-roled MR cannot sell
+DROP POLICY IF EXISTS "MRs can record sales from their own stock" ON public.stock_sales;
+CREATE POLICY "MRs can record sales from their own stock"
+  ON public.stock_sales
+  FOR INSERT
+  WITH CHECK (
+    public.has_permission('sell_own_stock')
+    AND transaction_type = 'SALE_BY_MR'
+    AND location_type_source = 'MR'
+    AND location_id_source = auth.uid()::text
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Staff can view stock adjustments"
+  ON public.stock_adjustments
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Stock staff can post stock adjustments"
+  ON public.stock_adjustments
+  FOR INSERT
+  WITH CHECK (public.has_permission('post_adjustment') OR public.has_permission('manage_recalls'));
+
+CREATE POLICY "Editors can change posted stock adjustments"
+  ON public.stock_adjustments
+  FOR UPDATE
+  USING (public.has_permission('edit_posted_document'));
+
+CREATE POLICY "Editors can delete posted stock adjustments"
+  ON public.stock_adjustments
+  FOR DELETE
+  USING (public.has_permission('edit_posted_document'));
+
+CREATE POLICY "Staff can view supplier returns"
+  ON public.supplier_returns
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Stock staff can manage supplier returns"
+  ON public.supplier_returns
+  FOR ALL
+  USING (public.has_permission('post_adjustment'));
+
+CREATE POLICY "Stock staff can manage expiry write-off drafts"
+  ON public.expiry_write_off_drafts
+  FOR ALL
+  USING (public.has_permission('post_adjustment'));
+
+CREATE POLICY "Stock staff can review return requests"
+  ON public.mr_return_requests
+  FOR ALL
+  USING (public.has_permission('post_adjustment'));
+
+CREATE POLICY "Stock staff can review return request lines"
+  ON public.mr_return_request_lines
+  FOR ALL
+  USING (public.has_permission('post_adjustment'));
+
+CREATE POLICY "Staff can view batch recalls"
+  ON public.batch_recalls
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Recall managers can manage batch recalls"
+  ON public.batch_recalls
+  FOR ALL
+  USING (public.has_permission('manage_recalls'));
+
+CREATE POLICY "Staff can view closing_stock"
+  ON public.closing_stock
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+CREATE POLICY "Staff can view mr_stock_summary"
+  ON public.mr_stock_summary
+  FOR SELECT
+  USING (public.has_permission('view_stock'));
+
+-- Supplier returns adjust closing_stock directly, which only admins could write to
+ALTER FUNCTION public.apply_purchase_return_closing_stock() SECURITY DEFINER SET search_path = public;
+
+-- 6. Settings
+
+CREATE POLICY "Settings managers can manage company profile"
+  ON public.company_profile
+  FOR ALL
+  USING (public.has_permission('manage_settings'));
+
+CREATE POLICY "Settings managers can manage document templates"
+  ON public.document_templates
+  FOR ALL
+  USING (public.has_permission('manage_settings'));
+
+CREATE POLICY "Settings managers can manage numbering series"
+  ON public.document_number_series
+  FOR ALL
+  USING (public.has_permission('manage_settings'));
+
+-- 7. Approving an MR return was limited to admins; it now needs post_adjustment
+CREATE OR REPLACE FUNCTION public.approve_mr_return_request(p_request_id UUID, p_review_notes TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.mr_return_requests%ROWTYPE;
+  v_line RECORD;
+  v_available INTEGER;
+  v_cost NUMERIC(10,2);
+  v_number TEXT;
+BEGIN
+  IF NOT public.has_permission('post_adjustment') THEN
+    RAISE EXCEPTION 'You are not allowed to approve return requests'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.mr_return_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request % not found', p_request_id;
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Return request is already %', lower(v_request.status);
+  END IF;
+
+  FOR v_line IN
+    SELECT l.product_id, l.batch_id, l.quantity_strips, b.batch_number
+    FROM public.mr_return_request_lines l
+    JOIN public.product_batches b ON b.id = l.batch_id
+    WHERE l.request_id = p_request_id
+  LOOP
+    v_available := public.mr_batch_holding(v_request.mr_user_id, v_line.product_id, v_line.batch_id);
+
+    IF v_line.quantity_strips > v_available THEN
+      RAISE EXCEPTION 'Batch % has only % strip(s) in the MR''s stock; cannot return %',
+        v_line.batch_number, v_available, v_line.quantity_strips
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT cost_per_strip INTO v_cost
+    FROM public.closing_stock
+    WHERE product_id = v_line.product_id
+      AND batch_id = v_line.batch_id
+      AND location_type = 'MR'
+      AND location_id = v_request.mr_user_id::text
+    LIMIT 1;
+
+    INSERT INTO public.stock_adjustments (
+      adjustment_group_id, product_id, batch_id, adjustment_type, quantity_strips,
+      location_type_source, location_id_source, location_type_destination, location_id_destination,
+      cost_per_strip, notes, created_by
+    ) VALUES (
+      p_request_id, v_line.product_id, v_line.batch_id, 'RETURN_TO_GODOWN', v_line.quantity_strips,
+      'MR', v_request.mr_user_id::text, 'GODOWN', 'GODOWN',
+      COALESCE(v_cost, 0), v_request.reason, auth.uid()
+    );
+  END LOOP;
+
+  UPDATE public.mr_return_requests
+  SET status = 'Approved',
+      review_notes = NULLIF(btrim(p_review_notes), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_request_id;
+
+  SELECT reference_document_id INTO v_number
+  FROM public.stock_adjustments
+  WHERE adjustment_group_id = p_request_id
+  LIMIT 1;
+
+  RETURN v_number;
+END;
+$$;
@@ -0,0 +1,211 @@
+-- Migration for user administration
+-- Signups used to become MRs straight away. Profiles now carry a status: self-registered accounts
+-- wait as 'Pending' until a user manager approves them, and 'Deactivated' accounts keep their
+-- history but lose every permission. Users can also be invited with their role, territory and
+-- reporting manager decided up front; the invitation is applied when their account is created.
+
+-- 1. Profile status, territory and reporting line
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'Pending'
+    CHECK (status IN ('Pending', 'Active', 'Deactivated')),
+  ADD COLUMN IF NOT EXISTS territory TEXT,
+  ADD COLUMN IF NOT EXISTS reports_to UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Everyone who could sign in before this migration keeps their access
+UPDATE public.profiles SET status = 'Active' WHERE status = 'Pending';
+
+CREATE INDEX IF NOT EXISTS idx_profiles_status ON public.profiles(status);
+CREATE INDEX IF NOT EXISTS idx_profiles_reports_to ON public.profiles(reports_to);
+
+-- Only active accounts are granted anything
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.role_permissions rp ON rp.role = p.role
+    WHERE p.user_id = auth.uid()
+      AND p.status = 'Active'
+      AND rp.permission = p_permission
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin(user_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = user_uuid AND role = 'admin' AND status = 'Active'
+  );
+$$;
+
+-- Users may still edit their own name, but access-related fields belong to user managers
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.territory IS DISTINCT FROM OLD.territory
+      OR NEW.reports_to IS DISTINCT FROM OLD.reports_to)
+    AND NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only a user manager can change a role, status, territory or reporting manager'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id = auth.uid() AND NEW.status <> 'Active' AND OLD.status = 'Active' THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  IF NEW.reports_to = NEW.user_id THEN
+    RAISE EXCEPTION 'A user cannot report to themselves';
+  END IF;
+
+  IF NEW.status = 'Deactivated' AND OLD.status <> 'Deactivated' THEN
+    NEW.deactivated_at := now();
+  ELSIF NEW.status = 'Active' AND OLD.status <> 'Active' THEN
+    NEW.deactivated_at := NULL;
+    NEW.approved_by := COALESCE(NEW.approved_by, auth.uid());
+    NEW.approved_at := COALESCE(NEW.approved_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Invitations
+
+CREATE TABLE IF NOT EXISTS public.user_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL,
+  name TEXT NOT NULL,
+  role public.user_role NOT NULL,
+  territory TEXT,
+  reports_to UUID REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+  invited_by UUID REFERENCES auth.users(id),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open invitation per address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_invitations_open_email
+  ON public.user_invitations(lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE public.user_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User managers can manage invitations"
+  ON public.user_invitations
+  FOR ALL
+  USING (public.has_permission('manage_users'));
+
+CREATE TRIGGER update_user_invitations_updated_at
+  BEFORE UPDATE ON public.user_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Invited users start active with the invitation's role; everyone else waits for approval
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_invitation public.user_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.user_invitations
+  WHERE lower(email) = lower(new.email) AND accepted_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_invitation.id IS NOT NULL THEN
+    INSERT INTO public.profiles (user_id, name, email, role, status, territory, reports_to, approved_by, approved_at)
+    VALUES (
+      new.id,
+      COALESCE(NULLIF(new.raw_user_meta_data ->> 'name', ''), v_invitation.name),
+      new.email,
+      v_invitation.role,
+      'Active',
+      v_invitation.territory,
+      v_invitation.reports_to,
+      v_invitation.invited_by,
+      now()
+    );
+
+    UPDATE public.user_invitations SET accepted_at = now() WHERE id = v_invitation.id;
+  ELSE
+    INSERT INTO public.profiles (user_id, name, email, role, status)
+    VALUES (
+      new.id,
+      COALESCE(new.raw_user_meta_data ->> 'name', ''),
+      new.email,
+      'mr'::public.user_role,
+      'Pending'
+    );
+  END IF;
+
+  RETURN new;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log the error but don't block user creation
+    RAISE LOG 'Error creating profile for user %: %', new.id, SQLERRM;
+    RETURN new;
+END;
+$$;
+
+-- 3. Sign-in activity, which only auth.users records
+
+CREATE OR REPLACE FUNCTION public.get_user_sign_ins()
+RETURNS TABLE (
+  user_id UUID,
+  last_sign_in_at TIMESTAMP WITH TIME ZONE,
+  email_confirmed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only a user manager can view sign-in activity'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.last_sign_in_at, u.email_confirmed_at
+  FROM auth.users u;
+END;
+$$;
+
+-- 4. MR return requests checked only the MR's own id, so a deactivated MR could still raise them
+
+DROP POLICY IF EXISTS "MRs can raise return requests" ON public.mr_return_requests;
+CREATE POLICY "MRs can raise return requests"
+  ON public.mr_return_requests
+  FOR INSERT
+  WITH CHECK (
+    mr_user_id = auth.uid()
+    AND status = 'Pending'
+    AND public.has_permission('sell_own_stock')
+  );
@@ -0,0 +1,375 @@
+-- Migration for the sales territory hierarchy and team-scoped access
+-- Territories form a tree: zone -> region -> HQ -> territory. Profiles (MRs, and managers who look
+-- after an area) are assigned to a node of that tree instead of a typed territory name, so stock
+-- and sales can be rolled up as "all MRs under Region X". Area managers see only their team: the
+-- MRs and managers who report to them, directly or further down the reporting line. Every other
+-- staff role is granted the new view_all_locations capability and keeps seeing everything.
+
+-- 1. Territory tree
+
+CREATE TABLE IF NOT EXISTS public.territories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  territory_name TEXT NOT NULL,
+  territory_code TEXT,
+  level TEXT NOT NULL CHECK (level IN ('Zone', 'Region', 'HQ', 'Territory')),
+  parent_id UUID REFERENCES public.territories(id) ON DELETE RESTRICT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT territories_code_unique UNIQUE (territory_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_territories_parent ON public.territories(parent_id);
+
+-- A node sits directly under the level above it; zones and not-yet-placed nodes have no parent
+CREATE OR REPLACE FUNCTION public.validate_territory_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_parent_level TEXT;
+  v_expected_level TEXT;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.level = 'Zone' THEN
+    RAISE EXCEPTION 'A zone cannot have a parent';
+  END IF;
+
+  SELECT level INTO v_parent_level FROM public.territories WHERE id = NEW.parent_id;
+  v_expected_level := CASE NEW.level
+    WHEN 'Region' THEN 'Zone'
+    WHEN 'HQ' THEN 'Region'
+    WHEN 'Territory' THEN 'HQ'
+  END;
+
+  IF v_parent_level IS DISTINCT FROM v_expected_level THEN
+    RAISE EXCEPTION 'A % must be placed under a %', lower(NEW.level), v_expected_level;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_territory_parent_trigger
+  BEFORE INSERT OR UPDATE ON public.territories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_territory_parent();
+
+CREATE TRIGGER update_territories_updated_at
+  BEFORE UPDATE ON public.territories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.territories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view territories"
+  ON public.territories
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "User managers can manage territories"
+  ON public.territories
+  FOR ALL
+  USING (public.has_permission('manage_users'));
+
+-- 2. Territory assignment. Typed territory names become unplaced territory nodes that can be
+-- moved into the tree afterwards.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS territory_id UUID REFERENCES public.territories(id) ON DELETE SET NULL;
+ALTER TABLE public.user_invitations
+  ADD COLUMN IF NOT EXISTS territory_id UUID REFERENCES public.territories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_territory ON public.profiles(territory_id);
+
+INSERT INTO public.territories (territory_name, level)
+SELECT DISTINCT trim(territory), 'Territory'
+FROM (
+  SELECT territory FROM public.profiles
+  UNION
+  SELECT territory FROM public.user_invitations
+) typed
+WHERE trim(COALESCE(territory, '')) <> '';
+
+UPDATE public.profiles p
+SET territory_id = t.id
+FROM public.territories t
+WHERE t.territory_name = trim(p.territory) AND t.level = 'Territory' AND t.parent_id IS NULL;
+
+UPDATE public.user_invitations i
+SET territory_id = t.id
+FROM public.territories t
+WHERE t.territory_name = trim(i.territory) AND t.level = 'Territory' AND t.parent_id IS NULL;
+
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.territory_id IS DISTINCT FROM OLD.territory_id
+      OR NEW.reports_to IS DISTINCT FROM OLD.reports_to)
+    AND NOT public.has_permission('manage_users') THEN
+    RAISE EXCEPTION 'Only a user manager can change a role, status, territory or reporting manager'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.user_id = auth.uid() AND NEW.status <> 'Active' AND OLD.status = 'Active' THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  IF NEW.reports_to = NEW.user_id THEN
+    RAISE EXCEPTION 'A user cannot report to themselves';
+  END IF;
+
+  -- A manager reporting to someone in their own team would make the reporting line a loop
+  IF NEW.reports_to IS DISTINCT FROM OLD.reports_to AND NEW.reports_to IS NOT NULL
+    AND NEW.reports_to IN (SELECT public.team_member_ids(NEW.user_id)) THEN
+    RAISE EXCEPTION 'A user cannot report to someone in their own team';
+  END IF;
+
+  IF NEW.status = 'Deactivated' AND OLD.status <> 'Deactivated' THEN
+    NEW.deactivated_at := now();
+  ELSIF NEW.status = 'Active' AND OLD.status <> 'Active' THEN
+    NEW.deactivated_at := NULL;
+    NEW.approved_by := COALESCE(NEW.approved_by, auth.uid());
+    NEW.approved_at := COALESCE(NEW.approved_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_invitation public.user_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.user_invitations
+  WHERE lower(email) = lower(new.email) AND accepted_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_invitation.id IS NOT NULL THEN
+    INSERT INTO public.profiles (user_id, name, email, role, status, territory_id, reports_to, approved_by, approved_at)
+    VALUES (
+      new.id,
+      COALESCE(NULLIF(new.raw_user_meta_data ->> 'name', ''), v_invitation.name),
+      new.email,
+      v_invitation.role,
+      'Active',
+      v_invitation.territory_id,
+      v_invitation.reports_to,
+      v_invitation.invited_by,
+      now()
+    );
+
+    UPDATE public.user_invitations SET accepted_at = now() WHERE id = v_invitation.id;
+  ELSE
+    INSERT INTO public.profiles (user_id, name, email, role, status)
+    VALUES (
+      new.id,
+      COALESCE(new.raw_user_meta_data ->> 'name', ''),
+      new.email,
+      'mr'::public.user_role,
+      'Pending'
+    );
+  END IF;
+
+  RETURN new;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log the error but don't block user creation
+    RAISE LOG 'Error creating profile for user %: %', new.id, SQLERRM;
+    RETURN new;
+END;
+$$;
+
+ALTER TABLE public.profiles DROP COLUMN IF EXISTS territory;
+ALTER TABLE public.user_invitations DROP COLUMN IF EXISTS territory;
+
+-- 3. Teams
+
+-- Everyone below a manager in the reporting line
+CREATE OR REPLACE FUNCTION public.team_member_ids(p_manager_id UUID DEFAULT auth.uid())
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE team AS (
+    SELECT p.user_id
+    FROM public.profiles p
+    WHERE p.reports_to = p_manager_id
+    UNION
+    SELECT p.user_id
+    FROM public.profiles p
+    JOIN team t ON p.reports_to = t.user_id
+  )
+  SELECT user_id FROM team;
+$$;
+
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS valid_permission;
+ALTER TABLE public.role_permissions ADD CONSTRAINT valid_permission CHECK (permission IN (
+  'view_stock', 'view_all_locations', 'view_valuation', 'manage_products', 'manage_masters',
+  'create_purchase', 'create_sale', 'post_adjustment', 'edit_posted_document', 'manage_recalls',
+  'manage_settings', 'manage_users', 'sell_own_stock'
+));
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'view_all_locations'),
+  ('storekeeper', 'view_all_locations'),
+  ('accounts', 'view_all_locations'),
+  ('auditor', 'view_all_locations')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Whether the signed-in user may see a stock location: all of them, or their team's MRs
+CREATE OR REPLACE FUNCTION public.can_view_location(p_location_type TEXT, p_location_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission('view_stock') AND (
+    public.has_permission('view_all_locations')
+    OR (
+      p_location_type = 'MR'
+      AND p_location_id IN (SELECT member_id::text FROM public.team_member_ids() AS member_id)
+    )
+  );
+$$;
+
+-- 4. Replace the staff read policies with team-aware ones. Purchases only concern the godown.
+
+DROP POLICY IF EXISTS "Staff can view profiles" ON public.profiles;
+CREATE POLICY "Staff can view profiles"
+  ON public.profiles
+  FOR SELECT
+  USING (public.can_view_location('MR', user_id::text));
+
+DROP POLICY IF EXISTS "Staff can view stock sales" ON public.stock_sales;
+CREATE POLICY "Staff can view stock sales"
+  ON public.stock_sales
+  FOR SELECT
+  USING (
+    public.can_view_location(location_type_source, location_id_source)
+    OR public.can_view_location(location_type_destination, location_id_destination)
+  );
+
+DROP POLICY IF EXISTS "Staff can view stock adjustments" ON public.stock_adjustments;
+CREATE POLICY "Staff can view stock adjustments"
+  ON public.stock_adjustments
+  FOR SELECT
+  USING (
+    public.can_view_location(location_type_source, location_id_source)
+    OR public.can_view_location(location_type_destination, location_id_destination)
+  );
+
+DROP POLICY IF EXISTS "Staff can view closing_stock" ON public.closing_stock;
+CREATE POLICY "Staff can view closing_stock"
+  ON public.closing_stock
+  FOR SELECT
+  USING (public.can_view_location(location_type, location_id));
+
+DROP POLICY IF EXISTS "Staff can view mr_stock_summary" ON public.mr_stock_summary;
+CREATE POLICY "Staff can view mr_stock_summary"
+  ON public.mr_stock_summary
+  FOR SELECT
+  USING (public.can_view_location('MR', mr_user_id::text));
+
+DROP POLICY IF EXISTS "Staff can view stock purchases" ON public.stock_purchases;
+CREATE POLICY "Staff can view stock purchases"
+  ON public.stock_purchases
+  FOR SELECT
+  USING (public.can_view_location('GODOWN', NULL));
+
+DROP POLICY IF EXISTS "Staff can view purchase orders" ON public.purchase_orders;
+CREATE POLICY "Staff can view purchase orders"
+  ON public.purchase_orders
+  FOR SELECT
+  USING (public.can_view_location('GODOWN', NULL));
+
+DROP POLICY IF EXISTS "Staff can view purchase order lines" ON public.purchase_order_lines;
+CREATE POLICY "Staff can view purchase order lines"
+  ON public.purchase_order_lines
+  FOR SELECT
+  USING (public.can_view_location('GODOWN', NULL));
+
+DROP POLICY IF EXISTS "Staff can view purchase invoices" ON public.purchase_invoices;
+CREATE POLICY "Staff can view purchase invoices"
+  ON public.purchase_invoices
+  FOR SELECT
+  USING (public.can_view_location('GODOWN', NULL));
+
+DROP POLICY IF EXISTS "Staff can view supplier returns" ON public.supplier_returns;
+CREATE POLICY "Staff can view supplier returns"
+  ON public.supplier_returns
+  FOR SELECT
+  USING (public.can_view_location('GODOWN', NULL));
+
+-- 5. The stock report summary accepts a set of MR locations for territory rollups
+
+DROP FUNCTION IF EXISTS public.get_closing_stock_summary(TEXT, TEXT, TEXT, TEXT, TEXT, DATE, DATE, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_closing_stock_summary(
+  p_location_type TEXT DEFAULT NULL,
+  p_location_id TEXT DEFAULT NULL,
+  p_product_search TEXT DEFAULT NULL,
+  p_category_name TEXT DEFAULT NULL,
+  p_batch_search TEXT DEFAULT NULL,
+  p_expiry_from DATE DEFAULT NULL,
+  p_expiry_to DATE DEFAULT NULL,
+  p_expiring_within_days INTEGER DEFAULT 30,
+  p_location_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  total_products BIGINT,
+  total_batches BIGINT,
+  total_value NUMERIC,
+  low_stock_items BIGINT,
+  expiring_soon_items BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(DISTINCT csv.product_id),
+    COUNT(DISTINCT csv.batch_id),
+    COALESCE(SUM(csv.total_value), 0),
+    COUNT(*) FILTER (
+      WHERE csv.quantity_strips <= CASE
+        WHEN csv.location_type = 'GODOWN' THEN COALESCE(csv.min_stock_level_godown, 0)
+        ELSE COALESCE(csv.min_stock_level_mr, 0)
+      END
+    ),
+    COUNT(*) FILTER (WHERE csv.expiry_date <= CURRENT_DATE + p_expiring_within_days)
+  FROM public.closing_stock_view csv
+  WHERE csv.quantity_strips > 0
+    AND (p_location_type IS NULL OR csv.location_type = p_location_type)
+    AND (p_location_id IS NULL OR csv.location_id = p_location_id)
+    AND (p_location_ids IS NULL OR csv.location_id = ANY (p_location_ids))
+    AND (p_product_search IS NULL
+         OR csv.product_name ILIKE '%' || p_product_search || '%'
+         OR csv.product_code ILIKE '%' || p_product_search || '%')
+    AND (p_category_name IS NULL OR csv.category_name = p_category_name)
+    AND (p_batch_search IS NULL OR csv.batch_number ILIKE '%' || p_batch_search || '%')
+    AND (p_expiry_from IS NULL OR csv.expiry_date >= p_expiry_from)
+    AND (p_expiry_to IS NULL OR csv.expiry_date <= p_expiry_to);
+$$;
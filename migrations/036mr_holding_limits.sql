@@ -0,0 +1,448 @@
+-- Migration for MR holding limits and dispatch approval
+-- An MR can be given a limit on how much of a product they may hold, by strips and/or by stock
+-- value, and an overall limit on the value of everything they hold. A dispatch that would take
+-- an MR over one of their limits is not posted: it is saved as a dispatch request, and a manager
+-- with the new approve_dispatch capability posts or rejects it from the approvals inbox.
+-- Holding values are at cost, as in closing_stock. The product minimum level for MRs
+-- (products.min_stock_level_mr) is now compared with all of an MR's batches of the product
+-- together instead of with each batch on its own.
+
+-- 1. Capability
+
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS valid_permission;
+ALTER TABLE public.role_permissions ADD CONSTRAINT valid_permission CHECK (permission IN (
+  'view_stock', 'view_all_locations', 'view_valuation', 'manage_products', 'manage_masters',
+  'create_purchase', 'create_sale', 'post_adjustment', 'edit_posted_document', 'manage_recalls',
+  'manage_settings', 'manage_users', 'sell_own_stock', 'approve_dispatch'
+));
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'approve_dispatch'),
+  ('area_manager', 'approve_dispatch')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- 2. Limits. A row with a product limits that product; the row without one is the MR's overall
+-- value limit.
+
+CREATE TABLE IF NOT EXISTS public.mr_holding_limits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mr_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  max_quantity_strips INTEGER,
+  max_value NUMERIC(12,2),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT holding_limit_given CHECK (max_quantity_strips IS NOT NULL OR max_value IS NOT NULL),
+  CONSTRAINT overall_holding_limit_by_value CHECK (product_id IS NOT NULL OR max_quantity_strips IS NULL),
+  CONSTRAINT non_negative_holding_limits CHECK (
+    COALESCE(max_quantity_strips, 0) >= 0 AND COALESCE(max_value, 0) >= 0
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mr_holding_limits_product
+  ON public.mr_holding_limits(mr_user_id, product_id)
+  WHERE product_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mr_holding_limits_overall
+  ON public.mr_holding_limits(mr_user_id)
+  WHERE product_id IS NULL;
+
+CREATE TRIGGER update_mr_holding_limits_updated_at
+  BEFORE UPDATE ON public.mr_holding_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.mr_holding_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Dispatchers and managers can view holding limits"
+  ON public.mr_holding_limits
+  FOR SELECT
+  USING (
+    public.has_permission('create_sale')
+    OR public.can_view_location('MR', mr_user_id::text)
+    OR mr_user_id = auth.uid()
+  );
+
+CREATE POLICY "Approvers can manage their team's holding limits"
+  ON public.mr_holding_limits
+  FOR ALL
+  USING (
+    public.has_permission('approve_dispatch')
+    AND public.can_view_location('MR', mr_user_id::text)
+  )
+  WITH CHECK (
+    public.has_permission('approve_dispatch')
+    AND public.can_view_location('MR', mr_user_id::text)
+  );
+
+-- 3. The limits a dispatch would break. p_lines is a JSON array of
+-- { product_id, quantity_strips, cost_per_strip } added to what the MR already holds.
+CREATE OR REPLACE FUNCTION public.get_mr_limit_breaches(p_mr_user_id UUID, p_lines JSONB)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  limit_type TEXT,
+  limit_amount NUMERIC,
+  holding_after NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH additions AS (
+    SELECT
+      (line->>'product_id')::uuid AS product_id,
+      SUM((line->>'quantity_strips')::integer) AS quantity_strips,
+      SUM((line->>'quantity_strips')::integer * COALESCE((line->>'cost_per_strip')::numeric, 0)) AS value
+    FROM jsonb_array_elements(p_lines) AS line
+    GROUP BY 1
+  ),
+  holdings AS (
+    SELECT
+      cs.product_id,
+      SUM(cs.quantity_strips) AS quantity_strips,
+      SUM(cs.quantity_strips * cs.cost_per_strip) AS value
+    FROM public.closing_stock cs
+    WHERE cs.location_type = 'MR'
+      AND cs.location_id = p_mr_user_id::text
+    GROUP BY cs.product_id
+  ),
+  after_dispatch AS (
+    SELECT
+      a.product_id,
+      COALESCE(h.quantity_strips, 0) + a.quantity_strips AS quantity_strips,
+      COALESCE(h.value, 0) + a.value AS value
+    FROM additions a
+    LEFT JOIN holdings h ON h.product_id = a.product_id
+  ),
+  overall AS (
+    SELECT
+      COALESCE((SELECT SUM(value) FROM holdings), 0)
+        + COALESCE((SELECT SUM(value) FROM additions), 0) AS value
+  )
+  SELECT l.product_id, p.product_name, 'QUANTITY', l.max_quantity_strips::numeric, ad.quantity_strips::numeric
+  FROM public.mr_holding_limits l
+  JOIN after_dispatch ad ON ad.product_id = l.product_id
+  JOIN public.products p ON p.id = l.product_id
+  WHERE l.mr_user_id = p_mr_user_id
+    AND ad.quantity_strips > l.max_quantity_strips
+  UNION ALL
+  SELECT l.product_id, p.product_name, 'VALUE', l.max_value, ad.value
+  FROM public.mr_holding_limits l
+  JOIN after_dispatch ad ON ad.product_id = l.product_id
+  JOIN public.products p ON p.id = l.product_id
+  WHERE l.mr_user_id = p_mr_user_id
+    AND ad.value > l.max_value
+  UNION ALL
+  SELECT NULL, NULL, 'VALUE', l.max_value, overall.value
+  FROM public.mr_holding_limits l
+  CROSS JOIN overall
+  WHERE l.mr_user_id = p_mr_user_id
+    AND l.product_id IS NULL
+    AND EXISTS (SELECT 1 FROM additions)
+    AND overall.value > l.max_value;
+$$;
+
+-- 4. Dispatch requests: a dispatch held back for approval. Approval posts DISPATCH_TO_MR sales
+-- whose sale_group_id is the request id.
+
+CREATE TABLE IF NOT EXISTS public.mr_dispatch_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mr_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE RESTRICT,
+  dispatch_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  price_list_id UUID REFERENCES public.price_lists(id) ON DELETE SET NULL,
+  notes TEXT,
+  -- The limits the dispatch broke when it was requested, as returned by get_mr_limit_breaches
+  limit_breaches JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'Pending',
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_dispatch_request_status CHECK (status IN ('Pending', 'Approved', 'Rejected', 'Cancelled'))
+);
+
+CREATE TABLE IF NOT EXISTS public.mr_dispatch_request_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.mr_dispatch_requests(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE RESTRICT,
+  batch_id UUID NOT NULL REFERENCES public.product_batches(id) ON DELETE RESTRICT,
+  quantity_strips INTEGER NOT NULL,
+  cost_per_strip NUMERIC(10,2) NOT NULL DEFAULT 0,
+  selling_price_per_strip NUMERIC(10,2),
+  notes TEXT,
+  override_justification TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT positive_dispatch_request_quantity CHECK (quantity_strips > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mr_dispatch_requests_mr ON public.mr_dispatch_requests(mr_user_id);
+CREATE INDEX IF NOT EXISTS idx_mr_dispatch_requests_status ON public.mr_dispatch_requests(status);
+CREATE INDEX IF NOT EXISTS idx_mr_dispatch_request_lines_request ON public.mr_dispatch_request_lines(request_id);
+
+CREATE TRIGGER update_mr_dispatch_requests_updated_at
+  BEFORE UPDATE ON public.mr_dispatch_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.mr_dispatch_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mr_dispatch_request_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Requesters and approvers can view dispatch requests"
+  ON public.mr_dispatch_requests
+  FOR SELECT
+  USING (
+    requested_by = auth.uid()
+    OR (
+      public.has_permission('approve_dispatch')
+      AND public.can_view_location('MR', mr_user_id::text)
+    )
+  );
+
+CREATE POLICY "Dispatchers can raise dispatch requests"
+  ON public.mr_dispatch_requests
+  FOR INSERT
+  WITH CHECK (
+    public.has_permission('create_sale')
+    AND requested_by = auth.uid()
+    AND status = 'Pending'
+  );
+
+-- A pending request can be withdrawn by whoever raised it
+CREATE POLICY "Requesters can cancel their pending dispatch requests"
+  ON public.mr_dispatch_requests
+  FOR UPDATE
+  USING (requested_by = auth.uid() AND status = 'Pending')
+  WITH CHECK (requested_by = auth.uid() AND status IN ('Pending', 'Cancelled'));
+
+-- Approval goes through approve_mr_dispatch_request(), which posts the dispatch
+CREATE POLICY "Approvers can reject their team's dispatch requests"
+  ON public.mr_dispatch_requests
+  FOR UPDATE
+  USING (
+    status = 'Pending'
+    AND public.has_permission('approve_dispatch')
+    AND public.can_view_location('MR', mr_user_id::text)
+  )
+  WITH CHECK (status IN ('Pending', 'Rejected'));
+
+CREATE POLICY "Requesters and approvers can view dispatch request lines"
+  ON public.mr_dispatch_request_lines
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.mr_dispatch_requests r
+      WHERE r.id = request_id
+    )
+  );
+
+CREATE POLICY "Requesters can add lines to their pending dispatch requests"
+  ON public.mr_dispatch_request_lines
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.mr_dispatch_requests r
+      WHERE r.id = request_id AND r.requested_by = auth.uid() AND r.status = 'Pending'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.approve_mr_dispatch_request(p_request_id UUID, p_review_notes TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.mr_dispatch_requests%ROWTYPE;
+  v_number TEXT;
+BEGIN
+  IF NOT public.has_permission('approve_dispatch') THEN
+    RAISE EXCEPTION 'You are not allowed to approve dispatches'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.mr_dispatch_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispatch request % not found', p_request_id;
+  END IF;
+
+  IF NOT public.can_view_location('MR', v_request.mr_user_id::text) THEN
+    RAISE EXCEPTION 'You can only approve dispatches to MRs in your team'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_request.status <> 'Pending' THEN
+    RAISE EXCEPTION 'Dispatch request is already %', lower(v_request.status);
+  END IF;
+
+  -- Approved first: the holding limit check lets through the sales of an approved request
+  UPDATE public.mr_dispatch_requests
+  SET status = 'Approved',
+      review_notes = NULLIF(btrim(p_review_notes), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_request_id;
+
+  -- The batch, recall and price checks on stock_sales apply as for any other dispatch
+  INSERT INTO public.stock_sales (
+    sale_group_id, product_id, batch_id, transaction_type, quantity_strips,
+    location_type_source, location_id_source, location_type_destination, location_id_destination,
+    sale_date, cost_per_strip, selling_price_per_strip, price_list_id, notes,
+    override_justification, created_by
+  )
+  SELECT
+    p_request_id, l.product_id, l.batch_id, 'DISPATCH_TO_MR', l.quantity_strips,
+    'GODOWN', 'GODOWN_MAIN', 'MR', v_request.mr_user_id::text,
+    v_request.dispatch_date, l.cost_per_strip, l.selling_price_per_strip, v_request.price_list_id,
+    COALESCE(NULLIF(btrim(l.notes), ''), v_request.notes),
+    l.override_justification, v_request.requested_by
+  FROM public.mr_dispatch_request_lines l
+  WHERE l.request_id = p_request_id
+  ORDER BY l.created_at, l.id;
+
+  SELECT reference_document_id INTO v_number
+  FROM public.stock_sales
+  WHERE sale_group_id = p_request_id
+  LIMIT 1;
+
+  RETURN v_number;
+END;
+$$;
+
+-- 5. Dispatches that leave an MR over a limit are refused unless they were approved. The check
+-- runs once per statement, after the row triggers have added the dispatch to closing_stock, so a
+-- multi-line dispatch is judged as a whole.
+CREATE OR REPLACE FUNCTION public.enforce_mr_holding_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispatch RECORD;
+  v_breach RECORD;
+BEGIN
+  FOR v_dispatch IN
+    SELECT
+      n.location_id_destination AS mr_location_id,
+      jsonb_agg(DISTINCT jsonb_build_object('product_id', n.product_id, 'quantity_strips', 0)) AS lines
+    FROM new_sales n
+    WHERE n.transaction_type = 'DISPATCH_TO_MR'
+      AND n.location_type_destination = 'MR'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.mr_dispatch_requests r
+        WHERE r.id = n.sale_group_id AND r.status = 'Approved'
+      )
+    GROUP BY n.location_id_destination
+  LOOP
+    SELECT * INTO v_breach
+    FROM public.get_mr_limit_breaches(v_dispatch.mr_location_id::uuid, v_dispatch.lines)
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'This dispatch takes the MR over their % holding limit%; send it for approval',
+        lower(v_breach.limit_type),
+        COALESCE(' for ' || v_breach.product_name, '')
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_mr_holding_limits_trigger ON public.stock_sales;
+CREATE TRIGGER enforce_mr_holding_limits_trigger
+  AFTER INSERT ON public.stock_sales
+  REFERENCING NEW TABLE AS new_sales
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.enforce_mr_holding_limits();
+
+-- 6. MR minimum levels apply to the product, not the batch: the view carries what the location
+-- holds of the product across its batches
+
+CREATE OR REPLACE VIEW public.closing_stock_view
+WITH (security_invoker = true) AS
+SELECT
+  cs.id,
+  cs.product_id,
+  p.product_code,
+  p.product_name,
+  p.generic_name,
+  cs.batch_id,
+  pb.batch_number,
+  pb.expiry_date,
+  cs.location_type,
+  cs.location_id,
+  cs.quantity_strips,
+  cs.cost_per_strip,
+  (cs.quantity_strips * cs.cost_per_strip) AS total_value,
+  p.category_id,
+  pc.category_name,
+  p.min_stock_level_godown,
+  p.min_stock_level_mr,
+  cs.last_updated_at,
+  SUM(cs.quantity_strips) OVER (
+    PARTITION BY cs.location_type, cs.location_id, cs.product_id
+  ) AS location_product_quantity_strips
+FROM
+  public.closing_stock cs
+JOIN
+  public.products p ON cs.product_id = p.id
+JOIN
+  public.product_batches pb ON cs.batch_id = pb.id
+LEFT JOIN
+  public.product_categories pc ON p.category_id = pc.id;
+
+CREATE OR REPLACE FUNCTION public.get_closing_stock_summary(
+  p_location_type TEXT DEFAULT NULL,
+  p_location_id TEXT DEFAULT NULL,
+  p_product_search TEXT DEFAULT NULL,
+  p_category_name TEXT DEFAULT NULL,
+  p_batch_search TEXT DEFAULT NULL,
+  p_expiry_from DATE DEFAULT NULL,
+  p_expiry_to DATE DEFAULT NULL,
+  p_expiring_within_days INTEGER DEFAULT 30,
+  p_location_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  total_products BIGINT,
+  total_batches BIGINT,
+  total_value NUMERIC,
+  low_stock_items BIGINT,
+  expiring_soon_items BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(DISTINCT csv.product_id),
+    COUNT(DISTINCT csv.batch_id),
+    COALESCE(SUM(csv.total_value), 0),
+    COUNT(*) FILTER (
+      WHERE CASE
+        WHEN csv.location_type = 'GODOWN'
+          THEN csv.quantity_strips <= COALESCE(csv.min_stock_level_godown, 0)
+        ELSE csv.location_product_quantity_strips <= COALESCE(csv.min_stock_level_mr, 0)
+      END
+    ),
+    COUNT(*) FILTER (WHERE csv.expiry_date <= CURRENT_DATE + p_expiring_within_days)
+  FROM public.closing_stock_view csv
+  WHERE csv.quantity_strips > 0
+    AND (p_location_type IS NULL OR csv.location_type = p_location_type)
+    AND (p_location_id IS NULL OR csv.location_id = p_location_id)
+    AND (p_location_ids IS NULL OR csv.location_id = ANY (p_location_ids))
+    AND (p_product_search IS NULL
+         OR csv.product_name ILIKE '%' || p_product_search || '%'
+         OR csv.product_code ILIKE '%' || p_product_search || '%')
+    AND (p_category_name IS NULL OR csv.category_name = p_category_name)
+    AND (p_batch_search IS NULL OR csv.batch_number ILIKE '%' || p_batch_search || '%')
+    AND (p_expiry_from IS NULL OR csv.expiry_date >= p_expiry_from)
+    AND (p_expiry_to IS NULL OR csv.expiry_date <= p_expiry_to);
+$$;
@@ -0,0 +1,143 @@
+-- Migration for stock settings
+-- Company-wide stock rules in a single row. The minimum remaining shelf life used by FEFO
+-- allocation lives here, and validate_outbound_batch() applies it to stock leaving the godown:
+-- a batch expiring within it needs the same override as an expired batch. Settings managers
+-- change the rules; everyone signed in can read them.
+
+CREATE TABLE IF NOT EXISTS public.stock_settings (
+  id BOOLEAN NOT NULL PRIMARY KEY DEFAULT true,
+  min_shelf_life_days INTEGER NOT NULL DEFAULT 30,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT single_stock_settings CHECK (id),
+  CONSTRAINT valid_min_shelf_life_days CHECK (min_shelf_life_days >= 0)
+);
+
+INSERT INTO public.stock_settings (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_stock_settings_updated_at
+  BEFORE UPDATE ON public.stock_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.stock_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Settings managers can manage stock settings"
+  ON public.stock_settings
+  FOR ALL
+  USING (public.has_permission('manage_settings'));
+
+CREATE POLICY "Authenticated users can view stock settings"
+  ON public.stock_settings
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- Overriding a batch restriction becomes a capability of its own instead of being limited to admins
+ALTER TABLE public.role_permissions DROP CONSTRAINT IF EXISTS valid_permission;
+ALTER TABLE public.role_permissions ADD CONSTRAINT valid_permission CHECK (permission IN (
+  'view_stock', 'view_all_locations', 'view_valuation', 'manage_products', 'manage_masters',
+  'create_purchase', 'create_sale', 'post_adjustment', 'edit_posted_document', 'manage_recalls',
+  'manage_settings', 'manage_users', 'sell_own_stock', 'approve_dispatch', 'override_batch_restriction'
+));
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'override_batch_restriction')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- The outbound batch check from 020batch_outbound_validation, now with the minimum shelf life
+-- for godown dispatches and sales. Edits are checked again only when they move stock from a
+-- different batch or date, or move more of it: a saved row whose batch was recalled or expired
+-- since can still be corrected downwards.
+CREATE OR REPLACE FUNCTION public.validate_outbound_batch()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_batch RECORD;
+  v_movement_date DATE;
+  v_previous_date DATE;
+  v_from_godown BOOLEAN;
+  v_min_shelf_life_days INTEGER;
+  v_restriction TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'stock_adjustments' THEN
+    -- Returns, write-offs and opening stock may legitimately involve expired or recalled stock
+    IF NEW.adjustment_type NOT LIKE 'REPLACEMENT_FROM_%' THEN
+      RETURN NEW;
+    END IF;
+    v_movement_date := NEW.adjustment_date::date;
+    v_from_godown := false;
+    IF TG_OP = 'UPDATE' AND OLD.adjustment_type = NEW.adjustment_type THEN
+      v_previous_date := OLD.adjustment_date::date;
+    END IF;
+  ELSE
+    v_movement_date := NEW.sale_date::date;
+    v_from_godown := NEW.location_type_source = 'GODOWN';
+    IF TG_OP = 'UPDATE' AND OLD.location_type_source = NEW.location_type_source THEN
+      v_previous_date := OLD.sale_date::date;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.batch_id = OLD.batch_id
+    AND v_movement_date = v_previous_date
+    AND NEW.quantity_strips <= OLD.quantity_strips THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT batch_number, status, expiry_date INTO v_batch
+  FROM public.product_batches
+  WHERE id = NEW.batch_id;
+
+  IF v_from_godown THEN
+    SELECT min_shelf_life_days INTO v_min_shelf_life_days
+    FROM public.stock_settings;
+  END IF;
+
+  IF v_batch.status = 'Recalled' THEN
+    RAISE EXCEPTION 'Batch % has been recalled and cannot be dispatched or sold', v_batch.batch_number
+      USING ERRCODE = 'check_violation';
+  ELSIF v_batch.status = 'Quarantined' THEN
+    v_restriction := format('Batch %s is quarantined', v_batch.batch_number);
+  ELSIF v_batch.status = 'Expired' THEN
+    v_restriction := format('Batch %s is marked Expired', v_batch.batch_number);
+  ELSIF v_batch.expiry_date < v_movement_date THEN
+    v_restriction := format('Batch %s expired on %s', v_batch.batch_number, to_char(v_batch.expiry_date, 'YYYY-MM-DD'));
+  ELSIF COALESCE(v_min_shelf_life_days, 0) > 0
+    AND v_batch.expiry_date < v_movement_date + v_min_shelf_life_days THEN
+    v_restriction := format('Batch %s expires on %s, within the minimum shelf life of %s days',
+      v_batch.batch_number, to_char(v_batch.expiry_date, 'YYYY-MM-DD'), v_min_shelf_life_days);
+  END IF;
+
+  IF v_restriction IS NULL THEN
+    NEW.override_justification := NULL;
+    NEW.override_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NULLIF(btrim(NEW.override_justification), '') IS NULL THEN
+    RAISE EXCEPTION '%. An override with a justification is required.', v_restriction
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.has_permission('override_batch_restriction') THEN
+    RAISE EXCEPTION '%. You are not allowed to override this restriction.', v_restriction
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.override_by := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Edits were not checked at all; the function above decides which of them need checking
+DROP TRIGGER IF EXISTS validate_outbound_batch_sales_trigger ON public.stock_sales;
+CREATE TRIGGER validate_outbound_batch_sales_trigger
+  BEFORE INSERT OR UPDATE OF batch_id, sale_date, quantity_strips, location_type_source ON public.stock_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_outbound_batch();
+
+DROP TRIGGER IF EXISTS validate_outbound_batch_adjustments_trigger ON public.stock_adjustments;
+CREATE TRIGGER validate_outbound_batch_adjustments_trigger
+  BEFORE INSERT OR UPDATE OF batch_id, adjustment_date, quantity_strips, adjustment_type ON public.stock_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_outbound_batch();
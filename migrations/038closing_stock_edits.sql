@@ -0,0 +1,268 @@
+-- Migration to keep closing_stock in step when a stock movement is edited
+-- update_closing_stock() handled edits of purchases only. Sales and adjustments are edited in
+-- place too (the Stock Adjustments page and the transaction dialog update the row), and those
+-- edits left closing_stock as it was, so the stock report drifted from the transactions.
+-- The trigger now works out what a row does to each location it touches; an edit takes the
+-- row out as it was and puts it back in as edited. Purchase returns, which have their own
+-- triggers, do the same. Positions that drifted through earlier edits are corrected by
+-- rebuilding from the stock reconciliation screen.
+
+-- What a purchase, sale or adjustment row does to closing_stock: one row per location whose
+-- stock it changes. Mirrors getTransactionEffects() in stockCalculations.ts for the movement
+-- types the trigger has always applied; purchase returns are applied by their own triggers.
+CREATE OR REPLACE FUNCTION public.closing_stock_effects(p_table TEXT, p_movement JSONB)
+RETURNS TABLE (location_type TEXT, location_id TEXT, quantity_change INTEGER)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_type TEXT;
+  v_quantity INTEGER := (p_movement->>'quantity_strips')::INTEGER;
+  v_source_type TEXT := p_movement->>'location_type_source';
+  v_source_id TEXT := p_movement->>'location_id_source';
+  v_destination_type TEXT := p_movement->>'location_type_destination';
+  v_destination_id TEXT := p_movement->>'location_id_destination';
+BEGIN
+  IF p_table = 'stock_purchases' THEN
+    -- Purchases always go into the GODOWN
+    location_type := 'GODOWN';
+    location_id := '';
+    quantity_change := v_quantity;
+    RETURN NEXT;
+
+  ELSIF p_table = 'stock_sales' THEN
+    v_type := p_movement->>'transaction_type';
+
+    IF v_type IN ('DISPATCH_TO_MR', 'SALE_DIRECT_GODOWN', 'SALE_BY_MR') THEN
+      -- Out of the source
+      location_type := v_source_type;
+      location_id := public.closing_stock_location_id(v_source_type, v_source_id);
+      quantity_change := -v_quantity;
+      RETURN NEXT;
+    END IF;
+
+    IF v_type = 'DISPATCH_TO_MR' THEN
+      -- Into the MR's holding
+      location_type := v_destination_type;
+      location_id := public.closing_stock_location_id(v_destination_type, v_destination_id);
+      quantity_change := v_quantity;
+      RETURN NEXT;
+    END IF;
+
+  ELSIF p_table = 'stock_adjustments' THEN
+    v_type := p_movement->>'adjustment_type';
+
+    IF v_type LIKE 'RETURN_TO_GODOWN%' THEN
+      location_type := 'GODOWN';
+      location_id := '';
+      quantity_change := v_quantity;
+      RETURN NEXT;
+
+      -- Out of the MR if that's the source
+      IF v_source_type = 'MR' AND v_source_id IS NOT NULL THEN
+        location_type := 'MR';
+        location_id := v_source_id;
+        quantity_change := -v_quantity;
+        RETURN NEXT;
+      END IF;
+    ELSIF v_type LIKE 'ADJUST_DAMAGE_%' OR
+          v_type LIKE 'ADJUST_LOSS_%' OR
+          v_type LIKE 'ADJUST_EXPIRED_%' OR
+          v_type LIKE 'REPLACEMENT_FROM_%' THEN
+      -- Losses, damages, expiries and replacements leave the location they name
+      IF v_type LIKE '%_GODOWN' THEN
+        location_type := 'GODOWN';
+        location_id := '';
+      ELSE
+        location_type := 'MR';
+        location_id := COALESCE(v_source_id, '');
+      END IF;
+      quantity_change := -v_quantity;
+      RETURN NEXT;
+    ELSIF v_type = 'OPENING_STOCK_GODOWN' THEN
+      location_type := 'GODOWN';
+      location_id := '';
+      quantity_change := v_quantity;
+      RETURN NEXT;
+    ELSIF v_type = 'OPENING_STOCK_MR' THEN
+      location_type := 'MR';
+      location_id := COALESCE(v_destination_id, '');
+      quantity_change := v_quantity;
+      RETURN NEXT;
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Adds to or takes from one closing_stock position. Stock never goes below zero, and a
+-- position is only created by an inflow.
+CREATE OR REPLACE FUNCTION public.apply_closing_stock_change(
+  p_product_id UUID,
+  p_batch_id UUID,
+  p_location_type TEXT,
+  p_location_id TEXT,
+  p_quantity_change INTEGER,
+  p_cost_per_strip NUMERIC
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF p_location_type IS NULL OR p_quantity_change = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.closing_stock
+  SET quantity_strips = GREATEST(0, quantity_strips + p_quantity_change),
+      -- Only update cost_per_strip if it's an inflow (positive quantity change)
+      cost_per_strip = CASE WHEN p_quantity_change > 0 THEN p_cost_per_strip ELSE cost_per_strip END,
+      last_updated_at = now()
+  WHERE product_id = p_product_id
+    AND batch_id = p_batch_id
+    AND location_type = p_location_type
+    AND location_id = p_location_id;
+
+  IF NOT FOUND AND p_quantity_change > 0 THEN
+    INSERT INTO public.closing_stock (
+      product_id, batch_id, location_type, location_id,
+      quantity_strips, cost_per_strip, last_updated_at
+    ) VALUES (
+      p_product_id, p_batch_id, p_location_type, p_location_id,
+      p_quantity_change, p_cost_per_strip, now()
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_closing_stock_change(UUID, UUID, TEXT, TEXT, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Recreate the closing stock trigger function on top of the effects above
+CREATE OR REPLACE FUNCTION public.update_closing_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_effect RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Nothing to do unless the edit touches what the row put in or took out of stock
+    IF (OLD.product_id, OLD.batch_id, OLD.cost_per_strip) IS NOT DISTINCT FROM
+       (NEW.product_id, NEW.batch_id, NEW.cost_per_strip)
+      AND (SELECT jsonb_agg(e) FROM public.closing_stock_effects(TG_TABLE_NAME, to_jsonb(OLD)) e)
+        IS NOT DISTINCT FROM
+          (SELECT jsonb_agg(e) FROM public.closing_stock_effects(TG_TABLE_NAME, to_jsonb(NEW)) e) THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    -- Reverse the effect of the row as it was
+    FOR v_effect IN
+      SELECT * FROM public.closing_stock_effects(TG_TABLE_NAME, to_jsonb(OLD))
+    LOOP
+      PERFORM public.apply_closing_stock_change(
+        OLD.product_id, OLD.batch_id, v_effect.location_type, v_effect.location_id,
+        -v_effect.quantity_change, OLD.cost_per_strip
+      );
+    END LOOP;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    FOR v_effect IN
+      SELECT * FROM public.closing_stock_effects(TG_TABLE_NAME, to_jsonb(NEW))
+    LOOP
+      PERFORM public.apply_closing_stock_change(
+        NEW.product_id, NEW.batch_id, v_effect.location_type, v_effect.location_id,
+        v_effect.quantity_change, NEW.cost_per_strip
+      );
+    END LOOP;
+  END IF;
+
+  -- Return the appropriate record based on operation
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  ELSE
+    RETURN NEW;
+  END IF;
+END;
+$$;
+
+-- Purchase returns: deleting one puts the stock back in the godown, and editing one puts the
+-- old quantity back before taking the new one out, checked against what the godown holds
+CREATE OR REPLACE FUNCTION public.apply_purchase_return_closing_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_available INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.adjustment_type = 'PURCHASE_RETURN_GODOWN'
+    AND NEW.adjustment_type = 'PURCHASE_RETURN_GODOWN'
+    AND (OLD.product_id, OLD.batch_id, OLD.quantity_strips) IS NOT DISTINCT FROM
+        (NEW.product_id, NEW.batch_id, NEW.quantity_strips) THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.adjustment_type = 'PURCHASE_RETURN_GODOWN' THEN
+    INSERT INTO public.closing_stock (
+      product_id, batch_id, location_type, location_id,
+      quantity_strips, cost_per_strip, last_updated_at
+    ) VALUES (
+      OLD.product_id, OLD.batch_id, 'GODOWN', '',
+      OLD.quantity_strips, OLD.cost_per_strip, now()
+    ) ON CONFLICT (product_id, batch_id, location_type, location_id)
+    DO UPDATE SET
+      quantity_strips = public.closing_stock.quantity_strips + OLD.quantity_strips,
+      last_updated_at = now();
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.adjustment_type = 'PURCHASE_RETURN_GODOWN' THEN
+    IF NEW.quantity_strips <= 0 THEN
+      RAISE EXCEPTION 'Purchase return quantity must be greater than zero'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT COALESCE(SUM(quantity_strips), 0) INTO v_available
+    FROM (
+      SELECT quantity_strips
+      FROM public.closing_stock
+      WHERE product_id = NEW.product_id
+        AND batch_id = NEW.batch_id
+        AND location_type = 'GODOWN'
+      FOR UPDATE
+    ) godown_stock;
+
+    IF NEW.quantity_strips > v_available THEN
+      RAISE EXCEPTION 'Only % strip(s) of this batch are in the godown; cannot return %', v_available, NEW.quantity_strips
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.closing_stock
+    SET quantity_strips = quantity_strips - NEW.quantity_strips,
+        last_updated_at = now()
+    WHERE product_id = NEW.product_id
+      AND batch_id = NEW.batch_id
+      AND location_type = 'GODOWN'
+      AND location_id = '';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_purchase_return_closing_stock_trigger ON public.stock_adjustments;
+CREATE TRIGGER apply_purchase_return_closing_stock_trigger
+  AFTER UPDATE OR DELETE ON public.stock_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_purchase_return_closing_stock();
@@ -0,0 +1,60 @@
+-- Migration to average inflows into a position's cost
+-- closing_stock.cost_per_strip was overwritten by every inflow, so a GRN line made up only of
+-- scheme free strips (received at zero cost) set the whole batch's cost to zero. Dispatches,
+-- sales and expiry write-offs copy that cost, and were then refused by the positive cost checks.
+-- Inflows are now averaged with what the position already holds, weighted by strips. A batch
+-- received entirely free still costs nothing, so outbound rows may carry a zero cost.
+
+CREATE OR REPLACE FUNCTION public.apply_closing_stock_change(
+  p_product_id UUID,
+  p_batch_id UUID,
+  p_location_type TEXT,
+  p_location_id TEXT,
+  p_quantity_change INTEGER,
+  p_cost_per_strip NUMERIC
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF p_location_type IS NULL OR p_quantity_change = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.closing_stock
+  SET quantity_strips = GREATEST(0, quantity_strips + p_quantity_change),
+      -- Inflows are averaged with the strips already held; outflows leave the cost as it is
+      cost_per_strip = CASE
+        WHEN p_quantity_change > 0 THEN ROUND(
+          (GREATEST(quantity_strips, 0) * cost_per_strip + p_quantity_change * p_cost_per_strip)
+            / (GREATEST(quantity_strips, 0) + p_quantity_change),
+          2
+        )
+        ELSE cost_per_strip
+      END,
+      last_updated_at = now()
+  WHERE product_id = p_product_id
+    AND batch_id = p_batch_id
+    AND location_type = p_location_type
+    AND location_id = p_location_id;
+
+  IF NOT FOUND AND p_quantity_change > 0 THEN
+    INSERT INTO public.closing_stock (
+      product_id, batch_id, location_type, location_id,
+      quantity_strips, cost_per_strip, last_updated_at
+    ) VALUES (
+      p_product_id, p_batch_id, p_location_type, p_location_id,
+      p_quantity_change, p_cost_per_strip, now()
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_closing_stock_change(UUID, UUID, TEXT, TEXT, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.stock_sales DROP CONSTRAINT IF EXISTS positive_sale_cost;
+ALTER TABLE public.stock_sales ADD CONSTRAINT non_negative_sale_cost CHECK (cost_per_strip >= 0);
+
+ALTER TABLE public.stock_adjustments DROP CONSTRAINT IF EXISTS positive_adjustment_cost;
+ALTER TABLE public.stock_adjustments ADD CONSTRAINT non_negative_adjustment_cost CHECK (cost_per_strip >= 0);
@@ -0,0 +1,80 @@
+-- Migration to post expiry write-offs against what the location holds now
+-- post_expiry_write_off_draft() posted the quantity the expiry job saw when it proposed the
+-- draft. Stock sold, returned or dispatched since then was written off a second time, and
+-- closing_stock quietly floored at zero. The location's stock is now locked while the draft is
+-- posted, the write-off is capped at what the location still holds, and a location that holds
+-- none of the batch any more is refused.
+
+CREATE OR REPLACE FUNCTION public.post_expiry_write_off_draft(p_draft_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_draft public.expiry_write_off_drafts%ROWTYPE;
+  v_batch_number TEXT;
+  v_held INTEGER;
+  v_adjustment_id UUID;
+BEGIN
+  SELECT * INTO v_draft
+  FROM public.expiry_write_off_drafts
+  WHERE id = p_draft_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expiry write-off draft % not found', p_draft_id;
+  END IF;
+
+  IF v_draft.status <> 'Draft' THEN
+    RAISE EXCEPTION 'Expiry write-off draft is already %', lower(v_draft.status);
+  END IF;
+
+  -- Lock the location's stock so a sale or dispatch cannot take it while the write-off is posted
+  SELECT COALESCE(SUM(quantity_strips), 0) INTO v_held
+  FROM (
+    SELECT quantity_strips
+    FROM public.closing_stock
+    WHERE batch_id = v_draft.batch_id
+      AND location_type = v_draft.location_type
+      AND COALESCE(location_id, '') = v_draft.location_id
+    FOR UPDATE
+  ) location_stock;
+
+  IF v_held <= 0 THEN
+    RAISE EXCEPTION 'This location no longer holds any of the batch; dismiss the draft instead'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT batch_number INTO v_batch_number
+  FROM public.product_batches
+  WHERE id = v_draft.batch_id;
+
+  INSERT INTO public.stock_adjustments (
+    adjustment_group_id, product_id, batch_id, adjustment_type, quantity_strips,
+    location_type_source, location_id_source, location_type_destination, location_id_destination,
+    adjustment_date, cost_per_strip, notes, created_by
+  ) VALUES (
+    gen_random_uuid(), v_draft.product_id, v_draft.batch_id,
+    CASE WHEN v_draft.location_type = 'MR' THEN 'ADJUST_EXPIRED_MR' ELSE 'ADJUST_EXPIRED_GODOWN' END,
+    LEAST(v_draft.quantity_strips, v_held),
+    v_draft.location_type,
+    CASE WHEN v_draft.location_type = 'MR' THEN v_draft.location_id ELSE 'GODOWN' END,
+    'EXPIRED', 'EXPIRED',
+    CURRENT_DATE, v_draft.cost_per_strip,
+    'Expiry write-off (batch ' || COALESCE(v_batch_number, v_draft.batch_id::text) || ')',
+    auth.uid()
+  )
+  RETURNING adjustment_id INTO v_adjustment_id;
+
+  -- The draft records what was actually written off
+  UPDATE public.expiry_write_off_drafts
+  SET status = 'Posted',
+      quantity_strips = LEAST(v_draft.quantity_strips, v_held),
+      adjustment_id = v_adjustment_id,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_draft_id;
+
+  RETURN v_adjustment_id;
+END;
+$$;
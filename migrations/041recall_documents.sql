@@ -0,0 +1,132 @@
+-- Migration to post recall returns and write-offs through one checked function
+-- The recall page inserted RETURN_TO_GODOWN and ADJUST_EXPIRED_GODOWN rows straight into
+-- stock_adjustments. Nothing checked the quantity against what an MR or the godown held, or
+-- against what a customer had been sold and not yet returned, so a stale page or a second
+-- click could recover stock twice. post_recall_document() locks the recall and the stock it
+-- takes from, checks the quantity, and posts each action as one numbered adjustment document.
+
+CREATE OR REPLACE FUNCTION public.post_recall_document(
+  p_recall_id UUID,
+  p_action TEXT,
+  p_source_type TEXT,
+  p_source_id TEXT,
+  p_quantity_strips INTEGER,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recall public.batch_recalls%ROWTYPE;
+  v_available INTEGER;
+  v_cost NUMERIC;
+  v_group_id UUID := gen_random_uuid();
+BEGIN
+  IF NOT public.has_permission('manage_recalls') THEN
+    RAISE EXCEPTION 'You are not allowed to manage batch recalls'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Locking the recall queues concurrent actions on it, so each sees the last one's stock
+  SELECT * INTO v_recall
+  FROM public.batch_recalls
+  WHERE id = p_recall_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recall % not found', p_recall_id;
+  END IF;
+
+  IF v_recall.status <> 'Open' THEN
+    RAISE EXCEPTION 'Recall % is %', v_recall.recall_number, lower(v_recall.status)
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_quantity_strips IS NULL OR p_quantity_strips <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_action = 'WRITE_OFF' AND p_source_type = 'GODOWN'
+    OR p_action = 'RETURN' AND p_source_type = 'MR' THEN
+    -- Stock held in the godown or by the MR
+    SELECT COALESCE(SUM(quantity_strips), 0), MAX(cost_per_strip) INTO v_available, v_cost
+    FROM (
+      SELECT quantity_strips, cost_per_strip
+      FROM public.closing_stock
+      WHERE batch_id = v_recall.batch_id
+        AND location_type = p_source_type
+        AND COALESCE(location_id, '') = CASE WHEN p_source_type = 'MR' THEN p_source_id ELSE '' END
+      FOR UPDATE
+    ) held_stock;
+  ELSIF p_action = 'RETURN' AND p_source_type = 'CUSTOMER' THEN
+    -- What the customer was sold, less what this recall has already recovered from them
+    SELECT COALESCE(SUM(ABS(quantity_strips)), 0),
+           SUM(ABS(quantity_strips) * cost_per_strip) / NULLIF(SUM(ABS(quantity_strips)), 0)
+    INTO v_available, v_cost
+    FROM public.stock_sales
+    WHERE batch_id = v_recall.batch_id
+      AND location_type_destination = 'CUSTOMER'
+      AND location_id_destination = p_source_id;
+
+    v_available := v_available - COALESCE((
+      SELECT SUM(quantity_strips)
+      FROM public.stock_adjustments
+      WHERE recall_id = v_recall.id
+        AND adjustment_type = 'RETURN_TO_GODOWN'
+        AND location_type_source = 'CUSTOMER'
+        AND location_id_source = p_source_id
+    ), 0);
+  ELSE
+    RAISE EXCEPTION 'A recall % cannot be posted from %', lower(p_action), p_source_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_quantity_strips > v_available THEN
+    RAISE EXCEPTION 'Only % strip(s) of this batch can be recovered from here; cannot post %', GREATEST(v_available, 0), p_quantity_strips
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_cost IS NULL OR v_cost = 0 THEN
+    SELECT COALESCE(NULLIF(pb.batch_cost_per_strip, 0), p.base_cost_per_strip, 0) INTO v_cost
+    FROM public.product_batches pb
+    JOIN public.products p ON p.id = pb.product_id
+    WHERE pb.id = v_recall.batch_id;
+  END IF;
+
+  INSERT INTO public.stock_adjustments (
+    adjustment_group_id, product_id, batch_id, adjustment_type, quantity_strips,
+    location_type_source, location_id_source, location_type_destination, location_id_destination,
+    adjustment_date, cost_per_strip, notes, recall_id, created_by
+  ) VALUES (
+    v_group_id, v_recall.product_id, v_recall.batch_id,
+    CASE WHEN p_action = 'WRITE_OFF' THEN 'ADJUST_EXPIRED_GODOWN' ELSE 'RETURN_TO_GODOWN' END,
+    p_quantity_strips,
+    p_source_type,
+    CASE WHEN p_source_type = 'GODOWN' THEN 'GODOWN' ELSE p_source_id END,
+    CASE WHEN p_action = 'WRITE_OFF' THEN 'RECALL' ELSE 'GODOWN' END,
+    CASE WHEN p_action = 'WRITE_OFF' THEN v_recall.recall_number ELSE 'GODOWN' END,
+    CURRENT_DATE, ROUND(COALESCE(v_cost, 0), 2),
+    COALESCE(
+      NULLIF(btrim(p_notes), ''),
+      CASE WHEN p_action = 'WRITE_OFF' THEN 'Recall write-off' ELSE 'Recall return' END
+        || ' (' || v_recall.recall_number || ')'
+    ),
+    v_recall.id, auth.uid()
+  );
+
+  RETURN v_group_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_recall_document(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_recall_document(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT) TO authenticated;
+
+-- Recall documents are posted through the function above only
+DROP POLICY IF EXISTS "Stock staff can post stock adjustments" ON public.stock_adjustments;
+CREATE POLICY "Stock staff can post stock adjustments"
+  ON public.stock_adjustments
+  FOR INSERT
+  WITH CHECK (public.has_permission('post_adjustment') AND recall_id IS NULL);
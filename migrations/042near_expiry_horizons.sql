@@ -0,0 +1,11 @@
+-- Migration to keep the near-expiry horizons in the stock settings
+-- The Near Expiry dashboard saved its horizons in the browser, so each user and device bucketed
+-- stock differently. They are now one company-wide setting, changed by settings managers.
+
+ALTER TABLE public.stock_settings
+  ADD COLUMN IF NOT EXISTS near_expiry_horizons INTEGER[] NOT NULL DEFAULT '{30,90,180}';
+
+ALTER TABLE public.stock_settings DROP CONSTRAINT IF EXISTS valid_near_expiry_horizons;
+ALTER TABLE public.stock_settings ADD CONSTRAINT valid_near_expiry_horizons CHECK (
+  cardinality(near_expiry_horizons) > 0 AND 0 <= ALL (near_expiry_horizons)
+);
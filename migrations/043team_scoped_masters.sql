@@ -0,0 +1,47 @@
+-- Migration to scope customers, price lists and stock settings to who may see them
+-- Customers, price lists and stock settings were readable by anyone signed in, and customers
+-- were fully manageable by every role with manage_masters, so an area manager saw every
+-- customer in the company. Customers now follow their assigned MR: staff who see all locations
+-- see them all, an area manager sees only the customers of their team's MRs, and an MR sees
+-- their own. Price lists and stock settings are company-wide rather than belonging to a team;
+-- they are limited to active staff and MRs instead of any signed-in account.
+
+DROP POLICY IF EXISTS "Authenticated users can view customers" ON public.customers;
+CREATE POLICY "Staff can view customers"
+  ON public.customers
+  FOR SELECT
+  USING (
+    public.can_view_location('MR', assigned_mr_user_id::text)
+    OR (assigned_mr_user_id = auth.uid() AND public.has_permission('sell_own_stock'))
+  );
+
+DROP POLICY IF EXISTS "Master data managers can manage customers" ON public.customers;
+CREATE POLICY "Master data managers can manage customers"
+  ON public.customers
+  FOR ALL
+  USING (
+    public.has_permission('manage_masters')
+    AND public.can_view_location('MR', assigned_mr_user_id::text)
+  )
+  WITH CHECK (
+    public.has_permission('manage_masters')
+    AND public.can_view_location('MR', assigned_mr_user_id::text)
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can view price lists" ON public.price_lists;
+CREATE POLICY "Staff can view price lists"
+  ON public.price_lists
+  FOR SELECT
+  USING (public.has_permission('view_stock') OR public.has_permission('sell_own_stock'));
+
+DROP POLICY IF EXISTS "Authenticated users can view price list items" ON public.price_list_items;
+CREATE POLICY "Staff can view price list items"
+  ON public.price_list_items
+  FOR SELECT
+  USING (public.has_permission('view_stock') OR public.has_permission('sell_own_stock'));
+
+DROP POLICY IF EXISTS "Authenticated users can view stock settings" ON public.stock_settings;
+CREATE POLICY "Staff can view stock settings"
+  ON public.stock_settings
+  FOR SELECT
+  USING (public.has_permission('view_stock') OR public.has_permission('sell_own_stock'));
@@ -0,0 +1,30 @@
+-- Migration to search stock movements by product and batch in the database
+-- The stock statement matched products and batches in the browser and sent every matching id
+-- back in the query string, which grows without bound with a broad search. Movements are now
+-- matched on product name or code and batch number here, the same way as the stock report
+-- summary, and paged like the view itself.
+
+CREATE OR REPLACE FUNCTION public.search_stock_transactions(
+  p_product_search TEXT DEFAULT NULL,
+  p_batch_search TEXT DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS SETOF public.stock_transactions_view
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT stv.*
+  FROM public.stock_transactions_view stv
+  WHERE (p_product_search IS NULL OR EXISTS (
+      SELECT 1 FROM public.products p
+      WHERE p.id = stv.product_id
+        AND (p.product_name ILIKE '%' || p_product_search || '%'
+             OR p.product_code ILIKE '%' || p_product_search || '%')
+    ))
+    AND (p_batch_search IS NULL OR EXISTS (
+      SELECT 1 FROM public.product_batches pb
+      WHERE pb.id = stv.batch_id
+        AND pb.batch_number ILIKE '%' || p_batch_search || '%'
+    ))
+    AND (p_to IS NULL OR stv.transaction_date <= p_to);
+$$;
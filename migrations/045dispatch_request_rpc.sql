@@ -0,0 +1,71 @@
+-- Migration to raise MR dispatch requests in one call
+-- A dispatch request and its lines were inserted by two separate calls, and the request was
+-- cancelled again if its lines failed. The limit breaches stored on the request were whatever
+-- the page sent. create_mr_dispatch_request() now saves the request and its lines together
+-- and works out the breaches itself; the request and line tables are no longer written directly.
+
+CREATE OR REPLACE FUNCTION public.create_mr_dispatch_request(
+  p_mr_user_id UUID,
+  p_dispatch_date DATE,
+  p_price_list_id UUID,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_breaches JSONB;
+  v_request_id UUID;
+BEGIN
+  IF NOT public.has_permission('create_sale') THEN
+    RAISE EXCEPTION 'You are not allowed to dispatch stock'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A dispatch request needs at least one line'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(b)), '[]'::jsonb) INTO v_breaches
+  FROM public.get_mr_limit_breaches(p_mr_user_id, p_lines) b;
+
+  IF v_breaches = '[]'::jsonb THEN
+    RAISE EXCEPTION 'This dispatch is within the MR''s holding limits; post it directly'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.mr_dispatch_requests (
+    mr_user_id, dispatch_date, price_list_id, notes, limit_breaches, requested_by
+  ) VALUES (
+    p_mr_user_id, p_dispatch_date, p_price_list_id, NULLIF(btrim(p_notes), ''), v_breaches, auth.uid()
+  )
+  RETURNING id INTO v_request_id;
+
+  INSERT INTO public.mr_dispatch_request_lines (
+    request_id, product_id, batch_id, quantity_strips, cost_per_strip,
+    selling_price_per_strip, notes, override_justification
+  )
+  SELECT
+    v_request_id,
+    (line->>'product_id')::uuid,
+    (line->>'batch_id')::uuid,
+    (line->>'quantity_strips')::integer,
+    COALESCE((line->>'cost_per_strip')::numeric, 0),
+    (line->>'selling_price_per_strip')::numeric,
+    NULLIF(btrim(line->>'notes'), ''),
+    NULLIF(btrim(line->>'override_justification'), '')
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  RETURN v_request_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_mr_dispatch_request(UUID, DATE, UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_mr_dispatch_request(UUID, DATE, UUID, TEXT, JSONB) TO authenticated;
+
+DROP POLICY IF EXISTS "Dispatchers can raise dispatch requests" ON public.mr_dispatch_requests;
+DROP POLICY IF EXISTS "Requesters can add lines to their pending dispatch requests" ON public.mr_dispatch_request_lines;
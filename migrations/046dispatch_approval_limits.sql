@@ -0,0 +1,314 @@
+-- Migration for approving and editing MR dispatches within the holding limits
+-- 1. A manager approving a dispatch request releases its lines, including those from a
+--    restricted batch that the requester justified; approval no longer also needs the
+--    override_batch_restriction capability.
+-- 2. The holding limit check judged the MR's whole holding, so once an MR was over a limit no
+--    dispatch to them could be saved, not even an edit that lowered what they hold. Only an
+--    increase is refused now: what a statement dispatches is set against what the same
+--    transaction took back from the MR, and update_mr_dispatch() edits a dispatch in one
+--    transaction.
+-- 3. get_dispatch_request_breaches() gives the approvals inbox the limits a pending request
+--    breaks against the MR's holding now.
+
+-- 1. Approved dispatch requests
+
+CREATE OR REPLACE FUNCTION public.validate_outbound_batch()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_batch RECORD;
+  v_movement_date DATE;
+  v_previous_date DATE;
+  v_from_godown BOOLEAN;
+  v_min_shelf_life_days INTEGER;
+  v_restriction TEXT;
+  v_approved_dispatch BOOLEAN := false;
+BEGIN
+  IF TG_TABLE_NAME = 'stock_adjustments' THEN
+    -- Returns, write-offs and opening stock may legitimately involve expired or recalled stock
+    IF NEW.adjustment_type NOT LIKE 'REPLACEMENT_FROM_%' THEN
+      RETURN NEW;
+    END IF;
+    v_movement_date := NEW.adjustment_date::date;
+    v_from_godown := false;
+    IF TG_OP = 'UPDATE' AND OLD.adjustment_type = NEW.adjustment_type THEN
+      v_previous_date := OLD.adjustment_date::date;
+    END IF;
+  ELSE
+    v_movement_date := NEW.sale_date::date;
+    v_from_godown := NEW.location_type_source = 'GODOWN';
+    IF TG_OP = 'UPDATE' AND OLD.location_type_source = NEW.location_type_source THEN
+      v_previous_date := OLD.sale_date::date;
+    END IF;
+    -- The lines of an approved dispatch request were released by whoever approved it
+    v_approved_dispatch := NEW.transaction_type = 'DISPATCH_TO_MR' AND EXISTS (
+      SELECT 1 FROM public.mr_dispatch_requests r
+      WHERE r.id = NEW.sale_group_id AND r.status = 'Approved'
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.batch_id = OLD.batch_id
+    AND v_movement_date = v_previous_date
+    AND NEW.quantity_strips <= OLD.quantity_strips THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT batch_number, status, expiry_date INTO v_batch
+  FROM public.product_batches
+  WHERE id = NEW.batch_id;
+
+  IF v_from_godown THEN
+    SELECT min_shelf_life_days INTO v_min_shelf_life_days
+    FROM public.stock_settings;
+  END IF;
+
+  IF v_batch.status = 'Recalled' THEN
+    RAISE EXCEPTION 'Batch % has been recalled and cannot be dispatched or sold', v_batch.batch_number
+      USING ERRCODE = 'check_violation';
+  ELSIF v_batch.status = 'Quarantined' THEN
+    v_restriction := format('Batch %s is quarantined', v_batch.batch_number);
+  ELSIF v_batch.status = 'Expired' THEN
+    v_restriction := format('Batch %s is marked Expired', v_batch.batch_number);
+  ELSIF v_batch.expiry_date < v_movement_date THEN
+    v_restriction := format('Batch %s expired on %s', v_batch.batch_number, to_char(v_batch.expiry_date, 'YYYY-MM-DD'));
+  ELSIF COALESCE(v_min_shelf_life_days, 0) > 0
+    AND v_batch.expiry_date < v_movement_date + v_min_shelf_life_days THEN
+    v_restriction := format('Batch %s expires on %s, within the minimum shelf life of %s days',
+      v_batch.batch_number, to_char(v_batch.expiry_date, 'YYYY-MM-DD'), v_min_shelf_life_days);
+  END IF;
+
+  IF v_restriction IS NULL THEN
+    NEW.override_justification := NULL;
+    NEW.override_by := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NULLIF(btrim(NEW.override_justification), '') IS NULL THEN
+    RAISE EXCEPTION '%. An override with a justification is required.', v_restriction
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.has_permission('override_batch_restriction')
+    AND NOT (v_approved_dispatch AND public.has_permission('approve_dispatch')) THEN
+    RAISE EXCEPTION '%. You are not allowed to override this restriction.', v_restriction
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.override_by := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. Holding limits judged by the increase
+
+-- Remembers, for the rest of the transaction, what deleted dispatches took back from each MR
+-- and product, so a dispatch deleted and saved again is judged by the difference
+CREATE OR REPLACE FUNCTION public.track_released_mr_holdings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_released JSONB := COALESCE(NULLIF(current_setting('app.released_mr_holdings', true), ''), '{}')::jsonb;
+  v_row RECORD;
+  v_key TEXT;
+BEGIN
+  FOR v_row IN
+    SELECT
+      o.location_id_destination AS mr_location_id,
+      o.product_id,
+      SUM(o.quantity_strips) AS quantity_strips,
+      SUM(o.quantity_strips * o.cost_per_strip) AS value
+    FROM old_sales o
+    WHERE o.transaction_type = 'DISPATCH_TO_MR'
+      AND o.location_type_destination = 'MR'
+    GROUP BY o.location_id_destination, o.product_id
+  LOOP
+    v_key := v_row.mr_location_id || ':' || v_row.product_id;
+    v_released := v_released || jsonb_build_object(v_key, jsonb_build_object(
+      'quantity_strips', COALESCE((v_released->v_key->>'quantity_strips')::numeric, 0) + v_row.quantity_strips,
+      'value', COALESCE((v_released->v_key->>'value')::numeric, 0) + v_row.value
+    ));
+  END LOOP;
+
+  PERFORM set_config('app.released_mr_holdings', v_released::text, true);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_released_mr_holdings_trigger ON public.stock_sales;
+CREATE TRIGGER track_released_mr_holdings_trigger
+  AFTER DELETE ON public.stock_sales
+  REFERENCING OLD TABLE AS old_sales
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.track_released_mr_holdings();
+
+CREATE OR REPLACE FUNCTION public.enforce_mr_holding_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_released JSONB := COALESCE(NULLIF(current_setting('app.released_mr_holdings', true), ''), '{}')::jsonb;
+  v_dispatch RECORD;
+  v_breach RECORD;
+  v_added RECORD;
+  v_increase NUMERIC;
+  v_key TEXT;
+BEGIN
+  FOR v_dispatch IN
+    SELECT
+      n.location_id_destination AS mr_location_id,
+      jsonb_agg(DISTINCT jsonb_build_object('product_id', n.product_id, 'quantity_strips', 0)) AS lines
+    FROM new_sales n
+    WHERE n.transaction_type = 'DISPATCH_TO_MR'
+      AND n.location_type_destination = 'MR'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.mr_dispatch_requests r
+        WHERE r.id = n.sale_group_id AND r.status = 'Approved'
+      )
+    GROUP BY n.location_id_destination
+  LOOP
+    FOR v_breach IN
+      SELECT * FROM public.get_mr_limit_breaches(v_dispatch.mr_location_id::uuid, v_dispatch.lines)
+    LOOP
+      -- What this statement added to the limited holding, less what the transaction took back
+      SELECT COALESCE(SUM(CASE
+        WHEN v_breach.limit_type = 'QUANTITY' THEN n.quantity_strips
+        ELSE n.quantity_strips * n.cost_per_strip
+      END), 0) INTO v_increase
+      FROM new_sales n
+      WHERE n.transaction_type = 'DISPATCH_TO_MR'
+        AND n.location_type_destination = 'MR'
+        AND n.location_id_destination = v_dispatch.mr_location_id
+        AND (v_breach.product_id IS NULL OR n.product_id = v_breach.product_id);
+
+      SELECT v_increase - COALESCE(SUM(CASE
+        WHEN v_breach.limit_type = 'QUANTITY' THEN (released.value->>'quantity_strips')::numeric
+        ELSE (released.value->>'value')::numeric
+      END), 0) INTO v_increase
+      FROM jsonb_each(v_released) AS released
+      WHERE split_part(released.key, ':', 1) = v_dispatch.mr_location_id
+        AND (v_breach.product_id IS NULL OR split_part(released.key, ':', 2) = v_breach.product_id::text);
+
+      IF v_increase > 0 THEN
+        RAISE EXCEPTION 'This dispatch takes the MR over their % holding limit%; send it for approval',
+          lower(v_breach.limit_type),
+          COALESCE(' for ' || v_breach.product_name, '')
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- What was taken back counts once: the dispatches saved here use it up
+  FOR v_added IN
+    SELECT
+      n.location_id_destination AS mr_location_id,
+      n.product_id,
+      SUM(n.quantity_strips) AS quantity_strips,
+      SUM(n.quantity_strips * n.cost_per_strip) AS value
+    FROM new_sales n
+    WHERE n.transaction_type = 'DISPATCH_TO_MR'
+      AND n.location_type_destination = 'MR'
+    GROUP BY n.location_id_destination, n.product_id
+  LOOP
+    v_key := v_added.mr_location_id || ':' || v_added.product_id;
+    IF v_released ? v_key THEN
+      v_released := v_released || jsonb_build_object(v_key, jsonb_build_object(
+        'quantity_strips', GREATEST((v_released->v_key->>'quantity_strips')::numeric - v_added.quantity_strips, 0),
+        'value', GREATEST((v_released->v_key->>'value')::numeric - v_added.value, 0)
+      ));
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.released_mr_holdings', v_released::text, true);
+  RETURN NULL;
+END;
+$$;
+
+-- Replaces the lines of an MR dispatch in one transaction, keeping its delivery challan.
+-- Runs as the caller: the stock_sales policies decide who may edit a dispatch.
+CREATE OR REPLACE FUNCTION public.update_mr_dispatch(
+  p_sale_group_id UUID,
+  p_mr_user_id UUID,
+  p_dispatch_date DATE,
+  p_price_list_id UUID,
+  p_notes TEXT,
+  p_lines JSONB
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_array_length(COALESCE(p_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A dispatch needs at least one line'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  DELETE FROM public.stock_sales
+  WHERE sale_group_id = p_sale_group_id
+    AND transaction_type = 'DISPATCH_TO_MR';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'MR dispatch % not found', p_sale_group_id;
+  END IF;
+
+  INSERT INTO public.stock_sales (
+    sale_group_id, product_id, batch_id, transaction_type, quantity_strips,
+    location_type_source, location_id_source, location_type_destination, location_id_destination,
+    sale_date, cost_per_strip, selling_price_per_strip, price_list_id, notes,
+    override_justification, created_by
+  )
+  SELECT
+    p_sale_group_id,
+    (line->>'product_id')::uuid,
+    (line->>'batch_id')::uuid,
+    'DISPATCH_TO_MR',
+    (line->>'quantity_strips')::integer,
+    'GODOWN', 'GODOWN_MAIN', 'MR', p_mr_user_id::text,
+    p_dispatch_date,
+    COALESCE((line->>'cost_per_strip')::numeric, 0),
+    (line->>'selling_price_per_strip')::numeric,
+    p_price_list_id,
+    COALESCE(NULLIF(btrim(line->>'notes'), ''), NULLIF(btrim(p_notes), '')),
+    NULLIF(btrim(line->>'override_justification'), ''),
+    auth.uid()
+  FROM jsonb_array_elements(p_lines) AS line;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_mr_dispatch(UUID, UUID, DATE, UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_mr_dispatch(UUID, UUID, DATE, UUID, TEXT, JSONB) TO authenticated;
+
+-- 3. The limits a pending request breaks now. Runs as the caller, so only requests and MRs
+-- the caller may see are checked.
+CREATE OR REPLACE FUNCTION public.get_dispatch_request_breaches(p_request_id UUID)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  limit_type TEXT,
+  limit_amount NUMERIC,
+  holding_after NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.*
+  FROM public.mr_dispatch_requests r
+  CROSS JOIN LATERAL public.get_mr_limit_breaches(
+    r.mr_user_id,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', l.product_id,
+        'quantity_strips', l.quantity_strips,
+        'cost_per_strip', l.cost_per_strip
+      ))
+      FROM public.mr_dispatch_request_lines l
+      WHERE l.request_id = r.id
+    ), '[]'::jsonb)
+  ) b
+  WHERE r.id = p_request_id;
+$$;
@@ -0,0 +1,194 @@
+-- Migration to check account status in the remaining admin policies
+-- The "Admin can ..." policies from before the role model test the admin role inline instead of
+-- going through public.is_admin(), so they never picked up the status check added with user
+-- management and a deactivated admin kept full access to these tables. They now go through
+-- public.is_admin(). The product master view policies likewise test roles inline and now also
+-- require an active account.
+
+DROP POLICY IF EXISTS "Admins can do everything on product_categories" ON public.product_categories;
+CREATE POLICY "Admins can do everything on product_categories"
+  ON public.product_categories
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Workers can view product_categories" ON public.product_categories;
+CREATE POLICY "Workers can view product_categories"
+  ON public.product_categories
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role IN ('admin', 'mr') AND status = 'Active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can do everything on product_formulations" ON public.product_formulations;
+CREATE POLICY "Admins can do everything on product_formulations"
+  ON public.product_formulations
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Workers can view product_formulations" ON public.product_formulations;
+CREATE POLICY "Workers can view product_formulations"
+  ON public.product_formulations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role IN ('admin', 'mr') AND status = 'Active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can do everything on product_sub_categories" ON public.product_sub_categories;
+CREATE POLICY "Admins can do everything on product_sub_categories"
+  ON public.product_sub_categories
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Workers can view product_sub_categories" ON public.product_sub_categories;
+CREATE POLICY "Workers can view product_sub_categories"
+  ON public.product_sub_categories
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role IN ('admin', 'mr') AND status = 'Active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can do everything on products" ON public.products;
+CREATE POLICY "Admins can do everything on products"
+  ON public.products
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Workers can view products" ON public.products;
+CREATE POLICY "Workers can view products"
+  ON public.products
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE user_id = auth.uid() AND role IN ('admin', 'mr') AND status = 'Active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admin can manage suppliers" ON public.suppliers;
+CREATE POLICY "Admin can manage suppliers"
+  ON public.suppliers
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can do everything on closing_stock" ON public.closing_stock;
+CREATE POLICY "Admins can do everything on closing_stock"
+  ON public.closing_stock
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage batch recalls" ON public.batch_recalls;
+CREATE POLICY "Admin can manage batch recalls"
+  ON public.batch_recalls
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage expiry write-off drafts" ON public.expiry_write_off_drafts;
+CREATE POLICY "Admin can manage expiry write-off drafts"
+  ON public.expiry_write_off_drafts
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage purchase orders" ON public.purchase_orders;
+CREATE POLICY "Admin can manage purchase orders"
+  ON public.purchase_orders
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage purchase order lines" ON public.purchase_order_lines;
+CREATE POLICY "Admin can manage purchase order lines"
+  ON public.purchase_order_lines
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage supplier returns" ON public.supplier_returns;
+CREATE POLICY "Admin can manage supplier returns"
+  ON public.supplier_returns
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage purchase invoices" ON public.purchase_invoices;
+CREATE POLICY "Admin can manage purchase invoices"
+  ON public.purchase_invoices
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage company profile" ON public.company_profile;
+CREATE POLICY "Admin can manage company profile"
+  ON public.company_profile
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage price lists" ON public.price_lists;
+CREATE POLICY "Admin can manage price lists"
+  ON public.price_lists
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage price list items" ON public.price_list_items;
+CREATE POLICY "Admin can manage price list items"
+  ON public.price_list_items
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage customers" ON public.customers;
+CREATE POLICY "Admin can manage customers"
+  ON public.customers
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage document templates" ON public.document_templates;
+CREATE POLICY "Admin can manage document templates"
+  ON public.document_templates
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage numbering series" ON public.document_number_series;
+CREATE POLICY "Admin can manage numbering series"
+  ON public.document_number_series
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage stock purchases" ON public.stock_purchases;
+CREATE POLICY "Admin can manage stock purchases"
+  ON public.stock_purchases
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage stock sales" ON public.stock_sales;
+CREATE POLICY "Admin can manage stock sales"
+  ON public.stock_sales
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage stock adjustments" ON public.stock_adjustments;
+CREATE POLICY "Admin can manage stock adjustments"
+  ON public.stock_adjustments
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage mr_stock_summary" ON public.mr_stock_summary;
+CREATE POLICY "Admin can manage mr_stock_summary"
+  ON public.mr_stock_summary
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage return requests" ON public.mr_return_requests;
+CREATE POLICY "Admin can manage return requests"
+  ON public.mr_return_requests
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admin can manage return request lines" ON public.mr_return_request_lines;
+CREATE POLICY "Admin can manage return request lines"
+  ON public.mr_return_request_lines
+  FOR ALL
+  USING (public.is_admin(auth.uid()));
@@ -14,12 +14,16 @@ import Products from "./pages/Products";
 import ProductForm from "./components/products/ProductForm";
 import ProductPackaging from "./components/products/ProductPackaging";
 import ProductBatches from "./components/products/ProductBatches";
+import BatchLedger from "./pages/BatchLedger";
 import PackagingTemplates from "./pages/PackagingTemplates";
 import StockMovements from "./pages/StockMovements";
 import Purchase from "./pages/Purchase";
 import NewPurchase from "./components/purchase/NewPurchase";
 import ViewPurchase from "./components/purchase/ViewPurchase";
 import EditPurchase from "./components/purchase/EditPurchase";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import NewPurchaseOrder from "./components/purchase-order/NewPurchaseOrder";
+import PurchaseOrderDetail from "./pages/PurchaseOrderDetail";
 import Sale from "./pages/Sale";
 import NewMRDispatch from "./components/sale/NewMRDispatch";
 import NewDirectSale from "./components/sale/NewDirectSale";
@@ -27,8 +31,31 @@ import StockAdjustments from "./pages/StockAdjustments";
 import NewReturn from "./components/stock-adjustment/NewReturn";
 import NewReplacement from "./components/stock-adjustment/NewReplacement";
 import NewDamageLoss from "./components/stock-adjustment/NewDamageLoss";
+import NewSupplierReturn from "./components/stock-adjustment/NewSupplierReturn";
+import SupplierReturnDetail from "./pages/SupplierReturnDetail";
 import StockStatus from "./pages/Report";
+import StockReconciliation from "./pages/StockReconciliation";
+import StockStatement from "./pages/StockStatement";
+import NearExpiry from "./pages/NearExpiry";
+import TaxReport from "./pages/TaxReport";
+import MarginReport from "./pages/MarginReport";
+import PriceLists from "./pages/PriceLists";
+import BatchRecalls from "./pages/BatchRecalls";
+import BatchRecallDetail from "./pages/BatchRecallDetail";
 import Suppliers from "./pages/Suppliers";
+import Customers from "./pages/Customers";
+import Users from "./pages/Users";
+import Territories from "./pages/Territories";
+import DispatchApprovals from "./pages/DispatchApprovals";
+import MRHoldingLimits from "./pages/MRHoldingLimits";
+import DocumentTemplates from "./pages/DocumentTemplates";
+import DocumentPrint from "./pages/DocumentPrint";
+import SupplierDetail from "./pages/SupplierDetail";
+import MRStock from "./pages/MRStock";
+import MRSales from "./pages/MRSales";
+import NewMRSale from "./components/mr/NewMRSale";
+import MRReturns from "./pages/MRReturns";
+import MRDispatches from "./pages/MRDispatches";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -46,7 +73,7 @@ const App = () => (
             <Route 
               path="/admin/dashboard" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <AdminDashboard />
                 </ProtectedRoute>
               } 
@@ -54,7 +81,7 @@ const App = () => (
             <Route 
               path="/admin/product-categories" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="manage_products">
                   <ProductCategories />
                 </ProtectedRoute>
               } 
@@ -62,7 +89,7 @@ const App = () => (
             <Route 
               path="/admin/product-formulations" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="manage_products">
                   <ProductFormulations />
                 </ProtectedRoute>
               } 
@@ -70,15 +97,23 @@ const App = () => (
             <Route 
               path="/admin/products" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <Products />
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/price-lists" 
+              element={
+                <ProtectedRoute permission="manage_products">
+                  <PriceLists />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/admin/products/new" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="manage_products">
                   <ProductForm />
                 </ProtectedRoute>
               } 
@@ -86,7 +121,7 @@ const App = () => (
             <Route 
               path="/admin/products/:id/edit" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="manage_products">
                   <ProductForm />
                 </ProtectedRoute>
               } 
@@ -94,7 +129,7 @@ const App = () => (
             <Route 
               path="/admin/products/:productId/packaging" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="manage_products">
                   <ProductPackaging />
                 </ProtectedRoute>
               } 
@@ -102,15 +137,23 @@ const App = () => (
             <Route 
               path="/admin/products/:productId/batches" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <ProductBatches />
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/products/:productId/batches/:batchId/ledger" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <BatchLedger />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/admin/packaging-templates" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="manage_products">
                   <PackagingTemplates />
                 </ProtectedRoute>
               } 
@@ -118,7 +161,7 @@ const App = () => (
             <Route 
               path="/admin/stock-movements" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <StockMovements />
                 </ProtectedRoute>
               } 
@@ -126,7 +169,7 @@ const App = () => (
             <Route 
               path="/admin/stock/purchase" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <Purchase />
                 </ProtectedRoute>
               } 
@@ -134,7 +177,7 @@ const App = () => (
             <Route 
               path="/admin/stock/purchase/new" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="create_purchase">
                   <NewPurchase />
                 </ProtectedRoute>
               } 
@@ -142,7 +185,7 @@ const App = () => (
             <Route 
               path="/admin/stock/purchase/:id/view" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <ViewPurchase />
                 </ProtectedRoute>
               } 
@@ -150,15 +193,39 @@ const App = () => (
             <Route 
               path="/admin/stock/purchase/:id/edit" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="edit_posted_document">
                   <EditPurchase />
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/stock/purchase-orders" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <PurchaseOrders />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/stock/purchase-orders/new" 
+              element={
+                <ProtectedRoute permission="create_purchase">
+                  <NewPurchaseOrder />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/stock/purchase-orders/:id" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <PurchaseOrderDetail />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/admin/stock/sale" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <Sale />
                 </ProtectedRoute>
               } 
@@ -166,7 +233,7 @@ const App = () => (
             <Route 
               path="/admin/stock/sale/mr/new" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="create_sale">
                   <NewMRDispatch />
                 </ProtectedRoute>
               } 
@@ -174,15 +241,31 @@ const App = () => (
             <Route 
               path="/admin/stock/sale/direct/new" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="create_sale">
                   <NewDirectSale />
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/stock/dispatch-approvals" 
+              element={
+                <ProtectedRoute permission="approve_dispatch">
+                  <DispatchApprovals />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/stock/mr-limits" 
+              element={
+                <ProtectedRoute permission="approve_dispatch">
+                  <MRHoldingLimits />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/admin/stock/adjustments" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <StockAdjustments />
                 </ProtectedRoute>
               } 
@@ -190,7 +273,7 @@ const App = () => (
             <Route 
               path="/admin/stock/adjustments/returns/new" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="post_adjustment">
                   <NewReturn />
                 </ProtectedRoute>
               } 
@@ -198,7 +281,7 @@ const App = () => (
             <Route 
               path="/admin/stock/adjustments/replacements/new" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="post_adjustment">
                   <NewReplacement />
                 </ProtectedRoute>
               } 
@@ -206,27 +289,187 @@ const App = () => (
             <Route 
               path="/admin/stock/adjustments/damage-loss/new" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="post_adjustment">
                   <NewDamageLoss />
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/stock/adjustments/supplier-returns/new" 
+              element={
+                <ProtectedRoute permission="post_adjustment">
+                  <NewSupplierReturn />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/stock/supplier-returns/:id" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <SupplierReturnDetail />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/stock/recalls" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <BatchRecalls />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/stock/recalls/:id" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <BatchRecallDetail />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/admin/report" 
               element={
-                <ProtectedRoute requireAdmin={true}>
+                <ProtectedRoute permission="view_stock">
                   <StockStatus />
                 </ProtectedRoute>
               } 
             />
             <Route 
-              path="/admin/suppliers" 
+              path="/admin/report/stock-statement" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <StockStatement />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/report/near-expiry" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <NearExpiry />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/report/tax" 
+              element={
+                <ProtectedRoute permission="view_valuation">
+                  <TaxReport />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/report/margin" 
+              element={
+                <ProtectedRoute permission="view_valuation">
+                  <MarginReport />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/stock/reconcile" 
               element={
                 <ProtectedRoute requireAdmin={true}>
+                  <StockReconciliation />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/suppliers" 
+              element={
+                <ProtectedRoute permission="manage_masters">
                   <Suppliers />
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/admin/customers" 
+              element={
+                <ProtectedRoute permission="manage_masters">
+                  <Customers />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/users" 
+              element={
+                <ProtectedRoute permission="manage_users">
+                  <Users />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/territories" 
+              element={
+                <ProtectedRoute permission="manage_users">
+                  <Territories />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/document-templates" 
+              element={
+                <ProtectedRoute permission="manage_settings">
+                  <DocumentTemplates />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/documents/:documentType/:groupId" 
+              element={
+                <ProtectedRoute permission="view_stock">
+                  <DocumentPrint />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/admin/suppliers/:id" 
+              element={
+                <ProtectedRoute permission="manage_masters">
+                  <SupplierDetail />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/mr/stock" 
+              element={
+                <ProtectedRoute permission="sell_own_stock">
+                  <MRStock />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/mr/sales" 
+              element={
+                <ProtectedRoute permission="sell_own_stock">
+                  <MRSales />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/mr/sales/new" 
+              element={
+                <ProtectedRoute permission="sell_own_stock">
+                  <NewMRSale />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/mr/returns" 
+              element={
+                <ProtectedRoute permission="sell_own_stock">
+                  <MRReturns />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/mr/dispatches" 
+              element={
+                <ProtectedRoute permission="sell_own_stock">
+                  <MRDispatches />
+                </ProtectedRoute>
+              } 
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
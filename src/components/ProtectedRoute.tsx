@@ -3,14 +3,18 @@ import { useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { Loader2, Shield } from 'lucide-react';
 import Layout from './Layout';
+import { Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requireAdmin?: boolean;
+  // Capability the user's role must grant to open the page
+  permission?: Permission;
 }
 
-const ProtectedRoute = ({ children, requireAdmin = false }: ProtectedRouteProps) => {
-  const { user, profile, isLoading, isAdmin } = useAuth();
+const ProtectedRoute = ({ children, requireAdmin = false, permission }: ProtectedRouteProps) => {
+  const { user, profile, isLoading, isAdmin, can, homePath } = useAuth();
+  const isAllowed = (!requireAdmin || isAdmin) && (!permission || can(permission));
 
   useEffect(() => {
     if (!isLoading) {
@@ -19,12 +23,13 @@ const ProtectedRoute = ({ children, requireAdmin = false }: ProtectedRouteProps)
         return;
       }
 
-      if (requireAdmin && !isAdmin) {
-        window.location.href = '/auth';
+      // Send users to the part of the app their role opens, unless they are already there
+      if (!isAllowed) {
+        window.location.href = homePath && homePath !== window.location.pathname ? homePath : '/auth';
         return;
       }
     }
-  }, [user, profile, isLoading, isAdmin, requireAdmin]);
+  }, [user, profile, isLoading, isAllowed, homePath]);
 
   if (isLoading) {
     return (
@@ -48,12 +53,12 @@ const ProtectedRoute = ({ children, requireAdmin = false }: ProtectedRouteProps)
     );
   }
 
-  if (requireAdmin && !isAdmin) {
+  if (!isAllowed) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
           <Shield className="h-8 w-8 mx-auto mb-4 text-red-600" />
-          <p className="text-gray-600">Access denied. Admin privileges required.</p>
+          <p className="text-gray-600">Access denied. Your role does not allow this page.</p>
         </div>
       </div>
     );
@@ -16,11 +16,41 @@ import {
   Truck,
   FileEdit,
   BarChart3,
-  ChevronUp
+  ChevronUp,
+  Scale,
+  ClipboardList,
+  ShieldAlert,
+  CalendarClock,
+  ClipboardCheck,
+  Receipt,
+  Tags,
+  PiggyBank,
+  Store,
+  FileText,
+  Map as MapIcon,
+  Undo2,
+  Inbox,
+  Gauge,
+  LucideIcon
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
+import { Permission, getRoleBadgeColor, getRoleLabel } from '@/lib/permissions';
+
+interface NavigationItem {
+  title: string;
+  icon: LucideIcon;
+  href: string;
+  color: string;
+  permission?: Permission;
+  adminOnly?: boolean;
+}
+
+interface NavigationGroup {
+  title: string;
+  items: NavigationItem[];
+}
 
 interface SidebarProps {
   isCollapsed: boolean;
@@ -28,7 +58,7 @@ interface SidebarProps {
 }
 
 const Sidebar = ({ isCollapsed, onToggle }: SidebarProps) => {
-  const { profile, signOut } = useAuth();
+  const { profile, isAdmin, can, signOut } = useAuth();
   const { toast } = useToast();
   const location = useLocation();
   const [isProfileOpen, setIsProfileOpen] = useState(false);
@@ -42,8 +72,8 @@ const Sidebar = ({ isCollapsed, onToggle }: SidebarProps) => {
     window.location.href = '/auth';
   };
 
-  // Group menu items by category
-  const navigationGroups = [
+  // Group menu items by category; each item needs the permission that opens its page
+  const navigationGroups: NavigationGroup[] = [
     {
       title: "Overview",
       items: [
@@ -51,7 +81,8 @@ const Sidebar = ({ isCollapsed, onToggle }: SidebarProps) => {
           title: "Dashboard",
           icon: Home,
           href: "/admin/dashboard",
-          color: "text-blue-600"
+          color: "text-blue-600",
+          permission: "view_stock"
         },
       ]
     },
@@ -62,13 +93,22 @@ const Sidebar = ({ isCollapsed, onToggle }: SidebarProps) => {
           title: "Products",
           icon: Package,
           href: "/admin/products",
-          color: "text-emerald-600"
+          color: "text-emerald-600",
+          permission: "view_stock"
         },
         {
           title: "Packaging Templates",
           icon: Beaker,
           href: "/admin/packaging-templates",
-          color: "text-emerald-600"
+          color: "text-emerald-600",
+          permission: "manage_products"
+        },
+        {
+          title: "Price Lists",
+          icon: Tags,
+          href: "/admin/price-lists",
+          color: "text-emerald-600",
+          permission: "manage_products"
         },
       ]
     },
@@ -79,31 +119,99 @@ const Sidebar = ({ isCollapsed, onToggle }: SidebarProps) => {
           title: "Stock Movements",
           icon: TrendingUp,
           href: "/admin/stock-movements",
-          color: "text-purple-600"
+          color: "text-purple-600",
+          permission: "view_stock"
         },
         {
           title: "Stock Purchase",
           icon: PackageOpen,
           href: "/admin/stock/purchase",
-          color: "text-purple-600"
+          color: "text-purple-600",
+          permission: "view_stock"
+        },
+        {
+          title: "Purchase Orders",
+          icon: ClipboardCheck,
+          href: "/admin/stock/purchase-orders",
+          color: "text-purple-600",
+          permission: "view_stock"
         },
         {
           title: "Stock Sales",
           icon: Truck,
           href: "/admin/stock/sale",
-          color: "text-purple-600"
+          color: "text-purple-600",
+          permission: "view_stock"
+        },
+        {
+          title: "Dispatch Approvals",
+          icon: Inbox,
+          href: "/admin/stock/dispatch-approvals",
+          color: "text-purple-600",
+          permission: "approve_dispatch"
+        },
+        {
+          title: "MR Holding Limits",
+          icon: Gauge,
+          href: "/admin/stock/mr-limits",
+          color: "text-purple-600",
+          permission: "approve_dispatch"
         },
         {
           title: "Stock Adjustments",
           icon: FileEdit,
           href: "/admin/stock/adjustments",
-          color: "text-purple-600"
+          color: "text-purple-600",
+          permission: "view_stock"
+        },
+        {
+          title: "Batch Recalls",
+          icon: ShieldAlert,
+          href: "/admin/stock/recalls",
+          color: "text-purple-600",
+          permission: "view_stock"
         },
         {
           title: "Report",
           icon: BarChart3,
           href: "/admin/report",
-          color: "text-purple-600"
+          color: "text-purple-600",
+          permission: "view_stock"
+        },
+        {
+          title: "Stock Statement",
+          icon: ClipboardList,
+          href: "/admin/report/stock-statement",
+          color: "text-purple-600",
+          permission: "view_stock"
+        },
+        {
+          title: "Near Expiry",
+          icon: CalendarClock,
+          href: "/admin/report/near-expiry",
+          color: "text-purple-600",
+          permission: "view_stock"
+        },
+        {
+          title: "GST Reports",
+          icon: Receipt,
+          href: "/admin/report/tax",
+          color: "text-purple-600",
+          permission: "view_valuation"
+        },
+        {
+          title: "Margin Report",
+          icon: PiggyBank,
+          href: "/admin/report/margin",
+          color: "text-purple-600",
+          permission: "view_valuation"
+        },
+        {
+          title: "Reconcile Stock",
+          icon: Scale,
+          href: "/admin/stock/reconcile",
+          color: "text-purple-600",
+          adminOnly: true
         },
       ]
     },
@@ -114,35 +222,89 @@ const Sidebar = ({ isCollapsed, onToggle }: SidebarProps) => {
           title: "Suppliers",
           icon: Building2,
           href: "/admin/suppliers",
-          color: "text-orange-600"
+          color: "text-orange-600",
+          permission: "manage_masters"
+        },
+        {
+          title: "Customers",
+          icon: Store,
+          href: "/admin/customers",
+          color: "text-orange-600",
+          permission: "manage_masters"
+        },
+        {
+          title: "Document Templates",
+          icon: FileText,
+          href: "/admin/document-templates",
+          color: "text-orange-600",
+          permission: "manage_settings"
         },
         {
           title: "Users",
           icon: Users,
           href: "/admin/users",
-          color: "text-orange-600"
+          color: "text-orange-600",
+          permission: "manage_users"
+        },
+        {
+          title: "Territories",
+          icon: MapIcon,
+          href: "/admin/territories",
+          color: "text-orange-600",
+          permission: "manage_users"
         },
         
       ]
     },
   ];
 
-  const getRoleBadgeColor = (role?: string) => {
-    switch (role?.toLowerCase()) {
-      case "admin":
-        return "bg-purple-100 text-purple-800 border-purple-200";
-      case "manager":
-        return "bg-blue-100 text-blue-800 border-blue-200";
-      case "staff":
-        return "bg-green-100 text-green-800 border-green-200";
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-200";
-    }
-  };
+  // The MR portal
+  const mrNavigationGroups: NavigationGroup[] = [
+    {
+      title: "My Work",
+      items: [
+        {
+          title: "My Stock",
+          icon: Package,
+          href: "/mr/stock",
+          color: "text-teal-600",
+          permission: "sell_own_stock"
+        },
+        {
+          title: "My Sales",
+          icon: Receipt,
+          href: "/mr/sales",
+          color: "text-teal-600",
+          permission: "sell_own_stock"
+        },
+        {
+          title: "Return Requests",
+          icon: Undo2,
+          href: "/mr/returns",
+          color: "text-teal-600",
+          permission: "sell_own_stock"
+        },
+        {
+          title: "Dispatches Received",
+          icon: Truck,
+          href: "/mr/dispatches",
+          color: "text-teal-600",
+          permission: "sell_own_stock"
+        },
+      ]
+    },
+  ];
+
+  const visibleNavigationGroups = [...navigationGroups, ...mrNavigationGroups]
+    .map(group => ({
+      ...group,
+      items: group.items.filter(item => item.adminOnly ? isAdmin : can(item.permission!)),
+    }))
+    .filter(group => group.items.length > 0);
 
   return (
     <div className={cn(
-      "bg-gradient-to-br from-white to-gray-50 border-r border-gray-200 flex flex-col transition-all duration-300 shadow-sm h-full",
+      "bg-gradient-to-br from-white to-gray-50 border-r border-gray-200 flex flex-col transition-all duration-300 shadow-sm h-full print:hidden",
       isCollapsed ? "w-20" : "w-54"
     )}>
       {/* Header */}
@@ -181,7 +343,7 @@ const Sidebar = ({ isCollapsed, onToggle }: SidebarProps) => {
 
       {/* Navigation */}
       <nav className="flex-1 px-3 py-4 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent">
-        {navigationGroups.map((group) => (
+        {visibleNavigationGroups.map((group) => (
           <div key={group.title} className="mb-6 last:mb-0">
             {!isCollapsed && (
               <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 px-3">
@@ -245,8 +407,8 @@ const Sidebar = ({ isCollapsed, onToggle }: SidebarProps) => {
                   <p className="text-sm font-medium text-gray-900 truncate">{profile?.name}</p>
                   <p className="text-xs text-gray-500 truncate">{profile?.email}</p>
                   <div className="mt-1">
-                    <span className={`text-xs px-2 py-0.5 rounded-full font-medium capitalize border ${getRoleBadgeColor(profile?.role)}`}>
-                      {profile?.role || "User"}
+                    <span className={`text-xs px-2 py-0.5 rounded-full font-medium border ${getRoleBadgeColor(profile?.role)}`}>
+                      {getRoleLabel(profile?.role) || "User"}
                     </span>
                   </div>
                 </div>
@@ -7,8 +7,9 @@ import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchRolePermissions, getHomePath } from '@/lib/permissions';
 import { Loader2, Building2, Lock, Mail, User } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 
 const AuthPage = () => {
   const [isLogin, setIsLogin] = useState(true);
@@ -20,15 +21,19 @@ const AuthPage = () => {
   });
   
   const { toast } = useToast();
-  const { user, isAdmin, isLoading: authLoading } = useAuth();
+  const { user, homePath, isLoading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
 
-  // Redirect to admin dashboard if user is already authenticated and is an admin
+  // Invitation and password reset emails sign the user in and bring them here to choose a password
+  const isSettingPassword = searchParams.get('mode') === 'set-password' && !!user;
+
+  // Send signed-in users to the part of the app their role opens
   useEffect(() => {
-    if (!authLoading && user && isAdmin) {
-      navigate('/admin/dashboard');
+    if (!authLoading && user && homePath && !isSettingPassword) {
+      navigate(homePath);
     }
-  }, [user, isAdmin, authLoading, navigate]);
+  }, [user, homePath, authLoading, isSettingPassword, navigate]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
@@ -42,7 +47,30 @@ const AuthPage = () => {
     setIsLoading(true);
 
     try {
-      if (isLogin) {
+      if (isSettingPassword) {
+        const { error } = await supabase.auth.updateUser({ password: formData.password });
+
+        if (error) {
+          toast({
+            variant: "destructive",
+            title: "Password Not Saved",
+            description: error.message,
+          });
+          return;
+        }
+
+        toast({
+          title: "Password Saved",
+          description: "Use your new password the next time you sign in.",
+        });
+
+        if (homePath) {
+          navigate(homePath);
+        } else {
+          await supabase.auth.signOut();
+          navigate('/auth');
+        }
+      } else if (isLogin) {
         const { data, error } = await supabase.auth.signInWithPassword({
           email: formData.email,
           password: formData.password,
@@ -57,11 +85,11 @@ const AuthPage = () => {
           return;
         }
 
-        // Check if user has admin role
+        // Check which part of the app the user's role opens
         if (data.user) {
           const { data: profileData, error: profileError } = await supabase
             .from('profiles')
-            .select('role')
+            .select('role, status')
             .eq('user_id', data.user.id)
             .single();
 
@@ -75,11 +103,26 @@ const AuthPage = () => {
             return;
           }
 
-          if (profileData.role !== 'admin') {
+          if (profileData.status !== 'Active') {
+            toast({
+              variant: "destructive",
+              title: "Access Denied",
+              description: profileData.status === 'Pending'
+                ? "Your account is waiting for approval by an administrator."
+                : "Your account has been deactivated. Contact your administrator.",
+            });
+            await supabase.auth.signOut();
+            return;
+          }
+
+          // Staff go to the admin area, MRs to their own portal
+          const permissions = await fetchRolePermissions(profileData.role);
+          const landingPath = getHomePath(permission => permissions.includes(permission));
+          if (!landingPath) {
             toast({
               variant: "destructive",
               title: "Access Denied",
-              description: "This application is restricted to administrators only.",
+              description: "Your account has not been given access to StockMap.",
             });
             await supabase.auth.signOut();
             return;
@@ -87,11 +130,10 @@ const AuthPage = () => {
 
           toast({
             title: "Welcome to StockMap",
-            description: "Redirecting to admin dashboard...",
+            description: "Signing you in...",
           });
-          
-          // Redirect to admin dashboard
-          navigate('/admin/dashboard');
+
+          navigate(landingPath);
         }
       } else {
         const { data, error } = await supabase.auth.signUp({
@@ -115,7 +157,7 @@ const AuthPage = () => {
 
         toast({
           title: "Registration Successful",
-          description: "Please check your email to verify your account.",
+          description: "Please check your email to verify your account. An administrator will approve your access.",
         });
         setIsLogin(true);
       }
@@ -146,19 +188,21 @@ const AuthPage = () => {
         <Card className="shadow-xl border-0 bg-white/80 backdrop-blur-sm">
           <CardHeader className="space-y-1 pb-6">
             <CardTitle className="text-2xl font-semibold text-center">
-              {isLogin ? 'Welcome Back' : 'Create Account'}
+              {isSettingPassword ? 'Choose a Password' : isLogin ? 'Welcome Back' : 'Create Account'}
             </CardTitle>
             <CardDescription className="text-center">
-              {isLogin 
-                ? 'Sign in to access the admin dashboard' 
-                : 'Register for admin access to StockMap'
+              {isSettingPassword
+                ? `Set the password for ${user?.email}`
+                : isLogin 
+                  ? 'Sign in to access the admin dashboard' 
+                  : 'Register for admin access to StockMap'
               }
             </CardDescription>
           </CardHeader>
           
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
-              {!isLogin && (
+              {!isLogin && !isSettingPassword && (
                 <div className="space-y-2">
                   <Label htmlFor="name">Full Name</Label>
                   <div className="relative">
@@ -171,28 +215,30 @@ const AuthPage = () => {
                       value={formData.name}
                       onChange={handleInputChange}
                       className="pl-10"
-                      required={!isLogin}
+                      required={!isLogin && !isSettingPassword}
                     />
                   </div>
                 </div>
               )}
               
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="email"
-                    name="email"
-                    type="email"
-                    placeholder="Enter your email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    className="pl-10"
-                    required
-                  />
+              {!isSettingPassword && (
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="email"
+                      name="email"
+                      type="email"
+                      placeholder="Enter your email"
+                      value={formData.email}
+                      onChange={handleInputChange}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
               
               <div className="space-y-2">
                 <Label htmlFor="password">Password</Label>
@@ -202,7 +248,8 @@ const AuthPage = () => {
                     id="password"
                     name="password"
                     type="password"
-                    placeholder="Enter your password"
+                    placeholder={isSettingPassword ? 'Choose a new password' : 'Enter your password'}
+                    minLength={isSettingPassword ? 6 : undefined}
                     value={formData.password}
                     onChange={handleInputChange}
                     className="pl-10"
@@ -219,26 +266,28 @@ const AuthPage = () => {
                 {isLoading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    {isLogin ? 'Signing In...' : 'Creating Account...'}
+                    {isSettingPassword ? 'Saving...' : isLogin ? 'Signing In...' : 'Creating Account...'}
                   </>
                 ) : (
-                  isLogin ? 'Sign In' : 'Create Account'
+                  isSettingPassword ? 'Save Password' : isLogin ? 'Sign In' : 'Create Account'
                 )}
               </Button>
             </form>
 
-            <div className="mt-6 text-center">
-              <button
-                type="button"
-                onClick={() => setIsLogin(!isLogin)}
-                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
-              >
-                {isLogin 
-                  ? "Don't have an account? Sign up" 
-                  : "Already have an account? Sign in"
-                }
-              </button>
-            </div>
+            {!isSettingPassword && (
+              <div className="mt-6 text-center">
+                <button
+                  type="button"
+                  onClick={() => setIsLogin(!isLogin)}
+                  className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  {isLogin 
+                    ? "Don't have an account? Sign up" 
+                    : "Already have an account? Sign in"
+                  }
+                </button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -32,6 +32,7 @@ const BatchModal = ({ isOpen, onClose, onSuccess, editingBatch, productId, produ
     manufacturing_date: '',
     expiry_date: '',
     batch_cost_per_strip: '',
+    mrp_per_strip: '',
     status: 'Active',
     notes: '',
   });
@@ -43,6 +44,7 @@ const BatchModal = ({ isOpen, onClose, onSuccess, editingBatch, productId, produ
         manufacturing_date: editingBatch.manufacturing_date,
         expiry_date: editingBatch.expiry_date,
         batch_cost_per_strip: editingBatch.batch_cost_per_strip?.toString() || '',
+        mrp_per_strip: editingBatch.mrp_per_strip?.toString() || '',
         status: editingBatch.status,
         notes: editingBatch.notes || '',
       });
@@ -52,6 +54,7 @@ const BatchModal = ({ isOpen, onClose, onSuccess, editingBatch, productId, produ
         manufacturing_date: '',
         expiry_date: '',
         batch_cost_per_strip: '',
+        mrp_per_strip: '',
         status: 'Active',
         notes: '',
       });
@@ -92,6 +95,7 @@ const BatchModal = ({ isOpen, onClose, onSuccess, editingBatch, productId, produ
         manufacturing_date: formData.manufacturing_date,
         expiry_date: formData.expiry_date,
         batch_cost_per_strip: formData.batch_cost_per_strip ? parseFloat(formData.batch_cost_per_strip) : null,
+        mrp_per_strip: formData.mrp_per_strip ? parseFloat(formData.mrp_per_strip) : null,
         status: formData.status,
         notes: formData.notes || null,
       };
@@ -209,6 +213,23 @@ const BatchModal = ({ isOpen, onClose, onSuccess, editingBatch, productId, produ
             />
           </div>
 
+          {/* MRP per Strip */}
+          <div>
+            <Label htmlFor="mrp_per_strip">
+              MRP per Strip
+            </Label>
+            <Input
+              id="mrp_per_strip"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.mrp_per_strip}
+              onChange={(e) => setFormData(prev => ({ ...prev, mrp_per_strip: e.target.value }))}
+              placeholder="As printed on the pack"
+            />
+            <p className="text-xs text-gray-500 mt-1">Sales and dispatches from this batch cannot be priced above it</p>
+          </div>
+
           {/* Status */}
           <div>
             <Label htmlFor="status">Status</Label>
@@ -226,6 +247,11 @@ const BatchModal = ({ isOpen, onClose, onSuccess, editingBatch, productId, produ
                 <SelectItem value="Quarantined">Quarantined</SelectItem>
               </SelectContent>
             </Select>
+            {formData.status === 'Recalled' && editingBatch?.status !== 'Recalled' && (
+              <p className="text-xs text-orange-600 mt-1">
+                To freeze the batch and recover stock from MRs and customers, raise it from Batch Recalls instead.
+              </p>
+            )}
           </div>
 
           {/* Notes */}
@@ -3,11 +3,12 @@ import React from 'react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Edit, Trash2 } from 'lucide-react';
+import { Edit, History, Trash2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { ProductBatch } from '@/components/products/ProductBatches';
 import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
 
 interface BatchesTableProps {
   batches: ProductBatch[];
@@ -18,8 +19,9 @@ interface BatchesTableProps {
   baseCostPerStrip: number;
 }
 
-const BatchesTable = ({ batches, isLoading, onEdit, onRefresh, baseCostPerStrip }: BatchesTableProps) => {
+const BatchesTable = ({ batches, isLoading, onEdit, onRefresh, productId, baseCostPerStrip }: BatchesTableProps) => {
   const { toast } = useToast();
+  const navigate = useNavigate();
 
   // Fetch stock summary for each batch
   const { data: stockData } = useQuery({
@@ -116,6 +118,7 @@ const BatchesTable = ({ batches, isLoading, onEdit, onRefresh, baseCostPerStrip
             <TableHead>Manufacturing Date</TableHead>
             <TableHead>Expiry Date</TableHead>
             <TableHead>Batch Cost/Strip</TableHead>
+            <TableHead>MRP/Strip</TableHead>
             <TableHead>Status</TableHead>
             <TableHead>Notes</TableHead>
             <TableHead>Created At</TableHead>
@@ -142,6 +145,9 @@ const BatchesTable = ({ batches, isLoading, onEdit, onRefresh, baseCostPerStrip
                   : `₹${baseCostPerStrip} (Base)`
                 }
               </TableCell>
+              <TableCell className="font-mono">
+                {batch.mrp_per_strip ? `₹${batch.mrp_per_strip}` : '-'}
+              </TableCell>
               <TableCell>
                 <Badge variant={getStatusBadgeVariant(batch.status)}>
                   {batch.status}
@@ -163,6 +169,14 @@ const BatchesTable = ({ batches, isLoading, onEdit, onRefresh, baseCostPerStrip
               </TableCell>
               <TableCell className="text-right">
                 <div className="flex justify-end gap-2">
+                  <Button 
+                    variant="ghost" 
+                    size="sm"
+                    onClick={() => navigate(`/admin/products/${productId}/batches/${batch.id}/ledger`)}
+                    title="View batch ledger"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
                   <Button 
                     variant="ghost" 
                     size="sm"
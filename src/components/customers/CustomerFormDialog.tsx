@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CUSTOMER_TYPES, Customer, CustomerInput, fetchCustomers, saveCustomer } from '@/lib/customers';
+import { GST_STATES, getGstinStateCode, isValidGstin } from '@/lib/gst';
+
+interface CustomerFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: Customer | null;
+  initialValues?: Partial<CustomerInput>;
+  description?: string;
+  onSaved?: (customer: Customer) => void;
+}
+
+const emptyCustomerForm: CustomerInput = {
+  customer_code: '',
+  customer_name: '',
+  customer_type: 'retailer',
+  drug_licence_number: '',
+  gstin: '',
+  state_code: '',
+  phone: '',
+  address: '',
+  territory: '',
+  assigned_mr_user_id: '',
+  credit_limit: 0,
+  is_active: true,
+};
+
+// Next code in the CUS-0001 series
+const getNextCustomerCode = (customers: Customer[]) => {
+  const highest = customers.reduce((max, customer) => {
+    const match = customer.customer_code.match(/^CUS-(\d+)$/);
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, 0);
+  return `CUS-${String(highest + 1).padStart(4, '0')}`;
+};
+
+const CustomerFormDialog = ({ open, onOpenChange, customer, initialValues, description, onSaved }: CustomerFormDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<CustomerInput>(emptyCustomerForm);
+
+  const { data: customers } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => fetchCustomers(),
+  });
+
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(customer
+      ? {
+        customer_code: customer.customer_code,
+        customer_name: customer.customer_name,
+        customer_type: customer.customer_type,
+        drug_licence_number: customer.drug_licence_number || '',
+        gstin: customer.gstin || '',
+        state_code: customer.state_code || '',
+        phone: customer.phone || '',
+        address: customer.address || '',
+        territory: customer.territory || '',
+        assigned_mr_user_id: customer.assigned_mr_user_id || '',
+        credit_limit: Number(customer.credit_limit),
+        is_active: customer.is_active,
+      }
+      : { ...emptyCustomerForm, ...initialValues });
+  }, [open, customer, initialValues]);
+
+  // A new customer gets the next free code once the customer list is loaded; refreshes of the
+  // list leave a code already filled in alone
+  useEffect(() => {
+    if (!open || customer || !customers) return;
+    setFormData(prev => prev.customer_code ? prev : { ...prev, customer_code: getNextCustomerCode(customers) });
+  }, [open, customer, customers]);
+
+  const saveCustomerMutation = useMutation({
+    mutationFn: () => saveCustomer(formData, customer?.id),
+    onSuccess: (savedCustomer) => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      toast({
+        title: "Success",
+        description: `Customer ${customer ? 'updated' : 'created'} successfully.`,
+      });
+      onOpenChange(false);
+      onSaved?.(savedCustomer);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${customer ? 'update' : 'create'} customer. The customer code may already be in use.`,
+        variant: "destructive",
+      });
+      console.error('Error saving customer:', error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.customer_code.trim() || !formData.customer_name.trim()) {
+      toast({
+        title: "Error",
+        description: "Customer code and name are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      toast({
+        title: "Error",
+        description: "GSTIN is not valid. It should look like 27ABCDE1234F1Z5.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.credit_limit < 0) {
+      toast({
+        title: "Error",
+        description: "Credit limit cannot be negative.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveCustomerMutation.mutate();
+  };
+
+  // A valid GSTIN carries the customer's state in its first two digits
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    setFormData({ ...formData, gstin, state_code: getGstinStateCode(gstin) || formData.state_code });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{customer ? 'Edit Customer' : 'Add New Customer'}</DialogTitle>
+          <DialogDescription>
+            {description || (customer
+              ? 'Update the customer information below.'
+              : 'Fill in the details below to create a new customer.')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="customer_name">Customer Name *</Label>
+              <Input
+                id="customer_name"
+                value={formData.customer_name}
+                onChange={(e) => setFormData({ ...formData, customer_name: e.target.value })}
+                placeholder="Enter customer name"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="customer_code">Customer Code *</Label>
+              <Input
+                id="customer_code"
+                value={formData.customer_code}
+                onChange={(e) => setFormData({ ...formData, customer_code: e.target.value })}
+                placeholder="e.g., CUS-0001"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="customer_type">Type *</Label>
+              <Select
+                value={formData.customer_type}
+                onValueChange={(value) => setFormData({ ...formData, customer_type: value })}
+              >
+                <SelectTrigger id="customer_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOMER_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="drug_licence_number">Drug Licence Number</Label>
+              <Input
+                id="drug_licence_number"
+                value={formData.drug_licence_number}
+                onChange={(e) => setFormData({ ...formData, drug_licence_number: e.target.value })}
+                placeholder="e.g., MH-MZ1-123456"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="gstin">GSTIN</Label>
+              <Input
+                id="gstin"
+                value={formData.gstin}
+                onChange={(e) => handleGstinChange(e.target.value)}
+                placeholder="Leave blank for unregistered"
+                maxLength={15}
+              />
+            </div>
+            <div>
+              <Label htmlFor="state_code">State</Label>
+              <Select
+                value={formData.state_code}
+                onValueChange={(value) => setFormData({ ...formData, state_code: value })}
+              >
+                <SelectTrigger id="state_code">
+                  <SelectValue placeholder="Select state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {GST_STATES.map((state) => (
+                    <SelectItem key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="territory">Territory</Label>
+              <Input
+                id="territory"
+                value={formData.territory}
+                onChange={(e) => setFormData({ ...formData, territory: e.target.value })}
+                placeholder="e.g., Pune East"
+              />
+            </div>
+            <div>
+              <Label htmlFor="assigned_mr_user_id">Assigned MR</Label>
+              <Select
+                value={formData.assigned_mr_user_id || 'none'}
+                onValueChange={(value) => setFormData({ ...formData, assigned_mr_user_id: value === 'none' ? '' : value })}
+              >
+                <SelectTrigger id="assigned_mr_user_id">
+                  <SelectValue placeholder="Select MR" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No MR</SelectItem>
+                  {mrUsers?.map((mr) => (
+                    <SelectItem key={mr.user_id} value={mr.user_id}>{mr.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="phone">Phone</Label>
+              <Input
+                id="phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                placeholder="Enter phone number"
+              />
+            </div>
+            <div>
+              <Label htmlFor="credit_limit">Credit Limit (₹)</Label>
+              <Input
+                id="credit_limit"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.credit_limit}
+                onChange={(e) => setFormData({ ...formData, credit_limit: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="address">Address</Label>
+            <Textarea
+              id="address"
+              value={formData.address}
+              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              placeholder="Enter customer address"
+              rows={3}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="is_active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+            />
+            <Label htmlFor="is_active">Active</Label>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button type="submit" disabled={saveCustomerMutation.isPending}>
+              {customer ? 'Update' : 'Create'} Customer
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerFormDialog;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertTriangle, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import CustomerFormDialog from '@/components/customers/CustomerFormDialog';
+import {
+  Customer,
+  CustomerNameCluster,
+  clusterCustomerNames,
+  fetchUnlinkedCustomerSales,
+  getCustomerNameKey,
+  linkCustomerSales,
+} from '@/lib/customers';
+
+interface UnlinkedCustomerSalesProps {
+  customers: Customer[];
+}
+
+const UnlinkedCustomerSales = ({ customers }: UnlinkedCustomerSalesProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [excludedNames, setExcludedNames] = useState<Set<string>>(new Set());
+  const [creatingFor, setCreatingFor] = useState<CustomerNameCluster | null>(null);
+
+  const { data: unlinked } = useQuery({
+    queryKey: ['unlinked-customer-sales'],
+    queryFn: fetchUnlinkedCustomerSales,
+  });
+
+  const clusters = React.useMemo(() => clusterCustomerNames(unlinked || []), [unlinked]);
+
+  const linkMutation = useMutation({
+    mutationFn: ({ names, customer }: { names: string[]; customer: Customer }) =>
+      linkCustomerSales(names, customer),
+    onSuccess: (_, { names, customer }) => {
+      toast({
+        title: "Success",
+        description: `Sales recorded under ${names.length} name${names.length !== 1 ? 's' : ''} are now linked to ${customer.customer_name}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['unlinked-customer-sales'] });
+      queryClient.invalidateQueries({ queryKey: ['customer-sale-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-sales'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to link sales to the customer",
+        variant: "destructive",
+      });
+      console.error('Error linking customer sales:', error);
+    },
+  });
+
+  const getIncludedNames = (cluster: CustomerNameCluster) =>
+    cluster.names.map(row => row.recorded_customer_name).filter(name => !excludedNames.has(name));
+
+  // Kept stable while the dialog is open, which resets its form whenever these change
+  const newCustomerValues = React.useMemo(() => creatingFor ? {
+    customer_name: creatingFor.names
+      .map(row => row.recorded_customer_name)
+      .filter(name => !excludedNames.has(name))[0],
+    gstin: creatingFor.names.find(row => row.customer_gstin)?.customer_gstin || '',
+    state_code: creatingFor.names.find(row => row.customer_state_code)?.customer_state_code || '',
+  } : undefined, [creatingFor, excludedNames]);
+
+  if (!clusters.length) return null;
+
+  // A customer whose name reduces to the same key is the likely match
+  const getSelectedCustomerId = (cluster: CustomerNameCluster) =>
+    selections[cluster.key] ?? customers.find(customer => getCustomerNameKey(customer.customer_name) === cluster.key)?.id ?? '';
+
+  const toggleName = (name: string, included: boolean) => {
+    const next = new Set(excludedNames);
+    if (included) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setExcludedNames(next);
+  };
+
+  const handleLink = (cluster: CustomerNameCluster) => {
+    const customer = customers.find(c => c.id === getSelectedCustomerId(cluster));
+    const names = getIncludedNames(cluster);
+    if (!customer || names.length === 0) return;
+    linkMutation.mutate({ names, customer });
+  };
+
+  return (
+    <Card className="mb-6 border-amber-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-amber-800">
+          <AlertTriangle className="h-5 w-5" />
+          Sales Without a Customer
+        </CardTitle>
+        <CardDescription>
+          These direct sales were recorded against a typed customer name. Spellings that look alike are grouped;
+          untick any that belong to someone else, then link the group to a customer or create one from it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recorded Names</TableHead>
+              <TableHead className="text-right">Sales</TableHead>
+              <TableHead>Last Sale</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead>Link To</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {clusters.map(cluster => {
+              const includedNames = getIncludedNames(cluster);
+              const selectedCustomerId = getSelectedCustomerId(cluster);
+              return (
+                <TableRow key={cluster.key}>
+                  <TableCell>
+                    <div className="space-y-1">
+                      {cluster.names.map(row => (
+                        <label key={row.recorded_customer_name} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={!excludedNames.has(row.recorded_customer_name)}
+                            onCheckedChange={(checked) => toggleName(row.recorded_customer_name, checked === true)}
+                          />
+                          <span className="font-medium">{row.recorded_customer_name}</span>
+                          <span className="text-xs text-gray-500">({row.sales})</span>
+                        </label>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{cluster.sales}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {new Date(cluster.last_sale_date).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">₹{cluster.total_value.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={selectedCustomerId}
+                      onValueChange={(value) => setSelections({ ...selections, [cluster.key]: value })}
+                    >
+                      <SelectTrigger className="h-8 w-56">
+                        <SelectValue placeholder="Choose customer..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {customers.map(customer => (
+                          <SelectItem key={customer.id} value={customer.id}>
+                            {customer.customer_name} ({customer.customer_code})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        disabled={!selectedCustomerId || includedNames.length === 0 || linkMutation.isPending}
+                        onClick={() => handleLink(cluster)}
+                      >
+                        Link
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={includedNames.length === 0 || linkMutation.isPending}
+                        onClick={() => setCreatingFor(cluster)}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        New
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <CustomerFormDialog
+        open={!!creatingFor}
+        onOpenChange={(open) => !open && setCreatingFor(null)}
+        customer={null}
+        initialValues={newCustomerValues}
+        description="The sales recorded under the ticked names will be linked to the new customer."
+        onSaved={(customer) => {
+          if (creatingFor) {
+            linkMutation.mutate({ names: getIncludedNames(creatingFor), customer });
+          }
+          setCreatingFor(null);
+        }}
+      />
+    </Card>
+  );
+};
+
+export default UnlinkedCustomerSales;
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Phone, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { fetchCompanyProfile } from '@/lib/gst';
+import { saveCompanyContact } from '@/lib/documents';
+
+const CompanyContactDetails = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({
+    phone: '',
+    email: '',
+    drug_licence_number: '',
+  });
+
+  const { data: companyProfile } = useQuery({
+    queryKey: ['company-profile'],
+    queryFn: fetchCompanyProfile,
+  });
+
+  useEffect(() => {
+    if (companyProfile) {
+      setFormData({
+        phone: companyProfile.phone || '',
+        email: companyProfile.email || '',
+        drug_licence_number: companyProfile.drug_licence_number || '',
+      });
+    }
+  }, [companyProfile]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveCompanyContact(formData),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Company contact details saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ['company-profile'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save company contact details",
+        variant: "destructive",
+      });
+      console.error('Error saving company contact details:', error);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Phone className="h-5 w-5" />
+          Document Header
+        </CardTitle>
+        <CardDescription>
+          Printed under the company name and address on every document
+          {!companyProfile?.company_name && (
+            <span className="text-amber-700"> · Set the company name and address under GST Reports</span>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="company_phone" className="text-sm font-medium">Phone</Label>
+            <Input
+              id="company_phone"
+              value={formData.phone}
+              onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company_email" className="text-sm font-medium">Email</Label>
+            <Input
+              id="company_email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company_drug_licence" className="text-sm font-medium">Drug Licence No.</Label>
+            <Input
+              id="company_drug_licence"
+              value={formData.drug_licence_number}
+              onChange={(e) => setFormData({ ...formData, drug_licence_number: e.target.value })}
+              placeholder="e.g., MH-MZ1-123456, 123457"
+              className="h-8"
+            />
+          </div>
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CompanyContactDetails;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { previewDocumentNumber } from '@/lib/documentNumbering';
+import { NumberingSeriesType } from '@/types/stock';
+
+interface DocumentNumberFieldProps {
+  id: string;
+  label: string;
+  documentType: NumberingSeriesType;
+  date: string;
+  // Number already given to the document being edited
+  assignedNumber?: string;
+}
+
+const DocumentNumberField = ({ id, label, documentType, date, assignedNumber }: DocumentNumberFieldProps) => {
+  const { data: nextNumber } = useQuery({
+    queryKey: ['document-number-preview', documentType, date],
+    queryFn: () => previewDocumentNumber(documentType, date || undefined),
+    enabled: assignedNumber === undefined,
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-sm font-medium text-gray-700">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        value={assignedNumber ?? nextNumber ?? ''}
+        placeholder="Assigned on save"
+        disabled
+        className="h-9 rounded-lg font-mono"
+      />
+      <p className="text-xs text-gray-500">
+        {assignedNumber !== undefined ? 'Numbers cannot be changed once assigned' : 'Next number; assigned when saved'}
+      </p>
+    </div>
+  );
+};
+
+export default DocumentNumberField;
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DocumentTemplate, PAPER_SIZES, saveDocumentTemplate } from '@/lib/documents';
+import { DocumentType } from '@/types/stock';
+
+interface DocumentTemplateFormProps {
+  documentType: DocumentType;
+  label: string;
+  template: DocumentTemplate | undefined;
+}
+
+const DocumentTemplateForm = ({ documentType, label, template }: DocumentTemplateFormProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({
+    title: label,
+    header_note: '',
+    footer_note: '',
+    signatory_labels: '',
+    show_prices: true,
+    show_packaging_units: true,
+    paper_size: 'A4',
+    orientation: 'portrait',
+  });
+
+  useEffect(() => {
+    if (template) {
+      setFormData({
+        title: template.title,
+        header_note: template.header_note || '',
+        footer_note: template.footer_note || '',
+        signatory_labels: template.signatory_labels.join('\n'),
+        show_prices: template.show_prices,
+        show_packaging_units: template.show_packaging_units,
+        paper_size: template.paper_size,
+        orientation: template.orientation,
+      });
+    }
+  }, [template]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveDocumentTemplate(documentType, {
+      ...formData,
+      signatory_labels: formData.signatory_labels.split('\n'),
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `${label} template saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['document-templates'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save ${label.toLowerCase()} template`,
+        variant: "destructive",
+      });
+      console.error('Error saving document template:', error);
+    },
+  });
+
+  const handleSave = () => {
+    if (!formData.title.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Document title is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${documentType}_title`} className="text-sm font-medium">Title</Label>
+          <Input
+            id={`${documentType}_title`}
+            value={formData.title}
+            onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${documentType}_paper_size`} className="text-sm font-medium">Paper Size</Label>
+          <Select value={formData.paper_size} onValueChange={(value) => setFormData({ ...formData, paper_size: value })}>
+            <SelectTrigger id={`${documentType}_paper_size`} className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAPER_SIZES.map((size) => (
+                <SelectItem key={size} value={size}>{size}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${documentType}_orientation`} className="text-sm font-medium">Orientation</Label>
+          <Select value={formData.orientation} onValueChange={(value) => setFormData({ ...formData, orientation: value })}>
+            <SelectTrigger id={`${documentType}_orientation`} className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="portrait">Portrait</SelectItem>
+              <SelectItem value="landscape">Landscape</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${documentType}_header_note`} className="text-sm font-medium">Header Note</Label>
+          <Textarea
+            id={`${documentType}_header_note`}
+            value={formData.header_note}
+            onChange={(e) => setFormData({ ...formData, header_note: e.target.value })}
+            placeholder="Printed below the document heading"
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${documentType}_footer_note`} className="text-sm font-medium">Footer Note</Label>
+          <Textarea
+            id={`${documentType}_footer_note`}
+            value={formData.footer_note}
+            onChange={(e) => setFormData({ ...formData, footer_note: e.target.value })}
+            placeholder="Terms, declarations or bank details"
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${documentType}_signatories`} className="text-sm font-medium">Signature Boxes</Label>
+          <Textarea
+            id={`${documentType}_signatories`}
+            value={formData.signatory_labels}
+            onChange={(e) => setFormData({ ...formData, signatory_labels: e.target.value })}
+            placeholder="One label per line"
+            rows={3}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${documentType}_show_prices`}
+              checked={formData.show_prices}
+              onCheckedChange={(checked) => setFormData({ ...formData, show_prices: checked })}
+            />
+            <Label htmlFor={`${documentType}_show_prices`} className="text-sm">Show rates and amounts</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${documentType}_show_packaging_units`}
+              checked={formData.show_packaging_units}
+              onCheckedChange={(checked) => setFormData({ ...formData, show_packaging_units: checked })}
+            />
+            <Label htmlFor={`${documentType}_show_packaging_units`} className="text-sm">Show quantity in packaging units</Label>
+          </div>
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {saveMutation.isPending ? 'Saving...' : 'Save Template'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentTemplateForm;
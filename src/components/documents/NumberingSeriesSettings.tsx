@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Hash, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  NUMBERING_SERIES,
+  NumberingSeries,
+  fetchNumberingCounters,
+  fetchNumberingSeries,
+  formatDocumentNumber,
+  getFinancialYearLabel,
+  saveNumberingSeries,
+} from '@/lib/documentNumbering';
+import { NumberingSeriesType } from '@/types/stock';
+
+interface NumberingSeriesRowProps {
+  documentType: NumberingSeriesType;
+  label: string;
+  series: NumberingSeries | undefined;
+  lastNumber: (financialYear: string) => number;
+}
+
+const NumberingSeriesRow = ({ documentType, label, series, lastNumber }: NumberingSeriesRowProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({
+    prefix: '',
+    padding: 5,
+    reset_each_financial_year: true,
+  });
+
+  useEffect(() => {
+    if (series) {
+      setFormData({
+        prefix: series.prefix,
+        padding: series.padding,
+        reset_each_financial_year: series.reset_each_financial_year,
+      });
+    }
+  }, [series]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveNumberingSeries(documentType, formData),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `${label} numbering saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['numbering-series'] });
+      queryClient.invalidateQueries({ queryKey: ['document-number-preview'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save ${label} numbering`,
+        variant: "destructive",
+      });
+      console.error('Error saving numbering series:', error);
+    },
+  });
+
+  const handleSave = () => {
+    if (!Number.isInteger(formData.padding) || formData.padding < 1 || formData.padding > 10) {
+      toast({
+        title: "Validation Error",
+        description: "Digits must be a whole number from 1 to 10",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate();
+  };
+
+  const financialYear = formData.reset_each_financial_year ? getFinancialYearLabel(new Date()) : '';
+  const issued = lastNumber(financialYear);
+
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      <TableCell>
+        <Input
+          value={formData.prefix}
+          onChange={(e) => setFormData({ ...formData, prefix: e.target.value })}
+          className="h-8 w-28 font-mono"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={1}
+          max={10}
+          value={formData.padding}
+          onChange={(e) => setFormData({ ...formData, padding: parseInt(e.target.value) || 0 })}
+          className="h-8 w-20"
+        />
+      </TableCell>
+      <TableCell>
+        <Switch
+          checked={formData.reset_each_financial_year}
+          onCheckedChange={(checked) => setFormData({ ...formData, reset_each_financial_year: checked })}
+        />
+      </TableCell>
+      <TableCell className="text-right">{issued}</TableCell>
+      <TableCell className="font-mono text-sm">
+        {formatDocumentNumber(formData.prefix.trim(), Math.min(Math.max(formData.padding, 1), 10), financialYear, issued + 1)}
+      </TableCell>
+      <TableCell>
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={saveMutation.isPending}>
+          <Save className="h-4 w-4" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+};
+
+const NumberingSeriesSettings = () => {
+  const { data: series } = useQuery({
+    queryKey: ['numbering-series'],
+    queryFn: fetchNumberingSeries,
+  });
+
+  const { data: counters } = useQuery({
+    queryKey: ['numbering-counters'],
+    queryFn: fetchNumberingCounters,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Document Numbering
+        </CardTitle>
+        <CardDescription>
+          Numbers are given out in order when a document is saved, with no gaps or duplicates.
+          Changes apply to documents saved from now on.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Document</TableHead>
+                <TableHead>Prefix</TableHead>
+                <TableHead>Digits</TableHead>
+                <TableHead>Restart Each Financial Year</TableHead>
+                <TableHead className="text-right">Issued</TableHead>
+                <TableHead>Next Number</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {NUMBERING_SERIES.map((option) => (
+                <NumberingSeriesRow
+                  key={option.type}
+                  documentType={option.type}
+                  label={option.label}
+                  series={series?.find(s => s.document_type === option.type)}
+                  lastNumber={(financialYear) =>
+                    counters?.find(c => c.document_type === option.type && c.financial_year === financialYear)?.last_number || 0
+                  }
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NumberingSeriesSettings;
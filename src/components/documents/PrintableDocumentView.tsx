@@ -0,0 +1,181 @@
+import React from 'react';
+import { CompanyProfile, getStateName, summarizeTax } from '@/lib/gst';
+import { DocumentTemplate, amountInWords } from '@/lib/documents';
+import { PrintableDocument } from '@/types/stock';
+
+interface PrintableDocumentViewProps {
+  document: PrintableDocument;
+  template: DocumentTemplate | undefined;
+  company: CompanyProfile | null | undefined;
+}
+
+const formatAmount = (value: number) => value.toFixed(2);
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+const PrintableDocumentView = ({ document, template, company }: PrintableDocumentViewProps) => {
+  const showPrices = template?.show_prices ?? true;
+  const showPackagingUnits = template?.show_packaging_units ?? true;
+  const showTax = showPrices && document.document_type !== 'DELIVERY_CHALLAN';
+  const showFree = document.lines.some(line => line.free_strips > 0);
+  const signatories = template?.signatory_labels.length ? template.signatory_labels : ['Authorised Signatory'];
+
+  const totals = summarizeTax(document.lines);
+  const totalStrips = document.lines.reduce((sum, line) => sum + line.quantity_strips, 0);
+  const grandTotal = totals.taxable_value + (showTax ? totals.tax_amount : 0);
+  const { party } = document;
+
+  const cell = 'border border-gray-300 px-2 py-1';
+  const numberCell = `${cell} text-right font-mono`;
+
+  return (
+    <div className="bg-white text-gray-900 text-xs leading-snug">
+      {/* Company header */}
+      <div className="flex justify-between items-start border-b-2 border-gray-800 pb-3">
+        <div>
+          <h2 className="text-xl font-bold">{company?.company_name || 'Company name not set'}</h2>
+          {company?.address && <p className="whitespace-pre-line">{company.address}</p>}
+          {company?.gstin && <p>GSTIN: <span className="font-mono">{company.gstin}</span></p>}
+          {company?.state_code && <p>State: {company.state_code} - {getStateName(company.state_code)}</p>}
+          {company?.drug_licence_number && <p>Drug Licence No: {company.drug_licence_number}</p>}
+          {(company?.phone || company?.email) && (
+            <p>{[company.phone, company.email].filter(Boolean).join(' · ')}</p>
+          )}
+        </div>
+        <div className="text-right space-y-0.5">
+          <h1 className="text-2xl font-bold uppercase tracking-wide">{template?.title || document.document_type}</h1>
+          <p><span className="text-gray-600">No:</span> <span className="font-semibold">{document.document_number || '-'}</span></p>
+          <p><span className="text-gray-600">Date:</span> {formatDate(document.document_date)}</p>
+          {document.references.map(reference => (
+            <p key={reference.label}><span className="text-gray-600">{reference.label}:</span> {reference.value}</p>
+          ))}
+        </div>
+      </div>
+
+      {template?.header_note && <p className="mt-2 italic">{template.header_note}</p>}
+
+      {/* Party */}
+      <div className="grid grid-cols-2 gap-4 mt-3">
+        <div className="border border-gray-300 p-2">
+          <p className="text-gray-600 uppercase text-[10px] font-semibold">{document.party_label}</p>
+          <p className="font-semibold text-sm">{party.name || '-'} {party.code && `(${party.code})`}</p>
+          {party.address && <p className="whitespace-pre-line">{party.address}</p>}
+          {party.gstin && <p>GSTIN: <span className="font-mono">{party.gstin}</span></p>}
+          {party.drug_licence_number && <p>Drug Licence No: {party.drug_licence_number}</p>}
+          {party.phone && <p>Phone: {party.phone}</p>}
+        </div>
+        {document.document_type === 'TAX_INVOICE' && (
+          <div className="border border-gray-300 p-2">
+            <p className="text-gray-600 uppercase text-[10px] font-semibold">Place of Supply</p>
+            <p className="font-semibold text-sm">
+              {party.state_code ? `${party.state_code} - ${getStateName(party.state_code)}` : getStateName(company?.state_code) || '-'}
+            </p>
+            <p>{party.gstin ? 'Registered customer' : 'Unregistered customer'}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Lines */}
+      <table className="w-full border-collapse mt-3">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className={`${cell} text-left`}>#</th>
+            <th className={`${cell} text-left`}>Product</th>
+            {showTax && <th className={`${cell} text-left`}>HSN</th>}
+            <th className={`${cell} text-left`}>Batch</th>
+            <th className={`${cell} text-left`}>Expiry</th>
+            {showPackagingUnits && <th className={`${cell} text-left`}>Quantity</th>}
+            <th className={`${cell} text-right`}>Strips</th>
+            {showFree && <th className={`${cell} text-right`}>Free</th>}
+            {showPrices && <th className={`${cell} text-right`}>Rate</th>}
+            {showPrices && <th className={`${cell} text-right`}>{showTax ? 'Taxable' : 'Amount'}</th>}
+            {showTax && <th className={`${cell} text-right`}>GST %</th>}
+            {showTax && !document.inter_state && <th className={`${cell} text-right`}>CGST</th>}
+            {showTax && !document.inter_state && <th className={`${cell} text-right`}>SGST</th>}
+            {showTax && document.inter_state && <th className={`${cell} text-right`}>IGST</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {document.lines.map((line, index) => (
+            <tr key={index}>
+              <td className={cell}>{index + 1}</td>
+              <td className={cell}>
+                <div className="font-medium">{line.product_name}</div>
+                <div className="text-[10px] text-gray-600">{line.product_code}</div>
+              </td>
+              {showTax && <td className={`${cell} font-mono`}>{line.hsn_code || '-'}</td>}
+              <td className={`${cell} font-mono`}>{line.batch_number}</td>
+              <td className={cell}>{formatDate(line.expiry_date)}</td>
+              {showPackagingUnits && <td className={cell}>{line.packaging_quantity}</td>}
+              <td className={numberCell}>{line.quantity_strips}</td>
+              {showFree && <td className={numberCell}>{line.free_strips || '-'}</td>}
+              {showPrices && <td className={numberCell}>{formatAmount(line.rate_per_strip)}</td>}
+              {showPrices && <td className={numberCell}>{formatAmount(line.taxable_value)}</td>}
+              {showTax && <td className={numberCell}>{line.gst_rate}</td>}
+              {showTax && !document.inter_state && <td className={numberCell}>{formatAmount(line.cgst_amount)}</td>}
+              {showTax && !document.inter_state && <td className={numberCell}>{formatAmount(line.sgst_amount)}</td>}
+              {showTax && document.inter_state && <td className={numberCell}>{formatAmount(line.igst_amount)}</td>}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="font-semibold">
+          <tr>
+            <td className={cell} colSpan={(showTax ? 5 : 4) + (showPackagingUnits ? 1 : 0)}>Total</td>
+            <td className={numberCell}>{totalStrips}</td>
+            {showFree && <td className={numberCell}>{document.lines.reduce((sum, line) => sum + line.free_strips, 0)}</td>}
+            {showPrices && <td className={cell}></td>}
+            {showPrices && <td className={numberCell}>{formatAmount(totals.taxable_value)}</td>}
+            {showTax && <td className={cell}></td>}
+            {showTax && !document.inter_state && <td className={numberCell}>{formatAmount(totals.cgst_amount)}</td>}
+            {showTax && !document.inter_state && <td className={numberCell}>{formatAmount(totals.sgst_amount)}</td>}
+            {showTax && document.inter_state && <td className={numberCell}>{formatAmount(totals.igst_amount)}</td>}
+          </tr>
+        </tfoot>
+      </table>
+
+      {/* Totals */}
+      {showPrices && (
+        <div className="flex justify-between items-start gap-6 mt-3">
+          <p className="italic flex-1">{amountInWords(grandTotal)}</p>
+          <table className="border-collapse min-w-[220px]">
+            <tbody>
+              <tr>
+                <td className={cell}>{showTax ? 'Taxable Value' : 'Total Value'}</td>
+                <td className={numberCell}>₹{formatAmount(totals.taxable_value)}</td>
+              </tr>
+              {showTax && (
+                <tr>
+                  <td className={cell}>{document.inter_state ? 'IGST' : 'CGST + SGST'}</td>
+                  <td className={numberCell}>₹{formatAmount(totals.tax_amount)}</td>
+                </tr>
+              )}
+              <tr className="font-bold">
+                <td className={cell}>Grand Total</td>
+                <td className={numberCell}>₹{formatAmount(grandTotal)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {document.notes && <p className="mt-3"><span className="text-gray-600">Notes:</span> {document.notes}</p>}
+      {template?.footer_note && <p className="mt-3 text-[10px] text-gray-700 whitespace-pre-line">{template.footer_note}</p>}
+
+      {/* Signatures */}
+      <div
+        className="grid gap-6 pt-14 mt-4 break-inside-avoid"
+        style={{ gridTemplateColumns: `repeat(${signatories.length}, minmax(0, 1fr))` }}
+      >
+        {signatories.map((label, index) => (
+          <div key={label} className={`border-t border-gray-500 pt-1 ${index === signatories.length - 1 ? 'text-right' : ''}`}>
+            {label}
+            {index === signatories.length - 1 && company?.company_name && (
+              <div className="text-[10px] text-gray-600">for {company.company_name}</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PrintableDocumentView;
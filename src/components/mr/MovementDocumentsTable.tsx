@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { MRMovementDocument } from '@/lib/mrPortal';
+
+interface MovementDocumentsTableProps {
+  documents: MRMovementDocument[];
+  numberLabel: string;
+  // Column heading for the customer of a sale; dispatches have no party column
+  partyLabel?: string;
+  valueLabel: string;
+  showTax?: boolean;
+}
+
+const MovementDocumentsTable = ({ documents, numberLabel, partyLabel, valueLabel, showTax = false }: MovementDocumentsTableProps) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (groupId: string) => {
+    const next = new Set(expanded);
+    if (next.has(groupId)) {
+      next.delete(groupId);
+    } else {
+      next.add(groupId);
+    }
+    setExpanded(next);
+  };
+
+  const columnCount = 5 + (partyLabel ? 1 : 0) + (showTax ? 1 : 0);
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10"></TableHead>
+            <TableHead>{numberLabel}</TableHead>
+            <TableHead>Date</TableHead>
+            {partyLabel && <TableHead>{partyLabel}</TableHead>}
+            <TableHead className="text-right">Strips</TableHead>
+            <TableHead className="text-right">{valueLabel}</TableHead>
+            {showTax && <TableHead className="text-right">GST</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {documents.map((document) => (
+            <React.Fragment key={document.group_id}>
+              <TableRow className="cursor-pointer" onClick={() => toggle(document.group_id)}>
+                <TableCell>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                    {expanded.has(document.group_id) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </Button>
+                </TableCell>
+                <TableCell className="font-mono text-sm">{document.document_number || '-'}</TableCell>
+                <TableCell>{new Date(document.date).toLocaleDateString()}</TableCell>
+                {partyLabel && <TableCell>{document.party}</TableCell>}
+                <TableCell className="text-right">{document.quantity_strips}</TableCell>
+                <TableCell className="text-right">₹{document.value.toFixed(2)}</TableCell>
+                {showTax && <TableCell className="text-right">₹{document.tax_amount.toFixed(2)}</TableCell>}
+              </TableRow>
+              {expanded.has(document.group_id) && (
+                <TableRow className="bg-gray-50 hover:bg-gray-50">
+                  <TableCell colSpan={columnCount} className="py-3">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Batch</TableHead>
+                          <TableHead>Expiry</TableHead>
+                          <TableHead className="text-right">Strips</TableHead>
+                          <TableHead className="text-right">Rate / Strip</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {document.lines.map((line) => (
+                          <TableRow key={line.sale_id}>
+                            <TableCell>
+                              {line.products?.product_name}
+                              <span className="text-xs text-gray-500 ml-2">{line.products?.product_code}</span>
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">{line.product_batches?.batch_number}</TableCell>
+                            <TableCell>
+                              {line.product_batches?.expiry_date ? new Date(line.product_batches.expiry_date).toLocaleDateString() : '-'}
+                            </TableCell>
+                            <TableCell className="text-right">{line.quantity_strips}</TableCell>
+                            <TableCell className="text-right">
+                              ₹{Number(line.selling_price_per_strip ?? line.cost_per_strip).toFixed(2)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableCell>
+                </TableRow>
+              )}
+            </React.Fragment>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default MovementDocumentsTable;
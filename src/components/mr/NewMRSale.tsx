@@ -0,0 +1,432 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { getBatchValidationMessage } from '@/lib/batchValidation';
+import PriceListSelect from '@/components/sale/PriceListSelect';
+import CustomerSelect from '@/components/sale/CustomerSelect';
+import DocumentNumberField from '@/components/documents/DocumentNumberField';
+import { Customer } from '@/lib/customers';
+import { MRHolding, fetchMRHoldings } from '@/lib/mrPortal';
+import { fetchPriceListPrices, getSellingPriceError } from '@/lib/pricing';
+import {
+  calculateLineTax,
+  fetchCompanyProfile,
+  fetchProductTaxRates,
+  isInterStateSupply,
+  summarizeTax,
+} from '@/lib/gst';
+
+interface MRSaleLine {
+  id: string;
+  batch_id: string;
+  quantity_strips: number;
+  selling_price_per_strip: number;
+}
+
+const NewMRSale = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const [formData, setFormData] = useState({
+    customer_id: '',
+    customer_name: '',
+    customer_gstin: '',
+    customer_state_code: '',
+    sale_date: new Date().toISOString().split('T')[0],
+    price_list_id: '',
+    notes: '',
+  });
+  const [lines, setLines] = useState<MRSaleLine[]>([]);
+
+  const { data: holdings } = useQuery({
+    queryKey: ['mr-holdings', user?.id],
+    queryFn: () => fetchMRHoldings(user!.id),
+    enabled: !!user,
+  });
+
+  const { data: companyProfile } = useQuery({
+    queryKey: ['company-profile'],
+    queryFn: fetchCompanyProfile,
+  });
+
+  const { data: productTaxRates } = useQuery({
+    queryKey: ['product-tax-rates'],
+    queryFn: fetchProductTaxRates,
+  });
+
+  const { data: priceListPrices } = useQuery({
+    queryKey: ['price-list-prices', formData.price_list_id],
+    queryFn: () => fetchPriceListPrices(formData.price_list_id),
+    enabled: !!formData.price_list_id,
+  });
+
+  const getHolding = (batchId: string) => holdings?.find(holding => holding.batch_id === batchId);
+
+  // Price list price when the product is on the chosen list, otherwise the batch MRP
+  const getDefaultPrice = (holding: MRHolding, prices?: Map<string, number>) =>
+    prices?.get(holding.product_id) ?? Number(holding.mrp_per_strip ?? 0);
+
+  const interState = isInterStateSupply(companyProfile?.state_code, formData.customer_state_code);
+  const lineTaxes = lines.map(line => {
+    const holding = getHolding(line.batch_id);
+    return calculateLineTax(
+      line.quantity_strips * (line.selling_price_per_strip || 0),
+      holding ? productTaxRates?.get(holding.product_id) : undefined,
+      interState
+    );
+  });
+  const taxTotals = summarizeTax(lineTaxes);
+
+  const saveSaleMutation = useMutation({
+    mutationFn: async () => {
+      const sale_group_id = crypto.randomUUID();
+
+      const sales = lines.map((line, index) => {
+        const holding = getHolding(line.batch_id)!;
+        return {
+          sale_group_id,
+          product_id: holding.product_id,
+          batch_id: line.batch_id,
+          transaction_type: 'SALE_BY_MR',
+          quantity_strips: line.quantity_strips,
+          location_type_source: 'MR',
+          location_id_source: user!.id,
+          location_type_destination: 'CUSTOMER',
+          location_id_destination: formData.customer_name,
+          customer_id: formData.customer_id,
+          sale_date: formData.sale_date,
+          cost_per_strip: holding.cost_per_strip,
+          selling_price_per_strip: line.selling_price_per_strip,
+          price_list_id: formData.price_list_id || null,
+          customer_gstin: formData.customer_gstin || null,
+          customer_state_code: formData.customer_state_code || null,
+          ...lineTaxes[index],
+          notes: formData.notes || null,
+          created_by: user!.id,
+        };
+      });
+
+      // The database numbers the invoice and checks each line against the MR's stock
+      const { data, error } = await supabase
+        .from('stock_sales')
+        .insert(sales)
+        .select('reference_document_id');
+
+      if (error) throw error;
+      return data?.[0]?.reference_document_id;
+    },
+    onSuccess: (invoiceNumber) => {
+      toast({
+        title: "Success",
+        description: `Sale recorded as invoice ${invoiceNumber}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['mr-sales'] });
+      queryClient.invalidateQueries({ queryKey: ['mr-holdings'] });
+      queryClient.invalidateQueries({ queryKey: ['document-number-preview'] });
+      navigate('/mr/sales');
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getBatchValidationMessage(error) || "Failed to record sale",
+        variant: "destructive",
+      });
+      console.error('Error saving MR sale:', error);
+    },
+  });
+
+  const handleCustomerChange = (customer: Customer) => {
+    setFormData({
+      ...formData,
+      customer_id: customer.id,
+      customer_name: customer.customer_name,
+      customer_gstin: customer.gstin || '',
+      customer_state_code: customer.state_code || '',
+    });
+  };
+
+  // Switching price list reprices the lines whose products are on it
+  const handlePriceListChange = async (priceListId: string) => {
+    setFormData(prev => ({ ...prev, price_list_id: priceListId }));
+    try {
+      const prices = await queryClient.fetchQuery({
+        queryKey: ['price-list-prices', priceListId],
+        queryFn: () => fetchPriceListPrices(priceListId),
+      });
+      setLines(prev => prev.map(line => {
+        const holding = getHolding(line.batch_id);
+        return holding && prices.has(holding.product_id)
+          ? { ...line, selling_price_per_strip: prices.get(holding.product_id)! }
+          : line;
+      }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load price list",
+        variant: "destructive",
+      });
+      console.error('Error loading price list:', error);
+    }
+  };
+
+  const addLine = () => {
+    setLines([...lines, { id: crypto.randomUUID(), batch_id: '', quantity_strips: 0, selling_price_per_strip: 0 }]);
+  };
+
+  const updateLine = (id: string, updates: Partial<MRSaleLine>) => {
+    setLines(lines.map(line => line.id === id ? { ...line, ...updates } : line));
+  };
+
+  const handleBatchChange = (id: string, batchId: string) => {
+    const holding = getHolding(batchId);
+    updateLine(id, {
+      batch_id: batchId,
+      selling_price_per_strip: holding ? getDefaultPrice(holding, priceListPrices) : 0,
+    });
+  };
+
+  const handleSave = () => {
+    if (!formData.customer_id || lines.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a customer and add at least one line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    for (const [index, line] of lines.entries()) {
+      const holding = getHolding(line.batch_id);
+      if (!holding || line.quantity_strips <= 0) {
+        toast({
+          title: "Validation Error",
+          description: `Line ${index + 1}: choose a batch and enter the strips sold`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // The same batch may be split over several lines
+      const batchTotal = lines
+        .filter(other => other.batch_id === line.batch_id)
+        .reduce((sum, other) => sum + other.quantity_strips, 0);
+      if (batchTotal > holding.quantity_strips) {
+        toast({
+          title: "Validation Error",
+          description: `Batch ${holding.batch_number}: you hold ${holding.quantity_strips} strips but are selling ${batchTotal}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const priceError = getSellingPriceError(line.selling_price_per_strip, holding.mrp_per_strip);
+      if (priceError) {
+        toast({
+          title: "Validation Error",
+          description: `Line ${index + 1}: ${priceError}`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    saveSaleMutation.mutate();
+  };
+
+  const saleValue = lines.reduce((sum, line) => sum + line.quantity_strips * (line.selling_price_per_strip || 0), 0);
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">New Sale</h1>
+        <p className="text-gray-600">Sell to a customer from the stock you hold</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Sale Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+            <CustomerSelect value={formData.customer_id} onChange={handleCustomerChange} mrUserId={user?.id} />
+
+            <DocumentNumberField
+              id="invoice_number"
+              label="Invoice Number"
+              documentType="TAX_INVOICE"
+              date={formData.sale_date}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="sale_date" className="text-sm font-medium text-gray-700">
+                Sale Date <span className="text-red-400">*</span>
+              </Label>
+              <Input
+                id="sale_date"
+                type="date"
+                value={formData.sale_date}
+                onChange={(e) => setFormData({ ...formData, sale_date: e.target.value })}
+                className="h-9 rounded-lg"
+              />
+            </div>
+
+            <PriceListSelect value={formData.price_list_id} onChange={handlePriceListChange} />
+          </div>
+
+          {formData.customer_id && (
+            <p className="text-sm text-gray-500">
+              GSTIN: {formData.customer_gstin || 'Unregistered'} · Place of supply: {formData.customer_state_code || 'Not set'}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="notes" className="text-sm font-medium text-gray-700">Notes</Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="Optional"
+              rows={2}
+              className="resize-none rounded-lg"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg font-semibold">Products</CardTitle>
+            <Button onClick={addLine} size="sm" className="bg-green-600 hover:bg-green-700 text-white">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Product
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {lines.length === 0 ? (
+            <div className="text-center py-12 border-2 border-dashed border-gray-200 rounded-xl text-gray-500">
+              Add the batches you sold from your stock
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead className="text-right">In Hand</TableHead>
+                  <TableHead className="w-28">Strips</TableHead>
+                  <TableHead className="w-32">Price / Strip</TableHead>
+                  <TableHead className="text-right">Taxable Value</TableHead>
+                  <TableHead className="text-right">GST</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => {
+                  const holding = getHolding(line.batch_id);
+                  const tax = lineTaxes[index];
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell className="min-w-[280px]">
+                        <Select value={line.batch_id} onValueChange={(value) => handleBatchChange(line.id, value)}>
+                          <SelectTrigger className="h-9">
+                            <SelectValue placeholder="Choose a batch..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {holdings?.map((option) => (
+                              <SelectItem key={option.batch_id} value={option.batch_id}>
+                                {option.product_name} · {option.batch_number} (exp {new Date(option.expiry_date).toLocaleDateString()})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">{holding?.quantity_strips ?? '-'}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line.quantity_strips || ''}
+                          onChange={(e) => updateLine(line.id, { quantity_strips: parseInt(e.target.value) || 0 })}
+                          className="h-9"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.selling_price_per_strip || ''}
+                          onChange={(e) => updateLine(line.id, { selling_price_per_strip: parseFloat(e.target.value) || 0 })}
+                          className="h-9"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">₹{tax.taxable_value.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        ₹{(tax.cgst_amount + tax.sgst_amount + tax.igst_amount).toFixed(2)}
+                        <div className="text-xs text-gray-500">{tax.gst_rate}%</div>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines(lines.filter(other => other.id !== line.id))}
+                          className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-lg">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-6 text-sm text-gray-600">
+            <div>
+              <span className="font-medium">Sale Value:</span> ₹{saleValue.toFixed(2)}
+            </div>
+            <div>
+              <span className="font-medium">{interState ? 'IGST' : 'CGST + SGST'}:</span> ₹{taxTotals.tax_amount.toFixed(2)}
+            </div>
+            <div>
+              <span className="font-medium">Invoice Total:</span> ₹{(saleValue + taxTotals.tax_amount).toFixed(2)}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={() => navigate('/mr/sales')} className="px-6 rounded-lg">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saveSaleMutation.isPending || lines.length === 0}
+              className="px-6 bg-blue-600 hover:bg-blue-700 rounded-lg"
+            >
+              {saveSaleMutation.isPending ? 'Saving...' : 'Record Sale'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewMRSale;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getBatchValidationMessage } from '@/lib/batchValidation';
+import { createReturnRequest, fetchMRHoldings } from '@/lib/mrPortal';
+
+interface ReturnRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ReturnRequestDialog = ({ open, onOpenChange }: ReturnRequestDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [reason, setReason] = useState('');
+  // Strips to return, by batch
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  const { data: holdings } = useQuery({
+    queryKey: ['mr-holdings', user?.id],
+    queryFn: () => fetchMRHoldings(user!.id),
+    enabled: !!user && open,
+  });
+
+  const selectedLines = (holdings || [])
+    .filter(holding => (quantities[holding.batch_id] || 0) > 0)
+    .map(holding => ({
+      product_id: holding.product_id,
+      batch_id: holding.batch_id,
+      quantity_strips: quantities[holding.batch_id],
+    }));
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setReason('');
+      setQuantities({});
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createReturnRequest({
+      mrUserId: user!.id,
+      reason,
+      lines: selectedLines,
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Return request sent for approval",
+      });
+      queryClient.invalidateQueries({ queryKey: ['return-requests'] });
+      handleOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getBatchValidationMessage(error) || "Failed to send return request",
+        variant: "destructive",
+      });
+      console.error('Error creating return request:', error);
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!reason.trim() || selectedLines.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a reason and the strips to return for at least one batch",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const overHolding = (holdings || []).find(holding => (quantities[holding.batch_id] || 0) > holding.quantity_strips);
+    if (overHolding) {
+      toast({
+        title: "Validation Error",
+        description: `Batch ${overHolding.batch_number}: you hold only ${overHolding.quantity_strips} strips`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Request a Return to Godown</DialogTitle>
+          <DialogDescription>
+            The stock stays with you until an admin approves the request
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-80 overflow-y-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Expiry</TableHead>
+                  <TableHead className="text-right">In Hand</TableHead>
+                  <TableHead className="w-28">Return</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(holdings || []).length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                      You are not holding any stock
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  holdings!.map((holding) => (
+                    <TableRow key={holding.batch_id}>
+                      <TableCell>{holding.product_name}</TableCell>
+                      <TableCell className="font-mono text-sm">{holding.batch_number}</TableCell>
+                      <TableCell>{new Date(holding.expiry_date).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">{holding.quantity_strips}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={holding.quantity_strips}
+                          value={quantities[holding.batch_id] || ''}
+                          onChange={(e) => setQuantities({
+                            ...quantities,
+                            [holding.batch_id]: Math.max(0, parseInt(e.target.value) || 0),
+                          })}
+                          className="h-8"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return_reason">Reason <span className="text-red-400">*</span></Label>
+            <Textarea
+              id="return_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Near expiry, slow moving, damaged packs"
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={createMutation.isPending}>
+            {createMutation.isPending ? 'Sending...' : 'Send Request'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnRequestDialog;
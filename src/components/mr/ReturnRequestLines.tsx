@@ -0,0 +1,21 @@
+import React from 'react';
+import { ReturnRequestLine } from '@/lib/mrPortal';
+
+interface ReturnRequestLinesProps {
+  lines: ReturnRequestLine[];
+}
+
+// Compact "product · batch × strips" list shown inside the request tables
+const ReturnRequestLines = ({ lines }: ReturnRequestLinesProps) => (
+  <ul className="space-y-0.5 text-sm">
+    {lines.map((line) => (
+      <li key={line.id}>
+        {line.products?.product_name}
+        <span className="text-gray-500"> · {line.product_batches?.batch_number}</span>
+        <span className="font-medium"> × {line.quantity_strips}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+export default ReturnRequestLines;
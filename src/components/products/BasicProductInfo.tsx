@@ -9,6 +9,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Plus } from 'lucide-react';
 import { Database } from '@/integrations/supabase/types';
+import { GST_RATES } from '@/lib/gst';
 
 type PackagingTemplate = Database['public']['Tables']['packaging_templates']['Row'];
 
@@ -316,6 +317,34 @@ const BasicProductInfo = ({
             required
           />
         </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="hsn_code">HSN Code</Label>
+          <Input
+            id="hsn_code"
+            value={formData.hsn_code}
+            onChange={(e) => updateFormData({ hsn_code: e.target.value.replace(/\D/g, '') })}
+            placeholder="e.g., 3004"
+            maxLength={8}
+          />
+          <p className="text-xs text-gray-500">4, 6 or 8 digits as per the tariff</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="gst_rate">GST Rate (%)</Label>
+          <Select value={formData.gst_rate} onValueChange={(value) => updateFormData({ gst_rate: value })}>
+            <SelectTrigger id="gst_rate">
+              <SelectValue placeholder="Select GST rate" />
+            </SelectTrigger>
+            <SelectContent>
+              {GST_RATES.map((rate) => (
+                <SelectItem key={rate} value={rate.toString()}>
+                  {rate}%
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <Card className="bg-gray-50">
@@ -18,6 +18,7 @@ export interface ProductBatch {
   manufacturing_date: string;
   expiry_date: string;
   batch_cost_per_strip: number | null;
+  mrp_per_strip: number | null;
   status: string;
   notes: string | null;
   created_at: string;
@@ -35,6 +35,8 @@ interface ProductFormData {
   formulation_id: string;
   unit_of_measure_smallest: string;
   base_cost_per_strip: string;
+  hsn_code: string;
+  gst_rate: string;
   is_active: boolean;
   storage_conditions: string;
   image_url: string;
@@ -62,6 +64,8 @@ const ProductForm = () => {
     formulation_id: '',
     unit_of_measure_smallest: 'Strip',
     base_cost_per_strip: '',
+    hsn_code: '',
+    gst_rate: '0',
     is_active: true,
     storage_conditions: '',
     image_url: '',
@@ -138,6 +142,8 @@ const ProductForm = () => {
         formulation_id: product.formulation_id || '',
         unit_of_measure_smallest: product.unit_of_measure_smallest || 'Strip',
         base_cost_per_strip: product.base_cost_per_strip?.toString() || '',
+        hsn_code: product.hsn_code || '',
+        gst_rate: product.gst_rate?.toString() || '0',
         is_active: product.is_active ?? true,
         storage_conditions: product.storage_conditions || '',
         image_url: product.image_url || '',
@@ -162,6 +168,8 @@ const ProductForm = () => {
       const productDataToSave = {
         ...productFields,
         base_cost_per_strip: parseFloat(productFields.base_cost_per_strip) || 0,
+        hsn_code: productFields.hsn_code || null,
+        gst_rate: parseFloat(productFields.gst_rate) || 0,
         min_stock_level_godown: parseInt(productFields.min_stock_level_godown) || 0,
         min_stock_level_mr: parseInt(productFields.min_stock_level_mr) || 0,
         lead_time_days: parseInt(productFields.lead_time_days) || 0,
@@ -254,6 +262,16 @@ const ProductForm = () => {
       return;
     }
 
+    if (formData.hsn_code && ![4, 6, 8].includes(formData.hsn_code.length)) {
+      toast({
+        title: "Validation Error",
+        description: "HSN code must be 4, 6 or 8 digits.",
+        variant: "destructive",
+      });
+      setActiveTab('basic');
+      return;
+    }
+
     saveProductMutation.mutate(formData);
   };
 
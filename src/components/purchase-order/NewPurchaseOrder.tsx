@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus } from 'lucide-react';
+import PurchaseOrderLineItem from '@/components/purchase-order/PurchaseOrderLineItem';
+import { createPurchaseOrder, getExpectedDeliveryDate } from '@/lib/purchaseOrders';
+import { PurchaseOrderLineInput } from '@/types/stock';
+
+interface PurchaseOrderLine extends PurchaseOrderLineInput {
+  id: string;
+}
+
+const NewPurchaseOrder = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { profile } = useAuth();
+
+  const [formData, setFormData] = useState({
+    supplier_id: '',
+    order_date: new Date().toISOString().split('T')[0],
+    expected_delivery_date: '',
+    notes: '',
+  });
+  // Expected delivery follows product lead times until it is set by hand
+  const [isDeliveryDateEdited, setIsDeliveryDateEdited] = useState(false);
+  const [lineItems, setLineItems] = useState<PurchaseOrderLine[]>([]);
+
+  // Fetch suppliers
+  const { data: suppliers } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('is_active', true)
+        .order('supplier_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Fetch products with lead times
+  const { data: products } = useQuery({
+    queryKey: ['products-for-purchase-order'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name, product_code, base_cost_per_strip, lead_time_days')
+        .eq('is_active', true)
+        .order('product_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const suggestedDeliveryDate = getExpectedDeliveryDate(
+    formData.order_date,
+    lineItems.map(item => products?.find(p => p.id === item.product_id)?.lead_time_days || 0)
+  );
+  const expectedDeliveryDate = isDeliveryDateEdited ? formData.expected_delivery_date : suggestedDeliveryDate;
+
+  const saveMutation = useMutation({
+    mutationFn: () => createPurchaseOrder({
+      supplierId: formData.supplier_id,
+      orderDate: formData.order_date,
+      expectedDeliveryDate,
+      notes: formData.notes,
+      lines: lineItems,
+      userId: profile?.user_id,
+    }),
+    onSuccess: (order) => {
+      toast({
+        title: "Success",
+        description: `Purchase order ${order.po_number} created`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      navigate(`/admin/stock/purchase-orders/${order.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to create purchase order",
+        variant: "destructive",
+      });
+      console.error('Error creating purchase order:', error);
+    },
+  });
+
+  const addLineItem = () => {
+    setLineItems([...lineItems, {
+      id: crypto.randomUUID(),
+      product_id: '',
+      unit_id: '',
+      quantity: 0,
+      quantity_strips: 0,
+      cost_per_strip: 0,
+      notes: '',
+    }]);
+  };
+
+  const updateLineItem = (id: string, updates: Partial<PurchaseOrderLineInput>) => {
+    setLineItems(lineItems.map(item => item.id === id ? { ...item, ...updates } : item));
+  };
+
+  const handleSave = () => {
+    if (!formData.supplier_id || lineItems.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please select a supplier and add at least one line item",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (lineItems.some(item => !item.product_id || !item.unit_id || item.quantity_strips <= 0 || item.cost_per_strip <= 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Every line needs a product, unit, quantity and agreed cost per strip",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const totalValue = lineItems.reduce((sum, item) => sum + item.quantity_strips * item.cost_per_strip, 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">New Purchase Order</h1>
+        <p className="text-gray-600 mt-1">Order stock from a supplier at an agreed cost</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Order Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier *</Label>
+              <Select
+                value={formData.supplier_id}
+                onValueChange={(value) => setFormData({ ...formData, supplier_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose supplier..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers?.map(supplier => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.supplier_name} {supplier.supplier_code && `(${supplier.supplier_code})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order_date">Order Date *</Label>
+              <Input
+                id="order_date"
+                type="date"
+                value={formData.order_date}
+                onChange={(e) => setFormData({ ...formData, order_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expected_delivery_date">Expected Delivery</Label>
+              <Input
+                id="expected_delivery_date"
+                type="date"
+                value={expectedDeliveryDate}
+                onChange={(e) => {
+                  setIsDeliveryDateEdited(true);
+                  setFormData({ ...formData, expected_delivery_date: e.target.value });
+                }}
+              />
+              {!isDeliveryDateEdited && (
+                <p className="text-xs text-gray-500">From the longest product lead time</p>
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">Order Lines</CardTitle>
+            <Button onClick={addLineItem} size="sm" className="bg-green-600 hover:bg-green-700 text-white">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Product
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {lineItems.length === 0 ? (
+            <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-xl text-gray-500">
+              No products added yet
+            </div>
+          ) : (
+            lineItems.map(item => (
+              <div key={item.id} className="border border-gray-200 rounded-xl p-4 bg-gray-50">
+                <PurchaseOrderLineItem
+                  item={item}
+                  products={products || []}
+                  onUpdate={(updates) => updateLineItem(item.id, updates)}
+                  onRemove={() => setLineItems(lineItems.filter(line => line.id !== item.id))}
+                />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="bg-white rounded-xl border border-gray-200 p-6 flex items-center justify-between">
+        <div className="text-sm text-gray-600">
+          <span className="font-medium">Order Value:</span> ₹{totalValue.toFixed(2)}
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" onClick={() => navigate('/admin/stock/purchase-orders')}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending || lineItems.length === 0}>
+            {saveMutation.isPending ? 'Saving...' : 'Create Purchase Order'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewPurchaseOrder;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { PurchaseOrderLineInput } from '@/types/stock';
+
+export interface PurchaseOrderProduct {
+  id: string;
+  product_name: string;
+  product_code: string;
+  base_cost_per_strip: number;
+  lead_time_days: number | null;
+}
+
+interface PurchaseOrderLineItemProps {
+  item: PurchaseOrderLineInput;
+  products: PurchaseOrderProduct[];
+  onUpdate: (updates: Partial<PurchaseOrderLineInput>) => void;
+  onRemove: () => void;
+}
+
+const PurchaseOrderLineItem = ({ item, products, onUpdate, onRemove }: PurchaseOrderLineItemProps) => {
+  // Fetch packaging units for selected product
+  const { data: packagingUnits } = useQuery({
+    queryKey: ['packaging-units', item.product_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('product_packaging_units')
+        .select('*')
+        .eq('product_id', item.product_id)
+        .order('order_in_hierarchy');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!item.product_id,
+  });
+
+  const getConversionFactor = (unitId: string) =>
+    packagingUnits?.find(unit => unit.id === unitId)?.conversion_factor_to_strips || 1;
+
+  const handleProductChange = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    onUpdate({
+      product_id: productId,
+      unit_id: '',
+      quantity: 0,
+      quantity_strips: 0,
+      cost_per_strip: product?.base_cost_per_strip || 0,
+    });
+  };
+
+  const handleUnitChange = (unitId: string) => {
+    onUpdate({ unit_id: unitId, quantity_strips: item.quantity * getConversionFactor(unitId) });
+  };
+
+  const handleQuantityChange = (quantity: number) => {
+    onUpdate({ quantity, quantity_strips: quantity * getConversionFactor(item.unit_id) });
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+      <div className="space-y-1 md:col-span-2">
+        <Label className="text-xs font-medium text-gray-600">Product *</Label>
+        <Select value={item.product_id} onValueChange={handleProductChange}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue placeholder="Select product" />
+          </SelectTrigger>
+          <SelectContent>
+            {products.map(product => (
+              <SelectItem key={product.id} value={product.id}>
+                {product.product_name} ({product.product_code})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs font-medium text-gray-600">Unit *</Label>
+        <Select value={item.unit_id} onValueChange={handleUnitChange} disabled={!item.product_id}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue placeholder="Select unit" />
+          </SelectTrigger>
+          <SelectContent>
+            {packagingUnits?.map(unit => (
+              <SelectItem key={unit.id} value={unit.id}>
+                {unit.unit_name} ({unit.conversion_factor_to_strips})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs font-medium text-gray-600">Qty * ({item.quantity_strips} strips)</Label>
+        <Input
+          type="number"
+          min="1"
+          value={item.quantity || ''}
+          onChange={(e) => handleQuantityChange(parseFloat(e.target.value) || 0)}
+          className="h-8 text-sm"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs font-medium text-gray-600">Agreed Cost/Strip *</Label>
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          value={item.cost_per_strip || ''}
+          onChange={(e) => onUpdate({ cost_per_strip: parseFloat(e.target.value) || 0 })}
+          className="h-8 text-sm"
+        />
+      </div>
+      <div className="flex items-end justify-between gap-2">
+        <div className="text-sm text-gray-600 pb-1">
+          ₹{(item.quantity_strips * item.cost_per_strip).toFixed(2)}
+        </div>
+        <Button variant="outline" size="sm" onClick={onRemove} className="h-8 text-red-600 hover:text-red-700">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderLineItem;
@@ -13,6 +13,23 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import ReceiptLineItem from '@/components/purchase/PurchaseLineItem';
 import BatchModal from '@/components/batches/BatchModal';
+import PurchaseInvoiceCosting, { PurchaseInvoiceDetails } from '@/components/purchase/PurchaseInvoiceCosting';
+import DocumentNumberField from '@/components/documents/DocumentNumberField';
+import {
+  calculatePurchaseCosts,
+  fetchPurchaseInvoice,
+  getPurchaseCostingError,
+  savePurchaseInvoice,
+  summarizePurchaseCosts,
+} from '@/lib/purchaseCosting';
+import {
+  calculateLineTax,
+  fetchCompanyProfile,
+  fetchProductTaxRates,
+  getGstinStateCode,
+  isInterStateSupply,
+  summarizeTax,
+} from '@/lib/gst';
 
 interface ReceiptLineItem {
   id: string;
@@ -20,9 +37,12 @@ interface ReceiptLineItem {
   batch_id: string;
   quantity: number;
   unit_id: string;
-  quantity_strips: number;
-  cost_per_strip: number;
+  quantity_strips: number; // Paid strips; free strips are added on save
+  invoice_rate_per_strip: number;
+  discount_percent: number;
+  free_strips: number;
   notes: string;
+  purchase_order_line_id?: string | null;
 }
 
 interface EditPurchaseProps {
@@ -50,6 +70,11 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
   const [selectedProductId, setSelectedProductId] = useState<string>('');
   const [showReceiptNotes, setShowReceiptNotes] = useState(false);
   const [expandedLineItems, setExpandedLineItems] = useState<Set<string>>(new Set());
+  const [invoice, setInvoice] = useState<PurchaseInvoiceDetails>({
+    supplier_invoice_number: '',
+    invoice_amount: 0,
+    freight_amount: 0,
+  });
 
   // Fetch receipt details
   const { data: receiptDetails, isLoading } = useQuery({
@@ -85,6 +110,13 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
     enabled: !!id,
   });
 
+  // Invoice totals; GRNs saved before invoice costing have none
+  const { data: purchaseInvoice } = useQuery({
+    queryKey: ['purchase-invoice', id],
+    queryFn: () => fetchPurchaseInvoice(id!),
+    enabled: !!id,
+  });
+
   // Fetch suppliers
   const { data: suppliers } = useQuery({
     queryKey: ['suppliers'],
@@ -118,18 +150,15 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
   // Update form data when receipt details are loaded
   useEffect(() => {
     if (receiptDetails) {
-      // Find supplier by name
-      const supplier = suppliers?.find(s => s.supplier_name === receiptDetails.supplier_id);
-      
       setFormData({
-        supplier_id: supplier?.id || '',
+        supplier_id: receiptDetails.supplier_id || '',
         grn_number: receiptDetails.reference_document_id || '',
         receipt_date: receiptDetails.purchase_date ? 
           new Date(receiptDetails.purchase_date).toISOString().split('T')[0] : '',
         notes: receiptDetails.notes || '',
       });
     }
-  }, [receiptDetails, suppliers]);
+  }, [receiptDetails]);
 
   // Update line items when existing line items are loaded
   useEffect(() => {
@@ -140,21 +169,57 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
         batch_id: item.batch_id || '',
         quantity: 0, // This will be calculated from quantity_strips and unit conversion
         unit_id: '', // This needs to be fetched based on the product
-        quantity_strips: item.quantity_strips || 0,
-        cost_per_strip: item.cost_per_strip || 0,
+        quantity_strips: (item.quantity_strips || 0) - (item.free_strips || 0),
+        invoice_rate_per_strip: item.invoice_rate_per_strip ?? item.cost_per_strip ?? 0,
+        discount_percent: item.discount_percent || 0,
+        free_strips: item.free_strips || 0,
         notes: item.notes || '',
+        purchase_order_line_id: item.purchase_order_line_id,
       }));
       setLineItems(formattedLineItems);
     }
   }, [existingLineItems]);
 
+  useEffect(() => {
+    if (purchaseInvoice) {
+      setInvoice({
+        supplier_invoice_number: purchaseInvoice.supplier_invoice_number || '',
+        invoice_amount: purchaseInvoice.invoice_amount,
+        freight_amount: purchaseInvoice.freight_amount,
+      });
+    }
+  }, [purchaseInvoice]);
+
+  const lineCosts = calculatePurchaseCosts(lineItems, invoice.freight_amount);
+  const costSummary = summarizePurchaseCosts(lineCosts);
+
+  // GST on each line's landed value; the supplier's state decides CGST + SGST or IGST
+  const { data: companyProfile } = useQuery({
+    queryKey: ['company-profile'],
+    queryFn: fetchCompanyProfile,
+  });
+
+  const { data: productTaxRates } = useQuery({
+    queryKey: ['product-tax-rates'],
+    queryFn: fetchProductTaxRates,
+  });
+
+  const selectedSupplier = suppliers?.find(supplier => supplier.id === formData.supplier_id);
+  const legacySupplierName = receiptDetails?.legacy_supplier_name || null;
+  const interState = isInterStateSupply(
+    companyProfile?.state_code,
+    selectedSupplier?.state_code || getGstinStateCode(selectedSupplier?.gstin)
+  );
+  const lineTaxes = lineItems.map((item, index) =>
+    calculateLineTax(lineCosts[index].landed_value, productTaxRates?.get(item.product_id), interState)
+  );
+  const taxTotals = summarizeTax(lineTaxes);
+
   // Update receipt mutation
   const updateReceiptMutation = useMutation({
     mutationFn: async () => {
       if (!id) throw new Error('Receipt ID is required');
       
-      const supplier = suppliers?.find(s => s.id === formData.supplier_id);
-      
       // First, delete existing line items
       const { error: deleteError } = await supabase
         .from('stock_purchases')
@@ -163,17 +228,24 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
 
       if (deleteError) throw deleteError;
 
-      // Then insert updated line items
-      const purchases = lineItems.map(item => ({
+      // Then insert updated line items; the database gives them back the GRN number of the group
+      const purchases = lineItems.map((item, index) => ({
         purchase_group_id: id,
         product_id: item.product_id,
         batch_id: item.batch_id,
-        quantity_strips: item.quantity_strips,
-        supplier_id: supplier?.supplier_name || formData.supplier_id,
+        quantity_strips: lineCosts[index].received_strips,
+        free_strips: item.free_strips || 0,
+        invoice_rate_per_strip: item.invoice_rate_per_strip,
+        discount_percent: item.discount_percent || 0,
+        freight_amount: lineCosts[index].freight_amount,
+        // GRNs from before suppliers were linked keep their supplier text until one is chosen
+        supplier_id: formData.supplier_id || null,
+        legacy_supplier_name: formData.supplier_id ? null : legacySupplierName,
         purchase_date: formData.receipt_date,
-        reference_document_id: formData.grn_number,
-        cost_per_strip: item.cost_per_strip,
+        cost_per_strip: lineCosts[index].landed_cost_per_strip,
+        ...lineTaxes[index],
         notes: item.notes || formData.notes,
+        purchase_order_line_id: item.purchase_order_line_id || null,
         created_by: profile?.user_id,
       }));
 
@@ -182,6 +254,14 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
         .insert(purchases);
 
       if (insertError) throw insertError;
+
+      await savePurchaseInvoice({
+        purchaseGroupId: id,
+        supplierInvoiceNumber: invoice.supplier_invoice_number,
+        invoiceAmount: invoice.invoice_amount,
+        freightAmount: invoice.freight_amount,
+        userId: profile?.user_id,
+      });
     },
     onSuccess: () => {
       toast({
@@ -191,6 +271,8 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
       queryClient.invalidateQueries({ queryKey: ['stock-purchases'] });
       queryClient.invalidateQueries({ queryKey: ['stock-receipt-details', id] });
       queryClient.invalidateQueries({ queryKey: ['purchase-line-items', id] });
+      queryClient.invalidateQueries({ queryKey: ['purchase-invoice', id] });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
       if (onClose) {
         onClose();
       } else {
@@ -215,7 +297,9 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
       quantity: 0,
       unit_id: '',
       quantity_strips: 0,
-      cost_per_strip: 0,
+      invoice_rate_per_strip: 0,
+      discount_percent: 0,
+      free_strips: 0,
       notes: '',
     };
     setLineItems([...lineItems, newItem]);
@@ -244,7 +328,7 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
   };
 
   const handleSave = () => {
-    if (!formData.supplier_id || !formData.grn_number || lineItems.length === 0) {
+    if ((!formData.supplier_id && !legacySupplierName) || lineItems.length === 0) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields and add at least one line item",
@@ -253,6 +337,16 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
       return;
     }
 
+    const costingErrorIndex = lineItems.findIndex((item, index) => getPurchaseCostingError(item, lineCosts[index]));
+    if (costingErrorIndex >= 0) {
+      toast({
+        title: "Validation Error",
+        description: `Line ${costingErrorIndex + 1}: ${getPurchaseCostingError(lineItems[costingErrorIndex], lineCosts[costingErrorIndex])}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     updateReceiptMutation.mutate();
   };
 
@@ -374,7 +468,7 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
                   onValueChange={(value) => setFormData({...formData, supplier_id: value})}
                 >
                   <SelectTrigger className="h-10 rounded-lg">
-                    <SelectValue placeholder="Choose supplier..." />
+                    <SelectValue placeholder={legacySupplierName || "Choose supplier..."} />
                   </SelectTrigger>
                   <SelectContent className="rounded-lg">
                     {suppliers?.map((supplier) => (
@@ -389,18 +483,13 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="grn_number" className="text-sm font-medium text-gray-700">
-                  GRN Number <span className="text-red-400">*</span>
-                </Label>
-                <Input
-                  id="grn_number"
-                  value={formData.grn_number}
-                  onChange={(e) => setFormData({...formData, grn_number: e.target.value})}
-                  placeholder="e.g., GRN-2024-001"
-                  className="h-10 rounded-lg"
-                />
-              </div>
+              <DocumentNumberField
+                id="grn_number"
+                label="GRN Number"
+                documentType="GRN"
+                date={formData.receipt_date}
+                assignedNumber={formData.grn_number}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="receipt_date" className="text-sm font-medium text-gray-700">
@@ -510,6 +599,7 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
                     </div>
                     <ReceiptLineItem
                       item={item}
+                      landedCostPerStrip={lineCosts[index].landed_cost_per_strip}
                       onUpdate={(updates) => updateLineItem(item.id, updates)}
                       onRemove={() => removeLineItem(item.id)}
                       onCreateBatch={(productId) => {
@@ -540,6 +630,15 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
           </CardContent>
         </Card>
 
+        {lineItems.length > 0 && (
+          <PurchaseInvoiceCosting
+            invoice={invoice}
+            summary={costSummary}
+            tax={taxTotals}
+            onChange={(updates) => setInvoice({ ...invoice, ...updates })}
+          />
+        )}
+
         {/* Summary and Actions */}
         <div className="bg-white rounded-xl border border-gray-200 p-6">
           <div className="flex items-center justify-between">
@@ -549,8 +648,8 @@ const EditPurchase = ({ purchaseId, onClose }: EditPurchaseProps = {}) => {
               </div>
               {lineItems.length > 0 && (
                 <div className="text-sm text-gray-600">
-                  <span className="font-medium">Total Cost:</span> $
-                  {lineItems.reduce((sum, item) => sum + (item.quantity_strips * item.cost_per_strip), 0).toFixed(2)}
+                  <span className="font-medium">Landed Cost:</span> ₹
+                  {costSummary.landed_value.toFixed(2)}
                 </div>
               )}
             </div>
@@ -8,11 +8,28 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { Plus, Trash2, ArrowLeft, ChevronDown, ChevronUp } from 'lucide-react';
+import { Plus, Trash2, ArrowLeft, ChevronDown, ChevronUp, AlertTriangle } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import ReceiptLineItem from '@/components/purchase/PurchaseLineItem';
 import BatchModal from '@/components/batches/BatchModal';
+import PurchaseInvoiceCosting, { PurchaseInvoiceDetails } from '@/components/purchase/PurchaseInvoiceCosting';
+import DocumentNumberField from '@/components/documents/DocumentNumberField';
+import { fetchOpenPurchaseOrderLines, getReceiptVariances } from '@/lib/purchaseOrders';
+import {
+  calculatePurchaseCosts,
+  getPurchaseCostingError,
+  savePurchaseInvoice,
+  summarizePurchaseCosts,
+} from '@/lib/purchaseCosting';
+import {
+  calculateLineTax,
+  fetchCompanyProfile,
+  fetchProductTaxRates,
+  getGstinStateCode,
+  isInterStateSupply,
+  summarizeTax,
+} from '@/lib/gst';
 
 interface ReceiptLineItem {
   id: string;
@@ -20,9 +37,12 @@ interface ReceiptLineItem {
   batch_id: string;
   quantity: number;
   unit_id: string;
-  quantity_strips: number;
-  cost_per_strip: number;
+  quantity_strips: number; // Paid strips; free strips are added on save
+  invoice_rate_per_strip: number;
+  discount_percent: number;
+  free_strips: number;
   notes: string;
+  purchase_order_line_id?: string | null;
 }
 
 interface NewPurchaseProps {
@@ -37,7 +57,6 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
 
   const [formData, setFormData] = useState({
     supplier_id: '',
-    grn_number: '',
     receipt_date: new Date().toISOString().split('T')[0],
     notes: '',
   });
@@ -47,6 +66,12 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
   const [selectedProductId, setSelectedProductId] = useState<string>('');
   const [showReceiptNotes, setShowReceiptNotes] = useState(false);
   const [expandedLineItems, setExpandedLineItems] = useState<Set<string>>(new Set());
+  const [purchaseOrderId, setPurchaseOrderId] = useState('');
+  const [invoice, setInvoice] = useState<PurchaseInvoiceDetails>({
+    supplier_invoice_number: '',
+    invoice_amount: 0,
+    freight_amount: 0,
+  });
 
   // Fetch suppliers
   const { data: suppliers } = useQuery({
@@ -62,6 +87,43 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
     },
   });
 
+  // Fetch outstanding lines of the supplier's open purchase orders
+  const { data: openPurchaseOrderLines } = useQuery({
+    queryKey: ['purchase-orders', 'open-lines', formData.supplier_id],
+    queryFn: () => fetchOpenPurchaseOrderLines(formData.supplier_id),
+    enabled: !!formData.supplier_id,
+  });
+
+  const openPurchaseOrders = (openPurchaseOrderLines || []).filter((line, index, lines) =>
+    lines.findIndex(other => other.purchase_order_id === line.purchase_order_id) === index
+  );
+  const receiptVariances = getReceiptVariances(openPurchaseOrderLines || [], lineItems)
+    .filter(variance => variance.variance_strips !== 0);
+
+  const lineCosts = calculatePurchaseCosts(lineItems, invoice.freight_amount);
+  const costSummary = summarizePurchaseCosts(lineCosts);
+
+  // GST on each line's landed value; the supplier's state decides CGST + SGST or IGST
+  const { data: companyProfile } = useQuery({
+    queryKey: ['company-profile'],
+    queryFn: fetchCompanyProfile,
+  });
+
+  const { data: productTaxRates } = useQuery({
+    queryKey: ['product-tax-rates'],
+    queryFn: fetchProductTaxRates,
+  });
+
+  const selectedSupplier = suppliers?.find(supplier => supplier.id === formData.supplier_id);
+  const interState = isInterStateSupply(
+    companyProfile?.state_code,
+    selectedSupplier?.state_code || getGstinStateCode(selectedSupplier?.gstin)
+  );
+  const lineTaxes = lineItems.map((item, index) =>
+    calculateLineTax(lineCosts[index].landed_value, productTaxRates?.get(item.product_id), interState)
+  );
+  const taxTotals = summarizeTax(lineTaxes);
+
   // Fetch product data for BatchModal
   const { data: selectedProduct } = useQuery({
     queryKey: ['product-for-batch', selectedProductId],
@@ -82,34 +144,52 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
   const savePurchaseMutation = useMutation({
     mutationFn: async () => {
       const purchase_group_id = crypto.randomUUID();
-      const supplier = suppliers?.find(s => s.id === formData.supplier_id);
-      
-      const purchases = lineItems.map(item => ({
+      const purchases = lineItems.map((item, index) => ({
         purchase_group_id,
         product_id: item.product_id,
         batch_id: item.batch_id,
-        quantity_strips: item.quantity_strips,
-        supplier_id: supplier?.supplier_name || formData.supplier_id,
+        quantity_strips: lineCosts[index].received_strips,
+        free_strips: item.free_strips || 0,
+        invoice_rate_per_strip: item.invoice_rate_per_strip,
+        discount_percent: item.discount_percent || 0,
+        freight_amount: lineCosts[index].freight_amount,
+        supplier_id: formData.supplier_id,
         purchase_date: formData.receipt_date,
-        reference_document_id: formData.grn_number,
-        cost_per_strip: item.cost_per_strip,
+        cost_per_strip: lineCosts[index].landed_cost_per_strip,
+        ...lineTaxes[index],
         notes: item.notes || formData.notes,
+        purchase_order_line_id: item.purchase_order_line_id || null,
         created_by: profile?.user_id,
       }));
 
-      const { error } = await supabase
+      await savePurchaseInvoice({
+        purchaseGroupId: purchase_group_id,
+        supplierInvoiceNumber: invoice.supplier_invoice_number,
+        invoiceAmount: invoice.invoice_amount,
+        freightAmount: invoice.freight_amount,
+        userId: profile?.user_id,
+      });
+
+      // The database numbers the GRN as the lines are inserted
+      const { data, error } = await supabase
         .from('stock_purchases')
-        .insert(purchases);
+        .insert(purchases)
+        .select('reference_document_id');
 
-      if (error) throw error;
-      return purchases;
+      if (error) {
+        await supabase.from('purchase_invoices').delete().eq('purchase_group_id', purchase_group_id);
+        throw error;
+      }
+      return data?.[0]?.reference_document_id;
     },
-    onSuccess: () => {
+    onSuccess: (grnNumber) => {
       toast({
         title: "Success",
-        description: "Stock purchase saved successfully",
+        description: `Stock purchase saved as GRN ${grnNumber}`,
       });
       queryClient.invalidateQueries({ queryKey: ['stock-purchases'] });
+      queryClient.invalidateQueries({ queryKey: ['document-number-preview'] });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
       if (onClose) {
         onClose();
       } else {
@@ -134,7 +214,9 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
       quantity: 0,
       unit_id: '',
       quantity_strips: 0,
-      cost_per_strip: 0,
+      invoice_rate_per_strip: 0,
+      discount_percent: 0,
+      free_strips: 0,
       notes: '',
     };
     setLineItems([...lineItems, newItem]);
@@ -150,6 +232,37 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
     ));
   };
 
+  const handleSupplierChange = (supplierId: string) => {
+    setFormData({...formData, supplier_id: supplierId});
+    // Lines prefilled from another supplier's PO no longer apply
+    setPurchaseOrderId('');
+    setLineItems(lineItems.filter(item => !item.purchase_order_line_id));
+  };
+
+  const receiveAgainstPurchaseOrder = (poId: string) => {
+    setPurchaseOrderId(poId);
+    const poLines = (openPurchaseOrderLines || [])
+      .filter(line => line.purchase_order_id === poId && line.outstanding_strips > 0)
+      .map(line => {
+        // Keep the ordered unit when the outstanding quantity is a whole number of it
+        const inOrderedUnit = line.outstanding_strips % line.conversion_factor_to_strips === 0;
+        return {
+          id: crypto.randomUUID(),
+          product_id: line.product_id,
+          batch_id: '',
+          quantity: inOrderedUnit ? line.outstanding_strips / line.conversion_factor_to_strips : line.outstanding_strips,
+          unit_id: inOrderedUnit ? line.unit_id : '',
+          quantity_strips: line.outstanding_strips,
+          invoice_rate_per_strip: Number(line.cost_per_strip),
+          discount_percent: 0,
+          free_strips: 0,
+          notes: '',
+          purchase_order_line_id: line.id,
+        };
+      });
+    setLineItems([...lineItems.filter(item => !item.purchase_order_line_id), ...poLines]);
+  };
+
   const toggleLineItemNotes = (id: string) => {
     const newExpanded = new Set(expandedLineItems);
     if (newExpanded.has(id)) {
@@ -161,7 +274,7 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
   };
 
   const handleSave = () => {
-    if (!formData.supplier_id || !formData.grn_number || lineItems.length === 0) {
+    if (!formData.supplier_id || lineItems.length === 0) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields and add at least one line item",
@@ -170,6 +283,16 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
       return;
     }
 
+    const costingErrorIndex = lineItems.findIndex((item, index) => getPurchaseCostingError(item, lineCosts[index]));
+    if (costingErrorIndex >= 0) {
+      toast({
+        title: "Validation Error",
+        description: `Line ${costingErrorIndex + 1}: ${getPurchaseCostingError(lineItems[costingErrorIndex], lineCosts[costingErrorIndex])}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     savePurchaseMutation.mutate();
   };
 
@@ -261,7 +384,7 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
                 </Label>
                 <Select 
                   value={formData.supplier_id} 
-                  onValueChange={(value) => setFormData({...formData, supplier_id: value})}
+                  onValueChange={handleSupplierChange}
                 >
                   <SelectTrigger className="h-9 rounded-lg">
                     <SelectValue placeholder="Choose supplier..." />
@@ -279,18 +402,12 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="grn_number" className="text-sm font-medium text-gray-700">
-                  GRN Number <span className="text-red-400">*</span>
-                </Label>
-                <Input
-                  id="grn_number"
-                  value={formData.grn_number}
-                  onChange={(e) => setFormData({...formData, grn_number: e.target.value})}
-                  placeholder="e.g., GRN-2024-001"
-                  className="h-9 rounded-lg"
-                />
-              </div>
+              <DocumentNumberField
+                id="grn_number"
+                label="GRN Number"
+                documentType="GRN"
+                date={formData.receipt_date}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="receipt_date" className="text-sm font-medium text-gray-700">
@@ -320,6 +437,24 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
               </div>
             </div>
 
+            {formData.supplier_id && openPurchaseOrders.length > 0 && (
+              <div className="space-y-2 pt-2 lg:w-1/2">
+                <Label className="text-sm font-medium text-gray-700">Receive against PO</Label>
+                <Select value={purchaseOrderId} onValueChange={receiveAgainstPurchaseOrder}>
+                  <SelectTrigger className="h-9 rounded-lg">
+                    <SelectValue placeholder="Choose an open purchase order (optional)..." />
+                  </SelectTrigger>
+                  <SelectContent className="rounded-lg">
+                    {openPurchaseOrders.map(order => (
+                      <SelectItem key={order.purchase_order_id} value={order.purchase_order_id}>
+                        {order.po_number} · {new Date(order.order_date).toLocaleDateString()} · {order.status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {showReceiptNotes && (
               <div className="space-y-2 pt-2">
                 <Textarea
@@ -392,6 +527,7 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
                     <div className="border border-gray-200 rounded-xl p-4 bg-gray-50">
                       <ReceiptLineItem
                         item={item}
+                        landedCostPerStrip={lineCosts[index].landed_cost_per_strip}
                         onUpdate={(updates) => updateLineItem(item.id, updates)}
                         onRemove={() => removeLineItem(item.id)}
                         onCreateBatch={(productId) => {
@@ -423,6 +559,34 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
           </CardContent>
         </Card>
 
+        {lineItems.length > 0 && (
+          <PurchaseInvoiceCosting
+            invoice={invoice}
+            summary={costSummary}
+            tax={taxTotals}
+            onChange={(updates) => setInvoice({ ...invoice, ...updates })}
+          />
+        )}
+
+        {/* Variances against the purchase order */}
+        {receiptVariances.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 space-y-1">
+            <div className="flex items-center gap-2 font-medium text-amber-800">
+              <AlertTriangle className="h-4 w-4" />
+              Receipt differs from the purchase order
+            </div>
+            {receiptVariances.map(variance => (
+              <p key={variance.purchase_order_line_id} className="text-sm text-amber-700">
+                {variance.po_number} · {variance.product_name}: ordered {variance.ordered_strips} strips,
+                {' '}{variance.previously_received_strips + variance.receiving_strips} received with this GRN
+                {' '}({variance.variance_strips > 0
+                  ? `${variance.variance_strips} over-received`
+                  : `${-variance.variance_strips} still outstanding`})
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* Summary and Actions */}
         <div className="bg-white rounded-xl border border-gray-200 p-6">
           <div className="flex items-center justify-between">
@@ -432,8 +596,8 @@ const NewPurchase = ({ onClose }: NewPurchaseProps = {}) => {
               </div>
               {lineItems.length > 0 && (
                 <div className="text-sm text-gray-600">
-                  <span className="font-medium">Total Cost:</span> $
-                  {lineItems.reduce((sum, item) => sum + (item.quantity_strips * item.cost_per_strip), 0).toFixed(2)}
+                  <span className="font-medium">Landed Cost:</span> ₹
+                  {costSummary.landed_value.toFixed(2)}
                 </div>
               )}
             </div>
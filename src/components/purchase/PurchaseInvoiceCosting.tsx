@@ -0,0 +1,130 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle } from 'lucide-react';
+import { PurchaseCostSummary, TaxTotals } from '@/types/stock';
+
+export interface PurchaseInvoiceDetails {
+  supplier_invoice_number: string;
+  invoice_amount: number;
+  freight_amount: number;
+}
+
+interface PurchaseInvoiceCostingProps {
+  invoice: PurchaseInvoiceDetails;
+  summary: PurchaseCostSummary;
+  tax: TaxTotals;
+  onChange: (updates: Partial<PurchaseInvoiceDetails>) => void;
+}
+
+const formatAmount = (value: number) => `₹${value.toFixed(2)}`;
+
+const PurchaseInvoiceCosting = ({ invoice, summary, tax, onChange }: PurchaseInvoiceCostingProps) => {
+  // What the lines, freight and GST add up to, against the supplier's invoice total
+  const invoiceTotal = Math.round((summary.landed_value + tax.tax_amount) * 100) / 100;
+  const difference = Math.round((invoice.invoice_amount - invoiceTotal) * 100) / 100;
+  const showDifference = invoice.invoice_amount > 0 && difference !== 0;
+
+  return (
+    <Card className="shadow-lg border-0 bg-white rounded-xl">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-gray-900">Invoice Costing</CardTitle>
+        <p className="text-sm text-gray-500 mt-1">
+          Freight is shared across lines by net value; free strips are averaged into each line's landed cost.
+          GST is charged on the landed value and kept out of stock cost as input credit
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="supplier_invoice_number" className="text-sm font-medium text-gray-700">Supplier Invoice No.</Label>
+            <Input
+              id="supplier_invoice_number"
+              value={invoice.supplier_invoice_number}
+              onChange={(e) => onChange({ supplier_invoice_number: e.target.value })}
+              placeholder="As printed on the invoice"
+              className="h-9 rounded-lg"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice_amount" className="text-sm font-medium text-gray-700">Invoice Amount</Label>
+            <Input
+              id="invoice_amount"
+              type="number"
+              value={invoice.invoice_amount}
+              onChange={(e) => onChange({ invoice_amount: Number(e.target.value) })}
+              min="0"
+              step="0.01"
+              className="h-9 rounded-lg"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="freight_amount" className="text-sm font-medium text-gray-700">Freight</Label>
+            <Input
+              id="freight_amount"
+              type="number"
+              value={invoice.freight_amount}
+              onChange={(e) => onChange({ freight_amount: Number(e.target.value) })}
+              min="0"
+              step="0.01"
+              className="h-9 rounded-lg"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Gross</p>
+            <p className="font-medium">{formatAmount(summary.gross_value)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Discount</p>
+            <p className="font-medium text-green-700">-{formatAmount(summary.discount_value)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Net of Discount</p>
+            <p className="font-medium">{formatAmount(summary.net_value)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Freight Allocated</p>
+            <p className="font-medium">{formatAmount(summary.freight_amount)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Landed Value</p>
+            <p className="font-semibold">{formatAmount(summary.landed_value)}</p>
+          </div>
+          {tax.igst_amount > 0 ? (
+            <div>
+              <p className="text-gray-500">IGST</p>
+              <p className="font-medium">{formatAmount(tax.igst_amount)}</p>
+            </div>
+          ) : (
+            <div>
+              <p className="text-gray-500">CGST + SGST</p>
+              <p className="font-medium">{formatAmount(tax.cgst_amount)} + {formatAmount(tax.sgst_amount)}</p>
+            </div>
+          )}
+          <div>
+            <p className="text-gray-500">Total GST</p>
+            <p className="font-medium">{formatAmount(tax.tax_amount)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Invoice Total</p>
+            <p className="font-semibold">{formatAmount(invoiceTotal)}</p>
+          </div>
+        </div>
+
+        {showDifference && (
+          <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            Lines, freight and GST come to {formatAmount(invoiceTotal)}, which is {formatAmount(Math.abs(difference))}
+            {difference > 0 ? ' less' : ' more'} than the invoice amount
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PurchaseInvoiceCosting;
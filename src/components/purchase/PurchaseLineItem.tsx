@@ -17,9 +17,12 @@ interface ReceiptLineItemProps {
     quantity: number;
     unit_id: string;
     quantity_strips: number;
-    cost_per_strip: number;
+    invoice_rate_per_strip: number;
+    discount_percent: number;
+    free_strips: number;
     notes: string;
   };
+  landedCostPerStrip: number;
   onUpdate: (updates: any) => void;
   onRemove: () => void;
   onCreateBatch: (productId: string) => void;
@@ -28,7 +31,7 @@ interface ReceiptLineItemProps {
   onToggleNotes?: () => void;
 }
 
-const ReceiptLineItem = ({ item, onUpdate, onRemove, onCreateBatch, isCompact = false, showNotes = true, onToggleNotes }: ReceiptLineItemProps) => {
+const ReceiptLineItem = ({ item, landedCostPerStrip, onUpdate, onRemove, onCreateBatch, isCompact = false, showNotes = true, onToggleNotes }: ReceiptLineItemProps) => {
   // Fetch products
   const { data: products } = useQuery({
     queryKey: ['products-for-receipt'],
@@ -82,7 +85,7 @@ const ReceiptLineItem = ({ item, onUpdate, onRemove, onCreateBatch, isCompact =
       product_id: productId,
       batch_id: '',
       unit_id: '',
-      cost_per_strip: product?.base_cost_per_strip || 0,
+      invoice_rate_per_strip: product?.base_cost_per_strip || 0,
     });
   };
 
@@ -90,7 +93,7 @@ const ReceiptLineItem = ({ item, onUpdate, onRemove, onCreateBatch, isCompact =
     const batch = batches?.find(b => b.id === batchId);
     onUpdate({
       batch_id: batchId,
-      cost_per_strip: batch?.batch_cost_per_strip || item.cost_per_strip,
+      invoice_rate_per_strip: batch?.batch_cost_per_strip || item.invoice_rate_per_strip,
     });
   };
 
@@ -215,7 +218,7 @@ const ReceiptLineItem = ({ item, onUpdate, onRemove, onCreateBatch, isCompact =
           </div>
 
           <div className="space-y-1">
-            <Label className="text-xs font-medium text-gray-600">Strips</Label>
+            <Label className="text-xs font-medium text-gray-600">Paid Strips</Label>
             <Input
               value={item.quantity_strips}
               readOnly
@@ -224,11 +227,11 @@ const ReceiptLineItem = ({ item, onUpdate, onRemove, onCreateBatch, isCompact =
           </div>
 
           <div className="space-y-1">
-            <Label className="text-xs font-medium text-gray-600">Cost/Strip</Label>
+            <Label className="text-xs font-medium text-gray-600">Rate/Strip</Label>
             <Input
               type="number"
-              value={item.cost_per_strip}
-              onChange={(e) => onUpdate({ cost_per_strip: Number(e.target.value) })}
+              value={item.invoice_rate_per_strip}
+              onChange={(e) => onUpdate({ invoice_rate_per_strip: Number(e.target.value) })}
               placeholder="0.00"
               min="0"
               step="0.01"
@@ -237,6 +240,53 @@ const ReceiptLineItem = ({ item, onUpdate, onRemove, onCreateBatch, isCompact =
           </div>
         </div>
 
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs font-medium text-gray-600">Disc %</Label>
+            <Input
+              type="number"
+              value={item.discount_percent}
+              onChange={(e) => onUpdate({ discount_percent: Number(e.target.value) })}
+              placeholder="0"
+              min="0"
+              max="100"
+              step="0.01"
+              className="h-8 text-sm rounded-lg"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs font-medium text-gray-600">Free Strips</Label>
+            <Input
+              type="number"
+              value={item.free_strips}
+              onChange={(e) => onUpdate({ free_strips: Number(e.target.value) })}
+              placeholder="0"
+              min="0"
+              step="1"
+              className="h-8 text-sm rounded-lg"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs font-medium text-gray-600">Received Strips</Label>
+            <Input
+              value={item.quantity_strips + (item.free_strips || 0)}
+              readOnly
+              className="h-8 text-sm bg-gray-50 rounded-lg"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs font-medium text-gray-600">Landed Cost/Strip</Label>
+            <Input
+              value={landedCostPerStrip.toFixed(2)}
+              readOnly
+              className="h-8 text-sm bg-gray-50 rounded-lg"
+            />
+          </div>
+        </div>
+
         {showNotes && (
           <div className="space-y-1">
             <Label className="text-xs font-medium text-gray-600">Line Notes</Label>
@@ -338,7 +388,7 @@ const ReceiptLineItem = ({ item, onUpdate, onRemove, onCreateBatch, isCompact =
           </div>
 
           <div>
-            <Label>Quantity (Strips)</Label>
+            <Label>Paid Strips</Label>
             <Input
               value={item.quantity_strips}
               readOnly
@@ -347,17 +397,53 @@ const ReceiptLineItem = ({ item, onUpdate, onRemove, onCreateBatch, isCompact =
           </div>
 
           <div>
-            <Label>Cost per Strip</Label>
+            <Label>Invoice Rate per Strip</Label>
             <Input
               type="number"
-              value={item.cost_per_strip}
-              onChange={(e) => onUpdate({ cost_per_strip: Number(e.target.value) })}
-              placeholder="Cost per strip"
+              value={item.invoice_rate_per_strip}
+              onChange={(e) => onUpdate({ invoice_rate_per_strip: Number(e.target.value) })}
+              placeholder="Rate per strip"
               min="0"
               step="0.01"
               className="rounded-lg"
             />
           </div>
+
+          <div>
+            <Label>Discount %</Label>
+            <Input
+              type="number"
+              value={item.discount_percent}
+              onChange={(e) => onUpdate({ discount_percent: Number(e.target.value) })}
+              placeholder="0"
+              min="0"
+              max="100"
+              step="0.01"
+              className="rounded-lg"
+            />
+          </div>
+
+          <div>
+            <Label>Free Strips</Label>
+            <Input
+              type="number"
+              value={item.free_strips}
+              onChange={(e) => onUpdate({ free_strips: Number(e.target.value) })}
+              placeholder="0"
+              min="0"
+              step="1"
+              className="rounded-lg"
+            />
+          </div>
+
+          <div>
+            <Label>Landed Cost per Strip</Label>
+            <Input
+              value={landedCostPerStrip.toFixed(2)}
+              readOnly
+              className="bg-gray-50 rounded-lg"
+            />
+          </div>
         </div>
 
         <div className="mt-4">
@@ -8,6 +8,7 @@ import { useNavigate } from 'react-router-dom';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { Tables } from '@/integrations/supabase/types';
 
 interface StockPurchaseItem {
@@ -35,6 +36,7 @@ interface StockPurchaseGroup {
   reference_document_id: string | null;
   purchase_date: string;
   supplier_id: string | null;
+  supplier_name: string | null;
   created_at: string;
   created_by: string | null;
   items: StockPurchaseItem[];
@@ -54,6 +56,8 @@ const StockPurchaseTable = ({ purchases, isLoading, onRefresh, onView, onEdit }:
   const queryClient = useQueryClient();
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [purchaseToDelete, setPurchaseToDelete] = useState<StockPurchaseGroup | null>(null);
+  const { can } = useAuth();
+  const canEditPosted = can('edit_posted_document');
 
   // Delete receipt mutation
   const deleteReceiptMutation = useMutation({
@@ -64,6 +68,13 @@ const StockPurchaseTable = ({ purchases, isLoading, onRefresh, onView, onEdit }:
         .eq('purchase_group_id', purchaseGroupId);
       
       if (error) throw error;
+
+      const { error: invoiceError } = await supabase
+        .from('purchase_invoices')
+        .delete()
+        .eq('purchase_group_id', purchaseGroupId);
+
+      if (invoiceError) throw invoiceError;
     },
     onSuccess: () => {
       toast({
@@ -156,7 +167,7 @@ const StockPurchaseTable = ({ purchases, isLoading, onRefresh, onView, onEdit }:
                         {purchase.reference_document_id || '-'}
                       </TableCell>
                       <TableCell rowSpan={purchase.items.length}>
-                        {purchase.supplier_id || '-'}
+                        {purchase.supplier_name || '-'}
                       </TableCell>
                     </>
                   ) : null}
@@ -192,24 +203,28 @@ const StockPurchaseTable = ({ purchases, isLoading, onRefresh, onView, onEdit }:
                           <Eye className="h-4 w-4 mr-1" />
                           View
                         </Button>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          className="h-8 px-3 rounded-full"
-                          onClick={() => handleEdit(purchase)}
-                        >
-                          <Edit className="h-4 w-4 mr-1" />
-                          Edit
-                        </Button>
-                        <Button 
-                          variant="outline" 
-                          size="sm" 
-                          className="h-8 px-3 rounded-full text-red-600 hover:text-red-700"
-                          onClick={() => handleDeleteClick(purchase)}
-                        >
-                          <Trash2 className="h-4 w-4 mr-1" />
-                          Delete
-                        </Button>
+                        {canEditPosted && (
+                          <>
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              className="h-8 px-3 rounded-full"
+                              onClick={() => handleEdit(purchase)}
+                            >
+                              <Edit className="h-4 w-4 mr-1" />
+                              Edit
+                            </Button>
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              className="h-8 px-3 rounded-full text-red-600 hover:text-red-700"
+                              onClick={() => handleDeleteClick(purchase)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-1" />
+                              Delete
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </TableCell>
                   ) : null}
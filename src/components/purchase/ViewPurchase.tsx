@@ -3,9 +3,12 @@ import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Edit } from 'lucide-react';
+import { ArrowLeft, Edit, Printer } from 'lucide-react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { format } from 'date-fns';
+import { fetchPurchaseInvoice } from '@/lib/purchaseCosting';
+import { summarizeTax } from '@/lib/gst';
+import { getDocumentPath } from '@/lib/documents';
 
 interface ViewPurchaseProps {
   purchaseId?: string;
@@ -51,6 +54,10 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
             batch_number,
             manufacturing_date,
             expiry_date
+          ),
+          suppliers:supplier_id (
+            supplier_name,
+            supplier_code
           )
         `)
         .eq('purchase_group_id', id);
@@ -61,6 +68,12 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
     enabled: !!id,
   });
 
+  const { data: purchaseInvoice } = useQuery({
+    queryKey: ['purchase-invoice', id],
+    queryFn: () => fetchPurchaseInvoice(id!),
+    enabled: !!id,
+  });
+
   if (isLoading) {
     return (
       <div className="max-w-7xl mx-auto p-6 space-y-6">
@@ -90,6 +103,12 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
   const firstTransaction = receiptDetails?.[0];
   const totalQuantity = receiptDetails?.reduce((sum, item) => sum + item.quantity_strips, 0) || 0;
   const totalValue = receiptDetails?.reduce((sum, item) => sum + (item.quantity_strips * item.cost_per_strip), 0) || 0;
+  const totalFreeStrips = receiptDetails?.reduce((sum, item) => sum + item.free_strips, 0) || 0;
+  const totalDiscount = receiptDetails?.reduce((sum, item) => {
+    const grossValue = (item.quantity_strips - item.free_strips) * (item.invoice_rate_per_strip ?? item.cost_per_strip);
+    return sum + grossValue * item.discount_percent / 100;
+  }, 0) || 0;
+  const taxTotals = summarizeTax(receiptDetails || []);
 
   return (
     <div className="max-w-7xl mx-auto p-6 space-y-6">
@@ -102,21 +121,31 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
             <p className="text-gray-600 mt-1">GRN: {firstTransaction.reference_document_id}</p>
           </div>
         </div>
-        <Button 
-          onClick={() => {
-            if (onClose) {
-              // If we're in a modal, we need to close this modal and open edit modal
-              // This would need to be handled by the parent component
-              onClose();
-            } else {
-              navigate(`/admin/stock/purchase/edit/${id}`);
-            }
-          }}
-          className="rounded-lg"
-        >
-          <Edit className="h-4 w-4 mr-2" />
-          Edit Receipt
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => navigate(getDocumentPath('GRN', id!))}
+            className="rounded-lg"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print GRN
+          </Button>
+          <Button 
+            onClick={() => {
+              if (onClose) {
+                // If we're in a modal, we need to close this modal and open edit modal
+                // This would need to be handled by the parent component
+                onClose();
+              } else {
+                navigate(`/admin/stock/purchase/edit/${id}`);
+              }
+            }}
+            className="rounded-lg"
+          >
+            <Edit className="h-4 w-4 mr-2" />
+            Edit Receipt
+          </Button>
+        </div>
       </div>
 
       {/* Receipt Header Details */}
@@ -133,7 +162,9 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700">Supplier</label>
-              <p className="mt-1 text-gray-900">{firstTransaction.supplier_id}</p>
+              <p className="mt-1 text-gray-900">
+                {firstTransaction.suppliers?.supplier_name || firstTransaction.legacy_supplier_name || '-'}
+              </p>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700">Purchase Date</label>
@@ -153,8 +184,37 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700">Total Strips</label>
-              <p className="mt-1 text-gray-900">{totalQuantity.toLocaleString()}</p>
+              <p className="mt-1 text-gray-900">
+                {totalQuantity.toLocaleString()}
+                {totalFreeStrips > 0 && <span className="text-green-700"> (incl. {totalFreeStrips.toLocaleString()} free)</span>}
+              </p>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">GST</label>
+              <p className="mt-1 text-gray-900">
+                ₹{taxTotals.tax_amount.toFixed(2)}
+                {taxTotals.igst_amount > 0
+                  ? ' IGST'
+                  : taxTotals.tax_amount > 0 && ` (CGST ₹${taxTotals.cgst_amount.toFixed(2)} + SGST ₹${taxTotals.sgst_amount.toFixed(2)})`}
+              </p>
+            </div>
+            {purchaseInvoice && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Supplier Invoice</label>
+                  <p className="mt-1 text-gray-900">
+                    {purchaseInvoice.supplier_invoice_number || '-'}
+                    {purchaseInvoice.invoice_amount > 0 && ` · ₹${Number(purchaseInvoice.invoice_amount).toFixed(2)}`}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Discount / Freight</label>
+                  <p className="mt-1 text-gray-900">
+                    ₹{totalDiscount.toFixed(2)} / ₹{Number(purchaseInvoice.freight_amount).toFixed(2)}
+                  </p>
+                </div>
+              </>
+            )}
           </div>
           {firstTransaction.notes && (
             <div>
@@ -188,7 +248,7 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
 
         <Card className="rounded-xl shadow-lg">
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-gray-600">Total Value</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-600">Landed Value</CardTitle>
           </CardHeader>
           <CardContent>
             <p className="text-2xl font-bold text-gray-900">₹{totalValue.toLocaleString()}</p>
@@ -216,8 +276,12 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
                   <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Product</th>
                   <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Batch</th>
                   <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Quantity</th>
-                  <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Cost/Strip</th>
+                  <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Rate/Strip</th>
+                  <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Disc %</th>
+                  <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Freight</th>
+                  <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Landed Cost/Strip</th>
                   <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Total Value</th>
+                  <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">GST</th>
                   <th className="text-left py-3 px-2 text-sm font-medium text-gray-700">Expiry Date</th>
                 </tr>
               </thead>
@@ -228,6 +292,7 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
                       <div>
                         <p className="font-medium text-gray-900">{item.products?.product_name}</p>
                         <p className="text-sm text-gray-500">{item.products?.product_code}</p>
+                        {item.hsn_code && <p className="text-xs text-gray-500">HSN {item.hsn_code}</p>}
                       </div>
                     </td>
                     <td className="py-4 px-2">
@@ -235,13 +300,31 @@ const ViewPurchase = ({ purchaseId, onClose }: ViewPurchaseProps = {}) => {
                     </td>
                     <td className="py-4 px-2">
                       <p className="text-gray-900">{item.quantity_strips.toLocaleString()} strips</p>
+                      {item.free_strips > 0 && (
+                        <p className="text-xs text-green-700">incl. {item.free_strips.toLocaleString()} free</p>
+                      )}
                     </td>
                     <td className="py-4 px-2">
-                      <p className="text-gray-900">₹{item.cost_per_strip}</p>
+                      <p className="text-gray-900">₹{item.invoice_rate_per_strip ?? item.cost_per_strip}</p>
+                    </td>
+                    <td className="py-4 px-2">
+                      <p className="text-gray-900">{item.discount_percent > 0 ? `${item.discount_percent}%` : '-'}</p>
+                    </td>
+                    <td className="py-4 px-2">
+                      <p className="text-gray-900">{item.freight_amount > 0 ? `₹${item.freight_amount}` : '-'}</p>
+                    </td>
+                    <td className="py-4 px-2">
+                      <p className="font-medium text-gray-900">₹{item.cost_per_strip}</p>
                     </td>
                     <td className="py-4 px-2">
                       <p className="font-medium text-gray-900">₹{(item.quantity_strips * item.cost_per_strip).toLocaleString()}</p>
                     </td>
+                    <td className="py-4 px-2">
+                      <p className="text-gray-900">
+                        ₹{(Number(item.cgst_amount) + Number(item.sgst_amount) + Number(item.igst_amount)).toFixed(2)}
+                      </p>
+                      <p className="text-xs text-gray-500">@ {item.gst_rate}%</p>
+                    </td>
                     <td className="py-4 px-2">
                       <p className="text-gray-900">{item.product_batches?.expiry_date 
                         ? format(new Date(item.product_batches.expiry_date), 'dd/MM/yyyy')
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  GST_STATES,
+  fetchCompanyProfile,
+  getGstinStateCode,
+  isValidGstin,
+  saveCompanyProfile,
+} from '@/lib/gst';
+
+const CompanyGstDetails = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState({
+    company_name: '',
+    gstin: '',
+    state_code: '',
+    address: '',
+  });
+
+  const { data: companyProfile } = useQuery({
+    queryKey: ['company-profile'],
+    queryFn: fetchCompanyProfile,
+  });
+
+  useEffect(() => {
+    if (companyProfile) {
+      setFormData({
+        company_name: companyProfile.company_name || '',
+        gstin: companyProfile.gstin || '',
+        state_code: companyProfile.state_code || '',
+        address: companyProfile.address || '',
+      });
+    }
+  }, [companyProfile]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveCompanyProfile(formData),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Company GST details saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ['company-profile'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save company GST details",
+        variant: "destructive",
+      });
+      console.error('Error saving company profile:', error);
+    },
+  });
+
+  // A valid GSTIN carries the company's state in its first two digits
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    setFormData({ ...formData, gstin, state_code: getGstinStateCode(gstin) || formData.state_code });
+  };
+
+  const handleSave = () => {
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      toast({
+        title: "Validation Error",
+        description: "GSTIN is not valid. It should look like 27ABCDE1234F1Z5.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!formData.state_code) {
+      toast({
+        title: "Validation Error",
+        description: "Select the company's state; it decides whether supplies are intra- or inter-state",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Company GST Registration
+        </CardTitle>
+        <CardDescription>
+          Purchases and sales with a party in another state are taxed as IGST, all others as CGST + SGST
+          {!companyProfile?.state_code && (
+            <span className="text-amber-700"> · Until the state is set, every supply is treated as intra-state</span>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="company_name" className="text-sm font-medium">Company Name</Label>
+            <Input
+              id="company_name"
+              value={formData.company_name}
+              onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company_gstin" className="text-sm font-medium">GSTIN</Label>
+            <Input
+              id="company_gstin"
+              value={formData.gstin}
+              onChange={(e) => handleGstinChange(e.target.value)}
+              placeholder="e.g., 27ABCDE1234F1Z5"
+              maxLength={15}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company_state_code" className="text-sm font-medium">State</Label>
+            <Select
+              value={formData.state_code}
+              onValueChange={(value) => setFormData({ ...formData, state_code: value })}
+            >
+              <SelectTrigger id="company_state_code" className="h-8">
+                <SelectValue placeholder="Select state" />
+              </SelectTrigger>
+              <SelectContent>
+                {GST_STATES.map((state) => (
+                  <SelectItem key={state.code} value={state.code}>
+                    {state.code} - {state.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+            <Save className="h-4 w-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+        <div className="space-y-2 mt-4">
+          <Label htmlFor="company_address" className="text-sm font-medium">Address</Label>
+          <Input
+            id="company_address"
+            value={formData.address}
+            onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+            className="h-8"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CompanyGstDetails;
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { RefreshCw } from 'lucide-react';
+import { AREA_FILTER_PREFIX, Territory, buildTerritoryTree } from '@/lib/territories';
 
 interface StockFiltersProps {
   locationFilter: string;
@@ -19,8 +20,11 @@ interface StockFiltersProps {
   setExpiryFromDate: (value: string) => void;
   expiryToDate: string;
   setExpiryToDate: (value: string) => void;
+  asOfDate: string;
+  setAsOfDate: (value: string) => void;
   categories?: { category_name: string }[];
   mrUsers?: { user_id: string; name: string }[];
+  territories?: Territory[];
   onClearFilters?: () => void;
 }
 
@@ -37,8 +41,11 @@ const StockFilters: React.FC<StockFiltersProps> = ({
   setExpiryFromDate,
   expiryToDate,
   setExpiryToDate,
+  asOfDate,
+  setAsOfDate,
   categories,
   mrUsers,
+  territories,
   onClearFilters
 }) => {
   return (
@@ -61,7 +68,7 @@ const StockFilters: React.FC<StockFiltersProps> = ({
         </Button>
       </CardHeader>
       <CardContent>
-        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
           <div className="space-y-2">
             <Label htmlFor="location" className="text-sm font-medium">
               Location
@@ -77,6 +84,13 @@ const StockFilters: React.FC<StockFiltersProps> = ({
                 <SelectItem value="ALL">All Locations</SelectItem>
                 <SelectItem value="GODOWN">Main Godown</SelectItem>
                 <SelectItem value="MR">All MRs</SelectItem>
+                {buildTerritoryTree(territories || []).map(({ territory, depth }) => (
+                  <SelectItem key={territory.id} value={`${AREA_FILTER_PREFIX}${territory.id}`}>
+                    <span style={{ paddingLeft: depth * 12 }}>
+                      {territory.level}: {territory.territory_name}
+                    </span>
+                  </SelectItem>
+                ))}
                 {mrUsers?.map((user) => (
                   <SelectItem key={user.user_id} value={`MR_${user.user_id}`}>
                     MR: {user.name}
@@ -159,6 +173,20 @@ const StockFilters: React.FC<StockFiltersProps> = ({
               className="h-8 rounded-full"
             />
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="asOfDate" className="text-sm font-medium">
+              Stock As Of
+            </Label>
+            <Input
+              id="asOfDate"
+              type="date"
+              value={asOfDate}
+              max={new Date().toISOString().split('T')[0]}
+              onChange={(e) => setAsOfDate(e.target.value)}
+              className="h-8 rounded-full"
+            />
+          </div>
         </div>
       </CardContent>
     </Card>
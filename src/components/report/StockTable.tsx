@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Package, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getExpiryStatus, getMinLevelQuantity } from '@/lib/stockCalculations';
 import ProductTableColumns from '@/components/products/ProductTableColumns';
 
 export interface StockItem {
@@ -23,6 +24,7 @@ export interface StockItem {
   category_name?: string;
   min_stock_level_godown?: number;
   min_stock_level_mr?: number;
+  location_product_quantity_strips?: number;
 }
 
 export interface StockColumnConfig extends Record<string, boolean> {
@@ -73,6 +75,7 @@ export type SortDirection = 'asc' | 'desc';
 
 interface StockTableProps {
   stockData: StockItem[] | undefined;
+  totalCount: number;
   isLoading: boolean;
   visibleColumns: Record<string, boolean>;
   onColumnToggle: (columns: Record<string, boolean>) => void;
@@ -86,6 +89,7 @@ interface StockTableProps {
 
 const StockTable: React.FC<StockTableProps> = ({
   stockData,
+  totalCount,
   isLoading,
   visibleColumns,
   onColumnToggle,
@@ -108,29 +112,15 @@ const StockTable: React.FC<StockTableProps> = ({
       !visibleColumns[key] && 'hidden'
     );
 
-  const getExpiryStatus = (expiryDate: string) => {
-    const expiry = new Date(expiryDate);
-    const today = new Date();
-    const thirtyDaysFromNow = new Date();
-    thirtyDaysFromNow.setDate(today.getDate() + 30);
-
-    if (expiry < today) {
-      return { status: 'expired', variant: 'destructive' as const };
-    } else if (expiry <= thirtyDaysFromNow) {
-      return { status: 'expiring-soon', variant: 'secondary' as const };
-    } else {
-      return { status: 'good', variant: 'default' as const };
-    }
-  };
-
   const getStockStatus = (item: StockItem) => {
     const minLevel = item.location_type === 'GODOWN' 
       ? item.min_stock_level_godown || 0
       : item.min_stock_level_mr || 0;
+    const quantity = getMinLevelQuantity(item);
 
-    if (item.current_quantity_strips <= minLevel) {
+    if (quantity <= minLevel) {
       return { status: 'low', variant: 'destructive' as const };
-    } else if (item.current_quantity_strips <= minLevel * 1.5) {
+    } else if (quantity <= minLevel * 1.5) {
       return { status: 'medium', variant: 'secondary' as const };
     } else {
       return { status: 'good', variant: 'default' as const };
@@ -142,50 +132,8 @@ const StockTable: React.FC<StockTableProps> = ({
     return `${strips} strips`;
   };
 
-  const getSortedData = (data: StockItem[]) => {
-    if (!data) return [];
-    
-    return [...data].sort((a, b) => {
-      let compareA, compareB;
-      
-      switch (sortField) {
-        case 'product_name':
-          compareA = a.product_name.toLowerCase();
-          compareB = b.product_name.toLowerCase();
-          break;
-        case 'generic_name':
-          compareA = (a.generic_name || '').toLowerCase();
-          compareB = (b.generic_name || '').toLowerCase();
-          break;
-        case 'batch_number':
-          compareA = a.batch_number.toLowerCase();
-          compareB = b.batch_number.toLowerCase();
-          break;
-        case 'expiry_date':
-          compareA = new Date(a.expiry_date).getTime();
-          compareB = new Date(b.expiry_date).getTime();
-          break;
-        case 'current_quantity_strips':
-          compareA = a.current_quantity_strips;
-          compareB = b.current_quantity_strips;
-          break;
-        case 'cost_per_strip':
-          compareA = a.cost_per_strip;
-          compareB = b.cost_per_strip;
-          break;
-        case 'total_value':
-          compareA = a.total_value;
-          compareB = b.total_value;
-          break;
-        default:
-          compareA = a.product_name.toLowerCase();
-          compareB = b.product_name.toLowerCase();
-      }
-      
-      const comparison = compareA > compareB ? 1 : compareA < compareB ? -1 : 0;
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
-  };
+  // Rows arrive already sorted and paginated by the server
+  const totalPages = Math.max(1, Math.ceil(totalCount / itemsPerPage));
 
   return (
     <Card className="rounded-lg border">
@@ -345,102 +293,100 @@ const StockTable: React.FC<StockTableProps> = ({
                     </TableCell>
                   </TableRow>
                 ) : (
-                  getSortedData(stockData)
-                    .slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage)
-                    .map((item, index) => {
-                      const stockStatus = getStockStatus(item);
-                      const expiryStatus = getExpiryStatus(item.expiry_date);
-                      
-                      return (
-                        <TableRow key={index} className="hover:bg-muted/50">
-                          {visibleColumns.product && (
-                            <TableCell>
-                              <div className="space-y-1">
-                                <div className="font-medium">{item.product_code}</div>
-                                <div className="text-muted-foreground text-sm">{item.product_name}</div>
-                              </div>
-                            </TableCell>
-                          )}
-                          {visibleColumns.genericName && (
-                            <TableCell>
-                              <span className="text-muted-foreground">{item.generic_name || '-'}</span>
-                            </TableCell>
-                          )}
-                          {visibleColumns.batchNumber && (
-                            <TableCell>
-                              <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
-                                {item.batch_number}
-                              </span>
-                            </TableCell>
-                          )}
-                          {visibleColumns.expiryDate && (
-                            <TableCell>
-                              {new Date(item.expiry_date).toLocaleDateString()}
-                            </TableCell>
-                          )}
-                          {visibleColumns.location && (
-                            <TableCell>
-                              <Badge variant="outline">
-                                {item.location_type === 'GODOWN' ? 'Godown' : `MR ${item.location_id || '-'}`}
-                              </Badge>
-                            </TableCell>
-                          )}
-                          {visibleColumns.currentQuantityStrips && (
-                            <TableCell className="text-center">
-                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium ${
-                                item.current_quantity_strips <= 0 
-                                  ? 'bg-red-100 text-red-800' 
-                                  : item.current_quantity_strips <= 10
-                                    ? 'bg-yellow-100 text-yellow-800'
-                                    : 'bg-green-100 text-green-800'
-                              }`}>
-                                {item.current_quantity_strips}
-                              </span>
-                            </TableCell>
-                          )}
-                          {visibleColumns.costPerStrip && (
-                            <TableCell className="text-right">
-                              <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
-                                ₹{item.cost_per_strip.toFixed(2)}
-                              </span>
-                            </TableCell>
-                          )}
-                          {visibleColumns.totalValue && (
-                            <TableCell className="text-right">
-                              <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
-                                ₹{item.total_value.toFixed(2)}
-                              </span>
-                            </TableCell>
-                          )}
-                          {visibleColumns.stockStatus && (
-                            <TableCell className="text-center">
-                              <Badge variant={stockStatus.variant}>
-                                {stockStatus.status === 'low' ? 'Low Stock' : 
-                                 stockStatus.status === 'medium' ? 'Medium' : 'Good'}
-                              </Badge>
-                            </TableCell>
-                          )}
-                          {visibleColumns.expiryStatus && (
-                            <TableCell className="text-center">
-                              <Badge variant={expiryStatus.variant}>
-                                {expiryStatus.status === 'expired' ? 'Expired' :
-                                 expiryStatus.status === 'expiring-soon' ? 'Expiring Soon' : 'Good'}
-                              </Badge>
-                            </TableCell>
-                          )}
-                        </TableRow>
-                      );
-                    })
+                  stockData.map((item, index) => {
+                    const stockStatus = getStockStatus(item);
+                    const expiryStatus = getExpiryStatus(item.expiry_date);
+                    
+                    return (
+                      <TableRow key={index} className="hover:bg-muted/50">
+                        {visibleColumns.product && (
+                          <TableCell>
+                            <div className="space-y-1">
+                              <div className="font-medium">{item.product_code}</div>
+                              <div className="text-muted-foreground text-sm">{item.product_name}</div>
+                            </div>
+                          </TableCell>
+                        )}
+                        {visibleColumns.genericName && (
+                          <TableCell>
+                            <span className="text-muted-foreground">{item.generic_name || '-'}</span>
+                          </TableCell>
+                        )}
+                        {visibleColumns.batchNumber && (
+                          <TableCell>
+                            <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+                              {item.batch_number}
+                            </span>
+                          </TableCell>
+                        )}
+                        {visibleColumns.expiryDate && (
+                          <TableCell>
+                            {new Date(item.expiry_date).toLocaleDateString()}
+                          </TableCell>
+                        )}
+                        {visibleColumns.location && (
+                          <TableCell>
+                            <Badge variant="outline">
+                              {item.location_type === 'GODOWN' ? 'Godown' : `MR ${item.location_id || '-'}`}
+                            </Badge>
+                          </TableCell>
+                        )}
+                        {visibleColumns.currentQuantityStrips && (
+                          <TableCell className="text-center">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium ${
+                              item.current_quantity_strips <= 0 
+                                ? 'bg-red-100 text-red-800' 
+                                : item.current_quantity_strips <= 10
+                                  ? 'bg-yellow-100 text-yellow-800'
+                                  : 'bg-green-100 text-green-800'
+                            }`}>
+                              {item.current_quantity_strips}
+                            </span>
+                          </TableCell>
+                        )}
+                        {visibleColumns.costPerStrip && (
+                          <TableCell className="text-right">
+                            <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+                              ₹{item.cost_per_strip.toFixed(2)}
+                            </span>
+                          </TableCell>
+                        )}
+                        {visibleColumns.totalValue && (
+                          <TableCell className="text-right">
+                            <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+                              ₹{item.total_value.toFixed(2)}
+                            </span>
+                          </TableCell>
+                        )}
+                        {visibleColumns.stockStatus && (
+                          <TableCell className="text-center">
+                            <Badge variant={stockStatus.variant}>
+                              {stockStatus.status === 'low' ? 'Low Stock' : 
+                               stockStatus.status === 'medium' ? 'Medium' : 'Good'}
+                            </Badge>
+                          </TableCell>
+                        )}
+                        {visibleColumns.expiryStatus && (
+                          <TableCell className="text-center">
+                            <Badge variant={expiryStatus.variant}>
+                              {expiryStatus.status === 'expired' ? 'Expired' :
+                               expiryStatus.status === 'expiring-soon' ? 'Expiring Soon' : 'Good'}
+                            </Badge>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })
                 )}
               </TableBody>
             </Table>
           </div>
         </div>
       </CardContent>
-      {stockData?.length > 0 && (
+      {totalCount > 0 && (
         <CardFooter className="flex items-center justify-between px-6 py-4 border-t">
           <div className="text-sm text-muted-foreground">
-            Page {currentPage} of {Math.ceil(stockData.length / itemsPerPage)}
+            Page {currentPage} of {totalPages} ({totalCount} items)
           </div>
           <div className="flex items-center space-x-2">
             <Button
@@ -469,8 +415,8 @@ const StockTable: React.FC<StockTableProps> = ({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setCurrentPage(Math.min(Math.ceil(stockData.length / itemsPerPage), currentPage + 1))}
-              disabled={currentPage === Math.ceil(stockData.length / itemsPerPage)}
+              onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+              disabled={currentPage === totalPages}
               className="h-8 w-8 p-0"
             >
               <span className="sr-only">Go to next page</span>
@@ -479,8 +425,8 @@ const StockTable: React.FC<StockTableProps> = ({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setCurrentPage(Math.ceil(stockData.length / itemsPerPage))}
-              disabled={currentPage === Math.ceil(stockData.length / itemsPerPage)}
+              onClick={() => setCurrentPage(totalPages)}
+              disabled={currentPage === totalPages}
               className="h-8 w-8 p-0"
             >
               <span className="sr-only">Go to last page</span>
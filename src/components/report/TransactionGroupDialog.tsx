@@ -0,0 +1,113 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExternalLink } from 'lucide-react';
+import { fetchTransactionGroup } from '@/lib/stockStatement';
+
+interface TransactionGroupDialogProps {
+  transactionGroupId: string | null;
+  onOpenChange: (open: boolean) => void;
+  getLocationLabel?: (locationType: string | null, locationId: string | null) => string;
+}
+
+const TransactionGroupDialog: React.FC<TransactionGroupDialogProps> = ({
+  transactionGroupId,
+  onOpenChange,
+  getLocationLabel = (locationType, locationId) => locationType === 'MR' ? `MR: ${locationId}` : locationType || '-',
+}) => {
+  const { data: lines, isLoading } = useQuery({
+    queryKey: ['transaction-group', transactionGroupId],
+    queryFn: () => fetchTransactionGroup(transactionGroupId!),
+    enabled: !!transactionGroupId,
+  });
+
+  const documentType = lines?.[0]?.reference_document_type;
+  const totalValue = lines?.reduce(
+    (sum, line) => sum + Math.abs(line.quantity_strips) * line.cost_per_strip_at_transaction,
+    0
+  ) || 0;
+
+  return (
+    <Dialog open={!!transactionGroupId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl rounded-lg p-6 shadow-lg">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-bold">
+            {documentType ? `${documentType.charAt(0)}${documentType.slice(1).toLowerCase()} Document` : 'Document'}
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">{transactionGroupId}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center text-gray-500">Loading document...</div>
+        ) : !lines?.length ? (
+          <div className="py-8 text-center text-gray-500">No lines found for this document.</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-between items-center text-sm text-gray-600">
+              <span>
+                {new Date(lines[0].transaction_date).toLocaleDateString()} · {lines.length} line{lines.length === 1 ? '' : 's'}
+              </span>
+              {documentType === 'PURCHASE' && (
+                <Button asChild variant="outline" size="sm">
+                  <Link to={`/admin/stock/purchase/${transactionGroupId}/view`}>
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Open Purchase
+                  </Link>
+                </Button>
+              )}
+            </div>
+            <div className="max-h-[60vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead className="text-right">Qty (Strips)</TableHead>
+                    <TableHead className="text-right">Cost/Strip</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={line.transaction_id}>
+                      <TableCell>
+                        <div className="font-medium">{line.product_name}</div>
+                        <div className="text-sm text-gray-500">{line.product_code}</div>
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">{line.batch_number}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{line.transaction_type.replace(/_/g, ' ')}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {line.location_type_source ? getLocationLabel(line.location_type_source, line.location_id_source) : '-'}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {line.location_type_destination ? getLocationLabel(line.location_type_destination, line.location_id_destination) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{Math.abs(line.quantity_strips)}</TableCell>
+                      <TableCell className="text-right font-mono">₹{line.cost_per_strip_at_transaction.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {lines[0].notes && (
+              <p className="text-sm text-gray-600">Notes: {lines[0].notes}</p>
+            )}
+            <div className="text-right font-semibold">Total value: ₹{totalValue.toFixed(2)}</div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransactionGroupDialog;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Customer, fetchCustomers, getCustomerTypeLabel } from '@/lib/customers';
+
+interface CustomerSelectProps {
+  value: string;
+  onChange: (customer: Customer) => void;
+  recordedName?: string;
+  // Limits the list to customers assigned to this MR or to no MR
+  mrUserId?: string;
+}
+
+const CustomerSelect = ({ value, onChange, recordedName, mrUserId }: CustomerSelectProps) => {
+  const { data: activeCustomers } = useQuery({
+    queryKey: ['customers', 'active'],
+    queryFn: () => fetchCustomers(true),
+  });
+
+  const customers = mrUserId
+    ? activeCustomers?.filter(c => !c.assigned_mr_user_id || c.assigned_mr_user_id === mrUserId)
+    : activeCustomers;
+
+  const handleChange = (customerId: string) => {
+    const customer = customers?.find(c => c.id === customerId);
+    if (customer) onChange(customer);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="customer" className="text-sm font-medium text-gray-700">
+        Customer <span className="text-red-400">*</span>
+      </Label>
+      <Select value={value} onValueChange={handleChange}>
+        <SelectTrigger id="customer" className="h-9 rounded-lg">
+          <SelectValue placeholder="Choose customer..." />
+        </SelectTrigger>
+        <SelectContent className="rounded-lg">
+          {customers?.map((customer) => (
+            <SelectItem key={customer.id} value={customer.id}>
+              <div className="flex flex-col">
+                <span className="font-medium">{customer.customer_name}</span>
+                <span className="text-xs text-gray-500">
+                  {customer.customer_code} · {getCustomerTypeLabel(customer.customer_type)}
+                  {customer.territory && ` · ${customer.territory}`}
+                </span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {!value && recordedName && (
+        <p className="text-xs text-amber-700">Recorded as "{recordedName}"; choose the customer it refers to</p>
+      )}
+    </div>
+  );
+};
+
+export default CustomerSelect;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { describeLimitBreach, fetchDispatchRequestBreaches } from '@/lib/mrHoldingLimits';
+
+interface DispatchRequestBreachesProps {
+  requestId: string;
+}
+
+// The limits a pending request breaks against what the MR holds now, for the approvals inbox
+const DispatchRequestBreaches = ({ requestId }: DispatchRequestBreachesProps) => {
+  const { data: breaches, isLoading } = useQuery({
+    queryKey: ['dispatch-request-breaches', requestId],
+    queryFn: () => fetchDispatchRequestBreaches(requestId),
+  });
+
+  if (isLoading) {
+    return <span className="text-sm text-gray-500">Checking...</span>;
+  }
+
+  if (!breaches?.length) {
+    return <span className="text-sm text-green-700">Within limits now</span>;
+  }
+
+  return (
+    <ul className="space-y-0.5 text-sm text-red-700">
+      {breaches.map((breach, index) => (
+        <li key={index}>{describeLimitBreach(breach)}</li>
+      ))}
+    </ul>
+  );
+};
+
+export default DispatchRequestBreaches;
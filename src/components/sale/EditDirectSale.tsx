@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
@@ -7,10 +7,28 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Plus, ArrowLeft, ChevronDown, ChevronUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { useMinShelfLifeDays } from '@/hooks/useFefoAllocation';
+import { getBatchValidationMessage } from '@/lib/batchValidation';
 import DispatchLineItem from '@/components/sale/SaleLineItem';
+import PriceListSelect from '@/components/sale/PriceListSelect';
+import CustomerSelect from '@/components/sale/CustomerSelect';
+import DocumentNumberField from '@/components/documents/DocumentNumberField';
+import { Customer } from '@/lib/customers';
+import { fetchPriceListPrices } from '@/lib/pricing';
+import {
+  GST_STATES,
+  calculateLineTax,
+  fetchCompanyProfile,
+  fetchProductTaxRates,
+  getGstinStateCode,
+  isInterStateSupply,
+  isValidGstin,
+  summarizeTax,
+} from '@/lib/gst';
 
 interface SaleLineItem {
   id: string;
@@ -20,7 +38,11 @@ interface SaleLineItem {
   unit_id: string;
   quantity_strips: number;
   cost_per_strip: number;
+  selling_price_per_strip: number;
+  price_error?: string | null;
   notes: string;
+  batch_restriction?: string | null;
+  override_justification?: string;
 }
 
 interface EditDirectSaleProps {
@@ -33,12 +55,17 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { profile } = useAuth();
+  const minShelfLifeDays = useMinShelfLifeDays();
 
   const [formData, setFormData] = useState({
+    customer_id: '',
     customer_name: '',
+    customer_gstin: '',
+    customer_state_code: '',
     invoice_number: '',
     sales_date: new Date().toISOString().split('T')[0],
     notes: '',
+    price_list_id: '',
   });
 
   const [lineItems, setLineItems] = useState<SaleLineItem[]>([]);
@@ -76,10 +103,14 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
     if (existingSale && existingSale.length > 0) {
       const firstSale = existingSale[0];
       setFormData({
+        customer_id: firstSale.customer_id || '',
         customer_name: firstSale.location_id_destination || '',
+        customer_gstin: firstSale.customer_gstin || '',
+        customer_state_code: firstSale.customer_state_code || '',
         invoice_number: firstSale.reference_document_id || '',
         sales_date: firstSale.sale_date || new Date().toISOString().split('T')[0],
         notes: firstSale.notes || '',
+        price_list_id: firstSale.price_list_id || '',
       });
 
       const items: SaleLineItem[] = existingSale.map(sale => ({
@@ -90,7 +121,9 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
         unit_id: 'strips',
         quantity_strips: Math.abs(sale.quantity_strips),
         cost_per_strip: sale.cost_per_strip,
+        selling_price_per_strip: Number(sale.selling_price_per_strip) || 0,
         notes: sale.notes || '',
+        override_justification: sale.override_justification || '',
       }));
       
       setLineItems(items);
@@ -98,6 +131,23 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
     }
   }, [existingSale]);
 
+  // GST on each line's selling value; the customer's state decides CGST + SGST or IGST
+  const { data: companyProfile } = useQuery({
+    queryKey: ['company-profile'],
+    queryFn: fetchCompanyProfile,
+  });
+
+  const { data: productTaxRates } = useQuery({
+    queryKey: ['product-tax-rates'],
+    queryFn: fetchProductTaxRates,
+  });
+
+  const interState = isInterStateSupply(companyProfile?.state_code, formData.customer_state_code);
+  const lineTaxes = lineItems.map(item =>
+    calculateLineTax(item.quantity_strips * (item.selling_price_per_strip || 0), productTaxRates?.get(item.product_id), interState)
+  );
+  const taxTotals = summarizeTax(lineTaxes);
+
   // Update sale mutation
   const updateSaleMutation = useMutation({
     mutationFn: async () => {
@@ -110,7 +160,7 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
       if (deleteError) throw deleteError;
 
       // Then insert updated line items
-      const sales = lineItems.map(item => ({
+      const sales = lineItems.map((item, index) => ({
         sale_group_id: saleGroupId,
         product_id: item.product_id,
         batch_id: item.batch_id,
@@ -120,13 +170,20 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
         location_id_source: 'GODOWN_MAIN',
         location_type_destination: 'CUSTOMER',
         location_id_destination: formData.customer_name,
+        customer_id: formData.customer_id,
         sale_date: formData.sales_date,
-        reference_document_id: formData.invoice_number,
         cost_per_strip: item.cost_per_strip,
+        selling_price_per_strip: item.selling_price_per_strip,
+        price_list_id: formData.price_list_id || null,
+        customer_gstin: formData.customer_gstin || null,
+        customer_state_code: formData.customer_state_code || null,
+        ...lineTaxes[index],
         notes: item.notes || formData.notes,
+        override_justification: item.batch_restriction ? item.override_justification : null,
         created_by: profile?.user_id,
       }));
 
+      // The database gives the lines back the invoice number of the group
       const { error } = await supabase
         .from('stock_sales')
         .insert(sales);
@@ -150,13 +207,63 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update direct sale",
+        description: getBatchValidationMessage(error) || "Failed to update direct sale",
         variant: "destructive",
       });
       console.error('Error updating sale:', error);
     },
   });
 
+  // Selling prices of the chosen price list, used to price new lines
+  const { data: priceListPrices } = useQuery({
+    queryKey: ['price-list-prices', formData.price_list_id],
+    queryFn: () => fetchPriceListPrices(formData.price_list_id),
+    enabled: !!formData.price_list_id,
+  });
+
+  // Switching price list reprices the lines whose products are on it
+  const handlePriceListChange = async (priceListId: string) => {
+    setFormData(prev => ({ ...prev, price_list_id: priceListId }));
+    try {
+      const prices = await queryClient.fetchQuery({
+        queryKey: ['price-list-prices', priceListId],
+        queryFn: () => fetchPriceListPrices(priceListId),
+      });
+      setLineItems(prev => prev.map(item => prices.has(item.product_id)
+        ? { ...item, selling_price_per_strip: prices.get(item.product_id)! }
+        : item
+      ));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load price list",
+        variant: "destructive",
+      });
+      console.error('Error loading price list:', error);
+    }
+  };
+
+  // The invoice carries the customer's name and GST details as they are at the time of sale
+  const handleCustomerChange = (customer: Customer) => {
+    setFormData({
+      ...formData,
+      customer_id: customer.id,
+      customer_name: customer.customer_name,
+      customer_gstin: customer.gstin || '',
+      customer_state_code: customer.state_code || '',
+    });
+  };
+
+  // A valid GSTIN carries the customer's state in its first two digits
+  const handleCustomerGstinChange = (value: string) => {
+    const customerGstin = value.toUpperCase();
+    setFormData({
+      ...formData,
+      customer_gstin: customerGstin,
+      customer_state_code: getGstinStateCode(customerGstin) || formData.customer_state_code,
+    });
+  };
+
   const addLineItem = () => {
     const newItem: SaleLineItem = {
       id: crypto.randomUUID(),
@@ -166,6 +273,7 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
       unit_id: '',
       quantity_strips: 0,
       cost_per_strip: 0,
+      selling_price_per_strip: 0,
       notes: '',
     };
     setLineItems([...lineItems, newItem]);
@@ -175,11 +283,12 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
     setLineItems(lineItems.filter(item => item.id !== id));
   };
 
-  const updateLineItem = (id: string, updates: Partial<SaleLineItem>) => {
-    setLineItems(lineItems.map(item => 
+  // Stable, so line items can list it as an effect dependency
+  const updateLineItem = useCallback((id: string, updates: Partial<SaleLineItem>) => {
+    setLineItems(prev => prev.map(item =>
       item.id === id ? { ...item, ...updates } : item
     ));
-  };
+  }, []);
 
   const toggleLineItemNotes = (id: string) => {
     const newExpanded = new Set(expandedLineItems);
@@ -192,7 +301,7 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
   };
 
   const handleSave = () => {
-    if (!formData.customer_name || !formData.invoice_number || lineItems.length === 0) {
+    if (!formData.customer_id || lineItems.length === 0) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields and add at least one line item",
@@ -201,9 +310,41 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
       return;
     }
 
+    if (formData.customer_gstin && !isValidGstin(formData.customer_gstin)) {
+      toast({
+        title: "Validation Error",
+        description: "Customer GSTIN is not valid. It should look like 27ABCDE1234F1Z5.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const pricingErrorIndex = lineItems.findIndex(item => item.price_error);
+    if (pricingErrorIndex >= 0) {
+      toast({
+        title: "Validation Error",
+        description: `Line ${pricingErrorIndex + 1}: ${lineItems[pricingErrorIndex].price_error}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const missingOverride = lineItems.find(item => item.batch_restriction && !item.override_justification?.trim());
+    if (missingOverride) {
+      toast({
+        title: "Validation Error",
+        description: `${missingOverride.batch_restriction}. Enter an override justification or choose another batch.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     updateSaleMutation.mutate();
   };
 
+  const saleValue = lineItems.reduce((sum, item) => sum + item.quantity_strips * (item.selling_price_per_strip || 0), 0);
+  const costValue = lineItems.reduce((sum, item) => sum + item.quantity_strips * item.cost_per_strip, 0);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -307,31 +448,19 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="customer_name" className="text-sm font-medium text-gray-700">
-                  Customer Name <span className="text-red-400">*</span>
-                </Label>
-                <Input
-                  id="customer_name"
-                  value={formData.customer_name}
-                  onChange={(e) => setFormData({...formData, customer_name: e.target.value})}
-                  placeholder="e.g., ABC Pharmacy"
-                  className="h-9 rounded-lg"
-                />
-              </div>
+              <CustomerSelect
+                value={formData.customer_id}
+                onChange={handleCustomerChange}
+                recordedName={formData.customer_name}
+              />
 
-              <div className="space-y-2">
-                <Label htmlFor="invoice_number" className="text-sm font-medium text-gray-700">
-                  Invoice Number <span className="text-red-400">*</span>
-                </Label>
-                <Input
-                  id="invoice_number"
-                  value={formData.invoice_number}
-                  onChange={(e) => setFormData({...formData, invoice_number: e.target.value})}
-                  placeholder="e.g., INV-2024-001"
-                  className="h-9 rounded-lg"
-                />
-              </div>
+              <DocumentNumberField
+                id="invoice_number"
+                label="Invoice Number"
+                documentType="TAX_INVOICE"
+                date={formData.sales_date}
+                assignedNumber={formData.invoice_number}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="sales_date" className="text-sm font-medium text-gray-700">
@@ -361,6 +490,41 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="customer_gstin" className="text-sm font-medium text-gray-700">Customer GSTIN</Label>
+                <Input
+                  id="customer_gstin"
+                  value={formData.customer_gstin}
+                  onChange={(e) => handleCustomerGstinChange(e.target.value)}
+                  placeholder="Leave blank for unregistered"
+                  maxLength={15}
+                  className="h-9 rounded-lg"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="customer_state_code" className="text-sm font-medium text-gray-700">Place of Supply</Label>
+                <Select
+                  value={formData.customer_state_code}
+                  onValueChange={(value) => setFormData({...formData, customer_state_code: value})}
+                >
+                  <SelectTrigger id="customer_state_code" className="h-9 rounded-lg">
+                    <SelectValue placeholder="Customer's state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GST_STATES.map((state) => (
+                      <SelectItem key={state.code} value={state.code}>
+                        {state.code} - {state.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <PriceListSelect value={formData.price_list_id} onChange={handlePriceListChange} />
+            </div>
+
             {showSaleNotes && (
               <div className="space-y-2 pt-2">
                 <Textarea
@@ -433,9 +597,13 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
                     <div className="border border-gray-200 rounded-xl p-4 bg-gray-50">
                       <DispatchLineItem
                         item={item}
-                        onUpdate={(updates) => updateLineItem(item.id, updates)}
+                        onUpdate={updateLineItem}
                         onRemove={() => removeLineItem(item.id)}
                         showGodownStock={true}
+                        showSellingPrice={true}
+                        priceListPrices={priceListPrices}
+                        movementDate={formData.sales_date}
+                        minShelfLifeDays={minShelfLifeDays}
                       />
                     </div>
                   </div>
@@ -471,6 +639,20 @@ const EditDirectSale = ({ saleGroupId, onClose }: EditDirectSaleProps) => {
                   {lineItems.reduce((sum, item) => sum + (item.quantity_strips * item.cost_per_strip), 0).toFixed(2)}
                 </div>
               )}
+              {lineItems.length > 0 && (
+                <div className="text-sm text-gray-600">
+                  <span className="font-medium">Sale Value:</span> ₹{saleValue.toFixed(2)}
+                  <span className={`ml-2 ${saleValue - costValue < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    (margin ₹{(saleValue - costValue).toFixed(2)})
+                  </span>
+                </div>
+              )}
+              {lineItems.length > 0 && (
+                <div className="text-sm text-gray-600">
+                  <span className="font-medium">{interState ? 'IGST' : 'CGST + SGST'}:</span> ₹
+                  {taxTotals.tax_amount.toFixed(2)}
+                </div>
+              )}
             </div>
             
 
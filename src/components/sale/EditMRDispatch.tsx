@@ -1,7 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,7 +10,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Plus, ArrowLeft, ChevronDown, ChevronUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { useMinShelfLifeDays } from '@/hooks/useFefoAllocation';
+import { getBatchValidationMessage } from '@/lib/batchValidation';
 import DispatchLineItem from '@/components/sale/SaleLineItem';
+import PriceListSelect from '@/components/sale/PriceListSelect';
+import DocumentNumberField from '@/components/documents/DocumentNumberField';
+import { fetchPriceListPrices } from '@/lib/pricing';
+import { getHoldingLimitMessage } from '@/lib/mrHoldingLimits';
 
 interface DispatchLineItem {
   id: string;
@@ -21,7 +26,11 @@ interface DispatchLineItem {
   unit_id: string;
   quantity_strips: number;
   cost_per_strip: number;
+  selling_price_per_strip: number;
+  price_error?: string | null;
   notes: string;
+  batch_restriction?: string | null;
+  override_justification?: string;
 }
 
 interface EditMRDispatchProps {
@@ -33,13 +42,14 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { profile } = useAuth();
+  const minShelfLifeDays = useMinShelfLifeDays();
 
   const [formData, setFormData] = useState({
     medical_representative_id: '',
     dispatch_note: '',
     dispatch_date: new Date().toISOString().split('T')[0],
     notes: '',
+    price_list_id: '',
   });
 
   const [lineItems, setLineItems] = useState<DispatchLineItem[]>([]);
@@ -47,14 +57,14 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
   const [expandedLineItems, setExpandedLineItems] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
 
-  // Fetch Medical Representatives (users with role 'user')
+  // Fetch Medical Representatives
   const { data: medicalReps } = useQuery({
     queryKey: ['medical-reps'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('profiles')
         .select('*')
-        .eq('role', 'user')
+        .eq('role', 'mr')
         .order('name');
       if (error) throw error;
       return data;
@@ -78,7 +88,7 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
           )
         `)
         .eq('sale_group_id', saleGroupId)
-        .eq('transaction_type', 'SALE_MR_DISPATCH');
+        .eq('transaction_type', 'DISPATCH_TO_MR');
       
       if (error) throw error;
       return data;
@@ -95,6 +105,7 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
         dispatch_note: firstDispatch.reference_document_id || '',
         dispatch_date: firstDispatch.sale_date || new Date().toISOString().split('T')[0],
         notes: firstDispatch.notes || '',
+        price_list_id: firstDispatch.price_list_id || '',
       });
 
       const items: DispatchLineItem[] = existingDispatch.map(dispatch => ({
@@ -105,7 +116,9 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
         unit_id: 'strips',
         quantity_strips: Math.abs(dispatch.quantity_strips),
         cost_per_strip: dispatch.cost_per_strip,
+        selling_price_per_strip: Number(dispatch.selling_price_per_strip) || 0,
         notes: dispatch.notes || '',
+        override_justification: dispatch.override_justification || '',
       }));
       
       setLineItems(items);
@@ -116,38 +129,25 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
   // Update dispatch mutation
   const updateDispatchMutation = useMutation({
     mutationFn: async () => {
-      // First, delete existing line items
-      const { error: deleteError } = await supabase
-        .from('stock_sales')
-        .delete()
-        .eq('sale_group_id', saleGroupId);
-      
-      if (deleteError) throw deleteError;
-
-      // Then insert updated line items
-      const dispatches = lineItems.map(item => ({
-        sale_group_id: saleGroupId,
-        product_id: item.product_id,
-        batch_id: item.batch_id,
-        transaction_type: 'SALE_MR_DISPATCH',
-        quantity_strips: item.quantity_strips,
-        location_type_source: 'GODOWN',
-        location_id_source: 'GODOWN_MAIN',
-        location_type_destination: 'MR',
-        location_id_destination: formData.medical_representative_id,
-        sale_date: formData.dispatch_date,
-        reference_document_id: formData.dispatch_note,
-        cost_per_strip: item.cost_per_strip,
-        notes: item.notes || formData.notes,
-        created_by: profile?.user_id,
-      }));
-
-      const { error } = await supabase
-        .from('stock_sales')
-        .insert(dispatches);
+      // The lines are replaced in one transaction; the dispatch keeps its delivery challan
+      const { error } = await supabase.rpc('update_mr_dispatch', {
+        p_sale_group_id: saleGroupId,
+        p_mr_user_id: formData.medical_representative_id,
+        p_dispatch_date: formData.dispatch_date,
+        p_price_list_id: formData.price_list_id || null,
+        p_notes: formData.notes,
+        p_lines: lineItems.map(item => ({
+          product_id: item.product_id,
+          batch_id: item.batch_id,
+          quantity_strips: item.quantity_strips,
+          cost_per_strip: item.cost_per_strip,
+          selling_price_per_strip: item.selling_price_per_strip,
+          notes: item.notes,
+          override_justification: item.batch_restriction ? item.override_justification : null,
+        })),
+      });
 
       if (error) throw error;
-      return dispatches;
     },
     onSuccess: () => {
       toast({
@@ -165,13 +165,42 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update MR dispatch",
+        description: getBatchValidationMessage(error) || getHoldingLimitMessage(error) || "Failed to update MR dispatch",
         variant: "destructive",
       });
       console.error('Error updating dispatch:', error);
     },
   });
 
+  // Selling prices of the chosen price list, used to price new lines
+  const { data: priceListPrices } = useQuery({
+    queryKey: ['price-list-prices', formData.price_list_id],
+    queryFn: () => fetchPriceListPrices(formData.price_list_id),
+    enabled: !!formData.price_list_id,
+  });
+
+  // Switching price list reprices the lines whose products are on it
+  const handlePriceListChange = async (priceListId: string) => {
+    setFormData(prev => ({ ...prev, price_list_id: priceListId }));
+    try {
+      const prices = await queryClient.fetchQuery({
+        queryKey: ['price-list-prices', priceListId],
+        queryFn: () => fetchPriceListPrices(priceListId),
+      });
+      setLineItems(prev => prev.map(item => prices.has(item.product_id)
+        ? { ...item, selling_price_per_strip: prices.get(item.product_id)! }
+        : item
+      ));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load price list",
+        variant: "destructive",
+      });
+      console.error('Error loading price list:', error);
+    }
+  };
+
   const addLineItem = () => {
     const newItem: DispatchLineItem = {
       id: crypto.randomUUID(),
@@ -181,6 +210,7 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
       unit_id: '',
       quantity_strips: 0,
       cost_per_strip: 0,
+      selling_price_per_strip: 0,
       notes: '',
     };
     setLineItems([...lineItems, newItem]);
@@ -190,11 +220,12 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
     setLineItems(lineItems.filter(item => item.id !== id));
   };
 
-  const updateLineItem = (id: string, updates: Partial<DispatchLineItem>) => {
-    setLineItems(lineItems.map(item => 
+  // Stable, so line items can list it as an effect dependency
+  const updateLineItem = useCallback((id: string, updates: Partial<DispatchLineItem>) => {
+    setLineItems(prev => prev.map(item =>
       item.id === id ? { ...item, ...updates } : item
     ));
-  };
+  }, []);
 
   const toggleLineItemNotes = (id: string) => {
     const newExpanded = new Set(expandedLineItems);
@@ -207,7 +238,7 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
   };
 
   const handleSave = () => {
-    if (!formData.medical_representative_id || !formData.dispatch_note || lineItems.length === 0) {
+    if (!formData.medical_representative_id || lineItems.length === 0) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields and add at least one line item",
@@ -216,9 +247,32 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
       return;
     }
 
+    const pricingErrorIndex = lineItems.findIndex(item => item.price_error);
+    if (pricingErrorIndex >= 0) {
+      toast({
+        title: "Validation Error",
+        description: `Line ${pricingErrorIndex + 1}: ${lineItems[pricingErrorIndex].price_error}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const missingOverride = lineItems.find(item => item.batch_restriction && !item.override_justification?.trim());
+    if (missingOverride) {
+      toast({
+        title: "Validation Error",
+        description: `${missingOverride.batch_restriction}. Enter an override justification or choose another batch.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     updateDispatchMutation.mutate();
   };
 
+  const saleValue = lineItems.reduce((sum, item) => sum + item.quantity_strips * (item.selling_price_per_strip || 0), 0);
+  const costValue = lineItems.reduce((sum, item) => sum + item.quantity_strips * item.cost_per_strip, 0);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -322,18 +376,13 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="dispatch_note" className="text-sm font-medium text-gray-700">
-                  Dispatch Note/Reference ID <span className="text-red-400">*</span>
-                </Label>
-                <Input
-                  id="dispatch_note"
-                  value={formData.dispatch_note}
-                  onChange={(e) => setFormData({...formData, dispatch_note: e.target.value})}
-                  placeholder="e.g., DISP-2024-001"
-                  className="h-9 rounded-lg"
-                />
-              </div>
+              <DocumentNumberField
+                id="dispatch_note"
+                label="Dispatch Note/Reference ID"
+                documentType="DELIVERY_CHALLAN"
+                date={formData.dispatch_date}
+                assignedNumber={formData.dispatch_note}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="dispatch_date" className="text-sm font-medium text-gray-700">
@@ -363,6 +412,10 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+              <PriceListSelect value={formData.price_list_id} onChange={handlePriceListChange} />
+            </div>
+
             {showDispatchNotes && (
               <div className="space-y-2 pt-2">
                 <Textarea
@@ -435,9 +488,13 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
                     <div className="border border-gray-200 rounded-xl p-4 bg-gray-50">
                       <DispatchLineItem
                         item={item}
-                        onUpdate={(updates) => updateLineItem(item.id, updates)}
+                        onUpdate={updateLineItem}
                         onRemove={() => removeLineItem(item.id)}
                         showGodownStock={true}
+                        showSellingPrice={true}
+                        priceListPrices={priceListPrices}
+                        movementDate={formData.dispatch_date}
+                        minShelfLifeDays={minShelfLifeDays}
                       />
                     </div>
                   </div>
@@ -473,6 +530,14 @@ const EditMRDispatch = ({ saleGroupId, onClose }: EditMRDispatchProps) => {
                   {lineItems.reduce((sum, item) => sum + (item.quantity_strips * item.cost_per_strip), 0).toFixed(2)}
                 </div>
               )}
+              {lineItems.length > 0 && (
+                <div className="text-sm text-gray-600">
+                  <span className="font-medium">Sale Value:</span> ₹{saleValue.toFixed(2)}
+                  <span className={`ml-2 ${saleValue - costValue < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    (margin ₹{(saleValue - costValue).toFixed(2)})
+                  </span>
+                </div>
+              )}
             </div>
             
             <div className="flex items-center gap-3">
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { HoldingLimit, HoldingLimitInput, saveHoldingLimit } from '@/lib/mrHoldingLimits';
+
+interface HoldingLimitFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mrUserId: string;
+  // The limit being edited; a new one is added when null
+  limit: HoldingLimit | null;
+  // The MR's other limits, whose products cannot be limited twice
+  existingLimits: HoldingLimit[];
+}
+
+const OVERALL_LIMIT = 'overall';
+
+const HoldingLimitFormDialog = ({ open, onOpenChange, mrUserId, limit, existingLimits }: HoldingLimitFormDialogProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<HoldingLimitInput>({
+    mr_user_id: mrUserId,
+    product_id: '',
+    max_quantity_strips: '',
+    max_value: '',
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ['products-for-limits'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name, product_code')
+        .eq('is_active', true)
+        .order('product_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData({
+      mr_user_id: mrUserId,
+      product_id: limit?.product_id || '',
+      max_quantity_strips: limit?.max_quantity_strips?.toString() || '',
+      max_value: limit?.max_value?.toString() || '',
+    });
+  }, [open, limit, mrUserId]);
+
+  const saveLimitMutation = useMutation({
+    mutationFn: () => saveHoldingLimit(formData, user?.id, limit?.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['holding-limits'] });
+      toast({
+        title: "Success",
+        description: `Holding limit ${limit ? 'updated' : 'added'} successfully.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${limit ? 'update' : 'add'} the holding limit. The product may already have one.`,
+        variant: "destructive",
+      });
+      console.error('Error saving holding limit:', error);
+    },
+  });
+
+  const isOverall = !formData.product_id;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.max_value === '' && (isOverall || formData.max_quantity_strips === '')) {
+      toast({
+        title: "Error",
+        description: isOverall
+          ? "Enter the most stock value the MR may hold."
+          : "Enter a strip limit, a value limit or both.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveLimitMutation.mutate();
+  };
+
+  const usedProductIds = new Set(existingLimits
+    .filter(existing => existing.id !== limit?.id)
+    .map(existing => existing.product_id || OVERALL_LIMIT));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{limit ? 'Edit Holding Limit' : 'Add Holding Limit'}</DialogTitle>
+          <DialogDescription>
+            Dispatches that would take the MR over a limit are sent for approval instead of being posted.
+            Values are at cost.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="product_id">Applies To *</Label>
+            <Select
+              value={formData.product_id || OVERALL_LIMIT}
+              onValueChange={(value) => setFormData({
+                ...formData,
+                product_id: value === OVERALL_LIMIT ? '' : value,
+                max_quantity_strips: value === OVERALL_LIMIT ? '' : formData.max_quantity_strips,
+              })}
+              disabled={!!limit}
+            >
+              <SelectTrigger id="product_id">
+                <SelectValue placeholder="Select product" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OVERALL_LIMIT} disabled={usedProductIds.has(OVERALL_LIMIT)}>
+                  All products (total value)
+                </SelectItem>
+                {products?.map((product) => (
+                  <SelectItem key={product.id} value={product.id} disabled={usedProductIds.has(product.id)}>
+                    {product.product_name} ({product.product_code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="max_quantity_strips">Max Strips</Label>
+              <Input
+                id="max_quantity_strips"
+                type="number"
+                min="0"
+                value={formData.max_quantity_strips}
+                onChange={(e) => setFormData({ ...formData, max_quantity_strips: e.target.value })}
+                placeholder={isOverall ? 'Per product only' : 'No limit'}
+                disabled={isOverall}
+              />
+            </div>
+            <div>
+              <Label htmlFor="max_value">Max Value (₹)</Label>
+              <Input
+                id="max_value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.max_value}
+                onChange={(e) => setFormData({ ...formData, max_value: e.target.value })}
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button type="submit" disabled={saveLimitMutation.isPending}>
+              {limit ? 'Update' : 'Add'} Limit
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HoldingLimitFormDialog;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
@@ -8,10 +8,23 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Plus, ArrowLeft, ChevronDown, ChevronUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
+import { useFefoAllocation } from '@/hooks/useFefoAllocation';
+import { getBatchValidationMessage } from '@/lib/batchValidation';
 import DispatchLineItem from '@/components/sale/SaleLineItem';
+import PriceListSelect from '@/components/sale/PriceListSelect';
+import DocumentNumberField from '@/components/documents/DocumentNumberField';
+import { fetchPriceListPrices } from '@/lib/pricing';
+import {
+  LimitBreach,
+  checkDispatchLimits,
+  createDispatchRequest,
+  describeLimitBreach,
+  getHoldingLimitMessage,
+} from '@/lib/mrHoldingLimits';
 
 interface DispatchLineItem {
   id: string;
@@ -21,7 +34,11 @@ interface DispatchLineItem {
   unit_id: string;
   quantity_strips: number;
   cost_per_strip: number;
+  selling_price_per_strip: number;
+  price_error?: string | null;
   notes: string;
+  batch_restriction?: string | null;
+  override_justification?: string;
 }
 
 interface NewMRDispatchProps {
@@ -36,32 +53,55 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
 
   const [formData, setFormData] = useState({
     mr_user_id: '',
-    dispatch_reference: '',
     dispatch_date: new Date().toISOString().split('T')[0],
     notes: '',
+    price_list_id: '',
   });
 
   const [lineItems, setLineItems] = useState<DispatchLineItem[]>([]);
   const [showDispatchNotes, setShowDispatchNotes] = useState(false);
   const [expandedLineItems, setExpandedLineItems] = useState<Set<string>>(new Set());
+  const {
+    minShelfLifeDays,
+    canChangeMinShelfLife,
+    handleMinShelfLifeChange,
+    allocatingLineId,
+    autoAllocateLineItem,
+  } = useFefoAllocation(lineItems, setLineItems, formData.dispatch_date);
+  // Set when the dispatch would take the MR over a holding limit; it then goes for approval
+  const [limitBreaches, setLimitBreaches] = useState<LimitBreach[] | null>(null);
 
-  // Fetch Medical Representatives (users with role 'user' for now)
+  // Fetch Medical Representatives
   const { data: medicalReps } = useQuery({
     queryKey: ['medical-reps'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('profiles')
         .select('*')
-        .eq('role', 'user')
+        .eq('role', 'mr')
         .order('name');
       if (error) throw error;
       return data;
     },
   });
 
-  // Save dispatch mutation
+  const closeDispatch = () => {
+    if (onClose) {
+      onClose();
+    } else {
+      navigate('/admin/stock/sale');
+    }
+  };
+
+  // Save dispatch mutation. A dispatch over the MR's holding limits is not posted; the
+  // breaches are returned so it can be sent for approval instead.
   const saveDispatchMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (): Promise<{ challanNumber?: string | null; breaches: LimitBreach[] }> => {
+      const breaches = await checkDispatchLimits(formData.mr_user_id, lineItems);
+      if (breaches.length > 0) {
+        return { breaches };
+      }
+
       const sale_group_id = crypto.randomUUID();
       
       const sales = lineItems.map(item => ({
@@ -75,41 +115,110 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
         location_type_destination: 'MR',
         location_id_destination: formData.mr_user_id,
         sale_date: formData.dispatch_date,
-        reference_document_id: formData.dispatch_reference,
         cost_per_strip: item.cost_per_strip,
+        selling_price_per_strip: item.selling_price_per_strip,
+        price_list_id: formData.price_list_id || null,
         notes: item.notes || formData.notes,
+        override_justification: item.batch_restriction ? item.override_justification : null,
         created_by: profile?.user_id,
       }));
 
-      const { error } = await supabase
+      // The database numbers the delivery challan as the lines are inserted
+      const { data, error } = await supabase
         .from('stock_sales')
-        .insert(sales);
+        .insert(sales)
+        .select('reference_document_id');
 
       if (error) throw error;
-      return sales;
+      return { challanNumber: data?.[0]?.reference_document_id, breaches: [] };
     },
-    onSuccess: () => {
+    onSuccess: ({ challanNumber, breaches }) => {
+      if (breaches.length > 0) {
+        setLimitBreaches(breaches);
+        return;
+      }
       toast({
         title: "Success",
-        description: "MR dispatch saved successfully",
+        description: `MR dispatch saved as delivery challan ${challanNumber}`,
       });
       queryClient.invalidateQueries({ queryKey: ['stock-sales'] });
-      if (onClose) {
-        onClose();
-      } else {
-        navigate('/admin/stock/sale');
-      }
+      queryClient.invalidateQueries({ queryKey: ['document-number-preview'] });
+      closeDispatch();
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to save MR dispatch",
+        description: getBatchValidationMessage(error) || getHoldingLimitMessage(error) || "Failed to save MR dispatch",
         variant: "destructive",
       });
       console.error('Error saving dispatch:', error);
     },
   });
 
+  const requestApprovalMutation = useMutation({
+    mutationFn: () => createDispatchRequest({
+      mrUserId: formData.mr_user_id,
+      dispatchDate: formData.dispatch_date,
+      priceListId: formData.price_list_id || null,
+      notes: formData.notes,
+      lines: lineItems.map(item => ({
+        product_id: item.product_id,
+        batch_id: item.batch_id,
+        quantity_strips: item.quantity_strips,
+        cost_per_strip: item.cost_per_strip,
+        selling_price_per_strip: item.selling_price_per_strip,
+        notes: item.notes,
+        override_justification: item.batch_restriction ? item.override_justification || null : null,
+      })),
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "The dispatch has been sent for approval. It is posted once a manager approves it.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['dispatch-requests'] });
+      setLimitBreaches(null);
+      closeDispatch();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to send the dispatch for approval",
+        variant: "destructive",
+      });
+      console.error('Error requesting dispatch approval:', error);
+    },
+  });
+
+  // Selling prices of the chosen price list, used to price new lines
+  const { data: priceListPrices } = useQuery({
+    queryKey: ['price-list-prices', formData.price_list_id],
+    queryFn: () => fetchPriceListPrices(formData.price_list_id),
+    enabled: !!formData.price_list_id,
+  });
+
+  // Switching price list reprices the lines whose products are on it
+  const handlePriceListChange = async (priceListId: string) => {
+    setFormData(prev => ({ ...prev, price_list_id: priceListId }));
+    try {
+      const prices = await queryClient.fetchQuery({
+        queryKey: ['price-list-prices', priceListId],
+        queryFn: () => fetchPriceListPrices(priceListId),
+      });
+      setLineItems(prev => prev.map(item => prices.has(item.product_id)
+        ? { ...item, selling_price_per_strip: prices.get(item.product_id)! }
+        : item
+      ));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load price list",
+        variant: "destructive",
+      });
+      console.error('Error loading price list:', error);
+    }
+  };
+
   const addLineItem = () => {
     const newItem: DispatchLineItem = {
       id: crypto.randomUUID(),
@@ -119,6 +228,7 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
       unit_id: '',
       quantity_strips: 0,
       cost_per_strip: 0,
+      selling_price_per_strip: 0,
       notes: '',
     };
     setLineItems([...lineItems, newItem]);
@@ -128,11 +238,12 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
     setLineItems(lineItems.filter(item => item.id !== id));
   };
 
-  const updateLineItem = (id: string, updates: Partial<DispatchLineItem>) => {
-    setLineItems(lineItems.map(item => 
+  // Stable, so line items can list it as an effect dependency
+  const updateLineItem = useCallback((id: string, updates: Partial<DispatchLineItem>) => {
+    setLineItems(prev => prev.map(item =>
       item.id === id ? { ...item, ...updates } : item
     ));
-  };
+  }, []);
 
   const toggleLineItemNotes = (id: string) => {
     const newExpanded = new Set(expandedLineItems);
@@ -144,6 +255,9 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
     setExpandedLineItems(newExpanded);
   };
 
+  const saleValue = lineItems.reduce((sum, item) => sum + item.quantity_strips * (item.selling_price_per_strip || 0), 0);
+  const costValue = lineItems.reduce((sum, item) => sum + item.quantity_strips * item.cost_per_strip, 0);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -167,7 +281,7 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
   }, [onClose, navigate]);
 
   const handleSave = () => {
-    if (!formData.mr_user_id || !formData.dispatch_reference || lineItems.length === 0) {
+    if (!formData.mr_user_id || lineItems.length === 0) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields and add at least one line item",
@@ -176,6 +290,26 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
       return;
     }
 
+    const pricingErrorIndex = lineItems.findIndex(item => item.price_error);
+    if (pricingErrorIndex >= 0) {
+      toast({
+        title: "Validation Error",
+        description: `Line ${pricingErrorIndex + 1}: ${lineItems[pricingErrorIndex].price_error}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const missingOverride = lineItems.find(item => item.batch_restriction && !item.override_justification?.trim());
+    if (missingOverride) {
+      toast({
+        title: "Validation Error",
+        description: `${missingOverride.batch_restriction}. Enter an override justification or choose another batch.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     saveDispatchMutation.mutate();
   };
 
@@ -240,18 +374,12 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="dispatch_reference" className="text-sm font-medium text-gray-700">
-                  Dispatch Reference <span className="text-red-400">*</span>
-                </Label>
-                <Input
-                  id="dispatch_reference"
-                  value={formData.dispatch_reference}
-                  onChange={(e) => setFormData({...formData, dispatch_reference: e.target.value})}
-                  placeholder="e.g., DISP-2024-001"
-                  className="h-9 rounded-lg"
-                />
-              </div>
+              <DocumentNumberField
+                id="dispatch_reference"
+                label="Dispatch Reference"
+                documentType="DELIVERY_CHALLAN"
+                date={formData.dispatch_date}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="dispatch_date" className="text-sm font-medium text-gray-700">
@@ -281,6 +409,10 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+              <PriceListSelect value={formData.price_list_id} onChange={handlePriceListChange} />
+            </div>
+
             {showDispatchNotes && (
               <div className="space-y-2 pt-2">
                 <Textarea
@@ -312,6 +444,22 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
                 </p>
               </div>
               <div className="flex items-center gap-2">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="min_shelf_life" className="text-xs text-gray-500 whitespace-nowrap">
+                    FEFO min. shelf life (days)
+                  </Label>
+                  <Input
+                    id="min_shelf_life"
+                    type="number"
+                    min="0"
+                    key={minShelfLifeDays}
+                    defaultValue={minShelfLifeDays}
+                    onBlur={(e) => handleMinShelfLifeChange(e.target.value)}
+                    disabled={!canChangeMinShelfLife}
+                    title="Batches expiring within this many days need an override to leave the godown"
+                    className="h-8 w-20 text-sm rounded-lg"
+                  />
+                </div>
                 <div className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded-lg">
                   Tab to navigate
                 </div>
@@ -353,9 +501,15 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
                     <div className="border border-gray-200 rounded-xl p-4 bg-gray-50">
                       <DispatchLineItem
                         item={item}
-                        onUpdate={(updates) => updateLineItem(item.id, updates)}
+                        onUpdate={updateLineItem}
                         onRemove={() => removeLineItem(item.id)}
                         showGodownStock={true}
+                        showSellingPrice={true}
+                        priceListPrices={priceListPrices}
+                        movementDate={formData.dispatch_date}
+                        minShelfLifeDays={minShelfLifeDays}
+                        onAutoAllocate={() => autoAllocateLineItem(item.id)}
+                        isAllocating={allocatingLineId === item.id}
                       />
                     </div>
                   </div>
@@ -391,6 +545,14 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
                   {lineItems.reduce((sum, item) => sum + (item.quantity_strips * item.cost_per_strip), 0).toFixed(2)}
                 </div>
               )}
+              {lineItems.length > 0 && (
+                <div className="text-sm text-gray-600">
+                  <span className="font-medium">Sale Value:</span> ₹{saleValue.toFixed(2)}
+                  <span className={`ml-2 ${saleValue - costValue < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    (margin ₹{(saleValue - costValue).toFixed(2)})
+                  </span>
+                </div>
+              )}
             </div>
             
             <div className="flex items-center gap-3">
@@ -403,7 +565,7 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
               </Button>
               <Button 
                 onClick={handleSave}
-                disabled={saveDispatchMutation.isPending || lineItems.length === 0}
+                disabled={saveDispatchMutation.isPending || requestApprovalMutation.isPending || lineItems.length === 0}
                 className="px-6 bg-blue-600 hover:bg-blue-700 rounded-lg"
               >
                 {saveDispatchMutation.isPending ? (
@@ -419,6 +581,32 @@ const NewMRDispatch = ({ onClose }: NewMRDispatchProps = {}) => {
           </div>
         </div>
       </div>
+
+      <AlertDialog open={!!limitBreaches} onOpenChange={(open) => !open && setLimitBreaches(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Over Holding Limit</AlertDialogTitle>
+            <AlertDialogDescription>
+              This dispatch would take {medicalReps?.find(mr => mr.user_id === formData.mr_user_id)?.name || 'the MR'} over
+              their holding limits. It can be sent to a manager for approval and is posted once approved.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+            {limitBreaches?.map((breach, index) => (
+              <li key={index}>{describeLimitBreach(breach)}</li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => requestApprovalMutation.mutate()}
+              disabled={requestApprovalMutation.isPending}
+            >
+              {requestApprovalMutation.isPending ? 'Sending...' : 'Send for Approval'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
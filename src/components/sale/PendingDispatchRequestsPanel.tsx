@@ -0,0 +1,111 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Hourglass, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import DispatchRequestLines from '@/components/sale/DispatchRequestLines';
+import { cancelDispatchRequest, fetchDispatchRequests } from '@/lib/mrHoldingLimits';
+
+// The signed-in user's MR dispatches that are waiting for a manager's approval
+const PendingDispatchRequestsPanel = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: requests } = useQuery({
+    queryKey: ['dispatch-requests', 'mine', user?.id],
+    queryFn: () => fetchDispatchRequests({ requestedBy: user!.id, status: 'Pending' }),
+    enabled: !!user,
+  });
+
+  const { data: medicalReps } = useQuery({
+    queryKey: ['medical-reps-names'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const getMRName = (mrUserId: string) =>
+    medicalReps?.find(mr => mr.user_id === mrUserId)?.name || mrUserId;
+
+  const cancelMutation = useMutation({
+    mutationFn: cancelDispatchRequest,
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Dispatch request withdrawn",
+      });
+      queryClient.invalidateQueries({ queryKey: ['dispatch-requests'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to withdraw dispatch request",
+        variant: "destructive",
+      });
+      console.error('Error cancelling dispatch request:', error);
+    },
+  });
+
+  if (!requests?.length) return null;
+
+  return (
+    <div className="bg-white rounded-lg border mb-6">
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Hourglass className="h-5 w-5 text-amber-600" />
+          Dispatches Awaiting Approval
+          <Badge variant="secondary">{requests.length}</Badge>
+        </h2>
+        <p className="text-sm text-gray-500">
+          These go over the MR's holding limits and are posted once a manager approves them
+        </p>
+      </div>
+      <div className="p-4 overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>MR</TableHead>
+              <TableHead>Dispatch Date</TableHead>
+              <TableHead>Products</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.map(request => (
+              <TableRow key={request.id}>
+                <TableCell className="font-medium">{getMRName(request.mr_user_id)}</TableCell>
+                <TableCell>{new Date(request.dispatch_date).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <DispatchRequestLines lines={request.mr_dispatch_request_lines} />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => cancelMutation.mutate(request.id)}
+                    disabled={cancelMutation.isPending}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Withdraw
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default PendingDispatchRequestsPanel;
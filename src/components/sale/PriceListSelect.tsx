@@ -0,0 +1,37 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchPriceLists } from '@/lib/pricing';
+
+interface PriceListSelectProps {
+  value: string;
+  onChange: (priceListId: string) => void;
+}
+
+const PriceListSelect = ({ value, onChange }: PriceListSelectProps) => {
+  const { data: priceLists } = useQuery({
+    queryKey: ['price-lists', 'active'],
+    queryFn: () => fetchPriceLists(true),
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="price_list" className="text-sm font-medium text-gray-700">Price List</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id="price_list" className="h-9 rounded-lg">
+          <SelectValue placeholder="Prices entered per line" />
+        </SelectTrigger>
+        <SelectContent>
+          {priceLists?.map((priceList) => (
+            <SelectItem key={priceList.id} value={priceList.id}>
+              {priceList.price_list_name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default PriceListSelect;
@@ -6,8 +6,11 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Trash2, AlertTriangle, ChevronUp, ChevronDown } from 'lucide-react';
+import { Trash2, AlertTriangle, ChevronUp, ChevronDown, Wand2 } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuth } from '@/hooks/useAuth';
+import { getBatchRestriction } from '@/lib/batchValidation';
+import { getSellingPriceError } from '@/lib/pricing';
 
 interface DispatchLineItemProps {
   item: {
@@ -18,11 +21,23 @@ interface DispatchLineItemProps {
     unit_id: string;
     quantity_strips: number;
     cost_per_strip: number;
+    selling_price_per_strip?: number;
+    price_error?: string | null;
     notes: string;
+    batch_restriction?: string | null;
+    override_justification?: string;
   };
-  onUpdate: (updates: Partial<DispatchLineItemProps['item']>) => void;
+  // Called with the line's id; keep it stable (useCallback), the effects below depend on it
+  onUpdate: (id: string, updates: Partial<DispatchLineItemProps['item']>) => void;
   onRemove: () => void;
   showGodownStock?: boolean;
+  movementDate?: string;
+  // Batches expiring within this many days of the movement date need an override
+  minShelfLifeDays?: number;
+  onAutoAllocate?: () => void;
+  isAllocating?: boolean;
+  showSellingPrice?: boolean;
+  priceListPrices?: Map<string, number>;
 }
 
 const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
@@ -30,8 +45,16 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
   onUpdate,
   onRemove,
   showGodownStock = false,
+  movementDate,
+  minShelfLifeDays = 0,
+  onAutoAllocate,
+  isAllocating = false,
+  showSellingPrice = false,
+  priceListPrices,
 }) => {
   const [availableStock, setAvailableStock] = useState<number>(0);
+  const { can } = useAuth();
+  const canOverrideBatch = can('override_batch_restriction');
 
   // Fetch products
   const { data: products } = useQuery({
@@ -47,7 +70,7 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
     },
   });
 
-  // Fetch batches for selected product
+  // Fetch batches for selected product; restricted batches are listed with the reason
   const { data: batches } = useQuery({
     queryKey: ['product-batches', item.product_id],
     queryFn: async () => {
@@ -56,7 +79,6 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
         .from('product_batches')
         .select('*')
         .eq('product_id', item.product_id)
-        .eq('status', 'Active')
         .order('expiry_date');
       if (error) throw error;
       return data;
@@ -152,28 +174,47 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
       const selectedUnit = packagingUnits.find(unit => unit.id === item.unit_id);
       if (selectedUnit) {
         const quantityInStrips = item.quantity * selectedUnit.conversion_factor_to_strips;
-        onUpdate({ quantity_strips: quantityInStrips });
+        onUpdate(item.id, { quantity_strips: quantityInStrips });
       }
     }
-  }, [item.quantity, item.unit_id, packagingUnits]);
+  }, [item.id, item.quantity, item.unit_id, packagingUnits, onUpdate]);
 
   // Update cost per strip when batch changes
   useEffect(() => {
     if (item.batch_id && batches) {
       const selectedBatch = batches.find(batch => batch.id === item.batch_id);
       if (selectedBatch?.batch_cost_per_strip) {
-        onUpdate({ cost_per_strip: selectedBatch.batch_cost_per_strip });
+        onUpdate(item.id, { cost_per_strip: selectedBatch.batch_cost_per_strip });
       } else if (item.product_id && products) {
         const selectedProduct = products.find(product => product.id === item.product_id);
         if (selectedProduct) {
-          onUpdate({ cost_per_strip: selectedProduct.base_cost_per_strip });
+          onUpdate(item.id, { cost_per_strip: selectedProduct.base_cost_per_strip });
         }
       }
     }
-  }, [item.batch_id, batches, item.product_id, products]);
+  }, [item.id, item.batch_id, batches, item.product_id, products, onUpdate]);
 
   const selectedProduct = products?.find(p => p.id === item.product_id);
   const selectedBatch = batches?.find(b => b.id === item.batch_id);
+  const batchRestriction = selectedBatch ? getBatchRestriction(selectedBatch, movementDate, minShelfLifeDays) : null;
+
+  // Let the form know the line needs an override before it can be saved
+  useEffect(() => {
+    const reason = batchRestriction?.reason || null;
+    if ((item.batch_restriction || null) !== reason) {
+      onUpdate(item.id, { batch_restriction: reason });
+    }
+  }, [item.id, batchRestriction?.reason, item.batch_restriction, onUpdate]);
+
+  // Likewise for a missing selling price or one above the batch MRP
+  const priceError = showSellingPrice && item.product_id
+    ? getSellingPriceError(item.selling_price_per_strip, selectedBatch?.mrp_per_strip)
+    : null;
+  useEffect(() => {
+    if ((item.price_error || null) !== priceError) {
+      onUpdate(item.id, { price_error: priceError });
+    }
+  }, [item.id, priceError, item.price_error, onUpdate]);
   const isQuantityExceeded = showGodownStock && item.quantity_strips > availableStock;
 
   const [showNotes, setShowNotes] = useState(false);
@@ -186,12 +227,13 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
           <Label className="text-xs font-medium text-gray-600">Product *</Label>
           <Select 
             value={item.product_id} 
-            onValueChange={(value) => onUpdate({ 
+            onValueChange={(value) => onUpdate(item.id, { 
               product_id: value, 
               batch_id: '', 
               unit_id: '',
               quantity: 0,
-              quantity_strips: 0 
+              quantity_strips: 0,
+              ...(showSellingPrice && { selling_price_per_strip: priceListPrices?.get(value) || 0 }),
             })}
           >
             <SelectTrigger className="h-8 text-sm">
@@ -213,18 +255,27 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
           <div className="flex items-center gap-2">
             <Select 
               value={item.batch_id} 
-              onValueChange={(value) => onUpdate({ batch_id: value })}
+              onValueChange={(value) => onUpdate(item.id, { batch_id: value })}
               disabled={!item.product_id}
             >
               <SelectTrigger className="h-8 text-sm">
                 <SelectValue placeholder="Select batch" />
               </SelectTrigger>
               <SelectContent>
-                {batches?.map((batch) => (
-                  <SelectItem key={batch.id} value={batch.id} className="text-sm">
-                    {batch.batch_number} (Exp: {new Date(batch.expiry_date).toLocaleDateString()})
-                  </SelectItem>
-                ))}
+                {batches?.map((batch) => {
+                  const restriction = getBatchRestriction(batch, movementDate, minShelfLifeDays);
+                  return (
+                    <SelectItem
+                      key={batch.id}
+                      value={batch.id}
+                      className="text-sm"
+                      disabled={!!restriction && (!restriction.canOverride || !canOverrideBatch)}
+                    >
+                      {batch.batch_number} (Exp: {new Date(batch.expiry_date).toLocaleDateString()})
+                      {restriction && ` - ${restriction.reason.replace(`Batch ${batch.batch_number} `, '')}`}
+                    </SelectItem>
+                  );
+                })}
               </SelectContent>
             </Select>
             {selectedBatch && showGodownStock && (
@@ -232,6 +283,20 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
                 Stock: {availableStock}
               </span>
             )}
+            {onAutoAllocate && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={onAutoAllocate}
+                disabled={!item.product_id || !item.unit_id || !item.quantity_strips || isAllocating}
+                title="Split the quantity across godown batches, earliest expiry first"
+                className="h-8 text-xs whitespace-nowrap"
+              >
+                <Wand2 className="h-3 w-3 mr-1" />
+                {isAllocating ? 'Allocating...' : 'FEFO'}
+              </Button>
+            )}
           </div>
         </div>
 
@@ -241,7 +306,7 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
           <Input
             type="number"
             value={item.quantity || ''}
-            onChange={(e) => onUpdate({ quantity: parseInt(e.target.value) || 0 })}
+            onChange={(e) => onUpdate(item.id, { quantity: parseInt(e.target.value) || 0 })}
             placeholder="Qty"
             min="1"
             className="h-8 text-sm"
@@ -253,7 +318,7 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
           <Label className="text-xs font-medium text-gray-600">Unit *</Label>
           <Select 
             value={item.unit_id} 
-            onValueChange={(value) => onUpdate({ unit_id: value })}
+            onValueChange={(value) => onUpdate(item.id, { unit_id: value })}
             disabled={!item.product_id}
           >
             <SelectTrigger className="h-8 text-sm">
@@ -289,6 +354,25 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
           />
         </div>
 
+        {/* Selling price */}
+        {showSellingPrice && (
+          <div className="w-28">
+            <Label className="text-xs font-medium text-gray-600">Price/Strip *</Label>
+            <Input
+              type="number"
+              value={item.selling_price_per_strip || ''}
+              onChange={(e) => onUpdate(item.id, { selling_price_per_strip: parseFloat(e.target.value) || 0 })}
+              placeholder="0.00"
+              min="0"
+              step="0.01"
+              className={`h-8 text-sm ${item.product_id && priceError ? 'border-red-400' : ''}`}
+            />
+            {selectedBatch?.mrp_per_strip && (
+              <p className="text-xs text-gray-500 mt-0.5">MRP ₹{Number(selectedBatch.mrp_per_strip).toFixed(2)}</p>
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex items-end gap-2 ml-auto">
           <Button
@@ -311,6 +395,43 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
         </div>
       </div>
 
+      {/* Batch restriction and override */}
+      {batchRestriction && (
+        <div className="mt-2 space-y-2">
+          <Alert variant="destructive" className="py-2">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="text-xs">
+              {batchRestriction.reason}.{' '}
+              {batchRestriction.canOverride && canOverrideBatch
+                ? 'Enter a justification to override.'
+                : 'This batch cannot be dispatched or sold.'}
+            </AlertDescription>
+          </Alert>
+          {batchRestriction.canOverride && canOverrideBatch && (
+            <div>
+              <Label className="text-xs font-medium text-gray-600">Override Justification *</Label>
+              <Textarea
+                value={item.override_justification || ''}
+                onChange={(e) => onUpdate(item.id, { override_justification: e.target.value })}
+                placeholder="Why this batch is being released despite the restriction"
+                rows={2}
+                className="text-sm"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Price above MRP */}
+      {priceError && !!item.selling_price_per_strip && (
+        <div className="mt-2">
+          <Alert variant="destructive" className="py-2">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="text-xs">{priceError}</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {/* Validation Alert */}
       {isQuantityExceeded && (
         <div className="mt-2">
@@ -329,7 +450,7 @@ const DispatchLineItem: React.FC<DispatchLineItemProps> = ({
           <Label className="text-xs font-medium text-gray-600">Notes</Label>
           <Textarea
             value={item.notes}
-            onChange={(e) => onUpdate({ notes: e.target.value })}
+            onChange={(e) => onUpdate(item.id, { notes: e.target.value })}
             placeholder="Add notes for this line item (optional)"
             rows={2}
             className="text-sm"
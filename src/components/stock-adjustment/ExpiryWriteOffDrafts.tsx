@@ -0,0 +1,201 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CalendarX, Check, Loader2, PlayCircle, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  ExpiryWriteOffDraft,
+  dismissExpiryDraft,
+  fetchExpiryDrafts,
+  postExpiryDraft,
+  runExpiryJob,
+} from '@/lib/expiryWriteOffs';
+
+interface ExpiryWriteOffDraftsProps {
+  onPosted: () => void;
+}
+
+const ExpiryWriteOffDrafts: React.FC<ExpiryWriteOffDraftsProps> = ({ onPosted }) => {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: drafts, isLoading } = useQuery({
+    queryKey: ['expiry-write-off-drafts'],
+    queryFn: fetchExpiryDrafts,
+  });
+
+  // MR names for MR-held drafts
+  const { data: medicalReps } = useQuery({
+    queryKey: ['medical-reps-names'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const getLocationLabel = (draft: ExpiryWriteOffDraft) => {
+    if (draft.location_type === 'GODOWN') return 'Godown';
+    return medicalReps?.find(mr => mr.user_id === draft.location_id)?.name || draft.location_id;
+  };
+
+  const runJobMutation = useMutation({
+    mutationFn: () => runExpiryJob(),
+    onSuccess: (result) => {
+      toast({
+        title: "Success",
+        description: `${result.batches_marked} batch(es) marked Expired, ${result.drafts_proposed} write-off draft(s) proposed`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['expiry-write-off-drafts'] });
+      queryClient.invalidateQueries({ queryKey: ['product-batches'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to run the expiry check",
+        variant: "destructive",
+      });
+      console.error('Error running expiry job:', error);
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ draft, action }: { draft: ExpiryWriteOffDraft; action: 'post' | 'dismiss' }) =>
+      action === 'post'
+        ? postExpiryDraft(draft)
+        : dismissExpiryDraft(draft, profile?.user_id),
+    onSuccess: (_, { action }) => {
+      toast({
+        title: "Success",
+        description: action === 'post' ? "Expiry write-off posted" : "Draft dismissed",
+      });
+      queryClient.invalidateQueries({ queryKey: ['expiry-write-off-drafts'] });
+      if (action === 'post') onPosted();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update the write-off draft",
+        variant: "destructive",
+      });
+      console.error('Error reviewing expiry draft:', error);
+    },
+  });
+
+  const totalValue = drafts?.reduce((sum, draft) => sum + draft.quantity_strips * draft.cost_per_strip, 0) || 0;
+
+  return (
+    <div className="bg-white rounded-lg border mb-6">
+      <div className="p-4 border-b flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <CalendarX className="h-5 w-5 text-red-600" />
+            Expiry Write-off Drafts
+            {!!drafts?.length && <Badge variant="destructive">{drafts.length}</Badge>}
+          </h2>
+          <p className="text-sm text-gray-500">
+            Proposed by the daily expiry check for every location still holding expired stock
+            {!!drafts?.length && ` (₹${totalValue.toFixed(2)} at cost)`}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => runJobMutation.mutate()}
+          disabled={runJobMutation.isPending}
+        >
+          {runJobMutation.isPending
+            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            : <PlayCircle className="h-4 w-4 mr-2" />}
+          Run Expiry Check
+        </Button>
+      </div>
+      <div className="p-4">
+        {isLoading ? (
+          <div className="text-center py-4 flex items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span>Loading drafts...</span>
+          </div>
+        ) : !drafts?.length ? (
+          <div className="text-center py-4 text-gray-500">No expiry write-offs waiting for review</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Expired On</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drafts.map(draft => (
+                  <TableRow key={draft.id}>
+                    <TableCell>
+                      <div className="font-medium">{draft.products?.product_name}</div>
+                      <div className="text-sm text-gray-500">{draft.products?.product_code}</div>
+                    </TableCell>
+                    <TableCell>
+                      <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+                        {draft.product_batches?.batch_number}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {draft.product_batches && new Date(draft.product_batches.expiry_date).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        <div className="font-medium">{draft.location_type}</div>
+                        <div className="text-gray-500 text-xs">{getLocationLabel(draft)}</div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{draft.quantity_strips} strips</TableCell>
+                    <TableCell className="text-right">
+                      ₹{(draft.quantity_strips * draft.cost_per_strip).toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => reviewMutation.mutate({ draft, action: 'post' })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Post
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => reviewMutation.mutate({ draft, action: 'dismiss' })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Dismiss
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExpiryWriteOffDrafts;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, Loader2, Undo2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getBatchValidationMessage } from '@/lib/batchValidation';
+import ReturnRequestLines from '@/components/mr/ReturnRequestLines';
+import {
+  ReturnRequestWithLines,
+  approveReturnRequest,
+  fetchReturnRequests,
+  rejectReturnRequest,
+} from '@/lib/mrPortal';
+
+interface MRReturnRequestsPanelProps {
+  onApproved: () => void;
+}
+
+const MRReturnRequestsPanel: React.FC<MRReturnRequestsPanelProps> = ({ onApproved }) => {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+
+  const { data: requests, isLoading } = useQuery({
+    queryKey: ['return-requests', 'pending'],
+    queryFn: () => fetchReturnRequests({ status: 'Pending' }),
+  });
+
+  const { data: medicalReps } = useQuery({
+    queryKey: ['medical-reps-names'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const getMRName = (mrUserId: string) =>
+    medicalReps?.find(mr => mr.user_id === mrUserId)?.name || mrUserId;
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ request, action }: { request: ReturnRequestWithLines; action: 'approve' | 'reject' }) =>
+      action === 'approve'
+        ? approveReturnRequest(request.id, reviewNotes[request.id] || '')
+        : rejectReturnRequest(request.id, reviewNotes[request.id] || '', profile?.user_id).then(() => null),
+    onSuccess: (adjustmentNumber, { action }) => {
+      toast({
+        title: "Success",
+        description: action === 'approve'
+          ? `Return approved and posted as ${adjustmentNumber}`
+          : "Return request rejected",
+      });
+      queryClient.invalidateQueries({ queryKey: ['return-requests'] });
+      if (action === 'approve') onApproved();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getBatchValidationMessage(error) || "Failed to review the return request",
+        variant: "destructive",
+      });
+      console.error('Error reviewing return request:', error);
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-lg border mb-6">
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Undo2 className="h-5 w-5 text-teal-600" />
+          MR Return Requests
+          {!!requests?.length && <Badge variant="secondary">{requests.length}</Badge>}
+        </h2>
+        <p className="text-sm text-gray-500">
+          Approving moves the stock from the MR back to the godown as a return adjustment
+        </p>
+      </div>
+      <div className="p-4">
+        {isLoading ? (
+          <div className="text-center py-4 flex items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span>Loading requests...</span>
+          </div>
+        ) : !requests?.length ? (
+          <div className="text-center py-4 text-gray-500">No return requests waiting for review</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>MR</TableHead>
+                  <TableHead>Requested On</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Review Notes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map(request => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">{getMRName(request.mr_user_id)}</TableCell>
+                    <TableCell>{new Date(request.request_date).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <ReturnRequestLines lines={request.mr_return_request_lines} />
+                    </TableCell>
+                    <TableCell className="max-w-xs text-sm">{request.reason}</TableCell>
+                    <TableCell>
+                      <Input
+                        value={reviewNotes[request.id] || ''}
+                        onChange={(e) => setReviewNotes({ ...reviewNotes, [request.id]: e.target.value })}
+                        placeholder="Optional"
+                        className="h-8 min-w-[160px]"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => reviewMutation.mutate({ request, action: 'approve' })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => reviewMutation.mutate({ request, action: 'reject' })}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MRReturnRequestsPanel;
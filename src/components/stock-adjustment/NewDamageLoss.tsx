@@ -178,15 +178,16 @@ const NewDamageLoss = () => {
         created_by: profile?.user_id,
       }));
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('stock_adjustments')
-        .insert(adjustments);
+        .insert(adjustments)
+        .select('reference_document_id');
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: `${adjustmentType} adjustment recorded successfully`,
+        description: `${adjustmentType} adjustment recorded as ${data?.[0]?.reference_document_id}`,
       });
 
       navigate('/admin/stock/adjustments');
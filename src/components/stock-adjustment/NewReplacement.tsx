@@ -10,7 +10,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
-import { ArrowLeft, Plus, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, ArrowLeft, Plus, Trash2 } from 'lucide-react';
+import { getBatchRestriction, getBatchValidationMessage } from '@/lib/batchValidation';
 
 interface ReplacementItem {
   id: string;
@@ -21,6 +23,7 @@ interface ReplacementItem {
   quantity_strips: number;
   cost_per_strip: number;
   notes: string;
+  override_justification: string | null;
 }
 
 interface Product {
@@ -35,6 +38,7 @@ interface Batch {
   batch_number: string;
   expiry_date: string;
   batch_cost_per_strip: number;
+  status: string;
 }
 
 interface PackagingUnit {
@@ -45,7 +49,8 @@ interface PackagingUnit {
 
 const NewReplacement = () => {
   const navigate = useNavigate();
-  const { profile } = useAuth();
+  const { profile, can } = useAuth();
+  const canOverrideBatch = can('override_batch_restriction');
   const { toast } = useToast();
 
   const [replacementDate, setReplacementDate] = useState(new Date().toISOString().split('T')[0]);
@@ -57,6 +62,7 @@ const NewReplacement = () => {
   const [selectedUnit, setSelectedUnit] = useState('');
   const [quantity, setQuantity] = useState('');
   const [itemNotes, setItemNotes] = useState('');
+  const [overrideJustification, setOverrideJustification] = useState('');
   const [currentSection, setCurrentSection] = useState<'return' | 'dispatch'>('return');
 
   const { data: products } = useQuery({
@@ -79,7 +85,7 @@ const NewReplacement = () => {
         .from('product_batches')
         .select('*')
         .eq('product_id', selectedProduct)
-        .eq('status', 'Active');
+        .order('expiry_date');
       if (error) throw error;
       return data as Batch[];
     },
@@ -117,6 +123,19 @@ const NewReplacement = () => {
 
     if (!product || !batch || !unit) return;
 
+    // Only replacement stock leaving the godown is subject to batch status and expiry
+    const restriction = currentSection === 'dispatch' ? getBatchRestriction(batch, replacementDate) : null;
+    if (restriction && (!restriction.canOverride || !canOverrideBatch || !overrideJustification.trim())) {
+      toast({
+        title: "Error",
+        description: restriction.canOverride && canOverrideBatch
+          ? `${restriction.reason}. Enter an override justification or choose another batch.`
+          : `${restriction.reason}. It cannot be dispatched as a replacement.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     const quantityStrips = parseInt(quantity) * unit.conversion_factor_to_strips;
     const costPerStrip = batch.batch_cost_per_strip || 0;
 
@@ -129,6 +148,7 @@ const NewReplacement = () => {
       quantity_strips: quantityStrips,
       cost_per_strip: costPerStrip,
       notes: itemNotes,
+      override_justification: restriction ? overrideJustification : null,
     };
 
     if (currentSection === 'return') {
@@ -143,6 +163,7 @@ const NewReplacement = () => {
     setSelectedUnit('');
     setQuantity('');
     setItemNotes('');
+    setOverrideJustification('');
   };
 
   const removeLineItem = (id: string, section: 'return' | 'dispatch') => {
@@ -199,20 +220,22 @@ const NewReplacement = () => {
         adjustment_date: replacementDate,
         cost_per_strip: item.cost_per_strip,
         notes: item.notes || notes,
+        override_justification: item.override_justification,
         created_by: profile?.user_id,
       }));
 
       const allAdjustments = [...returnAdjustments, ...dispatchAdjustments];
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('stock_adjustments')
-        .insert(allAdjustments);
+        .insert(allAdjustments)
+        .select('reference_document_id');
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Replacement recorded successfully",
+        description: `Replacement recorded as ${data?.[0]?.reference_document_id}`,
       });
 
       navigate('/admin/stock/adjustments');
@@ -220,12 +243,17 @@ const NewReplacement = () => {
       console.error('Error creating replacement:', error);
       toast({
         title: "Error",
-        description: "Failed to create replacement",
+        description: getBatchValidationMessage(error) || "Failed to create replacement",
         variant: "destructive",
       });
     }
   };
 
+  const selectedBatchDetails = batches?.find(b => b.id === selectedBatch);
+  const selectedBatchRestriction = currentSection === 'dispatch' && selectedBatchDetails
+    ? getBatchRestriction(selectedBatchDetails, replacementDate)
+    : null;
+
   const getProductName = (productId: string) => {
     const product = products?.find(p => p.id === productId);
     return product ? `${product.product_code} - ${product.product_name}` : '';
@@ -339,11 +367,21 @@ const NewReplacement = () => {
                       <SelectValue placeholder="Select Batch" />
                     </SelectTrigger>
                     <SelectContent>
-                      {batches?.map((batch) => (
-                        <SelectItem key={batch.id} value={batch.id}>
-                          {batch.batch_number}
-                        </SelectItem>
-                      ))}
+                      {batches?.map((batch) => {
+                        const restriction = currentSection === 'dispatch'
+                          ? getBatchRestriction(batch, replacementDate)
+                          : null;
+                        return (
+                          <SelectItem
+                            key={batch.id}
+                            value={batch.id}
+                            disabled={!!restriction && (!restriction.canOverride || !canOverrideBatch)}
+                          >
+                            {batch.batch_number}
+                            {restriction && ` - ${restriction.reason.replace(`Batch ${batch.batch_number} `, '')}`}
+                          </SelectItem>
+                        );
+                      })}
                     </SelectContent>
                   </Select>
                 </div>
@@ -383,6 +421,32 @@ const NewReplacement = () => {
                 </div>
               </div>
 
+              {selectedBatchRestriction && (
+                <div className="space-y-2">
+                  <Alert variant="destructive" className="py-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription className="text-xs">
+                      {selectedBatchRestriction.reason}.{' '}
+                      {selectedBatchRestriction.canOverride && canOverrideBatch
+                        ? 'Enter a justification to override.'
+                        : 'This batch cannot be dispatched as a replacement.'}
+                    </AlertDescription>
+                  </Alert>
+                  {selectedBatchRestriction.canOverride && canOverrideBatch && (
+                    <div>
+                      <Label htmlFor="overrideJustification">Override Justification *</Label>
+                      <Textarea
+                        id="overrideJustification"
+                        value={overrideJustification}
+                        onChange={(e) => setOverrideJustification(e.target.value)}
+                        placeholder="Why this batch is being released despite the restriction"
+                        rows={2}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div>
                 <Label htmlFor="itemNotes">Item Notes</Label>
                 <Input
@@ -453,6 +517,9 @@ const NewReplacement = () => {
                             <p className="text-xs text-gray-500">
                               {item.quantity} {getUnitName(item.unit_id)} ({item.quantity_strips} strips)
                             </p>
+                            {item.override_justification && (
+                              <p className="text-xs text-orange-600">Override: {item.override_justification}</p>
+                            )}
                           </div>
                           <Button
                             type="button"
@@ -108,7 +108,7 @@ const NewReturn = () => {
       const { data, error } = await supabase
         .from('profiles')
         .select('*')
-        .eq('role', 'user');
+        .eq('role', 'mr');
       if (error) throw error;
       return data;
     },
@@ -199,15 +199,16 @@ const NewReturn = () => {
         created_by: profile?.user_id,
       }));
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('stock_adjustments')
-        .insert(adjustments);
+        .insert(adjustments)
+        .select('reference_document_id');
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Return recorded successfully",
+        description: `Return recorded as ${data?.[0]?.reference_document_id}`,
       });
 
       navigate('/admin/stock/adjustments');
@@ -0,0 +1,539 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react';
+import { fetchSupplierPurchases, getSupplierGrns } from '@/lib/suppliers';
+import {
+  createSupplierReturn,
+  fetchBatchSupplierId,
+  fetchGodownBatchStock,
+} from '@/lib/supplierReturns';
+
+interface ReturnLineItem {
+  id: string;
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string;
+  available_strips: number;
+  quantity_strips: number;
+  cost_per_strip: number;
+  notes: string;
+}
+
+const NO_GRN = 'none';
+
+const NewSupplierReturn = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [supplierId, setSupplierId] = useState('');
+  const [purchaseGroupId, setPurchaseGroupId] = useState(NO_GRN);
+  const [returnDate, setReturnDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reason, setReason] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lineItems, setLineItems] = useState<ReturnLineItem[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState('');
+  const [selectedBatch, setSelectedBatch] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const prefillBatchId = searchParams.get('batch');
+
+  const { data: suppliers } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('is_active', true)
+        .order('supplier_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ['products'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*')
+        .eq('is_active', true);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // The supplier's purchase lines, for picking the GRN being returned against
+  const { data: supplierPurchases } = useQuery({
+    queryKey: ['supplier-purchases', supplierId],
+    queryFn: () => fetchSupplierPurchases(supplierId),
+    enabled: !!supplierId,
+  });
+
+  const { data: godownBatches } = useQuery({
+    queryKey: ['godown-batch-stock', selectedProduct],
+    queryFn: () => fetchGodownBatchStock({ productId: selectedProduct }),
+    enabled: !!selectedProduct,
+  });
+
+  const grns = supplierPurchases ? getSupplierGrns(supplierPurchases) : [];
+  const selectedGrn = grns.find(grn => grn.purchase_group_id === purchaseGroupId);
+
+  // Opened from the near-expiry dashboard with a batch: preselect it and the supplier it came from
+  useEffect(() => {
+    if (!prefillBatchId) return;
+
+    const prefill = async () => {
+      try {
+        const [stock, batchSupplierId] = await Promise.all([
+          fetchGodownBatchStock({ batchIds: [prefillBatchId] }),
+          fetchBatchSupplierId(prefillBatchId),
+        ]);
+        if (batchSupplierId) setSupplierId(batchSupplierId);
+        if (stock[0]) {
+          setSelectedProduct(stock[0].product_id);
+          setSelectedBatch(stock[0].batch_id);
+          setQuantity(String(stock[0].quantity_strips));
+        }
+      } catch (error) {
+        console.error('Error loading batch for return:', error);
+      }
+    };
+    prefill();
+  }, [prefillBatchId]);
+
+  const handleSupplierChange = (value: string) => {
+    setSupplierId(value);
+    setPurchaseGroupId(NO_GRN);
+    setLineItems([]);
+  };
+
+  // Picking a GRN fills the lines with its batches, capped at what the godown still holds
+  const handleGrnChange = async (value: string) => {
+    setPurchaseGroupId(value);
+    if (value === NO_GRN) return;
+
+    const grnLines = (supplierPurchases || []).filter(line => line.purchase_group_id === value);
+    try {
+      const stock = await fetchGodownBatchStock({ batchIds: grnLines.map(line => line.batch_id) });
+      const available = new Map(stock.map(row => [row.batch_id, row.quantity_strips]));
+
+      const items: ReturnLineItem[] = [];
+      grnLines.forEach(line => {
+        const availableStrips = available.get(line.batch_id) || 0;
+        if (availableStrips <= 0 || items.some(item => item.batch_id === line.batch_id)) return;
+        items.push({
+          id: crypto.randomUUID(),
+          product_id: line.product_id,
+          product_name: line.product_name,
+          product_code: line.product_code,
+          batch_id: line.batch_id,
+          batch_number: line.batch_number,
+          expiry_date: line.expiry_date || '',
+          available_strips: availableStrips,
+          quantity_strips: Math.min(line.quantity_strips, availableStrips),
+          cost_per_strip: line.cost_per_strip,
+          notes: '',
+        });
+      });
+
+      setLineItems(items);
+      if (items.length < grnLines.length) {
+        toast({
+          title: "Note",
+          description: `${grnLines.length - items.length} line(s) of this GRN have no stock left in the godown and were skipped`,
+        });
+      }
+    } catch (error) {
+      console.error('Error loading GRN lines:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the GRN lines",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addLineItem = () => {
+    const batch = godownBatches?.find(b => b.batch_id === selectedBatch);
+    const quantityStrips = parseInt(quantity);
+    if (!batch || !quantityStrips || quantityStrips <= 0) {
+      toast({
+        title: "Error",
+        description: "Please select a batch and enter a quantity",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lineItems.some(item => item.batch_id === batch.batch_id)) {
+      toast({
+        title: "Error",
+        description: `Batch ${batch.batch_number} is already on this return; change its quantity instead`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (quantityStrips > batch.quantity_strips) {
+      toast({
+        title: "Error",
+        description: `Only ${batch.quantity_strips} strip(s) of batch ${batch.batch_number} are in the godown`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Return at the price paid to this supplier when the batch came from them
+    const purchasedLine = supplierPurchases?.filter(line => line.batch_id === batch.batch_id).pop();
+
+    setLineItems([...lineItems, {
+      id: crypto.randomUUID(),
+      product_id: batch.product_id,
+      product_name: batch.product_name,
+      product_code: batch.product_code,
+      batch_id: batch.batch_id,
+      batch_number: batch.batch_number,
+      expiry_date: batch.expiry_date,
+      available_strips: batch.quantity_strips,
+      quantity_strips: quantityStrips,
+      cost_per_strip: purchasedLine?.cost_per_strip ?? batch.cost_per_strip,
+      notes: '',
+    }]);
+
+    setSelectedProduct('');
+    setSelectedBatch('');
+    setQuantity('');
+  };
+
+  const updateLineItem = (id: string, changes: Partial<ReturnLineItem>) => {
+    setLineItems(lineItems.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const removeLineItem = (id: string) => {
+    setLineItems(lineItems.filter(item => item.id !== id));
+  };
+
+  const totalValue = lineItems.reduce((total, item) => total + item.quantity_strips * item.cost_per_strip, 0);
+
+  const handleSubmit = async () => {
+    if (!supplierId || !reason.trim() || lineItems.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please select a supplier, give a reason and add at least one line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidLine = lineItems.find(item =>
+      item.quantity_strips <= 0 || item.quantity_strips > item.available_strips);
+    if (invalidLine) {
+      toast({
+        title: "Error",
+        description: `Batch ${invalidLine.batch_number}: quantity must be between 1 and ${invalidLine.available_strips} strip(s)`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const supplierReturn = await createSupplierReturn({
+        supplierId,
+        returnDate,
+        originalPurchaseGroupId: selectedGrn?.purchase_group_id || null,
+        originalReferenceDocumentId: selectedGrn?.reference_document_id || null,
+        reason: reason.trim(),
+        notes,
+        lines: lineItems.map(item => ({
+          product_id: item.product_id,
+          batch_id: item.batch_id,
+          quantity_strips: item.quantity_strips,
+          cost_per_strip: item.cost_per_strip,
+          notes: item.notes,
+        })),
+      });
+
+      toast({
+        title: "Success",
+        description: `Debit note ${supplierReturn.debit_note_number} created`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['supplier-returns'] });
+      queryClient.invalidateQueries({ queryKey: ['godown-batch-stock'] });
+      queryClient.invalidateQueries({ queryKey: ['closing-stock'] });
+      queryClient.invalidateQueries({ queryKey: ['closing-stock-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['near-expiry-stock'] });
+      navigate(`/admin/stock/supplier-returns/${supplierReturn.id}`);
+    } catch (error) {
+      console.error('Error creating supplier return:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create the supplier return",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex items-center mb-6">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/admin/stock/adjustments')}
+          className="mr-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Adjustments
+        </Button>
+        <h1 className="text-3xl font-bold">Return to Supplier</h1>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Return Details</CardTitle>
+            <CardDescription>
+              Send godown stock back to the supplier it was bought from. A debit note is created for the return.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Supplier *</Label>
+                <Select value={supplierId} onValueChange={handleSupplierChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select Supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers?.map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.supplier_name} {supplier.supplier_code && `(${supplier.supplier_code})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Original GRN</Label>
+                <Select value={purchaseGroupId} onValueChange={handleGrnChange} disabled={!supplierId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select GRN" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_GRN}>Pick batches manually</SelectItem>
+                    {grns.map(grn => (
+                      <SelectItem key={grn.purchase_group_id} value={grn.purchase_group_id}>
+                        {grn.reference_document_id || 'No reference'} – {new Date(grn.purchase_date).toLocaleDateString()} ({grn.lines} lines)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="returnDate">Return Date</Label>
+                <Input
+                  id="returnDate"
+                  type="date"
+                  value={returnDate}
+                  onChange={(e) => setReturnDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="reason">Reason *</Label>
+                <Input
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Near expiry, damaged in transit, wrong product supplied"
+                />
+              </div>
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Additional notes for the debit note..."
+                  rows={1}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Batch</CardTitle>
+            <CardDescription>Only batches with stock in the godown can be returned</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-4 gap-4">
+              <div>
+                <Label>Product</Label>
+                <Select
+                  value={selectedProduct}
+                  onValueChange={(value) => {
+                    setSelectedProduct(value);
+                    setSelectedBatch('');
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select Product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products?.map(product => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.product_code} - {product.product_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Batch</Label>
+                <Select value={selectedBatch} onValueChange={setSelectedBatch} disabled={!selectedProduct}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={godownBatches?.length === 0 ? 'No godown stock' : 'Select Batch'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {godownBatches?.map(batch => (
+                      <SelectItem key={batch.batch_id} value={batch.batch_id}>
+                        {batch.batch_number} – {batch.quantity_strips} strips
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="quantity">Quantity (Strips)</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  min="1"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+              <div className="flex items-end">
+                <Button onClick={addLineItem} className="w-full" disabled={!selectedBatch}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Batch
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Return Lines ({lineItems.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {lineItems.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No lines added yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead className="text-right">In Godown</TableHead>
+                    <TableHead className="text-right">Return Qty</TableHead>
+                    <TableHead className="text-right">Cost/Strip</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lineItems.map(item => {
+                    const isOverAvailable = item.quantity_strips > item.available_strips;
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="font-medium">{item.product_name}</div>
+                          <div className="text-xs text-gray-500">{item.product_code}</div>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{item.batch_number}</TableCell>
+                        <TableCell className="text-sm">
+                          {item.expiry_date ? new Date(item.expiry_date).toLocaleDateString() : '-'}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{item.available_strips}</TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min="1"
+                            max={item.available_strips}
+                            value={item.quantity_strips}
+                            onChange={(e) => updateLineItem(item.id, { quantity_strips: parseInt(e.target.value) || 0 })}
+                            className={`h-8 w-24 ml-auto text-right ${isOverAvailable ? 'border-red-500' : ''}`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right font-mono">₹{item.cost_per_strip.toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          ₹{(item.quantity_strips * item.cost_per_strip).toFixed(2)}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={item.notes}
+                            onChange={(e) => updateLineItem(item.id, { notes: e.target.value })}
+                            placeholder="Line notes"
+                            className="h-8"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeLineItem(item.id)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+            {lineItems.length > 0 && (
+              <div className="border-t mt-4 pt-4 flex justify-between items-center">
+                <p className="font-semibold">Debit Note Value: ₹{totalValue.toFixed(2)}</p>
+                <Button onClick={handleSubmit} disabled={isSubmitting}>
+                  {isSubmitting ? 'Saving...' : 'Create Debit Note'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default NewSupplierReturn;
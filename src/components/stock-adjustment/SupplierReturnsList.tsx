@@ -0,0 +1,67 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Eye, PackageX } from 'lucide-react';
+import { fetchSupplierReturns } from '@/lib/supplierReturns';
+
+const SupplierReturnsList = () => {
+  const navigate = useNavigate();
+
+  const { data: supplierReturns } = useQuery({
+    queryKey: ['supplier-returns'],
+    queryFn: () => fetchSupplierReturns(),
+  });
+
+  if (!supplierReturns?.length) return null;
+
+  return (
+    <div className="bg-white rounded-lg border mb-6">
+      <div className="p-4 border-b">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <PackageX className="h-5 w-5 text-orange-600" />
+          Recent Supplier Returns
+        </h2>
+        <p className="text-sm text-gray-500">Debit notes for stock sent back to suppliers</p>
+      </div>
+      <div className="p-4 overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Debit Note</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Against GRN</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {supplierReturns.map(supplierReturn => (
+              <TableRow key={supplierReturn.id}>
+                <TableCell className="font-mono text-sm">{supplierReturn.debit_note_number}</TableCell>
+                <TableCell>{new Date(supplierReturn.return_date).toLocaleDateString()}</TableCell>
+                <TableCell className="font-medium">{supplierReturn.suppliers?.supplier_name}</TableCell>
+                <TableCell className="text-sm">{supplierReturn.original_reference_document_id || '-'}</TableCell>
+                <TableCell className="text-sm text-gray-600 line-clamp-2">{supplierReturn.reason}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => navigate(`/admin/stock/supplier-returns/${supplierReturn.id}`)}
+                    className="h-8 w-8 p-0 hover:bg-gray-100"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierReturnsList;
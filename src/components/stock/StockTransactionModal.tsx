@@ -12,6 +12,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { StockTransaction } from '@/pages/StockMovements';
 import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { findBatchMismatches } from '@/lib/stockReconciliation';
 
 interface StockTransactionModalProps {
   isOpen: boolean;
@@ -35,6 +36,9 @@ interface FormData {
   notes: string;
 }
 
+// Purchases saved before suppliers became a master show the typed supplier name instead of an id
+const SUPPLIER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 const StockTransactionModal = ({ isOpen, onClose, onSuccess, editingTransaction }: StockTransactionModalProps) => {
   const { toast } = useToast();
   const [selectedProductId, setSelectedProductId] = useState<string>('');
@@ -72,6 +76,22 @@ const StockTransactionModal = ({ isOpen, onClose, onSuccess, editingTransaction
     enabled: !!selectedProductId,
   });
 
+  // Fetch suppliers for purchase transactions
+  const { data: suppliers } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('is_active', true)
+        .order('supplier_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const isPurchase = form.watch('transaction_type') === 'STOCK_IN_GODOWN';
+
   useEffect(() => {
     if (editingTransaction) {
       const formData = {
@@ -109,6 +129,22 @@ const StockTransactionModal = ({ isOpen, onClose, onSuccess, editingTransaction
     }
   }, [editingTransaction, form]);
 
+  // The database applies edits to closing_stock; make sure the batch still adds up afterwards
+  const checkBatchInStep = async (productId: string, batchId: string) => {
+    try {
+      const mismatches = await findBatchMismatches(productId, batchId);
+      if (mismatches.length > 0) {
+        toast({
+          title: "Stock out of step",
+          description: "Closing stock for this batch no longer matches its transactions. Review it on the Reconcile Stock page.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error checking closing stock:', error);
+    }
+  };
+
   const onSubmit = async (data: FormData) => {
     try {
       // Convert 'none' values back to null for database storage
@@ -123,12 +159,15 @@ const StockTransactionModal = ({ isOpen, onClose, onSuccess, editingTransaction
 
       // Purchase transaction
       if (data.transaction_type === 'STOCK_IN_GODOWN') {
+        // A supplier name from an older purchase stays in legacy_supplier_name
+        const isSupplierId = !!sourceId && SUPPLIER_ID_PATTERN.test(sourceId);
         const purchaseData: TablesInsert<'stock_purchases'> = {
           purchase_group_id: groupId,
           product_id: data.product_id,
           batch_id: data.batch_id,
           quantity_strips: data.quantity_strips,
-          supplier_id: sourceId,
+          supplier_id: isSupplierId ? sourceId : null,
+          ...(!isSupplierId && sourceId ? { legacy_supplier_name: sourceId } : {}),
           purchase_date: transactionDate,
           reference_document_id: refId,
           cost_per_strip: data.cost_per_strip_at_transaction,
@@ -222,6 +261,13 @@ const StockTransactionModal = ({ isOpen, onClose, onSuccess, editingTransaction
         description: editingTransaction ? "Transaction updated successfully." : "Transaction created successfully.",
       });
 
+      if (editingTransaction) {
+        await checkBatchInStep(data.product_id, data.batch_id);
+        if (editingTransaction.product_id !== data.product_id || editingTransaction.batch_id !== data.batch_id) {
+          await checkBatchInStep(editingTransaction.product_id, editingTransaction.batch_id);
+        }
+      }
+
       onSuccess();
     } catch (error: any) {
       toast({
@@ -248,7 +294,8 @@ const StockTransactionModal = ({ isOpen, onClose, onSuccess, editingTransaction
     'REPLACEMENT_FROM_GODOWN',
     'REPLACEMENT_FROM_MR',
     'OPENING_STOCK_GODOWN',
-    'OPENING_STOCK_MR'
+    'OPENING_STOCK_MR',
+    'PURCHASE_RETURN_GODOWN'
   ];
 
   const locationTypes = ['SUPPLIER', 'GODOWN', 'MR', 'CUSTOMER', 'WASTAGE_BIN'];
@@ -430,10 +477,27 @@ const StockTransactionModal = ({ isOpen, onClose, onSuccess, editingTransaction
                 name="location_id_source"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Source Location ID</FormLabel>
-                    <FormControl>
-                      <Input {...field} placeholder="Enter source location ID" />
-                    </FormControl>
+                    <FormLabel>{isPurchase ? 'Supplier' : 'Source Location ID'}</FormLabel>
+                    {isPurchase ? (
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select supplier" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {suppliers?.map((supplier) => (
+                            <SelectItem key={supplier.id} value={supplier.id}>
+                              {supplier.supplier_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <FormControl>
+                        <Input {...field} placeholder="Enter source location ID" />
+                      </FormControl>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -516,7 +580,7 @@ const StockTransactionModal = ({ isOpen, onClose, onSuccess, editingTransaction
                   <FormItem>
                     <FormLabel>Reference Document ID</FormLabel>
                     <FormControl>
-                      <Input {...field} placeholder="Enter document ID/number" />
+                      <Input {...field} placeholder="Leave blank to number automatically" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
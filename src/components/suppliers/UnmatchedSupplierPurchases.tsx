@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { assignSupplierToLegacyPurchases, fetchUnmatchedSupplierPurchases } from '@/lib/suppliers';
+
+interface UnmatchedSupplierPurchasesProps {
+  suppliers: { id: string; supplier_name: string; supplier_code: string | null }[];
+}
+
+const UnmatchedSupplierPurchases = ({ suppliers }: UnmatchedSupplierPurchasesProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selections, setSelections] = useState<Record<string, string>>({});
+
+  const { data: unmatched } = useQuery({
+    queryKey: ['unmatched-supplier-purchases'],
+    queryFn: fetchUnmatchedSupplierPurchases,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ legacyName, supplierId }: { legacyName: string; supplierId: string }) =>
+      assignSupplierToLegacyPurchases(legacyName, supplierId),
+    onSuccess: (_, { legacyName }) => {
+      toast({
+        title: "Success",
+        description: `Purchases recorded as "${legacyName}" are now linked to the supplier`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['unmatched-supplier-purchases'] });
+      queryClient.invalidateQueries({ queryKey: ['supplier-purchase-summary'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-purchases'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to link purchases to the supplier",
+        variant: "destructive",
+      });
+      console.error('Error assigning supplier:', error);
+    },
+  });
+
+  if (!unmatched?.length) return null;
+
+  return (
+    <Card className="mb-6 border-amber-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-amber-800">
+          <AlertTriangle className="h-5 w-5" />
+          Purchases Without a Supplier
+        </CardTitle>
+        <CardDescription>
+          These purchases were recorded against a supplier name that matches no supplier. Pick the supplier each name refers to.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recorded Supplier</TableHead>
+              <TableHead className="text-right">Purchases</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead>Link To</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {unmatched.map(row => (
+              <TableRow key={row.legacy_supplier_name}>
+                <TableCell className="font-medium">{row.legacy_supplier_name}</TableCell>
+                <TableCell className="text-right">{row.purchases}</TableCell>
+                <TableCell className="text-sm text-gray-600">
+                  {new Date(row.first_purchase_date).toLocaleDateString()} – {new Date(row.last_purchase_date).toLocaleDateString()}
+                </TableCell>
+                <TableCell className="text-right font-mono">₹{Number(row.total_value).toFixed(2)}</TableCell>
+                <TableCell>
+                  <Select
+                    value={selections[row.legacy_supplier_name] || ''}
+                    onValueChange={(value) => setSelections({ ...selections, [row.legacy_supplier_name]: value })}
+                  >
+                    <SelectTrigger className="h-8 w-56">
+                      <SelectValue placeholder="Choose supplier..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map(supplier => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.supplier_name} {supplier.supplier_code && `(${supplier.supplier_code})`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    disabled={!selections[row.legacy_supplier_name] || assignMutation.isPending}
+                    onClick={() => assignMutation.mutate({
+                      legacyName: row.legacy_supplier_name,
+                      supplierId: selections[row.legacy_supplier_name],
+                    })}
+                  >
+                    Link
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnmatchedSupplierPurchases;
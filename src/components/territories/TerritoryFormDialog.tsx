@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  TERRITORY_LEVELS,
+  Territory,
+  TerritoryInput,
+  TerritoryLevel,
+  getParentLevel,
+  getTerritoryPath,
+  getTerritorySubtreeIds,
+  saveTerritory,
+} from '@/lib/territories';
+
+interface TerritoryFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  territory: Territory | null;
+  territories: Territory[];
+  // Pre-fills a new territory as a child of this one
+  parent?: Territory | null;
+}
+
+const emptyTerritoryForm: TerritoryInput = {
+  territory_name: '',
+  territory_code: '',
+  level: 'Zone',
+  parent_id: '',
+  is_active: true,
+};
+
+const TerritoryFormDialog = ({ open, onOpenChange, territory, territories, parent }: TerritoryFormDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<TerritoryInput>(emptyTerritoryForm);
+
+  useEffect(() => {
+    if (!open) return;
+    if (territory) {
+      setFormData({
+        territory_name: territory.territory_name,
+        territory_code: territory.territory_code || '',
+        level: territory.level as TerritoryLevel,
+        parent_id: territory.parent_id || '',
+        is_active: territory.is_active,
+      });
+    } else if (parent) {
+      const childLevel = TERRITORY_LEVELS[TERRITORY_LEVELS.indexOf(parent.level as TerritoryLevel) + 1];
+      setFormData({ ...emptyTerritoryForm, level: childLevel || 'Territory', parent_id: parent.id });
+    } else {
+      setFormData(emptyTerritoryForm);
+    }
+  }, [open, territory, parent]);
+
+  const saveTerritoryMutation = useMutation({
+    mutationFn: () => saveTerritory(formData, territory?.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['territories'] });
+      toast({
+        title: "Success",
+        description: `Territory ${territory ? 'updated' : 'created'} successfully.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message
+          ? error.message
+          : `Failed to ${territory ? 'update' : 'create'} territory. The code may already be in use.`,
+        variant: "destructive",
+      });
+      console.error('Error saving territory:', error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.territory_name.trim()) {
+      toast({
+        title: "Error",
+        description: "Territory name is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveTerritoryMutation.mutate();
+  };
+
+  // Parents are one level up, and never the territory itself or anything below it
+  const parentLevel = getParentLevel(formData.level);
+  const excludedIds = territory ? getTerritorySubtreeIds(territories, territory.id) : new Set<string>();
+  const parentOptions = territories.filter(option =>
+    option.level === parentLevel && !excludedIds.has(option.id));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{territory ? 'Edit Territory' : 'Add Territory'}</DialogTitle>
+          <DialogDescription>
+            Zones contain regions, regions contain HQs and HQs contain the territories MRs work in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="territory_name">Name *</Label>
+              <Input
+                id="territory_name"
+                value={formData.territory_name}
+                onChange={(e) => setFormData({ ...formData, territory_name: e.target.value })}
+                placeholder="e.g., Pune East"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="territory_code">Code</Label>
+              <Input
+                id="territory_code"
+                value={formData.territory_code}
+                onChange={(e) => setFormData({ ...formData, territory_code: e.target.value })}
+                placeholder="e.g., PNE"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="level">Level *</Label>
+              <Select
+                value={formData.level}
+                onValueChange={(value) => setFormData({ ...formData, level: value as TerritoryLevel, parent_id: '' })}
+              >
+                <SelectTrigger id="level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TERRITORY_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>{level}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="parent_id">{parentLevel ? `Parent ${parentLevel}` : 'Parent'}</Label>
+              <Select
+                value={formData.parent_id || 'none'}
+                onValueChange={(value) => setFormData({ ...formData, parent_id: value === 'none' ? '' : value })}
+                disabled={!parentLevel}
+              >
+                <SelectTrigger id="parent_id">
+                  <SelectValue placeholder="Select parent" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{parentLevel ? 'Not placed yet' : 'Zones have no parent'}</SelectItem>
+                  {parentOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {getTerritoryPath(territories, option.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="is_active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+            />
+            <Label htmlFor="is_active">Active</Label>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button type="submit" disabled={saveTerritoryMutation.isPending}>
+              {territory ? 'Update' : 'Create'} Territory
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TerritoryFormDialog;
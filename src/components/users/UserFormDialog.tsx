@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { USER_ROLES } from '@/lib/permissions';
+import { buildTerritoryTree, fetchTerritories } from '@/lib/territories';
+import { InvitationInput, UserAccount, UserProfile, inviteUser, updateUserAccess } from '@/lib/userAdmin';
+
+interface UserFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The user whose access is edited; a new user is invited when null
+  user: UserAccount | null;
+  managers: UserProfile[];
+}
+
+const emptyUserForm: InvitationInput = {
+  email: '',
+  name: '',
+  role: 'mr',
+  territory_id: '',
+  reports_to: '',
+};
+
+const UserFormDialog = ({ open, onOpenChange, user, managers }: UserFormDialogProps) => {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<InvitationInput>(emptyUserForm);
+
+  const { data: territories } = useQuery({
+    queryKey: ['territories'],
+    queryFn: fetchTerritories,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(user
+      ? {
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        territory_id: user.territory_id || '',
+        reports_to: user.reports_to || '',
+      }
+      : emptyUserForm);
+  }, [open, user]);
+
+  const saveUserMutation = useMutation({
+    mutationFn: () => user
+      ? updateUserAccess(user.user_id, formData)
+      : inviteUser(formData, currentUser?.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-accounts'] });
+      toast({
+        title: "Success",
+        description: user
+          ? `${user.name}'s access has been updated.`
+          : `Invitation sent to ${formData.email.trim()}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message
+          ? error.message
+          : `Failed to ${user ? 'update the user' : 'send the invitation'}.`,
+        variant: "destructive",
+      });
+      console.error('Error saving user:', error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user && (!formData.email.trim() || !formData.name.trim())) {
+      toast({
+        title: "Error",
+        description: "Name and email are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveUserMutation.mutate();
+  };
+
+  // Anyone else who is active and not an MR can be reported to
+  const managerOptions = managers.filter(manager => manager.user_id !== user?.user_id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{user ? `Edit ${user.name || user.email}` : 'Invite User'}</DialogTitle>
+          <DialogDescription>
+            {user
+              ? 'Change the role, territory and reporting manager of this user.'
+              : 'The user is emailed a link to sign in and choose a password. Their account starts active with the access below.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {!user && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="Enter full name"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="email">Email *</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  placeholder="name@company.com"
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="role">Role *</Label>
+            <Select
+              value={formData.role}
+              onValueChange={(value) => setFormData({ ...formData, role: value as InvitationInput['role'] })}
+            >
+              <SelectTrigger id="role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {USER_ROLES.map((role) => (
+                  <SelectItem key={role.value} value={role.value}>
+                    {role.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              {USER_ROLES.find(role => role.value === formData.role)?.description}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="territory_id">Territory</Label>
+              <Select
+                value={formData.territory_id || 'none'}
+                onValueChange={(value) => setFormData({ ...formData, territory_id: value === 'none' ? '' : value })}
+              >
+                <SelectTrigger id="territory_id">
+                  <SelectValue placeholder="Select territory" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No territory</SelectItem>
+                  {buildTerritoryTree(territories || [])
+                    .filter(({ territory }) => territory.is_active || territory.id === formData.territory_id)
+                    .map(({ territory, depth }) => (
+                      <SelectItem key={territory.id} value={territory.id}>
+                        <span style={{ paddingLeft: depth * 12 }}>
+                          {territory.territory_name} <span className="text-xs text-gray-400">{territory.level}</span>
+                        </span>
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="reports_to">Reporting Manager</Label>
+              <Select
+                value={formData.reports_to || 'none'}
+                onValueChange={(value) => setFormData({ ...formData, reports_to: value === 'none' ? '' : value })}
+              >
+                <SelectTrigger id="reports_to">
+                  <SelectValue placeholder="Select manager" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No manager</SelectItem>
+                  {managerOptions.map((manager) => (
+                    <SelectItem key={manager.user_id} value={manager.user_id}>{manager.name || manager.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button type="submit" disabled={saveUserMutation.isPending}>
+              {user ? 'Save Changes' : 'Send Invitation'}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserFormDialog;
@@ -2,13 +2,18 @@
 import { useState, useEffect, createContext, useContext } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { Permission, UserRole, fetchRolePermissions, getHomePath } from '@/lib/permissions';
 
 interface Profile {
   id: string;
   user_id: string;
   name: string;
   email: string;
-  role: 'admin' | 'user';
+  role: UserRole;
+  // Pending until approved; deactivated accounts keep their profile but lose every permission
+  status: string;
+  territory_id: string | null;
+  reports_to: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -19,6 +24,12 @@ interface AuthContextType {
   profile: Profile | null;
   isLoading: boolean;
   isAdmin: boolean;
+  // Medical representatives only see the MR portal
+  isMR: boolean;
+  permissions: Permission[];
+  can: (permission: Permission) => boolean;
+  // Where the user lands after signing in; null when their role grants nothing
+  homePath: string | null;
   signOut: () => Promise<void>;
 }
 
@@ -28,6 +39,10 @@ const AuthContext = createContext<AuthContextType>({
   profile: null,
   isLoading: true,
   isAdmin: false,
+  isMR: false,
+  permissions: [],
+  can: () => false,
+  homePath: null,
   signOut: async () => {},
 });
 
@@ -43,6 +58,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchProfile = async (userId: string) => {
@@ -65,6 +81,16 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   };
 
+  const fetchPermissions = async (profile: Profile | null) => {
+    if (!profile || profile.status !== 'Active') return [];
+    try {
+      return await fetchRolePermissions(profile.role);
+    } catch (error) {
+      console.error('Error fetching permissions:', error);
+      return [];
+    }
+  };
+
   useEffect(() => {
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -76,10 +102,12 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           setTimeout(async () => {
             const profileData = await fetchProfile(session.user.id);
             setProfile(profileData);
+            setPermissions(await fetchPermissions(profileData));
             setIsLoading(false);
           }, 0);
         } else {
           setProfile(null);
+          setPermissions([]);
           setIsLoading(false);
         }
       }
@@ -94,6 +122,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         setTimeout(async () => {
           const profileData = await fetchProfile(session.user.id);
           setProfile(profileData);
+          setPermissions(await fetchPermissions(profileData));
           setIsLoading(false);
         }, 0);
       } else {
@@ -109,6 +138,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   };
 
   const isAdmin = profile?.role === 'admin';
+  const isMR = profile?.role === 'mr';
+  const can = (permission: Permission) => permissions.includes(permission);
+  const homePath = getHomePath(can);
 
   return (
     <AuthContext.Provider value={{
@@ -117,6 +149,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       profile,
       isLoading,
       isAdmin,
+      isMR,
+      permissions,
+      can,
+      homePath,
       signOut,
     }}>
       {children}
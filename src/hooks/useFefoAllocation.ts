@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  AllocatableLine,
+  DEFAULT_MIN_SHELF_LIFE_DAYS,
+  allocateLineItemFefo,
+  fetchMinShelfLifeDays,
+  saveMinShelfLifeDays,
+} from '@/lib/fefoAllocation';
+
+/**
+ * The minimum remaining shelf life a batch needs to leave the godown, from the stock settings
+ */
+export function useMinShelfLifeDays(): number {
+  const { data } = useQuery({
+    queryKey: ['stock-settings', 'min-shelf-life-days'],
+    queryFn: fetchMinShelfLifeDays,
+  });
+
+  return data ?? DEFAULT_MIN_SHELF_LIFE_DAYS;
+}
+
+/**
+ * FEFO batch allocation for the lines of an outbound document, with the minimum shelf life
+ * a batch needs to be picked. Settings managers can change the shelf life from the document.
+ */
+export function useFefoAllocation<T extends AllocatableLine>(
+  lineItems: T[],
+  setLineItems: React.Dispatch<React.SetStateAction<T[]>>,
+  movementDate: string
+) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const minShelfLifeDays = useMinShelfLifeDays();
+  const [allocatingLineId, setAllocatingLineId] = useState<string | null>(null);
+
+  const saveMinShelfLifeMutation = useMutation({
+    mutationFn: saveMinShelfLifeDays,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock-settings'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save the minimum shelf life",
+        variant: "destructive",
+      });
+      console.error('Error saving minimum shelf life:', error);
+    },
+  });
+
+  const canChangeMinShelfLife = can('manage_settings');
+
+  const handleMinShelfLifeChange = (value: string) => {
+    const days = Math.max(0, parseInt(value) || 0);
+    if (canChangeMinShelfLife && days !== minShelfLifeDays) {
+      saveMinShelfLifeMutation.mutate(days);
+    }
+  };
+
+  // Replace the line with one line per batch, earliest expiry first
+  const autoAllocateLineItem = async (id: string) => {
+    const line = lineItems.find(item => item.id === id);
+    if (!line) return;
+
+    setAllocatingLineId(id);
+    try {
+      const { lines, result } = await allocateLineItemFefo(
+        line,
+        lineItems.filter(item => item.id !== id),
+        movementDate,
+        minShelfLifeDays
+      );
+      if (result.shortfall_strips > 0) {
+        toast({
+          title: "Insufficient Stock",
+          description: `Only ${line.quantity_strips - result.shortfall_strips} of ${line.quantity_strips} strips are available in godown batches with at least ${minShelfLifeDays} days of shelf life`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setLineItems(prev => prev.flatMap(item => item.id === id ? lines : [item]));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to allocate batches",
+        variant: "destructive",
+      });
+      console.error('Error allocating batches:', error);
+    } finally {
+      setAllocatingLineId(null);
+    }
+  };
+
+  return {
+    minShelfLifeDays,
+    canChangeMinShelfLife,
+    handleMinShelfLifeChange,
+    allocatingLineId,
+    autoAllocateLineItem,
+  };
+}
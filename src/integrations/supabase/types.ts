@@ -56,10 +56,22 @@ export type Database = {
           batch_id: string
           quantity_strips: number
           supplier_id: string | null
+          legacy_supplier_name: string | null
           purchase_date: string
           reference_document_id: string | null
           cost_per_strip: number
           notes: string | null
+          purchase_order_line_id: string | null
+          invoice_rate_per_strip: number | null
+          discount_percent: number
+          free_strips: number
+          freight_amount: number
+          hsn_code: string | null
+          gst_rate: number
+          taxable_value: number
+          cgst_amount: number
+          sgst_amount: number
+          igst_amount: number
           created_by: string | null
           created_at: string
         }
@@ -70,10 +82,22 @@ export type Database = {
           batch_id: string
           quantity_strips: number
           supplier_id?: string | null
+          legacy_supplier_name?: string | null
           purchase_date?: string
           reference_document_id?: string | null
           cost_per_strip: number
           notes?: string | null
+          purchase_order_line_id?: string | null
+          invoice_rate_per_strip?: number | null
+          discount_percent?: number
+          free_strips?: number
+          freight_amount?: number
+          hsn_code?: string | null
+          gst_rate?: number
+          taxable_value?: number
+          cgst_amount?: number
+          sgst_amount?: number
+          igst_amount?: number
           created_by?: string | null
           created_at?: string
         }
@@ -84,10 +108,22 @@ export type Database = {
           batch_id?: string
           quantity_strips?: number
           supplier_id?: string | null
+          legacy_supplier_name?: string | null
           purchase_date?: string
           reference_document_id?: string | null
           cost_per_strip?: number
           notes?: string | null
+          purchase_order_line_id?: string | null
+          invoice_rate_per_strip?: number | null
+          discount_percent?: number
+          free_strips?: number
+          freight_amount?: number
+          hsn_code?: string | null
+          gst_rate?: number
+          taxable_value?: number
+          cgst_amount?: number
+          sgst_amount?: number
+          igst_amount?: number
           created_by?: string | null
           created_at?: string
         }
@@ -106,6 +142,13 @@ export type Database = {
             referencedRelation: "product_batches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_purchases_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stock_purchases_created_by_fkey"
             columns: ["created_by"]
@@ -131,6 +174,19 @@ export type Database = {
           reference_document_id: string | null
           cost_per_strip: number
           notes: string | null
+          override_justification: string | null
+          override_by: string | null
+          customer_gstin: string | null
+          customer_state_code: string | null
+          hsn_code: string | null
+          gst_rate: number
+          taxable_value: number
+          cgst_amount: number
+          sgst_amount: number
+          igst_amount: number
+          selling_price_per_strip: number | null
+          price_list_id: string | null
+          customer_id: string | null
           created_by: string | null
           created_at: string
         }
@@ -149,6 +205,19 @@ export type Database = {
           reference_document_id?: string | null
           cost_per_strip: number
           notes?: string | null
+          override_justification?: string | null
+          override_by?: string | null
+          customer_gstin?: string | null
+          customer_state_code?: string | null
+          hsn_code?: string | null
+          gst_rate?: number
+          taxable_value?: number
+          cgst_amount?: number
+          sgst_amount?: number
+          igst_amount?: number
+          selling_price_per_strip?: number | null
+          price_list_id?: string | null
+          customer_id?: string | null
           created_by?: string | null
           created_at?: string
         }
@@ -167,6 +236,19 @@ export type Database = {
           reference_document_id?: string | null
           cost_per_strip?: number
           notes?: string | null
+          override_justification?: string | null
+          override_by?: string | null
+          customer_gstin?: string | null
+          customer_state_code?: string | null
+          hsn_code?: string | null
+          gst_rate?: number
+          taxable_value?: number
+          cgst_amount?: number
+          sgst_amount?: number
+          igst_amount?: number
+          selling_price_per_strip?: number | null
+          price_list_id?: string | null
+          customer_id?: string | null
           created_by?: string | null
           created_at?: string
         }
@@ -185,6 +267,20 @@ export type Database = {
             referencedRelation: "product_batches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_sales_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_sales_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stock_sales_created_by_fkey"
             columns: ["created_by"]
@@ -210,6 +306,10 @@ export type Database = {
           reference_document_id: string | null
           cost_per_strip: number
           notes: string | null
+          recall_id: string | null
+          supplier_return_id: string | null
+          override_justification: string | null
+          override_by: string | null
           created_by: string | null
           created_at: string
         }
@@ -228,6 +328,10 @@ export type Database = {
           reference_document_id?: string | null
           cost_per_strip: number
           notes?: string | null
+          recall_id?: string | null
+          supplier_return_id?: string | null
+          override_justification?: string | null
+          override_by?: string | null
           created_by?: string | null
           created_at?: string
         }
@@ -246,6 +350,10 @@ export type Database = {
           reference_document_id?: string | null
           cost_per_strip?: number
           notes?: string | null
+          recall_id?: string | null
+          supplier_return_id?: string | null
+          override_justification?: string | null
+          override_by?: string | null
           created_by?: string | null
           created_at?: string
         }
@@ -281,6 +389,7 @@ export type Database = {
           expiry_date: string
           id: string
           manufacturing_date: string
+          mrp_per_strip: number | null
           notes: string | null
           product_id: string
           status: string
@@ -293,6 +402,7 @@ export type Database = {
           expiry_date: string
           id?: string
           manufacturing_date: string
+          mrp_per_strip?: number | null
           notes?: string | null
           product_id: string
           status?: string
@@ -305,6 +415,7 @@ export type Database = {
           expiry_date?: string
           id?: string
           manufacturing_date?: string
+          mrp_per_strip?: number | null
           notes?: string | null
           product_id?: string
           status?: string
@@ -476,6 +587,8 @@ export type Database = {
           created_at: string
           formulation_id: string
           generic_name: string
+          gst_rate: number
+          hsn_code: string | null
           id: string
           image_url: string | null
           is_active: boolean
@@ -496,6 +609,8 @@ export type Database = {
           created_at?: string
           formulation_id: string
           generic_name: string
+          gst_rate?: number
+          hsn_code?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean
@@ -516,6 +631,8 @@ export type Database = {
           created_at?: string
           formulation_id?: string
           generic_name?: string
+          gst_rate?: number
+          hsn_code?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean
@@ -615,6 +732,12 @@ export type Database = {
           id: string
           name: string
           role: Database["public"]["Enums"]["user_role"]
+          status: string
+          territory_id: string | null
+          reports_to: string | null
+          approved_by: string | null
+          approved_at: string | null
+          deactivated_at: string | null
           updated_at: string
           user_id: string
         }
@@ -624,6 +747,12 @@ export type Database = {
           id?: string
           name: string
           role?: Database["public"]["Enums"]["user_role"]
+          status?: string
+          territory_id?: string | null
+          reports_to?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+          deactivated_at?: string | null
           updated_at?: string
           user_id: string
         }
@@ -633,6 +762,12 @@ export type Database = {
           id?: string
           name?: string
           role?: Database["public"]["Enums"]["user_role"]
+          status?: string
+          territory_id?: string | null
+          reports_to?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+          deactivated_at?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -722,9 +857,11 @@ export type Database = {
           contact_person: string | null
           created_at: string
           email: string | null
+          gstin: string | null
           id: string
           is_active: boolean
           phone: string | null
+          state_code: string | null
           supplier_code: string | null
           supplier_name: string
           updated_at: string
@@ -734,9 +871,11 @@ export type Database = {
           contact_person?: string | null
           created_at?: string
           email?: string | null
+          gstin?: string | null
           id?: string
           is_active?: boolean
           phone?: string | null
+          state_code?: string | null
           supplier_code?: string | null
           supplier_name: string
           updated_at?: string
@@ -746,145 +885,1310 @@ export type Database = {
           contact_person?: string | null
           created_at?: string
           email?: string | null
+          gstin?: string | null
           id?: string
           is_active?: boolean
           phone?: string | null
+          state_code?: string | null
           supplier_code?: string | null
           supplier_name?: string
           updated_at?: string
         }
         Relationships: []
       }
-      packaging_templates: {
+      expiry_write_off_drafts: {
         Row: {
           id: string
-          template_name: string
-          unit_name: string
-          conversion_factor_to_strips: number
-          is_base_unit: boolean
-          order_in_hierarchy: number
+          product_id: string
+          batch_id: string
+          location_type: string
+          location_id: string
+          expiry_date: string
+          quantity_strips: number
+          cost_per_strip: number
+          status: string
+          adjustment_id: string | null
+          reviewed_by: string | null
+          reviewed_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
-          template_name: string
-          unit_name: string
-          conversion_factor_to_strips?: number
-          is_base_unit?: boolean
-          order_in_hierarchy: number
+          product_id: string
+          batch_id: string
+          location_type: string
+          location_id?: string
+          expiry_date: string
+          quantity_strips: number
+          cost_per_strip?: number
+          status?: string
+          adjustment_id?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
-          template_name?: string
-          unit_name?: string
-          conversion_factor_to_strips?: number
-          is_base_unit?: boolean
-          order_in_hierarchy?: number
+          product_id?: string
+          batch_id?: string
+          location_type?: string
+          location_id?: string
+          expiry_date?: string
+          quantity_strips?: number
+          cost_per_strip?: number
+          status?: string
+          adjustment_id?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
           created_at?: string
           updated_at?: string
         }
-        Relationships: []
-      }
-    }
-    Views: {
-      stock_transactions_view: {
-        Row: {
-          transaction_id: string
-          transaction_group_id: string
-          product_id: string
-          batch_id: string
-          transaction_type: string
-          quantity_strips: number
-          location_type_source: string | null
-          location_id_source: string | null
-          location_type_destination: string | null
-          location_id_destination: string | null
-          transaction_date: string
-          reference_document_type: string | null
-          reference_document_id: string | null
-          cost_per_strip_at_transaction: number
-          notes: string | null
-          created_by: string | null
-          created_at: string
-        }
         Relationships: [
           {
-            foreignKeyName: "stock_transactions_batch_id_fkey"
+            foreignKeyName: "expiry_write_off_drafts_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expiry_write_off_drafts_batch_id_fkey"
             columns: ["batch_id"]
             isOneToOne: false
             referencedRelation: "product_batches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "stock_transactions_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "expiry_write_off_drafts_adjustment_id_fkey"
+            columns: ["adjustment_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "stock_adjustments"
+            referencedColumns: ["adjustment_id"]
+          }
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          id: string
+          po_number: string
+          supplier_id: string
+          order_date: string
+          expected_delivery_date: string | null
+          status: string
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          po_number?: string
+          supplier_id: string
+          order_date?: string
+          expected_delivery_date?: string | null
+          status?: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          po_number?: string
+          supplier_id?: string
+          order_date?: string
+          expected_delivery_date?: string | null
+          status?: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
             referencedColumns: ["id"]
-          },
+          }
         ]
       }
-      closing_stock_view: {
+      purchase_order_lines: {
         Row: {
           id: string
+          purchase_order_id: string
           product_id: string
-          product_code: string
-          product_name: string
-          generic_name: string
-          batch_id: string
-          batch_number: string
-          expiry_date: string
-          location_type: string
-          location_id: string
+          unit_id: string
+          quantity: number
           quantity_strips: number
           cost_per_strip: number
-          total_value: number
-          category_id: string
-          category_name: string | null
-          min_stock_level_godown: number | null
-          min_stock_level_mr: number | null
-          last_updated_at: string
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          purchase_order_id: string
+          product_id: string
+          unit_id: string
+          quantity: number
+          quantity_strips: number
+          cost_per_strip: number
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          purchase_order_id?: string
+          product_id?: string
+          unit_id?: string
+          quantity?: number
+          quantity_strips?: number
+          cost_per_strip?: number
+          notes?: string | null
+          created_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "closing_stock_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "purchase_orders"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "closing_stock_batch_id_fkey"
-            columns: ["batch_id"]
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
+            columns: ["product_id"]
             isOneToOne: false
-            referencedRelation: "product_batches"
+            referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "closing_stock_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "purchase_order_lines_unit_id_fkey"
+            columns: ["unit_id"]
             isOneToOne: false
-            referencedRelation: "product_categories"
+            referencedRelation: "product_packaging_units"
             referencedColumns: ["id"]
           }
         ]
       }
-    }
-    Functions: {
-      is_admin: {
-        Args: { user_uuid: string }
-        Returns: boolean
+      supplier_returns: {
+        Row: {
+          id: string
+          debit_note_number: string
+          supplier_id: string
+          return_date: string
+          original_purchase_group_id: string | null
+          original_reference_document_id: string | null
+          reason: string
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          debit_note_number?: string
+          supplier_id: string
+          return_date?: string
+          original_purchase_group_id?: string | null
+          original_reference_document_id?: string | null
+          reason: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          debit_note_number?: string
+          supplier_id?: string
+          return_date?: string
+          original_purchase_group_id?: string | null
+          original_reference_document_id?: string | null
+          reason?: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_returns_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      recalculate_products_stock_status: {
-        Args: Record<PropertyKey, never>
-        Returns: undefined
+      purchase_invoices: {
+        Row: {
+          purchase_group_id: string
+          supplier_invoice_number: string | null
+          invoice_amount: number
+          freight_amount: number
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          purchase_group_id: string
+          supplier_invoice_number?: string | null
+          invoice_amount?: number
+          freight_amount?: number
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          purchase_group_id?: string
+          supplier_invoice_number?: string | null
+          invoice_amount?: number
+          freight_amount?: number
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      company_profile: {
+        Row: {
+          id: boolean
+          company_name: string
+          gstin: string | null
+          state_code: string | null
+          address: string | null
+          phone: string | null
+          email: string | null
+          drug_licence_number: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          company_name?: string
+          gstin?: string | null
+          state_code?: string | null
+          address?: string | null
+          phone?: string | null
+          email?: string | null
+          drug_licence_number?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          company_name?: string
+          gstin?: string | null
+          state_code?: string | null
+          address?: string | null
+          phone?: string | null
+          email?: string | null
+          drug_licence_number?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stock_settings: {
+        Row: {
+          id: boolean
+          min_shelf_life_days: number
+          near_expiry_horizons: number[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          min_shelf_life_days?: number
+          near_expiry_horizons?: number[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          min_shelf_life_days?: number
+          near_expiry_horizons?: number[]
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      price_lists: {
+        Row: {
+          id: string
+          price_list_name: string
+          description: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          price_list_name: string
+          description?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          price_list_name?: string
+          description?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      price_list_items: {
+        Row: {
+          id: string
+          price_list_id: string
+          product_id: string
+          price_per_strip: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          price_list_id: string
+          product_id: string
+          price_per_strip: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          price_list_id?: string
+          product_id?: string
+          price_per_strip?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_list_items_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_list_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      customers: {
+        Row: {
+          id: string
+          customer_code: string
+          customer_name: string
+          customer_type: string
+          drug_licence_number: string | null
+          gstin: string | null
+          state_code: string | null
+          phone: string | null
+          address: string | null
+          territory: string | null
+          assigned_mr_user_id: string | null
+          credit_limit: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          customer_code: string
+          customer_name: string
+          customer_type?: string
+          drug_licence_number?: string | null
+          gstin?: string | null
+          state_code?: string | null
+          phone?: string | null
+          address?: string | null
+          territory?: string | null
+          assigned_mr_user_id?: string | null
+          credit_limit?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          customer_code?: string
+          customer_name?: string
+          customer_type?: string
+          drug_licence_number?: string | null
+          gstin?: string | null
+          state_code?: string | null
+          phone?: string | null
+          address?: string | null
+          territory?: string | null
+          assigned_mr_user_id?: string | null
+          credit_limit?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_templates: {
+        Row: {
+          document_type: string
+          title: string
+          header_note: string | null
+          footer_note: string | null
+          signatory_labels: string[]
+          show_prices: boolean
+          show_packaging_units: boolean
+          paper_size: string
+          orientation: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          document_type: string
+          title: string
+          header_note?: string | null
+          footer_note?: string | null
+          signatory_labels?: string[]
+          show_prices?: boolean
+          show_packaging_units?: boolean
+          paper_size?: string
+          orientation?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          document_type?: string
+          title?: string
+          header_note?: string | null
+          footer_note?: string | null
+          signatory_labels?: string[]
+          show_prices?: boolean
+          show_packaging_units?: boolean
+          paper_size?: string
+          orientation?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_number_series: {
+        Row: {
+          document_type: string
+          prefix: string
+          padding: number
+          reset_each_financial_year: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          document_type: string
+          prefix?: string
+          padding?: number
+          reset_each_financial_year?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          document_type?: string
+          prefix?: string
+          padding?: number
+          reset_each_financial_year?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      document_number_counters: {
+        Row: {
+          document_type: string
+          financial_year: string
+          last_number: number
+          updated_at: string
+        }
+        Insert: {
+          document_type: string
+          financial_year?: string
+          last_number?: number
+          updated_at?: string
+        }
+        Update: {
+          document_type?: string
+          financial_year?: string
+          last_number?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_number_counters_document_type_fkey"
+            columns: ["document_type"]
+            isOneToOne: false
+            referencedRelation: "document_number_series"
+            referencedColumns: ["document_type"]
+          },
+        ]
+      }
+      document_numbers: {
+        Row: {
+          document_type: string
+          document_number: string
+          group_id: string
+          created_at: string
+        }
+        Insert: {
+          document_type: string
+          document_number: string
+          group_id: string
+          created_at?: string
+        }
+        Update: {
+          document_type?: string
+          document_number?: string
+          group_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      mr_return_requests: {
+        Row: {
+          id: string
+          mr_user_id: string
+          request_date: string
+          reason: string
+          status: string
+          review_notes: string | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          mr_user_id: string
+          request_date?: string
+          reason: string
+          status?: string
+          review_notes?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          mr_user_id?: string
+          request_date?: string
+          reason?: string
+          status?: string
+          review_notes?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      mr_return_request_lines: {
+        Row: {
+          id: string
+          request_id: string
+          product_id: string
+          batch_id: string
+          quantity_strips: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          product_id: string
+          batch_id: string
+          quantity_strips: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          product_id?: string
+          batch_id?: string
+          quantity_strips?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mr_return_request_lines_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "mr_return_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mr_return_request_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mr_return_request_lines_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "product_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mr_holding_limits: {
+        Row: {
+          id: string
+          mr_user_id: string
+          product_id: string | null
+          max_quantity_strips: number | null
+          max_value: number | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          mr_user_id: string
+          product_id?: string | null
+          max_quantity_strips?: number | null
+          max_value?: number | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          mr_user_id?: string
+          product_id?: string | null
+          max_quantity_strips?: number | null
+          max_value?: number | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mr_holding_limits_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mr_dispatch_requests: {
+        Row: {
+          id: string
+          mr_user_id: string
+          dispatch_date: string
+          price_list_id: string | null
+          notes: string | null
+          limit_breaches: Json
+          status: string
+          requested_by: string | null
+          review_notes: string | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          mr_user_id: string
+          dispatch_date?: string
+          price_list_id?: string | null
+          notes?: string | null
+          limit_breaches?: Json
+          status?: string
+          requested_by?: string | null
+          review_notes?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          mr_user_id?: string
+          dispatch_date?: string
+          price_list_id?: string | null
+          notes?: string | null
+          limit_breaches?: Json
+          status?: string
+          requested_by?: string | null
+          review_notes?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mr_dispatch_requests_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mr_dispatch_request_lines: {
+        Row: {
+          id: string
+          request_id: string
+          product_id: string
+          batch_id: string
+          quantity_strips: number
+          cost_per_strip: number
+          selling_price_per_strip: number | null
+          notes: string | null
+          override_justification: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          product_id: string
+          batch_id: string
+          quantity_strips: number
+          cost_per_strip?: number
+          selling_price_per_strip?: number | null
+          notes?: string | null
+          override_justification?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          product_id?: string
+          batch_id?: string
+          quantity_strips?: number
+          cost_per_strip?: number
+          selling_price_per_strip?: number | null
+          notes?: string | null
+          override_justification?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mr_dispatch_request_lines_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "mr_dispatch_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mr_dispatch_request_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mr_dispatch_request_lines_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "product_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          role: Database["public"]["Enums"]["user_role"]
+          permission: string
+          created_at: string
+        }
+        Insert: {
+          role: Database["public"]["Enums"]["user_role"]
+          permission: string
+          created_at?: string
+        }
+        Update: {
+          role?: Database["public"]["Enums"]["user_role"]
+          permission?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_invitations: {
+        Row: {
+          id: string
+          email: string
+          name: string
+          role: Database["public"]["Enums"]["user_role"]
+          territory_id: string | null
+          reports_to: string | null
+          invited_by: string | null
+          accepted_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          email: string
+          name: string
+          role: Database["public"]["Enums"]["user_role"]
+          territory_id?: string | null
+          reports_to?: string | null
+          invited_by?: string | null
+          accepted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          name?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          territory_id?: string | null
+          reports_to?: string | null
+          invited_by?: string | null
+          accepted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      territories: {
+        Row: {
+          id: string
+          territory_name: string
+          territory_code: string | null
+          level: string
+          parent_id: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          territory_name: string
+          territory_code?: string | null
+          level: string
+          parent_id?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          territory_name?: string
+          territory_code?: string | null
+          level?: string
+          parent_id?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      batch_recalls: {
+        Row: {
+          id: string
+          recall_number: string
+          product_id: string
+          batch_id: string
+          reason: string
+          manufacturer_reference: string | null
+          status: string
+          previous_batch_status: string
+          notes: string | null
+          initiated_by: string | null
+          initiated_at: string
+          completed_by: string | null
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          recall_number?: string
+          product_id: string
+          batch_id: string
+          reason: string
+          manufacturer_reference?: string | null
+          status?: string
+          previous_batch_status?: string
+          notes?: string | null
+          initiated_by?: string | null
+          initiated_at?: string
+          completed_by?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          recall_number?: string
+          product_id?: string
+          batch_id?: string
+          reason?: string
+          manufacturer_reference?: string | null
+          status?: string
+          previous_batch_status?: string
+          notes?: string | null
+          initiated_by?: string | null
+          initiated_at?: string
+          completed_by?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_recalls_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "product_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_recalls_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      packaging_templates: {
+        Row: {
+          id: string
+          template_name: string
+          unit_name: string
+          conversion_factor_to_strips: number
+          is_base_unit: boolean
+          order_in_hierarchy: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          template_name: string
+          unit_name: string
+          conversion_factor_to_strips?: number
+          is_base_unit?: boolean
+          order_in_hierarchy: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          template_name?: string
+          unit_name?: string
+          conversion_factor_to_strips?: number
+          is_base_unit?: boolean
+          order_in_hierarchy?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      stock_transactions_view: {
+        Row: {
+          transaction_id: string
+          transaction_group_id: string
+          product_id: string
+          batch_id: string
+          transaction_type: string
+          quantity_strips: number
+          location_type_source: string | null
+          location_id_source: string | null
+          location_type_destination: string | null
+          location_id_destination: string | null
+          transaction_date: string
+          reference_document_type: string | null
+          reference_document_id: string | null
+          cost_per_strip_at_transaction: number
+          notes: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transactions_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "product_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transactions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_lines_view: {
+        Row: {
+          id: string
+          purchase_order_id: string
+          po_number: string
+          supplier_id: string
+          order_date: string
+          expected_delivery_date: string | null
+          status: string
+          product_id: string
+          product_name: string
+          product_code: string
+          unit_id: string
+          unit_name: string
+          conversion_factor_to_strips: number
+          quantity: number
+          quantity_strips: number
+          cost_per_strip: number
+          received_strips: number
+          outstanding_strips: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      unlinked_customer_sales_view: {
+        Row: {
+          recorded_customer_name: string
+          sale_lines: number
+          sales: number
+          first_sale_date: string
+          last_sale_date: string
+          total_value: number
+          customer_gstin: string | null
+          customer_state_code: string | null
+        }
+        Relationships: []
+      }
+      unmatched_supplier_purchases_view: {
+        Row: {
+          legacy_supplier_name: string
+          purchase_lines: number
+          purchases: number
+          first_purchase_date: string
+          last_purchase_date: string
+          total_value: number
+        }
+        Relationships: []
+      }
+      closing_stock_view: {
+        Row: {
+          id: string
+          product_id: string
+          product_code: string
+          product_name: string
+          generic_name: string
+          batch_id: string
+          batch_number: string
+          expiry_date: string
+          location_type: string
+          location_id: string
+          quantity_strips: number
+          cost_per_strip: number
+          total_value: number
+          category_id: string
+          category_name: string | null
+          min_stock_level_godown: number | null
+          min_stock_level_mr: number | null
+          last_updated_at: string
+          location_product_quantity_strips: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "closing_stock_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "closing_stock_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "product_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "closing_stock_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "product_categories"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+    }
+    Functions: {
+      is_admin: {
+        Args: { user_uuid: string }
+        Returns: boolean
+      }
+      recalculate_products_stock_status: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      rebuild_closing_stock: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      preview_document_number: {
+        Args: { p_document_type: string; p_date?: string }
+        Returns: string | null
+      }
+      approve_mr_return_request: {
+        Args: { p_request_id: string; p_review_notes?: string | null }
+        Returns: string | null
+      }
+      approve_mr_dispatch_request: {
+        Args: { p_request_id: string; p_review_notes?: string | null }
+        Returns: string | null
+      }
+      create_mr_dispatch_request: {
+        Args: {
+          p_mr_user_id: string
+          p_dispatch_date: string
+          p_price_list_id: string | null
+          p_notes: string | null
+          p_lines: Json
+        }
+        Returns: string
+      }
+      create_supplier_return: {
+        Args: {
+          p_supplier_id: string
+          p_return_date: string
+          p_original_purchase_group_id: string | null
+          p_original_reference_document_id: string | null
+          p_reason: string
+          p_notes: string | null
+          p_lines: Json
+        }
+        Returns: string
+      }
+      get_mr_limit_breaches: {
+        Args: { p_mr_user_id: string; p_lines: Json }
+        Returns: {
+          product_id: string | null
+          product_name: string | null
+          limit_type: "QUANTITY" | "VALUE"
+          limit_amount: number
+          holding_after: number
+        }[]
+      }
+      get_dispatch_request_breaches: {
+        Args: { p_request_id: string }
+        Returns: {
+          product_id: string | null
+          product_name: string | null
+          limit_type: "QUANTITY" | "VALUE"
+          limit_amount: number
+          holding_after: number
+        }[]
+      }
+      update_mr_dispatch: {
+        Args: {
+          p_sale_group_id: string
+          p_mr_user_id: string
+          p_dispatch_date: string
+          p_price_list_id: string | null
+          p_notes: string | null
+          p_lines: Json
+        }
+        Returns: undefined
+      }
+      has_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
+      team_member_ids: {
+        Args: { p_manager_id?: string }
+        Returns: string[]
+      }
+      can_view_location: {
+        Args: { p_location_type: string; p_location_id: string }
+        Returns: boolean
+      }
+      get_user_sign_ins: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          last_sign_in_at: string | null
+          email_confirmed_at: string | null
+        }[]
+      }
+      post_expiry_write_off_draft: {
+        Args: { p_draft_id: string }
+        Returns: string
+      }
+      search_stock_transactions: {
+        Args: {
+          p_product_search?: string | null
+          p_batch_search?: string | null
+          p_to?: string | null
+        }
+        Returns: Database["public"]["Views"]["stock_transactions_view"]["Row"][]
+      }
+      post_recall_document: {
+        Args: {
+          p_recall_id: string
+          p_action: string
+          p_source_type: string
+          p_source_id: string
+          p_quantity_strips: number
+          p_notes?: string | null
+        }
+        Returns: string
+      }
+      mark_expired_batches: {
+        Args: { p_as_of?: string }
+        Returns: {
+          batches_marked: number
+          drafts_proposed: number
+        }[]
+      }
+      get_closing_stock_summary: {
+        Args: {
+          p_location_type?: string | null
+          p_location_id?: string | null
+          p_product_search?: string | null
+          p_category_name?: string | null
+          p_batch_search?: string | null
+          p_expiry_from?: string | null
+          p_expiry_to?: string | null
+          p_expiring_within_days?: number
+          p_location_ids?: string[] | null
+        }
+        Returns: {
+          total_products: number
+          total_batches: number
+          total_value: number
+          low_stock_items: number
+          expiring_soon_items: number
+        }[]
       }
     }
     Enums: {
-      user_role: "admin" | "user"
+      user_role: "admin" | "mr" | "storekeeper" | "accounts" | "area_manager" | "auditor"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1000,7 +2304,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      user_role: ["admin", "user"],
+      user_role: ["admin", "mr", "storekeeper", "accounts", "area_manager", "auditor"],
     },
   },
 } as const
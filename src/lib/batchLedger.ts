@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAllPages, getTransactionEffects } from '@/lib/stockCalculations';
+import { BatchLedgerEntry } from '@/types/stock';
+
+/**
+ * Builds the full life of one batch in date order: one entry per location a transaction
+ * moves stock in or out of, with the running balance at that location and across the batch.
+ */
+export async function fetchBatchLedger(batchId: string): Promise<BatchLedgerEntry[]> {
+  const transactions = await fetchAllPages<Tables<'stock_transactions_view'>>((from, to) => supabase
+    .from('stock_transactions_view')
+    .select('*')
+    .eq('batch_id', batchId)
+    .order('transaction_date')
+    .order('created_at')
+    .order('transaction_id')
+    .range(from, to));
+
+  const locationBalances = new Map<string, number>();
+  let batchBalance = 0;
+  const entries: BatchLedgerEntry[] = [];
+
+  transactions.forEach(transaction => {
+    const effects = getTransactionEffects({
+      ...transaction,
+      location_type_source: transaction.location_type_source || '',
+      location_id_source: transaction.location_id_source || '',
+      location_type_destination: transaction.location_type_destination || '',
+      location_id_destination: transaction.location_id_destination || '',
+    });
+
+    effects.forEach((effect, index) => {
+      const locationKey = `${effect.location_type}_${effect.location_id}`;
+      const locationBalance = (locationBalances.get(locationKey) || 0) + effect.quantity_strips;
+      locationBalances.set(locationKey, locationBalance);
+      batchBalance += effect.quantity_strips;
+
+      entries.push({
+        key: `${transaction.transaction_id}_${index}`,
+        transaction_id: transaction.transaction_id,
+        transaction_group_id: transaction.transaction_group_id,
+        reference_document_type: transaction.reference_document_type || '',
+        transaction_type: transaction.transaction_type,
+        transaction_date: transaction.transaction_date,
+        location_type: effect.location_type,
+        location_id: effect.location_id,
+        quantity_strips: effect.quantity_strips,
+        location_balance: locationBalance,
+        batch_balance: batchBalance,
+        notes: transaction.notes,
+      });
+    });
+  });
+
+  return entries;
+}
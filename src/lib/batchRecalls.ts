@@ -0,0 +1,200 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/stockCalculations';
+import { RecallCustomer, RecallHolding } from '@/types/stock';
+
+export type BatchRecall = Tables<'batch_recalls'>;
+export type RecallAdjustment = Tables<'stock_adjustments'>;
+
+interface InitiateRecallInput {
+  batchId: string;
+  reason: string;
+  manufacturerReference: string;
+  notes: string;
+  userId?: string;
+}
+
+interface RecallReturnInput {
+  sourceType: 'MR' | 'CUSTOMER';
+  sourceId: string;
+  quantityStrips: number;
+  notes: string;
+}
+
+/**
+ * Opens a recall for a batch. The database freezes the batch by marking it Recalled.
+ */
+export async function initiateRecall(input: InitiateRecallInput): Promise<BatchRecall> {
+  const { data: batch, error: batchError } = await supabase
+    .from('product_batches')
+    .select('id, product_id')
+    .eq('id', input.batchId)
+    .single();
+  if (batchError) throw batchError;
+
+  const { data: recall, error } = await supabase
+    .from('batch_recalls')
+    .insert({
+      product_id: batch.product_id,
+      batch_id: batch.id,
+      reason: input.reason,
+      manufacturer_reference: input.manufacturerReference || null,
+      notes: input.notes || null,
+      initiated_by: input.userId,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  return recall;
+}
+
+/**
+ * Lists the godown and MR locations still holding the recalled batch
+ */
+export async function fetchRecallHoldings(batchId: string): Promise<RecallHolding[]> {
+  const { data, error } = await supabase
+    .from('closing_stock_view')
+    .select('location_type, location_id, quantity_strips, cost_per_strip')
+    .eq('batch_id', batchId)
+    .gt('quantity_strips', 0)
+    .order('location_type');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Lists every customer who received the batch, directly from the godown or through an MR,
+ * with the quantity already recovered from them under this recall
+ */
+export async function fetchRecallCustomers(batchId: string, recallId: string): Promise<RecallCustomer[]> {
+  const [sales, recoveries] = await Promise.all([
+    fetchAllPages<Tables<'stock_sales'>>((from, to) => supabase
+      .from('stock_sales')
+      .select('*')
+      .eq('batch_id', batchId)
+      .eq('location_type_destination', 'CUSTOMER')
+      .order('sale_date')
+      .order('sale_id')
+      .range(from, to)),
+    fetchAllPages<RecallAdjustment>((from, to) => supabase
+      .from('stock_adjustments')
+      .select('*')
+      .eq('recall_id', recallId)
+      .eq('location_type_source', 'CUSTOMER')
+      .order('adjustment_id')
+      .range(from, to)),
+  ]);
+
+  const customers = new Map<string, RecallCustomer>();
+
+  sales.forEach(sale => {
+    const customerName = sale.location_id_destination || 'Unknown customer';
+    // 'GODOWN' for direct sales, otherwise the id of the MR who made the sale
+    const soldThrough = sale.location_type_source === 'MR' ? sale.location_id_source || '' : 'GODOWN';
+
+    if (!customers.has(customerName)) {
+      customers.set(customerName, {
+        customer_name: customerName,
+        sold_through: [],
+        invoices: [],
+        quantity_sold: 0,
+        quantity_recovered: 0,
+        cost_per_strip: sale.cost_per_strip,
+        last_sale_date: sale.sale_date,
+      });
+    }
+
+    const customer = customers.get(customerName)!;
+    customer.quantity_sold += Math.abs(sale.quantity_strips);
+    customer.last_sale_date = sale.sale_date;
+    if (!customer.sold_through.includes(soldThrough)) {
+      customer.sold_through.push(soldThrough);
+    }
+    if (sale.reference_document_id && !customer.invoices.includes(sale.reference_document_id)) {
+      customer.invoices.push(sale.reference_document_id);
+    }
+  });
+
+  recoveries.forEach(recovery => {
+    const customer = customers.get(recovery.location_id_source || '');
+    if (customer) {
+      customer.quantity_recovered += recovery.quantity_strips;
+    }
+  });
+
+  return Array.from(customers.values())
+    .sort((a, b) => a.customer_name.localeCompare(b.customer_name));
+}
+
+/**
+ * Fetches the return and write-off adjustments posted under a recall
+ */
+export async function fetchRecallAdjustments(recallId: string): Promise<RecallAdjustment[]> {
+  const { data, error } = await supabase
+    .from('stock_adjustments')
+    .select('*')
+    .eq('recall_id', recallId)
+    .order('adjustment_date')
+    .order('created_at');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Posts a recall return document bringing stock back to the godown from an MR or a customer.
+ * The database checks the quantity against what the MR holds or the customer has not yet returned.
+ */
+export async function postRecallReturn(recall: BatchRecall, input: RecallReturnInput) {
+  const { error } = await supabase.rpc('post_recall_document', {
+    p_recall_id: recall.id,
+    p_action: 'RETURN',
+    p_source_type: input.sourceType,
+    p_source_id: input.sourceId,
+    p_quantity_strips: input.quantityStrips,
+    p_notes: input.notes || null,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Writes off recalled stock held in the godown as an expiry adjustment, up to what the godown holds
+ */
+export async function writeOffRecalledStock(recall: BatchRecall, quantityStrips: number) {
+  const { error } = await supabase.rpc('post_recall_document', {
+    p_recall_id: recall.id,
+    p_action: 'WRITE_OFF',
+    p_source_type: 'GODOWN',
+    p_source_id: 'GODOWN',
+    p_quantity_strips: quantityStrips,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Closes a recall. The batch stays Recalled.
+ */
+export async function completeRecall(recall: BatchRecall, userId?: string) {
+  const { error } = await supabase
+    .from('batch_recalls')
+    .update({
+      status: 'Completed',
+      completed_by: userId,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', recall.id);
+  if (error) throw error;
+}
+
+/**
+ * Cancels a recall opened in error. The database restores the batch's previous status.
+ */
+export async function cancelRecall(recall: BatchRecall) {
+  const { error } = await supabase
+    .from('batch_recalls')
+    .update({ status: 'Cancelled' })
+    .eq('id', recall.id);
+  if (error) throw error;
+}
@@ -0,0 +1,66 @@
+import { toDateInput } from '@/lib/utils';
+
+export interface BatchRestriction {
+  reason: string;
+  canOverride: boolean;
+}
+
+interface RestrictableBatch {
+  batch_number: string;
+  status: string;
+  expiry_date: string;
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date
+ */
+export const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+/**
+ * Mirrors validate_outbound_batch(): explains why a batch cannot be dispatched, sold or
+ * sent as a replacement on the given date, or returns null when it can. The minimum shelf
+ * life applies to stock leaving the godown.
+ */
+export function getBatchRestriction(
+  batch: RestrictableBatch,
+  movementDate: string = toDateInput(new Date()),
+  minShelfLifeDays = 0
+): BatchRestriction | null {
+  if (batch.status === 'Recalled') {
+    return { reason: `Batch ${batch.batch_number} has been recalled`, canOverride: false };
+  }
+  if (batch.status === 'Quarantined') {
+    return { reason: `Batch ${batch.batch_number} is quarantined`, canOverride: true };
+  }
+  if (batch.status === 'Expired') {
+    return { reason: `Batch ${batch.batch_number} is marked Expired`, canOverride: true };
+  }
+  if (batch.expiry_date < movementDate) {
+    return {
+      reason: `Batch ${batch.batch_number} expired on ${new Date(batch.expiry_date).toLocaleDateString()}`,
+      canOverride: true,
+    };
+  }
+  if (minShelfLifeDays > 0 && batch.expiry_date < addDays(movementDate, minShelfLifeDays)) {
+    return {
+      reason: `Batch ${batch.batch_number} expires on ${new Date(batch.expiry_date).toLocaleDateString()}, within the minimum shelf life of ${minShelfLifeDays} days`,
+      canOverride: true,
+    };
+  }
+  return null;
+}
+
+/**
+ * Extracts the database's batch validation message from an insert error, if that is what failed
+ */
+export function getBatchValidationMessage(error: unknown): string | null {
+  const dbError = error as { code?: string; message?: string } | null;
+  if (dbError?.code === '23514' && dbError.message?.startsWith('Batch ')) {
+    return dbError.message;
+  }
+  return null;
+}
@@ -0,0 +1,30 @@
+type CsvValue = string | number | null | undefined;
+
+const escapeCsvValue = (value: CsvValue) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds CSV text from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Saves rows as a CSV file through the browser
+ */
+export function downloadCsv(fileName: string, headers: string[], rows: CsvValue[][]): void {
+  const blob = new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
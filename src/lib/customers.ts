@@ -0,0 +1,199 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/stockCalculations';
+
+export type Customer = Tables<'customers'>;
+export type UnlinkedCustomerSales = Tables<'unlinked_customer_sales_view'>;
+
+export interface CustomerInput {
+  customer_code: string;
+  customer_name: string;
+  customer_type: string;
+  drug_licence_number: string;
+  gstin: string;
+  state_code: string;
+  phone: string;
+  address: string;
+  territory: string;
+  assigned_mr_user_id: string;
+  credit_limit: number;
+  is_active: boolean;
+}
+
+export interface CustomerSaleSummary {
+  sales: number;
+  last_sale_date: string;
+}
+
+/** Typed customer names that look like spellings of one customer */
+export interface CustomerNameCluster {
+  key: string;
+  names: UnlinkedCustomerSales[];
+  sales: number;
+  total_value: number;
+  last_sale_date: string;
+}
+
+export const CUSTOMER_TYPES = [
+  { value: 'retailer', label: 'Retailer' },
+  { value: 'hospital', label: 'Hospital' },
+  { value: 'doctor', label: 'Doctor' },
+];
+
+// Words that vary between spellings of the same business name
+const NAME_WORD_ALIASES = new Map([
+  ['shri', 'sri'],
+  ['shree', 'sri'],
+  ['sree', 'sri'],
+  ['and', ''],
+  ['the', ''],
+  ['store', 'stores'],
+  ['pharma', 'pharmacy'],
+  ['chemist', 'chemists'],
+  ['medical', 'medicals'],
+]);
+
+export const getCustomerTypeLabel = (type: string) =>
+  CUSTOMER_TYPES.find(option => option.value === type)?.label || type;
+
+/**
+ * Reduces a customer name to a key that ignores case, punctuation, spacing and the usual
+ * variations of shop names, so "M/s. Sri Ram Medical" and "SHREE RAM MEDICALS" match
+ */
+export function getCustomerNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\bm\s*\/\s*s\b/g, ' ')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => NAME_WORD_ALIASES.get(word) ?? word)
+    .join('');
+}
+
+/**
+ * Fetches customers by name, optionally only the active ones
+ */
+export async function fetchCustomers(activeOnly = false): Promise<Customer[]> {
+  let query = supabase
+    .from('customers')
+    .select('*')
+    .order('customer_name');
+  if (activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Creates a customer, or updates it when an id is given
+ */
+export async function saveCustomer(input: CustomerInput, id?: string): Promise<Customer> {
+  const customer = {
+    customer_code: input.customer_code.trim().toUpperCase(),
+    customer_name: input.customer_name.trim(),
+    customer_type: input.customer_type,
+    drug_licence_number: input.drug_licence_number.trim() || null,
+    gstin: input.gstin.trim() || null,
+    state_code: input.state_code || null,
+    phone: input.phone.trim() || null,
+    address: input.address.trim() || null,
+    territory: input.territory.trim() || null,
+    assigned_mr_user_id: input.assigned_mr_user_id || null,
+    credit_limit: input.credit_limit || 0,
+    is_active: input.is_active,
+  };
+
+  const { data, error } = id
+    ? await supabase.from('customers').update(customer).eq('id', id).select().single()
+    : await supabase.from('customers').insert(customer).select().single();
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Counts direct sales and finds the latest sale date per customer
+ */
+export async function fetchCustomerSaleSummary(): Promise<Map<string, CustomerSaleSummary>> {
+  const rows = await fetchAllPages<{ customer_id: string; sale_group_id: string; sale_date: string }>(
+    (from, to) => supabase
+      .from('stock_sales')
+      .select('customer_id, sale_group_id, sale_date')
+      .not('customer_id', 'is', null)
+      .order('sale_id')
+      .range(from, to)
+  );
+
+  const groups = new Map<string, Set<string>>();
+  const summary = new Map<string, CustomerSaleSummary>();
+  rows.forEach(row => {
+    const customerGroups = groups.get(row.customer_id) || new Set<string>();
+    customerGroups.add(row.sale_group_id);
+    groups.set(row.customer_id, customerGroups);
+
+    const current = summary.get(row.customer_id);
+    summary.set(row.customer_id, {
+      sales: customerGroups.size,
+      last_sale_date: current && current.last_sale_date > row.sale_date
+        ? current.last_sale_date
+        : row.sale_date,
+    });
+  });
+
+  return summary;
+}
+
+/**
+ * Fetches the typed customer names of direct sales not yet linked to a customer
+ */
+export async function fetchUnlinkedCustomerSales(): Promise<UnlinkedCustomerSales[]> {
+  const { data, error } = await supabase
+    .from('unlinked_customer_sales_view')
+    .select('*')
+    .order('last_sale_date', { ascending: false });
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Groups unlinked customer names whose keys match, busiest first
+ */
+export function clusterCustomerNames(rows: UnlinkedCustomerSales[]): CustomerNameCluster[] {
+  const clusters = new Map<string, CustomerNameCluster>();
+  rows.forEach(row => {
+    const key = getCustomerNameKey(row.recorded_customer_name);
+    const cluster = clusters.get(key) || { key, names: [], sales: 0, total_value: 0, last_sale_date: row.last_sale_date };
+    cluster.names.push(row);
+    cluster.sales += row.sales;
+    cluster.total_value += Number(row.total_value);
+    if (row.last_sale_date > cluster.last_sale_date) {
+      cluster.last_sale_date = row.last_sale_date;
+    }
+    clusters.set(key, cluster);
+  });
+
+  return Array.from(clusters.values())
+    .map(cluster => ({ ...cluster, names: cluster.names.sort((a, b) => b.sales - a.sales) }))
+    .sort((a, b) => b.sales - a.sales);
+}
+
+/**
+ * Links every unlinked direct sale recorded under one of the given names to a customer, and
+ * renames them to the customer's name so the spellings are merged
+ */
+export async function linkCustomerSales(recordedNames: string[], customer: Pick<Customer, 'id' | 'customer_name'>) {
+  const { error } = await supabase
+    .from('stock_sales')
+    .update({ customer_id: customer.id, location_id_destination: customer.customer_name })
+    .eq('transaction_type', 'SALE_DIRECT_GODOWN')
+    .is('customer_id', null)
+    .in('location_id_destination', recordedNames);
+  if (error) throw error;
+}
@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { NumberingSeriesType } from '@/types/stock';
+
+export type NumberingSeries = Tables<'document_number_series'>;
+export type NumberingCounter = Tables<'document_number_counters'>;
+
+export interface SaveNumberingSeriesInput {
+  prefix: string;
+  padding: number;
+  reset_each_financial_year: boolean;
+}
+
+export const NUMBERING_SERIES: { type: NumberingSeriesType; label: string }[] = [
+  { type: 'GRN', label: 'GRN' },
+  { type: 'DELIVERY_CHALLAN', label: 'MR Dispatch (Delivery Challan)' },
+  { type: 'TAX_INVOICE', label: 'Sale (Tax Invoice)' },
+  { type: 'STOCK_ADJUSTMENT', label: 'Stock Adjustment' },
+];
+
+/**
+ * Indian financial year (April to March) a date falls in, e.g. 2025-06-30 -> "25-26"
+ */
+export function getFinancialYearLabel(date: Date): string {
+  const startYear = date.getMonth() < 3 ? date.getFullYear() - 1 : date.getFullYear();
+  const twoDigits = (year: number) => (year % 100).toString().padStart(2, '0');
+  return `${twoDigits(startYear)}-${twoDigits(startYear + 1)}`;
+}
+
+/**
+ * Formats a number the way the database does, e.g. "GRN/" + "25-26" + 12 -> "GRN/25-26/00012"
+ */
+export function formatDocumentNumber(prefix: string, padding: number, financialYear: string, value: number): string {
+  return `${prefix}${financialYear ? `${financialYear}/` : ''}${value.toString().padStart(padding, '0')}`;
+}
+
+/**
+ * Fetches the numbering series of every document type
+ */
+export async function fetchNumberingSeries(): Promise<NumberingSeries[]> {
+  const { data, error } = await supabase
+    .from('document_number_series')
+    .select('*');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Fetches the last number used by each series in each financial year
+ */
+export async function fetchNumberingCounters(): Promise<NumberingCounter[]> {
+  const { data, error } = await supabase
+    .from('document_number_counters')
+    .select('*');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Saves the prefix, padding and reset rule of one series. Numbers already issued are not changed.
+ */
+export async function saveNumberingSeries(documentType: NumberingSeriesType, input: SaveNumberingSeriesInput): Promise<void> {
+  const { error } = await supabase
+    .from('document_number_series')
+    .upsert({
+      document_type: documentType,
+      prefix: input.prefix.trim(),
+      padding: input.padding,
+      reset_each_financial_year: input.reset_each_financial_year,
+    }, { onConflict: 'document_type' });
+  if (error) throw error;
+}
+
+/**
+ * The number the next document of a series would be given on the date. Another user saving
+ * first takes it, so it is only shown as a hint; the number is allocated when the document is saved.
+ */
+export async function previewDocumentNumber(documentType: NumberingSeriesType, date?: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc(
+    'preview_document_number',
+    date ? { p_document_type: documentType, p_date: date } : { p_document_type: documentType }
+  );
+  if (error) throw error;
+
+  return data;
+}
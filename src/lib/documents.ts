@@ -0,0 +1,371 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { roundCurrency } from '@/lib/utils';
+import { DocumentType, PrintableDocument, PrintableDocumentLine } from '@/types/stock';
+
+export type DocumentTemplate = Tables<'document_templates'>;
+
+export interface SaveDocumentTemplateInput {
+  title: string;
+  header_note: string;
+  footer_note: string;
+  signatory_labels: string[];
+  show_prices: boolean;
+  show_packaging_units: boolean;
+  paper_size: string;
+  orientation: string;
+}
+
+export interface SaveCompanyContactInput {
+  phone: string;
+  email: string;
+  drug_licence_number: string;
+}
+
+interface PackagingUnit {
+  unit_name: string;
+  conversion_factor_to_strips: number;
+}
+
+interface DocumentLineRow {
+  product_id: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+  hsn_code: string | null;
+  gst_rate: number;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  notes: string | null;
+  products: { product_name: string; product_code: string } | null;
+  product_batches: { batch_number: string; expiry_date: string | null } | null;
+}
+
+// Routes address documents by a short name rather than the stored document type
+export const DOCUMENT_TYPES: { type: DocumentType; slug: string; label: string }[] = [
+  { type: 'GRN', slug: 'grn', label: 'Goods Receipt Note' },
+  { type: 'DELIVERY_CHALLAN', slug: 'challan', label: 'Delivery Challan' },
+  { type: 'TAX_INVOICE', slug: 'invoice', label: 'Tax Invoice' },
+];
+
+export const PAPER_SIZES = ['A4', 'A5', 'Letter'];
+
+const EMPTY_PARTY = {
+  code: null,
+  address: null,
+  gstin: null,
+  state_code: null,
+  drug_licence_number: null,
+  phone: null,
+};
+
+export const getDocumentTypeBySlug = (slug: string | undefined) =>
+  DOCUMENT_TYPES.find(option => option.slug === slug);
+
+export const getDocumentPath = (type: DocumentType, groupId: string) =>
+  `/admin/documents/${DOCUMENT_TYPES.find(option => option.type === type)!.slug}/${groupId}`;
+
+/**
+ * Expresses a strip count in the product's packaging units, largest first,
+ * e.g. 125 strips as "2 Box + 25 Strip"
+ */
+export function formatPackagingQuantity(strips: number, units: PackagingUnit[]): string {
+  const sortedUnits = units
+    .filter(unit => unit.conversion_factor_to_strips > 0)
+    .sort((a, b) => b.conversion_factor_to_strips - a.conversion_factor_to_strips);
+  if (sortedUnits.length === 0) return `${strips} Strip${strips !== 1 ? 's' : ''}`;
+
+  let remaining = strips;
+  const parts: string[] = [];
+  sortedUnits.forEach(unit => {
+    const count = Math.floor(remaining / unit.conversion_factor_to_strips);
+    if (count > 0) {
+      parts.push(`${count} ${unit.unit_name}`);
+      remaining -= count * unit.conversion_factor_to_strips;
+    }
+  });
+  if (remaining > 0) {
+    parts.push(`${remaining} Strip${remaining !== 1 ? 's' : ''}`);
+  }
+
+  return parts.join(' + ') || '0';
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundredInWords = (value: number) =>
+  value < 20 ? ONES[value] : `${TENS[Math.floor(value / 10)]}${value % 10 ? ` ${ONES[value % 10]}` : ''}`;
+
+const belowThousandInWords = (value: number) => {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? belowHundredInWords(rest) : '']
+    .filter(Boolean)
+    .join(' ');
+};
+
+/**
+ * Spells a rupee amount the Indian way, in crore, lakh and thousand, e.g.
+ * "Rupees One Lakh Twenty Thousand and Fifty Paise Only"
+ */
+export function amountInWords(amount: number): string {
+  const rupees = Math.floor(roundCurrency(amount));
+  const paise = Math.round((roundCurrency(amount) - rupees) * 100);
+
+  const parts: string[] = [];
+  let remaining = rupees;
+  [[10000000, 'Crore'], [100000, 'Lakh'], [1000, 'Thousand']].forEach(([divisor, name]) => {
+    const count = Math.floor(remaining / (divisor as number));
+    if (count > 0) {
+      parts.push(`${belowThousandInWords(count)} ${name}`);
+      remaining %= divisor as number;
+    }
+  });
+  if (remaining > 0) parts.push(belowThousandInWords(remaining));
+
+  const rupeesInWords = parts.join(' ') || 'Zero';
+  return `Rupees ${rupeesInWords}${paise ? ` and ${belowHundredInWords(paise)} Paise` : ''} Only`;
+}
+
+/**
+ * Fetches the templates of every document type
+ */
+export async function fetchDocumentTemplates(): Promise<DocumentTemplate[]> {
+  const { data, error } = await supabase
+    .from('document_templates')
+    .select('*');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Saves the template of one document type
+ */
+export async function saveDocumentTemplate(documentType: DocumentType, input: SaveDocumentTemplateInput): Promise<void> {
+  const { error } = await supabase
+    .from('document_templates')
+    .upsert({
+      document_type: documentType,
+      title: input.title.trim(),
+      header_note: input.header_note.trim() || null,
+      footer_note: input.footer_note.trim() || null,
+      signatory_labels: input.signatory_labels.map(label => label.trim()).filter(Boolean),
+      show_prices: input.show_prices,
+      show_packaging_units: input.show_packaging_units,
+      paper_size: input.paper_size,
+      orientation: input.orientation,
+    }, { onConflict: 'document_type' });
+  if (error) throw error;
+}
+
+/**
+ * Records the company's contact details and drug licence printed in document headers
+ */
+export async function saveCompanyContact(input: SaveCompanyContactInput): Promise<void> {
+  const { error } = await supabase
+    .from('company_profile')
+    .upsert({
+      id: true,
+      phone: input.phone.trim() || null,
+      email: input.email.trim() || null,
+      drug_licence_number: input.drug_licence_number.trim() || null,
+    }, { onConflict: 'id' });
+  if (error) throw error;
+}
+
+async function fetchPackagingUnits(productIds: string[]): Promise<Map<string, PackagingUnit[]>> {
+  if (productIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('product_packaging_units')
+    .select('product_id, unit_name, conversion_factor_to_strips')
+    .in('product_id', productIds);
+  if (error) throw error;
+
+  const units = new Map<string, PackagingUnit[]>();
+  (data || []).forEach(unit => {
+    units.set(unit.product_id, [...(units.get(unit.product_id) || []), unit]);
+  });
+  return units;
+}
+
+// Shapes stored lines for printing; lines recorded before GST was captured are valued at their rate
+async function toDocumentLines<T extends DocumentLineRow & { free_strips?: number }>(
+  rows: T[],
+  getRate: (row: T) => number
+): Promise<PrintableDocumentLine[]> {
+  const packagingUnits = await fetchPackagingUnits(Array.from(new Set(rows.map(row => row.product_id))));
+
+  return rows.map(row => {
+    const quantity = Math.abs(row.quantity_strips);
+    const rate = getRate(row);
+    return {
+      product_name: row.products?.product_name || '',
+      product_code: row.products?.product_code || '',
+      batch_number: row.product_batches?.batch_number || '',
+      expiry_date: row.product_batches?.expiry_date || null,
+      quantity_strips: quantity,
+      free_strips: row.free_strips || 0,
+      packaging_quantity: formatPackagingQuantity(quantity, packagingUnits.get(row.product_id) || []),
+      rate_per_strip: rate,
+      hsn_code: row.hsn_code,
+      gst_rate: Number(row.gst_rate),
+      taxable_value: Number(row.taxable_value) || roundCurrency(quantity * rate),
+      cgst_amount: Number(row.cgst_amount),
+      sgst_amount: Number(row.sgst_amount),
+      igst_amount: Number(row.igst_amount),
+    };
+  });
+}
+
+async function fetchGrnDocument(groupId: string): Promise<PrintableDocument | null> {
+  const { data, error } = await supabase
+    .from('stock_purchases')
+    .select(`
+      product_id, quantity_strips, cost_per_strip, notes,
+      hsn_code, gst_rate, taxable_value, cgst_amount, sgst_amount, igst_amount,
+      products:product_id (product_name, product_code),
+      product_batches:batch_id (batch_number, expiry_date),
+      purchase_date, reference_document_id, free_strips, legacy_supplier_name,
+      suppliers:supplier_id (supplier_name, supplier_code, address, gstin, state_code, phone)
+    `)
+    .eq('purchase_group_id', groupId)
+    .order('purchase_id');
+  if (error) throw error;
+  if (!data?.length) return null;
+
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('purchase_invoices')
+    .select('supplier_invoice_number')
+    .eq('purchase_group_id', groupId)
+    .maybeSingle();
+  if (invoiceError) throw invoiceError;
+
+  const first = data[0];
+  const lines = await toDocumentLines(data, row => Number(row.cost_per_strip));
+  return {
+    document_type: 'GRN',
+    group_id: groupId,
+    document_number: first.reference_document_id || '',
+    document_date: first.purchase_date,
+    party_label: 'Supplier',
+    party: {
+      ...EMPTY_PARTY,
+      name: first.suppliers?.supplier_name || first.legacy_supplier_name || '',
+      code: first.suppliers?.supplier_code || null,
+      address: first.suppliers?.address || null,
+      gstin: first.suppliers?.gstin || null,
+      state_code: first.suppliers?.state_code || null,
+      phone: first.suppliers?.phone || null,
+    },
+    references: invoice?.supplier_invoice_number
+      ? [{ label: 'Supplier Invoice No', value: invoice.supplier_invoice_number }]
+      : [],
+    inter_state: lines.some(line => line.igst_amount > 0),
+    notes: first.notes,
+    lines,
+  };
+}
+
+async function fetchDeliveryChallanDocument(groupId: string): Promise<PrintableDocument | null> {
+  const { data, error } = await supabase
+    .from('stock_sales')
+    .select(`
+      product_id, quantity_strips, cost_per_strip, notes,
+      hsn_code, gst_rate, taxable_value, cgst_amount, sgst_amount, igst_amount,
+      products:product_id (product_name, product_code),
+      product_batches:batch_id (batch_number, expiry_date),
+      sale_date, reference_document_id, location_id_destination
+    `)
+    .eq('sale_group_id', groupId)
+    .eq('transaction_type', 'DISPATCH_TO_MR')
+    .order('sale_id');
+  if (error) throw error;
+  if (!data?.length) return null;
+
+  const first = data[0];
+  const { data: mr, error: mrError } = await supabase
+    .from('profiles')
+    .select('name, email')
+    .eq('user_id', first.location_id_destination || '')
+    .maybeSingle();
+  if (mrError) throw mrError;
+
+  return {
+    document_type: 'DELIVERY_CHALLAN',
+    group_id: groupId,
+    document_number: first.reference_document_id || '',
+    document_date: first.sale_date,
+    party_label: 'Medical Representative',
+    party: {
+      ...EMPTY_PARTY,
+      name: mr?.name || 'Unknown MR',
+      address: mr?.email || null,
+    },
+    references: [],
+    inter_state: false,
+    notes: first.notes,
+    // Stock moves to the MR at cost; the challan carries no tax
+    lines: await toDocumentLines(data, row => Number(row.cost_per_strip)),
+  };
+}
+
+async function fetchTaxInvoiceDocument(groupId: string): Promise<PrintableDocument | null> {
+  const { data, error } = await supabase
+    .from('stock_sales')
+    .select(`
+      product_id, quantity_strips, cost_per_strip, notes,
+      hsn_code, gst_rate, taxable_value, cgst_amount, sgst_amount, igst_amount,
+      products:product_id (product_name, product_code),
+      product_batches:batch_id (batch_number, expiry_date),
+      sale_date, reference_document_id, location_id_destination, selling_price_per_strip,
+      customer_gstin, customer_state_code,
+      customers:customer_id (customer_code, address, drug_licence_number, phone)
+    `)
+    .eq('sale_group_id', groupId)
+    .eq('transaction_type', 'SALE_DIRECT_GODOWN')
+    .order('sale_id');
+  if (error) throw error;
+  if (!data?.length) return null;
+
+  const first = data[0];
+  // Sales recorded before selling prices were captured are shown at cost
+  const lines = await toDocumentLines(data, row => Number(row.selling_price_per_strip ?? row.cost_per_strip));
+  return {
+    document_type: 'TAX_INVOICE',
+    group_id: groupId,
+    document_number: first.reference_document_id || '',
+    document_date: first.sale_date,
+    party_label: 'Bill To',
+    party: {
+      name: first.location_id_destination || '',
+      code: first.customers?.customer_code || null,
+      address: first.customers?.address || null,
+      // GST details as they were invoiced, not as the customer master reads today
+      gstin: first.customer_gstin,
+      state_code: first.customer_state_code,
+      drug_licence_number: first.customers?.drug_licence_number || null,
+      phone: first.customers?.phone || null,
+    },
+    references: [],
+    inter_state: lines.some(line => line.igst_amount > 0),
+    notes: first.notes,
+    lines,
+  };
+}
+
+/**
+ * Fetches everything printed on a GRN, delivery challan or tax invoice, or null when the
+ * group holds no document of that type
+ */
+export async function fetchPrintableDocument(documentType: DocumentType, groupId: string): Promise<PrintableDocument | null> {
+  if (documentType === 'GRN') return fetchGrnDocument(groupId);
+  if (documentType === 'DELIVERY_CHALLAN') return fetchDeliveryChallanDocument(groupId);
+  return fetchTaxInvoiceDocument(groupId);
+}
@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type ExpiryWriteOffDraft = Tables<'expiry_write_off_drafts'> & {
+  products?: {
+    product_name: string;
+    product_code: string;
+  } | null;
+  product_batches?: {
+    batch_number: string;
+    expiry_date: string;
+  } | null;
+};
+
+/**
+ * Runs the batch expiry job now instead of waiting for the scheduled run
+ */
+export async function runExpiryJob(asOf?: string) {
+  const { data, error } = await supabase.rpc('mark_expired_batches', asOf ? { p_as_of: asOf } : {});
+  if (error) throw error;
+
+  return data?.[0] || { batches_marked: 0, drafts_proposed: 0 };
+}
+
+/**
+ * Fetches the write-offs proposed by the expiry job that are waiting for review
+ */
+export async function fetchExpiryDrafts(): Promise<ExpiryWriteOffDraft[]> {
+  const { data, error } = await supabase
+    .from('expiry_write_off_drafts')
+    .select(`
+      *,
+      products (
+        product_name,
+        product_code
+      ),
+      product_batches (
+        batch_number,
+        expiry_date
+      )
+    `)
+    .eq('status', 'Draft')
+    .order('created_at');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Posts a draft as an expiry write-off adjustment at its location, capped at what the location
+ * still holds, and marks it Posted
+ */
+export async function postExpiryDraft(draft: ExpiryWriteOffDraft) {
+  const { error } = await supabase.rpc('post_expiry_write_off_draft', { p_draft_id: draft.id });
+  if (error) throw error;
+}
+
+/**
+ * Dismisses a draft without changing stock
+ */
+export async function dismissExpiryDraft(draft: ExpiryWriteOffDraft, userId?: string) {
+  const { error } = await supabase
+    .from('expiry_write_off_drafts')
+    .update({
+      status: 'Dismissed',
+      reviewed_by: userId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', draft.id)
+    .eq('status', 'Draft');
+  if (error) throw error;
+}
@@ -0,0 +1,187 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getBatchRestriction } from '@/lib/batchValidation';
+import { FefoAllocation, FefoAllocationResult } from '@/types/stock';
+
+export const DEFAULT_MIN_SHELF_LIFE_DAYS = 30;
+
+interface FefoAllocationInput {
+  productId: string;
+  quantityStrips: number;
+  movementDate: string;
+  minShelfLifeDays: number;
+  // Strips of each batch already taken by other lines of the same document
+  reservedStrips?: Record<string, number>;
+}
+
+interface AllocationUnit {
+  id: string;
+  conversion_factor_to_strips: number;
+}
+
+export interface AllocatableLine {
+  id: string;
+  product_id: string;
+  batch_id: string;
+  quantity: number;
+  unit_id: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+}
+
+/**
+ * Reads the minimum remaining shelf life a batch needs to leave the godown, from the stock settings
+ */
+export async function fetchMinShelfLifeDays(): Promise<number> {
+  const { data, error } = await supabase
+    .from('stock_settings')
+    .select('min_shelf_life_days')
+    .maybeSingle();
+  if (error) throw error;
+
+  return data?.min_shelf_life_days ?? DEFAULT_MIN_SHELF_LIFE_DAYS;
+}
+
+/**
+ * Changes the minimum remaining shelf life for every later dispatch and sale from the godown
+ */
+export async function saveMinShelfLifeDays(days: number): Promise<void> {
+  const { error } = await supabase
+    .from('stock_settings')
+    .upsert({ id: true, min_shelf_life_days: Math.max(0, Math.floor(days)) }, { onConflict: 'id' });
+  if (error) throw error;
+}
+
+/**
+ * Splits a quantity across the product's godown batches, earliest expiry first, using each
+ * batch's closing stock. Restricted batches and batches expiring within the minimum shelf
+ * life are skipped; whatever cannot be covered is returned as a shortfall.
+ */
+export async function allocateFefo(input: FefoAllocationInput): Promise<FefoAllocationResult> {
+  const { data, error } = await supabase
+    .from('closing_stock_view')
+    .select(`
+      batch_id,
+      batch_number,
+      expiry_date,
+      quantity_strips,
+      cost_per_strip,
+      product_batches (
+        status
+      )
+    `)
+    .eq('product_id', input.productId)
+    .eq('location_type', 'GODOWN')
+    .gt('quantity_strips', 0)
+    .order('expiry_date')
+    .order('batch_number');
+  if (error) throw error;
+
+  const allocations: FefoAllocation[] = [];
+  let remaining = input.quantityStrips;
+  let skippedBatches = 0;
+
+  for (const row of data || []) {
+    if (remaining <= 0) break;
+
+    const restriction = getBatchRestriction({
+      batch_number: row.batch_number,
+      status: row.product_batches?.status || 'Active',
+      expiry_date: row.expiry_date,
+    }, input.movementDate, input.minShelfLifeDays);
+    if (restriction) {
+      skippedBatches++;
+      continue;
+    }
+
+    const available = row.quantity_strips - (input.reservedStrips?.[row.batch_id] || 0);
+    if (available <= 0) continue;
+
+    const quantity = Math.min(available, remaining);
+    allocations.push({
+      batch_id: row.batch_id,
+      batch_number: row.batch_number,
+      expiry_date: row.expiry_date,
+      quantity_strips: quantity,
+      cost_per_strip: row.cost_per_strip,
+    });
+    remaining -= quantity;
+  }
+
+  return {
+    allocations,
+    shortfall_strips: Math.max(0, remaining),
+    skipped_batches: skippedBatches,
+  };
+}
+
+/**
+ * Expresses an allocated strip quantity in the line's unit when it divides evenly,
+ * otherwise in single strips
+ */
+export function getAllocationQuantity(
+  quantityStrips: number,
+  selectedUnit: AllocationUnit,
+  units: AllocationUnit[]
+): { unit_id: string; quantity: number } | null {
+  if (quantityStrips % selectedUnit.conversion_factor_to_strips === 0) {
+    return { unit_id: selectedUnit.id, quantity: quantityStrips / selectedUnit.conversion_factor_to_strips };
+  }
+  const stripUnit = units.find(unit => unit.conversion_factor_to_strips === 1);
+  return stripUnit ? { unit_id: stripUnit.id, quantity: quantityStrips } : null;
+}
+
+/**
+ * Replaces a line entered with product, unit and quantity by one line per FEFO-allocated
+ * batch. Returns no lines when the godown cannot cover the full quantity.
+ */
+export async function allocateLineItemFefo<T extends AllocatableLine>(
+  line: T,
+  otherLines: T[],
+  movementDate: string,
+  minShelfLifeDays: number
+): Promise<{ lines: T[]; result: FefoAllocationResult }> {
+  const reservedStrips: Record<string, number> = {};
+  otherLines
+    .filter(other => other.product_id === line.product_id && other.batch_id)
+    .forEach(other => {
+      reservedStrips[other.batch_id] = (reservedStrips[other.batch_id] || 0) + other.quantity_strips;
+    });
+
+  const result = await allocateFefo({
+    productId: line.product_id,
+    quantityStrips: line.quantity_strips,
+    movementDate,
+    minShelfLifeDays,
+    reservedStrips,
+  });
+  if (result.shortfall_strips > 0) {
+    return { lines: [], result };
+  }
+
+  const { data: units, error } = await supabase
+    .from('product_packaging_units')
+    .select('id, conversion_factor_to_strips')
+    .eq('product_id', line.product_id);
+  if (error) throw error;
+
+  const selectedUnit = units?.find(unit => unit.id === line.unit_id);
+  if (!selectedUnit) throw new Error('Packaging unit not found for this product');
+
+  const lines = result.allocations.map((allocation, index) => {
+    const quantity = getAllocationQuantity(allocation.quantity_strips, selectedUnit, units || []);
+    if (!quantity) {
+      throw new Error(`${allocation.quantity_strips} strips of batch ${allocation.batch_number} cannot be expressed in the selected unit`);
+    }
+    return {
+      ...line,
+      id: index === 0 ? line.id : crypto.randomUUID(),
+      batch_id: allocation.batch_id,
+      unit_id: quantity.unit_id,
+      quantity: quantity.quantity,
+      quantity_strips: allocation.quantity_strips,
+      cost_per_strip: allocation.cost_per_strip,
+    };
+  });
+
+  return { lines, result };
+}
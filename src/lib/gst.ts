@@ -0,0 +1,329 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/stockCalculations';
+import { roundCurrency } from '@/lib/utils';
+import {
+  LineTax,
+  ProductTaxRate,
+  TaxDirection,
+  TaxDocumentSummaryRow,
+  TaxRateSummaryRow,
+  TaxReportFilters,
+  TaxReportLine,
+  TaxTotals,
+} from '@/types/stock';
+
+export type CompanyProfile = Tables<'company_profile'>;
+
+interface SaveCompanyProfileInput {
+  company_name: string;
+  gstin: string;
+  state_code: string;
+  address: string;
+}
+
+interface PurchaseTaxRow {
+  purchase_group_id: string;
+  reference_document_id: string | null;
+  purchase_date: string;
+  legacy_supplier_name: string | null;
+  quantity_strips: number;
+  hsn_code: string | null;
+  gst_rate: number;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  suppliers: { supplier_name: string; gstin: string | null; state_code: string | null } | null;
+}
+
+interface SaleTaxRow {
+  sale_group_id: string;
+  reference_document_id: string | null;
+  sale_date: string;
+  location_id_destination: string | null;
+  customer_gstin: string | null;
+  customer_state_code: string | null;
+  quantity_strips: number;
+  hsn_code: string | null;
+  gst_rate: number;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+}
+
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+
+// State codes as used in the first two digits of a GSTIN
+export const GST_STATES = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const EMPTY_TAX_TOTALS: TaxTotals = {
+  taxable_value: 0,
+  cgst_amount: 0,
+  sgst_amount: 0,
+  igst_amount: 0,
+  tax_amount: 0,
+};
+
+/**
+ * Checks the shape of a GSTIN; blank values are left to the caller
+ */
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+/**
+ * Reads the state code from a GSTIN, or returns null when it is not a valid GSTIN
+ */
+export function getGstinStateCode(gstin: string | null | undefined): string | null {
+  return gstin && isValidGstin(gstin) ? gstin.trim().slice(0, 2) : null;
+}
+
+export function getStateName(stateCode: string | null | undefined): string {
+  return GST_STATES.find(state => state.code === stateCode)?.name || '';
+}
+
+/**
+ * A supply is inter-state, and attracts IGST, only when both states are known and differ;
+ * otherwise it is taxed as CGST + SGST
+ */
+export function isInterStateSupply(companyStateCode: string | null | undefined, partyStateCode: string | null | undefined): boolean {
+  return !!companyStateCode && !!partyStateCode && companyStateCode !== partyStateCode;
+}
+
+/**
+ * Works out the tax on a line's taxable value at the product's GST rate, split into CGST and SGST
+ * halves for an intra-state supply or charged in full as IGST for an inter-state one
+ */
+export function calculateLineTax(taxableValue: number, taxRate: ProductTaxRate | undefined, interState: boolean): LineTax {
+  const taxable = roundCurrency(Math.max(taxableValue || 0, 0));
+  const gstRate = taxRate?.gst_rate || 0;
+  const halfTax = roundCurrency(taxable * gstRate / 200);
+
+  return {
+    hsn_code: taxRate?.hsn_code || null,
+    gst_rate: gstRate,
+    taxable_value: taxable,
+    cgst_amount: interState ? 0 : halfTax,
+    sgst_amount: interState ? 0 : halfTax,
+    igst_amount: interState ? roundCurrency(taxable * gstRate / 100) : 0,
+  };
+}
+
+/**
+ * Totals the taxable value and each tax component of a set of lines
+ */
+export function summarizeTax(lines: Pick<LineTax, 'taxable_value' | 'cgst_amount' | 'sgst_amount' | 'igst_amount'>[]): TaxTotals {
+  return lines.reduce<TaxTotals>((totals, line) => {
+    const cgst = roundCurrency(totals.cgst_amount + Number(line.cgst_amount));
+    const sgst = roundCurrency(totals.sgst_amount + Number(line.sgst_amount));
+    const igst = roundCurrency(totals.igst_amount + Number(line.igst_amount));
+    return {
+      taxable_value: roundCurrency(totals.taxable_value + Number(line.taxable_value)),
+      cgst_amount: cgst,
+      sgst_amount: sgst,
+      igst_amount: igst,
+      tax_amount: roundCurrency(cgst + sgst + igst),
+    };
+  }, EMPTY_TAX_TOTALS);
+}
+
+/**
+ * Fetches the company's own GST registration, if it has been set up
+ */
+export async function fetchCompanyProfile(): Promise<CompanyProfile | null> {
+  const { data, error } = await supabase
+    .from('company_profile')
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Records the company's GST registration
+ */
+export async function saveCompanyProfile(input: SaveCompanyProfileInput): Promise<void> {
+  const { error } = await supabase
+    .from('company_profile')
+    .upsert({
+      id: true,
+      company_name: input.company_name.trim(),
+      gstin: input.gstin.trim().toUpperCase() || null,
+      state_code: input.state_code || null,
+      address: input.address.trim() || null,
+    }, { onConflict: 'id' });
+  if (error) throw error;
+}
+
+/**
+ * Fetches the HSN code and GST rate of every product, keyed by product id
+ */
+export async function fetchProductTaxRates(): Promise<Map<string, ProductTaxRate>> {
+  const products = await fetchAllPages<{ id: string } & ProductTaxRate>((from, to) =>
+    supabase
+      .from('products')
+      .select('id, hsn_code, gst_rate')
+      .order('id')
+      .range(from, to)
+  );
+
+  return new Map(products.map(product => [product.id, {
+    hsn_code: product.hsn_code,
+    gst_rate: Number(product.gst_rate),
+  }]));
+}
+
+/**
+ * Fetches the taxed lines of a period: GRN lines for input tax, direct-sale lines for output tax
+ */
+export async function fetchTaxReportLines(direction: TaxDirection, filters: TaxReportFilters): Promise<TaxReportLine[]> {
+  if (direction === 'input') {
+    const rows = await fetchAllPages<PurchaseTaxRow>((from, to) =>
+      supabase
+        .from('stock_purchases')
+        .select(`
+          purchase_group_id, reference_document_id, purchase_date, legacy_supplier_name, quantity_strips,
+          hsn_code, gst_rate, taxable_value, cgst_amount, sgst_amount, igst_amount,
+          suppliers:supplier_id (supplier_name, gstin, state_code)
+        `)
+        .gte('purchase_date', filters.fromDate)
+        .lte('purchase_date', filters.toDate)
+        .order('purchase_date')
+        .order('purchase_id')
+        .range(from, to)
+    );
+
+    return rows.map(row => ({
+      group_id: row.purchase_group_id,
+      document_number: row.reference_document_id || '',
+      document_date: row.purchase_date,
+      party_name: row.suppliers?.supplier_name || row.legacy_supplier_name || '',
+      party_gstin: row.suppliers?.gstin || null,
+      party_state_code: row.suppliers?.state_code || getGstinStateCode(row.suppliers?.gstin),
+      quantity_strips: row.quantity_strips,
+      hsn_code: row.hsn_code,
+      gst_rate: Number(row.gst_rate),
+      taxable_value: Number(row.taxable_value),
+      cgst_amount: Number(row.cgst_amount),
+      sgst_amount: Number(row.sgst_amount),
+      igst_amount: Number(row.igst_amount),
+    }));
+  }
+
+  const rows = await fetchAllPages<SaleTaxRow>((from, to) =>
+    supabase
+      .from('stock_sales')
+      .select(`
+        sale_group_id, reference_document_id, sale_date, location_id_destination, customer_gstin,
+        customer_state_code, quantity_strips, hsn_code, gst_rate, taxable_value, cgst_amount,
+        sgst_amount, igst_amount
+      `)
+      .eq('transaction_type', 'SALE_DIRECT_GODOWN')
+      .gte('sale_date', filters.fromDate)
+      .lte('sale_date', filters.toDate)
+      .order('sale_date')
+      .order('sale_id')
+      .range(from, to)
+  );
+
+  return rows.map(row => ({
+    group_id: row.sale_group_id,
+    document_number: row.reference_document_id || '',
+    document_date: row.sale_date,
+    party_name: row.location_id_destination || '',
+    party_gstin: row.customer_gstin,
+    party_state_code: row.customer_state_code,
+    quantity_strips: Math.abs(row.quantity_strips),
+    hsn_code: row.hsn_code,
+    gst_rate: Number(row.gst_rate),
+    taxable_value: Number(row.taxable_value),
+    cgst_amount: Number(row.cgst_amount),
+    sgst_amount: Number(row.sgst_amount),
+    igst_amount: Number(row.igst_amount),
+  }));
+}
+
+/**
+ * Groups taxed lines by HSN code and GST rate, as in the HSN-wise summary of a return
+ */
+export function summarizeTaxByRate(lines: TaxReportLine[]): TaxRateSummaryRow[] {
+  const groups = new Map<string, TaxReportLine[]>();
+  lines.forEach(line => {
+    const key = `${line.hsn_code || ''}|${line.gst_rate}`;
+    groups.set(key, [...(groups.get(key) || []), line]);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      hsn_code: group[0].hsn_code || '',
+      gst_rate: group[0].gst_rate,
+      quantity_strips: group.reduce((sum, line) => sum + line.quantity_strips, 0),
+      ...summarizeTax(group),
+    }))
+    .sort((a, b) => a.gst_rate - b.gst_rate || a.hsn_code.localeCompare(b.hsn_code));
+}
+
+/**
+ * Groups taxed lines into their invoices, as in the invoice-wise register of a return
+ */
+export function summarizeTaxByDocument(lines: TaxReportLine[]): TaxDocumentSummaryRow[] {
+  const groups = new Map<string, TaxReportLine[]>();
+  lines.forEach(line => {
+    groups.set(line.group_id, [...(groups.get(line.group_id) || []), line]);
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({
+      group_id: group[0].group_id,
+      document_number: group[0].document_number,
+      document_date: group[0].document_date,
+      party_name: group[0].party_name,
+      party_gstin: group[0].party_gstin,
+      party_state_code: group[0].party_state_code,
+      ...summarizeTax(group),
+    }))
+    .sort((a, b) => a.document_date.localeCompare(b.document_date) || a.document_number.localeCompare(b.document_number));
+}
@@ -0,0 +1,250 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Tables } from '@/integrations/supabase/types';
+import { formatRupees } from '@/lib/utils';
+
+export type HoldingLimit = Tables<'mr_holding_limits'> & {
+  products: { product_name: string; product_code: string } | null;
+};
+
+export type DispatchRequest = Tables<'mr_dispatch_requests'>;
+
+export type DispatchRequestLine = Tables<'mr_dispatch_request_lines'> & {
+  products: { product_name: string; product_code: string } | null;
+  product_batches: { batch_number: string; expiry_date: string | null } | null;
+};
+
+export type DispatchRequestWithLines = DispatchRequest & {
+  mr_dispatch_request_lines: DispatchRequestLine[];
+};
+
+export type DispatchRequestStatus = 'Pending' | 'Approved' | 'Rejected' | 'Cancelled';
+
+/** A limit a dispatch would break; no product means the MR's overall value limit */
+export type LimitBreach = Database['public']['Functions']['get_mr_limit_breaches']['Returns'][number];
+
+export interface HoldingLimitInput {
+  mr_user_id: string;
+  // Empty for the overall value limit
+  product_id: string;
+  max_quantity_strips: string;
+  max_value: string;
+}
+
+export interface DispatchLineInput {
+  product_id: string;
+  batch_id: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+  selling_price_per_strip: number | null;
+  notes: string;
+  override_justification: string | null;
+}
+
+interface CreateDispatchRequestInput {
+  mrUserId: string;
+  dispatchDate: string;
+  priceListId: string | null;
+  notes: string;
+  lines: DispatchLineInput[];
+}
+
+export const DISPATCH_REQUEST_STATUS_STYLES: Record<DispatchRequestStatus, string> = {
+  Pending: 'bg-amber-100 text-amber-800 border-amber-200',
+  Approved: 'bg-green-100 text-green-800 border-green-200',
+  Rejected: 'bg-red-100 text-red-800 border-red-200',
+  Cancelled: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+/**
+ * "Paracetamol 500: 620 strips against a limit of 500", for toasts and the approvals inbox
+ */
+export function describeLimitBreach(breach: LimitBreach): string {
+  const subject = breach.product_name || 'Total stock value';
+  return breach.limit_type === 'QUANTITY'
+    ? `${subject}: ${breach.holding_after} strips against a limit of ${breach.limit_amount}`
+    : `${subject}: ${formatRupees(Number(breach.holding_after))} against a limit of ${formatRupees(Number(breach.limit_amount))}`;
+}
+
+/**
+ * Extracts the database's holding limit message from a dispatch insert error, if that is what failed
+ */
+export function getHoldingLimitMessage(error: unknown): string | null {
+  const dbError = error as { code?: string; message?: string } | null;
+  if (dbError?.code === '23514' && dbError.message?.startsWith('This dispatch takes the MR over')) {
+    return dbError.message;
+  }
+  return null;
+}
+
+/**
+ * Fetches holding limits, the overall limit first and then by product. Without an MR,
+ * every MR's limits are returned.
+ */
+export async function fetchHoldingLimits(mrUserId?: string): Promise<HoldingLimit[]> {
+  let query = supabase
+    .from('mr_holding_limits')
+    .select('*, products(product_name, product_code)');
+
+  if (mrUserId) {
+    query = query.eq('mr_user_id', mrUserId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return ((data || []) as HoldingLimit[]).sort((a, b) =>
+    Number(!!a.product_id) - Number(!!b.product_id) ||
+    (a.products?.product_name || '').localeCompare(b.products?.product_name || ''));
+}
+
+/**
+ * Creates a holding limit, or updates it when an id is given
+ */
+export async function saveHoldingLimit(input: HoldingLimitInput, userId?: string, id?: string): Promise<void> {
+  const limit = {
+    mr_user_id: input.mr_user_id,
+    product_id: input.product_id || null,
+    max_quantity_strips: input.product_id && input.max_quantity_strips !== ''
+      ? parseInt(input.max_quantity_strips)
+      : null,
+    max_value: input.max_value !== '' ? parseFloat(input.max_value) : null,
+  };
+
+  const { error } = id
+    ? await supabase.from('mr_holding_limits').update(limit).eq('id', id)
+    : await supabase.from('mr_holding_limits').insert({ ...limit, created_by: userId });
+  if (error) throw error;
+}
+
+/**
+ * Removes a holding limit
+ */
+export async function deleteHoldingLimit(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('mr_holding_limits')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * The holding limits an MR would go over if the lines were dispatched to them
+ */
+export async function checkDispatchLimits(
+  mrUserId: string,
+  lines: Pick<DispatchLineInput, 'product_id' | 'quantity_strips' | 'cost_per_strip'>[]
+): Promise<LimitBreach[]> {
+  const { data, error } = await supabase.rpc('get_mr_limit_breaches', {
+    p_mr_user_id: mrUserId,
+    p_lines: lines.map(line => ({
+      product_id: line.product_id,
+      quantity_strips: line.quantity_strips,
+      cost_per_strip: line.cost_per_strip,
+    })),
+  });
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * The holding limits a pending request breaks against what the MR holds now
+ */
+export async function fetchDispatchRequestBreaches(requestId: string): Promise<LimitBreach[]> {
+  const { data, error } = await supabase.rpc('get_dispatch_request_breaches', { p_request_id: requestId });
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Saves a dispatch for approval instead of posting it, with the limits it breaks.
+ * Returns the id of the request.
+ */
+export async function createDispatchRequest(input: CreateDispatchRequestInput): Promise<string> {
+  const { data, error } = await supabase.rpc('create_mr_dispatch_request', {
+    p_mr_user_id: input.mrUserId,
+    p_dispatch_date: input.dispatchDate,
+    p_price_list_id: input.priceListId,
+    p_notes: input.notes,
+    p_lines: input.lines.map(line => ({ ...line })),
+  });
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Fetches dispatch requests with their lines, newest first. Without a requester, every request
+ * the user may review is returned as well.
+ */
+export async function fetchDispatchRequests(
+  filter: { requestedBy?: string; status?: DispatchRequestStatus } = {}
+): Promise<DispatchRequestWithLines[]> {
+  let query = supabase
+    .from('mr_dispatch_requests')
+    .select(`
+      *,
+      mr_dispatch_request_lines(
+        *,
+        products(product_name, product_code),
+        product_batches(batch_number, expiry_date)
+      )
+    `)
+    .order('created_at', { ascending: false });
+
+  if (filter.requestedBy) {
+    query = query.eq('requested_by', filter.requestedBy);
+  }
+  if (filter.status) {
+    query = query.eq('status', filter.status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as DispatchRequestWithLines[];
+}
+
+/**
+ * Withdraws a request that has not been reviewed yet
+ */
+export async function cancelDispatchRequest(requestId: string): Promise<void> {
+  const { error } = await supabase
+    .from('mr_dispatch_requests')
+    .update({ status: 'Cancelled' })
+    .eq('id', requestId)
+    .eq('status', 'Pending');
+  if (error) throw error;
+}
+
+/**
+ * Approves a request, posting the dispatch to the MR.
+ * Returns the number of the delivery challan that was posted.
+ */
+export async function approveDispatchRequest(requestId: string, reviewNotes: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('approve_mr_dispatch_request', {
+    p_request_id: requestId,
+    p_review_notes: reviewNotes || null,
+  });
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Rejects a request; nothing is dispatched
+ */
+export async function rejectDispatchRequest(requestId: string, reviewNotes: string, userId?: string): Promise<void> {
+  const { error } = await supabase
+    .from('mr_dispatch_requests')
+    .update({
+      status: 'Rejected',
+      review_notes: reviewNotes || null,
+      reviewed_by: userId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', requestId)
+    .eq('status', 'Pending');
+  if (error) throw error;
+}
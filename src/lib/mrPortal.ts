@@ -0,0 +1,285 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type ReturnRequest = Tables<'mr_return_requests'>;
+
+export type ReturnRequestLine = Tables<'mr_return_request_lines'> & {
+  products: { product_name: string; product_code: string } | null;
+  product_batches: { batch_number: string; expiry_date: string | null } | null;
+};
+
+export type ReturnRequestWithLines = ReturnRequest & {
+  mr_return_request_lines: ReturnRequestLine[];
+};
+
+export type ReturnRequestStatus = 'Pending' | 'Approved' | 'Rejected' | 'Cancelled';
+
+export interface MRHolding {
+  product_id: string;
+  product_code: string;
+  product_name: string;
+  generic_name: string;
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+  total_value: number;
+  mrp_per_strip: number | null;
+}
+
+export type MRMovementLine = Pick<
+  Tables<'stock_sales'>,
+  | 'sale_id'
+  | 'sale_group_id'
+  | 'reference_document_id'
+  | 'sale_date'
+  | 'location_id_destination'
+  | 'quantity_strips'
+  | 'cost_per_strip'
+  | 'selling_price_per_strip'
+  | 'taxable_value'
+  | 'cgst_amount'
+  | 'sgst_amount'
+  | 'igst_amount'
+> & {
+  products: { product_name: string; product_code: string } | null;
+  product_batches: { batch_number: string; expiry_date: string | null } | null;
+};
+
+/** One sale or dispatch: the lines saved together under a sale_group_id */
+export interface MRMovementDocument {
+  group_id: string;
+  document_number: string | null;
+  date: string;
+  party: string;
+  lines: MRMovementLine[];
+  quantity_strips: number;
+  value: number;
+  tax_amount: number;
+}
+
+export interface ReturnRequestLineInput {
+  product_id: string;
+  batch_id: string;
+  quantity_strips: number;
+}
+
+interface CreateReturnRequestInput {
+  mrUserId: string;
+  reason: string;
+  lines: ReturnRequestLineInput[];
+}
+
+export const RETURN_REQUEST_STATUS_STYLES: Record<ReturnRequestStatus, string> = {
+  Pending: 'bg-amber-100 text-amber-800 border-amber-200',
+  Approved: 'bg-green-100 text-green-800 border-green-200',
+  Rejected: 'bg-red-100 text-red-800 border-red-200',
+  Cancelled: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+const MOVEMENT_LINE_COLUMNS = `
+  sale_id, sale_group_id, reference_document_id, sale_date, location_id_destination,
+  quantity_strips, cost_per_strip, selling_price_per_strip,
+  taxable_value, cgst_amount, sgst_amount, igst_amount,
+  products(product_name, product_code),
+  product_batches(batch_number, expiry_date)
+`;
+
+/**
+ * Fetches the batches an MR holds, earliest expiry first, with each batch's MRP
+ */
+export async function fetchMRHoldings(mrUserId: string): Promise<MRHolding[]> {
+  const { data, error } = await supabase
+    .from('closing_stock_view')
+    .select('product_id, product_code, product_name, generic_name, batch_id, batch_number, expiry_date, quantity_strips, cost_per_strip, total_value')
+    .eq('location_type', 'MR')
+    .eq('location_id', mrUserId)
+    .gt('quantity_strips', 0)
+    .order('expiry_date')
+    .order('product_name');
+  if (error) throw error;
+
+  const holdings = data || [];
+  if (holdings.length === 0) return [];
+
+  const { data: batches, error: batchError } = await supabase
+    .from('product_batches')
+    .select('id, mrp_per_strip')
+    .in('id', [...new Set(holdings.map(holding => holding.batch_id))]);
+  if (batchError) throw batchError;
+
+  const mrpByBatch = new Map((batches || []).map(batch => [batch.id, batch.mrp_per_strip]));
+
+  return holdings.map(holding => ({
+    ...holding,
+    mrp_per_strip: mrpByBatch.get(holding.batch_id) ?? null,
+  }));
+}
+
+/**
+ * Groups sale lines into one entry per sale or dispatch, newest first
+ */
+export function groupMRMovements(lines: MRMovementLine[]): MRMovementDocument[] {
+  const documents = new Map<string, MRMovementDocument>();
+
+  lines.forEach(line => {
+    let document = documents.get(line.sale_group_id);
+    if (!document) {
+      document = {
+        group_id: line.sale_group_id,
+        document_number: line.reference_document_id,
+        date: line.sale_date,
+        party: line.location_id_destination || '',
+        lines: [],
+        quantity_strips: 0,
+        value: 0,
+        tax_amount: 0,
+      };
+      documents.set(line.sale_group_id, document);
+    }
+
+    document.lines.push(line);
+    document.quantity_strips += line.quantity_strips;
+    document.value += line.quantity_strips * Number(line.selling_price_per_strip ?? line.cost_per_strip);
+    document.tax_amount += Number(line.cgst_amount) + Number(line.sgst_amount) + Number(line.igst_amount);
+  });
+
+  return [...documents.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Fetches the sales an MR has made to customers out of their own stock
+ */
+export async function fetchMRSales(mrUserId: string): Promise<MRMovementDocument[]> {
+  const { data, error } = await supabase
+    .from('stock_sales')
+    .select(MOVEMENT_LINE_COLUMNS)
+    .eq('transaction_type', 'SALE_BY_MR')
+    .eq('location_type_source', 'MR')
+    .eq('location_id_source', mrUserId)
+    .order('sale_date', { ascending: false });
+  if (error) throw error;
+
+  return groupMRMovements((data || []) as MRMovementLine[]);
+}
+
+/**
+ * Fetches the stock dispatched from the godown to an MR
+ */
+export async function fetchMRDispatches(mrUserId: string): Promise<MRMovementDocument[]> {
+  const { data, error } = await supabase
+    .from('stock_sales')
+    .select(MOVEMENT_LINE_COLUMNS)
+    .eq('transaction_type', 'DISPATCH_TO_MR')
+    .eq('location_type_destination', 'MR')
+    .eq('location_id_destination', mrUserId)
+    .order('sale_date', { ascending: false });
+  if (error) throw error;
+
+  return groupMRMovements((data || []) as MRMovementLine[]);
+}
+
+/**
+ * Fetches return requests with their lines, newest first. Without an MR, every MR's requests are returned.
+ */
+export async function fetchReturnRequests(filter: { mrUserId?: string; status?: ReturnRequestStatus } = {}): Promise<ReturnRequestWithLines[]> {
+  let query = supabase
+    .from('mr_return_requests')
+    .select(`
+      *,
+      mr_return_request_lines(
+        *,
+        products(product_name, product_code),
+        product_batches(batch_number, expiry_date)
+      )
+    `)
+    .order('created_at', { ascending: false });
+
+  if (filter.mrUserId) {
+    query = query.eq('mr_user_id', filter.mrUserId);
+  }
+  if (filter.status) {
+    query = query.eq('status', filter.status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as ReturnRequestWithLines[];
+}
+
+/**
+ * Raises a return request. The database rejects lines exceeding the MR's stock;
+ * the request is cancelled if its lines cannot be saved.
+ */
+export async function createReturnRequest(input: CreateReturnRequestInput): Promise<ReturnRequest> {
+  const { data: request, error } = await supabase
+    .from('mr_return_requests')
+    .insert({
+      mr_user_id: input.mrUserId,
+      reason: input.reason.trim(),
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const { error: lineError } = await supabase
+    .from('mr_return_request_lines')
+    .insert(input.lines.map(line => ({
+      request_id: request.id,
+      product_id: line.product_id,
+      batch_id: line.batch_id,
+      quantity_strips: line.quantity_strips,
+    })));
+
+  if (lineError) {
+    await cancelReturnRequest(request.id);
+    throw lineError;
+  }
+
+  return request;
+}
+
+/**
+ * Withdraws a request that has not been reviewed yet
+ */
+export async function cancelReturnRequest(requestId: string): Promise<void> {
+  const { error } = await supabase
+    .from('mr_return_requests')
+    .update({ status: 'Cancelled' })
+    .eq('id', requestId)
+    .eq('status', 'Pending');
+  if (error) throw error;
+}
+
+/**
+ * Approves a request, moving its stock from the MR back to the godown.
+ * Returns the number of the stock adjustment that was posted.
+ */
+export async function approveReturnRequest(requestId: string, reviewNotes: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('approve_mr_return_request', {
+    p_request_id: requestId,
+    p_review_notes: reviewNotes || null,
+  });
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Rejects a request; the stock stays with the MR
+ */
+export async function rejectReturnRequest(requestId: string, reviewNotes: string, userId?: string): Promise<void> {
+  const { error } = await supabase
+    .from('mr_return_requests')
+    .update({
+      status: 'Rejected',
+      review_notes: reviewNotes || null,
+      reviewed_by: userId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', requestId)
+    .eq('status', 'Pending');
+  if (error) throw error;
+}
@@ -0,0 +1,205 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllPages } from '@/lib/stockCalculations';
+import { ExpiryBucket, NearExpiryGroup, NearExpiryGrouping, NearExpiryItem } from '@/types/stock';
+
+export const DEFAULT_EXPIRY_HORIZONS = [30, 90, 180];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface ClosingStockRow {
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  category_name: string | null;
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string;
+  location_type: string;
+  location_id: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+}
+
+/**
+ * Reads the horizon upper bounds in days, e.g. [30, 90, 180], from the stock settings
+ */
+export async function fetchExpiryHorizons(): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('stock_settings')
+    .select('near_expiry_horizons')
+    .maybeSingle();
+  if (error) throw error;
+
+  const horizons = normalizeHorizons(data?.near_expiry_horizons || []);
+  return horizons.length ? horizons : DEFAULT_EXPIRY_HORIZONS;
+}
+
+/**
+ * Changes the horizon upper bounds for everyone
+ */
+export async function saveExpiryHorizons(horizons: number[]): Promise<void> {
+  const { error } = await supabase
+    .from('stock_settings')
+    .upsert({ id: true, near_expiry_horizons: normalizeHorizons(horizons) }, { onConflict: 'id' });
+  if (error) throw error;
+}
+
+/**
+ * Keeps positive whole days, sorted and without duplicates
+ */
+export function normalizeHorizons(horizons: unknown[]): number[] {
+  const days = horizons
+    .map(value => Math.floor(Number(value)))
+    .filter(value => Number.isFinite(value) && value >= 0);
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/**
+ * Turns horizon upper bounds into buckets: Expired, 0–30, 31–90, 91–180 days and so on
+ */
+export function buildExpiryBuckets(horizons: number[]): ExpiryBucket[] {
+  const buckets: ExpiryBucket[] = [{ key: 'expired', label: 'Expired', min_days: null, max_days: -1 }];
+  let minDays = 0;
+  horizons.forEach(maxDays => {
+    buckets.push({ key: `${minDays}-${maxDays}`, label: `${minDays}–${maxDays} days`, min_days: minDays, max_days: maxDays });
+    minDays = maxDays + 1;
+  });
+  return buckets;
+}
+
+const getBucketKey = (daysToExpiry: number, buckets: ExpiryBucket[]) =>
+  buckets.find(bucket =>
+    (bucket.min_days === null || daysToExpiry >= bucket.min_days) &&
+    (bucket.max_days === null || daysToExpiry <= bucket.max_days)
+  )?.key;
+
+/**
+ * Fetches godown and MR stock that is expired or expires within the last horizon
+ */
+export async function fetchNearExpiryStock(buckets: ExpiryBucket[], today: string): Promise<NearExpiryItem[]> {
+  const maxDays = Math.max(...buckets.map(bucket => bucket.max_days ?? 0));
+  const horizonEnd = new Date(new Date(`${today}T00:00:00Z`).getTime() + maxDays * MS_PER_DAY)
+    .toISOString()
+    .split('T')[0];
+
+  const rows = await fetchAllPages<ClosingStockRow>((from, to) => supabase
+    .from('closing_stock_view')
+    .select(`
+      product_id,
+      product_name,
+      product_code,
+      category_name,
+      batch_id,
+      batch_number,
+      expiry_date,
+      location_type,
+      location_id,
+      quantity_strips,
+      cost_per_strip
+    `)
+    .gt('quantity_strips', 0)
+    .lte('expiry_date', horizonEnd)
+    .order('expiry_date')
+    .order('id')
+    .range(from, to));
+
+  const todayTime = new Date(`${today}T00:00:00Z`).getTime();
+  return rows.flatMap(row => {
+    const daysToExpiry = Math.round((new Date(`${row.expiry_date}T00:00:00Z`).getTime() - todayTime) / MS_PER_DAY);
+    const bucketKey = getBucketKey(daysToExpiry, buckets);
+    if (!bucketKey) return [];
+
+    const costPerStrip = Number(row.cost_per_strip);
+    return [{
+      ...row,
+      cost_per_strip: costPerStrip,
+      value: row.quantity_strips * costPerStrip,
+      days_to_expiry: daysToExpiry,
+      bucket_key: bucketKey,
+    }];
+  });
+}
+
+/**
+ * Totals near-expiry stock per location, product or category and bucket, largest value first
+ */
+export function groupNearExpiryStock(
+  items: NearExpiryItem[],
+  grouping: NearExpiryGrouping,
+  getLocationLabel: (locationType: string, locationId: string) => string
+): NearExpiryGroup[] {
+  const groups = new Map<string, NearExpiryGroup>();
+
+  items.forEach(item => {
+    let key: string;
+    let label: string;
+    if (grouping === 'location') {
+      key = `${item.location_type}:${item.location_id}`;
+      label = getLocationLabel(item.location_type, item.location_id);
+    } else if (grouping === 'product') {
+      key = item.product_id;
+      label = `${item.product_name} (${item.product_code})`;
+    } else {
+      key = item.category_name || '';
+      label = item.category_name || 'Uncategorised';
+    }
+
+    if (!groups.has(key)) {
+      groups.set(key, { key, label, quantities: {}, values: {}, total_quantity: 0, total_value: 0 });
+    }
+    const group = groups.get(key)!;
+    group.quantities[item.bucket_key] = (group.quantities[item.bucket_key] || 0) + item.quantity_strips;
+    group.values[item.bucket_key] = (group.values[item.bucket_key] || 0) + item.value;
+    group.total_quantity += item.quantity_strips;
+    group.total_value += item.value;
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.total_value - a.total_value);
+}
+
+/**
+ * Brings near-expiry stock held by an MR back to the godown
+ */
+export async function recallFromMR(item: NearExpiryItem, quantityStrips: number, notes: string, userId?: string) {
+  const { error } = await supabase
+    .from('stock_adjustments')
+    .insert({
+      adjustment_group_id: crypto.randomUUID(),
+      product_id: item.product_id,
+      batch_id: item.batch_id,
+      adjustment_type: 'RETURN_TO_GODOWN',
+      quantity_strips: quantityStrips,
+      location_type_source: 'MR',
+      location_id_source: item.location_id,
+      location_type_destination: 'GODOWN',
+      location_id_destination: 'GODOWN',
+      cost_per_strip: item.cost_per_strip,
+      notes: notes || `Near-expiry recall from MR (batch ${item.batch_number})`,
+      created_by: userId,
+    });
+  if (error) throw error;
+}
+
+/**
+ * Writes off near-expiry or expired stock where it is held
+ */
+export async function writeOffNearExpiry(item: NearExpiryItem, quantityStrips: number, notes: string, userId?: string) {
+  const isMR = item.location_type === 'MR';
+  const { error } = await supabase
+    .from('stock_adjustments')
+    .insert({
+      adjustment_group_id: crypto.randomUUID(),
+      product_id: item.product_id,
+      batch_id: item.batch_id,
+      adjustment_type: isMR ? 'ADJUST_EXPIRED_MR' : 'ADJUST_EXPIRED_GODOWN',
+      quantity_strips: quantityStrips,
+      location_type_source: item.location_type,
+      location_id_source: isMR ? item.location_id : 'GODOWN',
+      location_type_destination: 'EXPIRED',
+      location_id_destination: 'EXPIRED',
+      cost_per_strip: item.cost_per_strip,
+      notes: notes || `Expiry write-off (batch ${item.batch_number})`,
+      created_by: userId,
+    });
+  if (error) throw error;
+}
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type UserRole = Database['public']['Enums']['user_role'];
+
+export type Permission =
+  | 'view_stock'
+  | 'view_all_locations'
+  | 'view_valuation'
+  | 'manage_products'
+  | 'manage_masters'
+  | 'create_purchase'
+  | 'create_sale'
+  | 'post_adjustment'
+  | 'edit_posted_document'
+  | 'manage_recalls'
+  | 'manage_settings'
+  | 'manage_users'
+  | 'sell_own_stock'
+  | 'approve_dispatch'
+  | 'override_batch_restriction';
+
+export const USER_ROLES: { value: UserRole; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Everything, including users and settings' },
+  { value: 'storekeeper', label: 'Godown Storekeeper', description: 'Receives, dispatches and adjusts godown stock' },
+  { value: 'accounts', label: 'Accounts', description: 'Purchases, invoices, valuation and corrections to posted documents' },
+  { value: 'area_manager', label: 'Area Manager', description: 'Follows the stock and sales of their team, approves their dispatches, maintains customers' },
+  { value: 'auditor', label: 'Auditor', description: 'Read-only access to stock and valuation' },
+  { value: 'mr', label: 'Medical Representative', description: 'Own stock, sales and returns in the MR portal' },
+];
+
+export const PERMISSIONS: { value: Permission; label: string }[] = [
+  { value: 'view_stock', label: 'View stock, movements and reports' },
+  { value: 'view_all_locations', label: 'See the godown and every MR, not only their own team' },
+  { value: 'view_valuation', label: 'View costs, values, margin and GST reports' },
+  { value: 'manage_products', label: 'Manage products and price lists' },
+  { value: 'manage_masters', label: 'Manage suppliers and customers' },
+  { value: 'create_purchase', label: 'Create purchases and purchase orders' },
+  { value: 'create_sale', label: 'Create MR dispatches and direct sales' },
+  { value: 'post_adjustment', label: 'Post adjustments and approve MR returns' },
+  { value: 'edit_posted_document', label: 'Edit or delete posted documents' },
+  { value: 'manage_recalls', label: 'Manage batch recalls' },
+  { value: 'manage_settings', label: 'Manage company, stock and document settings' },
+  { value: 'manage_users', label: 'Manage users and roles' },
+  { value: 'sell_own_stock', label: 'Sell and return own stock (MR portal)' },
+  { value: 'approve_dispatch', label: 'Set MR holding limits and approve dispatches over them' },
+  { value: 'override_batch_restriction', label: 'Release expired, quarantined or short-dated batches with a justification' },
+];
+
+export const getRoleLabel = (role: string | undefined) =>
+  USER_ROLES.find(option => option.value === role)?.label || role || '';
+
+export const getRoleBadgeColor = (role?: string) => {
+  switch (role?.toLowerCase()) {
+    case 'admin':
+      return 'bg-purple-100 text-purple-800 border-purple-200';
+    case 'area_manager':
+      return 'bg-blue-100 text-blue-800 border-blue-200';
+    case 'storekeeper':
+    case 'accounts':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'mr':
+      return 'bg-teal-100 text-teal-800 border-teal-200';
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+  }
+};
+
+/**
+ * Fetches the permissions granted to a role
+ */
+export async function fetchRolePermissions(role: UserRole): Promise<Permission[]> {
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', role);
+  if (error) throw error;
+
+  return (data || []).map(row => row.permission as Permission);
+}
+
+/**
+ * Where a user lands after signing in: the admin area for staff, the MR portal for MRs
+ */
+export function getHomePath(can: (permission: Permission) => boolean): string | null {
+  if (can('view_stock')) return '/admin/dashboard';
+  if (can('sell_own_stock')) return '/mr/stock';
+  return null;
+}
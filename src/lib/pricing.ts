@@ -0,0 +1,218 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/stockCalculations';
+import { roundCurrency } from '@/lib/utils';
+import { MarginGrouping, MarginLine, MarginReportFilters, MarginRow } from '@/types/stock';
+
+export type PriceList = Tables<'price_lists'>;
+
+interface SavePriceListInput {
+  price_list_name: string;
+  description: string;
+  is_active: boolean;
+}
+
+export interface PriceListPriceInput {
+  product_id: string;
+  price_per_strip: number | null;
+}
+
+interface MarginSaleRow {
+  transaction_type: string;
+  sale_date: string;
+  product_id: string;
+  location_id_source: string | null;
+  location_id_destination: string | null;
+  customer_id: string | null;
+  quantity_strips: number;
+  cost_per_strip: number;
+  selling_price_per_strip: number;
+  products: { product_name: string; product_code: string } | null;
+}
+
+// Sales to customers, from the godown and by MRs out of their own stock
+const CUSTOMER_SALE_TYPES = ['SALE_DIRECT_GODOWN', 'SALE_BY_MR'];
+
+/**
+ * Describes why a selling price cannot be used on a line, or returns null when it can
+ */
+export function getSellingPriceError(sellingPrice: number | null | undefined, mrp: number | null | undefined): string | null {
+  if (!sellingPrice || sellingPrice <= 0) return 'Enter a selling price';
+  if (mrp && sellingPrice > mrp) return `Selling price ₹${sellingPrice.toFixed(2)} is above the batch MRP ₹${Number(mrp).toFixed(2)}`;
+  return null;
+}
+
+/**
+ * Fetches price lists by name, optionally only the active ones
+ */
+export async function fetchPriceLists(activeOnly = false): Promise<PriceList[]> {
+  let query = supabase
+    .from('price_lists')
+    .select('*')
+    .order('price_list_name');
+  if (activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Creates a price list, or updates it when an id is given
+ */
+export async function savePriceList(input: SavePriceListInput, id?: string): Promise<PriceList> {
+  const priceList = {
+    price_list_name: input.price_list_name.trim(),
+    description: input.description.trim() || null,
+    is_active: input.is_active,
+  };
+
+  const { data, error } = id
+    ? await supabase.from('price_lists').update(priceList).eq('id', id).select().single()
+    : await supabase.from('price_lists').insert(priceList).select().single();
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Fetches a price list's selling price per strip, keyed by product id
+ */
+export async function fetchPriceListPrices(priceListId: string): Promise<Map<string, number>> {
+  const { data, error } = await supabase
+    .from('price_list_items')
+    .select('product_id, price_per_strip')
+    .eq('price_list_id', priceListId);
+  if (error) throw error;
+
+  return new Map((data || []).map(item => [item.product_id, Number(item.price_per_strip)]));
+}
+
+/**
+ * Sets the prices of a price list; a product whose price is cleared is taken off the list
+ */
+export async function savePriceListPrices(priceListId: string, prices: PriceListPriceInput[]): Promise<void> {
+  const pricedItems = prices
+    .filter(price => price.price_per_strip && price.price_per_strip > 0)
+    .map(price => ({
+      price_list_id: priceListId,
+      product_id: price.product_id,
+      price_per_strip: price.price_per_strip!,
+    }));
+  const clearedProductIds = prices
+    .filter(price => !price.price_per_strip || price.price_per_strip <= 0)
+    .map(price => price.product_id);
+
+  if (pricedItems.length > 0) {
+    const { error } = await supabase
+      .from('price_list_items')
+      .upsert(pricedItems, { onConflict: 'price_list_id,product_id' });
+    if (error) throw error;
+  }
+
+  if (clearedProductIds.length > 0) {
+    const { error } = await supabase
+      .from('price_list_items')
+      .delete()
+      .eq('price_list_id', priceListId)
+      .in('product_id', clearedProductIds);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Fetches priced customer sale lines of a period with their revenue and cost. Lines recorded
+ * before selling prices were captured have no revenue and are left out.
+ */
+export async function fetchMarginLines(filters: MarginReportFilters): Promise<MarginLine[]> {
+  const rows = await fetchAllPages<MarginSaleRow>((from, to) =>
+    supabase
+      .from('stock_sales')
+      .select(`
+        transaction_type, sale_date, product_id, location_id_source, location_id_destination, customer_id,
+        quantity_strips, cost_per_strip, selling_price_per_strip,
+        products:product_id (product_name, product_code)
+      `)
+      .in('transaction_type', CUSTOMER_SALE_TYPES)
+      .not('selling_price_per_strip', 'is', null)
+      .gte('sale_date', filters.fromDate)
+      .lte('sale_date', filters.toDate)
+      .order('sale_date')
+      .order('sale_id')
+      .range(from, to)
+  );
+
+  return rows.map(row => {
+    const quantity = Math.abs(row.quantity_strips);
+    return {
+      transaction_type: row.transaction_type,
+      sale_date: row.sale_date,
+      product_id: row.product_id,
+      product_name: row.products?.product_name || '',
+      product_code: row.products?.product_code || '',
+      customer_id: row.customer_id,
+      customer_name: row.location_id_destination || '',
+      mr_user_id: row.transaction_type === 'SALE_BY_MR' ? row.location_id_source : null,
+      quantity_strips: quantity,
+      revenue: roundCurrency(quantity * Number(row.selling_price_per_strip)),
+      cost: roundCurrency(quantity * Number(row.cost_per_strip)),
+    };
+  });
+}
+
+/**
+ * Totals revenue, cost and margin of sale lines by product, customer or MR. Customers are matched
+ * by id, or by name on sales not yet linked to one. Direct sales from the godown are grouped under
+ * no MR.
+ */
+export function summarizeMargin(
+  lines: MarginLine[],
+  grouping: MarginGrouping,
+  getMrName: (mrUserId: string) => string = mrUserId => mrUserId
+): MarginRow[] {
+  const groups = new Map<string, MarginRow>();
+
+  lines.forEach(line => {
+    const { key, label } = grouping === 'product'
+      ? { key: line.product_id, label: `${line.product_name} (${line.product_code})` }
+      : grouping === 'customer'
+        ? { key: line.customer_id || line.customer_name.trim().toLowerCase(), label: line.customer_name || 'Unnamed customer' }
+        : { key: line.mr_user_id || '', label: line.mr_user_id ? getMrName(line.mr_user_id) : 'Direct (godown)' };
+
+    const row = groups.get(key) || {
+      key,
+      label,
+      quantity_strips: 0,
+      revenue: 0,
+      cost: 0,
+      margin: 0,
+      margin_percent: 0,
+    };
+    row.quantity_strips += line.quantity_strips;
+    row.revenue = roundCurrency(row.revenue + line.revenue);
+    row.cost = roundCurrency(row.cost + line.cost);
+    groups.set(key, row);
+  });
+
+  return Array.from(groups.values())
+    .map(row => {
+      const margin = roundCurrency(row.revenue - row.cost);
+      return {
+        ...row,
+        margin,
+        margin_percent: row.revenue ? Math.round(margin / row.revenue * 1000) / 10 : 0,
+      };
+    })
+    .sort((a, b) => b.revenue - a.revenue);
+}
+
+/**
+ * Fetches the revenue from priced customer sales between two dates
+ */
+export async function fetchRevenue(fromDate: string, toDate: string): Promise<number> {
+  const lines = await fetchMarginLines({ fromDate, toDate });
+  return roundCurrency(lines.reduce((sum, line) => sum + line.revenue, 0));
+}
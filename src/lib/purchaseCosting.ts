@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { roundCurrency } from '@/lib/utils';
+import { PurchaseCostSummary, PurchaseCostingLine, PurchaseLineCost } from '@/types/stock';
+
+export type PurchaseInvoice = Tables<'purchase_invoices'>;
+
+interface SavePurchaseInvoiceInput {
+  purchaseGroupId: string;
+  supplierInvoiceNumber: string;
+  invoiceAmount: number;
+  freightAmount: number;
+  userId?: string;
+}
+
+/**
+ * Works out each GRN line's landed cost: invoice rate on the paid strips, less trade discount,
+ * plus a share of the freight in proportion to the line's net value (or strips when nothing
+ * is paid). Free strips are received at the line's averaged cost per strip.
+ */
+export function calculatePurchaseCosts(lines: PurchaseCostingLine[], freightAmount: number): PurchaseLineCost[] {
+  const costs = lines.map(line => {
+    const paidStrips = Math.max(line.quantity_strips || 0, 0);
+    const receivedStrips = paidStrips + Math.max(line.free_strips || 0, 0);
+    const grossValue = roundCurrency(paidStrips * (line.invoice_rate_per_strip || 0));
+    const discountValue = roundCurrency(grossValue * (line.discount_percent || 0) / 100);
+    return {
+      received_strips: receivedStrips,
+      gross_value: grossValue,
+      discount_value: discountValue,
+      net_value: grossValue - discountValue,
+      freight_amount: 0,
+      landed_value: 0,
+      landed_cost_per_strip: 0,
+    };
+  });
+
+  const totalNet = costs.reduce((sum, cost) => sum + cost.net_value, 0);
+  const getBasis = (cost: PurchaseLineCost) => totalNet > 0 ? cost.net_value : cost.received_strips;
+  const totalBasis = costs.reduce((sum, cost) => sum + getBasis(cost), 0);
+
+  // Round each share to the paisa and give the rounding remainder to the last line sharing freight
+  const freight = Math.max(freightAmount || 0, 0);
+  const lastSharingIndex = costs.map(getBasis).map(basis => basis > 0).lastIndexOf(true);
+  let allocated = 0;
+  costs.forEach((cost, index) => {
+    if (totalBasis <= 0 || getBasis(cost) <= 0) return;
+    cost.freight_amount = index === lastSharingIndex
+      ? roundCurrency(freight - allocated)
+      : roundCurrency(freight * getBasis(cost) / totalBasis);
+    allocated += cost.freight_amount;
+  });
+
+  return costs.map(cost => {
+    const landedValue = roundCurrency(cost.net_value + cost.freight_amount);
+    return {
+      ...cost,
+      landed_value: landedValue,
+      landed_cost_per_strip: cost.received_strips ? roundCurrency(landedValue / cost.received_strips) : 0,
+    };
+  });
+}
+
+/**
+ * Totals the line costs of a GRN
+ */
+export function summarizePurchaseCosts(costs: PurchaseLineCost[]): PurchaseCostSummary {
+  return costs.reduce<PurchaseCostSummary>((totals, cost) => ({
+    received_strips: totals.received_strips + cost.received_strips,
+    gross_value: roundCurrency(totals.gross_value + cost.gross_value),
+    discount_value: roundCurrency(totals.discount_value + cost.discount_value),
+    net_value: roundCurrency(totals.net_value + cost.net_value),
+    freight_amount: roundCurrency(totals.freight_amount + cost.freight_amount),
+    landed_value: roundCurrency(totals.landed_value + cost.landed_value),
+  }), {
+    received_strips: 0,
+    gross_value: 0,
+    discount_value: 0,
+    net_value: 0,
+    freight_amount: 0,
+    landed_value: 0,
+  });
+}
+
+/**
+ * Describes why a line cannot be saved with its costing, or returns null when it can
+ */
+export function getPurchaseCostingError(line: PurchaseCostingLine, cost: PurchaseLineCost): string | null {
+  if ((line.free_strips || 0) < 0) return 'Free strips cannot be negative';
+  if ((line.discount_percent || 0) < 0 || (line.discount_percent || 0) > 100) {
+    return 'Discount must be between 0 and 100%';
+  }
+  if (cost.received_strips <= 0) return 'Enter a quantity';
+  // Only a line made up entirely of free strips may come in at zero cost
+  if (line.quantity_strips > 0 && cost.landed_cost_per_strip <= 0) {
+    return 'Enter an invoice rate; paid strips cannot be received at zero cost';
+  }
+  return null;
+}
+
+/**
+ * Fetches the invoice totals recorded for a GRN, if any
+ */
+export async function fetchPurchaseInvoice(purchaseGroupId: string): Promise<PurchaseInvoice | null> {
+  const { data, error } = await supabase
+    .from('purchase_invoices')
+    .select('*')
+    .eq('purchase_group_id', purchaseGroupId)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Records or replaces the invoice totals of a GRN
+ */
+export async function savePurchaseInvoice(input: SavePurchaseInvoiceInput): Promise<void> {
+  const { error } = await supabase
+    .from('purchase_invoices')
+    .upsert({
+      purchase_group_id: input.purchaseGroupId,
+      supplier_invoice_number: input.supplierInvoiceNumber || null,
+      invoice_amount: input.invoiceAmount || 0,
+      freight_amount: input.freightAmount || 0,
+      created_by: input.userId,
+    }, { onConflict: 'purchase_group_id' });
+  if (error) throw error;
+}
@@ -0,0 +1,218 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { OpenPurchaseOrderSummary, PurchaseOrderLineInput, ReceiptVariance } from '@/types/stock';
+
+export type PurchaseOrder = Tables<'purchase_orders'>;
+export type PurchaseOrderLineStatus = Tables<'purchase_order_lines_view'>;
+
+export const OPEN_PURCHASE_ORDER_STATUSES = ['Open', 'Partially Received'];
+
+interface CreatePurchaseOrderInput {
+  supplierId: string;
+  orderDate: string;
+  expectedDeliveryDate: string;
+  notes: string;
+  lines: PurchaseOrderLineInput[];
+  userId?: string;
+}
+
+interface ReceivingLine {
+  purchase_order_line_id?: string | null;
+  quantity_strips: number;
+}
+
+/**
+ * Badge variant for a PO status
+ */
+export function getPurchaseOrderStatusBadgeVariant(status: string) {
+  switch (status) {
+    case 'Open':
+      return 'secondary' as const;
+    case 'Received':
+      return 'default' as const;
+    case 'Cancelled':
+      return 'destructive' as const;
+    default:
+      return 'outline' as const;
+  }
+}
+
+/**
+ * Expected delivery is the order date plus the longest lead time among the ordered products
+ */
+export function getExpectedDeliveryDate(orderDate: string, leadTimeDays: number[]): string {
+  const date = new Date(`${orderDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + Math.max(0, ...leadTimeDays));
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Creates a purchase order with its lines
+ */
+export async function createPurchaseOrder(input: CreatePurchaseOrderInput): Promise<PurchaseOrder> {
+  const { data: order, error } = await supabase
+    .from('purchase_orders')
+    .insert({
+      supplier_id: input.supplierId,
+      order_date: input.orderDate,
+      expected_delivery_date: input.expectedDeliveryDate || null,
+      notes: input.notes || null,
+      created_by: input.userId,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const { error: linesError } = await supabase
+    .from('purchase_order_lines')
+    .insert(input.lines.map(line => ({
+      purchase_order_id: order.id,
+      product_id: line.product_id,
+      unit_id: line.unit_id,
+      quantity: line.quantity,
+      quantity_strips: line.quantity_strips,
+      cost_per_strip: line.cost_per_strip,
+      notes: line.notes || null,
+    })));
+  if (linesError) {
+    // Don't leave an order without lines behind
+    await supabase.from('purchase_orders').delete().eq('id', order.id);
+    throw linesError;
+  }
+
+  return order;
+}
+
+/**
+ * Fetches a PO's lines with ordered, received and outstanding strips
+ */
+export async function fetchPurchaseOrderLines(purchaseOrderId: string): Promise<PurchaseOrderLineStatus[]> {
+  const { data, error } = await supabase
+    .from('purchase_order_lines_view')
+    .select('*')
+    .eq('purchase_order_id', purchaseOrderId)
+    .order('product_name');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Fetches the lines of every open PO, optionally for a single supplier
+ */
+export async function fetchOpenPurchaseOrderLines(supplierId?: string): Promise<PurchaseOrderLineStatus[]> {
+  let query = supabase
+    .from('purchase_order_lines_view')
+    .select('*')
+    .in('status', OPEN_PURCHASE_ORDER_STATUSES)
+    .order('expected_delivery_date')
+    .order('po_number');
+
+  if (supplierId) {
+    query = query.eq('supplier_id', supplierId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Closes a PO so nothing more is expected against it, even if it is short
+ */
+export async function closePurchaseOrder(purchaseOrderId: string) {
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({ status: 'Closed' })
+    .eq('id', purchaseOrderId);
+  if (error) throw error;
+}
+
+/**
+ * Cancels a PO that has had nothing received against it
+ */
+export async function cancelPurchaseOrder(purchaseOrderId: string) {
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({ status: 'Cancelled' })
+    .eq('id', purchaseOrderId)
+    .eq('status', 'Open');
+  if (error) throw error;
+}
+
+/**
+ * Compares what a GRN receives against each PO line with what was ordered and already received
+ */
+export function getReceiptVariances(
+  poLines: PurchaseOrderLineStatus[],
+  receivingLines: ReceivingLine[]
+): ReceiptVariance[] {
+  const receiving = new Map<string, number>();
+  receivingLines.forEach(line => {
+    if (line.purchase_order_line_id) {
+      receiving.set(
+        line.purchase_order_line_id,
+        (receiving.get(line.purchase_order_line_id) || 0) + line.quantity_strips
+      );
+    }
+  });
+
+  return poLines
+    .filter(line => receiving.has(line.id))
+    .map(line => {
+      const receivingStrips = receiving.get(line.id) || 0;
+      return {
+        purchase_order_line_id: line.id,
+        po_number: line.po_number,
+        product_name: line.product_name,
+        ordered_strips: line.quantity_strips,
+        previously_received_strips: line.received_strips,
+        receiving_strips: receivingStrips,
+        variance_strips: line.received_strips + receivingStrips - line.quantity_strips,
+      };
+    });
+}
+
+/**
+ * Totals outstanding quantity and value of open POs per supplier
+ */
+export function summarizeOpenPurchaseOrders(lines: PurchaseOrderLineStatus[], today: string): OpenPurchaseOrderSummary[] {
+  const summaries = new Map<string, OpenPurchaseOrderSummary & { orders: Set<string>; overdue: Set<string> }>();
+
+  lines.forEach(line => {
+    if (!summaries.has(line.supplier_id)) {
+      summaries.set(line.supplier_id, {
+        supplier_id: line.supplier_id,
+        open_orders: 0,
+        overdue_orders: 0,
+        outstanding_strips: 0,
+        outstanding_value: 0,
+        next_expected_date: null,
+        orders: new Set(),
+        overdue: new Set(),
+      });
+    }
+
+    const summary = summaries.get(line.supplier_id)!;
+    summary.orders.add(line.purchase_order_id);
+    summary.outstanding_strips += line.outstanding_strips;
+    summary.outstanding_value += line.outstanding_strips * Number(line.cost_per_strip);
+    if (line.expected_delivery_date) {
+      if (line.expected_delivery_date < today && line.outstanding_strips > 0) {
+        summary.overdue.add(line.purchase_order_id);
+      }
+      if (!summary.next_expected_date || line.expected_delivery_date < summary.next_expected_date) {
+        summary.next_expected_date = line.expected_delivery_date;
+      }
+    }
+  });
+
+  return Array.from(summaries.values())
+    .map(({ orders, overdue, ...summary }) => ({
+      ...summary,
+      open_orders: orders.size,
+      overdue_orders: overdue.size,
+    }))
+    .sort((a, b) => b.outstanding_value - a.outstanding_value);
+}
@@ -1,13 +1,218 @@
 import { supabase } from '@/integrations/supabase/client';
-import { StockItem, StockSummary, Product, Batch, Transaction, StockFilters } from '@/types/stock';
+import { StockItem, StockSummary, Product, Batch, Transaction, StockFilters, StockPage, StockPageOptions, StockEffect } from '@/types/stock';
+import { addDays } from '@/lib/batchValidation';
+import { roundCurrency, toDateInput } from '@/lib/utils';
+
+// Report sort fields mapped to closing_stock_view columns
+const CLOSING_STOCK_SORT_COLUMNS: Record<string, string> = {
+  product_name: 'product_name',
+  generic_name: 'generic_name',
+  batch_number: 'batch_number',
+  expiry_date: 'expiry_date',
+  current_quantity_strips: 'quantity_strips',
+  cost_per_strip: 'cost_per_strip',
+  total_value: 'total_value',
+};
+
+const PAGE_SIZE = 1000;
+
+// Default window for "expiring soon" badges and summary counts
+export const EXPIRING_SOON_DAYS = 30;
+
+/**
+ * Fetches every row of a query by walking it in pages, since PostgREST caps each response
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) {
+      console.error('Supabase query error:', error);
+      throw error;
+    }
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+    from += PAGE_SIZE;
+  }
+}
+
+/**
+ * Splits a report location filter ('ALL', 'GODOWN', 'MR', 'MR_<user_id>' or
+ * 'AREA_<territory id>') into view columns. The MRs of an area come from filters.locationIds.
+ */
+export function parseLocationFilter(locationFilter: string) {
+  if (locationFilter === 'GODOWN') {
+    return { locationType: 'GODOWN', locationId: null };
+  }
+  if (locationFilter === 'MR' || locationFilter?.startsWith('AREA_')) {
+    return { locationType: 'MR', locationId: null };
+  }
+  if (locationFilter?.startsWith('MR_')) {
+    return { locationType: 'MR', locationId: locationFilter.replace('MR_', '') };
+  }
+  return { locationType: null, locationId: null };
+}
 
 /**
- * Calculates stock data based on transactions and filters
+ * Builds a closing_stock_view query with the report filters applied server-side
+ */
+function buildClosingStockQuery(filters: StockFilters, withCount = false) {
+  let query = supabase
+    .from('closing_stock_view')
+    .select('*', withCount ? { count: 'exact' } : undefined)
+    .gt('quantity_strips', 0);
+
+  const { locationType, locationId } = parseLocationFilter(filters.locationFilter);
+  if (locationType) {
+    query = query.eq('location_type', locationType);
+  }
+  if (locationId) {
+    query = query.eq('location_id', locationId);
+  }
+  if (filters.locationIds) {
+    query = query.in('location_id', filters.locationIds);
+  }
+
+  if (filters.productFilter) {
+    const term = filters.productFilter.replace(/[,()]/g, ' ');
+    query = query.or(`product_name.ilike.%${term}%,product_code.ilike.%${term}%`);
+  }
+
+  if (filters.categoryFilter && filters.categoryFilter !== 'ALL') {
+    query = query.eq('category_name', filters.categoryFilter);
+  }
+
+  if (filters.batchFilter) {
+    query = query.ilike('batch_number', `%${filters.batchFilter}%`);
+  }
+
+  if (filters.expiryFromDate) {
+    query = query.gte('expiry_date', filters.expiryFromDate);
+  }
+  if (filters.expiryToDate) {
+    query = query.lte('expiry_date', filters.expiryToDate);
+  }
+
+  return query;
+}
+
+/**
+ * Fetches one page of current stock from closing_stock_view
+ */
+export async function fetchClosingStock(filters: StockFilters, options: StockPageOptions): Promise<StockPage> {
+  const sortColumn = CLOSING_STOCK_SORT_COLUMNS[options.sortField] || 'product_name';
+  const from = (options.page - 1) * options.pageSize;
+  const to = from + options.pageSize - 1;
+
+  const { data, error, count } = await buildClosingStockQuery(filters, true)
+    .order(sortColumn, { ascending: options.sortDirection === 'asc' })
+    .order('id')
+    .range(from, to);
+
+  if (error) {
+    console.error('Error fetching closing stock:', error);
+    throw error;
+  }
+
+  const items: StockItem[] = (data || []).map(row => ({
+    product_id: row.product_id,
+    product_name: row.product_name,
+    product_code: row.product_code,
+    generic_name: row.generic_name,
+    batch_id: row.batch_id,
+    batch_number: row.batch_number,
+    expiry_date: row.expiry_date,
+    location_type: row.location_type,
+    location_id: row.location_id,
+    current_quantity_strips: row.quantity_strips,
+    cost_per_strip: Number(row.cost_per_strip),
+    total_value: Number(row.total_value),
+    category_name: row.category_name ?? undefined,
+    min_stock_level_godown: row.min_stock_level_godown ?? undefined,
+    min_stock_level_mr: row.min_stock_level_mr ?? undefined,
+    location_product_quantity_strips: row.location_product_quantity_strips,
+  }));
+
+  return { items, totalCount: count || 0 };
+}
+
+/**
+ * Fetches summary statistics for the filtered closing stock
+ */
+export async function fetchClosingStockSummary(filters: StockFilters): Promise<StockSummary> {
+  const { locationType, locationId } = parseLocationFilter(filters.locationFilter);
+
+  const { data, error } = await supabase.rpc('get_closing_stock_summary', {
+    p_location_type: locationType,
+    p_location_id: locationId,
+    p_product_search: filters.productFilter || null,
+    p_category_name: filters.categoryFilter && filters.categoryFilter !== 'ALL' ? filters.categoryFilter : null,
+    p_batch_search: filters.batchFilter || null,
+    p_expiry_from: filters.expiryFromDate || null,
+    p_expiry_to: filters.expiryToDate || null,
+    p_expiring_within_days: EXPIRING_SOON_DAYS,
+    p_location_ids: filters.locationIds ?? null,
+  });
+
+  if (error) {
+    console.error('Error fetching closing stock summary:', error);
+    throw error;
+  }
+
+  const row = data?.[0];
+  return {
+    total_products: Number(row?.total_products || 0),
+    total_batches: Number(row?.total_batches || 0),
+    total_value: Number(row?.total_value || 0),
+    low_stock_items: Number(row?.low_stock_items || 0),
+    expiring_soon_items: Number(row?.expiring_soon_items || 0),
+  };
+}
+
+/**
+ * Sorts and slices replayed stock items into a report page
+ */
+export function paginateStockItems(items: StockItem[], options: StockPageOptions): StockPage {
+  const sortField = (options.sortField in CLOSING_STOCK_SORT_COLUMNS ? options.sortField : 'product_name') as keyof StockItem;
+
+  const sorted = [...items].sort((a, b) => {
+    let compareA = a[sortField] ?? '';
+    let compareB = b[sortField] ?? '';
+
+    if (sortField === 'expiry_date') {
+      compareA = new Date(a.expiry_date).getTime();
+      compareB = new Date(b.expiry_date).getTime();
+    } else if (typeof compareA === 'string' && typeof compareB === 'string') {
+      compareA = compareA.toLowerCase();
+      compareB = compareB.toLowerCase();
+    }
+
+    const comparison = compareA > compareB ? 1 : compareA < compareB ? -1 : 0;
+    return options.sortDirection === 'asc' ? comparison : -comparison;
+  });
+
+  const from = (options.page - 1) * options.pageSize;
+  return {
+    items: sorted.slice(from, from + options.pageSize),
+    totalCount: sorted.length,
+  };
+}
+
+/**
+ * Calculates stock data by replaying every transaction in stock_transactions_view.
+ * The report reads closing_stock for current stock; the replay serves point-in-time
+ * reports (filters.asOfDate) and the offline reconciliation check.
  */
 export async function calculateStockData(filters: StockFilters): Promise<StockItem[]> {
   try {
     // First, fetch all products for later lookup
-    const { data: products, error: productsError } = await supabase
+    const products = await fetchAllPages<Product>((from, to) => supabase
       .from('products')
       .select(`
         id,
@@ -19,12 +224,9 @@ export async function calculateStockData(filters: StockFilters): Promise<StockIt
         product_categories (
           category_name
         )
-      `);
-    
-    if (productsError) {
-      console.error('Error fetching products:', productsError);
-      throw productsError;
-    }
+      `)
+      .order('id')
+      .range(from, to));
     
     // Create a map of products for quick lookup
     const productMap = new Map<string, Product>();
@@ -33,18 +235,15 @@ export async function calculateStockData(filters: StockFilters): Promise<StockIt
     });
     
     // Fetch all batches for later lookup
-    const { data: batches, error: batchesError } = await supabase
+    const batches = await fetchAllPages<Batch>((from, to) => supabase
       .from('product_batches')
       .select(`
         id,
         batch_number,
         expiry_date
-      `);
-    
-    if (batchesError) {
-      console.error('Error fetching batches:', batchesError);
-      throw batchesError;
-    }
+      `)
+      .order('id')
+      .range(from, to));
     
     // Create a map of batches for quick lookup
     const batchMap = new Map<string, Batch>();
@@ -52,23 +251,10 @@ export async function calculateStockData(filters: StockFilters): Promise<StockIt
       batchMap.set(batch.id, batch);
     });
 
-    // Build query for transactions
-    let query = supabase
-      .from('stock_transactions_view')
-      .select(`
-        product_id,
-        batch_id,
-        transaction_type,
-        quantity_strips,
-        location_type_source,
-        location_id_source,
-        location_type_destination,
-        location_id_destination,
-        cost_per_strip_at_transaction,
-        transaction_date
-      `);
-
-    // Apply filters
+    // Collect the product and batch constraints for the transaction query
+    let productIdFilter: string[] | null = null;
+    const batchIdFilters: string[][] = [];
+
     if (filters.productFilter) {
       // Get product IDs that match the filter
       const filteredProductIds = products
@@ -79,7 +265,7 @@ export async function calculateStockData(filters: StockFilters): Promise<StockIt
         .map(p => p.id);
       
       if (filteredProductIds && filteredProductIds.length > 0) {
-        query = query.in('product_id', filteredProductIds);
+        productIdFilter = filteredProductIds;
       } else {
         // No products match the filter, return empty result
         return [];
@@ -93,7 +279,7 @@ export async function calculateStockData(filters: StockFilters): Promise<StockIt
         .map(b => b.id);
       
       if (filteredBatchIds && filteredBatchIds.length > 0) {
-        query = query.in('batch_id', filteredBatchIds);
+        batchIdFilters.push(filteredBatchIds);
       } else {
         // No batches match the filter, return empty result
         return [];
@@ -112,19 +298,48 @@ export async function calculateStockData(filters: StockFilters): Promise<StockIt
         .map(b => b.id);
       
       if (filteredBatchIds && filteredBatchIds.length > 0) {
-        query = query.in('batch_id', filteredBatchIds);
+        batchIdFilters.push(filteredBatchIds);
       } else {
         // No batches match the filter, return empty result
         return [];
       }
     }
 
-    const { data: transactions, error } = await query;
-    
-    if (error) {
-      console.error('Supabase query error:', error);
-      throw error;
-    }
+    // Replay in date order so the latest inflow cost wins
+    const transactions = await fetchAllPages<Transaction>((from, to) => {
+      let query = supabase
+        .from('stock_transactions_view')
+        .select(`
+          product_id,
+          batch_id,
+          transaction_type,
+          quantity_strips,
+          location_type_source,
+          location_id_source,
+          location_type_destination,
+          location_id_destination,
+          cost_per_strip_at_transaction,
+          transaction_date
+        `);
+
+      if (productIdFilter) {
+        query = query.in('product_id', productIdFilter);
+      }
+      batchIdFilters.forEach(batchIds => {
+        query = query.in('batch_id', batchIds);
+      });
+
+      // Only count transactions dated on or before the end of the as-of day
+      if (filters.asOfDate) {
+        query = query.lte('transaction_date', new Date(`${filters.asOfDate}T23:59:59.999`).toISOString());
+      }
+
+      return query
+        .order('transaction_date')
+        .order('created_at')
+        .order('transaction_id')
+        .range(from, to);
+    });
     
     // Apply category filter if needed
     let filteredData = transactions || [];
@@ -189,7 +404,7 @@ export async function calculateStockData(filters: StockFilters): Promise<StockIt
         };
         
         // Process transaction based on type
-        processTransaction(transaction, getOrCreateStockItem, filters.locationFilter);
+        processTransaction(transaction, getOrCreateStockItem, filters.locationFilter, filters.locationIds);
         
       } catch (err) {
         console.error('Error processing transaction:', err, transaction);
@@ -204,217 +419,145 @@ export async function calculateStockData(filters: StockFilters): Promise<StockIt
         total_value: item.current_quantity_strips * item.cost_per_strip
       }));
 
-    return stockItems;
+    // Each location's holding of a product across batches, as closing_stock_view carries it
+    const locationProductKey = (item: StockItem) => `${item.location_type}_${item.location_id}_${item.product_id}`;
+    const locationProductTotals = new Map<string, number>();
+    stockItems.forEach(item => {
+      const key = locationProductKey(item);
+      locationProductTotals.set(key, (locationProductTotals.get(key) || 0) + item.current_quantity_strips);
+    });
+
+    return stockItems.map(item => ({
+      ...item,
+      location_product_quantity_strips: locationProductTotals.get(locationProductKey(item)),
+    }));
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Processes a single transaction and updates stock accordingly
- * Note: Database stores incoming stocks as positive values and outgoing stocks as negative values
+ * Checks whether a stock location passes the report location filter
  */
-function processTransaction(
-  transaction: Transaction, 
-  getOrCreateStockItem: (productId: string, batchId: string, locationType: string, locationId: string) => StockItem,
-  locationFilter: string
+export function matchesLocationFilter(
+  locationType: string,
+  locationId: string,
+  locationFilter: string,
+  locationIds?: string[]
 ) {
+  if (!locationFilter || locationFilter === 'ALL') return true;
+  if (locationType === 'GODOWN') return locationFilter === 'GODOWN';
+  if (locationFilter.startsWith('AREA_')) return !!locationIds?.includes(locationId);
+  return locationFilter === 'MR' ||
+    (locationFilter.startsWith('MR_') && locationFilter.replace('MR_', '') === locationId);
+}
+
+/**
+ * Resolves how a transaction moves stock: one effect per location whose balance changes.
+ * The view's sign conventions differ by table and have changed across migrations, so
+ * quantities are signed here from each location's point of view using the absolute value.
+ */
+export function getTransactionEffects(transaction: Transaction): StockEffect[] {
   const txType = transaction.transaction_type;
-  
-  // Determine the location for stock movement
-  let stockLocation: string | null = null;
-  let stockLocationId: string | null = null;
-  
-  // Process based on transaction type to determine the correct stock location
+  const quantity = Math.abs(transaction.quantity_strips);
+  const effects: StockEffect[] = [];
+
+  const godown = (quantity_strips: number) => {
+    effects.push({ location_type: 'GODOWN', location_id: '', quantity_strips });
+  };
+  const mr = (mrId: string | null, quantity_strips: number) => {
+    if (mrId) {
+      effects.push({ location_type: 'MR', location_id: mrId, quantity_strips });
+    }
+  };
+  const mrSource = transaction.location_type_source === 'MR' ? transaction.location_id_source : null;
+  const mrDestination = transaction.location_type_destination === 'MR' ? transaction.location_id_destination : null;
+
   if (txType === 'STOCK_IN_GODOWN') {
-    // Stock coming into godown
-    stockLocation = 'GODOWN';
-    stockLocationId = '';
-  }
-  else if (txType === 'DISPATCH_TO_MR') {
-    // For dispatch, we have two effects:
-    // 1. Decrease in godown stock (quantity_strips will be negative in DB)
+    godown(quantity);
+  } else if (txType === 'DISPATCH_TO_MR') {
+    // Internal transfer: out of the godown, into the MR's holding
     if (transaction.location_type_source === 'GODOWN') {
-      // Only process if we're interested in godown or all locations
-      if (locationFilter === 'ALL' || locationFilter === 'GODOWN') {
-        const godownItem = getOrCreateStockItem(
-          transaction.product_id,
-          transaction.batch_id,
-          'GODOWN',
-          ''
-        );
-        // Use absolute value since this represents outflow from godown
-        godownItem.current_quantity_strips += transaction.quantity_strips; // DB stores as negative
-      }
+      godown(-quantity);
     }
-    
-    // 2. Increase in MR stock (quantity_strips will be positive in DB for MR destination)
-    if (transaction.location_type_destination === 'MR' && transaction.location_id_destination) {
-      // Only process if we're interested in this MR or all MRs or all locations
-      const mrId = transaction.location_id_destination;
-      if (locationFilter === 'ALL' || 
-          locationFilter === 'MR' || 
-          (locationFilter.startsWith('MR_') && locationFilter.replace('MR_', '') === mrId)) {
-        const mrItem = getOrCreateStockItem(
-          transaction.product_id,
-          transaction.batch_id,
-          'MR',
-          mrId
-        );
-        // Use absolute value since this represents inflow to MR
-        mrItem.current_quantity_strips += Math.abs(transaction.quantity_strips);
-        mrItem.cost_per_strip = transaction.cost_per_strip_at_transaction;
-      }
-    }
-    
-    // Skip the default processing since we've handled both sides
-    return;
-  }
-  else if (txType === 'SALE_DIRECT_GODOWN') {
-    // Sale directly from godown
+    mr(mrDestination, quantity);
+  } else if (txType === 'SALE_DIRECT_GODOWN') {
     if (transaction.location_type_source === 'GODOWN') {
-      stockLocation = 'GODOWN';
-      stockLocationId = '';
-    }
-  }
-  else if (txType === 'SALE_BY_MR') {
-    // Sale by MR
-    if (transaction.location_type_source === 'MR' && transaction.location_id_source) {
-      stockLocation = 'MR';
-      stockLocationId = transaction.location_id_source;
+      godown(-quantity);
     }
-  }
-  else if (txType.includes('RETURN_TO_GODOWN')) {
-    // Return to godown (positive for godown, negative for source if MR)
+  } else if (txType === 'SALE_BY_MR') {
+    mr(mrSource, -quantity);
+  } else if (txType.startsWith('RETURN_TO_')) {
+    // Returns follow the location columns: RETURN_TO_MR rows are MR-to-godown returns
     if (transaction.location_type_destination === 'GODOWN') {
-      // Add to godown
-      if (locationFilter === 'ALL' || locationFilter === 'GODOWN') {
-        const godownItem = getOrCreateStockItem(
-          transaction.product_id,
-          transaction.batch_id,
-          'GODOWN',
-          ''
-        );
-        // DB stores returns as positive for godown
-        godownItem.current_quantity_strips += transaction.quantity_strips;
-        godownItem.cost_per_strip = transaction.cost_per_strip_at_transaction;
-      }
-    }
-    
-    // Remove from MR if that's the source
-    if (transaction.location_type_source === 'MR' && transaction.location_id_source) {
-      const mrId = transaction.location_id_source;
-      if (locationFilter === 'ALL' || 
-          locationFilter === 'MR' || 
-          (locationFilter.startsWith('MR_') && locationFilter.replace('MR_', '') === mrId)) {
-        const mrItem = getOrCreateStockItem(
-          transaction.product_id,
-          transaction.batch_id,
-          'MR',
-          mrId
-        );
-        // DB stores returns as negative for MR source
-        mrItem.current_quantity_strips += transaction.quantity_strips;
-      }
+      godown(quantity);
     }
-    
-    // Skip default processing
-    return;
-  }
-  else if (txType.includes('ADJUST_DAMAGE_') || 
-           txType.includes('ADJUST_LOSS_') || 
-           txType.includes('ADJUST_EXPIRED_')) {
-    // Adjustments for damage/loss/expiry
-    if (txType.includes('_GODOWN')) {
-      stockLocation = 'GODOWN';
-      stockLocationId = '';
-    } else if (txType.includes('_MR') && transaction.location_id_source) {
-      stockLocation = 'MR';
-      stockLocationId = transaction.location_id_source;
-    }
-  }
-  else if (txType.includes('OPENING_STOCK_')) {
-    // Opening stock
-    if (txType.includes('OPENING_STOCK_GODOWN')) {
-      stockLocation = 'GODOWN';
-      stockLocationId = '';
-    } else if (txType.includes('OPENING_STOCK_MR') && transaction.location_id_destination) {
-      stockLocation = 'MR';
-      stockLocationId = transaction.location_id_destination;
+    mr(mrDestination, quantity);
+    mr(mrSource, -quantity);
+  } else if (txType.startsWith('ADJUST_DAMAGE_') ||
+             txType.startsWith('ADJUST_LOSS_') ||
+             txType.startsWith('ADJUST_EXPIRED_')) {
+    if (txType.endsWith('_GODOWN')) {
+      godown(-quantity);
+    } else if (txType.endsWith('_MR')) {
+      mr(transaction.location_id_source, -quantity);
     }
+  } else if (txType === 'OPENING_STOCK_GODOWN') {
+    godown(quantity);
+  } else if (txType === 'OPENING_STOCK_MR') {
+    mr(transaction.location_id_destination, quantity);
+  } else if (txType === 'REPLACEMENT_FROM_GODOWN') {
+    godown(-quantity);
+  } else if (txType === 'REPLACEMENT_FROM_MR') {
+    mr(transaction.location_id_source, -quantity);
+  } else if (txType === 'PURCHASE_RETURN_GODOWN') {
+    godown(-quantity);
   }
-  else if (txType.includes('REPLACEMENT_')) {
-    // Handle replacements
-    if (txType.includes('REPLACEMENT_FROM_GODOWN')) {
-      // Outflow from godown
-      if (locationFilter === 'ALL' || locationFilter === 'GODOWN') {
-        const godownItem = getOrCreateStockItem(
-          transaction.product_id,
-          transaction.batch_id,
-          'GODOWN',
-          ''
-        );
-        // DB stores replacements as negative for source
-        godownItem.current_quantity_strips += transaction.quantity_strips;
-      }
-    } 
-    else if (txType.includes('REPLACEMENT_FROM_MR') && transaction.location_id_source) {
-      // Outflow from MR
-      const mrId = transaction.location_id_source;
-      if (locationFilter === 'ALL' || 
-          locationFilter === 'MR' || 
-          (locationFilter.startsWith('MR_') && locationFilter.replace('MR_', '') === mrId)) {
-        const mrItem = getOrCreateStockItem(
-          transaction.product_id,
-          transaction.batch_id,
-          'MR',
-          mrId
-        );
-        // DB stores replacements as negative for source
-        mrItem.current_quantity_strips += transaction.quantity_strips;
-      }
-    }
-    
-    // Skip default processing
-    return;
-  }
-  
-  // Apply the stock change if we determined a location
-  if (stockLocation) {
-    // Apply location filter
-    if (stockLocation === 'GODOWN' && locationFilter !== 'ALL' && locationFilter !== 'GODOWN') {
+
+  return effects;
+}
+
+/**
+ * Processes a single transaction and updates stock accordingly
+ */
+function processTransaction(
+  transaction: Transaction, 
+  getOrCreateStockItem: (productId: string, batchId: string, locationType: string, locationId: string) => StockItem,
+  locationFilter: string,
+  locationIds?: string[]
+) {
+  getTransactionEffects(transaction).forEach(effect => {
+    if (!matchesLocationFilter(effect.location_type, effect.location_id, locationFilter, locationIds)) {
       return;
     }
-    
-    if (stockLocation === 'MR') {
-      if (locationFilter !== 'ALL' && locationFilter !== 'MR' && 
-          !(locationFilter.startsWith('MR_') && locationFilter.replace('MR_', '') === stockLocationId)) {
-        return;
-      }
-    }
-    
+
     const stockItem = getOrCreateStockItem(
       transaction.product_id,
       transaction.batch_id,
-      stockLocation,
-      stockLocationId || ''
+      effect.location_type,
+      effect.location_id
     );
-    
-    // Use the quantity_strips directly as DB already stores correct signs
-    // Positive for incoming stocks, negative for outgoing stocks
-    stockItem.current_quantity_strips += transaction.quantity_strips;
-    
-    // Update cost per strip for positive transactions (inflows)
-    if (transaction.quantity_strips > 0) {
-      stockItem.cost_per_strip = transaction.cost_per_strip_at_transaction;
+    // Inflows are averaged with what the location already holds, as in closing_stock
+    if (effect.quantity_strips > 0) {
+      const heldStrips = Math.max(stockItem.current_quantity_strips, 0);
+      stockItem.cost_per_strip = roundCurrency(
+        (heldStrips * stockItem.cost_per_strip + effect.quantity_strips * transaction.cost_per_strip_at_transaction) /
+        (heldStrips + effect.quantity_strips)
+      );
     }
-  }
+    stockItem.current_quantity_strips += effect.quantity_strips;
+  });
 }
 
 /**
- * Calculates summary statistics from stock data
+ * Calculates summary statistics from stock data.
+ * Expiry is measured from referenceDate, which point-in-time reports set to the as-of date.
  */
-export function calculateStockSummary(stockData: StockItem[]): StockSummary {
+export function calculateStockSummary(
+  stockData: StockItem[],
+  referenceDate: Date = new Date(),
+  expiringWithinDays: number = EXPIRING_SOON_DAYS
+): StockSummary {
   if (!stockData) {
     return { 
       total_products: 0, 
@@ -434,15 +577,15 @@ export function calculateStockSummary(stockData: StockItem[]): StockSummary {
     const minLevel = item.location_type === 'GODOWN' 
       ? item.min_stock_level_godown || 0
       : item.min_stock_level_mr || 0;
-    return item.current_quantity_strips <= minLevel;
+    return getMinLevelQuantity(item) <= minLevel;
   }).length;
 
-  // Calculate items expiring in next 30 days
-  const thirtyDaysFromNow = new Date();
-  thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
+  // Calculate items expiring within the window
+  const expiringSoonDate = new Date(referenceDate);
+  expiringSoonDate.setDate(expiringSoonDate.getDate() + expiringWithinDays);
   const expiringSoonItems = stockData.filter(item => {
     const expiryDate = new Date(item.expiry_date);
-    return expiryDate <= thirtyDaysFromNow;
+    return expiryDate <= expiringSoonDate;
   }).length;
 
   return {
@@ -455,23 +598,34 @@ export function calculateStockSummary(stockData: StockItem[]): StockSummary {
 }
 
 /**
- * Gets expiry status for a given expiry date
+ * Gets expiry status for a given expiry date. Dates are compared without the time of day: a
+ * batch is usable through its expiry date, as in getBatchRestriction().
  */
-export function getExpiryStatus(expiryDate: string) {
-  const expiry = new Date(expiryDate);
-  const today = new Date();
-  const thirtyDaysFromNow = new Date();
-  thirtyDaysFromNow.setDate(today.getDate() + 30);
+export function getExpiryStatus(expiryDate: string, expiringWithinDays: number = EXPIRING_SOON_DAYS) {
+  const expiry = expiryDate.split('T')[0];
+  const today = toDateInput(new Date());
 
   if (expiry < today) {
     return { status: 'expired', variant: 'destructive' as const };
-  } else if (expiry <= thirtyDaysFromNow) {
+  } else if (expiry <= addDays(today, expiringWithinDays)) {
     return { status: 'expiring-soon', variant: 'secondary' as const };
   } else {
     return { status: 'good', variant: 'default' as const };
   }
 }
 
+/**
+ * The strips compared with a product's minimum level: the batch itself in the godown, and
+ * everything the MR holds of the product for an MR, whose minimum is per product
+ */
+export function getMinLevelQuantity(
+  item: Pick<StockItem, 'location_type' | 'current_quantity_strips' | 'location_product_quantity_strips'>
+): number {
+  return item.location_type === 'GODOWN'
+    ? item.current_quantity_strips
+    : item.location_product_quantity_strips ?? item.current_quantity_strips;
+}
+
 /**
  * Gets stock status for a given stock item
  */
@@ -479,10 +633,11 @@ export function getStockStatus(item: StockItem) {
   const minLevel = item.location_type === 'GODOWN' 
     ? item.min_stock_level_godown || 0
     : item.min_stock_level_mr || 0;
+  const quantity = getMinLevelQuantity(item);
 
-  if (item.current_quantity_strips <= minLevel) {
+  if (quantity <= minLevel) {
     return { status: 'low', variant: 'destructive' as const };
-  } else if (item.current_quantity_strips <= minLevel * 1.5) {
+  } else if (quantity <= minLevel * 1.5) {
     return { status: 'medium', variant: 'secondary' as const };
   } else {
     return { status: 'good', variant: 'default' as const };
@@ -0,0 +1,211 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { calculateStockData, fetchAllPages, getTransactionEffects } from '@/lib/stockCalculations';
+import { PositionMismatch, ReconciliationRow, StockFilters, Transaction } from '@/types/stock';
+
+const ALL_STOCK_FILTERS: StockFilters = {
+  locationFilter: 'ALL',
+  productFilter: '',
+  categoryFilter: 'ALL',
+  batchFilter: '',
+  expiryFromDate: '',
+  expiryToDate: '',
+};
+
+type StockTransactionRow = Tables<'stock_transactions_view'>;
+
+/**
+ * Builds the key used to line up one product/batch/location balance across sources.
+ * The godown is always keyed with an empty location id, matching closing_stock.
+ */
+function positionKey(productId: string, batchId: string, locationType: string, locationId: string | null) {
+  const normalizedLocationId = locationType === 'GODOWN' ? '' : locationId || '';
+  return `${productId}_${batchId}_${locationType}_${normalizedLocationId}`;
+}
+
+/**
+ * Computes every product/batch/location balance three ways and flags the ones that disagree:
+ * the transaction replay, the closing_stock trigger table, and the older
+ * products_stock_status (godown) / mr_stock_summary (MR) trigger tables.
+ */
+export async function reconcileStock(): Promise<ReconciliationRow[]> {
+  const [replayItems, closingRows, statusRows, mrSummaryRows, products, batches] = await Promise.all([
+    calculateStockData(ALL_STOCK_FILTERS),
+    fetchAllPages<Tables<'closing_stock_view'>>((from, to) => supabase
+      .from('closing_stock_view')
+      .select('*')
+      .order('id')
+      .range(from, to)),
+    fetchAllPages<Tables<'products_stock_status'>>((from, to) => supabase
+      .from('products_stock_status')
+      .select('*')
+      .eq('location_type', 'GODOWN')
+      .order('id')
+      .range(from, to)),
+    fetchAllPages<Tables<'mr_stock_summary'>>((from, to) => supabase
+      .from('mr_stock_summary')
+      .select('*')
+      .order('mr_user_id')
+      .order('product_id')
+      .order('batch_id')
+      .range(from, to)),
+    fetchAllPages<{ id: string; product_name: string; product_code: string }>((from, to) => supabase
+      .from('products')
+      .select('id, product_name, product_code')
+      .order('id')
+      .range(from, to)),
+    fetchAllPages<{ id: string; batch_number: string }>((from, to) => supabase
+      .from('product_batches')
+      .select('id, batch_number')
+      .order('id')
+      .range(from, to)),
+  ]);
+
+  const productMap = new Map(products.map(product => [product.id, product]));
+  const batchMap = new Map(batches.map(batch => [batch.id, batch]));
+  const rows = new Map<string, ReconciliationRow>();
+
+  const getOrCreateRow = (productId: string, batchId: string, locationType: string, locationId: string | null) => {
+    const key = positionKey(productId, batchId, locationType, locationId);
+    if (!rows.has(key)) {
+      const product = productMap.get(productId);
+      const batch = batchMap.get(batchId);
+      rows.set(key, {
+        key,
+        product_id: productId,
+        product_name: product?.product_name || 'Unknown product',
+        product_code: product?.product_code || '',
+        batch_id: batchId,
+        batch_number: batch?.batch_number || 'Unknown batch',
+        location_type: locationType,
+        location_id: locationType === 'GODOWN' ? '' : locationId || '',
+        replay_quantity: 0,
+        closing_quantity: 0,
+        status_quantity: 0,
+        is_mismatch: false,
+      });
+    }
+    return rows.get(key)!;
+  };
+
+  replayItems.forEach(item => {
+    getOrCreateRow(item.product_id, item.batch_id, item.location_type, item.location_id)
+      .replay_quantity += item.current_quantity_strips;
+  });
+
+  closingRows.forEach(row => {
+    getOrCreateRow(row.product_id, row.batch_id, row.location_type, row.location_id)
+      .closing_quantity += row.quantity_strips;
+  });
+
+  statusRows.forEach(row => {
+    getOrCreateRow(row.product_id, row.batch_id, 'GODOWN', row.location_id)
+      .status_quantity += row.current_quantity_strips;
+  });
+
+  mrSummaryRows.forEach(row => {
+    getOrCreateRow(row.product_id, row.batch_id, 'MR', row.mr_user_id)
+      .status_quantity += row.current_quantity_strips;
+  });
+
+  return Array.from(rows.values())
+    .map(row => ({
+      ...row,
+      is_mismatch: row.replay_quantity !== row.closing_quantity || row.replay_quantity !== row.status_quantity,
+    }))
+    // Positions that are empty everywhere carry no information
+    .filter(row => row.replay_quantity !== 0 || row.closing_quantity !== 0 || row.status_quantity !== 0)
+    .sort((a, b) => a.product_name.localeCompare(b.product_name) || a.batch_number.localeCompare(b.batch_number));
+}
+
+/**
+ * Checks whether a transaction moves stock into or out of the given location
+ */
+export function transactionTouchesLocation(transaction: StockTransactionRow, locationType: string, locationId: string) {
+  if (locationType === 'GODOWN') {
+    return transaction.location_type_source === 'GODOWN' ||
+      transaction.location_type_destination === 'GODOWN' ||
+      transaction.transaction_type.endsWith('_GODOWN');
+  }
+
+  return (transaction.location_type_source === 'MR' && transaction.location_id_source === locationId) ||
+    (transaction.location_type_destination === 'MR' && transaction.location_id_destination === locationId);
+}
+
+/**
+ * Fetches the transactions behind one reconciled position, oldest first
+ */
+export async function fetchPositionTransactions(row: ReconciliationRow): Promise<StockTransactionRow[]> {
+  const transactions = await fetchAllPages<StockTransactionRow>((from, to) => supabase
+    .from('stock_transactions_view')
+    .select('*')
+    .eq('product_id', row.product_id)
+    .eq('batch_id', row.batch_id)
+    .order('transaction_date')
+    .order('created_at')
+    .order('transaction_id')
+    .range(from, to));
+
+  return transactions.filter(tx => transactionTouchesLocation(tx, row.location_type, row.location_id));
+}
+
+/**
+ * Replays one batch's transactions and compares every location's balance with closing_stock.
+ * Run after a movement is edited in place, so a trigger that missed the edit is noticed.
+ */
+export async function findBatchMismatches(productId: string, batchId: string): Promise<PositionMismatch[]> {
+  const [transactions, closingRows] = await Promise.all([
+    fetchAllPages<Transaction>((from, to) => supabase
+      .from('stock_transactions_view')
+      .select('*')
+      .eq('product_id', productId)
+      .eq('batch_id', batchId)
+      .order('transaction_id')
+      .range(from, to)),
+    fetchAllPages<Tables<'closing_stock_view'>>((from, to) => supabase
+      .from('closing_stock_view')
+      .select('*')
+      .eq('product_id', productId)
+      .eq('batch_id', batchId)
+      .order('id')
+      .range(from, to)),
+  ]);
+
+  const positions = new Map<string, PositionMismatch>();
+  const getPosition = (locationType: string, locationId: string | null) => {
+    const key = positionKey(productId, batchId, locationType, locationId);
+    if (!positions.has(key)) {
+      positions.set(key, {
+        location_type: locationType,
+        location_id: locationType === 'GODOWN' ? '' : locationId || '',
+        replay_quantity: 0,
+        closing_quantity: 0,
+      });
+    }
+    return positions.get(key)!;
+  };
+
+  transactions.forEach(transaction => {
+    getTransactionEffects(transaction).forEach(effect => {
+      getPosition(effect.location_type, effect.location_id).replay_quantity += effect.quantity_strips;
+    });
+  });
+
+  closingRows.forEach(row => {
+    getPosition(row.location_type, row.location_id).closing_quantity += row.quantity_strips;
+  });
+
+  return Array.from(positions.values())
+    .filter(position => position.replay_quantity !== position.closing_quantity);
+}
+
+/**
+ * Rebuilds closing_stock from the full transaction history
+ */
+export async function rebuildClosingStock() {
+  const { error } = await supabase.rpc('rebuild_closing_stock');
+  if (error) {
+    console.error('Error rebuilding closing stock:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,269 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAllPages, getTransactionEffects, matchesLocationFilter } from '@/lib/stockCalculations';
+import {
+  StockStatementDocument,
+  StockStatementFilters,
+  StockStatementRow,
+  StockStatementTotals,
+  Transaction,
+} from '@/types/stock';
+
+type StatementTransaction = Transaction & {
+  transaction_group_id: string;
+  reference_document_type: string | null;
+};
+
+export type TransactionGroupLine = Tables<'stock_transactions_view'> & {
+  product_name: string;
+  product_code: string;
+  batch_number: string;
+};
+
+type StatementColumn = 'opening_quantity' | 'purchases' | 'dispatches' | 'direct_sales' |
+  'mr_sales' | 'returns' | 'write_offs' | 'replacements' | 'supplier_returns';
+
+/**
+ * Maps a transaction type to the statement column its movement is reported under
+ */
+export function getStatementColumn(transactionType: string): StatementColumn | null {
+  if (transactionType === 'STOCK_IN_GODOWN') return 'purchases';
+  if (transactionType === 'DISPATCH_TO_MR') return 'dispatches';
+  if (transactionType === 'SALE_DIRECT_GODOWN') return 'direct_sales';
+  if (transactionType === 'SALE_BY_MR') return 'mr_sales';
+  if (transactionType.startsWith('RETURN_TO_')) return 'returns';
+  if (transactionType.startsWith('ADJUST_DAMAGE_') ||
+      transactionType.startsWith('ADJUST_LOSS_') ||
+      transactionType.startsWith('ADJUST_EXPIRED_')) return 'write_offs';
+  if (transactionType.startsWith('REPLACEMENT_FROM_')) return 'replacements';
+  if (transactionType.startsWith('PURCHASE_RETURN_')) return 'supplier_returns';
+  if (transactionType.startsWith('OPENING_STOCK_')) return 'opening_quantity';
+  return null;
+}
+
+/**
+ * Builds the stock statement for a period: per product, batch and location, the opening
+ * balance, each kind of movement inside the period, and the closing balance and value.
+ *
+ * Movements are signed from the location's point of view, so a dispatch reduces the
+ * godown row and increases the MR row. Opening stock entries dated inside the period
+ * are reported as opening quantity rather than as a movement.
+ */
+export async function calculateStockStatement(filters: StockStatementFilters): Promise<StockStatementRow[]> {
+  const [products, batches] = await Promise.all([
+    fetchAllPages<{ id: string; product_name: string; product_code: string }>((from, to) => supabase
+      .from('products')
+      .select('id, product_name, product_code')
+      .order('id')
+      .range(from, to)),
+    fetchAllPages<{ id: string; batch_number: string; expiry_date: string }>((from, to) => supabase
+      .from('product_batches')
+      .select('id, batch_number, expiry_date')
+      .order('id')
+      .range(from, to)),
+  ]);
+
+  const productSearch = filters.productFilter.toLowerCase();
+  const matchingProducts = productSearch
+    ? products.filter(product =>
+        product.product_name.toLowerCase().includes(productSearch) ||
+        product.product_code.toLowerCase().includes(productSearch))
+    : products;
+  const batchSearch = filters.batchFilter.toLowerCase();
+  const matchingBatches = batchSearch
+    ? batches.filter(batch => batch.batch_number.toLowerCase().includes(batchSearch))
+    : batches;
+
+  if (matchingProducts.length === 0 || matchingBatches.length === 0) {
+    return [];
+  }
+
+  const productMap = new Map(matchingProducts.map(product => [product.id, product]));
+  const batchMap = new Map(matchingBatches.map(batch => [batch.id, batch]));
+
+  const periodStart = filters.fromDate ? new Date(`${filters.fromDate}T00:00:00`) : null;
+  const periodEnd = filters.toDate ? new Date(`${filters.toDate}T23:59:59.999`) : null;
+
+  // Everything up to the end of the period is needed: earlier rows make up the opening balance
+  const transactions = await fetchAllPages<StatementTransaction>((from, to) => supabase
+    .rpc('search_stock_transactions', {
+      p_product_search: filters.productFilter || null,
+      p_batch_search: filters.batchFilter || null,
+      p_to: periodEnd ? periodEnd.toISOString() : null,
+    })
+    .select(`
+      transaction_group_id,
+      reference_document_type,
+      product_id,
+      batch_id,
+      transaction_type,
+      quantity_strips,
+      location_type_source,
+      location_id_source,
+      location_type_destination,
+      location_id_destination,
+      cost_per_strip_at_transaction,
+      transaction_date
+    `)
+    .order('transaction_date')
+    .order('created_at')
+    .order('transaction_id')
+    .range(from, to));
+
+  const rows = new Map<string, StockStatementRow>();
+
+  transactions.forEach(transaction => {
+    const product = productMap.get(transaction.product_id);
+    const batch = batchMap.get(transaction.batch_id);
+    if (!product || !batch) return;
+
+    const column = getStatementColumn(transaction.transaction_type);
+    const isBeforePeriod = !!periodStart && new Date(transaction.transaction_date) < periodStart;
+
+    getTransactionEffects(transaction).forEach(effect => {
+      if (!matchesLocationFilter(effect.location_type, effect.location_id, filters.locationFilter)) {
+        return;
+      }
+
+      const key = `${transaction.product_id}_${transaction.batch_id}_${effect.location_type}_${effect.location_id}`;
+      if (!rows.has(key)) {
+        rows.set(key, {
+          key,
+          product_id: product.id,
+          product_name: product.product_name,
+          product_code: product.product_code,
+          batch_id: batch.id,
+          batch_number: batch.batch_number,
+          expiry_date: batch.expiry_date,
+          location_type: effect.location_type,
+          location_id: effect.location_id,
+          opening_quantity: 0,
+          purchases: 0,
+          dispatches: 0,
+          direct_sales: 0,
+          mr_sales: 0,
+          returns: 0,
+          write_offs: 0,
+          replacements: 0,
+          supplier_returns: 0,
+          closing_quantity: 0,
+          cost_per_strip: transaction.cost_per_strip_at_transaction,
+          closing_value: 0,
+          documents: [],
+        });
+      }
+
+      const row = rows.get(key)!;
+      row.closing_quantity += effect.quantity_strips;
+      if (effect.quantity_strips > 0) {
+        row.cost_per_strip = transaction.cost_per_strip_at_transaction;
+      }
+
+      if (isBeforePeriod) {
+        row.opening_quantity += effect.quantity_strips;
+        return;
+      }
+
+      if (column) {
+        row[column] += effect.quantity_strips;
+      }
+
+      const document: StockStatementDocument = {
+        transaction_group_id: transaction.transaction_group_id,
+        reference_document_type: transaction.reference_document_type || '',
+        transaction_type: transaction.transaction_type,
+        transaction_date: transaction.transaction_date,
+        quantity_strips: effect.quantity_strips,
+      };
+      row.documents.push(document);
+    });
+  });
+
+  return Array.from(rows.values())
+    .map(row => ({
+      ...row,
+      closing_value: row.closing_quantity * row.cost_per_strip,
+    }))
+    // Positions with nothing on hand and no movement in the period add nothing to the statement
+    .filter(row => row.opening_quantity !== 0 || row.closing_quantity !== 0 || row.documents.length > 0)
+    .sort((a, b) =>
+      a.product_name.localeCompare(b.product_name) ||
+      a.batch_number.localeCompare(b.batch_number) ||
+      a.location_type.localeCompare(b.location_type) ||
+      a.location_id.localeCompare(b.location_id));
+}
+
+/**
+ * Sums the quantity and value columns of a stock statement
+ */
+export function calculateStockStatementTotals(rows: StockStatementRow[]): StockStatementTotals {
+  return rows.reduce<StockStatementTotals>((totals, row) => ({
+    opening_quantity: totals.opening_quantity + row.opening_quantity,
+    purchases: totals.purchases + row.purchases,
+    dispatches: totals.dispatches + row.dispatches,
+    direct_sales: totals.direct_sales + row.direct_sales,
+    mr_sales: totals.mr_sales + row.mr_sales,
+    returns: totals.returns + row.returns,
+    write_offs: totals.write_offs + row.write_offs,
+    replacements: totals.replacements + row.replacements,
+    supplier_returns: totals.supplier_returns + row.supplier_returns,
+    closing_quantity: totals.closing_quantity + row.closing_quantity,
+    closing_value: totals.closing_value + row.closing_value,
+  }), {
+    opening_quantity: 0,
+    purchases: 0,
+    dispatches: 0,
+    direct_sales: 0,
+    mr_sales: 0,
+    returns: 0,
+    write_offs: 0,
+    replacements: 0,
+    supplier_returns: 0,
+    closing_quantity: 0,
+    closing_value: 0,
+  });
+}
+
+/**
+ * Fetches every line of one stock document (purchase, sale or adjustment group),
+ * with product and batch names for display
+ */
+export async function fetchTransactionGroup(transactionGroupId: string): Promise<TransactionGroupLine[]> {
+  const { data, error } = await supabase
+    .from('stock_transactions_view')
+    .select('*')
+    .eq('transaction_group_id', transactionGroupId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching transaction group:', error);
+    throw error;
+  }
+
+  const lines = data || [];
+  if (lines.length === 0) return [];
+
+  const [productsResult, batchesResult] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, product_name, product_code')
+      .in('id', [...new Set(lines.map(line => line.product_id))]),
+    supabase
+      .from('product_batches')
+      .select('id, batch_number')
+      .in('id', [...new Set(lines.map(line => line.batch_id))]),
+  ]);
+
+  if (productsResult.error) throw productsResult.error;
+  if (batchesResult.error) throw batchesResult.error;
+
+  const productMap = new Map((productsResult.data || []).map(product => [product.id, product]));
+  const batchMap = new Map((batchesResult.data || []).map(batch => [batch.id, batch]));
+
+  return lines.map(line => ({
+    ...line,
+    product_name: productMap.get(line.product_id)?.product_name || 'Unknown product',
+    product_code: productMap.get(line.product_id)?.product_code || '',
+    batch_number: batchMap.get(line.batch_id)?.batch_number || 'Unknown batch',
+  }));
+}
@@ -0,0 +1,187 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type SupplierReturn = Tables<'supplier_returns'>;
+
+export type SupplierReturnWithSupplier = SupplierReturn & {
+  suppliers: Pick<Tables<'suppliers'>, 'supplier_name' | 'supplier_code' | 'contact_person' | 'phone' | 'email' | 'address'> | null;
+};
+
+export type SupplierReturnLine = Tables<'stock_adjustments'> & {
+  products: { product_name: string; product_code: string } | null;
+  product_batches: { batch_number: string; expiry_date: string | null } | null;
+};
+
+export interface GodownBatchStock {
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+}
+
+export interface SupplierReturnLineInput {
+  product_id: string;
+  batch_id: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+  notes: string;
+}
+
+interface CreateSupplierReturnInput {
+  supplierId: string;
+  returnDate: string;
+  originalPurchaseGroupId: string | null;
+  originalReferenceDocumentId: string | null;
+  reason: string;
+  notes: string;
+  lines: SupplierReturnLineInput[];
+}
+
+/**
+ * Fetches godown stock per batch, for either one product or a set of batches
+ */
+export async function fetchGodownBatchStock(filter: { productId?: string; batchIds?: string[] }): Promise<GodownBatchStock[]> {
+  let query = supabase
+    .from('closing_stock_view')
+    .select('product_id, product_name, product_code, batch_id, batch_number, expiry_date, quantity_strips, cost_per_strip')
+    .eq('location_type', 'GODOWN')
+    .gt('quantity_strips', 0);
+
+  if (filter.productId) {
+    query = query.eq('product_id', filter.productId);
+  }
+  if (filter.batchIds) {
+    if (filter.batchIds.length === 0) return [];
+    query = query.in('batch_id', filter.batchIds);
+  }
+
+  const { data, error } = await query.order('expiry_date').order('batch_number');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Finds the GRN references each batch was received under from a supplier
+ */
+export async function fetchBatchGrnReferences(supplierId: string, batchIds: string[]): Promise<Map<string, string[]>> {
+  const references = new Map<string, string[]>();
+  if (batchIds.length === 0) return references;
+
+  const { data, error } = await supabase
+    .from('stock_purchases')
+    .select('batch_id, reference_document_id')
+    .eq('supplier_id', supplierId)
+    .in('batch_id', batchIds)
+    .order('purchase_date');
+  if (error) throw error;
+
+  (data || []).forEach(row => {
+    if (!row.reference_document_id) return;
+    const batchReferences = references.get(row.batch_id) || [];
+    if (!batchReferences.includes(row.reference_document_id)) {
+      batchReferences.push(row.reference_document_id);
+    }
+    references.set(row.batch_id, batchReferences);
+  });
+
+  return references;
+}
+
+/**
+ * Finds the supplier a batch was most recently received from, if any
+ */
+export async function fetchBatchSupplierId(batchId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('stock_purchases')
+    .select('supplier_id')
+    .eq('batch_id', batchId)
+    .not('supplier_id', 'is', null)
+    .order('purchase_date', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+
+  return data?.[0]?.supplier_id || null;
+}
+
+/**
+ * Creates a debit note and posts one PURCHASE_RETURN_GODOWN adjustment per line, all or nothing.
+ * The database rejects returns exceeding godown stock.
+ */
+export async function createSupplierReturn(input: CreateSupplierReturnInput): Promise<SupplierReturn> {
+  const { data: supplierReturnId, error } = await supabase.rpc('create_supplier_return', {
+    p_supplier_id: input.supplierId,
+    p_return_date: input.returnDate,
+    p_original_purchase_group_id: input.originalPurchaseGroupId,
+    p_original_reference_document_id: input.originalReferenceDocumentId,
+    p_reason: input.reason,
+    p_notes: input.notes || null,
+    p_lines: input.lines.map(line => ({
+      product_id: line.product_id,
+      batch_id: line.batch_id,
+      quantity_strips: line.quantity_strips,
+      cost_per_strip: line.cost_per_strip,
+      notes: line.notes || null,
+    })),
+  });
+  if (error) throw error;
+
+  return fetchSupplierReturn(supplierReturnId);
+}
+
+/**
+ * Fetches a debit note with the supplier's contact details
+ */
+export async function fetchSupplierReturn(id: string): Promise<SupplierReturnWithSupplier> {
+  const { data, error } = await supabase
+    .from('supplier_returns')
+    .select(`
+      *,
+      suppliers:supplier_id(supplier_name, supplier_code, contact_person, phone, email, address)
+    `)
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+
+  return data as SupplierReturnWithSupplier;
+}
+
+/**
+ * Fetches the stock lines posted under a debit note
+ */
+export async function fetchSupplierReturnLines(supplierReturnId: string): Promise<SupplierReturnLine[]> {
+  const { data, error } = await supabase
+    .from('stock_adjustments')
+    .select(`
+      *,
+      products:product_id(product_name, product_code),
+      product_batches:batch_id(batch_number, expiry_date)
+    `)
+    .eq('supplier_return_id', supplierReturnId)
+    .order('created_at');
+  if (error) throw error;
+
+  return (data || []) as SupplierReturnLine[];
+}
+
+/**
+ * Lists recent debit notes, latest first
+ */
+export async function fetchSupplierReturns(limit = 20): Promise<SupplierReturnWithSupplier[]> {
+  const { data, error } = await supabase
+    .from('supplier_returns')
+    .select(`
+      *,
+      suppliers:supplier_id(supplier_name, supplier_code, contact_person, phone, email, address)
+    `)
+    .order('return_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  return (data || []) as SupplierReturnWithSupplier[];
+}
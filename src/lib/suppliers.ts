@@ -0,0 +1,280 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/stockCalculations';
+import {
+  GenericSupplierPrice,
+  SupplierGrn,
+  SupplierMonthlyPurchase,
+  SupplierProductCost,
+  SupplierPurchaseLine,
+} from '@/types/stock';
+
+export type UnmatchedSupplierPurchases = Tables<'unmatched_supplier_purchases_view'>;
+
+export interface SupplierPurchaseSummary {
+  purchases: number;
+  last_purchase_date: string;
+}
+
+interface PurchaseRow {
+  purchase_id: string;
+  purchase_group_id: string;
+  reference_document_id: string | null;
+  purchase_date: string;
+  product_id: string;
+  batch_id: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+  products: { product_name: string; product_code: string; generic_name: string } | null;
+  product_batches: { batch_number: string; expiry_date: string | null } | null;
+}
+
+const getMonth = (date: string) => date.slice(0, 7);
+
+/**
+ * Fetches purchase history whose old supplier text could not be matched to a supplier
+ */
+export async function fetchUnmatchedSupplierPurchases(): Promise<UnmatchedSupplierPurchases[]> {
+  const { data, error } = await supabase
+    .from('unmatched_supplier_purchases_view')
+    .select('*')
+    .order('last_purchase_date', { ascending: false });
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Links every unmatched purchase carrying the given old supplier text to a supplier
+ */
+export async function assignSupplierToLegacyPurchases(legacySupplierName: string, supplierId: string) {
+  const { error } = await supabase
+    .from('stock_purchases')
+    .update({ supplier_id: supplierId, legacy_supplier_name: null })
+    .eq('legacy_supplier_name', legacySupplierName)
+    .is('supplier_id', null);
+  if (error) throw error;
+}
+
+/**
+ * Counts purchases (GRNs) and finds the latest purchase date per supplier
+ */
+export async function fetchSupplierPurchaseSummary(): Promise<Map<string, SupplierPurchaseSummary>> {
+  const rows = await fetchAllPages<{ supplier_id: string; purchase_group_id: string; purchase_date: string }>(
+    (from, to) => supabase
+      .from('stock_purchases')
+      .select('supplier_id, purchase_group_id, purchase_date')
+      .not('supplier_id', 'is', null)
+      .order('purchase_id')
+      .range(from, to)
+  );
+
+  const groups = new Map<string, Set<string>>();
+  const summary = new Map<string, SupplierPurchaseSummary>();
+  rows.forEach(row => {
+    const supplierGroups = groups.get(row.supplier_id) || new Set<string>();
+    supplierGroups.add(row.purchase_group_id);
+    groups.set(row.supplier_id, supplierGroups);
+
+    const current = summary.get(row.supplier_id);
+    summary.set(row.supplier_id, {
+      purchases: supplierGroups.size,
+      last_purchase_date: current && current.last_purchase_date > row.purchase_date
+        ? current.last_purchase_date
+        : row.purchase_date,
+    });
+  });
+
+  return summary;
+}
+
+/**
+ * Fetches every GRN line received from a supplier, oldest first
+ */
+export async function fetchSupplierPurchases(supplierId: string): Promise<SupplierPurchaseLine[]> {
+  const rows = await fetchAllPages<PurchaseRow>((from, to) => supabase
+    .from('stock_purchases')
+    .select(`
+      purchase_id,
+      purchase_group_id,
+      reference_document_id,
+      purchase_date,
+      product_id,
+      batch_id,
+      quantity_strips,
+      cost_per_strip,
+      products:product_id(product_name, product_code, generic_name),
+      product_batches:batch_id(batch_number, expiry_date)
+    `)
+    .eq('supplier_id', supplierId)
+    .order('purchase_date')
+    .order('purchase_id')
+    .range(from, to));
+
+  return rows.map(row => ({
+    purchase_id: row.purchase_id,
+    purchase_group_id: row.purchase_group_id,
+    reference_document_id: row.reference_document_id,
+    purchase_date: row.purchase_date,
+    product_id: row.product_id,
+    product_name: row.products?.product_name || '',
+    product_code: row.products?.product_code || '',
+    generic_name: row.products?.generic_name || '',
+    batch_id: row.batch_id,
+    batch_number: row.product_batches?.batch_number || '',
+    expiry_date: row.product_batches?.expiry_date || null,
+    quantity_strips: row.quantity_strips,
+    cost_per_strip: Number(row.cost_per_strip),
+  }));
+}
+
+/**
+ * Groups GRN lines into GRNs, latest first
+ */
+export function getSupplierGrns(lines: SupplierPurchaseLine[]): SupplierGrn[] {
+  const grns = new Map<string, SupplierGrn>();
+  lines.forEach(line => {
+    const grn = grns.get(line.purchase_group_id) || {
+      purchase_group_id: line.purchase_group_id,
+      reference_document_id: line.reference_document_id,
+      purchase_date: line.purchase_date,
+      lines: 0,
+      quantity_strips: 0,
+      value: 0,
+    };
+    grn.lines += 1;
+    grn.quantity_strips += line.quantity_strips;
+    grn.value += line.quantity_strips * line.cost_per_strip;
+    grns.set(line.purchase_group_id, grn);
+  });
+
+  return Array.from(grns.values()).sort((a, b) => b.purchase_date.localeCompare(a.purchase_date));
+}
+
+/**
+ * Totals GRNs, strips and purchase value per calendar month, latest first
+ */
+export function summarizePurchasesByMonth(lines: SupplierPurchaseLine[]): SupplierMonthlyPurchase[] {
+  const months = new Map<string, SupplierMonthlyPurchase & { groups: Set<string> }>();
+  lines.forEach(line => {
+    const month = getMonth(line.purchase_date);
+    const summary = months.get(month) || { month, grns: 0, quantity_strips: 0, value: 0, groups: new Set<string>() };
+    summary.groups.add(line.purchase_group_id);
+    summary.quantity_strips += line.quantity_strips;
+    summary.value += line.quantity_strips * line.cost_per_strip;
+    months.set(month, summary);
+  });
+
+  return Array.from(months.values())
+    .map(({ groups, ...summary }) => ({ ...summary, grns: groups.size }))
+    .sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/**
+ * Per product: strips and value supplied, average and last cost per strip, batches and
+ * the average cost in each month it was bought
+ */
+export function summarizeProductCosts(lines: SupplierPurchaseLine[]): SupplierProductCost[] {
+  const products = new Map<string, SupplierProductCost & { months: Map<string, { strips: number; value: number }> }>();
+
+  lines.forEach(line => {
+    const product = products.get(line.product_id) || {
+      product_id: line.product_id,
+      product_name: line.product_name,
+      product_code: line.product_code,
+      generic_name: line.generic_name,
+      quantity_strips: 0,
+      value: 0,
+      average_cost_per_strip: 0,
+      last_cost_per_strip: line.cost_per_strip,
+      last_purchase_date: line.purchase_date,
+      batches: [],
+      monthly_costs: [],
+      months: new Map(),
+    };
+
+    product.quantity_strips += line.quantity_strips;
+    product.value += line.quantity_strips * line.cost_per_strip;
+    if (line.purchase_date >= product.last_purchase_date) {
+      product.last_purchase_date = line.purchase_date;
+      product.last_cost_per_strip = line.cost_per_strip;
+    }
+    if (line.batch_number && !product.batches.includes(line.batch_number)) {
+      product.batches.push(line.batch_number);
+    }
+
+    const month = getMonth(line.purchase_date);
+    const monthTotals = product.months.get(month) || { strips: 0, value: 0 };
+    monthTotals.strips += line.quantity_strips;
+    monthTotals.value += line.quantity_strips * line.cost_per_strip;
+    product.months.set(month, monthTotals);
+
+    products.set(line.product_id, product);
+  });
+
+  return Array.from(products.values())
+    .map(({ months, ...product }) => ({
+      ...product,
+      average_cost_per_strip: product.quantity_strips ? product.value / product.quantity_strips : 0,
+      monthly_costs: Array.from(months.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, totals]) => ({
+          month,
+          average_cost_per_strip: totals.strips ? totals.value / totals.strips : 0,
+        })),
+    }))
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Compares what every supplier has charged per strip for products of one generic, cheapest first
+ */
+export async function fetchGenericSupplierPrices(genericName: string): Promise<GenericSupplierPrice[]> {
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id')
+    .eq('generic_name', genericName);
+  if (error) throw error;
+  if (!products?.length) return [];
+
+  const rows = await fetchAllPages<{
+    supplier_id: string;
+    purchase_date: string;
+    quantity_strips: number;
+    cost_per_strip: number;
+    suppliers: { supplier_name: string } | null;
+  }>((from, to) => supabase
+    .from('stock_purchases')
+    .select('supplier_id, purchase_date, quantity_strips, cost_per_strip, suppliers:supplier_id(supplier_name)')
+    .in('product_id', products.map(product => product.id))
+    .not('supplier_id', 'is', null)
+    .order('purchase_date')
+    .order('purchase_id')
+    .range(from, to));
+
+  const prices = new Map<string, GenericSupplierPrice & { value: number }>();
+  rows.forEach(row => {
+    const price = prices.get(row.supplier_id) || {
+      supplier_id: row.supplier_id,
+      supplier_name: row.suppliers?.supplier_name || '',
+      quantity_strips: 0,
+      average_cost_per_strip: 0,
+      last_cost_per_strip: 0,
+      last_purchase_date: row.purchase_date,
+      value: 0,
+    };
+    price.quantity_strips += row.quantity_strips;
+    price.value += row.quantity_strips * Number(row.cost_per_strip);
+    // Rows are oldest first, so the last one seen is the latest price
+    price.last_cost_per_strip = Number(row.cost_per_strip);
+    price.last_purchase_date = row.purchase_date;
+    prices.set(row.supplier_id, price);
+  });
+
+  return Array.from(prices.values())
+    .map(({ value, ...price }) => ({
+      ...price,
+      average_cost_per_strip: price.quantity_strips ? value / price.quantity_strips : 0,
+    }))
+    .sort((a, b) => a.average_cost_per_strip - b.average_cost_per_strip);
+}
@@ -0,0 +1,156 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Territory = Tables<'territories'>;
+export type TerritoryLevel = 'Zone' | 'Region' | 'HQ' | 'Territory';
+
+export interface TerritoryInput {
+  territory_name: string;
+  territory_code: string;
+  level: TerritoryLevel;
+  parent_id: string;
+  is_active: boolean;
+}
+
+/** A territory with its depth, listed in tree order */
+export interface TerritoryTreeNode {
+  territory: Territory;
+  depth: number;
+}
+
+export const TERRITORY_LEVELS: TerritoryLevel[] = ['Zone', 'Region', 'HQ', 'Territory'];
+
+// Report and list location filters use AREA_<territory id> for a territory rollup
+export const AREA_FILTER_PREFIX = 'AREA_';
+
+/**
+ * The level a territory's parent must have, or null for zones
+ */
+export function getParentLevel(level: TerritoryLevel): TerritoryLevel | null {
+  const index = TERRITORY_LEVELS.indexOf(level);
+  return index > 0 ? TERRITORY_LEVELS[index - 1] : null;
+}
+
+/**
+ * Fetches all territories by name
+ */
+export async function fetchTerritories(): Promise<Territory[]> {
+  const { data, error } = await supabase
+    .from('territories')
+    .select('*')
+    .order('territory_name');
+  if (error) throw error;
+
+  return data || [];
+}
+
+/**
+ * Creates a territory, or updates it when an id is given
+ */
+export async function saveTerritory(input: TerritoryInput, id?: string): Promise<Territory> {
+  const territory = {
+    territory_name: input.territory_name.trim(),
+    territory_code: input.territory_code.trim().toUpperCase() || null,
+    level: input.level,
+    parent_id: input.parent_id || null,
+    is_active: input.is_active,
+  };
+
+  const { data, error } = id
+    ? await supabase.from('territories').update(territory).eq('id', id).select().single()
+    : await supabase.from('territories').insert(territory).select().single();
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Lists territories depth-first from the zones down. Nodes whose parent is missing are listed as
+ * roots so nothing disappears from the tree.
+ */
+export function buildTerritoryTree(territories: Territory[]): TerritoryTreeNode[] {
+  const ids = new Set(territories.map(territory => territory.id));
+  const children = new Map<string | null, Territory[]>();
+  territories.forEach(territory => {
+    const parentId = territory.parent_id && ids.has(territory.parent_id) ? territory.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) || []), territory]);
+  });
+
+  const nodes: TerritoryTreeNode[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    (children.get(parentId) || [])
+      .sort((a, b) =>
+        TERRITORY_LEVELS.indexOf(a.level as TerritoryLevel) - TERRITORY_LEVELS.indexOf(b.level as TerritoryLevel) ||
+        a.territory_name.localeCompare(b.territory_name))
+      .forEach(territory => {
+        nodes.push({ territory, depth });
+        visit(territory.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+
+  return nodes;
+}
+
+/**
+ * The names from the zone down to a territory, e.g. "West › Maharashtra › Pune HQ › Pune East"
+ */
+export function getTerritoryPath(territories: Territory[], territoryId: string | null | undefined): string {
+  const byId = new Map(territories.map(territory => [territory.id, territory]));
+  const names: string[] = [];
+  let current = territoryId ? byId.get(territoryId) : undefined;
+  while (current && names.length < TERRITORY_LEVELS.length) {
+    names.unshift(current.territory_name);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return names.join(' › ');
+}
+
+/**
+ * A territory and every territory below it
+ */
+export function getTerritorySubtreeIds(territories: Territory[], territoryId: string): Set<string> {
+  const subtree = new Set([territoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    territories.forEach(territory => {
+      if (territory.parent_id && subtree.has(territory.parent_id) && !subtree.has(territory.id)) {
+        subtree.add(territory.id);
+        added = true;
+      }
+    });
+  }
+  return subtree;
+}
+
+/**
+ * The users assigned anywhere under a territory, for "all MRs under Region X" rollups
+ */
+export function getUserIdsInTerritory(
+  territories: Territory[],
+  users: { user_id: string; territory_id: string | null }[],
+  territoryId: string
+): string[] {
+  const subtree = getTerritorySubtreeIds(territories, territoryId);
+  return users
+    .filter(user => user.territory_id && subtree.has(user.territory_id))
+    .map(user => user.user_id);
+}
+
+/**
+ * Resolves an AREA_<territory id> location filter to the MR locations it covers; undefined for
+ * any other filter
+ */
+export function resolveAreaFilter(
+  locationFilter: string,
+  territories: Territory[] | undefined,
+  users: { user_id: string; territory_id: string | null }[] | undefined
+): string[] | undefined {
+  if (!locationFilter.startsWith(AREA_FILTER_PREFIX)) return undefined;
+  return getUserIdsInTerritory(
+    territories || [],
+    users || [],
+    locationFilter.slice(AREA_FILTER_PREFIX.length)
+  );
+}
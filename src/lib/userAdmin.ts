@@ -0,0 +1,140 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { UserRole } from '@/lib/permissions';
+
+export type UserProfile = Tables<'profiles'>;
+export type UserStatus = 'Pending' | 'Active' | 'Deactivated';
+
+export interface UserAccount extends UserProfile {
+  last_sign_in_at: string | null;
+  email_confirmed_at: string | null;
+}
+
+export interface UserAccessInput {
+  role: UserRole;
+  territory_id: string;
+  reports_to: string;
+}
+
+export interface InvitationInput extends UserAccessInput {
+  email: string;
+  name: string;
+}
+
+export const USER_STATUS_STYLES: Record<UserStatus, string> = {
+  Pending: 'bg-amber-100 text-amber-800 border-amber-200',
+  Active: 'bg-green-100 text-green-800 border-green-200',
+  Deactivated: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+// Invitation and password emails bring the user back here to choose a password
+const SET_PASSWORD_PATH = '/auth?mode=set-password';
+
+/**
+ * Fetches every profile with its last sign-in from the auth records
+ */
+export async function fetchUserAccounts(): Promise<UserAccount[]> {
+  const [{ data: profiles, error }, { data: signIns, error: signInError }] = await Promise.all([
+    supabase.from('profiles').select('*').order('name'),
+    supabase.rpc('get_user_sign_ins'),
+  ]);
+  if (error) throw error;
+  if (signInError) throw signInError;
+
+  const signInsByUser = new Map((signIns || []).map(row => [row.user_id, row]));
+  return (profiles || []).map(profile => ({
+    ...profile,
+    last_sign_in_at: signInsByUser.get(profile.user_id)?.last_sign_in_at ?? null,
+    email_confirmed_at: signInsByUser.get(profile.user_id)?.email_confirmed_at ?? null,
+  }));
+}
+
+/**
+ * Records an invitation and emails the user a sign-in link. Sending the link creates their account,
+ * which picks up the invitation's role, territory and manager.
+ */
+export async function inviteUser(input: InvitationInput, invitedBy?: string) {
+  const email = input.email.trim().toLowerCase();
+
+  const { data: existing, error: existingError } = await supabase
+    .from('profiles')
+    .select('id')
+    .ilike('email', email)
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing) {
+    throw new Error(`${email} already has an account`);
+  }
+
+  const { data: invitation, error } = await supabase
+    .from('user_invitations')
+    .insert({
+      email,
+      name: input.name.trim(),
+      role: input.role,
+      territory_id: input.territory_id || null,
+      reports_to: input.reports_to || null,
+      invited_by: invitedBy || null,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  try {
+    await sendInvitationEmail(email, input.name.trim());
+  } catch (sendError) {
+    // Without the email no account was created, so the invitation must not linger
+    await supabase.from('user_invitations').delete().eq('id', invitation.id);
+    throw sendError;
+  }
+}
+
+/**
+ * Emails a sign-in link, which also serves to resend an invitation that was never followed
+ */
+export async function sendInvitationEmail(email: string, name: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      data: { name },
+      emailRedirectTo: `${window.location.origin}${SET_PASSWORD_PATH}`,
+    },
+  });
+  if (error) throw error;
+}
+
+/**
+ * Changes a user's role, territory and reporting manager
+ */
+export async function updateUserAccess(userId: string, input: UserAccessInput) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      role: input.role,
+      territory_id: input.territory_id || null,
+      reports_to: input.reports_to || null,
+    })
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+/**
+ * Approves, deactivates or reactivates an account. Approval times are stamped by the database.
+ */
+export async function setUserStatus(userId: string, status: UserStatus) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ status })
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+/**
+ * Emails the user a link to choose a new password
+ */
+export async function sendPasswordReset(email: string) {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: `${window.location.origin}${SET_PASSWORD_PATH}`,
+  });
+  if (error) throw error;
+}
@@ -4,3 +4,22 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Rounds an amount to whole paise
+ */
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * A date as YYYY-MM-DD in the local time zone, for date inputs and DATE columns
+ */
+export const toDateInput = (date: Date) => {
+  const offsetDate = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return offsetDate.toISOString().split("T")[0]
+}
+
+/**
+ * "₹1,23,456.00", grouped the Indian way
+ */
+export const formatRupees = (value: number, fractionDigits = 2) =>
+  `₹${value.toLocaleString("en-IN", { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })}`
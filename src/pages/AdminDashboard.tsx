@@ -1,13 +1,37 @@
 
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Users, Package, TrendingUp, Settings } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { fetchRevenue } from '@/lib/pricing';
+import { formatRupees, toDateInput } from '@/lib/utils';
 
 const AdminDashboard = () => {
-  const { profile } = useAuth();
+  const { profile, can } = useAuth();
+
+  // Revenue from priced sales this month, against the same span of last month
+  const { data: revenue } = useQuery({
+    queryKey: ['dashboard-revenue'],
+    queryFn: async () => {
+      const today = new Date();
+      const lastMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
+      const [thisMonth, lastMonth] = await Promise.all([
+        fetchRevenue(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)), toDateInput(today)),
+        fetchRevenue(
+          toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+          toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, Math.min(today.getDate(), lastMonthEnd.getDate())))
+        ),
+      ]);
+      return { thisMonth, lastMonth };
+    },
+  });
+
+  const revenueChange = revenue?.lastMonth
+    ? (revenue.thisMonth - revenue.lastMonth) / revenue.lastMonth * 100
+    : null;
 
   return (
     <div className="p-8">
@@ -47,8 +71,12 @@ const AdminDashboard = () => {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">$45,231</div>
-            <p className="text-xs text-muted-foreground">+12% from last month</p>
+            <div className="text-2xl font-bold">{revenue ? formatRupees(revenue.thisMonth, 0) : '-'}</div>
+            <p className="text-xs text-muted-foreground">
+              {revenueChange === null
+                ? 'Month to date'
+                : `${revenueChange >= 0 ? '+' : ''}${revenueChange.toFixed(1)}% from last month`}
+            </p>
           </CardContent>
         </Card>
 
@@ -78,10 +106,14 @@ const AdminDashboard = () => {
                 Manage Product Categories
               </Button>
             </Link>
-            <Button className="w-full justify-start" variant="outline">
-              <Users className="mr-2 h-4 w-4" />
-              Manage Users
-            </Button>
+            {can('manage_users') && (
+              <Link to="/admin/users">
+                <Button className="w-full justify-start" variant="outline">
+                  <Users className="mr-2 h-4 w-4" />
+                  Manage Users
+                </Button>
+              </Link>
+            )}
             <Button className="w-full justify-start" variant="outline">
               <TrendingUp className="mr-2 h-4 w-4" />
               View Reports
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import TransactionGroupDialog from '@/components/report/TransactionGroupDialog';
+import { fetchBatchLedger } from '@/lib/batchLedger';
+import { BatchLedgerEntry } from '@/types/stock';
+
+const BatchLedger = () => {
+  const { productId, batchId } = useParams();
+  const navigate = useNavigate();
+  const [locationFilter, setLocationFilter] = useState('ALL');
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+
+  // Fetch batch and product details
+  const { data: batch, isLoading: isLoadingBatch } = useQuery({
+    queryKey: ['batch', batchId],
+    queryFn: async () => {
+      if (!batchId) throw new Error('Batch ID is required');
+      const { data, error } = await supabase
+        .from('product_batches')
+        .select(`
+          id,
+          batch_number,
+          manufacturing_date,
+          expiry_date,
+          status,
+          products (
+            product_name,
+            product_code
+          )
+        `)
+        .eq('id', batchId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: entries, isLoading: isLoadingLedger } = useQuery({
+    queryKey: ['batch-ledger', batchId],
+    queryFn: () => fetchBatchLedger(batchId!),
+    enabled: !!batchId,
+  });
+
+  // Fetch MR users to label MR locations
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Fetch suppliers to label purchase sources
+  const { data: supplierNames } = useQuery({
+    queryKey: ['suppliers-lookup'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('id, supplier_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const getLocationLabel = (locationType: string | null, locationId: string | null) => {
+    if (locationType === 'SUPPLIER') {
+      const supplier = supplierNames?.find(s => s.id === locationId);
+      return `Supplier: ${supplier?.supplier_name || locationId || '-'}`;
+    }
+    if (locationType !== 'MR') return 'Godown';
+    const mr = mrUsers?.find(user => user.user_id === locationId);
+    return `MR: ${mr?.name || locationId}`;
+  };
+
+  const locationKey = (entry: BatchLedgerEntry) => `${entry.location_type}_${entry.location_id}`;
+
+  // Latest running balance at each location the batch has been held
+  const locationBalances = React.useMemo(() => {
+    const balances = new Map<string, BatchLedgerEntry>();
+    entries?.forEach(entry => balances.set(locationKey(entry), entry));
+    return Array.from(balances.values());
+  }, [entries]);
+
+  const visibleEntries = (entries || []).filter(entry =>
+    locationFilter === 'ALL' || locationKey(entry) === locationFilter
+  );
+
+  const renderDocumentLink = (entry: BatchLedgerEntry) => {
+    const label = `${entry.reference_document_type} ${entry.transaction_group_id.slice(0, 8)}`;
+    if (entry.reference_document_type === 'PURCHASE') {
+      return (
+        <Link
+          to={`/admin/stock/purchase/${entry.transaction_group_id}/view`}
+          className="font-mono text-xs text-primary underline-offset-4 hover:underline"
+        >
+          {label}
+        </Link>
+      );
+    }
+    return (
+      <Button
+        variant="link"
+        size="sm"
+        className="h-auto p-0 font-mono text-xs"
+        onClick={() => setSelectedGroupId(entry.transaction_group_id)}
+      >
+        {label}
+      </Button>
+    );
+  };
+
+  if (isLoadingBatch) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p>Loading batch...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!batch) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-red-600">Batch not found.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const product = Array.isArray(batch.products) ? batch.products[0] : batch.products;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" onClick={() => navigate(`/admin/products/${productId}/batches`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Batches
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Batch Ledger: {batch.batch_number}
+          </h1>
+          <p className="text-gray-600 mt-1">
+            {product?.product_name} ({product?.product_code}) | Mfg: {new Date(batch.manufacturing_date).toLocaleDateString()} |
+            Exp: {new Date(batch.expiry_date).toLocaleDateString()} | Status: {batch.status}
+          </p>
+        </div>
+      </div>
+
+      {/* Current holdings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Current Holdings</CardTitle>
+          <CardDescription>Balance of this batch at every location it has been held</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {locationBalances.length === 0 ? (
+            <p className="text-sm text-gray-500">This batch has no stock movements yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-3">
+              {locationBalances.map(entry => (
+                <div key={locationKey(entry)} className="rounded-lg border px-4 py-2">
+                  <div className="text-sm text-gray-600">{getLocationLabel(entry.location_type, entry.location_id)}</div>
+                  <div className="text-xl font-bold font-mono">{entry.location_balance} strips</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-lg font-semibold">Movements</CardTitle>
+            <CardDescription>
+              Every purchase, dispatch, sale, return and adjustment of this batch in date order
+            </CardDescription>
+          </div>
+          <Select value={locationFilter} onValueChange={setLocationFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">All Locations</SelectItem>
+              {locationBalances.map(entry => (
+                <SelectItem key={locationKey(entry)} value={locationKey(entry)}>
+                  {getLocationLabel(entry.location_type, entry.location_id)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoadingLedger ? (
+            <div className="text-center py-8 text-gray-500">Loading ledger...</div>
+          ) : visibleEntries.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No movements found.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Document</TableHead>
+                    <TableHead className="text-right">In</TableHead>
+                    <TableHead className="text-right">Out</TableHead>
+                    <TableHead className="text-right">Location Balance</TableHead>
+                    <TableHead className="text-right">Batch Balance</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleEntries.map(entry => (
+                    <TableRow key={entry.key}>
+                      <TableCell className="text-sm">{new Date(entry.transaction_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{entry.transaction_type.replace(/_/g, ' ')}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{getLocationLabel(entry.location_type, entry.location_id)}</TableCell>
+                      <TableCell>{renderDocumentLink(entry)}</TableCell>
+                      <TableCell className="text-right font-mono text-green-700">
+                        {entry.quantity_strips > 0 ? entry.quantity_strips : ''}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-red-600">
+                        {entry.quantity_strips < 0 ? -entry.quantity_strips : ''}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{entry.location_balance}</TableCell>
+                      <TableCell className="text-right font-mono font-semibold">{entry.batch_balance}</TableCell>
+                      <TableCell className="max-w-xs truncate text-sm text-gray-600">{entry.notes || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <TransactionGroupDialog
+        transactionGroupId={selectedGroupId}
+        onOpenChange={(open) => !open && setSelectedGroupId(null)}
+        getLocationLabel={getLocationLabel}
+      />
+    </div>
+  );
+};
+
+export default BatchLedger;
@@ -0,0 +1,603 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ArrowLeft, CheckCircle, Printer, Undo2, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  cancelRecall,
+  completeRecall,
+  fetchRecallAdjustments,
+  fetchRecallCustomers,
+  fetchRecallHoldings,
+  postRecallReturn,
+  writeOffRecalledStock,
+} from '@/lib/batchRecalls';
+
+interface RecallAction {
+  kind: 'RETURN' | 'WRITE_OFF';
+  sourceType: 'GODOWN' | 'MR' | 'CUSTOMER';
+  sourceId: string;
+  label: string;
+  maxQuantity: number | null;
+}
+
+const BatchRecallDetail = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const [action, setAction] = useState<RecallAction | null>(null);
+  const [actionQuantity, setActionQuantity] = useState('');
+  const [actionNotes, setActionNotes] = useState('');
+  const [confirm, setConfirm] = useState<'COMPLETE' | 'CANCEL' | null>(null);
+
+  // Fetch the recall with product and batch details
+  const { data: recall, isLoading } = useQuery({
+    queryKey: ['batch-recall', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_recalls')
+        .select(`
+          *,
+          products (
+            product_name,
+            product_code,
+            base_cost_per_strip
+          ),
+          product_batches (
+            batch_number,
+            manufacturing_date,
+            expiry_date,
+            batch_cost_per_strip
+          )
+        `)
+        .eq('id', id!)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: holdings } = useQuery({
+    queryKey: ['recall-holdings', recall?.batch_id],
+    queryFn: () => fetchRecallHoldings(recall!.batch_id),
+    enabled: !!recall,
+  });
+
+  const { data: customers } = useQuery({
+    queryKey: ['recall-customers', recall?.batch_id, recall?.id],
+    queryFn: () => fetchRecallCustomers(recall!.batch_id, recall!.id),
+    enabled: !!recall,
+  });
+
+  const { data: adjustments } = useQuery({
+    queryKey: ['recall-adjustments', recall?.id],
+    queryFn: () => fetchRecallAdjustments(recall!.id),
+    enabled: !!recall,
+  });
+
+  // Fetch MR users to label MR locations
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const getMrName = (mrId: string | null) => mrUsers?.find(user => user.user_id === mrId)?.name || mrId || '-';
+
+  const refreshRecall = () => {
+    queryClient.invalidateQueries({ queryKey: ['batch-recall', id] });
+    queryClient.invalidateQueries({ queryKey: ['batch-recalls'] });
+    queryClient.invalidateQueries({ queryKey: ['recall-holdings'] });
+    queryClient.invalidateQueries({ queryKey: ['recall-customers'] });
+    queryClient.invalidateQueries({ queryKey: ['recall-adjustments'] });
+    queryClient.invalidateQueries({ queryKey: ['closing-stock'] });
+    queryClient.invalidateQueries({ queryKey: ['closing-stock-summary'] });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      if (!recall || !action) return;
+      const quantity = parseInt(actionQuantity, 10);
+      if (action.kind === 'WRITE_OFF') {
+        await writeOffRecalledStock(recall, quantity);
+      } else {
+        await postRecallReturn(recall, {
+          sourceType: action.sourceType as 'MR' | 'CUSTOMER',
+          sourceId: action.sourceId,
+          quantityStrips: quantity,
+          notes: actionNotes,
+        });
+      }
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: action?.kind === 'WRITE_OFF' ? "Recalled stock written off." : "Recall return posted.",
+      });
+      refreshRecall();
+      setAction(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to post recall document.",
+        variant: "destructive",
+      });
+      console.error('Error posting recall document:', error);
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (kind: 'COMPLETE' | 'CANCEL') => {
+      if (!recall) return;
+      if (kind === 'COMPLETE') {
+        await completeRecall(recall, profile?.user_id);
+      } else {
+        await cancelRecall(recall);
+      }
+    },
+    onSuccess: (_, kind) => {
+      toast({
+        title: "Success",
+        description: kind === 'COMPLETE' ? "Recall completed." : "Recall cancelled and batch status restored.",
+      });
+      refreshRecall();
+      setConfirm(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update recall.",
+        variant: "destructive",
+      });
+      console.error('Error updating recall:', error);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p>Loading recall...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!recall) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-red-600">Recall not found.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isOpen = recall.status === 'Open';
+  const godownHolding = holdings?.find(holding => holding.location_type === 'GODOWN');
+  const mrHoldings = holdings?.filter(holding => holding.location_type === 'MR') || [];
+  const heldQuantity = holdings?.reduce((sum, holding) => sum + holding.quantity_strips, 0) || 0;
+
+  const recoveredFromMrs = adjustments
+    ?.filter(adj => adj.adjustment_type === 'RETURN_TO_GODOWN' && adj.location_type_source === 'MR')
+    .reduce((sum, adj) => sum + adj.quantity_strips, 0) || 0;
+  const recoveredFromCustomers = adjustments
+    ?.filter(adj => adj.adjustment_type === 'RETURN_TO_GODOWN' && adj.location_type_source === 'CUSTOMER')
+    .reduce((sum, adj) => sum + adj.quantity_strips, 0) || 0;
+  const writtenOff = adjustments
+    ?.filter(adj => adj.adjustment_type === 'ADJUST_EXPIRED_GODOWN')
+    .reduce((sum, adj) => sum + adj.quantity_strips, 0) || 0;
+  const writtenOffValue = adjustments
+    ?.filter(adj => adj.adjustment_type === 'ADJUST_EXPIRED_GODOWN')
+    .reduce((sum, adj) => sum + adj.quantity_strips * adj.cost_per_strip, 0) || 0;
+  const customerOutstanding = customers
+    ?.reduce((sum, customer) => sum + Math.max(0, customer.quantity_sold - customer.quantity_recovered), 0) || 0;
+
+  const openAction = (nextAction: RecallAction) => {
+    setAction(nextAction);
+    setActionQuantity(nextAction.maxQuantity ? String(nextAction.maxQuantity) : '');
+    setActionNotes('');
+  };
+
+  const handleActionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseInt(actionQuantity, 10);
+    if (!quantity || quantity <= 0 || (action?.maxQuantity && quantity > action.maxQuantity)) {
+      toast({
+        title: "Error",
+        description: action?.maxQuantity
+          ? `Enter a quantity between 1 and ${action.maxQuantity} strips`
+          : "Enter a quantity greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+    actionMutation.mutate();
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/admin/stock/recalls')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Recalls
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+              Recall {recall.recall_number}
+              <Badge variant={isOpen ? 'destructive' : recall.status === 'Completed' ? 'default' : 'outline'}>
+                {recall.status}
+              </Badge>
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {recall.products?.product_name} ({recall.products?.product_code}) | Batch {recall.product_batches?.batch_number}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print Report
+          </Button>
+          {isOpen && (
+            <>
+              {!adjustments?.length && (
+                <Button variant="outline" onClick={() => setConfirm('CANCEL')}>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Recall
+                </Button>
+              )}
+              <Button onClick={() => setConfirm('COMPLETE')}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Complete Recall
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Current holdings */}
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Current Holdings</CardTitle>
+          <CardDescription>
+            Stock of this batch still in the godown or with MRs. Recover MR stock to the godown, then write it off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!holdings?.length ? (
+            <div className="text-center py-6 text-gray-500">No stock of this batch is held anywhere.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="text-right">Quantity (Strips)</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {godownHolding && (
+                  <TableRow>
+                    <TableCell>Godown</TableCell>
+                    <TableCell className="text-right font-mono">{godownHolding.quantity_strips}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      ₹{(godownHolding.quantity_strips * godownHolding.cost_per_strip).toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isOpen && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => openAction({
+                            kind: 'WRITE_OFF',
+                            sourceType: 'GODOWN',
+                            sourceId: 'GODOWN',
+                            label: 'Godown',
+                            maxQuantity: godownHolding.quantity_strips,
+                          })}
+                        >
+                          Write Off
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {mrHoldings.map(holding => (
+                  <TableRow key={holding.location_id}>
+                    <TableCell>MR: {getMrName(holding.location_id)}</TableCell>
+                    <TableCell className="text-right font-mono">{holding.quantity_strips}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      ₹{(holding.quantity_strips * holding.cost_per_strip).toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isOpen && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openAction({
+                            kind: 'RETURN',
+                            sourceType: 'MR',
+                            sourceId: holding.location_id,
+                            label: `MR: ${getMrName(holding.location_id)}`,
+                            maxQuantity: holding.quantity_strips,
+                          })}
+                        >
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Recover
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Customers */}
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Customers Who Received This Batch</CardTitle>
+          <CardDescription>Direct sales from the godown and sales made by MRs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!customers?.length ? (
+            <div className="text-center py-6 text-gray-500">This batch has not been sold to any customer.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Sold Through</TableHead>
+                  <TableHead>Invoices</TableHead>
+                  <TableHead>Last Sale</TableHead>
+                  <TableHead className="text-right">Sold</TableHead>
+                  <TableHead className="text-right">Recovered</TableHead>
+                  <TableHead className="text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers.map(customer => (
+                  <TableRow key={customer.customer_name}>
+                    <TableCell className="font-medium">{customer.customer_name}</TableCell>
+                    <TableCell className="text-sm">
+                      {customer.sold_through
+                        .map(source => source === 'GODOWN' ? 'Godown' : `MR: ${getMrName(source)}`)
+                        .join(', ')}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{customer.invoices.join(', ') || '-'}</TableCell>
+                    <TableCell>{new Date(customer.last_sale_date).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right font-mono">{customer.quantity_sold}</TableCell>
+                    <TableCell className="text-right font-mono">{customer.quantity_recovered}</TableCell>
+                    <TableCell className="text-right">
+                      {isOpen && customer.quantity_recovered < customer.quantity_sold && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openAction({
+                            kind: 'RETURN',
+                            sourceType: 'CUSTOMER',
+                            sourceId: customer.customer_name,
+                            label: customer.customer_name,
+                            maxQuantity: customer.quantity_sold - customer.quantity_recovered,
+                          })}
+                        >
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Record Return
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Completion report */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Recall Report: {recall.recall_number}</CardTitle>
+          <CardDescription>
+            {recall.products?.product_name} ({recall.products?.product_code}) | Batch {recall.product_batches?.batch_number} |
+            Mfg {recall.product_batches?.manufacturing_date && new Date(recall.product_batches.manufacturing_date).toLocaleDateString()} |
+            Exp {recall.product_batches?.expiry_date && new Date(recall.product_batches.expiry_date).toLocaleDateString()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div><span className="text-gray-500">Reason:</span> {recall.reason}</div>
+            <div><span className="text-gray-500">Reference:</span> {recall.manufacturer_reference || '-'}</div>
+            <div><span className="text-gray-500">Initiated:</span> {new Date(recall.initiated_at).toLocaleString()}</div>
+            <div>
+              <span className="text-gray-500">Status:</span> {recall.status}
+              {recall.completed_at && ` on ${new Date(recall.completed_at).toLocaleString()}`}
+            </div>
+            {recall.notes && <div className="md:col-span-2"><span className="text-gray-500">Notes:</span> {recall.notes}</div>}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div className="rounded-lg border p-3">
+              <div className="text-xs text-gray-500">Recovered from MRs</div>
+              <div className="text-2xl font-bold font-mono">{recoveredFromMrs}</div>
+            </div>
+            <div className="rounded-lg border p-3">
+              <div className="text-xs text-gray-500">Recovered from Customers</div>
+              <div className="text-2xl font-bold font-mono">{recoveredFromCustomers}</div>
+            </div>
+            <div className="rounded-lg border p-3">
+              <div className="text-xs text-gray-500">Written Off</div>
+              <div className="text-2xl font-bold font-mono">{writtenOff}</div>
+              <div className="text-xs text-gray-500">₹{writtenOffValue.toFixed(2)}</div>
+            </div>
+            <div className="rounded-lg border p-3">
+              <div className="text-xs text-gray-500">Still Held (Godown + MRs)</div>
+              <div className={`text-2xl font-bold font-mono ${heldQuantity > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {heldQuantity}
+              </div>
+            </div>
+            <div className="rounded-lg border p-3">
+              <div className="text-xs text-gray-500">Not Recovered from Customers</div>
+              <div className={`text-2xl font-bold font-mono ${customerOutstanding > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                {customerOutstanding}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-semibold mb-2">Recall Documents</h3>
+            {!adjustments?.length ? (
+              <p className="text-sm text-gray-500">No returns or write-offs have been posted yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead className="text-right">Quantity (Strips)</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {adjustments.map(adj => (
+                    <TableRow key={adj.adjustment_id}>
+                      <TableCell>{new Date(adj.adjustment_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{adj.adjustment_type.replace(/_/g, ' ')}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {adj.location_type_source === 'MR'
+                          ? `MR: ${getMrName(adj.location_id_source)}`
+                          : adj.location_type_source === 'CUSTOMER'
+                            ? adj.location_id_source
+                            : 'Godown'}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{adj.quantity_strips}</TableCell>
+                      <TableCell className="text-right font-mono">₹{(adj.quantity_strips * adj.cost_per_strip).toFixed(2)}</TableCell>
+                      <TableCell className="max-w-xs truncate text-sm text-gray-600">{adj.notes || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Return / write-off dialog */}
+      <Dialog open={!!action} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{action?.kind === 'WRITE_OFF' ? 'Write Off Recalled Stock' : 'Post Recall Return'}</DialogTitle>
+            <DialogDescription>
+              {action?.kind === 'WRITE_OFF'
+                ? 'Posts an ADJUST_EXPIRED_GODOWN adjustment against this recall.'
+                : `Posts a RETURN_TO_GODOWN adjustment from ${action?.label} against this recall.`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleActionSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="quantity">Quantity (Strips) *</Label>
+              <Input
+                id="quantity"
+                type="number"
+                min="1"
+                max={action?.maxQuantity || undefined}
+                value={actionQuantity}
+                onChange={(e) => setActionQuantity(e.target.value)}
+              />
+              {action?.maxQuantity && (
+                <p className="text-xs text-gray-500 mt-1">Up to {action.maxQuantity} strips</p>
+              )}
+            </div>
+            {action?.kind === 'RETURN' && (
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  value={actionNotes}
+                  onChange={(e) => setActionNotes(e.target.value)}
+                  rows={2}
+                />
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setAction(null)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={action?.kind === 'WRITE_OFF' ? 'destructive' : 'default'}
+                disabled={actionMutation.isPending}
+              >
+                {actionMutation.isPending ? 'Posting...' : action?.kind === 'WRITE_OFF' ? 'Write Off' : 'Post Return'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!confirm} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirm === 'COMPLETE' ? 'Complete Recall' : 'Cancel Recall'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === 'COMPLETE'
+                ? heldQuantity > 0
+                  ? `${heldQuantity} strips of this batch are still held in the godown or with MRs. Complete the recall anyway? The batch stays Recalled.`
+                  : 'All held stock has been recovered and written off. The batch stays Recalled.'
+                : `The batch status will be restored to ${recall.previous_batch_status}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (confirm) statusMutation.mutate(confirm);
+              }}
+              disabled={statusMutation.isPending}
+            >
+              {confirm === 'COMPLETE' ? 'Complete Recall' : 'Cancel Recall'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BatchRecallDetail;
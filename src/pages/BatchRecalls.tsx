@@ -0,0 +1,323 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, ShieldAlert } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { initiateRecall } from '@/lib/batchRecalls';
+
+interface RecallFormData {
+  product_id: string;
+  batch_id: string;
+  reason: string;
+  manufacturer_reference: string;
+  notes: string;
+}
+
+const emptyForm: RecallFormData = {
+  product_id: '',
+  batch_id: '',
+  reason: '',
+  manufacturer_reference: '',
+  notes: '',
+};
+
+const getRecallStatusBadgeVariant = (status: string) => {
+  switch (status) {
+    case 'Open':
+      return 'destructive';
+    case 'Completed':
+      return 'default';
+    default:
+      return 'outline';
+  }
+};
+
+const BatchRecalls = () => {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<RecallFormData>(emptyForm);
+
+  // Fetch recalls
+  const { data: recalls, isLoading } = useQuery({
+    queryKey: ['batch-recalls'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('batch_recalls')
+        .select(`
+          *,
+          products (
+            product_name,
+            product_code
+          ),
+          product_batches (
+            batch_number,
+            expiry_date
+          )
+        `)
+        .order('initiated_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Fetch products for the recall form
+  const { data: products } = useQuery({
+    queryKey: ['products-for-recall'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name, product_code')
+        .eq('is_active', true)
+        .order('product_name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: isDialogOpen,
+  });
+
+  // Fetch batches of the selected product that are not already recalled
+  const { data: batches } = useQuery({
+    queryKey: ['recallable-batches', formData.product_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('product_batches')
+        .select('id, batch_number, expiry_date, status')
+        .eq('product_id', formData.product_id)
+        .neq('status', 'Recalled')
+        .order('expiry_date');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!formData.product_id,
+  });
+
+  const initiateMutation = useMutation({
+    mutationFn: () => initiateRecall({
+      batchId: formData.batch_id,
+      reason: formData.reason,
+      manufacturerReference: formData.manufacturer_reference,
+      notes: formData.notes,
+      userId: profile?.user_id,
+    }),
+    onSuccess: (recall) => {
+      toast({
+        title: "Success",
+        description: `Recall ${recall.recall_number} opened. The batch is frozen for dispatch and sale.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['batch-recalls'] });
+      queryClient.invalidateQueries({ queryKey: ['product-batches'] });
+      setIsDialogOpen(false);
+      setFormData(emptyForm);
+      navigate(`/admin/stock/recalls/${recall.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to open recall.",
+        variant: "destructive",
+      });
+      console.error('Error opening recall:', error);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.batch_id || !formData.reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please select a batch and enter the recall reason",
+        variant: "destructive",
+      });
+      return;
+    }
+    initiateMutation.mutate();
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Batch Recalls</h1>
+          <p className="text-gray-600 mt-1">
+            Freeze recalled batches, recover stock from MRs and customers, and write it off
+          </p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Initiate Recall
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Initiate Batch Recall</DialogTitle>
+              <DialogDescription>
+                The batch is marked Recalled and can no longer be dispatched or sold.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="product">Product *</Label>
+                <Select
+                  value={formData.product_id}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, product_id: value, batch_id: '' }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products?.map(product => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.product_code} - {product.product_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="batch">Batch *</Label>
+                <Select
+                  value={formData.batch_id}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, batch_id: value }))}
+                  disabled={!formData.product_id}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select batch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {batches?.map(batch => (
+                      <SelectItem key={batch.id} value={batch.id}>
+                        {batch.batch_number} (Exp: {new Date(batch.expiry_date).toLocaleDateString()}, {batch.status})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="reason">Reason *</Label>
+                <Textarea
+                  id="reason"
+                  value={formData.reason}
+                  onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+                  placeholder="Reason given by the manufacturer or regulator"
+                  rows={3}
+                />
+              </div>
+              <div>
+                <Label htmlFor="manufacturer_reference">Manufacturer / Regulator Reference</Label>
+                <Input
+                  id="manufacturer_reference"
+                  value={formData.manufacturer_reference}
+                  onChange={(e) => setFormData(prev => ({ ...prev, manufacturer_reference: e.target.value }))}
+                  placeholder="Recall notice number"
+                />
+              </div>
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                  rows={2}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="destructive" disabled={initiateMutation.isPending}>
+                  {initiateMutation.isPending ? 'Opening...' : 'Recall Batch'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Recalls
+          </CardTitle>
+          <CardDescription>Open recalls first, most recent at the top</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Loading recalls...</div>
+          ) : !recalls?.length ? (
+            <div className="text-center py-8 text-gray-500">No batch recalls have been raised.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recall No.</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Initiated</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...recalls]
+                  .sort((a, b) => Number(b.status === 'Open') - Number(a.status === 'Open'))
+                  .map(recall => (
+                    <TableRow
+                      key={recall.id}
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => navigate(`/admin/stock/recalls/${recall.id}`)}
+                    >
+                      <TableCell className="font-mono">{recall.recall_number}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{recall.products?.product_name}</div>
+                        <div className="text-sm text-gray-500">{recall.products?.product_code}</div>
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+                          {recall.product_batches?.batch_number}
+                        </span>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">{recall.reason}</TableCell>
+                      <TableCell>{new Date(recall.initiated_at).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {recall.completed_at ? new Date(recall.completed_at).toLocaleDateString() : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getRecallStatusBadgeVariant(recall.status)}>{recall.status}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BatchRecalls;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Search, Store } from 'lucide-react';
+import CustomerFormDialog from '@/components/customers/CustomerFormDialog';
+import UnlinkedCustomerSales from '@/components/customers/UnlinkedCustomerSales';
+import { Customer, fetchCustomerSaleSummary, fetchCustomers, getCustomerTypeLabel } from '@/lib/customers';
+
+const Customers = () => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Fetch customers
+  const { data: customers, isLoading } = useQuery({
+    queryKey: ['customers'],
+    queryFn: () => fetchCustomers(),
+  });
+
+  // Fetch MR users to show assignments
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Sale counts and last sale date per customer
+  const { data: saleSummary } = useQuery({
+    queryKey: ['customer-sale-summary'],
+    queryFn: fetchCustomerSaleSummary,
+  });
+
+  const getMrName = (userId: string | null) =>
+    userId ? mrUsers?.find(mr => mr.user_id === userId)?.name || 'Unknown MR' : '-';
+
+  const openDialog = (customer: Customer | null) => {
+    setEditingCustomer(customer);
+    setIsDialogOpen(true);
+  };
+
+  const filteredCustomers = customers?.filter(customer => {
+    const term = searchTerm.toLowerCase();
+    return !term ||
+      customer.customer_name.toLowerCase().includes(term) ||
+      customer.customer_code.toLowerCase().includes(term) ||
+      (customer.territory || '').toLowerCase().includes(term) ||
+      (customer.gstin || '').toLowerCase().includes(term);
+  });
+
+  return (
+    <div className="container mx-auto px-6 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Customers</h1>
+          <p className="text-gray-600 mt-2">Manage retailers, hospitals and doctors you sell to</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Customer
+        </Button>
+      </div>
+
+      <UnlinkedCustomerSales customers={customers || []} />
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Store className="h-5 w-5" />
+              Customers List
+            </CardTitle>
+            <CardDescription>
+              Manage and view all your customers
+            </CardDescription>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search customers..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8 h-8 w-56"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading customers...</div>
+            </div>
+          ) : !filteredCustomers || filteredCustomers.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">
+                {searchTerm ? 'No customers match your search.' : 'No customers found. Create your first customer!'}
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer Name</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Drug Licence</TableHead>
+                    <TableHead>GSTIN</TableHead>
+                    <TableHead>Territory</TableHead>
+                    <TableHead>MR</TableHead>
+                    <TableHead className="text-right">Credit Limit</TableHead>
+                    <TableHead className="text-right">Sales</TableHead>
+                    <TableHead>Last Sale</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCustomers.map((customer) => (
+                    <TableRow key={customer.id}>
+                      <TableCell className="font-medium">{customer.customer_name}</TableCell>
+                      <TableCell className="font-mono text-sm">{customer.customer_code}</TableCell>
+                      <TableCell>{getCustomerTypeLabel(customer.customer_type)}</TableCell>
+                      <TableCell className="text-sm">{customer.drug_licence_number || '-'}</TableCell>
+                      <TableCell className="font-mono text-sm">{customer.gstin || '-'}</TableCell>
+                      <TableCell>{customer.territory || '-'}</TableCell>
+                      <TableCell>{getMrName(customer.assigned_mr_user_id)}</TableCell>
+                      <TableCell className="text-right font-mono">₹{Number(customer.credit_limit).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{saleSummary?.get(customer.id)?.sales || 0}</TableCell>
+                      <TableCell>
+                        {saleSummary?.get(customer.id)
+                          ? new Date(saleSummary.get(customer.id)!.last_sale_date).toLocaleDateString()
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={customer.is_active ? "default" : "secondary"}>
+                          {customer.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openDialog(customer)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CustomerFormDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        customer={editingCustomer}
+      />
+    </div>
+  );
+};
+
+export default Customers;
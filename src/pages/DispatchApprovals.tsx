@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, History, Inbox, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getBatchValidationMessage } from '@/lib/batchValidation';
+import DispatchRequestBreaches from '@/components/sale/DispatchRequestBreaches';
+import DispatchRequestLines from '@/components/sale/DispatchRequestLines';
+import {
+  DISPATCH_REQUEST_STATUS_STYLES,
+  DispatchRequestStatus,
+  DispatchRequestWithLines,
+  approveDispatchRequest,
+  fetchDispatchRequests,
+  rejectDispatchRequest,
+} from '@/lib/mrHoldingLimits';
+
+// Reviewed requests listed under the inbox
+const REVIEWED_REQUESTS_SHOWN = 20;
+
+const DispatchApprovals = () => {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+
+  const { data: requests, isLoading } = useQuery({
+    queryKey: ['dispatch-requests'],
+    queryFn: () => fetchDispatchRequests(),
+  });
+
+  // Names of the MRs dispatched to and the staff who asked
+  const { data: profiles } = useQuery({
+    queryKey: ['profile-names'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const getName = (userId: string | null) =>
+    (userId && profiles?.find(person => person.user_id === userId)?.name) || '-';
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ request, action }: { request: DispatchRequestWithLines; action: 'approve' | 'reject' }) =>
+      action === 'approve'
+        ? approveDispatchRequest(request.id, reviewNotes[request.id] || '')
+        : rejectDispatchRequest(request.id, reviewNotes[request.id] || '', profile?.user_id).then(() => null),
+    onSuccess: (challanNumber, { action }) => {
+      toast({
+        title: "Success",
+        description: action === 'approve'
+          ? `Dispatch approved and posted as delivery challan ${challanNumber}`
+          : "Dispatch request rejected",
+      });
+      queryClient.invalidateQueries({ queryKey: ['dispatch-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['dispatch-request-breaches'] });
+      if (action === 'approve') {
+        queryClient.invalidateQueries({ queryKey: ['stock-sales'] });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getBatchValidationMessage(error) || "Failed to review the dispatch request",
+        variant: "destructive",
+      });
+      console.error('Error reviewing dispatch request:', error);
+    },
+  });
+
+  const pendingRequests = requests?.filter(request => request.status === 'Pending') || [];
+  const reviewedRequests = (requests || [])
+    .filter(request => request.status !== 'Pending')
+    .slice(0, REVIEWED_REQUESTS_SHOWN);
+
+  const getCostValue = (request: DispatchRequestWithLines) =>
+    request.mr_dispatch_request_lines.reduce((sum, line) => sum + line.quantity_strips * Number(line.cost_per_strip), 0);
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Dispatch Approvals</h1>
+        <p className="text-gray-600">MR dispatches held back because they go over the MR's holding limits</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Waiting for Approval
+            {pendingRequests.length > 0 && <Badge variant="secondary">{pendingRequests.length}</Badge>}
+          </CardTitle>
+          <CardDescription>Approving posts the dispatch from the godown to the MR as a delivery challan</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading requests...</div>
+            </div>
+          ) : pendingRequests.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">No dispatches waiting for approval</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>MR</TableHead>
+                    <TableHead>Dispatch Date</TableHead>
+                    <TableHead>Products</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Over Limit</TableHead>
+                    <TableHead>Review Notes</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pendingRequests.map(request => (
+                    <TableRow key={request.id}>
+                      <TableCell>
+                        <div className="font-medium">{getName(request.mr_user_id)}</div>
+                        <div className="text-xs text-gray-500">Requested by {getName(request.requested_by)}</div>
+                      </TableCell>
+                      <TableCell>{new Date(request.dispatch_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <DispatchRequestLines lines={request.mr_dispatch_request_lines} />
+                        {request.notes && <div className="text-xs text-gray-500 mt-1">{request.notes}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">₹{getCostValue(request).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <DispatchRequestBreaches requestId={request.id} />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={reviewNotes[request.id] || ''}
+                          onChange={(e) => setReviewNotes({ ...reviewNotes, [request.id]: e.target.value })}
+                          placeholder="Optional"
+                          className="h-8 min-w-[160px]"
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => reviewMutation.mutate({ request, action: 'approve' })}
+                            disabled={reviewMutation.isPending}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => reviewMutation.mutate({ request, action: 'reject' })}
+                            disabled={reviewMutation.isPending}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {reviewedRequests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Recently Reviewed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>MR</TableHead>
+                    <TableHead>Dispatch Date</TableHead>
+                    <TableHead>Products</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Reviewed</TableHead>
+                    <TableHead>Review Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reviewedRequests.map(request => (
+                    <TableRow key={request.id}>
+                      <TableCell className="font-medium">{getName(request.mr_user_id)}</TableCell>
+                      <TableCell>{new Date(request.dispatch_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <DispatchRequestLines lines={request.mr_dispatch_request_lines} />
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={DISPATCH_REQUEST_STATUS_STYLES[request.status as DispatchRequestStatus]}
+                        >
+                          {request.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {request.reviewed_at ? (
+                          <>
+                            {getName(request.reviewed_by)}
+                            <div className="text-xs text-gray-500">{new Date(request.reviewed_at).toLocaleDateString()}</div>
+                          </>
+                        ) : '-'}
+                      </TableCell>
+                      <TableCell className="max-w-xs text-sm">{request.review_notes || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default DispatchApprovals;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft, Printer } from 'lucide-react';
+import PrintableDocumentView from '@/components/documents/PrintableDocumentView';
+import { fetchDocumentTemplates, fetchPrintableDocument, getDocumentTypeBySlug } from '@/lib/documents';
+import { fetchCompanyProfile } from '@/lib/gst';
+
+const DocumentPrint = () => {
+  const { documentType, groupId } = useParams();
+  const navigate = useNavigate();
+  const documentOption = getDocumentTypeBySlug(documentType);
+
+  const { data: printableDocument, isLoading } = useQuery({
+    queryKey: ['printable-document', documentOption?.type, groupId],
+    queryFn: () => fetchPrintableDocument(documentOption!.type, groupId!),
+    enabled: !!documentOption && !!groupId,
+  });
+
+  const { data: templates } = useQuery({
+    queryKey: ['document-templates'],
+    queryFn: fetchDocumentTemplates,
+  });
+
+  const { data: companyProfile } = useQuery({
+    queryKey: ['company-profile'],
+    queryFn: fetchCompanyProfile,
+  });
+
+  const template = templates?.find(t => t.document_type === documentOption?.type);
+
+  // Browsers name a saved PDF after the page title, so print under the document's number
+  const handlePrint = () => {
+    const previousTitle = window.document.title;
+    window.document.title = `${documentOption!.label} ${printableDocument!.document_number}`;
+    window.print();
+    window.document.title = previousTitle;
+  };
+
+  if (!documentOption || isLoading) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className={documentOption ? '' : 'text-red-600'}>
+              {documentOption ? 'Loading document...' : 'Unknown document type.'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!printableDocument) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-red-600">{documentOption.label} not found.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6 print:p-0">
+      <style>
+        {`@page { size: ${template?.paper_size || 'A4'} ${template?.orientation || 'portrait'}; margin: 12mm; }`}
+      </style>
+
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900">
+            {documentOption.label} {printableDocument.document_number}
+          </h1>
+        </div>
+        <Button variant="outline" onClick={handlePrint}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <div className="max-w-5xl mx-auto bg-white shadow-sm border rounded-lg p-8 print:max-w-none print:shadow-none print:border-0 print:rounded-none print:p-0">
+        <PrintableDocumentView
+          document={printableDocument}
+          template={template}
+          company={companyProfile}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPrint;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FileText } from 'lucide-react';
+import CompanyContactDetails from '@/components/documents/CompanyContactDetails';
+import DocumentTemplateForm from '@/components/documents/DocumentTemplateForm';
+import NumberingSeriesSettings from '@/components/documents/NumberingSeriesSettings';
+import { DOCUMENT_TYPES, fetchDocumentTemplates } from '@/lib/documents';
+
+const DocumentTemplates = () => {
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['document-templates'],
+    queryFn: fetchDocumentTemplates,
+  });
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Document Templates</h1>
+        <p className="text-gray-600 mt-2">
+          Set up how documents are numbered and how GRNs, delivery challans and tax invoices look when printed
+        </p>
+      </div>
+
+      <CompanyContactDetails />
+
+      <NumberingSeriesSettings />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Templates
+          </CardTitle>
+          <CardDescription>
+            Each document type has its own title, notes, signature boxes and page setup
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading templates...</div>
+            </div>
+          ) : (
+            <Tabs defaultValue={DOCUMENT_TYPES[0].type}>
+              <TabsList className="mb-4">
+                {DOCUMENT_TYPES.map((option) => (
+                  <TabsTrigger key={option.type} value={option.type}>{option.label}</TabsTrigger>
+                ))}
+              </TabsList>
+              {DOCUMENT_TYPES.map((option) => (
+                <TabsContent key={option.type} value={option.type}>
+                  <DocumentTemplateForm
+                    documentType={option.type}
+                    label={option.label}
+                    template={templates?.find(t => t.document_type === option.type)}
+                  />
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DocumentTemplates;
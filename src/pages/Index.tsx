@@ -6,15 +6,15 @@ import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
 
 const Index = () => {
-  const { user, isAdmin, isLoading: authLoading } = useAuth();
+  const { user, homePath, isLoading: authLoading } = useAuth();
   const navigate = useNavigate();
 
-  // Redirect to admin dashboard if user is already authenticated and is an admin
+  // Send signed-in users to the part of the app their role opens
   useEffect(() => {
-    if (!authLoading && user && isAdmin) {
-      navigate('/admin/dashboard');
+    if (!authLoading && user && homePath) {
+      navigate(homePath);
     }
-  }, [user, isAdmin, authLoading, navigate]);
+  }, [user, homePath, authLoading, navigate]);
 
   const handleGetStarted = () => {
     navigate('/auth');
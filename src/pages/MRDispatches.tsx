@@ -0,0 +1,53 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Truck } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import MovementDocumentsTable from '@/components/mr/MovementDocumentsTable';
+import { fetchMRDispatches } from '@/lib/mrPortal';
+
+const MRDispatches = () => {
+  const { user } = useAuth();
+
+  const { data: dispatches, isLoading } = useQuery({
+    queryKey: ['mr-dispatches', user?.id],
+    queryFn: () => fetchMRDispatches(user!.id),
+    enabled: !!user,
+  });
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Dispatches Received</h1>
+        <p className="text-gray-600">Stock sent to you from the godown, by delivery challan</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Delivery Challans
+          </CardTitle>
+          <CardDescription>Click a challan to see its products and batches</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading dispatches...</div>
+            </div>
+          ) : !dispatches || dispatches.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">Nothing has been dispatched to you yet</div>
+          ) : (
+            <MovementDocumentsTable
+              documents={dispatches}
+              numberLabel="Challan No."
+              valueLabel="Value"
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MRDispatches;
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Edit, Gauge, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import HoldingLimitFormDialog from '@/components/sale/HoldingLimitFormDialog';
+import { HoldingLimit, deleteHoldingLimit, fetchHoldingLimits } from '@/lib/mrHoldingLimits';
+import { fetchMRHoldings } from '@/lib/mrPortal';
+
+const MRHoldingLimits = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mrUserId, setMrUserId] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingLimit, setEditingLimit] = useState<HoldingLimit | null>(null);
+
+  const { data: medicalReps } = useQuery({
+    queryKey: ['medical-reps'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('role', 'mr')
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: limits, isLoading } = useQuery({
+    queryKey: ['holding-limits', mrUserId],
+    queryFn: () => fetchHoldingLimits(mrUserId),
+    enabled: !!mrUserId,
+  });
+
+  const { data: holdings } = useQuery({
+    queryKey: ['mr-holdings', mrUserId],
+    queryFn: () => fetchMRHoldings(mrUserId),
+    enabled: !!mrUserId,
+  });
+
+  const deleteLimitMutation = useMutation({
+    mutationFn: deleteHoldingLimit,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['holding-limits'] });
+      toast({
+        title: "Success",
+        description: "Holding limit removed",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to remove the holding limit",
+        variant: "destructive",
+      });
+      console.error('Error deleting holding limit:', error);
+    },
+  });
+
+  const openDialog = (limit: HoldingLimit | null) => {
+    setEditingLimit(limit);
+    setIsDialogOpen(true);
+  };
+
+  // What the MR holds now, per product and in total
+  const getHolding = (productId: string | null) => {
+    const lines = (holdings || []).filter(holding => !productId || holding.product_id === productId);
+    return {
+      quantity_strips: lines.reduce((sum, holding) => sum + holding.quantity_strips, 0),
+      value: lines.reduce((sum, holding) => sum + Number(holding.total_value), 0),
+    };
+  };
+
+  const isOverLimit = (limit: HoldingLimit) => {
+    const holding = getHolding(limit.product_id);
+    return (limit.max_quantity_strips !== null && holding.quantity_strips > limit.max_quantity_strips)
+      || (limit.max_value !== null && holding.value > Number(limit.max_value));
+  };
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">MR Holding Limits</h1>
+          <p className="text-gray-600">How much stock each MR may hold before a dispatch needs approval</p>
+        </div>
+        <Button onClick={() => openDialog(null)} disabled={!mrUserId} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Limit
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Limits
+          </CardTitle>
+          <CardDescription>
+            Limit a product by strips and/or value, or the value of everything the MR holds. Values are at cost.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-sm space-y-2">
+            <Label htmlFor="mr_user">Medical Representative</Label>
+            <Select value={mrUserId} onValueChange={setMrUserId}>
+              <SelectTrigger id="mr_user">
+                <SelectValue placeholder="Select Medical Representative" />
+              </SelectTrigger>
+              <SelectContent>
+                {medicalReps?.map((mr) => (
+                  <SelectItem key={mr.id} value={mr.user_id}>
+                    {mr.name} ({mr.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!mrUserId ? (
+            <div className="text-center py-12 text-gray-500">Select an MR to see their limits</div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading limits...</div>
+            </div>
+          ) : !limits || limits.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No limits set. Dispatches to this MR are posted without approval.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead className="text-right">Max Strips</TableHead>
+                    <TableHead className="text-right">Max Value</TableHead>
+                    <TableHead className="text-right">Holding Now</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {limits.map(limit => {
+                    const holding = getHolding(limit.product_id);
+                    return (
+                      <TableRow key={limit.id}>
+                        <TableCell className="font-medium">
+                          {limit.products
+                            ? `${limit.products.product_name} (${limit.products.product_code})`
+                            : 'All products (total value)'}
+                        </TableCell>
+                        <TableCell className="text-right">{limit.max_quantity_strips ?? '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {limit.max_value !== null ? `₹${Number(limit.max_value).toFixed(2)}` : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {limit.product_id && <div>{holding.quantity_strips} strips</div>}
+                          <div className={limit.product_id ? 'text-xs text-gray-500' : ''}>₹{holding.value.toFixed(2)}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={isOverLimit(limit) ? 'destructive' : 'default'}>
+                            {isOverLimit(limit) ? 'Over limit' : 'Within limit'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => openDialog(limit)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => deleteLimitMutation.mutate(limit.id)}
+                              disabled={deleteLimitMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {mrUserId && (
+        <HoldingLimitFormDialog
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          mrUserId={mrUserId}
+          limit={editingLimit}
+          existingLimits={limits || []}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MRHoldingLimits;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Plus, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import ReturnRequestDialog from '@/components/mr/ReturnRequestDialog';
+import ReturnRequestLines from '@/components/mr/ReturnRequestLines';
+import {
+  RETURN_REQUEST_STATUS_STYLES,
+  ReturnRequestStatus,
+  cancelReturnRequest,
+  fetchReturnRequests,
+} from '@/lib/mrPortal';
+
+const MRReturns = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: requests, isLoading } = useQuery({
+    queryKey: ['return-requests', user?.id],
+    queryFn: () => fetchReturnRequests({ mrUserId: user!.id }),
+    enabled: !!user,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: cancelReturnRequest,
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Return request withdrawn",
+      });
+      queryClient.invalidateQueries({ queryKey: ['return-requests'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to withdraw return request",
+        variant: "destructive",
+      });
+      console.error('Error cancelling return request:', error);
+    },
+  });
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Return Requests</h1>
+          <p className="text-gray-600">Ask for stock you hold to be taken back into the godown</p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="h-4 w-4 mr-2" />
+          New Request
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            My Requests
+          </CardTitle>
+          <CardDescription>Approved requests move the stock out of your holdings</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading requests...</div>
+            </div>
+          ) : !requests || requests.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">You have not requested any returns</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Products</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Review Notes</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell>{new Date(request.request_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <ReturnRequestLines lines={request.mr_return_request_lines} />
+                      </TableCell>
+                      <TableCell className="max-w-xs">{request.reason}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={RETURN_REQUEST_STATUS_STYLES[request.status as ReturnRequestStatus]}>
+                          {request.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="max-w-xs text-sm text-gray-600">{request.review_notes || '-'}</TableCell>
+                      <TableCell>
+                        {request.status === 'Pending' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => cancelMutation.mutate(request.id)}
+                            disabled={cancelMutation.isPending}
+                          >
+                            Withdraw
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReturnRequestDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+    </div>
+  );
+};
+
+export default MRReturns;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Plus, Receipt } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import MovementDocumentsTable from '@/components/mr/MovementDocumentsTable';
+import { fetchMRSales } from '@/lib/mrPortal';
+
+const MRSales = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const { data: sales, isLoading } = useQuery({
+    queryKey: ['mr-sales', user?.id],
+    queryFn: () => fetchMRSales(user!.id),
+    enabled: !!user,
+  });
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Sales</h1>
+          <p className="text-gray-600">Sales you have made to customers from your own stock</p>
+        </div>
+        <Button onClick={() => navigate('/mr/sales/new')} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="h-4 w-4 mr-2" />
+          New Sale
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Invoices
+          </CardTitle>
+          <CardDescription>Click an invoice to see its products and batches</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading sales...</div>
+            </div>
+          ) : !sales || sales.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">You have not recorded any sales yet</div>
+          ) : (
+            <MovementDocumentsTable
+              documents={sales}
+              numberLabel="Invoice No."
+              partyLabel="Customer"
+              valueLabel="Taxable Value"
+              showTax={true}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MRSales;
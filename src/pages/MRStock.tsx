@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Package, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchMRHoldings } from '@/lib/mrPortal';
+
+const NEAR_EXPIRY_DAYS = 90;
+
+const MRStock = () => {
+  const { user } = useAuth();
+  const [search, setSearch] = useState('');
+
+  const { data: holdings, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['mr-holdings', user?.id],
+    queryFn: () => fetchMRHoldings(user!.id),
+    enabled: !!user,
+  });
+
+  const term = search.trim().toLowerCase();
+  const visibleHoldings = (holdings || []).filter(holding =>
+    !term ||
+    holding.product_name.toLowerCase().includes(term) ||
+    holding.product_code.toLowerCase().includes(term) ||
+    holding.batch_number.toLowerCase().includes(term)
+  );
+
+  const totalStrips = visibleHoldings.reduce((sum, holding) => sum + holding.quantity_strips, 0);
+  const totalValue = visibleHoldings.reduce((sum, holding) => sum + Number(holding.total_value), 0);
+
+  const getExpiryBadge = (expiryDate: string) => {
+    const daysLeft = Math.floor((new Date(expiryDate).getTime() - Date.now()) / 86400000);
+    if (daysLeft < 0) {
+      return <Badge variant="destructive">Expired</Badge>;
+    }
+    if (daysLeft <= NEAR_EXPIRY_DAYS) {
+      return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{daysLeft} days left</Badge>;
+    }
+    return null;
+  };
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">My Stock</h1>
+          <p className="text-gray-600">
+            Batches dispatched to you that you have not yet sold or returned
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Holdings
+              </CardTitle>
+              <CardDescription>Earliest expiry first; sell these batches before the others</CardDescription>
+            </div>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search product or batch..."
+              className="max-w-xs"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading stock...</div>
+            </div>
+          ) : visibleHoldings.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              {term ? 'No batches match your search' : 'You are not holding any stock'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead className="text-right">Strips</TableHead>
+                    <TableHead className="text-right">MRP / Strip</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleHoldings.map((holding) => (
+                    <TableRow key={holding.batch_id}>
+                      <TableCell>
+                        <div className="font-medium">{holding.product_name}</div>
+                        <div className="text-xs text-gray-500">{holding.product_code} · {holding.generic_name}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{holding.batch_number}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {new Date(holding.expiry_date).toLocaleDateString()}
+                          {getExpiryBadge(holding.expiry_date)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{holding.quantity_strips}</TableCell>
+                      <TableCell className="text-right">
+                        {holding.mrp_per_strip !== null ? `₹${Number(holding.mrp_per_strip).toFixed(2)}` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">₹{Number(holding.total_value).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3} className="font-medium">
+                      {visibleHoldings.length} batch{visibleHoldings.length !== 1 ? 'es' : ''}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{totalStrips}</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell className="text-right font-medium">₹{totalValue.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MRStock;
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, RefreshCw } from 'lucide-react';
+import { downloadCsv } from '@/lib/csv';
+import { fetchMarginLines, summarizeMargin } from '@/lib/pricing';
+import { toDateInput } from '@/lib/utils';
+import { MarginGrouping, MarginReportFilters, MarginRow } from '@/types/stock';
+
+// Month to date
+const getDefaultFilters = (): MarginReportFilters => {
+  const today = new Date();
+  return {
+    fromDate: toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)),
+    toDate: toDateInput(today),
+  };
+};
+
+const GROUPINGS: { key: MarginGrouping; label: string; column: string }[] = [
+  { key: 'product', label: 'By Product', column: 'Product' },
+  { key: 'customer', label: 'By Customer', column: 'Customer' },
+  { key: 'mr', label: 'By MR', column: 'MR' },
+];
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+const MarginReport = () => {
+  const [filters, setFilters] = useState<MarginReportFilters>(getDefaultFilters);
+  const [grouping, setGrouping] = useState<MarginGrouping>('product');
+
+  const isPeriodValid = !!filters.fromDate && !!filters.toDate && filters.fromDate <= filters.toDate;
+  const currentGrouping = GROUPINGS.find(option => option.key === grouping)!;
+
+  const { data: lines, isFetching } = useQuery({
+    queryKey: ['margin-report', filters],
+    queryFn: () => fetchMarginLines(filters),
+    enabled: isPeriodValid,
+  });
+
+  // Fetch MR users to label MR sales
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const rows = React.useMemo(() => {
+    const mrNames = new Map((mrUsers || []).map(mr => [mr.user_id, mr.name]));
+    return summarizeMargin(lines || [], grouping, mrUserId => mrNames.get(mrUserId) || 'Unknown MR');
+  }, [lines, grouping, mrUsers]);
+
+  const totals = React.useMemo(() => {
+    const revenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+    const cost = rows.reduce((sum, row) => sum + row.cost, 0);
+    return {
+      quantity_strips: rows.reduce((sum, row) => sum + row.quantity_strips, 0),
+      revenue,
+      cost,
+      margin: revenue - cost,
+      margin_percent: revenue ? (revenue - cost) / revenue * 100 : 0,
+    };
+  }, [rows]);
+
+  const exportReport = () => {
+    downloadCsv(
+      `margin-by-${grouping}-${filters.fromDate}-to-${filters.toDate}.csv`,
+      [currentGrouping.column, 'Quantity (Strips)', 'Revenue', 'Cost', 'Margin', 'Margin %'],
+      rows.map(row => [
+        row.label,
+        row.quantity_strips,
+        formatAmount(row.revenue),
+        formatAmount(row.cost),
+        formatAmount(row.margin),
+        row.margin_percent.toFixed(1),
+      ])
+    );
+  };
+
+  const renderMarginCells = (row: Omit<MarginRow, 'key' | 'label'>, className = 'text-right font-mono') => (
+    <>
+      <TableCell className={className}>{row.quantity_strips}</TableCell>
+      <TableCell className={className}>₹{formatAmount(row.revenue)}</TableCell>
+      <TableCell className={className}>₹{formatAmount(row.cost)}</TableCell>
+      <TableCell className={`${className} ${row.margin < 0 ? 'text-red-600' : ''}`}>₹{formatAmount(row.margin)}</TableCell>
+      <TableCell className={className}>{row.margin_percent.toFixed(1)}%</TableCell>
+    </>
+  );
+
+  const renderReport = () => {
+    if (isFetching && !lines) {
+      return <div className="text-center py-8 text-gray-500">Loading margins...</div>;
+    }
+    if (!rows.length) {
+      return <div className="text-center py-8 text-gray-500">No priced sales in this period.</div>;
+    }
+
+    return (
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="text-lg font-semibold">Margin {currentGrouping.label}</CardTitle>
+            <CardDescription>Revenue at selling price against cost at batch cost, highest revenue first</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={exportReport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{currentGrouping.column}</TableHead>
+                <TableHead className="text-right">Qty (Strips)</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead className="text-right">Margin</TableHead>
+                <TableHead className="text-right">Margin %</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  {renderMarginCells(row)}
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-semibold">Total</TableCell>
+                {renderMarginCells(totals, 'text-right font-mono font-semibold')}
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Margin Report</h1>
+          <p className="text-gray-600">
+            Revenue, cost and margin of direct sales and MR sales to customers
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setFilters(getDefaultFilters())}
+          className="h-8 px-3 rounded-full"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Reset Period
+        </Button>
+      </div>
+
+      <Card className="rounded-lg border">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="fromDate" className="text-sm font-medium">From</Label>
+              <Input
+                id="fromDate"
+                type="date"
+                value={filters.fromDate}
+                onChange={(e) => setFilters({ ...filters, fromDate: e.target.value })}
+                className="h-8 rounded-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="toDate" className="text-sm font-medium">To</Label>
+              <Input
+                id="toDate"
+                type="date"
+                value={filters.toDate}
+                onChange={(e) => setFilters({ ...filters, toDate: e.target.value })}
+                className="h-8 rounded-full"
+              />
+            </div>
+          </div>
+          {!isPeriodValid && (
+            <p className="text-sm text-red-600 mt-3">Choose a period whose From date is on or before its To date.</p>
+          )}
+          <p className="text-xs text-gray-500 mt-3">
+            Sales recorded before selling prices were captured have no revenue and are not included.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Tabs value={grouping} onValueChange={(value) => setGrouping(value as MarginGrouping)}>
+        <TabsList className="mb-4">
+          {GROUPINGS.map(option => (
+            <TabsTrigger key={option.key} value={option.key}>{option.label}</TabsTrigger>
+          ))}
+        </TabsList>
+        {GROUPINGS.map(option => (
+          <TabsContent key={option.key} value={option.key}>
+            {option.key === grouping && renderReport()}
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+};
+
+export default MarginReport;
@@ -0,0 +1,465 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { RefreshCw, Undo2, Trash2, PackageX } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DEFAULT_EXPIRY_HORIZONS,
+  buildExpiryBuckets,
+  fetchExpiryHorizons,
+  fetchNearExpiryStock,
+  groupNearExpiryStock,
+  normalizeHorizons,
+  recallFromMR,
+  saveExpiryHorizons,
+  writeOffNearExpiry,
+} from '@/lib/nearExpiry';
+import { toDateInput } from '@/lib/utils';
+import { NearExpiryGrouping, NearExpiryItem } from '@/types/stock';
+
+type NearExpiryAction = 'recall' | 'write-off';
+
+const NearExpiry = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { profile, can } = useAuth();
+  const queryClient = useQueryClient();
+  // The horizons being typed, until they are applied
+  const [horizonInput, setHorizonInput] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<NearExpiryGrouping>('location');
+  const [bucketFilter, setBucketFilter] = useState('ALL');
+  const [actionItem, setActionItem] = useState<NearExpiryItem | null>(null);
+  const [action, setAction] = useState<NearExpiryAction>('write-off');
+  const [actionQuantity, setActionQuantity] = useState('');
+  const [actionNotes, setActionNotes] = useState('');
+
+  const canChangeHorizons = can('manage_settings');
+  const today = toDateInput(new Date());
+
+  // Company-wide horizons from the stock settings
+  const { data: savedHorizons, isLoading: isLoadingHorizons } = useQuery({
+    queryKey: ['stock-settings', 'near-expiry-horizons'],
+    queryFn: fetchExpiryHorizons,
+  });
+
+  const horizons = savedHorizons ?? DEFAULT_EXPIRY_HORIZONS;
+  const buckets = React.useMemo(() => buildExpiryBuckets(horizons), [horizons]);
+
+  const { data: items, isFetching, refetch } = useQuery({
+    queryKey: ['near-expiry-stock', horizons, today],
+    queryFn: () => fetchNearExpiryStock(buckets, today),
+    enabled: !isLoadingHorizons,
+  });
+
+  const saveHorizonsMutation = useMutation({
+    mutationFn: saveExpiryHorizons,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock-settings'] });
+      setHorizonInput(null);
+      setBucketFilter('ALL');
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save the horizons",
+        variant: "destructive",
+      });
+      console.error('Error saving near-expiry horizons:', error);
+    },
+  });
+
+  // Fetch MR users for location labels
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const getLocationLabel = (locationType: string, locationId: string) => {
+    if (locationType !== 'MR') return 'Godown';
+    const mr = mrUsers?.find(user => user.user_id === locationId);
+    return `MR: ${mr?.name || locationId}`;
+  };
+
+  const groups = groupNearExpiryStock(items || [], grouping, getLocationLabel);
+
+  const bucketTotals = React.useMemo(() => buckets.map(bucket => {
+    const bucketItems = (items || []).filter(item => item.bucket_key === bucket.key);
+    return {
+      ...bucket,
+      quantity: bucketItems.reduce((sum, item) => sum + item.quantity_strips, 0),
+      value: bucketItems.reduce((sum, item) => sum + item.value, 0),
+    };
+  }), [buckets, items]);
+
+  const detailItems = (items || []).filter(item => bucketFilter === 'ALL' || item.bucket_key === bucketFilter);
+
+  const applyHorizons = () => {
+    if (horizonInput === null) return;
+    const parsed = normalizeHorizons(horizonInput.split(','));
+    if (!parsed.length) {
+      toast({
+        title: "Error",
+        description: "Enter at least one horizon in days, e.g. 30, 90, 180",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveHorizonsMutation.mutate(parsed);
+  };
+
+  const openAction = (item: NearExpiryItem, nextAction: NearExpiryAction) => {
+    setActionItem(item);
+    setAction(nextAction);
+    setActionQuantity(String(item.quantity_strips));
+    setActionNotes('');
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: () => {
+      const quantity = parseInt(actionQuantity);
+      return action === 'recall'
+        ? recallFromMR(actionItem!, quantity, actionNotes, profile?.user_id)
+        : writeOffNearExpiry(actionItem!, quantity, actionNotes, profile?.user_id);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: action === 'recall' ? "Stock returned to the godown" : "Stock written off",
+      });
+      queryClient.invalidateQueries({ queryKey: ['near-expiry-stock'] });
+      setActionItem(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: action === 'recall' ? "Failed to recall stock from the MR" : "Failed to write off stock",
+        variant: "destructive",
+      });
+      console.error('Error posting near-expiry action:', error);
+    },
+  });
+
+  const handleConfirmAction = () => {
+    const quantity = parseInt(actionQuantity);
+    if (!actionItem || !quantity || quantity <= 0 || quantity > actionItem.quantity_strips) {
+      toast({
+        title: "Error",
+        description: `Enter a quantity between 1 and ${actionItem?.quantity_strips} strips`,
+        variant: "destructive",
+      });
+      return;
+    }
+    actionMutation.mutate();
+  };
+
+  const formatValue = (value: number) => `₹${value.toFixed(2)}`;
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Near Expiry</h1>
+          <p className="text-gray-600">
+            Expired and soon-to-expire stock in the godown and with MRs, with the value at risk
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="horizons">Horizons (days)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="horizons"
+                  value={horizonInput ?? horizons.join(', ')}
+                  onChange={(e) => setHorizonInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && applyHorizons()}
+                  placeholder="30, 90, 180"
+                  disabled={!canChangeHorizons}
+                />
+                {canChangeHorizons && (
+                  <Button
+                    variant="outline"
+                    onClick={applyHorizons}
+                    disabled={horizonInput === null || saveHorizonsMutation.isPending}
+                  >
+                    Apply
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Group By</Label>
+              <Select value={grouping} onValueChange={(value) => setGrouping(value as NearExpiryGrouping)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="location">Location</SelectItem>
+                  <SelectItem value="product">Product</SelectItem>
+                  <SelectItem value="category">Category</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Batches Shown</Label>
+              <Select value={bucketFilter} onValueChange={setBucketFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All horizons</SelectItem>
+                  {buckets.map(bucket => (
+                    <SelectItem key={bucket.key} value={bucket.key}>{bucket.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {bucketTotals.map(bucket => (
+          <Card
+            key={bucket.key}
+            className={`cursor-pointer ${bucketFilter === bucket.key ? 'ring-2 ring-primary' : ''}`}
+            onClick={() => setBucketFilter(bucketFilter === bucket.key ? 'ALL' : bucket.key)}
+          >
+            <CardHeader className="pb-2">
+              <CardTitle className={`text-sm font-medium ${bucket.key === 'expired' ? 'text-red-600' : 'text-gray-600'}`}>
+                {bucket.label}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatValue(bucket.value)}</div>
+              <p className="text-xs text-gray-500">{bucket.quantity} strips</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Value at Risk by {grouping === 'location' ? 'Location' : grouping === 'product' ? 'Product' : 'Category'}</CardTitle>
+          <CardDescription>Strips and value at cost in each horizon</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!groups.length ? (
+            <div className="text-center py-8 text-gray-500">
+              {isFetching ? 'Loading...' : 'No stock expires within the configured horizons.'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{grouping === 'location' ? 'Location' : grouping === 'product' ? 'Product' : 'Category'}</TableHead>
+                    {buckets.map(bucket => (
+                      <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map(group => (
+                    <TableRow key={group.key}>
+                      <TableCell className="font-medium">{group.label}</TableCell>
+                      {buckets.map(bucket => (
+                        <TableCell key={bucket.key} className="text-right">
+                          {group.quantities[bucket.key] ? (
+                            <>
+                              <div className="font-mono">{formatValue(group.values[bucket.key])}</div>
+                              <div className="text-xs text-gray-500">{group.quantities[bucket.key]} strips</div>
+                            </>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right">
+                        <div className="font-mono font-semibold">{formatValue(group.total_value)}</div>
+                        <div className="text-xs text-gray-500">{group.total_quantity} strips</div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    {bucketTotals.map(bucket => (
+                      <TableCell key={bucket.key} className="text-right font-mono">{formatValue(bucket.value)}</TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono font-semibold">
+                      {formatValue(bucketTotals.reduce((sum, bucket) => sum + bucket.value, 0))}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Batches</CardTitle>
+          <CardDescription>Earliest expiry first; act on each holding directly</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!detailItems.length ? (
+            <div className="text-center py-8 text-gray-500">No batches in this horizon.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-right">Qty (Strips)</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detailItems.map(item => (
+                    <TableRow key={`${item.batch_id}_${item.location_type}_${item.location_id}`}>
+                      <TableCell>
+                        <div className="font-medium">{item.product_name}</div>
+                        <div className="text-sm text-gray-500">{item.product_code}</div>
+                      </TableCell>
+                      <TableCell>
+                        <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">{item.batch_number}</span>
+                      </TableCell>
+                      <TableCell>
+                        <div>{new Date(item.expiry_date).toLocaleDateString()}</div>
+                        <Badge variant={item.days_to_expiry < 0 ? 'destructive' : 'secondary'} className="mt-1">
+                          {item.days_to_expiry < 0
+                            ? `Expired ${Math.abs(item.days_to_expiry)}d ago`
+                            : `${item.days_to_expiry}d left`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{getLocationLabel(item.location_type, item.location_id)}</TableCell>
+                      <TableCell className="text-right font-mono">{item.quantity_strips}</TableCell>
+                      <TableCell className="text-right font-mono">{formatValue(item.value)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {item.location_type === 'MR' && (
+                            <Button size="sm" variant="outline" onClick={() => openAction(item, 'recall')}>
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Recall
+                            </Button>
+                          )}
+                          {item.location_type === 'GODOWN' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => navigate(`/admin/stock/adjustments/supplier-returns/new?batch=${item.batch_id}`)}
+                            >
+                              <PackageX className="h-4 w-4 mr-1" />
+                              Return to Supplier
+                            </Button>
+                          )}
+                          <Button size="sm" variant="outline" className="text-red-600" onClick={() => openAction(item, 'write-off')}>
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Write Off
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!actionItem} onOpenChange={(open) => !open && setActionItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action === 'recall' ? 'Recall from MR' : 'Write Off Stock'}</DialogTitle>
+            <DialogDescription>
+              {actionItem && (
+                <>
+                  {actionItem.product_name}, batch {actionItem.batch_number},{' '}
+                  {getLocationLabel(actionItem.location_type, actionItem.location_id)}.{' '}
+                  {action === 'recall'
+                    ? 'The stock is returned to the godown.'
+                    : 'An expiry adjustment is posted at this location.'}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="action_quantity">Quantity (Strips) *</Label>
+              <Input
+                id="action_quantity"
+                type="number"
+                min="1"
+                max={actionItem?.quantity_strips}
+                value={actionQuantity}
+                onChange={(e) => setActionQuantity(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="action_notes">Notes</Label>
+              <Textarea
+                id="action_notes"
+                value={actionNotes}
+                onChange={(e) => setActionNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setActionItem(null)}>Cancel</Button>
+            <Button
+              variant={action === 'recall' ? 'default' : 'destructive'}
+              onClick={handleConfirmAction}
+              disabled={actionMutation.isPending}
+            >
+              {actionMutation.isPending ? 'Posting...' : action === 'recall' ? 'Recall to Godown' : 'Write Off'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default NearExpiry;
@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Edit, Plus, Save, Search, Tags } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PriceList,
+  fetchPriceListPrices,
+  fetchPriceLists,
+  savePriceList,
+  savePriceListPrices,
+} from '@/lib/pricing';
+
+const emptyPriceListForm = {
+  price_list_name: '',
+  description: '',
+  is_active: true,
+};
+
+const PriceLists = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedPriceListId, setSelectedPriceListId] = useState('');
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPriceList, setEditingPriceList] = useState<PriceList | null>(null);
+  const [priceListForm, setPriceListForm] = useState(emptyPriceListForm);
+
+  const { data: priceLists } = useQuery({
+    queryKey: ['price-lists'],
+    queryFn: () => fetchPriceLists(),
+  });
+
+  // Fetch products with their base cost to show the margin each price leaves
+  const { data: products } = useQuery({
+    queryKey: ['products', 'price-list'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name, product_code, generic_name, base_cost_per_strip')
+        .eq('is_active', true)
+        .order('product_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: savedPrices } = useQuery({
+    queryKey: ['price-list-prices', selectedPriceListId],
+    queryFn: () => fetchPriceListPrices(selectedPriceListId),
+    enabled: !!selectedPriceListId,
+  });
+
+  useEffect(() => {
+    if (!selectedPriceListId && priceLists?.length) {
+      setSelectedPriceListId(priceLists[0].id);
+    }
+  }, [priceLists, selectedPriceListId]);
+
+  useEffect(() => {
+    setPrices(Object.fromEntries(
+      Array.from(savedPrices?.entries() || []).map(([productId, price]) => [productId, price.toString()])
+    ));
+  }, [savedPrices]);
+
+  const changedProductIds = (products || [])
+    .map(product => product.id)
+    .filter(productId => (parseFloat(prices[productId]) || null) !== (savedPrices?.get(productId) ?? null));
+
+  const savePriceListMutation = useMutation({
+    mutationFn: () => savePriceList(priceListForm, editingPriceList?.id),
+    onSuccess: (priceList) => {
+      toast({
+        title: "Success",
+        description: `Price list ${editingPriceList ? 'updated' : 'created'}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['price-lists'] });
+      setSelectedPriceListId(priceList.id);
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save price list. Its name may already be in use.",
+        variant: "destructive",
+      });
+      console.error('Error saving price list:', error);
+    },
+  });
+
+  const savePricesMutation = useMutation({
+    mutationFn: () => savePriceListPrices(
+      selectedPriceListId,
+      changedProductIds.map(productId => ({
+        product_id: productId,
+        price_per_strip: parseFloat(prices[productId]) || null,
+      }))
+    ),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `${changedProductIds.length} price${changedProductIds.length !== 1 ? 's' : ''} saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['price-list-prices', selectedPriceListId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to save prices",
+        variant: "destructive",
+      });
+      console.error('Error saving prices:', error);
+    },
+  });
+
+  const openPriceListDialog = (priceList: PriceList | null) => {
+    setEditingPriceList(priceList);
+    setPriceListForm(priceList
+      ? {
+        price_list_name: priceList.price_list_name,
+        description: priceList.description || '',
+        is_active: priceList.is_active,
+      }
+      : emptyPriceListForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleSavePriceList = () => {
+    if (!priceListForm.price_list_name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Price list name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+    savePriceListMutation.mutate();
+  };
+
+  const handleSavePrices = () => {
+    const invalidProductId = changedProductIds.find(productId => prices[productId] && !(parseFloat(prices[productId]) > 0));
+    if (invalidProductId) {
+      const product = products?.find(p => p.id === invalidProductId);
+      toast({
+        title: "Validation Error",
+        description: `Enter a price above zero for ${product?.product_name}, or clear it to take the product off the list`,
+        variant: "destructive",
+      });
+      return;
+    }
+    savePricesMutation.mutate();
+  };
+
+  const selectedPriceList = priceLists?.find(priceList => priceList.id === selectedPriceListId);
+  const filteredProducts = products?.filter(product => {
+    const term = searchTerm.toLowerCase();
+    return !term ||
+      product.product_name.toLowerCase().includes(term) ||
+      product.product_code.toLowerCase().includes(term) ||
+      product.generic_name.toLowerCase().includes(term);
+  });
+
+  return (
+    <div className="p-8 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Price Lists</h1>
+          <p className="text-gray-600">Selling prices per strip for each class of customer</p>
+        </div>
+        <Button onClick={() => openPriceListDialog(null)} className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm">
+          <Plus className="h-4 w-4 mr-1" />
+          Add Price List
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              <Tags className="h-5 w-5" />
+              Lists
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {priceLists?.map(priceList => (
+              <div
+                key={priceList.id}
+                className={`flex items-center justify-between rounded-lg border p-3 cursor-pointer ${
+                  priceList.id === selectedPriceListId ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => setSelectedPriceListId(priceList.id)}
+              >
+                <div>
+                  <p className="font-medium">{priceList.price_list_name}</p>
+                  {priceList.description && <p className="text-xs text-gray-500">{priceList.description}</p>}
+                  {!priceList.is_active && <Badge variant="secondary" className="mt-1">Inactive</Badge>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => { e.stopPropagation(); openPriceListDialog(priceList); }}
+                  className="h-8 w-8 p-0"
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle className="text-lg font-semibold">{selectedPriceList?.price_list_name || 'Prices'}</CardTitle>
+              <CardDescription>
+                Leave a price blank to keep the product off this list. Margins are against the product's base cost.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="relative">
+                <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search products..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-8 h-8 w-48"
+                />
+              </div>
+              <Button
+                size="sm"
+                onClick={handleSavePrices}
+                disabled={!selectedPriceListId || changedProductIds.length === 0 || savePricesMutation.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {savePricesMutation.isPending ? 'Saving...' : `Save${changedProductIds.length ? ` (${changedProductIds.length})` : ''}`}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Base Cost/Strip</TableHead>
+                  <TableHead className="text-right w-40">Price/Strip</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredProducts?.map(product => {
+                  const price = parseFloat(prices[product.id]) || 0;
+                  const margin = price ? (price - product.base_cost_per_strip) / price * 100 : null;
+                  return (
+                    <TableRow key={product.id}>
+                      <TableCell>
+                        <div className="font-medium">{product.product_name}</div>
+                        <div className="text-xs text-gray-500">{product.product_code} · {product.generic_name}</div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">₹{Number(product.base_cost_per_strip).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={prices[product.id] || ''}
+                          onChange={(e) => setPrices(prev => ({ ...prev, [product.id]: e.target.value }))}
+                          placeholder="-"
+                          disabled={!selectedPriceListId}
+                          className="h-8 text-right"
+                        />
+                      </TableCell>
+                      <TableCell className={`text-right font-mono ${margin !== null && margin < 0 ? 'text-red-600' : ''}`}>
+                        {margin === null ? '-' : `${margin.toFixed(1)}%`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPriceList ? 'Edit Price List' : 'Add Price List'}</DialogTitle>
+            <DialogDescription>Name the class of customer these prices apply to</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="price_list_name">Name *</Label>
+              <Input
+                id="price_list_name"
+                value={priceListForm.price_list_name}
+                onChange={(e) => setPriceListForm({ ...priceListForm, price_list_name: e.target.value })}
+                placeholder="e.g., Retailer"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price_list_description">Description</Label>
+              <Input
+                id="price_list_description"
+                value={priceListForm.description}
+                onChange={(e) => setPriceListForm({ ...priceListForm, description: e.target.value })}
+                placeholder="e.g., Price to retailer (PTR)"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="price_list_active"
+                checked={priceListForm.is_active}
+                onCheckedChange={(checked) => setPriceListForm({ ...priceListForm, is_active: checked })}
+              />
+              <Label htmlFor="price_list_active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSavePriceList} disabled={savePriceListMutation.isPending}>
+              {editingPriceList ? 'Update' : 'Create'} Price List
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PriceLists;
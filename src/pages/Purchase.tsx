@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Plus, Search, Filter, X } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
 import StockPurchaseTable from '@/components/purchase/PurchaseTable';
 import NewPurchase from '@/components/purchase/NewPurchase';
 import EditPurchase from '@/components/purchase/EditPurchase';
@@ -23,6 +24,7 @@ interface StockPurchaseItem {
   batch_id: string;
   quantity_strips: number;
   supplier_id: string | null;
+  legacy_supplier_name: string | null;
   purchase_date: string;
   reference_document_id: string | null;
   cost_per_strip: number;
@@ -41,6 +43,7 @@ interface StockPurchaseGroup {
   reference_document_id: string | null;
   purchase_date: string;
   supplier_id: string | null;
+  supplier_name: string | null;
   created_at: string;
   created_by: string | null;
   items: StockPurchaseItem[];
@@ -48,6 +51,7 @@ interface StockPurchaseGroup {
 
 const Purchase = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [supplierFilter, setSupplierFilter] = useState('all_suppliers');
   const [showFilters, setShowFilters] = useState(false);
@@ -58,9 +62,23 @@ const Purchase = () => {
   const [showViewPurchase, setShowViewPurchase] = useState(false);
   const [selectedPurchaseId, setSelectedPurchaseId] = useState<string>('');
 
+  // Fetch suppliers for filter
+  const { data: suppliers } = useQuery({
+    queryKey: ['suppliers-filter'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('is_active', true)
+        .order('supplier_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
   // Fetch stock purchases with product and batch details
   const { data: purchases, isLoading, refetch } = useQuery({
-    queryKey: ['stock-purchases', searchTerm, supplierFilter],
+    queryKey: ['stock-purchases', searchTerm, supplierFilter, suppliers?.length],
     queryFn: async () => {
       let query = supabase
         .from('stock_purchases')
@@ -71,6 +89,7 @@ const Purchase = () => {
           batch_id,
           quantity_strips,
           supplier_id,
+          legacy_supplier_name,
           purchase_date,
           reference_document_id,
           cost_per_strip,
@@ -78,15 +97,21 @@ const Purchase = () => {
           created_at,
           created_by,
           products:product_id(product_name, product_code),
-          product_batches:batch_id(batch_number, expiry_date)
+          product_batches:batch_id(batch_number, expiry_date),
+          suppliers:supplier_id(supplier_name)
         `)
         .order('created_at', { ascending: false });
 
       if (searchTerm) {
-        query = query.or(`
-          reference_document_id.ilike.%${searchTerm}%,
-          supplier_id.ilike.%${searchTerm}%
-        `);
+        // Supplier names live on suppliers, so match them there and search by id
+        const matchingSupplierIds = suppliers
+          ?.filter(supplier => supplier.supplier_name.toLowerCase().includes(searchTerm.toLowerCase()))
+          .map(supplier => supplier.id) || [];
+        query = query.or([
+          `reference_document_id.ilike.%${searchTerm}%`,
+          `legacy_supplier_name.ilike.%${searchTerm}%`,
+          ...(matchingSupplierIds.length ? [`supplier_id.in.(${matchingSupplierIds.join(',')})`] : []),
+        ].join(','));
       }
 
       if (supplierFilter && supplierFilter !== 'all_suppliers') {
@@ -117,6 +142,7 @@ const Purchase = () => {
             reference_document_id: purchase.reference_document_id,
             purchase_date: purchase.purchase_date,
             supplier_id: purchase.supplier_id,
+            supplier_name: purchase.suppliers?.supplier_name || purchase.legacy_supplier_name,
             created_at: purchase.created_at,
             created_by: purchase.created_by,
             items: [purchase as StockPurchaseItem]
@@ -130,20 +156,6 @@ const Purchase = () => {
     },
   });
 
-  // Fetch suppliers for filter
-  const { data: suppliers } = useQuery({
-    queryKey: ['suppliers-filter'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('suppliers')
-        .select('*')
-        .eq('is_active', true)
-        .order('supplier_name');
-      if (error) throw error;
-      return data;
-    },
-  });
-
   const handleNewReceipt = () => {
     setShowNewPurchase(true);
   };
@@ -192,20 +204,22 @@ const Purchase = () => {
             >
               <option value="all_suppliers">All Suppliers</option>
               {suppliers?.map((supplier) => (
-                <option key={supplier.id} value={supplier.supplier_name}>
+                <option key={supplier.id} value={supplier.id}>
                   {supplier.supplier_name}
                 </option>
               ))}
             </select>
           </div>
 
-          <Button 
-            onClick={handleNewReceipt} 
-            className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
-          >
-            <Plus className="h-4 w-4 mr-1" />
-            New Purchase
-          </Button>
+          {can('create_purchase') && (
+            <Button 
+              onClick={handleNewReceipt} 
+              className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Purchase
+            </Button>
+          )}
         </div>
       </div>
 
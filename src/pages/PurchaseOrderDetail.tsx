@@ -0,0 +1,283 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, Ban, CheckCircle2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  OPEN_PURCHASE_ORDER_STATUSES,
+  cancelPurchaseOrder,
+  closePurchaseOrder,
+  fetchPurchaseOrderLines,
+  getPurchaseOrderStatusBadgeVariant,
+} from '@/lib/purchaseOrders';
+
+const PurchaseOrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: order, isLoading } = useQuery({
+    queryKey: ['purchase-orders', id],
+    queryFn: async () => {
+      if (!id) throw new Error('Purchase order ID is required');
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select(`
+          *,
+          suppliers (
+            supplier_name,
+            supplier_code
+          )
+        `)
+        .eq('id', id)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: lines } = useQuery({
+    queryKey: ['purchase-orders', id, 'lines'],
+    queryFn: () => fetchPurchaseOrderLines(id!),
+    enabled: !!id,
+  });
+
+  // GRN lines received against this PO
+  const { data: receipts } = useQuery({
+    queryKey: ['purchase-orders', id, 'receipts', lines?.map(line => line.id)],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_purchases')
+        .select(`
+          purchase_id,
+          purchase_group_id,
+          purchase_order_line_id,
+          reference_document_id,
+          purchase_date,
+          quantity_strips,
+          cost_per_strip,
+          products:product_id(product_name),
+          product_batches:batch_id(batch_number)
+        `)
+        .in('purchase_order_line_id', lines!.map(line => line.id))
+        .order('purchase_date');
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!lines?.length,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (action: 'close' | 'cancel') =>
+      action === 'close' ? closePurchaseOrder(id!) : cancelPurchaseOrder(id!),
+    onSuccess: (_, action) => {
+      toast({
+        title: "Success",
+        description: action === 'close' ? "Purchase order closed" : "Purchase order cancelled",
+      });
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to update purchase order",
+        variant: "destructive",
+      });
+      console.error('Error updating purchase order:', error);
+    },
+  });
+
+  if (isLoading || !order) {
+    return <div className="p-6">Loading purchase order...</div>;
+  }
+
+  const isOpen = OPEN_PURCHASE_ORDER_STATUSES.includes(order.status);
+  const orderedStrips = lines?.reduce((sum, line) => sum + line.quantity_strips, 0) || 0;
+  const receivedStrips = lines?.reduce((sum, line) => sum + line.received_strips, 0) || 0;
+  const orderValue = lines?.reduce((sum, line) => sum + line.quantity_strips * Number(line.cost_per_strip), 0) || 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/admin/stock/purchase-orders')} className="mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Purchase Orders
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+            {order.po_number}
+            <Badge variant={getPurchaseOrderStatusBadgeVariant(order.status)}>{order.status}</Badge>
+          </h1>
+          <p className="text-gray-600 mt-1">
+            {order.suppliers?.supplier_name} · Ordered {new Date(order.order_date).toLocaleDateString()}
+            {order.expected_delivery_date &&
+              ` · Expected ${new Date(order.expected_delivery_date).toLocaleDateString()}`}
+          </p>
+        </div>
+        {isOpen && (
+          <div className="flex gap-2">
+            {order.status === 'Open' && (
+              <Button
+                variant="outline"
+                onClick={() => statusMutation.mutate('cancel')}
+                disabled={statusMutation.isPending}
+              >
+                <Ban className="h-4 w-4 mr-2" />
+                Cancel PO
+              </Button>
+            )}
+            {order.status === 'Partially Received' && (
+              <Button
+                variant="outline"
+                onClick={() => statusMutation.mutate('close')}
+                disabled={statusMutation.isPending}
+              >
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                Close Short
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Order Value</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">₹{orderValue.toFixed(2)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Received</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{receivedStrips} / {orderedStrips} strips</div>
+            <Progress value={orderedStrips ? Math.min(100, (receivedStrips / orderedStrips) * 100) : 0} className="mt-2" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-700">{order.notes || '-'}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Order Lines</CardTitle>
+          <CardDescription>Receive against this PO from New Purchase by choosing it on the GRN</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Agreed Cost/Strip</TableHead>
+                <TableHead className="text-right">Received (Strips)</TableHead>
+                <TableHead className="text-right">Outstanding (Strips)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines?.map(line => {
+                const overReceived = line.received_strips - line.quantity_strips;
+                return (
+                  <TableRow key={line.id}>
+                    <TableCell>
+                      <div className="font-medium">{line.product_name}</div>
+                      <div className="text-sm text-gray-500">{line.product_code}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.quantity} {line.unit_name}
+                      <div className="text-xs text-gray-500">{line.quantity_strips} strips</div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">₹{Number(line.cost_per_strip).toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {line.received_strips}
+                      {overReceived > 0 && (
+                        <div className="text-xs text-orange-600">{overReceived} over</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{line.outstanding_strips}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Receipts</CardTitle>
+          <CardDescription>GRN lines received against this order</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!receipts?.length ? (
+            <div className="text-center py-6 text-gray-500">Nothing has been received yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>GRN</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batch</TableHead>
+                  <TableHead className="text-right">Qty (Strips)</TableHead>
+                  <TableHead className="text-right">Cost/Strip</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receipts.map(receipt => {
+                  const line = lines?.find(l => l.id === receipt.purchase_order_line_id);
+                  const costDiffers = !!line && Number(line.cost_per_strip) !== Number(receipt.cost_per_strip);
+                  return (
+                    <TableRow key={receipt.purchase_id}>
+                      <TableCell>{new Date(receipt.purchase_date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 font-mono"
+                          onClick={() => navigate(`/admin/stock/purchase/${receipt.purchase_group_id}/view`)}
+                        >
+                          {receipt.reference_document_id || receipt.purchase_group_id.slice(0, 8)}
+                        </Button>
+                      </TableCell>
+                      <TableCell>{receipt.products?.product_name}</TableCell>
+                      <TableCell>
+                        <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
+                          {receipt.product_batches?.batch_number}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{receipt.quantity_strips}</TableCell>
+                      <TableCell className={`text-right font-mono ${costDiffers ? 'text-orange-600' : ''}`}>
+                        ₹{Number(receipt.cost_per_strip).toFixed(2)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PurchaseOrderDetail;
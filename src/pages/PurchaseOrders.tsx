@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ClipboardCheck, Plus } from 'lucide-react';
+import {
+  OPEN_PURCHASE_ORDER_STATUSES,
+  fetchOpenPurchaseOrderLines,
+  getPurchaseOrderStatusBadgeVariant,
+  summarizeOpenPurchaseOrders,
+} from '@/lib/purchaseOrders';
+
+const PurchaseOrders = () => {
+  const navigate = useNavigate();
+  const [statusFilter, setStatusFilter] = useState('all');
+  const today = new Date().toISOString().split('T')[0];
+
+  // Fetch purchase orders
+  const { data: orders, isLoading } = useQuery({
+    queryKey: ['purchase-orders'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select(`
+          *,
+          suppliers (
+            supplier_name,
+            supplier_code
+          )
+        `)
+        .order('order_date', { ascending: false })
+        .order('po_number', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Outstanding lines of open POs for the supplier report
+  const { data: openLines } = useQuery({
+    queryKey: ['purchase-orders', 'open-lines'],
+    queryFn: () => fetchOpenPurchaseOrderLines(),
+  });
+
+  const openSummaries = summarizeOpenPurchaseOrders(openLines || [], today);
+  const getSupplierName = (supplierId: string) =>
+    orders?.find(order => order.supplier_id === supplierId)?.suppliers?.supplier_name || supplierId;
+
+  const filteredOrders = (orders || []).filter(order => statusFilter === 'all' || order.status === statusFilter);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600 mt-1">Order from suppliers and track receipts against each order</p>
+        </div>
+        <Button onClick={() => navigate('/admin/stock/purchase-orders/new')} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          New Purchase Order
+        </Button>
+      </div>
+
+      <Tabs defaultValue="orders">
+        <TabsList>
+          <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="open">Open POs by Supplier</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Orders
+                </CardTitle>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value)}
+                  className="h-8 px-2 rounded-full text-sm bg-white border focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value="all">All Statuses</option>
+                  <option value="Open">Open</option>
+                  <option value="Partially Received">Partially Received</option>
+                  <option value="Received">Received</option>
+                  <option value="Closed">Closed</option>
+                  <option value="Cancelled">Cancelled</option>
+                </select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="text-center py-8">Loading purchase orders...</div>
+              ) : !filteredOrders.length ? (
+                <div className="text-center py-8 text-gray-500">No purchase orders found.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>PO No.</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Order Date</TableHead>
+                      <TableHead>Expected Delivery</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredOrders.map(order => {
+                      const isOverdue = !!order.expected_delivery_date &&
+                        order.expected_delivery_date < today &&
+                        OPEN_PURCHASE_ORDER_STATUSES.includes(order.status);
+                      return (
+                        <TableRow
+                          key={order.id}
+                          className="cursor-pointer hover:bg-muted/50"
+                          onClick={() => navigate(`/admin/stock/purchase-orders/${order.id}`)}
+                        >
+                          <TableCell className="font-mono">{order.po_number}</TableCell>
+                          <TableCell>{order.suppliers?.supplier_name}</TableCell>
+                          <TableCell>{new Date(order.order_date).toLocaleDateString()}</TableCell>
+                          <TableCell className={isOverdue ? 'text-red-600 font-medium' : ''}>
+                            {order.expected_delivery_date
+                              ? new Date(order.expected_delivery_date).toLocaleDateString()
+                              : '-'}
+                            {isOverdue && ' (overdue)'}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getPurchaseOrderStatusBadgeVariant(order.status)}>{order.status}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="open">
+          <Card>
+            <CardHeader>
+              <CardTitle>Open POs by Supplier</CardTitle>
+              <CardDescription>Quantity and value still to be received, largest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!openSummaries.length ? (
+                <div className="text-center py-8 text-gray-500">No open purchase orders.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead className="text-right">Open POs</TableHead>
+                      <TableHead className="text-right">Overdue</TableHead>
+                      <TableHead className="text-right">Outstanding (Strips)</TableHead>
+                      <TableHead className="text-right">Outstanding Value</TableHead>
+                      <TableHead>Next Expected</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {openSummaries.map(summary => (
+                      <TableRow key={summary.supplier_id}>
+                        <TableCell className="font-medium">{getSupplierName(summary.supplier_id)}</TableCell>
+                        <TableCell className="text-right">{summary.open_orders}</TableCell>
+                        <TableCell className="text-right">
+                          {summary.overdue_orders > 0
+                            ? <Badge variant="destructive">{summary.overdue_orders}</Badge>
+                            : 0}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{summary.outstanding_strips}</TableCell>
+                        <TableCell className="text-right font-mono">₹{summary.outstanding_value.toFixed(2)}</TableCell>
+                        <TableCell>
+                          {summary.next_expected_date
+                            ? new Date(summary.next_expected_date).toLocaleDateString()
+                            : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default PurchaseOrders;
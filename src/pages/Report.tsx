@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -13,7 +14,8 @@ import StockTable, {
   SortField, 
   SortDirection 
 } from '@/components/report/StockTable';
-import { calculateStockData, calculateStockSummary } from '@/lib/stockCalculations';
+import { EXPIRING_SOON_DAYS, calculateStockData, calculateStockSummary, fetchClosingStock, fetchClosingStockSummary, paginateStockItems } from '@/lib/stockCalculations';
+import { AREA_FILTER_PREFIX, fetchTerritories, resolveAreaFilter } from '@/lib/territories';
 import { StockSummary, StockFilters as StockFiltersType } from '@/types/stock';
 
 const ITEMS_PER_PAGE = 20;
@@ -27,7 +29,8 @@ const ReportPage = () => {
     categoryFilter: 'ALL',
     batchFilter: '',
     expiryFromDate: '',
-    expiryToDate: ''
+    expiryToDate: '',
+    asOfDate: ''
   });
   const [currentPage, setCurrentPage] = useState(1);
   const [visibleColumns, setVisibleColumns] = useState<Record<string, boolean>>(defaultStockColumns);
@@ -41,48 +44,114 @@ const ReportPage = () => {
       key: field,
       direction: prev.key === field && prev.direction === 'asc' ? 'desc' : 'asc'
     }));
+    setCurrentPage(1);
+  };
+
+  const updateFilter = (key: keyof StockFiltersType, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setCurrentPage(1);
   };
 
   const handleColumnToggle = (columns: Record<string, boolean>) => {
     setVisibleColumns(columns);
   };
 
-  // Fetch stock data using the calculation service
-  const { data: stockData, isLoading } = useQuery({
-    queryKey: ['stock-status', filters.locationFilter, filters.productFilter, filters.categoryFilter, filters.batchFilter, filters.expiryFromDate, filters.expiryToDate],
-    queryFn: () => calculateStockData(filters),
+  // Current stock comes from closing_stock; a past date replays transactions up to that day
+  const isAsOfReport = !!filters.asOfDate;
+
+  // Fetch the territory tree for area rollups in the location filter
+  const { data: territories } = useQuery({
+    queryKey: ['territories'],
+    queryFn: fetchTerritories,
   });
 
-  // Fetch categories for filter
-  const { data: categories } = useQuery({
-    queryKey: ['categories'],
+  // Fetch MR users for location filter
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users-territories'],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('product_categories')
-        .select('category_name')
-        .eq('is_active', true);
+        .from('profiles')
+        .select('user_id, name, territory_id')
+        .eq('role', 'mr');
       if (error) throw error;
       return data;
     },
   });
 
-  // Fetch MR users for location filter
-  const { data: mrUsers } = useQuery({
-    queryKey: ['mr-users'],
+  // An area in the location filter stands for every MR assigned under it
+  const reportFilters = React.useMemo<StockFiltersType>(() => ({
+    ...filters,
+    locationIds: resolveAreaFilter(filters.locationFilter, territories, mrUsers),
+  }), [filters, territories, mrUsers]);
+  const isAreaPending = filters.locationFilter.startsWith(AREA_FILTER_PREFIX) && (!territories || !mrUsers);
+
+  // Fetch the current page of stock from closing_stock
+  const { data: closingStockPage, isLoading: isClosingStockLoading, isFetching: isClosingStockFetching } = useQuery({
+    queryKey: ['closing-stock', reportFilters, currentPage, sortConfig],
+    queryFn: () => fetchClosingStock(reportFilters, {
+      page: currentPage,
+      pageSize: ITEMS_PER_PAGE,
+      sortField: sortConfig.key,
+      sortDirection: sortConfig.direction,
+    }),
+    placeholderData: keepPreviousData,
+    enabled: !isAsOfReport && !isAreaPending,
+  });
+
+  // Fetch summary figures for all rows matching the filters
+  const { data: closingStockSummary } = useQuery({
+    queryKey: ['closing-stock-summary', reportFilters],
+    queryFn: () => fetchClosingStockSummary(reportFilters),
+    enabled: !isAsOfReport && !isAreaPending,
+  });
+
+  // Replay transactions up to the as-of date
+  const { data: asOfStock, isFetching: isAsOfFetching } = useQuery({
+    queryKey: ['stock-as-of', reportFilters],
+    queryFn: () => calculateStockData(reportFilters),
+    enabled: isAsOfReport && !isAreaPending,
+  });
+
+  const stockPage = React.useMemo(() => {
+    if (!isAsOfReport) return closingStockPage;
+    if (!asOfStock) return undefined;
+    return paginateStockItems(asOfStock, {
+      page: currentPage,
+      pageSize: ITEMS_PER_PAGE,
+      sortField: sortConfig.key,
+      sortDirection: sortConfig.direction,
+    });
+  }, [isAsOfReport, closingStockPage, asOfStock, currentPage, sortConfig]);
+
+  const summaryData = React.useMemo(() => {
+    if (!isAsOfReport) return closingStockSummary;
+    if (!asOfStock) return undefined;
+    return calculateStockSummary(asOfStock, new Date(filters.asOfDate));
+  }, [isAsOfReport, closingStockSummary, asOfStock, filters.asOfDate]);
+
+  const isLoading = !isAsOfReport && isClosingStockLoading;
+  const isFetching = isAsOfReport ? isAsOfFetching : isClosingStockFetching;
+
+  // Fetch categories for filter
+  const { data: categories } = useQuery({
+    queryKey: ['categories'],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('profiles')
-        .select('user_id, name')
-        .eq('role', 'user');
+        .from('product_categories')
+        .select('category_name')
+        .eq('is_active', true);
       if (error) throw error;
       return data;
     },
   });
 
-  // Calculate summary data using the service
-  const summary: StockSummary = React.useMemo(() => {
-    return calculateStockSummary(stockData || []);
-  }, [stockData]);
+  const summary: StockSummary = summaryData || {
+    total_products: 0,
+    total_batches: 0,
+    total_value: 0,
+    low_stock_items: 0,
+    expiring_soon_items: 0
+  };
 
   const handleClearFilters = () => {
     setFilters({
@@ -91,8 +160,10 @@ const ReportPage = () => {
       categoryFilter: 'ALL',
       batchFilter: '',
       expiryFromDate: '',
-      expiryToDate: ''
+      expiryToDate: '',
+      asOfDate: ''
     });
+    setCurrentPage(1);
   };
 
   if (isLoading) {
@@ -107,8 +178,16 @@ const ReportPage = () => {
     <div className="w-full p-6 space-y-6">
       <div className="mb-8 flex justify-between items-center">
         <div>
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Real-time Stock Status</h1>
-          <p className="text-gray-600">Monitor and manage your stock levels across all locations</p>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            {isAsOfReport
+              ? `Stock as of ${new Date(filters.asOfDate).toLocaleDateString()}`
+              : 'Real-time Stock Status'}
+          </h1>
+          <p className="text-gray-600">
+            {isAsOfReport
+              ? 'Stock rebuilt from transactions dated on or before the selected date, valued at the cost then in effect'
+              : 'Monitor and manage your stock levels across all locations'}
+          </p>
         </div>
         <div className="flex items-center gap-1.5">
           <div className="flex items-center gap-1 bg-gray-50 p-1 rounded-full border">
@@ -200,26 +279,30 @@ const ReportPage = () => {
       {/* Filters Component */}
       <StockFilters
         locationFilter={filters.locationFilter}
-        setLocationFilter={(value) => setFilters(prev => ({ ...prev, locationFilter: value }))}
+        setLocationFilter={(value) => updateFilter('locationFilter', value)}
         productFilter={filters.productFilter}
-        setProductFilter={(value) => setFilters(prev => ({ ...prev, productFilter: value }))}
+        setProductFilter={(value) => updateFilter('productFilter', value)}
         categoryFilter={filters.categoryFilter}
-        setCategoryFilter={(value) => setFilters(prev => ({ ...prev, categoryFilter: value }))}
+        setCategoryFilter={(value) => updateFilter('categoryFilter', value)}
         batchFilter={filters.batchFilter}
-        setBatchFilter={(value) => setFilters(prev => ({ ...prev, batchFilter: value }))}
+        setBatchFilter={(value) => updateFilter('batchFilter', value)}
         expiryFromDate={filters.expiryFromDate}
-        setExpiryFromDate={(value) => setFilters(prev => ({ ...prev, expiryFromDate: value }))}
+        setExpiryFromDate={(value) => updateFilter('expiryFromDate', value)}
         expiryToDate={filters.expiryToDate}
-        setExpiryToDate={(value) => setFilters(prev => ({ ...prev, expiryToDate: value }))}
+        setExpiryToDate={(value) => updateFilter('expiryToDate', value)}
+        asOfDate={filters.asOfDate}
+        setAsOfDate={(value) => updateFilter('asOfDate', value)}
         categories={categories}
         mrUsers={mrUsers}
+        territories={territories}
         onClearFilters={handleClearFilters}
       />
 
       {/* Stock Table Component */}
       <StockTable
-        stockData={stockData}
-        isLoading={isLoading}
+        stockData={stockPage?.items}
+        totalCount={stockPage?.totalCount || 0}
+        isLoading={isFetching && !stockPage}
         visibleColumns={visibleColumns}
         onColumnToggle={handleColumnToggle}
         sortField={sortConfig.key}
@@ -244,7 +327,10 @@ const ReportPage = () => {
         <Alert>
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
-            You have {summary.expiring_soon_items} items expiring within 30 days. Review and take action.
+            You have {summary.expiring_soon_items} items expiring within {EXPIRING_SOON_DAYS} days.{' '}
+            <Link to="/admin/report/near-expiry" className="font-medium underline">
+              Review them on the near-expiry dashboard.
+            </Link>
           </AlertDescription>
         </Alert>
       )}
@@ -7,12 +7,16 @@ import { Plus, Truck, ShoppingCart, ArrowLeft, Edit, Eye, Trash2, Search, X } fr
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import NewDirectSale from '@/components/sale/NewDirectSale';
 import NewMRDispatch from '@/components/sale/NewMRDispatch';
 import EditDirectSale from '@/components/sale/EditDirectSale';
 import EditMRDispatch from '@/components/sale/EditMRDispatch';
+import PendingDispatchRequestsPanel from '@/components/sale/PendingDispatchRequestsPanel';
+import { getDocumentPath } from '@/lib/documents';
+import { AREA_FILTER_PREFIX, buildTerritoryTree, fetchTerritories, resolveAreaFilter } from '@/lib/territories';
 
 interface DispatchTransaction {
   sale_id: string;
@@ -39,9 +43,12 @@ interface DispatchTransaction {
 
 const Sale = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
+  const canEditPosted = can('edit_posted_document');
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState('');
   const [supplierFilter, setSupplierFilter] = useState('all_suppliers');
+  const [areaFilter, setAreaFilter] = useState('ALL');
   
   // Modal states
   const [showNewDirectSale, setShowNewDirectSale] = useState(false);
@@ -74,9 +81,31 @@ const Sale = () => {
     },
   });
 
+  // Fetch the territory tree and MR assignments for the area filter
+  const { data: territories } = useQuery({
+    queryKey: ['territories'],
+    queryFn: fetchTerritories,
+  });
+
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users-territories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name, territory_id')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // An area narrows the list to dispatches to the MRs assigned under it
+  const areaMRIds = resolveAreaFilter(areaFilter, territories, mrUsers);
+
   // Fetch recent dispatch transactions
   const { data: recentDispatches, isLoading, refetch } = useQuery({
-    queryKey: ['recent-dispatches', searchTerm, supplierFilter],
+    queryKey: ['recent-dispatches', searchTerm, supplierFilter, areaMRIds],
+    enabled: !areaFilter.startsWith(AREA_FILTER_PREFIX) || (!!territories && !!mrUsers),
     queryFn: async () => {
       let query = supabase
         .from('stock_sales')
@@ -94,6 +123,12 @@ const Sale = () => {
         .order('created_at', { ascending: false })
         .limit(10);
 
+      if (areaMRIds) {
+        query = query
+          .eq('transaction_type', 'DISPATCH_TO_MR')
+          .in('location_id_destination', areaMRIds);
+      }
+
       if (searchTerm) {
         query = query.or(`
           reference_document_id.ilike.%${searchTerm}%,
@@ -132,19 +167,12 @@ const Sale = () => {
     }
   };
 
+  // MR dispatches print as delivery challans, direct sales as tax invoices
   const handleView = (dispatch: DispatchTransaction) => {
-    // For now, we'll show an alert with the dispatch details
-    // In a real application, you might navigate to a dedicated view page
-    alert(`
-      Sale ID: ${dispatch.sale_id}
-      Product: ${dispatch.products?.product_name}
-      Batch: ${dispatch.product_batches?.batch_number}
-      Quantity: ${Math.abs(dispatch.quantity_strips)} strips
-      Type: ${dispatch.transaction_type}
-      Date: ${new Date(dispatch.sale_date).toLocaleDateString()}
-      Reference: ${dispatch.reference_document_id || 'N/A'}
-      Notes: ${dispatch.notes || 'No notes'}
-    `);
+    navigate(getDocumentPath(
+      dispatch.transaction_type === 'DISPATCH_TO_MR' ? 'DELIVERY_CHALLAN' : 'TAX_INVOICE',
+      dispatch.sale_group_id
+    ));
   };
 
   const handleEdit = (dispatch: DispatchTransaction) => {
@@ -212,27 +240,47 @@ const Sale = () => {
                 </option>
               ))}
             </select>
+
+            <select
+              value={areaFilter}
+              onChange={(e) => setAreaFilter(e.target.value)}
+              className="h-8 px-2 rounded-full text-sm bg-white border-0 focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="ALL">All Areas</option>
+              {buildTerritoryTree(territories || []).map(({ territory, depth }) => (
+                <option key={territory.id} value={`${AREA_FILTER_PREFIX}${territory.id}`}>
+                  {'\u00a0\u00a0'.repeat(depth)}{territory.level}: {territory.territory_name}
+                </option>
+              ))}
+            </select>
           </div>
 
           <div className="flex items-center gap-1.5">
-            <Button 
-              onClick={() => setShowNewDirectSale(true)} 
-              className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              Direct Sales
-            </Button>
-            <Button 
-              onClick={() => setShowNewMRDispatch(true)}
-              className="h-8 px-3 bg-red-600 hover:bg-blue-700 rounded-full text-sm"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              MR Sales
-            </Button>
+            {can('create_sale') && (
+              <>
+                <Button 
+                  onClick={() => setShowNewDirectSale(true)} 
+                  className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Direct Sales
+                </Button>
+                <Button 
+                  onClick={() => setShowNewMRDispatch(true)}
+                  className="h-8 px-3 bg-red-600 hover:bg-blue-700 rounded-full text-sm"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  MR Sales
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Dispatches over an MR's holding limits, waiting for approval */}
+      {can('create_sale') && <PendingDispatchRequestsPanel />}
+
       {/* Recent Dispatches */}
       <div className="bg-white rounded-lg border">
         <Table>
@@ -327,24 +375,28 @@ const Sale = () => {
                         <Eye className="h-4 w-4 mr-1" />
                         View
                       </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        className="h-8 px-3 rounded-full"
-                        onClick={() => handleEdit(dispatch)}
-                      >
-                        <Edit className="h-4 w-4 mr-1" />
-                        Edit
-                      </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        className="h-8 px-3 rounded-full text-red-600 hover:text-red-700"
-                        onClick={() => handleDelete(dispatch.sale_id)}
-                      >
-                        <Trash2 className="h-4 w-4 mr-1" />
-                        Delete
-                      </Button>
+                      {canEditPosted && (
+                        <>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            className="h-8 px-3 rounded-full"
+                            onClick={() => handleEdit(dispatch)}
+                          >
+                            <Edit className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm" 
+                            className="h-8 px-3 rounded-full text-red-600 hover:text-red-700"
+                            onClick={() => handleDelete(dispatch.sale_id)}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        </>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
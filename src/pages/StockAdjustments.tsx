@@ -7,6 +7,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -25,6 +26,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import ExpiryWriteOffDrafts from '@/components/stock-adjustment/ExpiryWriteOffDrafts';
+import SupplierReturnsList from '@/components/stock-adjustment/SupplierReturnsList';
+import MRReturnRequestsPanel from '@/components/stock-adjustment/MRReturnRequestsPanel';
+import { findBatchMismatches } from '@/lib/stockReconciliation';
 
 export interface StockAdjustment {
   adjustment_id: string;
@@ -68,6 +73,8 @@ type EditAdjustmentFormData = z.infer<typeof editAdjustmentSchema>;
 
 const StockAdjustments = () => {
   const navigate = useNavigate();
+  const { can } = useAuth();
+  const canEditPosted = can('edit_posted_document');
   const { toast } = useToast();
   const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -195,6 +202,22 @@ const StockAdjustments = () => {
     setEditDialogOpen(true);
   };
 
+  // The database applies edits to closing_stock; make sure the batch still adds up afterwards
+  const checkBatchInStep = async (productId: string, batchId: string) => {
+    try {
+      const mismatches = await findBatchMismatches(productId, batchId);
+      if (mismatches.length > 0) {
+        toast({
+          title: "Stock out of step",
+          description: "Closing stock for this batch no longer matches its transactions. Review it on the Reconcile Stock page.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error checking closing stock:', error);
+    }
+  };
+
   const handleEditSubmit = async (data: EditAdjustmentFormData) => {
     if (!editingAdjustment) return;
     
@@ -222,6 +245,7 @@ const StockAdjustments = () => {
         description: "Adjustment updated successfully",
       });
       
+      await checkBatchInStep(editingAdjustment.product_id, editingAdjustment.batch_id);
       setEditDialogOpen(false);
       setEditingAdjustment(null);
       fetchAdjustments();
@@ -272,27 +296,38 @@ const StockAdjustments = () => {
           </div>
 
           <div className="flex items-center gap-1.5">
-            <Button 
-              onClick={() => navigate('/admin/stock/adjustments/returns/new')} 
-              className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              New Return
-            </Button>
-            <Button 
-              onClick={() => navigate('/admin/stock/adjustments/replacements/new')} 
-              className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              New Replacement
-            </Button>
-            <Button 
-              onClick={() => navigate('/admin/stock/adjustments/damage-loss/new')} 
-              className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              New Adjustment
-            </Button>
+            {can('post_adjustment') && (
+              <>
+                <Button 
+                  onClick={() => navigate('/admin/stock/adjustments/returns/new')} 
+                  className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  New Return
+                </Button>
+                <Button 
+                  onClick={() => navigate('/admin/stock/adjustments/replacements/new')} 
+                  className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  New Replacement
+                </Button>
+                <Button 
+                  onClick={() => navigate('/admin/stock/adjustments/damage-loss/new')} 
+                  className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  New Adjustment
+                </Button>
+                <Button 
+                  onClick={() => navigate('/admin/stock/adjustments/supplier-returns/new')} 
+                  className="h-8 px-3 bg-blue-600 hover:bg-blue-700 rounded-full text-sm"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Return to Supplier
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -304,7 +339,18 @@ const StockAdjustments = () => {
         </p>
       </div>
 
-     
+      {can('post_adjustment') && (
+        <>
+          {/* Expiry write-offs proposed by the expiry job */}
+          <ExpiryWriteOffDrafts onPosted={fetchAdjustments} />
+
+          {/* Returns to the godown requested by MRs from their portal */}
+          <MRReturnRequestsPanel onApproved={fetchAdjustments} />
+        </>
+      )}
+
+      {/* Debit notes for stock returned to suppliers */}
+      <SupplierReturnsList />
 
       {/* Recent Adjustments */}
       <div className="bg-white rounded-lg border">
@@ -412,22 +458,26 @@ const StockAdjustments = () => {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
-                          <Button 
-                            variant="ghost" 
-                            size="sm"
-                            onClick={() => handleEditClick(adjustment)}
-                            className="h-8 w-8 p-0 hover:bg-gray-100"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="sm"
-                            onClick={() => handleDeleteClick(adjustment.adjustment_id)}
-                            className="h-8 w-8 p-0 hover:bg-red-50 text-red-600 hover:text-red-700"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {canEditPosted && (
+                            <>
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => handleEditClick(adjustment)}
+                                className="h-8 w-8 p-0 hover:bg-gray-100"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => handleDeleteClick(adjustment.adjustment_id)}
+                                className="h-8 w-8 p-0 hover:bg-red-50 text-red-600 hover:text-red-700"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
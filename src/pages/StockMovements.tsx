@@ -118,7 +118,8 @@ const StockMovements = () => {
     'REPLACEMENT_FROM_GODOWN',
     'REPLACEMENT_FROM_MR',
     'OPENING_STOCK_GODOWN',
-    'OPENING_STOCK_MR'
+    'OPENING_STOCK_MR',
+    'PURCHASE_RETURN_GODOWN'
   ];
 
   return (
@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ChevronDown, ChevronRight, Database, RefreshCw, Scale, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { fetchPositionTransactions, rebuildClosingStock, reconcileStock } from '@/lib/stockReconciliation';
+import { ReconciliationRow } from '@/types/stock';
+
+const PositionTransactions = ({ row }: { row: ReconciliationRow }) => {
+  const { data: transactions, isLoading } = useQuery({
+    queryKey: ['reconciliation-transactions', row.key],
+    queryFn: () => fetchPositionTransactions(row),
+  });
+
+  if (isLoading) {
+    return <div className="py-4 text-center text-sm text-gray-500">Loading transactions...</div>;
+  }
+
+  if (!transactions?.length) {
+    return <div className="py-4 text-center text-sm text-gray-500">No transactions touch this location.</div>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Reference</TableHead>
+          <TableHead>From</TableHead>
+          <TableHead>To</TableHead>
+          <TableHead className="text-right">Qty (Strips)</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transactions.map((tx) => (
+          <TableRow key={tx.transaction_id}>
+            <TableCell className="text-sm">{new Date(tx.transaction_date).toLocaleDateString()}</TableCell>
+            <TableCell>
+              <Badge variant="outline">{tx.transaction_type.replace(/_/g, ' ')}</Badge>
+            </TableCell>
+            <TableCell className="font-mono text-xs">{tx.reference_document_id || '-'}</TableCell>
+            <TableCell className="text-xs">
+              {tx.location_type_source || '-'}
+              {tx.location_id_source && <div className="text-gray-500">{tx.location_id_source}</div>}
+            </TableCell>
+            <TableCell className="text-xs">
+              {tx.location_type_destination || '-'}
+              {tx.location_id_destination && <div className="text-gray-500">{tx.location_id_destination}</div>}
+            </TableCell>
+            <TableCell className="text-right font-mono">{tx.quantity_strips}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const StockReconciliation = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mismatchesOnly, setMismatchesOnly] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [rebuildConfirmOpen, setRebuildConfirmOpen] = useState(false);
+
+  // Reconciliation replays the whole history, so it only runs on demand
+  const { data: rows, isFetching, refetch, dataUpdatedAt } = useQuery({
+    queryKey: ['stock-reconciliation'],
+    queryFn: reconcileStock,
+    enabled: false,
+  });
+
+  // Fetch MR users to label MR locations
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const rebuildMutation = useMutation({
+    mutationFn: rebuildClosingStock,
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Closing stock rebuilt from the transaction history.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['closing-stock'] });
+      queryClient.invalidateQueries({ queryKey: ['closing-stock-summary'] });
+      setRebuildConfirmOpen(false);
+      refetch();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to rebuild closing stock.",
+        variant: "destructive",
+      });
+      console.error('Error rebuilding closing stock:', error);
+    },
+  });
+
+  const getLocationLabel = (row: ReconciliationRow) => {
+    if (row.location_type === 'GODOWN') return 'Godown';
+    const mr = mrUsers?.find(user => user.user_id === row.location_id);
+    return `MR: ${mr?.name || row.location_id}`;
+  };
+
+  const mismatchCount = rows?.filter(row => row.is_mismatch).length || 0;
+  const visibleRows = (rows || []).filter(row => {
+    if (mismatchesOnly && !row.is_mismatch) return false;
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return row.product_name.toLowerCase().includes(term) ||
+      row.product_code.toLowerCase().includes(term) ||
+      row.batch_number.toLowerCase().includes(term);
+  });
+
+  const renderQuantity = (value: number, expected: number) => (
+    <span className={value === expected ? 'font-mono' : 'font-mono font-semibold text-red-600'}>
+      {value}
+    </span>
+  );
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Reconcile Stock</h1>
+          <p className="text-gray-600">
+            Compare the transaction replay with the closing stock and stock summary tables
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setRebuildConfirmOpen(true)}
+            disabled={rebuildMutation.isPending}
+          >
+            <Database className="h-4 w-4 mr-2" />
+            Rebuild Closing Stock
+          </Button>
+          <Button onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            {isFetching ? 'Reconciling...' : 'Run Reconciliation'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Positions Checked</CardTitle>
+            <Scale className="h-5 w-5 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-extrabold">{rows?.length ?? '-'}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Mismatches</CardTitle>
+            <Scale className="h-5 w-5 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-3xl font-extrabold ${mismatchCount > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {rows ? mismatchCount : '-'}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Last Run</CardTitle>
+            <RefreshCw className="h-5 w-5 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-lg font-semibold">
+              {rows ? new Date(dataUpdatedAt).toLocaleString() : 'Not run yet'}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Stock Positions</CardTitle>
+          <CardDescription>
+            Replay is the balance rebuilt from stock_transactions_view. Summary is products_stock_status for the
+            godown and mr_stock_summary for MRs.
+          </CardDescription>
+          <div className="flex flex-col sm:flex-row gap-4 pt-2">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by product name, code or batch..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="mismatches_only" checked={mismatchesOnly} onCheckedChange={setMismatchesOnly} />
+              <Label htmlFor="mismatches_only">Mismatches only</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isFetching && !rows ? (
+            <div className="text-center py-8 text-gray-500">Replaying transactions...</div>
+          ) : !rows ? (
+            <div className="text-center py-8 text-gray-500">
+              Run the reconciliation to compare stock balances.
+            </div>
+          ) : visibleRows.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              {mismatchesOnly ? 'All stock balances agree.' : 'No stock positions found.'}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8"></TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="text-right">Replay</TableHead>
+                    <TableHead className="text-right">Closing Stock</TableHead>
+                    <TableHead className="text-right">Summary</TableHead>
+                    <TableHead className="text-center">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => (
+                    <React.Fragment key={row.key}>
+                      <TableRow
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setExpandedKey(expandedKey === row.key ? null : row.key)}
+                      >
+                        <TableCell>
+                          {expandedKey === row.key ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.product_name}</div>
+                          <div className="text-sm text-gray-500">{row.product_code}</div>
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">{row.batch_number}</span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{getLocationLabel(row)}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{row.replay_quantity}</TableCell>
+                        <TableCell className="text-right">{renderQuantity(row.closing_quantity, row.replay_quantity)}</TableCell>
+                        <TableCell className="text-right">{renderQuantity(row.status_quantity, row.replay_quantity)}</TableCell>
+                        <TableCell className="text-center">
+                          <Badge variant={row.is_mismatch ? 'destructive' : 'default'}>
+                            {row.is_mismatch ? 'Mismatch' : 'OK'}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                      {expandedKey === row.key && (
+                        <TableRow className="bg-gray-50 hover:bg-gray-50">
+                          <TableCell colSpan={8}>
+                            <PositionTransactions row={row} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={rebuildConfirmOpen} onOpenChange={setRebuildConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rebuild Closing Stock</AlertDialogTitle>
+            <AlertDialogDescription>
+              This clears the closing_stock table and rebuilds it from every purchase, sale and adjustment.
+              The stock report will reflect the rebuilt figures immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                rebuildMutation.mutate();
+              }}
+              disabled={rebuildMutation.isPending}
+            >
+              {rebuildMutation.isPending ? 'Rebuilding...' : 'Rebuild'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default StockReconciliation;
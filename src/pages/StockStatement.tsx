@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import TransactionGroupDialog from '@/components/report/TransactionGroupDialog';
+import { calculateStockStatement, calculateStockStatementTotals } from '@/lib/stockStatement';
+import { toDateInput } from '@/lib/utils';
+import { StockStatementFilters, StockStatementRow, StockStatementTotals } from '@/types/stock';
+
+const getDefaultFilters = (): StockStatementFilters => {
+  const today = new Date();
+  return {
+    fromDate: toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)),
+    toDate: toDateInput(today),
+    locationFilter: 'ALL',
+    productFilter: '',
+    batchFilter: '',
+  };
+};
+
+const MOVEMENT_COLUMNS: { key: keyof StockStatementTotals; label: string }[] = [
+  { key: 'opening_quantity', label: 'Opening' },
+  { key: 'purchases', label: 'Purchases' },
+  { key: 'dispatches', label: 'MR Dispatches' },
+  { key: 'direct_sales', label: 'Direct Sales' },
+  { key: 'mr_sales', label: 'MR Sales' },
+  { key: 'returns', label: 'Returns' },
+  { key: 'write_offs', label: 'Write-offs' },
+  { key: 'replacements', label: 'Replacements' },
+  { key: 'supplier_returns', label: 'Supplier Returns' },
+  { key: 'closing_quantity', label: 'Closing' },
+];
+
+const StockStatement = () => {
+  const [filters, setFilters] = useState<StockStatementFilters>(getDefaultFilters);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+
+  const updateFilter = (key: keyof StockStatementFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setExpandedKey(null);
+  };
+
+  const isPeriodValid = !filters.fromDate || !filters.toDate || filters.fromDate <= filters.toDate;
+
+  const { data: rows, isFetching } = useQuery({
+    queryKey: ['stock-statement', filters],
+    queryFn: () => calculateStockStatement(filters),
+    enabled: isPeriodValid,
+  });
+
+  // Fetch MR users for location filter and labels
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Fetch suppliers to label purchase sources
+  const { data: supplierNames } = useQuery({
+    queryKey: ['suppliers-lookup'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('id, supplier_name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const getLocationLabel = (locationType: string | null, locationId: string | null) => {
+    if (locationType === 'SUPPLIER') {
+      const supplier = supplierNames?.find(s => s.id === locationId);
+      return `Supplier: ${supplier?.supplier_name || locationId || '-'}`;
+    }
+    if (locationType !== 'MR') return 'Godown';
+    const mr = mrUsers?.find(user => user.user_id === locationId);
+    return `MR: ${mr?.name || locationId}`;
+  };
+
+  const totals = React.useMemo(() => calculateStockStatementTotals(rows || []), [rows]);
+
+  const renderQuantity = (value: number) => (
+    <span className={value < 0 ? 'font-mono text-red-600' : value > 0 ? 'font-mono' : 'font-mono text-gray-400'}>
+      {value}
+    </span>
+  );
+
+  const renderDocuments = (row: StockStatementRow) => {
+    if (row.documents.length === 0) {
+      return <div className="py-4 text-center text-sm text-gray-500">No movements in this period.</div>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Document</TableHead>
+            <TableHead className="text-right">Qty (Strips)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {row.documents.map((document, index) => (
+            <TableRow key={`${document.transaction_group_id}_${index}`}>
+              <TableCell className="text-sm">{new Date(document.transaction_date).toLocaleDateString()}</TableCell>
+              <TableCell>
+                <Badge variant="outline">{document.transaction_type.replace(/_/g, ' ')}</Badge>
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 font-mono text-xs"
+                  onClick={() => setSelectedGroupId(document.transaction_group_id)}
+                >
+                  {document.reference_document_type} {document.transaction_group_id.slice(0, 8)}
+                </Button>
+              </TableCell>
+              <TableCell className="text-right">{renderQuantity(document.quantity_strips)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Stock Statement</h1>
+          <p className="text-gray-600">
+            Opening, inward, outward and closing stock per product, batch and location for a period
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setFilters(getDefaultFilters())}
+          className="h-8 px-3 rounded-full"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Reset Filters
+        </Button>
+      </div>
+
+      <Card className="rounded-lg border">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="fromDate" className="text-sm font-medium">From</Label>
+              <Input
+                id="fromDate"
+                type="date"
+                value={filters.fromDate}
+                onChange={(e) => updateFilter('fromDate', e.target.value)}
+                className="h-8 rounded-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="toDate" className="text-sm font-medium">To</Label>
+              <Input
+                id="toDate"
+                type="date"
+                value={filters.toDate}
+                onChange={(e) => updateFilter('toDate', e.target.value)}
+                className="h-8 rounded-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location" className="text-sm font-medium">Location</Label>
+              <Select value={filters.locationFilter} onValueChange={(value) => updateFilter('locationFilter', value)}>
+                <SelectTrigger className="h-8 rounded-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All Locations</SelectItem>
+                  <SelectItem value="GODOWN">Godown</SelectItem>
+                  <SelectItem value="MR">All MRs</SelectItem>
+                  {mrUsers?.map(mr => (
+                    <SelectItem key={mr.user_id} value={`MR_${mr.user_id}`}>
+                      MR: {mr.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product" className="text-sm font-medium">Product</Label>
+              <Input
+                id="product"
+                placeholder="Name or code..."
+                value={filters.productFilter}
+                onChange={(e) => updateFilter('productFilter', e.target.value)}
+                className="h-8 rounded-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch" className="text-sm font-medium">Batch</Label>
+              <Input
+                id="batch"
+                placeholder="Batch number..."
+                value={filters.batchFilter}
+                onChange={(e) => updateFilter('batchFilter', e.target.value)}
+                className="h-8 rounded-full"
+              />
+            </div>
+          </div>
+          {!isPeriodValid && (
+            <p className="text-sm text-red-600 mt-3">The From date must be on or before the To date.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Statement</CardTitle>
+          <CardDescription>
+            Quantities are in strips, signed from each location's point of view: dispatches reduce the godown
+            and add to the MR. Click a row to see the documents behind its movements.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isFetching && !rows ? (
+            <div className="text-center py-8 text-gray-500">Building stock statement...</div>
+          ) : !rows?.length ? (
+            <div className="text-center py-8 text-gray-500">No stock held or moved in this period.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8"></TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Location</TableHead>
+                    {MOVEMENT_COLUMNS.map(column => (
+                      <TableHead key={column.key} className="text-right">{column.label}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Closing Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <React.Fragment key={row.key}>
+                      <TableRow
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setExpandedKey(expandedKey === row.key ? null : row.key)}
+                      >
+                        <TableCell>
+                          {expandedKey === row.key ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.product_name}</div>
+                          <div className="text-sm text-gray-500">{row.product_code}</div>
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">{row.batch_number}</span>
+                          <div className="text-xs text-gray-500 mt-1">
+                            Exp: {new Date(row.expiry_date).toLocaleDateString()}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{getLocationLabel(row.location_type, row.location_id)}</Badge>
+                        </TableCell>
+                        {MOVEMENT_COLUMNS.map(column => (
+                          <TableCell key={column.key} className="text-right">{renderQuantity(row[column.key])}</TableCell>
+                        ))}
+                        <TableCell className="text-right font-mono">₹{row.closing_value.toFixed(2)}</TableCell>
+                      </TableRow>
+                      {expandedKey === row.key && (
+                        <TableRow className="bg-gray-50 hover:bg-gray-50">
+                          <TableCell colSpan={MOVEMENT_COLUMNS.length + 5}>
+                            {renderDocuments(row)}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow className="font-semibold">
+                    <TableCell></TableCell>
+                    <TableCell colSpan={3}>Total ({rows.length} positions)</TableCell>
+                    {MOVEMENT_COLUMNS.map(column => (
+                      <TableCell key={column.key} className="text-right font-mono">{totals[column.key]}</TableCell>
+                    ))}
+                    <TableCell className="text-right font-mono">₹{totals.closing_value.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <TransactionGroupDialog
+        transactionGroupId={selectedGroupId}
+        onOpenChange={(open) => !open && setSelectedGroupId(null)}
+        getLocationLabel={getLocationLabel}
+      />
+    </div>
+  );
+};
+
+export default StockStatement;
@@ -0,0 +1,358 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Scale } from 'lucide-react';
+import {
+  fetchGenericSupplierPrices,
+  fetchSupplierPurchases,
+  getSupplierGrns,
+  summarizeProductCosts,
+  summarizePurchasesByMonth,
+} from '@/lib/suppliers';
+
+const SupplierDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [activeTab, setActiveTab] = useState('grns');
+  const [compareGeneric, setCompareGeneric] = useState('');
+
+  const { data: supplier, isLoading } = useQuery({
+    queryKey: ['supplier', id],
+    queryFn: async () => {
+      if (!id) throw new Error('Supplier ID is required');
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('id', id)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: purchaseLines, isLoading: isLoadingPurchases } = useQuery({
+    queryKey: ['supplier-purchases', id],
+    queryFn: () => fetchSupplierPurchases(id!),
+    enabled: !!id,
+  });
+
+  const { data: genericPrices, isLoading: isLoadingPrices } = useQuery({
+    queryKey: ['generic-supplier-prices', compareGeneric],
+    queryFn: () => fetchGenericSupplierPrices(compareGeneric),
+    enabled: !!compareGeneric,
+  });
+
+  if (isLoading || !supplier) {
+    return <div className="p-6">Loading supplier...</div>;
+  }
+
+  const lines = purchaseLines || [];
+  const grns = getSupplierGrns(lines);
+  const months = summarizePurchasesByMonth(lines);
+  const productCosts = summarizeProductCosts(lines);
+  const generics = Array.from(new Set(productCosts.map(product => product.generic_name).filter(Boolean))).sort();
+  const totalValue = grns.reduce((sum, grn) => sum + grn.value, 0);
+  const lastPurchaseDate = grns[0]?.purchase_date;
+  const cheapestPrice = genericPrices?.[0]?.average_cost_per_strip || 0;
+
+  const formatMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+
+  const handleCompare = (genericName: string) => {
+    setCompareGeneric(genericName);
+    setActiveTab('compare');
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" onClick={() => navigate('/admin/suppliers')} className="mb-2">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Suppliers
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+          {supplier.supplier_name}
+          <Badge variant={supplier.is_active ? "default" : "secondary"}>
+            {supplier.is_active ? 'Active' : 'Inactive'}
+          </Badge>
+        </h1>
+        <p className="text-gray-600 mt-1">
+          {[supplier.supplier_code, supplier.contact_person, supplier.phone, supplier.email].filter(Boolean).join(' · ') || 'No contact details'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Total Purchases</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">₹{totalValue.toFixed(2)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">GRNs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{grns.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Products Supplied</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{productCosts.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Last Purchase</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {lastPurchaseDate ? new Date(lastPurchaseDate).toLocaleDateString() : '-'}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {isLoadingPurchases ? (
+        <div className="text-center py-8">Loading purchase history...</div>
+      ) : (
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList>
+            <TabsTrigger value="grns">GRNs</TabsTrigger>
+            <TabsTrigger value="months">By Month</TabsTrigger>
+            <TabsTrigger value="products">Products & Batches</TabsTrigger>
+            <TabsTrigger value="compare">Compare Prices</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="grns">
+            <Card>
+              <CardHeader>
+                <CardTitle>Goods Received</CardTitle>
+                <CardDescription>Every GRN from this supplier, latest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!grns.length ? (
+                  <div className="text-center py-8 text-gray-500">Nothing has been purchased from this supplier yet.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>GRN</TableHead>
+                        <TableHead className="text-right">Lines</TableHead>
+                        <TableHead className="text-right">Qty (Strips)</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {grns.map(grn => (
+                        <TableRow
+                          key={grn.purchase_group_id}
+                          className="cursor-pointer hover:bg-muted/50"
+                          onClick={() => navigate(`/admin/stock/purchase/${grn.purchase_group_id}/view`)}
+                        >
+                          <TableCell>{new Date(grn.purchase_date).toLocaleDateString()}</TableCell>
+                          <TableCell className="font-mono">{grn.reference_document_id || '-'}</TableCell>
+                          <TableCell className="text-right">{grn.lines}</TableCell>
+                          <TableCell className="text-right font-mono">{grn.quantity_strips}</TableCell>
+                          <TableCell className="text-right font-mono">₹{grn.value.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="months">
+            <Card>
+              <CardHeader>
+                <CardTitle>Purchase Value by Month</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!months.length ? (
+                  <div className="text-center py-8 text-gray-500">No purchases yet.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Month</TableHead>
+                        <TableHead className="text-right">GRNs</TableHead>
+                        <TableHead className="text-right">Qty (Strips)</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {months.map(month => (
+                        <TableRow key={month.month}>
+                          <TableCell>{formatMonth(month.month)}</TableCell>
+                          <TableCell className="text-right">{month.grns}</TableCell>
+                          <TableCell className="text-right font-mono">{month.quantity_strips}</TableCell>
+                          <TableCell className="text-right font-mono">₹{month.value.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="products">
+            <Card>
+              <CardHeader>
+                <CardTitle>Products & Batches Supplied</CardTitle>
+                <CardDescription>Average cost is weighted by strips received; the trend shows the average cost in each month bought</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!productCosts.length ? (
+                  <div className="text-center py-8 text-gray-500">No products supplied yet.</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Qty (Strips)</TableHead>
+                        <TableHead className="text-right">Avg Cost/Strip</TableHead>
+                        <TableHead className="text-right">Last Cost/Strip</TableHead>
+                        <TableHead>Last Purchase</TableHead>
+                        <TableHead>Cost Trend</TableHead>
+                        <TableHead>Batches</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {productCosts.map(product => (
+                        <TableRow key={product.product_id}>
+                          <TableCell>
+                            <div className="font-medium">{product.product_name}</div>
+                            <div className="text-sm text-gray-500">{product.product_code} · {product.generic_name}</div>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{product.quantity_strips}</TableCell>
+                          <TableCell className="text-right font-mono">₹{product.average_cost_per_strip.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-mono">₹{product.last_cost_per_strip.toFixed(2)}</TableCell>
+                          <TableCell>{new Date(product.last_purchase_date).toLocaleDateString()}</TableCell>
+                          <TableCell className="text-xs text-gray-600">
+                            {product.monthly_costs.map(point => (
+                              <div key={point.month}>
+                                {formatMonth(point.month)}: ₹{point.average_cost_per_strip.toFixed(2)}
+                              </div>
+                            ))}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {product.batches.map(batch => (
+                                <span key={batch} className="font-mono text-xs bg-gray-100 px-2 py-0.5 rounded">
+                                  {batch}
+                                </span>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {product.generic_name && (
+                              <Button variant="outline" size="sm" onClick={() => handleCompare(product.generic_name)}>
+                                <Scale className="h-4 w-4 mr-1" />
+                                Compare
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="compare">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Compare Suppliers by Generic</CardTitle>
+                    <CardDescription>Cost per strip every supplier has charged for the same generic, cheapest first</CardDescription>
+                  </div>
+                  <Select value={compareGeneric} onValueChange={setCompareGeneric}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="Choose a generic..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {generics.map(generic => (
+                        <SelectItem key={generic} value={generic}>{generic}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {!compareGeneric ? (
+                  <div className="text-center py-8 text-gray-500">Choose a generic this supplier has supplied.</div>
+                ) : isLoadingPrices ? (
+                  <div className="text-center py-8">Loading prices...</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Supplier</TableHead>
+                        <TableHead className="text-right">Qty (Strips)</TableHead>
+                        <TableHead className="text-right">Avg Cost/Strip</TableHead>
+                        <TableHead className="text-right">vs Cheapest</TableHead>
+                        <TableHead className="text-right">Last Cost/Strip</TableHead>
+                        <TableHead>Last Purchase</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {genericPrices?.map(price => (
+                        <TableRow key={price.supplier_id} className={price.supplier_id === id ? 'bg-blue-50' : ''}>
+                          <TableCell className="font-medium">
+                            {price.supplier_id === id ? (
+                              price.supplier_name
+                            ) : (
+                              <Button
+                                variant="link"
+                                className="h-auto p-0"
+                                onClick={() => navigate(`/admin/suppliers/${price.supplier_id}`)}
+                              >
+                                {price.supplier_name}
+                              </Button>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{price.quantity_strips}</TableCell>
+                          <TableCell className="text-right font-mono">₹{price.average_cost_per_strip.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {cheapestPrice && price.average_cost_per_strip > cheapestPrice
+                              ? `+${(((price.average_cost_per_strip - cheapestPrice) / cheapestPrice) * 100).toFixed(1)}%`
+                              : '-'}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">₹{price.last_cost_per_strip.toFixed(2)}</TableCell>
+                          <TableCell>{new Date(price.last_purchase_date).toLocaleDateString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default SupplierDetail;
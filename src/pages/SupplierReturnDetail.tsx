@@ -0,0 +1,190 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Printer } from 'lucide-react';
+import {
+  fetchBatchGrnReferences,
+  fetchSupplierReturn,
+  fetchSupplierReturnLines,
+} from '@/lib/supplierReturns';
+
+const SupplierReturnDetail = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+
+  const { data: supplierReturn, isLoading } = useQuery({
+    queryKey: ['supplier-return', id],
+    queryFn: () => fetchSupplierReturn(id!),
+    enabled: !!id,
+  });
+
+  const { data: lines } = useQuery({
+    queryKey: ['supplier-return-lines', id],
+    queryFn: () => fetchSupplierReturnLines(id!),
+    enabled: !!id,
+  });
+
+  // GRNs each returned batch was received under, for returns not raised against a single GRN
+  const { data: grnReferences } = useQuery({
+    queryKey: ['supplier-return-grn-references', id, lines?.length],
+    queryFn: () => fetchBatchGrnReferences(
+      supplierReturn!.supplier_id,
+      Array.from(new Set(lines!.map(line => line.batch_id)))
+    ),
+    enabled: !!supplierReturn && !!lines,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p>Loading debit note...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!supplierReturn) {
+    return (
+      <div className="p-6">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-red-600">Debit note not found.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const supplier = supplierReturn.suppliers;
+  const totalStrips = lines?.reduce((sum, line) => sum + line.quantity_strips, 0) || 0;
+  const totalValue = lines?.reduce((sum, line) => sum + line.quantity_strips * line.cost_per_strip, 0) || 0;
+
+  const getGrnReference = (batchId: string) =>
+    supplierReturn.original_reference_document_id ||
+    grnReferences?.get(batchId)?.join(', ') ||
+    '-';
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 print:hidden">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" onClick={() => navigate('/admin/stock/adjustments')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Adjustments
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900">Debit Note {supplierReturn.debit_note_number}</h1>
+        </div>
+        <Button variant="outline" onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print Debit Note
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle className="text-2xl">Debit Note</CardTitle>
+              <p className="text-sm text-gray-600 mt-1">Goods returned to supplier</p>
+            </div>
+            <div className="text-right text-sm space-y-1">
+              <div><span className="text-gray-500">Debit Note No:</span> <span className="font-semibold">{supplierReturn.debit_note_number}</span></div>
+              <div><span className="text-gray-500">Date:</span> {new Date(supplierReturn.return_date).toLocaleDateString()}</div>
+              {supplierReturn.original_reference_document_id && (
+                <div><span className="text-gray-500">Against GRN:</span> {supplierReturn.original_reference_document_id}</div>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 gap-6 text-sm">
+            <div>
+              <p className="text-gray-500 mb-1">Supplier</p>
+              <p className="font-semibold">
+                {supplier?.supplier_name} {supplier?.supplier_code && `(${supplier.supplier_code})`}
+              </p>
+              {supplier?.contact_person && <p>{supplier.contact_person}</p>}
+              {supplier?.address && <p className="whitespace-pre-line">{supplier.address}</p>}
+              {supplier?.phone && <p>Phone: {supplier.phone}</p>}
+              {supplier?.email && <p>Email: {supplier.email}</p>}
+            </div>
+            <div>
+              <p className="text-gray-500 mb-1">Reason for Return</p>
+              <p className="font-medium">{supplierReturn.reason}</p>
+              {supplierReturn.notes && (
+                <>
+                  <p className="text-gray-500 mt-3 mb-1">Notes</p>
+                  <p>{supplierReturn.notes}</p>
+                </>
+              )}
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead>GRN Reference</TableHead>
+                <TableHead className="text-right">Qty (Strips)</TableHead>
+                <TableHead className="text-right">Rate/Strip</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines?.map((line, index) => (
+                <TableRow key={line.adjustment_id}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{line.products?.product_name}</div>
+                    <div className="text-xs text-gray-500">{line.products?.product_code}</div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{line.product_batches?.batch_number}</TableCell>
+                  <TableCell className="text-sm">
+                    {line.product_batches?.expiry_date
+                      ? new Date(line.product_batches.expiry_date).toLocaleDateString()
+                      : '-'}
+                  </TableCell>
+                  <TableCell className="text-sm">{getGrnReference(line.batch_id)}</TableCell>
+                  <TableCell className="text-right font-mono">{line.quantity_strips}</TableCell>
+                  <TableCell className="text-right font-mono">₹{Number(line.cost_per_strip).toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    ₹{(line.quantity_strips * line.cost_per_strip).toFixed(2)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5} className="font-semibold">Total</TableCell>
+                <TableCell className="text-right font-mono font-semibold">{totalStrips}</TableCell>
+                <TableCell></TableCell>
+                <TableCell className="text-right font-mono font-semibold">₹{totalValue.toFixed(2)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+
+          <p className="text-sm text-gray-600">
+            Please credit our account with ₹{totalValue.toFixed(2)} for the goods returned above.
+          </p>
+
+          <div className="grid grid-cols-2 gap-6 pt-12 text-sm">
+            <div className="border-t pt-2 text-gray-600">Prepared by</div>
+            <div className="border-t pt-2 text-gray-600 text-right">Received by (Supplier)</div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SupplierReturnDetail;
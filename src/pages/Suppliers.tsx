@@ -9,7 +9,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Edit, Trash2, Building2 } from 'lucide-react';
+import { Plus, Edit, Trash2, Building2, Eye } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import {
   Dialog,
@@ -20,6 +21,10 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import UnmatchedSupplierPurchases from '@/components/suppliers/UnmatchedSupplierPurchases';
+import { fetchSupplierPurchaseSummary } from '@/lib/suppliers';
+import { GST_STATES, getGstinStateCode, isValidGstin } from '@/lib/gst';
 
 interface Supplier {
   id: string;
@@ -29,6 +34,8 @@ interface Supplier {
   email: string | null;
   phone: string | null;
   address: string | null;
+  gstin: string | null;
+  state_code: string | null;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -41,10 +48,13 @@ interface SupplierFormData {
   email: string;
   phone: string;
   address: string;
+  gstin: string;
+  state_code: string;
   is_active: boolean;
 }
 
 const Suppliers = () => {
+  const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -56,6 +66,8 @@ const Suppliers = () => {
     email: '',
     phone: '',
     address: '',
+    gstin: '',
+    state_code: '',
     is_active: true,
   });
 
@@ -73,6 +85,12 @@ const Suppliers = () => {
     },
   });
 
+  // Purchase counts and last purchase date per supplier
+  const { data: purchaseSummary } = useQuery({
+    queryKey: ['supplier-purchase-summary'],
+    queryFn: fetchSupplierPurchaseSummary,
+  });
+
   // Create supplier mutation
   const createSupplierMutation = useMutation({
     mutationFn: async (supplierData: Omit<SupplierFormData, 'supplier_code'> & { supplier_code?: string }) => {
@@ -81,6 +99,8 @@ const Suppliers = () => {
         .insert([{
           ...supplierData,
           supplier_code: supplierData.supplier_code || null,
+          gstin: supplierData.gstin || null,
+          state_code: supplierData.state_code || null,
         }])
         .select()
         .single();
@@ -115,6 +135,8 @@ const Suppliers = () => {
         .update({
           ...data,
           supplier_code: data.supplier_code || null,
+          gstin: data.gstin || null,
+          state_code: data.state_code || null,
         })
         .eq('id', id);
       
@@ -148,6 +170,8 @@ const Suppliers = () => {
       email: '',
       phone: '',
       address: '',
+      gstin: '',
+      state_code: '',
       is_active: true,
     });
     setEditingSupplier(null);
@@ -165,6 +189,15 @@ const Suppliers = () => {
       return;
     }
 
+    if (formData.gstin && !isValidGstin(formData.gstin)) {
+      toast({
+        title: "Error",
+        description: "GSTIN is not valid. It should look like 27ABCDE1234F1Z5.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (editingSupplier) {
       updateSupplierMutation.mutate({ id: editingSupplier.id, data: formData });
     } else {
@@ -172,6 +205,12 @@ const Suppliers = () => {
     }
   };
 
+  // A valid GSTIN carries the supplier's state in its first two digits
+  const handleGstinChange = (value: string) => {
+    const gstin = value.toUpperCase();
+    setFormData({ ...formData, gstin, state_code: getGstinStateCode(gstin) || formData.state_code });
+  };
+
   const handleEdit = (supplier: Supplier) => {
     setEditingSupplier(supplier);
     setFormData({
@@ -181,6 +220,8 @@ const Suppliers = () => {
       email: supplier.email || '',
       phone: supplier.phone || '',
       address: supplier.address || '',
+      gstin: supplier.gstin || '',
+      state_code: supplier.state_code || '',
       is_active: supplier.is_active,
     });
     setIsDialogOpen(true);
@@ -274,6 +315,37 @@ const Suppliers = () => {
                   />
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="gstin">GSTIN</Label>
+                    <Input
+                      id="gstin"
+                      value={formData.gstin}
+                      onChange={(e) => handleGstinChange(e.target.value)}
+                      placeholder="e.g., 27ABCDE1234F1Z5"
+                      maxLength={15}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="state_code">State</Label>
+                    <Select
+                      value={formData.state_code}
+                      onValueChange={(value) => setFormData({ ...formData, state_code: value })}
+                    >
+                      <SelectTrigger id="state_code">
+                        <SelectValue placeholder="Select state" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {GST_STATES.map((state) => (
+                          <SelectItem key={state.code} value={state.code}>
+                            {state.code} - {state.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
                 <div>
                   <Label htmlFor="address">Address</Label>
                   <Textarea
@@ -307,6 +379,8 @@ const Suppliers = () => {
           </Dialog>
         </div>
 
+        <UnmatchedSupplierPurchases suppliers={suppliers || []} />
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -333,9 +407,12 @@ const Suppliers = () => {
                     <TableRow>
                       <TableHead>Supplier Name</TableHead>
                       <TableHead>Code</TableHead>
+                      <TableHead>GSTIN</TableHead>
                       <TableHead>Contact Person</TableHead>
                       <TableHead>Email</TableHead>
                       <TableHead>Phone</TableHead>
+                      <TableHead className="text-right">Purchases</TableHead>
+                      <TableHead>Last Purchase</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
@@ -344,12 +421,27 @@ const Suppliers = () => {
                     {suppliers.map((supplier) => (
                       <TableRow key={supplier.id}>
                         <TableCell className="font-medium">
-                          {supplier.supplier_name}
+                          <button
+                            type="button"
+                            className="hover:underline text-left"
+                            onClick={() => navigate(`/admin/suppliers/${supplier.id}`)}
+                          >
+                            {supplier.supplier_name}
+                          </button>
                         </TableCell>
                         <TableCell>{supplier.supplier_code || '-'}</TableCell>
+                        <TableCell className="font-mono text-sm">{supplier.gstin || '-'}</TableCell>
                         <TableCell>{supplier.contact_person || '-'}</TableCell>
                         <TableCell>{supplier.email || '-'}</TableCell>
                         <TableCell>{supplier.phone || '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {purchaseSummary?.get(supplier.id)?.purchases || 0}
+                        </TableCell>
+                        <TableCell>
+                          {purchaseSummary?.get(supplier.id)
+                            ? new Date(purchaseSummary.get(supplier.id)!.last_purchase_date).toLocaleDateString()
+                            : '-'}
+                        </TableCell>
                         <TableCell>
                           <Badge variant={supplier.is_active ? "default" : "secondary"}>
                             {supplier.is_active ? 'Active' : 'Inactive'}
@@ -357,6 +449,13 @@ const Suppliers = () => {
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/admin/suppliers/${supplier.id}`)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
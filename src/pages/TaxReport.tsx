@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, RefreshCw } from 'lucide-react';
+import CompanyGstDetails from '@/components/report/CompanyGstDetails';
+import { downloadCsv } from '@/lib/csv';
+import {
+  fetchTaxReportLines,
+  getStateName,
+  summarizeTax,
+  summarizeTaxByDocument,
+  summarizeTaxByRate,
+} from '@/lib/gst';
+import { toDateInput } from '@/lib/utils';
+import { TaxDirection, TaxReportFilters, TaxTotals } from '@/types/stock';
+
+// Returns are filed by calendar month, so default to the previous one
+const getDefaultFilters = (): TaxReportFilters => {
+  const today = new Date();
+  return {
+    fromDate: toDateInput(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+    toDate: toDateInput(new Date(today.getFullYear(), today.getMonth(), 0)),
+  };
+};
+
+const DIRECTIONS: { key: TaxDirection; label: string; party: string; description: string }[] = [
+  {
+    key: 'input',
+    label: 'Input Tax (Purchases)',
+    party: 'Supplier',
+    description: 'GST charged by suppliers on GRNs received in the period, claimable as input credit',
+  },
+  {
+    key: 'output',
+    label: 'Output Tax (Direct Sales)',
+    party: 'Customer',
+    description: 'GST charged to customers on direct sales invoiced in the period',
+  },
+];
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+const TaxReport = () => {
+  const [filters, setFilters] = useState<TaxReportFilters>(getDefaultFilters);
+  const [direction, setDirection] = useState<TaxDirection>('input');
+
+  const isPeriodValid = !!filters.fromDate && !!filters.toDate && filters.fromDate <= filters.toDate;
+  const currentDirection = DIRECTIONS.find(option => option.key === direction)!;
+
+  const { data: lines, isFetching } = useQuery({
+    queryKey: ['tax-report', direction, filters],
+    queryFn: () => fetchTaxReportLines(direction, filters),
+    enabled: isPeriodValid,
+  });
+
+  const rateRows = React.useMemo(() => summarizeTaxByRate(lines || []), [lines]);
+  const documentRows = React.useMemo(() => summarizeTaxByDocument(lines || []), [lines]);
+  const totals = React.useMemo(() => summarizeTax(lines || []), [lines]);
+
+  const getFileName = (report: string) => `${direction}-tax-${report}-${filters.fromDate}-to-${filters.toDate}.csv`;
+
+  const toTaxValues = (row: TaxTotals) => [
+    formatAmount(row.taxable_value),
+    formatAmount(row.cgst_amount),
+    formatAmount(row.sgst_amount),
+    formatAmount(row.igst_amount),
+    formatAmount(row.tax_amount),
+  ];
+
+  const exportRateSummary = () => {
+    downloadCsv(
+      getFileName('hsn-summary'),
+      ['HSN', 'GST Rate %', 'Quantity (Strips)', 'Taxable Value', 'CGST', 'SGST', 'IGST', 'Total Tax'],
+      rateRows.map(row => [row.hsn_code, row.gst_rate, row.quantity_strips, ...toTaxValues(row)])
+    );
+  };
+
+  const exportDocumentRegister = () => {
+    downloadCsv(
+      getFileName('invoices'),
+      [
+        'Date', direction === 'input' ? 'GRN' : 'Invoice', currentDirection.party, 'GSTIN', 'Place of Supply',
+        'Taxable Value', 'CGST', 'SGST', 'IGST', 'Total Tax', 'Invoice Value',
+      ],
+      documentRows.map(row => [
+        row.document_date,
+        row.document_number,
+        row.party_name,
+        row.party_gstin,
+        row.party_state_code ? `${row.party_state_code}-${getStateName(row.party_state_code)}` : '',
+        ...toTaxValues(row),
+        formatAmount(row.taxable_value + row.tax_amount),
+      ])
+    );
+  };
+
+  const renderTaxCells = (row: TaxTotals, className = 'text-right font-mono') => (
+    <>
+      <TableCell className={className}>{formatAmount(row.taxable_value)}</TableCell>
+      <TableCell className={className}>{formatAmount(row.cgst_amount)}</TableCell>
+      <TableCell className={className}>{formatAmount(row.sgst_amount)}</TableCell>
+      <TableCell className={className}>{formatAmount(row.igst_amount)}</TableCell>
+      <TableCell className={className}>{formatAmount(row.tax_amount)}</TableCell>
+    </>
+  );
+
+  const renderTaxHeads = () => (
+    <>
+      <TableHead className="text-right">Taxable Value</TableHead>
+      <TableHead className="text-right">CGST</TableHead>
+      <TableHead className="text-right">SGST</TableHead>
+      <TableHead className="text-right">IGST</TableHead>
+      <TableHead className="text-right">Total Tax</TableHead>
+    </>
+  );
+
+  const renderReport = () => {
+    if (isFetching && !lines) {
+      return <div className="text-center py-8 text-gray-500">Loading tax summary...</div>;
+    }
+    if (!lines?.length) {
+      return <div className="text-center py-8 text-gray-500">No taxed documents in this period.</div>;
+    }
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle className="text-lg font-semibold">HSN-wise Summary</CardTitle>
+              <CardDescription>Taxable value and tax by HSN code and GST rate</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={exportRateSummary}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>HSN</TableHead>
+                  <TableHead className="text-right">GST Rate</TableHead>
+                  <TableHead className="text-right">Qty (Strips)</TableHead>
+                  {renderTaxHeads()}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rateRows.map(row => (
+                  <TableRow key={`${row.hsn_code}|${row.gst_rate}`}>
+                    <TableCell className="font-mono">{row.hsn_code || <span className="text-amber-700">Not set</span>}</TableCell>
+                    <TableCell className="text-right">{row.gst_rate}%</TableCell>
+                    <TableCell className="text-right font-mono">{row.quantity_strips}</TableCell>
+                    {renderTaxCells(row)}
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={3} className="font-semibold">Total</TableCell>
+                  {renderTaxCells(totals, 'text-right font-mono font-semibold')}
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle className="text-lg font-semibold">Invoice Register</CardTitle>
+              <CardDescription>One row per {direction === 'input' ? 'GRN' : 'sale invoice'} with its tax split</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={exportDocumentRegister}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>{direction === 'input' ? 'GRN' : 'Invoice'}</TableHead>
+                  <TableHead>{currentDirection.party}</TableHead>
+                  <TableHead>GSTIN</TableHead>
+                  <TableHead>Place of Supply</TableHead>
+                  {renderTaxHeads()}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documentRows.map(row => (
+                  <TableRow key={row.group_id}>
+                    <TableCell className="text-sm">{new Date(row.document_date).toLocaleDateString()}</TableCell>
+                    <TableCell className="font-mono text-sm">{row.document_number || '-'}</TableCell>
+                    <TableCell className="font-medium">{row.party_name || '-'}</TableCell>
+                    <TableCell className="font-mono text-sm">{row.party_gstin || 'Unregistered'}</TableCell>
+                    <TableCell className="text-sm">{getStateName(row.party_state_code) || '-'}</TableCell>
+                    {renderTaxCells(row)}
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={5} className="font-semibold">Total</TableCell>
+                  {renderTaxCells(totals, 'text-right font-mono font-semibold')}
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full p-6 space-y-6">
+      <div className="mb-8 flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">GST Reports</h1>
+          <p className="text-gray-600">
+            Input and output tax by HSN, rate and invoice for a return period
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setFilters(getDefaultFilters())}
+          className="h-8 px-3 rounded-full"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Reset Period
+        </Button>
+      </div>
+
+      <CompanyGstDetails />
+
+      <Card className="rounded-lg border">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="fromDate" className="text-sm font-medium">From</Label>
+              <Input
+                id="fromDate"
+                type="date"
+                value={filters.fromDate}
+                onChange={(e) => setFilters({ ...filters, fromDate: e.target.value })}
+                className="h-8 rounded-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="toDate" className="text-sm font-medium">To</Label>
+              <Input
+                id="toDate"
+                type="date"
+                value={filters.toDate}
+                onChange={(e) => setFilters({ ...filters, toDate: e.target.value })}
+                className="h-8 rounded-full"
+              />
+            </div>
+          </div>
+          {!isPeriodValid && (
+            <p className="text-sm text-red-600 mt-3">Choose a period whose From date is on or before its To date.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Tabs value={direction} onValueChange={(value) => setDirection(value as TaxDirection)}>
+        <TabsList className="mb-4">
+          {DIRECTIONS.map(option => (
+            <TabsTrigger key={option.key} value={option.key}>{option.label}</TabsTrigger>
+          ))}
+        </TabsList>
+        {DIRECTIONS.map(option => (
+          <TabsContent key={option.key} value={option.key} className="space-y-4">
+            <p className="text-sm text-gray-600">{option.description}</p>
+            {option.key === direction && renderReport()}
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+};
+
+export default TaxReport;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Edit, Map as MapIcon, Plus } from 'lucide-react';
+import TerritoryFormDialog from '@/components/territories/TerritoryFormDialog';
+import { Territory, buildTerritoryTree, fetchTerritories, getUserIdsInTerritory } from '@/lib/territories';
+
+const LEVEL_STYLES: Record<string, string> = {
+  Zone: 'bg-purple-100 text-purple-800 border-purple-200',
+  Region: 'bg-blue-100 text-blue-800 border-blue-200',
+  HQ: 'bg-teal-100 text-teal-800 border-teal-200',
+  Territory: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+const Territories = () => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTerritory, setEditingTerritory] = useState<Territory | null>(null);
+  const [parentTerritory, setParentTerritory] = useState<Territory | null>(null);
+
+  const { data: territories, isLoading } = useQuery({
+    queryKey: ['territories'],
+    queryFn: fetchTerritories,
+  });
+
+  // Fetch MRs with their territory to count who works where
+  const { data: mrUsers } = useQuery({
+    queryKey: ['mr-users-territories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, name, territory_id')
+        .eq('role', 'mr');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const openDialog = (territory: Territory | null, parent: Territory | null = null) => {
+    setEditingTerritory(territory);
+    setParentTerritory(parent);
+    setIsDialogOpen(true);
+  };
+
+  const tree = buildTerritoryTree(territories || []);
+
+  return (
+    <div className="container mx-auto px-6 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Territories</h1>
+          <p className="text-gray-600 mt-2">Zones, regions, HQs and the territories MRs are assigned to</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Zone
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapIcon className="h-5 w-5" />
+            Territory Hierarchy
+          </CardTitle>
+          <CardDescription>
+            Reports can be filtered to every MR under any of these. Assign MRs to territories from the Users page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading territories...</div>
+            </div>
+          ) : tree.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">No territories yet. Start by adding a zone.</div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>MRs</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tree.map(({ territory, depth }) => {
+                    const assignedMRs = mrUsers?.filter(mr => mr.territory_id === territory.id) || [];
+                    const mrCount = getUserIdsInTerritory(territories || [], mrUsers || [], territory.id).length;
+                    return (
+                      <TableRow key={territory.id}>
+                        <TableCell className="font-medium">
+                          <div style={{ paddingLeft: depth * 24 }}>
+                            {territory.territory_name}
+                            {territory.level !== 'Zone' && !territory.parent_id && (
+                              <span className="ml-2 text-xs text-amber-600">not placed</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={LEVEL_STYLES[territory.level]}>
+                            {territory.level}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{territory.territory_code || '-'}</TableCell>
+                        <TableCell className="text-sm">
+                          {territory.level === 'Territory'
+                            ? assignedMRs.map(mr => mr.name).join(', ') || '-'
+                            : mrCount}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={territory.is_active ? "default" : "secondary"}>
+                            {territory.is_active ? 'Active' : 'Inactive'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => openDialog(territory)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {territory.level !== 'Territory' && (
+                              <Button variant="outline" size="sm" onClick={() => openDialog(null, territory)}>
+                                <Plus className="h-4 w-4 mr-1" />
+                                {territory.level === 'Zone' ? 'Region' : territory.level === 'Region' ? 'HQ' : 'Territory'}
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <TerritoryFormDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        territory={editingTerritory}
+        territories={territories || []}
+        parent={parentTerritory}
+      />
+    </div>
+  );
+};
+
+export default Territories;
@@ -0,0 +1,380 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Check, Edit, KeyRound, Mail, Search, UserCheck, UserPlus, Users as UsersIcon, UserX, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import UserFormDialog from '@/components/users/UserFormDialog';
+import { getRoleBadgeColor, getRoleLabel } from '@/lib/permissions';
+import { fetchTerritories, getTerritoryPath } from '@/lib/territories';
+import {
+  USER_STATUS_STYLES,
+  UserAccount,
+  UserStatus,
+  fetchUserAccounts,
+  sendInvitationEmail,
+  sendPasswordReset,
+  setUserStatus,
+} from '@/lib/userAdmin';
+
+const Users = () => {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<UserAccount | null>(null);
+  const [userToDeactivate, setUserToDeactivate] = useState<UserAccount | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<UserStatus | 'all'>('all');
+
+  const { data: users, isLoading } = useQuery({
+    queryKey: ['user-accounts'],
+    queryFn: fetchUserAccounts,
+  });
+
+  const { data: territories } = useQuery({
+    queryKey: ['territories'],
+    queryFn: fetchTerritories,
+  });
+
+  const getTerritoryName = (territoryId: string | null) =>
+    territoryId ? getTerritoryPath(territories || [], territoryId) : '';
+
+  const statusMutation = useMutation({
+    mutationFn: ({ account, status }: { account: UserAccount; status: UserStatus }) =>
+      setUserStatus(account.user_id, status),
+    onSuccess: (_, { account, status }) => {
+      queryClient.invalidateQueries({ queryKey: ['user-accounts'] });
+      toast({
+        title: "Success",
+        description: status === 'Active'
+          ? `${account.name || account.email} can now sign in.`
+          : `${account.name || account.email} has been deactivated.`,
+      });
+      setUserToDeactivate(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message ? error.message : "Failed to change the account status",
+        variant: "destructive",
+      });
+      console.error('Error changing user status:', error);
+    },
+  });
+
+  const passwordResetMutation = useMutation({
+    mutationFn: (account: UserAccount) => sendPasswordReset(account.email),
+    onSuccess: (_, account) => {
+      toast({
+        title: "Success",
+        description: `A password reset link has been emailed to ${account.email}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to send the password reset email",
+        variant: "destructive",
+      });
+      console.error('Error sending password reset:', error);
+    },
+  });
+
+  const invitationMutation = useMutation({
+    mutationFn: (account: UserAccount) => sendInvitationEmail(account.email, account.name),
+    onSuccess: (_, account) => {
+      toast({
+        title: "Success",
+        description: `A new sign-in link has been emailed to ${account.email}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: "Failed to resend the invitation",
+        variant: "destructive",
+      });
+      console.error('Error resending invitation:', error);
+    },
+  });
+
+  const openDialog = (account: UserAccount | null) => {
+    setEditingUser(account);
+    setIsDialogOpen(true);
+  };
+
+  const getUserName = (userId: string | null) =>
+    userId ? users?.find(account => account.user_id === userId)?.name || 'Unknown user' : '-';
+
+  const pendingUsers = users?.filter(account => account.status === 'Pending') || [];
+  const managers = users?.filter(account => account.status === 'Active' && account.role !== 'mr') || [];
+
+  const filteredUsers = users?.filter(account => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      account.name.toLowerCase().includes(term) ||
+      account.email.toLowerCase().includes(term) ||
+      getTerritoryName(account.territory_id).toLowerCase().includes(term);
+    return matchesSearch && (statusFilter === 'all' || account.status === statusFilter);
+  });
+
+  return (
+    <div className="container mx-auto px-6 py-8 space-y-6">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Users</h1>
+          <p className="text-gray-600 mt-2">Invite people, approve signups and manage their access</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite User
+        </Button>
+      </div>
+
+      {pendingUsers.length > 0 && (
+        <Card className="border-amber-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCheck className="h-5 w-5 text-amber-600" />
+              Waiting for Approval
+              <Badge variant="secondary">{pendingUsers.length}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Self-registered accounts start as Medical Representatives. Change the role first if they need different access.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Signed Up</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingUsers.map(account => (
+                  <TableRow key={account.id}>
+                    <TableCell className="font-medium">{account.name || '-'}</TableCell>
+                    <TableCell>{account.email}</TableCell>
+                    <TableCell>{getRoleLabel(account.role)}</TableCell>
+                    <TableCell>{new Date(account.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => openDialog(account)}>
+                          <Edit className="h-4 w-4 mr-1" />
+                          Role
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => statusMutation.mutate({ account, status: 'Active' })}
+                          disabled={statusMutation.isPending}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => statusMutation.mutate({ account, status: 'Deactivated' })}
+                          disabled={statusMutation.isPending}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <UsersIcon className="h-5 w-5" />
+              All Users
+            </CardTitle>
+            <CardDescription>
+              Deactivated users keep their history but can no longer sign in
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as UserStatus | 'all')}>
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="Active">Active</SelectItem>
+                <SelectItem value="Pending">Pending</SelectItem>
+                <SelectItem value="Deactivated">Deactivated</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="relative">
+              <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search users..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8 h-8 w-56"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">Loading users...</div>
+            </div>
+          ) : !filteredUsers || filteredUsers.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="text-gray-500">
+                {searchTerm || statusFilter !== 'all' ? 'No users match your filters.' : 'No users found.'}
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Territory</TableHead>
+                    <TableHead>Reports To</TableHead>
+                    <TableHead>Last Login</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredUsers.map(account => {
+                    const isCurrentUser = account.user_id === currentUser?.id;
+                    return (
+                      <TableRow key={account.id}>
+                        <TableCell className="font-medium">
+                          {account.name || '-'}
+                          {isCurrentUser && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </TableCell>
+                        <TableCell>{account.email}</TableCell>
+                        <TableCell>
+                          <span className={`text-xs px-2 py-0.5 rounded-full font-medium border ${getRoleBadgeColor(account.role)}`}>
+                            {getRoleLabel(account.role)}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={USER_STATUS_STYLES[account.status as UserStatus]}>
+                            {account.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">{getTerritoryName(account.territory_id) || '-'}</TableCell>
+                        <TableCell>{getUserName(account.reports_to)}</TableCell>
+                        <TableCell className="text-sm">
+                          {account.last_sign_in_at
+                            ? new Date(account.last_sign_in_at).toLocaleString()
+                            : account.email_confirmed_at ? 'Never' : 'Email not confirmed'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => openDialog(account)} title="Edit access">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            {!account.email_confirmed_at && account.status !== 'Deactivated' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => invitationMutation.mutate(account)}
+                                disabled={invitationMutation.isPending}
+                                title="Resend the sign-in link"
+                              >
+                                <Mail className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => passwordResetMutation.mutate(account)}
+                              disabled={passwordResetMutation.isPending || account.status === 'Deactivated'}
+                              title="Email a password reset link"
+                            >
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                            {account.status === 'Deactivated' ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => statusMutation.mutate({ account, status: 'Active' })}
+                                disabled={statusMutation.isPending}
+                              >
+                                Reactivate
+                              </Button>
+                            ) : account.status === 'Active' && !isCurrentUser && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => setUserToDeactivate(account)}
+                                title="Deactivate"
+                              >
+                                <UserX className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <UserFormDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        user={editingUser}
+        managers={managers}
+      />
+
+      <AlertDialog open={!!userToDeactivate} onOpenChange={(open) => !open && setUserToDeactivate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate User</AlertDialogTitle>
+            <AlertDialogDescription>
+              {userToDeactivate?.name || userToDeactivate?.email} will no longer be able to sign in or use
+              StockMap. Their documents and stock history are kept, and the account can be reactivated later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => userToDeactivate && statusMutation.mutate({ account: userToDeactivate, status: 'Deactivated' })}
+              disabled={statusMutation.isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {statusMutation.isPending ? 'Deactivating...' : 'Deactivate'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Users;
@@ -14,6 +14,8 @@ export interface StockItem {
   category_name?: string;
   min_stock_level_godown?: number;
   min_stock_level_mr?: number;
+  // What the location holds of the product across all its batches
+  location_product_quantity_strips?: number;
 }
 
 export interface StockSummary {
@@ -53,11 +55,404 @@ export interface Transaction {
   transaction_date: string;
 }
 
+export interface StockEffect {
+  location_type: string;
+  location_id: string;
+  quantity_strips: number;
+}
+
 export interface StockFilters {
   locationFilter: string;
+  // MR locations an AREA_<territory id> location filter resolves to
+  locationIds?: string[];
   productFilter: string;
   categoryFilter: string;
   batchFilter: string;
   expiryFromDate: string;
   expiryToDate: string;
-}
\ No newline at end of file
+  asOfDate?: string;
+}
+export interface StockPageOptions {
+  page: number;
+  pageSize: number;
+  sortField: string;
+  sortDirection: 'asc' | 'desc';
+}
+
+export interface StockPage {
+  items: StockItem[];
+  totalCount: number;
+}
+
+export interface ReconciliationRow {
+  key: string;
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  batch_id: string;
+  batch_number: string;
+  location_type: string;
+  location_id: string;
+  replay_quantity: number;
+  closing_quantity: number;
+  status_quantity: number;
+  is_mismatch: boolean;
+}
+
+// A position where replaying the transactions and closing_stock disagree
+export interface PositionMismatch {
+  location_type: string;
+  location_id: string;
+  replay_quantity: number;
+  closing_quantity: number;
+}
+
+export interface StockStatementFilters {
+  fromDate: string;
+  toDate: string;
+  locationFilter: string;
+  productFilter: string;
+  batchFilter: string;
+}
+
+export interface StockStatementDocument {
+  transaction_group_id: string;
+  reference_document_type: string;
+  transaction_type: string;
+  transaction_date: string;
+  quantity_strips: number;
+}
+
+export interface StockStatementRow {
+  key: string;
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string;
+  location_type: string;
+  location_id: string;
+  opening_quantity: number;
+  purchases: number;
+  dispatches: number;
+  direct_sales: number;
+  mr_sales: number;
+  returns: number;
+  write_offs: number;
+  replacements: number;
+  supplier_returns: number;
+  closing_quantity: number;
+  cost_per_strip: number;
+  closing_value: number;
+  documents: StockStatementDocument[];
+}
+
+export type StockStatementTotals = Pick<StockStatementRow,
+  'opening_quantity' | 'purchases' | 'dispatches' | 'direct_sales' | 'mr_sales' |
+  'returns' | 'write_offs' | 'replacements' | 'supplier_returns' | 'closing_quantity' | 'closing_value'>;
+
+export interface BatchLedgerEntry {
+  key: string;
+  transaction_id: string;
+  transaction_group_id: string;
+  reference_document_type: string;
+  transaction_type: string;
+  transaction_date: string;
+  location_type: string;
+  location_id: string;
+  quantity_strips: number;
+  location_balance: number;
+  batch_balance: number;
+  notes: string | null;
+}
+
+export interface RecallHolding {
+  location_type: string;
+  location_id: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+}
+
+export interface RecallCustomer {
+  customer_name: string;
+  sold_through: string[];
+  invoices: string[];
+  quantity_sold: number;
+  quantity_recovered: number;
+  cost_per_strip: number;
+  last_sale_date: string;
+}
+
+export interface FefoAllocation {
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+}
+
+export interface FefoAllocationResult {
+  allocations: FefoAllocation[];
+  shortfall_strips: number;
+  skipped_batches: number;
+}
+
+export interface ExpiryBucket {
+  key: string;
+  label: string;
+  // Inclusive range of days to expiry; null means open-ended
+  min_days: number | null;
+  max_days: number | null;
+}
+
+export interface NearExpiryItem {
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  category_name: string | null;
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string;
+  location_type: string;
+  location_id: string;
+  quantity_strips: number;
+  cost_per_strip: number;
+  value: number;
+  days_to_expiry: number;
+  bucket_key: string;
+}
+
+export type NearExpiryGrouping = 'location' | 'product' | 'category';
+
+export interface NearExpiryGroup {
+  key: string;
+  label: string;
+  quantities: Record<string, number>;
+  values: Record<string, number>;
+  total_quantity: number;
+  total_value: number;
+}
+
+export interface PurchaseOrderLineInput {
+  product_id: string;
+  unit_id: string;
+  quantity: number;
+  quantity_strips: number;
+  cost_per_strip: number;
+  notes: string;
+}
+
+export interface ReceiptVariance {
+  purchase_order_line_id: string;
+  po_number: string;
+  product_name: string;
+  ordered_strips: number;
+  previously_received_strips: number;
+  receiving_strips: number;
+  // Positive when more than ordered will have been received, negative when short
+  variance_strips: number;
+}
+
+export interface PurchaseCostingLine {
+  quantity_strips: number; // Paid strips
+  free_strips: number;
+  invoice_rate_per_strip: number;
+  discount_percent: number;
+}
+
+export interface PurchaseLineCost {
+  received_strips: number;
+  gross_value: number;
+  discount_value: number;
+  net_value: number;
+  freight_amount: number;
+  landed_value: number;
+  landed_cost_per_strip: number;
+}
+
+export type PurchaseCostSummary = Pick<PurchaseLineCost,
+  'received_strips' | 'gross_value' | 'discount_value' | 'net_value' | 'freight_amount' | 'landed_value'>;
+
+export interface OpenPurchaseOrderSummary {
+  supplier_id: string;
+  open_orders: number;
+  overdue_orders: number;
+  outstanding_strips: number;
+  outstanding_value: number;
+  next_expected_date: string | null;
+}
+
+export interface SupplierPurchaseLine {
+  purchase_id: string;
+  purchase_group_id: string;
+  reference_document_id: string | null;
+  purchase_date: string;
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  generic_name: string;
+  batch_id: string;
+  batch_number: string;
+  expiry_date: string | null;
+  quantity_strips: number;
+  cost_per_strip: number;
+}
+
+export interface SupplierGrn {
+  purchase_group_id: string;
+  reference_document_id: string | null;
+  purchase_date: string;
+  lines: number;
+  quantity_strips: number;
+  value: number;
+}
+
+export interface SupplierMonthlyPurchase {
+  month: string; // YYYY-MM
+  grns: number;
+  quantity_strips: number;
+  value: number;
+}
+
+export interface SupplierProductCost {
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  generic_name: string;
+  quantity_strips: number;
+  value: number;
+  // Weighted by strips received
+  average_cost_per_strip: number;
+  last_cost_per_strip: number;
+  last_purchase_date: string;
+  batches: string[];
+  monthly_costs: { month: string; average_cost_per_strip: number }[];
+}
+
+export interface GenericSupplierPrice {
+  supplier_id: string;
+  supplier_name: string;
+  quantity_strips: number;
+  average_cost_per_strip: number;
+  last_cost_per_strip: number;
+  last_purchase_date: string;
+}
+
+export interface ProductTaxRate {
+  hsn_code: string | null;
+  gst_rate: number;
+}
+
+export interface LineTax extends ProductTaxRate {
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+}
+
+export type TaxTotals = Pick<LineTax, 'taxable_value' | 'cgst_amount' | 'sgst_amount' | 'igst_amount'> & {
+  tax_amount: number;
+};
+
+export type TaxDirection = 'input' | 'output';
+
+export interface TaxReportFilters {
+  fromDate: string;
+  toDate: string;
+}
+
+export interface TaxReportLine extends LineTax {
+  group_id: string;
+  document_number: string;
+  document_date: string;
+  party_name: string;
+  party_gstin: string | null;
+  party_state_code: string | null;
+  quantity_strips: number;
+}
+
+export interface TaxRateSummaryRow extends TaxTotals {
+  hsn_code: string;
+  gst_rate: number;
+  quantity_strips: number;
+}
+
+export interface TaxDocumentSummaryRow extends TaxTotals {
+  group_id: string;
+  document_number: string;
+  document_date: string;
+  party_name: string;
+  party_gstin: string | null;
+  party_state_code: string | null;
+}
+
+export type MarginGrouping = 'product' | 'customer' | 'mr';
+
+export interface MarginReportFilters {
+  fromDate: string;
+  toDate: string;
+}
+
+export interface MarginLine {
+  transaction_type: string;
+  sale_date: string;
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  customer_id: string | null;
+  customer_name: string;
+  mr_user_id: string | null;
+  quantity_strips: number;
+  revenue: number;
+  cost: number;
+}
+
+export interface MarginRow {
+  key: string;
+  label: string;
+  quantity_strips: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  margin_percent: number;
+}
+
+export type DocumentType = 'GRN' | 'DELIVERY_CHALLAN' | 'TAX_INVOICE';
+
+// Documents numbered automatically; stock adjustments are numbered but not printed
+export type NumberingSeriesType = DocumentType | 'STOCK_ADJUSTMENT';
+
+export interface DocumentParty {
+  name: string;
+  code: string | null;
+  address: string | null;
+  gstin: string | null;
+  state_code: string | null;
+  drug_licence_number: string | null;
+  phone: string | null;
+}
+
+export interface PrintableDocumentLine extends LineTax {
+  product_name: string;
+  product_code: string;
+  batch_number: string;
+  expiry_date: string | null;
+  quantity_strips: number;
+  free_strips: number;
+  packaging_quantity: string;
+  rate_per_strip: number;
+}
+
+export interface PrintableDocument {
+  document_type: DocumentType;
+  group_id: string;
+  document_number: string;
+  document_date: string;
+  party_label: string;
+  party: DocumentParty;
+  references: { label: string; value: string }[];
+  inter_state: boolean;
+  notes: string | null;
+  lines: PrintableDocumentLine[];
+}